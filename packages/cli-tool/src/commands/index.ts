@@ -10,6 +10,8 @@ import "./clear.js";
 import "./exit.js";
 import "./help.js";
 import "./ls.js";
+import "./ota.js";
 import "./pwd.js";
+import "./replay.js";
 import "./rm.js";
 import "./set.js";
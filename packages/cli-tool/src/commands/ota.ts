@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Domain } from "#domain.js";
+import { Bytes } from "#general";
+import { OtaImage } from "#protocol";
+import { VendorId } from "#types";
+import { readFile, writeFile } from "fs/promises";
+import { Command } from "./command.js";
+
+Command({
+    usage: ["create OUTFILE PAYLOADFILE {HEADER}", "info FILE", "verify FILE"],
+    description:
+        "Build, inspect and verify Matter OTA image files.  " +
+        "create packages a firmware payload; HEADER is an object or JSON string with vendorId, productId, " +
+        "softwareVersion, softwareVersionString and optionally minApplicableSoftwareVersion, " +
+        "maxApplicableSoftwareVersion and releaseNotesUrl.  info displays the header of an image.  verify validates " +
+        "size and digest of an image.",
+    maxArgs: 4,
+
+    invoke: async function ota(args) {
+        const [action, ...params] = args;
+
+        switch (action) {
+            case "create":
+                return create(this, params);
+
+            case "info":
+                return info(this, params);
+
+            case "verify":
+                return verify(this, params);
+
+            default:
+                this.err(`Invalid argument: Unknown action ${action}\n`);
+        }
+    },
+});
+
+async function create(domain: Domain, [outfile, payloadFile, header]: unknown[]) {
+    if (typeof outfile !== "string" || typeof payloadFile !== "string") {
+        domain.err("Invalid argument: create requires output and payload file\n");
+        return;
+    }
+    if (typeof header === "string") {
+        try {
+            header = JSON.parse(header);
+        } catch (e) {
+            domain.err(`Invalid argument: header is not valid JSON (${(e as Error).message})\n`);
+            return;
+        }
+    }
+    if (typeof header !== "object" || header === null) {
+        domain.err("Invalid argument: create requires header object\n");
+        return;
+    }
+
+    const options = header as OtaImage.Options;
+    const payload = new Uint8Array(await readFile(payloadFile));
+    const image = OtaImage.create(
+        {
+            ...options,
+            vendorId: VendorId(Number(options.vendorId)),
+            productId: Number(options.productId),
+            softwareVersion: Number(options.softwareVersion),
+            softwareVersionString: `${options.softwareVersionString ?? options.softwareVersion}`,
+        },
+        payload,
+    );
+    await writeFile(outfile, image);
+
+    domain.out(`Created ${outfile} with ${image.length} bytes\n`);
+}
+
+async function info(domain: Domain, [file]: unknown[]) {
+    if (typeof file !== "string") {
+        domain.err("Invalid argument: info requires file\n");
+        return;
+    }
+
+    const { header, payloadOffset, totalSize } = OtaImage.decodeHeader(new Uint8Array(await readFile(file)));
+    return {
+        ...header,
+        imageDigest: Bytes.toHex(header.imageDigest),
+        payloadOffset,
+        totalSize,
+    };
+}
+
+async function verify(domain: Domain, [file]: unknown[]) {
+    if (typeof file !== "string") {
+        domain.err("Invalid argument: verify requires file\n");
+        return;
+    }
+
+    const {
+        header: { softwareVersion, softwareVersionString },
+    } = OtaImage.validate(new Uint8Array(await readFile(file)));
+
+    domain.out(`${file} is a valid OTA image for software version ${softwareVersionString} (${softwareVersion})\n`);
+}
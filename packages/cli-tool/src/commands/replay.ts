@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { serialize } from "#general";
+import { Behavior, TraceReplay } from "#node";
+import * as behaviors from "@matter/node/behaviors";
+import { NodeJsActionTracer } from "@matter/nodejs";
+import { Command } from "./command.js";
+
+// Replay with the standard server implementations
+const serverBehaviors = Object.entries(behaviors)
+    .filter(([name]) => name.endsWith("Server"))
+    .map(([, type]) => type as Behavior.Type);
+
+Command({
+    usage: "FILE",
+    description:
+        "Replay a trace recorded with trace.enable.  Rebuilds the node from the recorded initialization, applies " +
+        "recorded writes and invokes and reports where the result differs from the recording.",
+    maxArgs: 1,
+
+    invoke: async function replay([file]) {
+        if (typeof file !== "string") {
+            this.err("Invalid argument: replay requires trace file\n");
+            return;
+        }
+
+        const actions = await NodeJsActionTracer.load(file);
+        const replay = new TraceReplay(actions, { behaviors: serverBehaviors, environment: this.env });
+        try {
+            const { replayed, skipped, divergences } = await replay.run();
+
+            for (const { index, action, aspect, expected, actual } of divergences) {
+                this.out(
+                    `#${index} ${action.type} ${action.path ?? "(unknown)"}: ${aspect} differs\n`,
+                    `  expected ${serialize(expected) ?? "undefined"}\n`,
+                    `  actual   ${serialize(actual) ?? "undefined"}\n`,
+                );
+            }
+
+            this.out(`Replayed ${replayed} actions, skipped ${skipped}, ${divergences.length} divergences\n`);
+        } finally {
+            await replay.close();
+        }
+    },
+});
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ImplementationError } from "../MatterError.js";
+import { Bytes } from "../util/Bytes.js";
+import { LogFormat } from "./LogFormat.js";
+import { Logger } from "./Logger.js";
+import { LogLevel } from "./LogLevel.js";
+
+let nextBufferId = 1;
+
+/**
+ * Retains the most recent log messages in memory.
+ *
+ * Once {@link install}ed the buffer receives messages from {@link Logger} formatted with the configured
+ * {@link LogFormat}.  When the buffer exceeds its maximum size the oldest messages are discarded.
+ */
+export class LogBuffer {
+    readonly #maxSize: number;
+    readonly #level: LogLevel;
+    readonly #format: string;
+    readonly #facilities?: Set<string>;
+    readonly #entries = new Array<Uint8Array>();
+    #size = 0;
+    #identifier?: string;
+
+    constructor(options: LogBuffer.Options = {}) {
+        this.#maxSize = options.maxSize ?? LogBuffer.DEFAULT_MAX_SIZE;
+        this.#level = options.level ?? LogLevel.INFO;
+        this.#format = options.format ?? LogFormat.PLAIN;
+        if (options.facilities) {
+            this.#facilities = new Set(options.facilities);
+        }
+
+        if (this.#maxSize <= 0) {
+            throw new ImplementationError(`Log buffer size must be positive`);
+        }
+    }
+
+    /**
+     * The number of bytes retained.
+     */
+    get size() {
+        return this.#size;
+    }
+
+    get isInstalled() {
+        return this.#identifier !== undefined;
+    }
+
+    /**
+     * Receive messages from {@link Logger}.
+     */
+    install() {
+        if (this.#identifier !== undefined) {
+            return;
+        }
+
+        const identifier = `log-buffer-${nextBufferId++}`;
+        Logger.addLogger(identifier, (level, formattedLog, facility) => this.add(level, formattedLog, facility), {
+            defaultLogLevel: this.#level,
+            logFormat: this.#format,
+        });
+        this.#identifier = identifier;
+    }
+
+    /**
+     * Stop receiving messages from {@link Logger}.  Retained messages remain available.
+     */
+    uninstall() {
+        if (this.#identifier === undefined) {
+            return;
+        }
+
+        Logger.removeLogger(this.#identifier);
+        this.#identifier = undefined;
+    }
+
+    /**
+     * Add a formatted message.  Ignored if the level or facility does not match the configuration of the buffer.
+     */
+    add(level: LogLevel, formattedLog: string, facility?: string) {
+        if (level < this.#level) {
+            return;
+        }
+        if (this.#facilities && (facility === undefined || !this.#facilities.has(facility))) {
+            return;
+        }
+
+        let entry = Bytes.fromString(`${formattedLog}\n`);
+        if (entry.length > this.#maxSize) {
+            entry = entry.subarray(entry.length - this.#maxSize);
+        }
+
+        this.#entries.push(entry);
+        this.#size += entry.length;
+        while (this.#size > this.#maxSize) {
+            this.#size -= this.#entries.shift()!.length;
+        }
+    }
+
+    /**
+     * Retrieve the retained messages as UTF-8 text, oldest first.
+     */
+    read() {
+        return Bytes.concat(...this.#entries);
+    }
+
+    clear() {
+        this.#entries.length = 0;
+        this.#size = 0;
+    }
+}
+
+export namespace LogBuffer {
+    /** The default maximum size in bytes. */
+    export const DEFAULT_MAX_SIZE = 64 * 1024;
+
+    export interface Options {
+        /** The maximum number of bytes to retain.  Defaults to {@link DEFAULT_MAX_SIZE}. */
+        maxSize?: number;
+
+        /** The minimum level of messages to retain.  Defaults to {@link LogLevel.INFO}. */
+        level?: LogLevel;
+
+        /** The format of retained messages.  Defaults to {@link LogFormat.PLAIN}. */
+        format?: string;
+
+        /** If present, only retain messages of these facilities. */
+        facilities?: string[];
+    }
+}
@@ -63,7 +63,7 @@ function logFormatterFor(formatName: string): LoggerDefinition["logFormatter"] {
 type LoggerDefinition = {
     logIdentifier: string;
     logFormatter: (now: Date, level: LogLevel, facility: string, prefix: string, ...values: any[]) => string;
-    log: (level: LogLevel, formattedLog: string) => void;
+    log: (level: LogLevel, formattedLog: string, facility?: string) => void;
     defaultLogLevel: LogLevel;
     logLevels: { [facility: string]: LogLevel };
 };
@@ -105,7 +105,7 @@ export class Logger {
     /** Add additional logger to the list of loggers including the default configuration. */
     public static addLogger(
         identifier: string,
-        logger: (level: LogLevel, formattedLog: string) => void,
+        logger: (level: LogLevel, formattedLog: string, facility?: string) => void,
         options?: {
             defaultLogLevel?: LogLevel;
             logLevels?: { [facility: string]: LogLevel };
@@ -218,7 +218,7 @@ export class Logger {
      *
      * @param log The log function to set
      */
-    public static set log(log: (level: LogLevel, formattedLog: string) => void) {
+    public static set log(log: (level: LogLevel, formattedLog: string, facility?: string) => void) {
         Logger.setLogger("default", log);
     }
 
@@ -298,7 +298,10 @@ export class Logger {
      * @param identifier The identifier of the logger
      * @param log The log function to set
      */
-    public static setLogger(identifier: string, log: (level: LogLevel, formattedLog: string) => void) {
+    public static setLogger(
+        identifier: string,
+        log: (level: LogLevel, formattedLog: string, facility?: string) => void,
+    ) {
         const logger = Logger.logger.find(logger => logger.logIdentifier === identifier);
         if (logger) {
             logger.log = log;
@@ -456,7 +459,7 @@ export class Logger {
     private log(level: LogLevel, values: any[]) {
         Logger.logger.forEach(logger => {
             if (level < (logger.logLevels[this.name] ?? logger.defaultLogLevel)) return;
-            logger.log(level, logger.logFormatter(Time.now(), level, this.name, nestingPrefix(), values));
+            logger.log(level, logger.logFormatter(Time.now(), level, this.name, nestingPrefix(), values), this.name);
         });
     }
 }
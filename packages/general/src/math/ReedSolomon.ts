@@ -55,6 +55,21 @@ class GaloisField {
         return this.exp[(this.log[x] * power) % this.size];
     }
 
+    public divide(x: number, y: number) {
+        if (y === 0) throw new UnexpectedDataError("Division by zero");
+        if (x === 0) return 0;
+        return this.exp[(this.log[x] + this.size - this.log[y]) % this.size];
+    }
+
+    /** Evaluate a polynom with coefficients ordered from lowest to highest degree. */
+    public evaluatePolynom(p: number[], x: number) {
+        let result = 0;
+        for (let i = p.length - 1; i >= 0; i--) {
+            result = this.multiply(result, x) ^ p[i];
+        }
+        return result;
+    }
+
     private multiplyNoLut(x: number, y: number) {
         let result = 0;
         while (y > 0) {
@@ -90,6 +105,91 @@ export class ReedSolomon {
         return buffer.slice(length);
     }
 
+    /**
+     * Correct errors in a block of data followed by {@link ecLength} error correction bytes.  Returns the corrected
+     * block.  Throws if the block contains more errors than the error correction bytes can correct.
+     */
+    correctErrors(block: Uint8Array, ecLength: number) {
+        const field = this.galoisField;
+        const { length } = block;
+
+        // Syndromes are zero if the block is intact
+        const syndromes = new Array<number>();
+        let intact = true;
+        for (let i = 0; i < ecLength; i++) {
+            const root = field.power(2, i);
+            let syndrome = 0;
+            for (const byte of block) {
+                syndrome = field.multiply(syndrome, root) ^ byte;
+            }
+            syndromes[i] = syndrome;
+            if (syndrome !== 0) intact = false;
+        }
+        if (intact) return block.slice();
+
+        // Berlekamp-Massey computes the error locator polynom
+        let locator = [1];
+        let previous = [1];
+        let errorCount = 0;
+        let shift = 1;
+        let previousDiscrepancy = 1;
+        for (let n = 0; n < ecLength; n++) {
+            let discrepancy = syndromes[n];
+            for (let i = 1; i <= errorCount; i++) {
+                discrepancy ^= field.multiply(locator[i] ?? 0, syndromes[n - i]);
+            }
+            if (discrepancy === 0) {
+                shift++;
+                continue;
+            }
+
+            const factor = field.divide(discrepancy, previousDiscrepancy);
+            const updated = [...locator];
+            for (let i = 0; i < previous.length; i++) {
+                updated[i + shift] = (updated[i + shift] ?? 0) ^ field.multiply(factor, previous[i]);
+            }
+
+            if (2 * errorCount <= n) {
+                previous = locator;
+                errorCount = n + 1 - errorCount;
+                previousDiscrepancy = discrepancy;
+                shift = 1;
+            } else {
+                shift++;
+            }
+            locator = updated;
+        }
+        for (let i = 0; i < locator.length; i++) locator[i] ??= 0;
+        if (2 * errorCount > ecLength) throw new UnexpectedDataError("Too many errors to correct");
+
+        // Chien search locates the errors
+        const positions = new Array<number>();
+        for (let position = 0; position < length; position++) {
+            const inverse = field.divide(1, field.power(2, length - 1 - position));
+            if (field.evaluatePolynom(locator, inverse) === 0) {
+                positions.push(position);
+            }
+        }
+        if (positions.length !== errorCount) throw new UnexpectedDataError("Too many errors to correct");
+
+        // Forney computes error values from the error evaluator polynom and the locator derivative
+        const evaluator = field.multiplyPolynom(syndromes, locator).slice(0, ecLength);
+        for (let i = 0; i < ecLength; i++) evaluator[i] ??= 0;
+        const derivative = locator.slice(1).map((coefficient, i) => (i % 2 === 0 ? coefficient : 0));
+        const result = block.slice();
+        for (const position of positions) {
+            const location = field.power(2, length - 1 - position);
+            const inverse = field.divide(1, location);
+            const value = field.multiply(
+                location,
+                field.divide(field.evaluatePolynom(evaluator, inverse), field.evaluatePolynom(derivative, inverse)),
+            );
+            result[position] ^= value;
+        }
+
+        return result;
+    }
+
     private generatePolynom(ecLength: number) {
         let result = [1];
         for (let i = 0; i < ecLength; i++) {
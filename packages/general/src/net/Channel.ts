@@ -3,7 +3,7 @@
  * Copyright 2022-2024 Matter.js Authors
  * SPDX-License-Identifier: Apache-2.0
  */
-import { ServerAddressIp } from "#net/ServerAddress.js";
+import { ServerAddressIp, ServerAddressTcp } from "#net/ServerAddress.js";
 import { isObject } from "#util/Type.js";
 
 export enum ChannelType {
@@ -32,7 +32,7 @@ export interface Channel<T> {
 }
 
 export interface IpNetworkChannel<T> extends Channel<T> {
-    networkAddress: ServerAddressIp;
+    networkAddress: ServerAddressIp | ServerAddressTcp;
 }
 
 export function isIpNetworkChannel<T>(channel: Channel<T>): channel is IpNetworkChannel<T> {
@@ -6,6 +6,7 @@
 
 import { MatterError, NoProviderError } from "../MatterError.js";
 import { MaybePromise } from "../util/Promises.js";
+import { TcpConnection, TcpConnectionOptions, TcpServer, TcpServerOptions } from "./TcpChannel.js";
 import { UdpChannel, UdpChannelOptions } from "./UdpChannel.js";
 
 export class NetworkError extends MatterError {}
@@ -64,6 +65,20 @@ export abstract class Network {
     abstract getIpMac(netInterface: string): MaybePromise<NetworkInterfaceDetails | undefined>;
     abstract createUdpChannel(options: UdpChannelOptions): Promise<UdpChannel>;
 
+    /**
+     * Create a server accepting TCP connections.  TCP support is optional so the default implementation throws.
+     */
+    async createTcpServer(_options: TcpServerOptions): Promise<TcpServer> {
+        throw new NetworkError("TCP is not supported by this network");
+    }
+
+    /**
+     * Open a TCP connection.  TCP support is optional so the default implementation throws.
+     */
+    async connectTcp(_options: TcpConnectionOptions): Promise<TcpConnection> {
+        throw new NetworkError("TCP is not supported by this network");
+    }
+
     async close() {
         // Nothing to do
     }
@@ -10,6 +10,12 @@ export type ServerAddressIp = {
     port: number;
 };
 
+export type ServerAddressTcp = {
+    type: "tcp";
+    ip: string;
+    port: number;
+};
+
 export type ServerAddressBle = {
     type: "ble";
     peripheralAddress: string;
@@ -23,8 +29,10 @@ export interface Lifespan {
     ttl: number;
 }
 
-export type ServerAddress = (ServerAddressIp | ServerAddressBle) & Partial<Lifespan>;
+export type ServerAddress = (ServerAddressIp | ServerAddressTcp | ServerAddressBle) & Partial<Lifespan>;
 
 export function serverAddressToString(address: ServerAddress): string {
-    return address.type === "udp" ? `udp://${address.ip}:${address.port}` : `ble://${address.peripheralAddress}`;
+    return address.type === "ble"
+        ? `ble://${address.peripheralAddress}`
+        : `${address.type}://${address.ip}:${address.port}`;
 }
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChannelType } from "./Channel.js";
+import { NetworkError } from "./Network.js";
+import { TransportInterface } from "./TransportInterface.js";
+
+/**
+ * Maximum size of a Matter message over TCP.  This is the large payload size used by the CHIP SDK.
+ */
+export const MAX_TCP_MESSAGE_SIZE = 64_000;
+
+/** Size of the message length preceding each message in the TCP stream. */
+const LENGTH_PREFIX_SIZE = 4;
+
+export interface TcpServerOptions {
+    listeningPort?: number;
+    type: "tcp4" | "tcp6";
+    listeningAddress?: string;
+    netInterface?: string;
+}
+
+export interface TcpConnectionOptions {
+    host: string;
+    port: number;
+    type: "tcp4" | "tcp6";
+}
+
+/**
+ * A listening TCP socket accepting connections.
+ */
+export interface TcpServer {
+    onConnection(listener: (connection: TcpConnection) => void): TransportInterface.Listener;
+    close(): Promise<void>;
+    get port(): number;
+    supports(type: ChannelType, address?: string): boolean;
+}
+
+/**
+ * An established TCP connection transporting a stream of bytes.
+ */
+export interface TcpConnection {
+    readonly peerAddress: string;
+    readonly peerPort: number;
+    onData(listener: (data: Uint8Array) => void): TransportInterface.Listener;
+    onClose(listener: () => void): TransportInterface.Listener;
+    send(data: Uint8Array): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Length-prefixed framing of Matter messages over a TCP byte stream.
+ *
+ * Each message is preceded by its length as a 32-bit unsigned little endian integer.  The framer collects stream
+ * chunks and returns complete messages.
+ */
+export class TcpMessageFramer {
+    #buffer = new Uint8Array(0);
+    readonly #maxMessageSize: number;
+
+    constructor(maxMessageSize = MAX_TCP_MESSAGE_SIZE) {
+        this.#maxMessageSize = maxMessageSize;
+    }
+
+    /**
+     * Prefix a message with its length.
+     */
+    static frame(message: Uint8Array) {
+        const frame = new Uint8Array(LENGTH_PREFIX_SIZE + message.length);
+        new DataView(frame.buffer).setUint32(0, message.length, true);
+        frame.set(message, LENGTH_PREFIX_SIZE);
+        return frame;
+    }
+
+    /**
+     * Add received bytes and return all messages completed by them.
+     */
+    push(chunk: Uint8Array) {
+        const buffer = new Uint8Array(this.#buffer.length + chunk.length);
+        buffer.set(this.#buffer);
+        buffer.set(chunk, this.#buffer.length);
+
+        const messages = new Array<Uint8Array>();
+        let offset = 0;
+        while (buffer.length - offset >= LENGTH_PREFIX_SIZE) {
+            const length = new DataView(buffer.buffer, offset).getUint32(0, true);
+            if (length > this.#maxMessageSize) {
+                throw new NetworkError(`TCP message of ${length} bytes exceeds maximum of ${this.#maxMessageSize}`);
+            }
+            if (buffer.length - offset - LENGTH_PREFIX_SIZE < length) {
+                break;
+            }
+            offset += LENGTH_PREFIX_SIZE;
+            messages.push(buffer.slice(offset, offset + length));
+            offset += length;
+        }
+
+        this.#buffer = buffer.slice(offset);
+        return messages;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from "../log/Logger.js";
+import { Channel, ChannelType, IpNetworkChannel } from "./Channel.js";
+import { NetInterface } from "./NetInterface.js";
+import { Network, NetworkError } from "./Network.js";
+import { ServerAddress, ServerAddressTcp } from "./ServerAddress.js";
+import { MAX_TCP_MESSAGE_SIZE, TcpConnection, TcpMessageFramer, TcpServer } from "./TcpChannel.js";
+import { TransportInterface } from "./TransportInterface.js";
+
+const logger = Logger.get("TcpInterface");
+
+/**
+ * A {@link NetInterface} transporting Matter messages over TCP.
+ *
+ * Accepts incoming connections on a {@link TcpServer} and opens outgoing connections via {@link Network.connectTcp}.
+ * Each connection is a reliable channel so messages are not subject to MRP and may be as large as
+ * {@link MAX_TCP_MESSAGE_SIZE}.
+ */
+export class TcpInterface implements NetInterface {
+    readonly #network: Network;
+    readonly #server: TcpServer;
+    readonly #type: "tcp4" | "tcp6";
+    readonly #connections = new Set<TcpMessageChannel>();
+    readonly #listeners = new Set<(channel: Channel<Uint8Array>, messageBytes: Uint8Array) => void>();
+
+    static async create(network: Network, type: "tcp4" | "tcp6", port?: number, host?: string, netInterface?: string) {
+        return new TcpInterface(
+            network,
+            type,
+            await network.createTcpServer({ listeningPort: port, type, netInterface, listeningAddress: host }),
+        );
+    }
+
+    constructor(network: Network, type: "tcp4" | "tcp6", server: TcpServer) {
+        this.#network = network;
+        this.#type = type;
+        this.#server = server;
+        this.#server.onConnection(connection => this.#add(connection));
+    }
+
+    supports(type: ChannelType, address?: string) {
+        return this.#server.supports(type, address);
+    }
+
+    async openChannel(address: ServerAddress) {
+        if (address.type !== "tcp") {
+            throw new NetworkError(`Unsupported address type ${address.type}`);
+        }
+        const { ip, port } = address;
+        return this.#add(await this.#network.connectTcp({ host: ip, port, type: this.#type }));
+    }
+
+    onData(listener: (channel: Channel<Uint8Array>, messageBytes: Uint8Array) => void): TransportInterface.Listener {
+        this.#listeners.add(listener);
+        return {
+            close: async () => {
+                this.#listeners.delete(listener);
+            },
+        };
+    }
+
+    get port() {
+        return this.#server.port;
+    }
+
+    async close() {
+        for (const connection of this.#connections) {
+            await connection.close();
+        }
+        await this.#server.close();
+    }
+
+    #add(connection: TcpConnection) {
+        const channel = new TcpMessageChannel(connection);
+        this.#connections.add(channel);
+
+        const framer = new TcpMessageFramer();
+        connection.onData(data => {
+            let messages;
+            try {
+                messages = framer.push(data);
+            } catch (error) {
+                logger.warn(`Closing ${channel.name} due to invalid data:`, error);
+                channel.close().catch(error => logger.error(`Error closing ${channel.name}:`, error));
+                return;
+            }
+
+            for (const message of messages) {
+                for (const listener of this.#listeners) {
+                    listener(channel, message);
+                }
+            }
+        });
+        connection.onClose(() => this.#connections.delete(channel));
+
+        return channel;
+    }
+}
+
+/**
+ * A channel for one TCP connection.
+ */
+class TcpMessageChannel implements IpNetworkChannel<Uint8Array> {
+    readonly isReliable = true;
+    readonly type = ChannelType.TCP;
+    readonly maxPayloadSize = MAX_TCP_MESSAGE_SIZE;
+
+    constructor(private readonly connection: TcpConnection) {}
+
+    send(data: Uint8Array) {
+        return this.connection.send(TcpMessageFramer.frame(data));
+    }
+
+    get name() {
+        return `${this.type}://${this.connection.peerAddress}:${this.connection.peerPort}`;
+    }
+
+    get networkAddress(): ServerAddressTcp {
+        return { type: "tcp", ip: this.connection.peerAddress, port: this.connection.peerPort };
+    }
+
+    close() {
+        return this.connection.close();
+    }
+}
@@ -24,6 +24,17 @@ export interface UdpChannel {
         listener: (netInterface: string, peerAddress: string, peerPort: number, data: Uint8Array) => void,
     ): TransportInterface.Listener;
     send(host: string, port: number, data: Uint8Array): Promise<void>;
+
+    /**
+     * Join a multicast group so the channel receives messages sent to the multicast address.
+     */
+    addMembership(address: string): Promise<void>;
+
+    /**
+     * Leave a multicast group joined with {@link addMembership}.
+     */
+    dropMembership(address: string): Promise<void>;
+
     close(): void;
     get port(): number;
     supports(type: ChannelType, address?: string): boolean;
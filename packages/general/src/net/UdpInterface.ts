@@ -42,6 +42,20 @@ export class UdpInterface implements NetInterface {
         return this.server.port;
     }
 
+    /**
+     * Join a multicast group so the interface receives messages sent to the multicast address.
+     */
+    addMembership(address: string) {
+        return this.server.addMembership(address);
+    }
+
+    /**
+     * Leave a multicast group.
+     */
+    dropMembership(address: string) {
+        return this.server.dropMembership(address);
+    }
+
     async close() {
         this.server.close();
     }
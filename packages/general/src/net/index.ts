@@ -6,11 +6,14 @@
 
 export * from "./Channel.js";
 export * from "./mock/MockNetwork.js";
+export * from "./mock/MockTcpChannel.js";
 export * from "./mock/MockUdpChannel.js";
 export * from "./mock/NetworkSimulator.js";
 export * from "./NetInterface.js";
 export * from "./Network.js";
 export * from "./ServerAddress.js";
+export * from "./TcpChannel.js";
+export * from "./TcpInterface.js";
 export * from "./TransportInterface.js";
 export * from "./UdpChannel.js";
 export * from "./UdpInterface.js";
@@ -7,7 +7,9 @@
 import { ChannelType } from "#net/Channel.js";
 import { isIPv4 } from "../../util/Ip.js";
 import { Network, NetworkInterface, NetworkInterfaceDetails } from "../Network.js";
+import { TcpConnection, TcpConnectionOptions, TcpServer, TcpServerOptions } from "../TcpChannel.js";
 import { UdpChannel, UdpChannelOptions } from "../UdpChannel.js";
+import { MockTcpConnection, MockTcpServer } from "./MockTcpChannel.js";
 import { MockUdpChannel } from "./MockUdpChannel.js";
 import { NetworkSimulator } from "./NetworkSimulator.js";
 
@@ -36,7 +38,15 @@ export class MockNetwork extends Network {
         return MockUdpChannel.create(this, options);
     }
 
+    override createTcpServer(options: TcpServerOptions): Promise<TcpServer> {
+        return MockTcpServer.create(this, options);
+    }
+
+    override connectTcp(options: TcpConnectionOptions): Promise<TcpConnection> {
+        return MockTcpConnection.connect(this, options);
+    }
+
     supports(type: ChannelType, _address: string) {
-        return type === ChannelType.UDP;
+        return type === ChannelType.UDP || type === ChannelType.TCP;
     }
 }
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChannelType } from "#net/Channel.js";
+import { isIPv4 } from "../../util/Ip.js";
+import { NetworkError } from "../Network.js";
+import { TcpConnection, TcpConnectionOptions, TcpServer, TcpServerOptions } from "../TcpChannel.js";
+import { TransportInterface } from "../TransportInterface.js";
+import { MockNetwork } from "./MockNetwork.js";
+import { NetworkSimulator } from "./NetworkSimulator.js";
+
+function localAddressOf(network: MockNetwork, type: "tcp4" | "tcp6", netInterface?: string) {
+    const { ipV4, ipV6 } = network.getIpMac(netInterface ?? NetworkSimulator.INTERFACE_NAME);
+    const localAddress = type === "tcp4" ? ipV4[0] : (ipV6[0] ?? ipV4[0]);
+    if (localAddress === undefined) {
+        throw new NetworkError("No matching IP on the specified interface");
+    }
+    return localAddress;
+}
+
+function randomPort() {
+    return 1024 + Math.floor(Math.random() * 64511); // Random port 1024-65535
+}
+
+/**
+ * One side of a simulated TCP connection.  Data sent on one side is delivered synchronously to the other side.
+ */
+export class MockTcpConnection implements TcpConnection {
+    private peer?: MockTcpConnection;
+    private closed = false;
+    private readonly dataListeners = new Set<(data: Uint8Array) => void>();
+    private readonly closeListeners = new Set<() => void>();
+
+    static async connect(network: MockNetwork, { host, port, type }: TcpConnectionOptions) {
+        const client = new MockTcpConnection(host, port);
+        const server = new MockTcpConnection(localAddressOf(network, type), randomPort());
+        client.peer = server;
+        server.peer = client;
+        NetworkSimulator.get().connectTcp(host, port, server);
+        return client;
+    }
+
+    constructor(
+        readonly peerAddress: string,
+        readonly peerPort: number,
+    ) {}
+
+    onData(listener: (data: Uint8Array) => void) {
+        this.dataListeners.add(listener);
+        return {
+            close: async () => void this.dataListeners.delete(listener),
+        };
+    }
+
+    onClose(listener: () => void) {
+        this.closeListeners.add(listener);
+        return {
+            close: async () => void this.closeListeners.delete(listener),
+        };
+    }
+
+    async send(data: Uint8Array) {
+        if (this.closed || this.peer === undefined) {
+            throw new NetworkError(`TCP connection to ${this.peerAddress}:${this.peerPort} is closed`);
+        }
+        this.peer.dataListeners.forEach(listener => listener(data));
+    }
+
+    async close() {
+        this.disconnect();
+        this.peer?.disconnect();
+    }
+
+    private disconnect() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.closeListeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * A simulated TCP server accepting connections via the {@link NetworkSimulator}.
+ */
+export class MockTcpServer implements TcpServer {
+    static async create(
+        network: MockNetwork,
+        { listeningAddress, listeningPort, netInterface, type }: TcpServerOptions,
+    ) {
+        // Validate the network provides an address of the requested type
+        localAddressOf(network, type, netInterface);
+        return new MockTcpServer(type, listeningAddress, listeningPort ?? randomPort());
+    }
+
+    private readonly listeners = new Set<(connection: TcpConnection) => void>();
+    private readonly netListener: TransportInterface.Listener;
+
+    constructor(
+        private readonly type: "tcp4" | "tcp6",
+        listeningAddress: string | undefined,
+        readonly port: number,
+    ) {
+        this.netListener = NetworkSimulator.get().onTcpConnection(listeningAddress, port, connection =>
+            this.listeners.forEach(listener => listener(connection)),
+        );
+    }
+
+    onConnection(listener: (connection: TcpConnection) => void) {
+        this.listeners.add(listener);
+        return {
+            close: async () => void this.listeners.delete(listener),
+        };
+    }
+
+    async close() {
+        this.listeners.clear();
+        await this.netListener.close();
+    }
+
+    supports(type: ChannelType, address?: string) {
+        if (type !== ChannelType.TCP) {
+            return false;
+        }
+
+        if (address === undefined) {
+            return true;
+        }
+
+        return isIPv4(address) === (this.type === "tcp4");
+    }
+}
@@ -25,6 +25,8 @@ export class MockUdpChannel implements UdpChannel {
     }
 
     private readonly netListeners = new Array<TransportInterface.Listener>();
+    private readonly listeners = new Set<NetworkSimulator.Listener>();
+    private readonly memberships = new Map<string, TransportInterface.Listener>();
     private readonly simulatedNetwork = NetworkSimulator.get();
     private readonly listeningPort: number;
     readonly maxPayloadSize = MAX_UDP_MESSAGE_SIZE;
@@ -41,18 +43,45 @@ export class MockUdpChannel implements UdpChannel {
     onData(listener: (netInterface: string, peerAddress: string, peerPort: number, data: Uint8Array) => void) {
         const netListener = this.simulatedNetwork.onUdpData(this.listeningAddress, this.listeningPort, listener);
         this.netListeners.push(netListener);
-        return netListener;
+        this.listeners.add(listener);
+        return {
+            close: async () => {
+                this.listeners.delete(listener);
+                await netListener.close();
+            },
+        };
     }
 
     async send(host: string, port: number, data: Uint8Array) {
         this.simulatedNetwork.sendUdp(this.localAddress, this.listeningPort, host, port, data);
     }
 
+    async addMembership(address: string) {
+        if (this.memberships.has(address)) {
+            return;
+        }
+
+        // Messages to the multicast address go to all listeners of the channel
+        this.memberships.set(
+            address,
+            this.simulatedNetwork.onUdpData(address, this.listeningPort, (...args) =>
+                this.listeners.forEach(listener => listener(...args)),
+            ),
+        );
+    }
+
+    async dropMembership(address: string) {
+        await this.memberships.get(address)?.close();
+        this.memberships.delete(address);
+    }
+
     async close() {
-        for (const netListener of this.netListeners) {
+        for (const netListener of [...this.netListeners, ...this.memberships.values()]) {
             await netListener.close();
         }
         this.netListeners.length = 0;
+        this.memberships.clear();
+        this.listeners.clear();
     }
 
     async [Symbol.asyncDispose]() {
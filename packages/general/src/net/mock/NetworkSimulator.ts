@@ -6,6 +6,8 @@
 
 import { Logger } from "../../log/Logger.js";
 import { singleton } from "../../util/Singleton.js";
+import { NetworkError } from "../Network.js";
+import type { TcpConnection } from "../TcpChannel.js";
 import { TransportInterface } from "../TransportInterface.js";
 
 const logger = Logger.get("SimulatedNetwork");
@@ -14,6 +16,7 @@ export class NetworkSimulator {
     static get = singleton(() => new NetworkSimulator());
 
     private readonly listenersMap = new Map<string, Array<NetworkSimulator.Listener>>();
+    private readonly tcpListenersMap = new Map<string, NetworkSimulator.TcpListener>();
 
     onUdpData(
         host: string | undefined,
@@ -55,9 +58,38 @@ export class NetworkSimulator {
             }),
         );
     }
+
+    onTcpConnection(
+        host: string | undefined,
+        port: number,
+        listener: NetworkSimulator.TcpListener,
+    ): TransportInterface.Listener {
+        const ipPort = `${host ?? "*"}:${port}`;
+        if (this.tcpListenersMap.has(ipPort)) {
+            throw new NetworkError(`TCP port ${ipPort} is already in use`);
+        }
+        this.tcpListenersMap.set(ipPort, listener);
+        return {
+            close: async () => {
+                if (this.tcpListenersMap.get(ipPort) === listener) {
+                    this.tcpListenersMap.delete(ipPort);
+                }
+            },
+        };
+    }
+
+    connectTcp(remoteAddress: string, remotePort: number, connection: TcpConnection) {
+        const listener =
+            this.tcpListenersMap.get(`${remoteAddress}:${remotePort}`) ?? this.tcpListenersMap.get(`*:${remotePort}`);
+        if (listener === undefined) {
+            throw new NetworkError(`TCP connection to ${remoteAddress}:${remotePort} refused`);
+        }
+        listener(connection);
+    }
 }
 
 export namespace NetworkSimulator {
     export type Listener = (netInterface: string, peerAddress: string, peerPort: number, data: Uint8Array) => void;
+    export type TcpListener = (connection: TcpConnection) => void;
     export const INTERFACE_NAME = "fakeInterface";
 }
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LogBuffer } from "#log/LogBuffer.js";
+import { LogLevel } from "#log/LogLevel.js";
+import { Logger } from "#log/Logger.js";
+import { Bytes } from "#util/Bytes.js";
+
+function text(buffer: LogBuffer) {
+    return new TextDecoder().decode(buffer.read());
+}
+
+describe("LogBuffer", () => {
+    it("discards oldest messages", () => {
+        const buffer = new LogBuffer({ maxSize: 10 });
+
+        buffer.add(LogLevel.INFO, "one");
+        buffer.add(LogLevel.INFO, "two");
+        buffer.add(LogLevel.INFO, "three");
+
+        expect(text(buffer)).equals("two\nthree\n");
+        expect(buffer.size).equals(10);
+    });
+
+    it("retains tail of oversized message", () => {
+        const buffer = new LogBuffer({ maxSize: 4 });
+
+        buffer.add(LogLevel.INFO, "abcdef");
+
+        expect(buffer.read()).deep.equals(Bytes.fromString("def\n"));
+    });
+
+    it("filters by level and facility", () => {
+        const buffer = new LogBuffer({ level: LogLevel.WARN, facilities: ["Network"] });
+
+        buffer.add(LogLevel.ERROR, "error", "Network");
+        buffer.add(LogLevel.INFO, "info", "Network");
+        buffer.add(LogLevel.ERROR, "other", "Storage");
+
+        expect(text(buffer)).equals("error\n");
+    });
+
+    it("receives messages from logger", () => {
+        const buffer = new LogBuffer({ facilities: ["LogBufferTest"] });
+        const logger = Logger.get("LogBufferTest");
+
+        buffer.install();
+        try {
+            logger.info("hello");
+            logger.debug("ignored");
+        } finally {
+            buffer.uninstall();
+        }
+        logger.info("after");
+
+        expect(text(buffer)).match(/^\S+ \S+ INFO\s+LogBufferTest hello\n$/);
+        expect(buffer.isInstalled).false;
+    });
+});
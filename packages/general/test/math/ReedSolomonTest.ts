@@ -18,4 +18,37 @@ describe("ReedSolomon", () => {
             expect(Bytes.toHex(result)).equal("bc2a90136bafeffd4be0");
         });
     });
+
+    describe("correctErrors", () => {
+        const DATA = Bytes.fromHex("40d2754776173206272696c6c69670ec");
+        const BLOCK = Bytes.concat(DATA, Bytes.fromHex("bc2a90136bafeffd4be0"));
+
+        it("leaves an intact block unchanged", () => {
+            const result = new ReedSolomon().correctErrors(BLOCK, 10);
+
+            expect(Bytes.toHex(result)).equal(Bytes.toHex(BLOCK));
+        });
+
+        it("corrects errors", () => {
+            const damaged = BLOCK.slice();
+            damaged[0] ^= 0xff;
+            damaged[7] = 0;
+            damaged[12] ^= 0x01;
+            damaged[20] ^= 0x5a;
+            damaged[25] ^= 0x80;
+
+            const result = new ReedSolomon().correctErrors(damaged, 10);
+
+            expect(Bytes.toHex(result)).equal(Bytes.toHex(BLOCK));
+        });
+
+        it("rejects too many errors", () => {
+            const damaged = BLOCK.slice();
+            for (let i = 0; i < 6; i++) {
+                damaged[i * 3] ^= 0x42;
+            }
+
+            expect(() => new ReedSolomon().correctErrors(damaged, 10)).throws("Too many errors to correct");
+        });
+    });
 });
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NetworkError } from "#net/Network.js";
+import { TcpMessageFramer } from "#net/TcpChannel.js";
+import { Bytes } from "#util/Bytes.js";
+
+describe("TcpMessageFramer", () => {
+    it("prefixes messages with their length", () => {
+        expect(TcpMessageFramer.frame(Bytes.fromHex("0102"))).deep.equal(Bytes.fromHex("020000000102"));
+    });
+
+    it("reassembles messages split across chunks", () => {
+        const framer = new TcpMessageFramer();
+        const stream = Bytes.fromHex("0200000001020100000003");
+
+        expect(framer.push(stream.slice(0, 3))).deep.equal([]);
+        expect(framer.push(stream.slice(3, 5))).deep.equal([]);
+        expect(framer.push(stream.slice(5))).deep.equal([Bytes.fromHex("0102"), Bytes.fromHex("03")]);
+    });
+
+    it("rejects oversized messages", () => {
+        const framer = new TcpMessageFramer(4);
+
+        expect(() => framer.push(Bytes.fromHex("05000000"))).throws(NetworkError);
+    });
+});
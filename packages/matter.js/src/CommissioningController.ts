@@ -19,6 +19,7 @@ import {
 import { LegacyControllerStore } from "#LegacyControllerStore.js";
 import { ControllerStore } from "#node";
 import {
+    AttestationTrustStore,
     Ble,
     CommissionableDevice,
     CommissionableDeviceIdentifiers,
@@ -38,6 +39,7 @@ import {
     DiscoveryCapabilitiesBitmap,
     FabricId,
     FabricIndex,
+    GroupId,
     NodeId,
     TypeFromPartialBitSchema,
     VendorId,
@@ -222,6 +224,7 @@ export class CommissioningController extends MatterNode {
             adminFabricId,
             adminFabricIndex,
             caseAuthenticatedTags,
+            attestationTrustStore: environment?.get(AttestationTrustStore),
         });
         if (this.mdnsBroadcaster) {
             controller.addBroadcaster(this.mdnsBroadcaster.createInstanceBroadcaster(port));
@@ -425,6 +428,26 @@ export class CommissioningController extends MatterNode {
         return controller.connect(nodeId, { discoveryType });
     }
 
+    /**
+     * The group key sets and group key map of the controller fabric.  To communicate with a group the controller needs
+     * a group key set that is mapped to the group.  The same key set and mapping needs to be written to the nodes of
+     * the group using the Group Key Management cluster.
+     */
+    get groups() {
+        return this.assertControllerIsStarted().groups;
+    }
+
+    /**
+     * Creates a new InteractionClient to communicate with all nodes of a group.  Group communication is sent as IPv6
+     * multicast without any response, so only attribute writes and command invokes are supported.  Use it with
+     * {@link ClusterClient} to get a typed API for a cluster.  The endpoint of the ClusterClient is ignored because
+     * group messages address all endpoints of the nodes that are members of the group.
+     */
+    async createGroupInteractionClient(groupId: GroupId): Promise<InteractionClient> {
+        const controller = this.assertControllerIsStarted();
+        return controller.createGroupInteractionClient(groupId);
+    }
+
     /** Returns the PairedNode instance for a given node id, if this node is connected. */
     getPairedNode(nodeId: NodeId) {
         return this.initializedNodes.get(nodeId);
@@ -597,8 +597,8 @@ export class CommissioningServer extends MatterNode {
                 randomizationWindowSeconds: this.options.subscriptionRandomizationWindowSeconds,
             },
             maxPathsPerInvoke,
-            initiateExchange: (address, protocolId) => {
-                return deviceInstance.initiateExchange(address, protocolId);
+            initiateExchange: (address, protocolId, options) => {
+                return deviceInstance.initiateExchange(address, protocolId, options);
             },
         });
         deviceInstance.addProtocolHandler(this.interactionServer);
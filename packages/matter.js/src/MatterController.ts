@@ -30,6 +30,7 @@ import {
 } from "#general";
 import { LegacyControllerStore } from "#LegacyControllerStore.js";
 import {
+    AttestationTrustStore,
     CertificateAuthority,
     ChannelManager,
     ClusterClient,
@@ -46,6 +47,7 @@ import {
     Fabric,
     FabricBuilder,
     FabricManager,
+    IcdClientRegistration,
     InstanceBroadcaster,
     NodeDiscoveryType,
     OperationalPeer,
@@ -67,6 +69,7 @@ import {
     EndpointNumber,
     FabricId,
     FabricIndex,
+    GroupId,
     NodeId,
     TypeFromPartialBitSchema,
     VendorId,
@@ -77,6 +80,7 @@ export type CommissionedNodeDetails = {
     operationalServerAddress?: ServerAddressIp;
     discoveryData?: DiscoveryData;
     deviceData?: DeviceInformationData;
+    icdRegistration?: IcdClientRegistration;
 };
 
 const DEFAULT_FABRIC_INDEX = FabricIndex(1);
@@ -102,6 +106,7 @@ export class MatterController {
         adminFabricId?: FabricId;
         adminFabricIndex?: FabricIndex;
         caseAuthenticatedTags?: CaseAuthenticatedTag[];
+        attestationTrustStore?: AttestationTrustStore;
     }): Promise<MatterController> {
         const {
             controllerStore,
@@ -112,6 +117,7 @@ export class MatterController {
             adminFabricId = FabricId(DEFAULT_FABRIC_ID),
             adminFabricIndex = FabricIndex(DEFAULT_FABRIC_INDEX),
             caseAuthenticatedTags,
+            attestationTrustStore,
         } = options;
 
         const ca = await CertificateAuthority.create(controllerStore.caStorage);
@@ -130,6 +136,7 @@ export class MatterController {
                     certificateManager: ca,
                     fabric,
                     sessionClosedCallback,
+                    attestationTrustStore,
                 });
             } else {
                 logger.info("Fabric CA certificate changed ...");
@@ -161,6 +168,7 @@ export class MatterController {
                 certificateManager: ca,
                 fabric,
                 sessionClosedCallback,
+                attestationTrustStore,
             });
         }
         await controller.construction;
@@ -173,8 +181,16 @@ export class MatterController {
         scanners: ScannerSet;
         netInterfaces: NetInterfaceSet;
         sessionClosedCallback?: (peerNodeId: NodeId) => void;
+        attestationTrustStore?: AttestationTrustStore;
     }): Promise<MatterController> {
-        const { certificateAuthorityConfig, fabricConfig, scanners, netInterfaces, sessionClosedCallback } = options;
+        const {
+            certificateAuthorityConfig,
+            fabricConfig,
+            scanners,
+            netInterfaces,
+            sessionClosedCallback,
+            attestationTrustStore,
+        } = options;
 
         // Verify an appropriate network interface is available
         if (!netInterfaces.hasInterfaceFor(ChannelType.BLE)) {
@@ -201,6 +217,7 @@ export class MatterController {
             certificateManager,
             fabric,
             sessionClosedCallback,
+            attestationTrustStore,
         });
         await controller.construction;
         return controller;
@@ -233,8 +250,17 @@ export class MatterController {
         certificateManager: CertificateAuthority;
         fabric: Fabric;
         sessionClosedCallback?: (peerNodeId: NodeId) => void;
+        attestationTrustStore?: AttestationTrustStore;
     }) {
-        const { controllerStore, scanners, netInterfaces, certificateManager, fabric, sessionClosedCallback } = options;
+        const {
+            controllerStore,
+            scanners,
+            netInterfaces,
+            certificateManager,
+            fabric,
+            sessionClosedCallback,
+            attestationTrustStore = new AttestationTrustStore(),
+        } = options;
         this.#store = controllerStore;
         this.scanners = scanners;
         this.netInterfaces = netInterfaces;
@@ -245,6 +271,10 @@ export class MatterController {
         const fabricManager = new FabricManager();
         fabricManager.addFabric(fabric);
 
+        // The controller fabric is stored by the controller and not by the fabric manager, so persist changes done to
+        // the fabric itself, e.g. group keys, there
+        fabric.persistCallback = () => this.#store.fabricStorage.set("fabric", fabric.config);
+
         this.sessionManager = new SessionManager({
             fabrics: fabricManager,
             storage: controllerStore.sessionStorage,
@@ -261,7 +291,8 @@ export class MatterController {
             channelManager: this.channelManager,
             transportInterfaces: this.netInterfaces,
         });
-        this.exchangeManager.addProtocolHandler(new SecureChannelProtocol(this.sessionManager, fabricManager));
+        const secureChannel = new SecureChannelProtocol(this.sessionManager, fabricManager);
+        this.exchangeManager.addProtocolHandler(secureChannel);
         this.exchangeManager.addProtocolHandler(new SubscriptionClient());
 
         // Adapts the historical storage format for MatterController to OperationalPeer objects
@@ -274,6 +305,7 @@ export class MatterController {
             scanners: this.scanners,
             netInterfaces: this.netInterfaces,
             store: this.nodesStore,
+            secureChannel,
         });
 
         this.commissioner = new ControllerCommissioner({
@@ -283,6 +315,7 @@ export class MatterController {
             exchanges: this.exchangeManager,
             sessions: this.sessionManager,
             ca: this.ca,
+            trustStore: attestationTrustStore,
         });
 
         this.#advertiser = new DeviceAdvertiser({
@@ -467,6 +500,21 @@ export class MatterController {
         return this.peers.initializeInteractionClient(this.fabric.addressOf(peerNodeId), discoveryOptions);
     }
 
+    /**
+     * The group key sets and group key map of the controller fabric.  The controller needs a key set mapped to a group
+     * to communicate with the group.
+     */
+    get groups() {
+        return this.fabric.groups;
+    }
+
+    /**
+     * Create an InteractionClient that sends groupcast messages to all nodes of a group.
+     */
+    createGroupInteractionClient(groupId: GroupId) {
+        return this.peers.initializeGroupInteractionClient(this.fabric.addressOf(NodeId.fromGroupNodeId(groupId)));
+    }
+
     async getNextAvailableSessionId() {
         return this.sessionManager.getNextAvailableSessionId();
     }
@@ -560,13 +608,17 @@ class CommissionedNodeStore extends PeerAddressStore {
 
         const nodes = new Array<CommissionedPeer>();
 
-        for (const [nodeId, { operationalServerAddress, discoveryData, deviceData }] of commissionedNodes) {
+        for (const [
+            nodeId,
+            { operationalServerAddress, discoveryData, deviceData, icdRegistration },
+        ] of commissionedNodes) {
             const address = this.fabric.addressOf(nodeId);
             nodes.push({
                 address,
                 operationalAddress: operationalServerAddress,
                 discoveryData,
                 deviceData,
+                icdRegistration,
                 dataStore: await this.createNodeStore(address),
             } satisfies CommissionedPeer);
         }
@@ -591,10 +643,16 @@ class CommissionedNodeStore extends PeerAddressStore {
                     operationalAddress: operationalServerAddress,
                     discoveryData,
                     deviceData,
+                    icdRegistration,
                 } = peer as CommissionedPeer;
                 return [
                     address.nodeId,
-                    { operationalServerAddress, discoveryData, deviceData },
+                    {
+                        operationalServerAddress,
+                        discoveryData,
+                        deviceData,
+                        ...(icdRegistration !== undefined ? { icdRegistration } : {}),
+                    },
                 ] satisfies StoredOperationalPeer;
             }),
         );
@@ -264,8 +264,8 @@ export class MatterDevice {
         return this.#fabricManager.findByIndex(fabricIndex);
     }
 
-    initiateExchange(address: PeerAddress, protocolId: number) {
-        return this.#exchangeManager.initiateExchange(address, protocolId);
+    initiateExchange(address: PeerAddress, protocolId: number, options?: ChannelManager.ChannelOptions) {
+        return this.#exchangeManager.initiateExchange(address, protocolId, options);
     }
 
     getFabrics() {
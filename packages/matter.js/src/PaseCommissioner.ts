@@ -5,6 +5,7 @@
  */
 import { Environment, ImplementationError, Logger } from "#general";
 import {
+    AttestationTrustStore,
     CertificateAuthority,
     CommissionableDevice,
     CommissionableDeviceIdentifiers,
@@ -102,6 +103,7 @@ export class PaseCommissioner {
             fabricConfig: fabricConfig,
             scanners,
             netInterfaces,
+            attestationTrustStore: this.environment.get(AttestationTrustStore),
         });
     }
 
@@ -30,6 +30,7 @@ export {
     FabricScopedAttributeServer,
     FabricSensitiveEventServer,
     FixedAttributeServer,
+    GroupClusterClient,
     SupportedAttributeClient,
     UnknownSupportedAttributeClient,
     createAttributeClient,
@@ -40,6 +41,7 @@ export {
     type AttributeClientValues,
     type ClusterClientObj,
     type ClusterDatasource,
+    type GroupClusterClientObj,
 } from "#protocol";
 export { Status } from "#types";
 export * from "@matter/types/cluster";
@@ -0,0 +1,566 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { camelize } from "@matter/general";
+import { Access } from "../aspects/Access.js";
+import {
+    AnyElement,
+    AnyValueElement,
+    AttributeElement,
+    ClusterElement,
+    CommandElement,
+    DatatypeElement,
+    EventElement,
+    FieldElement,
+    ValueElement,
+} from "../elements/index.js";
+import { ClusterModel } from "../models/ClusterModel.js";
+import { ClusterRevision } from "../standard/elements/ClusterRevision.js";
+import { FabricIndex } from "../standard/elements/FabricIndex.js";
+import { FeatureMap } from "../standard/elements/FeatureMap.js";
+import { XmlElement, XmlError } from "./XmlElement.js";
+
+const { attr, text, child, children } = XmlElement;
+
+/**
+ * Loads cluster definitions from connectedhomeip ("ZAP") data model XML.
+ *
+ * Use this to define custom and manufacturer-specific clusters at runtime.  The standard clusters are generated from
+ * the same XML and the Matter specification at build time; this loader supports the subset of the XML format relevant
+ * to cluster definitions:
+ *
+ *   - `<cluster>` with attributes, commands, events, features and cluster-local datatypes
+ *
+ *   - `<struct>`, `<enum>` and `<bitmap>` datatypes, either inside the cluster or at the top level of any of the input
+ *     documents
+ *
+ * As with the CHIP tooling, top-level datatypes share a single namespace.  We copy them into each cluster that
+ * references them.  References to global Matter datatypes resolve against the standard model.
+ */
+export namespace ChipXml {
+    /**
+     * Translate one or more XML documents into {@link ClusterElement}s.
+     */
+    export function elementsOf(...documents: string[]): ClusterElement[] {
+        const elements = Array<AnyElement>();
+
+        for (const document of documents) {
+            const root = XmlElement.parse(document);
+            if (root.tag === "cluster") {
+                elements.push(translateCluster(root));
+                continue;
+            }
+            for (const source of root.children) {
+                const element = translate(source);
+                if (element) {
+                    elements.push(element);
+                }
+            }
+        }
+
+        return installDatatypes(elements);
+    }
+
+    /**
+     * Load one or more XML documents as {@link ClusterModel}s.
+     */
+    export function clustersOf(...documents: string[]): ClusterModel[] {
+        return elementsOf(...documents).map(element => new ClusterModel(element));
+    }
+}
+
+/**
+ * Translation of CHIP type names to Matter type names.  Unlisted names are assumed to reference cluster datatypes.
+ */
+const TYPE_MAP: Record<string, string> = {
+    BOOLEAN: "bool",
+    BITMAP8: "map8",
+    BITMAP16: "map16",
+    BITMAP32: "map32",
+    BITMAP64: "map64",
+    INT8U: "uint8",
+    INT16U: "uint16",
+    INT24U: "uint24",
+    INT32U: "uint32",
+    INT40U: "uint40",
+    INT48U: "uint48",
+    INT56U: "uint56",
+    INT64U: "uint64",
+    INT8S: "int8",
+    INT16S: "int16",
+    INT24S: "int24",
+    INT32S: "int32",
+    INT40S: "int40",
+    INT48S: "int48",
+    INT56S: "int56",
+    INT64S: "int64",
+    ENUM8: "enum8",
+    ENUM16: "enum16",
+    SINGLE: "single",
+    DOUBLE: "double",
+    OCTET_STRING: "octstr",
+    CHAR_STRING: "string",
+    LONG_OCTET_STRING: "octstr",
+    LONG_CHAR_STRING: "string",
+    ARRAY: "list",
+    STRUCT: "struct",
+    PERCENT: "percent",
+    PERCENT100THS: "percent100ths",
+    EPOCH_US: "epoch-us",
+    EPOCH_S: "epoch-s",
+    ELAPSED_S: "elapsed-s",
+    POSIX_MS: "posix-ms",
+    SYSTIME_US: "systime-us",
+    SYSTIME_MS: "systime-ms",
+    CLUSTER_ID: "cluster-id",
+    ATTRIB_ID: "attrib-id",
+    COMMAND_ID: "command-id",
+    NODE_ID: "node-id",
+    VENDOR_ID: "vendor-id",
+    DEVTYPE_ID: "devtype-id",
+    FABRIC_ID: "fabric-id",
+    GROUP_ID: "group-id",
+    ENDPOINT_NO: "endpoint-no",
+    FABRIC_IDX: "fabric-idx",
+    STATUS: "status",
+};
+
+type Translator = (source: XmlElement) => AnyElement | undefined;
+
+const translators: Record<string, Translator> = {
+    cluster: translateCluster,
+
+    struct: source => {
+        const struct = createValueElement(DatatypeElement, source, {
+            type: attr(source, "type") ?? "STRUCT",
+            fieldTag: "item",
+        });
+
+        // CHIP leaves the fabric index of fabric-scoped structs implicit
+        if (bool(attr(source, "isFabricScoped")) && !struct.children?.some(field => field.id === FabricIndex.id)) {
+            (struct.children ??= []).push(
+                FieldElement({ name: "FabricIndex", id: FabricIndex.id, type: "FabricIndex" }),
+            );
+        }
+
+        return struct;
+    },
+
+    enum: source =>
+        createValueElement(DatatypeElement, source, {
+            type: need("enum type", attr(source, "type")),
+            fieldTag: "item",
+        }),
+
+    bitmap: source => {
+        const bitmap = createValueElement(DatatypeElement, source, {
+            type: need("bitmap type", attr(source, "type")),
+        });
+
+        for (const field of children(source, "field")) {
+            const mask = need("bitmap field mask", int(attr(field, "mask")));
+
+            let lsb: number | undefined, msb: number | undefined;
+            for (let bit = 0; bit < 64; bit++) {
+                if (BigInt(mask) & (1n << BigInt(bit))) {
+                    lsb ??= bit;
+                    msb = bit;
+                }
+            }
+            if (lsb === undefined || msb === undefined) {
+                throw new XmlError(`Empty mask for bitmap field ${attr(field, "name")}`);
+            }
+
+            (bitmap.children ??= []).push(
+                FieldElement({
+                    name: camelize(need("bitmap field name", attr(field, "name")), true),
+                    constraint: lsb === msb ? `${lsb}` : `${lsb} to ${msb + 1}`,
+                }),
+            );
+        }
+
+        return bitmap;
+    },
+};
+
+function translate(source: XmlElement) {
+    return translators[source.tag]?.(source);
+}
+
+function translateCluster(source: XmlElement) {
+    const name = need("cluster name", text(child(source, "name"))).replace(/\s*Cluster$/, "");
+
+    const elements = Array<ClusterElement.Child>();
+
+    const cluster = ClusterElement({
+        id: need("cluster code", int(text(child(source, "code")))),
+        name: camelize(name, true),
+        description: name,
+        details: text(child(source, "description")),
+        children: elements,
+    });
+
+    if (bool(attr(source, "singleton"))) {
+        cluster.quality = "I";
+    }
+
+    for (const childSource of source.children) {
+        let element: ClusterElement.Child | undefined;
+
+        switch (childSource.tag) {
+            case "attribute":
+                // Client attributes are not part of the cluster definition
+                if (attr(childSource, "side") !== "client") {
+                    element = translateAttribute(childSource);
+                }
+                break;
+
+            case "command":
+                element = translateCommand(childSource);
+                break;
+
+            case "event":
+                element = translateEvent(childSource);
+                break;
+
+            case "features":
+                element = translateFeatures(childSource);
+                break;
+
+            case "globalAttribute":
+                if (int(attr(childSource, "code")) === ClusterRevision.id) {
+                    element = AttributeElement({
+                        id: ClusterRevision.id,
+                        name: ClusterRevision.name,
+                        type: "ClusterRevision",
+                        default: need("cluster revision", int(attr(childSource, "value"))),
+                    });
+                }
+                break;
+
+            default:
+                element = translate(childSource) as ClusterElement.Child | undefined;
+                break;
+        }
+
+        if (element) {
+            elements.push(element);
+        }
+    }
+
+    return cluster;
+}
+
+function translateAttribute(source: XmlElement) {
+    // Newer XML places the name in a <description> child, older XML in the body.  Fall back to the C define
+    const name = attr(source, "name") ?? text(child(source, "description")) ?? text(source) ?? attr(source, "define");
+
+    return createValueElement(AttributeElement, source, {
+        name: need("attribute name", name),
+        type: need("attribute type", attr(source, "type")),
+    });
+}
+
+function translateCommand(source: XmlElement) {
+    const command = createValueElement(CommandElement, source, { fieldTag: "arg" });
+
+    switch (attr(source, "source")) {
+        case "client":
+            command.direction = CommandElement.Direction.Request;
+            const response = attr(source, "response");
+            command.response = response === undefined ? "status" : camelize(response, true);
+            break;
+
+        case "server":
+            command.direction = CommandElement.Direction.Response;
+            break;
+
+        default:
+            throw new XmlError(`Command ${command.name} has illegal source "${attr(source, "source")}"`);
+    }
+
+    return command;
+}
+
+function translateEvent(source: XmlElement) {
+    const event = createValueElement(EventElement, source, { fieldTag: "field" });
+
+    const priority = need("event priority", attr(source, "priority"));
+    if (!Object.values(EventElement.Priority).includes(priority as EventElement.Priority)) {
+        throw new XmlError(`Event ${event.name} has illegal priority "${priority}"`);
+    }
+    event.priority = priority as EventElement.Priority;
+
+    return event;
+}
+
+function translateFeatures(source: XmlElement) {
+    const features = children(source, "feature").map(feature =>
+        FieldElement({
+            name: need("feature code", attr(feature, "code")),
+            constraint: `${need("feature bit", int(attr(feature, "bit")))}`,
+            description: attr(feature, "name"),
+            details: attr(feature, "summary"),
+            conformance: conformanceOf(feature) ?? "O",
+        }),
+    );
+
+    return AttributeElement({
+        id: FeatureMap.id,
+        name: FeatureMap.name,
+        type: "FeatureMap",
+        children: features,
+    });
+}
+
+/**
+ * Create an element with properties common to all value elements.
+ */
+function createValueElement<T extends AnyValueElement>(
+    factory: ((properties: T) => T) & { Tag: string },
+    source: XmlElement,
+    options: { name?: string; type?: string; fieldTag?: string },
+) {
+    const name = camelize(need(`${factory.Tag} name`, options.name ?? attr(source, "name")), true);
+    const id = int(attr(source, "code") ?? attr(source, "value") ?? attr(source, "fieldId") ?? attr(source, "id"));
+
+    if (factory.Tag !== DatatypeElement.Tag && factory.Tag !== FieldElement.Tag && id === undefined) {
+        throw new XmlError(`Missing ID for ${factory.Tag} ${name}`);
+    }
+
+    const element = factory({ id, name, type: mapType(options.type) } as T);
+
+    const details = factory.Tag === AttributeElement.Tag ? undefined : text(child(source, "description"));
+    if (details !== undefined) {
+        element.details = details;
+    }
+
+    const defaultValue = attr(source, "default");
+    if (defaultValue !== undefined && !(element.type === "struct" && defaultValue === "0x0")) {
+        element.default = valueOf(defaultValue);
+    }
+
+    setQualities(source, element);
+    setBounds(source, element);
+
+    if (options.fieldTag) {
+        for (const fieldSource of children(source, options.fieldTag)) {
+            (element.children ??= []).push(createField(fieldSource));
+        }
+    }
+
+    const entryType = attr(source, "entryType");
+    if (entryType !== undefined && !element.children?.length) {
+        element.children = [FieldElement({ name: "entry", type: mapType(entryType) })];
+    }
+
+    return element;
+}
+
+/**
+ * Create a field of a struct, enum, command or event.
+ */
+function createField(source: XmlElement) {
+    const field = createValueElement(FieldElement, source, { type: attr(source, "type") });
+
+    if (bool(attr(source, "array"))) {
+        field.children = [FieldElement({ name: "entry", type: field.type, children: field.children })];
+        field.type = "list";
+    }
+
+    return field;
+}
+
+/**
+ * Translate CHIP access and quality attributes.
+ */
+function setQualities(source: XmlElement, target: AnyValueElement) {
+    const access = {} as Access.Ast;
+
+    if (target.tag === AttributeElement.Tag) {
+        access.rw = bool(attr(source, "writable")) ? Access.Rw.ReadWrite : Access.Rw.Read;
+    }
+
+    if (bool(attr(source, "isFabricSensitive"))) {
+        access.fabric = Access.Fabric.Sensitive;
+    } else if (bool(attr(source, "isFabricScoped"))) {
+        access.fabric = Access.Fabric.Scoped;
+    }
+
+    if (bool(attr(source, "mustUseTimedWrite")) || bool(attr(source, "mustUseTimedInvoke"))) {
+        access.timed = true;
+    }
+
+    for (const accessSource of children(source, "access")) {
+        const op = need("access op", attr(accessSource, "op"));
+        const privilegeName = need("access role", attr(accessSource, "privilege") ?? attr(accessSource, "role"));
+        const privilege = Access.Privilege[camelize(privilegeName, true) as keyof typeof Access.Privilege];
+        if (privilege === undefined) {
+            throw new XmlError(`Unknown access role "${privilegeName}"`);
+        }
+
+        switch (op) {
+            case "read":
+                access.readPriv = privilege;
+                break;
+
+            case "write":
+            case "invoke":
+                access.writePriv = privilege;
+                break;
+
+            default:
+                throw new XmlError(`Unknown access op "${op}"`);
+        }
+    }
+
+    if (Object.keys(access).length) {
+        target.access = access;
+    }
+
+    if (bool(attr(source, "isNullable"))) {
+        target.quality = "X";
+    }
+
+    const conformance = conformanceOf(source);
+    if (conformance !== undefined) {
+        target.conformance = conformance;
+    } else if (target.tag !== DatatypeElement.Tag) {
+        target.conformance = bool(attr(source, "optional")) ? "O" : "M";
+    }
+}
+
+/**
+ * Translate the simple conformance tags of newer XML files.  Returns undefined if the tags are absent.
+ */
+function conformanceOf(source: XmlElement) {
+    for (const tag of ["mandatoryConform", "optionalConform"]) {
+        const conformance = child(source, tag);
+        if (conformance === undefined) {
+            continue;
+        }
+
+        const features = children(conformance, "feature").map(feature => need("feature name", attr(feature, "name")));
+        const condition = features.join(" | ");
+
+        if (tag === "mandatoryConform") {
+            return condition || "M";
+        }
+        return condition ? `[${condition}]` : "O";
+    }
+}
+
+function setBounds(source: XmlElement, element: ValueElement) {
+    let min, max;
+
+    switch (element.type) {
+        case "list":
+        case "string":
+        case "octstr":
+            min = int(attr(source, "minLength"));
+            max = int(attr(source, "length") ?? attr(source, "maxLength"));
+            break;
+
+        default:
+            min = int(attr(source, "min"));
+            max = int(attr(source, "max"));
+            break;
+    }
+
+    if (min !== undefined && max !== undefined) {
+        element.constraint = `${min} to ${max}`;
+    } else if (min !== undefined) {
+        element.constraint = `min ${min}`;
+    } else if (max !== undefined) {
+        element.constraint = `max ${max}`;
+    }
+}
+
+/**
+ * CHIP XML uses a single namespace for datatypes.  Install datatypes referenced by each cluster into the cluster.
+ */
+function installDatatypes(elements: AnyElement[]) {
+    const datatypes = {} as Record<string, DatatypeElement>;
+    for (const element of elements) {
+        if (element.tag === DatatypeElement.Tag) {
+            datatypes[element.name] = element;
+        }
+    }
+
+    function install(into: ClusterElement, referencer: AnyElement, installed: Set<string>) {
+        for (const element of referencer.children ?? []) {
+            const type = (element as ValueElement).type;
+
+            if (type !== undefined && !installed.has(type)) {
+                installed.add(type);
+
+                const datatype = datatypes[type];
+                if (datatype) {
+                    (into.children ??= []).push(datatype);
+                    install(into, datatype, installed);
+                }
+            }
+
+            install(into, element as AnyElement, installed);
+        }
+    }
+
+    const clusters = elements.filter(element => element.tag === ClusterElement.Tag);
+    for (const cluster of clusters) {
+        const installed = new Set(
+            cluster.children?.filter(element => element.tag === DatatypeElement.Tag).map(element => element.name),
+        );
+        install(cluster, cluster, installed);
+    }
+
+    return clusters;
+}
+
+function mapType(type: string | undefined) {
+    if (type === undefined) {
+        return;
+    }
+    return TYPE_MAP[type.toUpperCase()] ?? camelize(type, true);
+}
+
+function need<T>(what: string, value: T | undefined): T {
+    if (value === undefined) {
+        throw new XmlError(`Missing ${what}`);
+    }
+    return value;
+}
+
+function int(text: string | undefined) {
+    if (text === undefined) {
+        return;
+    }
+    const value = Number(text);
+    if (!Number.isInteger(value)) {
+        throw new XmlError(`Invalid integer "${text}"`);
+    }
+    return value;
+}
+
+function bool(text: string | undefined) {
+    return text?.toLowerCase() === "true";
+}
+
+function valueOf(text: string) {
+    if (text.match(/^-?(?:0x[0-9a-f]+|\d+(?:\.\d+)?)$/i)) {
+        return text.startsWith("-") ? -Number(text.slice(1)) : Number(text);
+    }
+    switch (text.toLowerCase()) {
+        case "true":
+            return true;
+
+        case "false":
+            return false;
+
+        case "null":
+            return null;
+    }
+    return text;
+}
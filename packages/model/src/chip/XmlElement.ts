@@ -0,0 +1,273 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MatterError } from "@matter/general";
+
+/**
+ * Thrown for malformed XML and for XML that does not describe valid Matter elements.
+ */
+export class XmlError extends MatterError {}
+
+/**
+ * A minimal DOM for XML documents.
+ *
+ * We only need enough XML support to read connectedhomeip data model files so this omits namespaces, DTDs and
+ * processing instructions.
+ */
+export interface XmlElement {
+    tag: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+
+    /**
+     * Character data of the element, excluding character data of child elements.
+     */
+    text: string;
+}
+
+export namespace XmlElement {
+    /**
+     * Parse an XML document and return the root element.
+     */
+    export function parse(xml: string): XmlElement {
+        const root = new XmlParser(xml).parse();
+        if (root === undefined) {
+            throw new XmlError("XML document has no root element");
+        }
+        return root;
+    }
+
+    /**
+     * Obtain an attribute value with whitespace normalized.  Returns undefined for empty values.
+     */
+    export function attr(element: XmlElement, name: string) {
+        return normalize(element.attributes[name]);
+    }
+
+    /**
+     * Obtain the text of an element with whitespace normalized.  Returns undefined for empty values.
+     */
+    export function text(element: XmlElement | undefined) {
+        return normalize(element?.text);
+    }
+
+    /**
+     * Get the first direct child with the specified tag.
+     */
+    export function child(element: XmlElement, tag: string) {
+        return element.children.find(child => child.tag === tag);
+    }
+
+    /**
+     * Get all direct children with the specified tag.
+     */
+    export function children(element: XmlElement, tag: string) {
+        return element.children.filter(child => child.tag === tag);
+    }
+}
+
+function normalize(text?: string) {
+    text = text?.trim().replace(/\s+/g, " ");
+    if (text === "") {
+        return;
+    }
+    return text;
+}
+
+const ENTITIES: Record<string, string> = {
+    lt: "<",
+    gt: ">",
+    amp: "&",
+    quot: '"',
+    apos: "'",
+};
+
+function decodeEntities(text: string) {
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+            const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+            return String.fromCodePoint(code);
+        }
+        const replacement = ENTITIES[name];
+        if (replacement === undefined) {
+            throw new XmlError(`Unknown XML entity ${entity}`);
+        }
+        return replacement;
+    });
+}
+
+class XmlParser {
+    #xml: string;
+    #pos = 0;
+
+    constructor(xml: string) {
+        this.#xml = xml;
+    }
+
+    parse() {
+        let root: XmlElement | undefined;
+
+        while (this.#pos < this.#xml.length) {
+            const start = this.#xml.indexOf("<", this.#pos);
+            if (start === -1) {
+                this.#assertWhitespace(this.#xml.slice(this.#pos));
+                break;
+            }
+            this.#assertWhitespace(this.#xml.slice(this.#pos, start));
+            this.#pos = start;
+
+            if (this.#skipMarkup()) {
+                continue;
+            }
+
+            if (root !== undefined) {
+                this.#fail("Multiple root elements");
+            }
+            root = this.#parseElement();
+        }
+
+        return root;
+    }
+
+    /**
+     * Skip comments, processing instructions and declarations.  Returns true if markup was skipped.
+     */
+    #skipMarkup() {
+        if (this.#xml.startsWith("<!--", this.#pos)) {
+            this.#skipPast("-->");
+        } else if (this.#xml.startsWith("<?", this.#pos)) {
+            this.#skipPast("?>");
+        } else if (this.#xml.startsWith("<!", this.#pos) && !this.#xml.startsWith("<![CDATA[", this.#pos)) {
+            this.#skipPast(">");
+        } else {
+            return false;
+        }
+        return true;
+    }
+
+    #parseElement(): XmlElement {
+        // Skip "<"
+        this.#pos++;
+
+        const element: XmlElement = { tag: this.#parseName(), attributes: {}, children: [], text: "" };
+
+        while (true) {
+            this.#skipWhitespace();
+
+            if (this.#xml.startsWith("/>", this.#pos)) {
+                this.#pos += 2;
+                return element;
+            }
+
+            if (this.#xml[this.#pos] === ">") {
+                this.#pos++;
+                break;
+            }
+
+            const name = this.#parseName();
+            this.#skipWhitespace();
+            this.#expect("=");
+            this.#skipWhitespace();
+            element.attributes[name] = decodeEntities(this.#parseQuoted());
+        }
+
+        const text = Array<string>();
+        while (true) {
+            const start = this.#xml.indexOf("<", this.#pos);
+            if (start === -1) {
+                this.#fail(`Unterminated element <${element.tag}>`);
+            }
+            text.push(decodeEntities(this.#xml.slice(this.#pos, start)));
+            this.#pos = start;
+
+            if (this.#xml.startsWith("</", this.#pos)) {
+                this.#pos += 2;
+                const tag = this.#parseName();
+                if (tag !== element.tag) {
+                    this.#fail(`Expected </${element.tag}> but found </${tag}>`);
+                }
+                this.#skipWhitespace();
+                this.#expect(">");
+                break;
+            }
+
+            if (this.#xml.startsWith("<![CDATA[", this.#pos)) {
+                const end = this.#skipPast("]]>");
+                text.push(this.#xml.slice(start + 9, end));
+                continue;
+            }
+
+            if (this.#skipMarkup()) {
+                continue;
+            }
+
+            element.children.push(this.#parseElement());
+        }
+
+        element.text = text.join("");
+
+        return element;
+    }
+
+    #parseName() {
+        const match = this.#xml.slice(this.#pos).match(/^[A-Za-z_:][\w:.-]*/);
+        if (!match) {
+            this.#fail("Expected name");
+        }
+        this.#pos += match[0].length;
+        return match[0];
+    }
+
+    #parseQuoted() {
+        const quote = this.#xml[this.#pos];
+        if (quote !== '"' && quote !== "'") {
+            this.#fail("Expected quoted attribute value");
+        }
+        const end = this.#xml.indexOf(quote, this.#pos + 1);
+        if (end === -1) {
+            this.#fail("Unterminated attribute value");
+        }
+        const value = this.#xml.slice(this.#pos + 1, end);
+        this.#pos = end + 1;
+        return value;
+    }
+
+    /**
+     * Advance past a terminator.  Returns the position of the terminator.
+     */
+    #skipPast(terminator: string) {
+        const end = this.#xml.indexOf(terminator, this.#pos);
+        if (end === -1) {
+            this.#fail(`Expected "${terminator}"`);
+        }
+        this.#pos = end + terminator.length;
+        return end;
+    }
+
+    #skipWhitespace() {
+        while (this.#pos < this.#xml.length && /\s/.test(this.#xml[this.#pos])) {
+            this.#pos++;
+        }
+    }
+
+    #expect(text: string) {
+        if (!this.#xml.startsWith(text, this.#pos)) {
+            this.#fail(`Expected "${text}"`);
+        }
+        this.#pos += text.length;
+    }
+
+    #assertWhitespace(text: string) {
+        if (text.trim() !== "") {
+            this.#fail("Text outside of root element");
+        }
+    }
+
+    #fail(message: string): never {
+        const line = this.#xml.slice(0, this.#pos).split("\n").length;
+        throw new XmlError(`${message} at line ${line}`);
+    }
+}
@@ -5,6 +5,7 @@
  */
 
 export * from "./aspects/index.js";
+export * from "./chip/index.js";
 export * from "./common/index.js";
 export * from "./elements/index.js";
 export * from "./logic/index.js";
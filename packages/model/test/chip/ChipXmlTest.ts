@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    AttributeModel,
+    ChipXml,
+    CommandModel,
+    DatatypeModel,
+    EventModel,
+    Metatype,
+    ValidateModel,
+    XmlElement,
+    XmlError,
+} from "#index.js";
+
+const FANCY_XML = `<?xml version="1.0"?>
+<!-- Vendor cluster in the format of connectedhomeip's data model XML -->
+<configurator>
+    <domain name="CHIP"/>
+
+    <enum name="FancyMode" type="enum8">
+        <cluster code="0xFFF1FC20"/>
+        <item name="Calm" value="0x0"/>
+        <item name="Wild" value="0x1"/>
+    </enum>
+
+    <bitmap name="FancyFlags" type="bitmap16">
+        <cluster code="0xFFF1FC20"/>
+        <field name="Sparkle" mask="0x1"/>
+        <field name="Level" mask="0x6"/>
+    </bitmap>
+
+    <struct name="FancyEntry" isFabricScoped="true">
+        <cluster code="0xFFF1FC20"/>
+        <item fieldId="1" name="Label" type="char_string" length="16"/>
+        <item fieldId="2" name="Mode" type="FancyMode" optional="true"/>
+    </struct>
+
+    <cluster>
+        <domain>General</domain>
+        <name>Fancy Cluster</name>
+        <code>0xFFF1FC20</code>
+        <define>FANCY_CLUSTER</define>
+        <description>A cluster with fancy functionality &amp; more.</description>
+
+        <globalAttribute side="either" code="0xFFFD" value="3"/>
+
+        <features>
+            <feature bit="0" code="GLT" name="Glitter" summary="Supports glitter">
+                <optionalConform/>
+            </feature>
+        </features>
+
+        <attribute side="server" code="0x0000" define="FANCY_COUNTER" type="int32u" default="0x05" min="0" max="1000">Counter</attribute>
+        <attribute side="server" code="0x0001" define="FANCY_MODE" type="FancyMode" writable="true" isNullable="true" optional="true">
+            <description>Mode</description>
+            <access op="read" privilege="view"/>
+            <access op="write" privilege="manage"/>
+        </attribute>
+        <attribute side="server" code="0x0002" define="FANCY_ENTRIES" type="array" entryType="FancyEntry" writable="true">Entries</attribute>
+        <attribute side="server" code="0x0003" define="GLITTER" type="FancyFlags">
+            <description>Glitter</description>
+            <mandatoryConform><feature name="GLT"/></mandatoryConform>
+        </attribute>
+        <attribute side="client" code="0x0004" define="IGNORED" type="boolean">Ignored</attribute>
+
+        <command source="client" code="0x00" name="Reset" optional="false" mustUseTimedInvoke="true">
+            <description>Reset the counter.</description>
+            <access op="invoke" privilege="administer"/>
+        </command>
+        <command source="client" code="0x01" name="Add" response="AddResponse" optional="false">
+            <arg name="Amount" type="int16u"/>
+            <arg name="Labels" type="char_string" array="true" optional="true"/>
+        </command>
+        <command source="server" code="0x02" name="AddResponse" optional="false">
+            <arg name="Total" type="int32u"/>
+        </command>
+
+        <event side="server" code="0x0000" name="Overflow" priority="critical" optional="true">
+            <field id="0" name="Previous" type="int32u"/>
+        </event>
+    </cluster>
+</configurator>
+`;
+
+describe("ChipXml", () => {
+    describe("XmlElement", () => {
+        it("parses elements, attributes and text", () => {
+            const root = XmlElement.parse(
+                `<?xml version="1.0"?><!DOCTYPE a><a x='1' y="&lt;&#x41;&gt;">one<![CDATA[ <two> ]]><b/><!-- c --></a>`,
+            );
+
+            expect(root.tag).equals("a");
+            expect(root.attributes).deep.equals({ x: "1", y: "<A>" });
+            expect(root.text).equals("one <two> ");
+            expect(root.children.map(child => child.tag)).deep.equals(["b"]);
+        });
+
+        it("rejects malformed XML", () => {
+            expect(() => XmlElement.parse("<a><b></a>")).throws(XmlError, "Expected </b> but found </a> at line 1");
+            expect(() => XmlElement.parse("<a></a><b/>")).throws(XmlError, "Multiple root elements");
+            expect(() => XmlElement.parse("<!-- nothing -->")).throws(XmlError, "XML document has no root element");
+        });
+    });
+
+    describe("clustersOf", () => {
+        const [cluster] = ChipXml.clustersOf(FANCY_XML);
+
+        it("translates cluster properties", () => {
+            expect(cluster.id).equals(0xfff1fc20);
+            expect(cluster.name).equals("Fancy");
+            expect(cluster.details).equals("A cluster with fancy functionality & more.");
+            expect(cluster.revision).equals(3);
+            expect(cluster.featureNames).deep.equals(new Set(["GLT"]));
+            expect(cluster.features[0].description).equals("Glitter");
+        });
+
+        it("translates attributes", () => {
+            expect(cluster.attributes.map(attr => attr.name)).deep.equals([
+                "ClusterRevision",
+                "FeatureMap",
+                "Counter",
+                "Mode",
+                "Entries",
+                "Glitter",
+            ]);
+
+            const counter = cluster.get(AttributeModel, 0)!;
+            expect(counter.primitiveBase?.name).equals("uint32");
+            expect(counter.effectiveDefault).equals(5);
+            expect(counter.constraint.toString()).equals("0 to 1000");
+            expect(counter.mandatory).true;
+            expect(counter.writable).false;
+
+            const mode = cluster.get(AttributeModel, 1)!;
+            expect(mode.effectiveMetatype).equals(Metatype.enum);
+            expect(mode.nullable).true;
+            expect(mode.mandatory).false;
+            expect(mode.writable).true;
+            expect(mode.effectiveAccess.writePriv).equals("M");
+
+            const entries = cluster.get(AttributeModel, 2)!;
+            expect(entries.effectiveMetatype).equals(Metatype.array);
+            expect(entries.listEntry?.definingModel?.name).equals("FancyEntry");
+
+            const glitter = cluster.get(AttributeModel, 3)!;
+            expect(glitter.conformance.toString()).equals("GLT");
+            expect(glitter.effectiveMetatype).equals(Metatype.bitmap);
+        });
+
+        it("installs referenced datatypes", () => {
+            expect(cluster.datatypes.map(datatype => datatype.name)).deep.equals([
+                "FancyMode",
+                "FancyEntry",
+                "FancyFlags",
+            ]);
+
+            const entry = cluster.get(DatatypeModel, "FancyEntry")!;
+            expect(entry.effectiveAccess.fabricScoped).true;
+            expect(entry.children.map(field => [field.id, field.name])).deep.equals([
+                [1, "Label"],
+                [2, "Mode"],
+                [0xfe, "FabricIndex"],
+            ]);
+
+            const flags = cluster.get(DatatypeModel, "FancyFlags")!;
+            expect(flags.children.map(field => field.constraint.toString())).deep.equals(["0", "1 to 3"]);
+        });
+
+        it("translates commands", () => {
+            const reset = cluster.get(CommandModel, 0)!;
+            expect(reset.isRequest).true;
+            expect(reset.response).equals("status");
+            expect(reset.effectiveAccess.timed).true;
+            expect(reset.effectiveAccess.writePriv).equals("A");
+            expect(reset.details).equals("Reset the counter.");
+
+            const add = cluster.get(CommandModel, 1)!;
+            expect(add.responseModel?.name).equals("AddResponse");
+            expect(add.children.map(field => [field.effectiveId, field.name])).deep.equals([
+                [0, "Amount"],
+                [1, "Labels"],
+            ]);
+            expect(add.children[1].effectiveMetatype).equals(Metatype.array);
+            expect(add.children[1].mandatory).false;
+        });
+
+        it("translates events", () => {
+            const overflow = cluster.get(EventModel, 0)!;
+            expect(overflow.priority).equals("critical");
+            expect(overflow.mandatory).false;
+            expect(overflow.children[0].name).equals("Previous");
+        });
+
+        it("ignores client attributes", () => {
+            expect(cluster.get(AttributeModel, 4)).undefined;
+        });
+
+        it("produces a valid model", () => {
+            expect(ValidateModel(cluster).errors).deep.equals([]);
+        });
+    });
+
+    it("rejects invalid definitions", () => {
+        expect(() =>
+            ChipXml.elementsOf(`<cluster><name>Bad</name><code>0x1</code><event code="0" name="E"/></cluster>`),
+        ).throws(XmlError, "Missing event priority");
+    });
+});
@@ -6,7 +6,8 @@
 
 import type { Agent } from "#endpoint/Agent.js";
 import { AsyncObservable, EventEmitter, ImplementationError, MaybePromise, Observable } from "#general";
-import { ClusterComposer, ClusterType, ElementModifier, TypeFromBitSchema } from "#types";
+import { ClusterModel } from "#model";
+import { ClusterComposer, ClusterType, ClusterTypeOfModel, ElementModifier, TypeFromBitSchema } from "#types";
 import { Behavior } from "../Behavior.js";
 import type { BehaviorBacking } from "../internal/BehaviorBacking.js";
 import type { RootSupervisor } from "../supervision/RootSupervisor.js";
@@ -89,13 +90,24 @@ export class ClusterBehavior extends Behavior {
      *
      * If you invoke on an existing subclass, you will receive a new implementation with the cluster in the subclass
      * replaced.  You should generally only do this with a {@link ClusterType} with the same ID.
+     *
+     * You may alternatively supply a {@link ClusterModel}, such as a custom cluster loaded with {@link ChipXml}.  In
+     * this case the model serves as schema and we derive the {@link ClusterType} at runtime.
      */
     static for<This extends ClusterBehavior.Type, const ClusterT extends ClusterType>(
         this: This,
         cluster: ClusterT,
         schema?: Schema,
-    ) {
-        return createType(cluster, this, schema) as ClusterBehavior.Type<ClusterT, This>;
+    ): ClusterBehavior.Type<ClusterT, This>;
+    static for<This extends ClusterBehavior.Type>(
+        this: This,
+        cluster: ClusterModel,
+    ): ClusterBehavior.Type<ClusterType, This>;
+    static for(this: ClusterBehavior.Type, cluster: ClusterType | ClusterModel, schema?: Schema) {
+        if (cluster instanceof ClusterModel) {
+            return createType(ClusterTypeOfModel(cluster), this, cluster);
+        }
+        return createType(cluster, this, schema);
     }
 
     /**
@@ -239,6 +251,10 @@ export namespace ClusterBehavior {
             cluster: ClusterT,
             schema?: Schema,
         ): ClusterBehavior.Type<ClusterT, This>;
+        for<This extends ClusterBehavior.Type>(
+            this: This,
+            cluster: ClusterModel,
+        ): ClusterBehavior.Type<ClusterType, This>;
 
         with<
             This extends ClusterBehavior.Type,
@@ -32,6 +32,30 @@ export namespace ActionTracer {
         values: Record<string, unknown>;
     }
 
+    /**
+     * Structure of an endpoint.  {@link ActionType.Initialize} actions record this as input so the endpoint may be
+     * recreated from a trace.
+     */
+    export interface EndpointStructure {
+        number?: number;
+        deviceType: number;
+        deviceRevision: number;
+        behaviors: Record<string, BehaviorStructure>;
+    }
+
+    export interface BehaviorStructure {
+        cluster?: number;
+        features?: string[];
+
+        /**
+         * State after initialization.  This includes values from configuration and storage which do not appear in
+         * mutations.
+         *
+         * Only includes cluster attributes.  Fabric-sensitive values are omitted.
+         */
+        state?: Record<string, unknown>;
+    }
+
     export interface Action {
         type: ActionType;
         path?: DataModelPath;
@@ -87,6 +87,11 @@ export namespace OfflineContext {
      */
     export interface Options {
         trace?: ActionTracer.Action;
+
+        /**
+         * Disable validation of state changes.  Use for values from an authoritative source such as a remote node.
+         */
+        acceptInvalid?: boolean;
     }
 }
 
@@ -10,7 +10,7 @@ import { EndpointType } from "#endpoint/type/EndpointType.js";
 import { Diagnostic, ImplementationError, InternalError, MaybePromise } from "#general";
 import { AccessLevel } from "#model";
 import type { Message } from "#protocol";
-import { assertSecureSession, EndpointInterface, MessageExchange } from "#protocol";
+import { assertSecureSession, EndpointInterface, GroupSession, MessageExchange } from "#protocol";
 import { FabricIndex, NodeId, StatusResponseError, SubjectId } from "#types";
 import { AccessControlServer } from "../../../behaviors/access-control/AccessControlServer.js";
 import { RootEndpoint } from "../../../endpoints/root.js";
@@ -40,8 +40,8 @@ export function OnlineContext(options: OnlineContext.Options) {
                 assertSecureSession(session);
                 fabric = session.fabric?.fabricIndex;
 
-                // TODO - group subject
-                subject = session.peerNodeId;
+                // For groupcast messages the group is the subject
+                subject = session instanceof GroupSession ? NodeId(session.groupId) : session.peerNodeId;
             } else {
                 fabric = options.fabric;
                 subject = options.subject as NodeId;
@@ -6,7 +6,7 @@
 
 import type { EndpointServer } from "#endpoint/EndpointServer.js";
 import { camelize, Diagnostic, ImplementationError, InternalError, isObject, Logger, MaybePromise } from "#general";
-import { CommandModel, ElementTag } from "#model";
+import { ClusterModel, CommandModel, ElementTag } from "#model";
 import {
     AttributeServer,
     ClusterDatasource,
@@ -70,9 +70,12 @@ export class ClusterServerBacking extends ServerBehaviorBacking {
             options = {};
         }
 
+        const { schema } = this.type;
+
         const clusterServer = (this.#clusterServer = {
             id,
             name,
+            diagnostics: schema instanceof ClusterModel ? schema.diagnostics : undefined,
             datasource: this.#createClusterDatasource(),
             attributes: {},
             commands: {},
@@ -16,6 +16,7 @@ import {
     Fabric,
     FabricAuthority,
     FabricManager,
+    IcdClientRegistration,
     LocatedNodeCommissioningOptions,
     PeerAddress,
     SessionParameters,
@@ -175,7 +176,7 @@ export class CommissioningClient extends Behavior {
                 ],
             }),
             FieldElement({ name: "discoveredAt", type: "systime-ms", quality: "N", conformance: "M" }),
-            FieldElement({ name: "ttl", type: "number", quality: "N" }),
+            FieldElement({ name: "ttl", type: "uint32", quality: "N" }),
             FieldElement({ name: "deviceIdentifier", type: "string", quality: "N" }),
             FieldElement({ name: "discriminator", type: "uint16", quality: "N" }),
             FieldElement({ name: "commissioningMode", type: "uint8", quality: "N" }),
@@ -197,7 +198,19 @@ export class CommissioningClient extends Behavior {
                 ],
             }),
             FieldElement({ name: "tcpSupport", type: "uint8", quality: "N" }),
-            FieldElement({ name: "longIdleOperatingMode", type: "bool", quality: "N" }),
+            FieldElement({ name: "longIdleTimeOperatingMode", type: "bool", quality: "N" }),
+            FieldElement({
+                name: "icdRegistration",
+                type: "struct",
+                quality: "N",
+                children: [
+                    FieldElement({ name: "checkInNodeId", type: "node-id" }),
+                    FieldElement({ name: "monitoredSubject", type: "node-id" }),
+                    FieldElement({ name: "key", type: "octstr" }),
+                    FieldElement({ name: "counter", type: "uint32" }),
+                    FieldElement({ name: "idleModeDuration", type: "uint32", constraint: "1 to 64800" }),
+                ],
+            }),
         ],
     });
 }
@@ -291,6 +304,11 @@ export namespace CommissioningClient {
          * Indicates whether node is ICD with a slow (15 s+) polling interval.
          */
         longIdleTimeOperatingMode?: boolean;
+
+        /**
+         * Our registration as Check-In client if the node is an ICD.
+         */
+        icdRegistration?: IcdClientRegistration;
     }
 
     /**
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ImplementationError, Logger } from "#general";
+import type { ClientNode } from "#node/ClientNode.js";
+import { ClientStructure } from "#node/client/ClientStructure.js";
+import { InteractionClient, NodeDiscoveryType, PeerAddress, PeerSet } from "#protocol";
+import { NetworkRuntime } from "./NetworkRuntime.js";
+
+const logger = Logger.get("ClientNetworkRuntime");
+
+/**
+ * Handles network functionality for {@link ClientNode}.
+ *
+ * On start the runtime connects to the peer, reads or subscribes to all attributes and events, and mirrors the
+ * remote endpoint structure into the node.
+ */
+export class ClientNetworkRuntime extends NetworkRuntime {
+    #client?: InteractionClient;
+    #structure?: ClientStructure;
+    #refresh?: Promise<void>;
+    #refreshPending = false;
+
+    override get owner() {
+        return super.owner as ClientNode;
+    }
+
+    /**
+     * The interaction client connected to the peer.
+     */
+    get client() {
+        if (this.#client === undefined) {
+            throw new ImplementationError(`${this.owner} is not connected`);
+        }
+        return this.#client;
+    }
+
+    protected async start() {
+        const { peerAddress } = this.owner.state.commissioning;
+        if (peerAddress === undefined) {
+            throw new ImplementationError(`Cannot connect to ${this.owner} because it is not commissioned`);
+        }
+
+        const client = await this.owner.env
+            .get(PeerSet)
+            .connect(PeerAddress(peerAddress), { discoveryType: NodeDiscoveryType.FullDiscovery });
+        this.#client = client;
+        this.owner.env.set(InteractionClient, client);
+
+        const structure = new ClientStructure(this.owner);
+        this.#structure = structure;
+
+        const { autoSubscribe, subscribeMinIntervalFloorSeconds, subscribeMaxIntervalCeilingSeconds } =
+            this.owner.state.network;
+
+        if (!autoSubscribe) {
+            await structure.update(await client.getAllAttributes());
+            return;
+        }
+
+        const { attributeReports } = await client.subscribeAllAttributesAndEvents({
+            minIntervalFloorSeconds: subscribeMinIntervalFloorSeconds,
+            maxIntervalCeilingSeconds: subscribeMaxIntervalCeilingSeconds,
+            keepSubscriptions: false,
+
+            attributeListener: data => {
+                this.owner.env.runtime.add(this.#applyChange(data));
+            },
+
+            eventListener: data => {
+                this.owner.env.runtime.add(
+                    structure.emitEvent(data).catch(error => logger.error(`Error emitting ${this.owner} event`, error)),
+                );
+            },
+        });
+
+        await structure.update(attributeReports ?? []);
+    }
+
+    protected async stop() {
+        await this.#refresh;
+        const client = this.#client;
+        if (client !== undefined) {
+            client.removeAllSubscriptions();
+            this.owner.env.delete(InteractionClient, client);
+        }
+        this.#client = this.#structure = undefined;
+    }
+
+    protected blockNewActivity() {}
+
+    async #applyChange(data: Parameters<ClientStructure["applyChange"]>[0]) {
+        const structure = this.#structure;
+        if (structure === undefined) {
+            return;
+        }
+
+        try {
+            if (await structure.applyChange(data)) {
+                this.#scheduleRefresh();
+            }
+        } catch (error) {
+            logger.error(`Error applying ${this.owner} attribute change`, error);
+        }
+    }
+
+    /**
+     * Structural changes require a full read because we do not know which attributes the peer added.  Coalesce
+     * multiple structural changes into a single read.
+     */
+    #scheduleRefresh() {
+        if (this.#refreshPending) {
+            return;
+        }
+        this.#refreshPending = true;
+
+        const previous = this.#refresh ?? Promise.resolve();
+        this.#refresh = previous.then(async () => {
+            this.#refreshPending = false;
+            const client = this.#client;
+            const structure = this.#structure;
+            if (client === undefined || structure === undefined) {
+                return;
+            }
+
+            try {
+                await structure.update(await client.getAllAttributes());
+            } catch (error) {
+                logger.error(`Error refreshing ${this.owner} structure`, error);
+            }
+        });
+        this.owner.env.runtime.add(this.#refresh);
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ClientNetworkRuntime } from "./ClientNetworkRuntime.js";
+import { NetworkBehavior } from "./NetworkBehavior.js";
+
+/**
+ * Client implementation of {@link NetworkBehavior}.
+ *
+ * Configures how a {@link ClientNode} connects to and stays in sync with the remote node.
+ */
+export class NetworkClient extends NetworkBehavior {
+    declare state: NetworkClient.State;
+    declare internal: NetworkClient.Internal;
+}
+
+export namespace NetworkClient {
+    export class Internal extends NetworkBehavior.Internal {
+        declare runtime?: ClientNetworkRuntime;
+    }
+
+    export class State extends NetworkBehavior.State {
+        /**
+         * If true the node subscribes to all attributes and events of the peer when it starts.  Otherwise the node
+         * reads the peer's attributes once.
+         */
+        autoSubscribe = true;
+
+        /**
+         * Subscription interval floor in seconds.
+         */
+        subscribeMinIntervalFloorSeconds = 0;
+
+        /**
+         * Subscription interval ceiling in seconds.
+         */
+        subscribeMaxIntervalCeilingSeconds = 60;
+    }
+}
@@ -4,13 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { IcdManagementBehavior } from "#behaviors/icd-management";
+import { IcdManagement } from "#clusters/icd-management";
 import {
     ImplementationError,
     InterfaceType,
+    isNetworkInterface,
+    NetInterfaceSet,
     Network,
     NetworkInterface,
     NetworkInterfaceDetailed,
     ObserverGroup,
+    TcpInterface,
     TransportInterface,
     TransportInterfaceSet,
     UdpInterface,
@@ -18,12 +23,15 @@ import {
 import { ServerNode } from "#node/ServerNode.js";
 import { TransactionalInteractionServer } from "#node/server/TransactionalInteractionServer.js";
 import {
+    BdxProtocol,
     Ble,
     ChannelManager,
     CommissioningConfigProvider,
     DeviceAdvertiser,
     DeviceCommissioner,
     ExchangeManager,
+    FabricManager,
+    GroupMemberships,
     InstanceBroadcaster,
     MdnsInstanceBroadcaster,
     MdnsService,
@@ -53,6 +61,7 @@ export class ServerNetworkRuntime extends NetworkRuntime {
     #mdnsBroadcaster?: MdnsInstanceBroadcaster;
     #bleBroadcaster?: InstanceBroadcaster;
     #bleTransport?: TransportInterface;
+    #groupMemberships?: GroupMemberships;
     #observers = new ObserverGroup(this);
 
     override get owner() {
@@ -64,13 +73,34 @@ export class ServerNetworkRuntime extends NetworkRuntime {
      */
     get mdnsBroadcaster() {
         if (!this.#mdnsBroadcaster) {
+            const { idleIntervalMs, activeIntervalMs, activeThresholdMs } =
+                this.owner.env.get(SessionManager).sessionParameters;
             this.#mdnsBroadcaster = this.owner.env
                 .get(MdnsService)
-                .createInstanceBroadcaster(this.owner.state.network.operationalPort);
+                .createInstanceBroadcaster(this.owner.state.network.operationalPort, {
+                    sessionIdleInterval: idleIntervalMs,
+                    sessionActiveInterval: activeIntervalMs,
+                    sessionActiveThreshold: activeThresholdMs,
+                    tcpSupport: { tcpServer: this.owner.state.network.tcp },
+                    icdOperatingMode: this.#icdOperatingMode,
+                });
         }
         return this.#mdnsBroadcaster;
     }
 
+    /**
+     * The operating mode of the node if it is an ICD supporting long idle time.
+     */
+    get #icdOperatingMode() {
+        if (!this.owner.behaviors.has(IcdManagementBehavior)) {
+            return;
+        }
+        const { operatingMode } = this.owner.stateOf(IcdManagementBehavior) as {
+            operatingMode?: IcdManagement.OperatingMode;
+        };
+        return operatingMode;
+    }
+
     get networkInterfaceConfiguration(): NetworkInterface[] {
         const interfaceConfig = this.owner.env.vars.get<Record<string, { type: string | number }>>(
             "network.interface",
@@ -143,6 +173,9 @@ export class ServerNetworkRuntime extends NetworkRuntime {
 
         await this.owner.set({ network: { operationalPort: ipv6Intf.port } });
 
+        // Groupcast messages are sent to the IPv6 multicast addresses of the groups
+        this.#groupMemberships = new GroupMemberships(await this.owner.env.load(FabricManager), ipv6Intf);
+
         if (netconf.ipv4) {
             interfaces.add(
                 await UdpInterface.create(
@@ -154,6 +187,29 @@ export class ServerNetworkRuntime extends NetworkRuntime {
             );
         }
 
+        if (netconf.tcp) {
+            // TCP listens on the operational port as well
+            interfaces.add(
+                await TcpInterface.create(
+                    this.owner.env.get(Network),
+                    "tcp6",
+                    ipv6Intf.port,
+                    netconf.listeningAddressIpv6,
+                ),
+            );
+
+            if (netconf.ipv4) {
+                interfaces.add(
+                    await TcpInterface.create(
+                        this.owner.env.get(Network),
+                        "tcp4",
+                        ipv6Intf.port,
+                        netconf.listeningAddressIpv4,
+                    ),
+                );
+            }
+        }
+
         if (netconf.ble) {
             interfaces.add(this.bleTransport);
         }
@@ -253,7 +309,17 @@ export class ServerNetworkRuntime extends NetworkRuntime {
         await env.load(MdnsService);
 
         // Configure network
-        await this.addTransports(env.get(TransportInterfaceSet));
+        const transports = env.get(TransportInterfaceSet);
+        await this.addTransports(transports);
+
+        // Transports that open channels are available for connections to peers such as OTA providers
+        const netInterfaces = env.get(NetInterfaceSet);
+        for (const transport of transports) {
+            if (isNetworkInterface(transport)) {
+                netInterfaces.add(transport);
+            }
+        }
+
         await this.addBroadcasters(env.get(DeviceAdvertiser));
 
         await owner.act("start-network", agent => agent.load(ProductDescriptionServer));
@@ -314,8 +380,12 @@ export class ServerNetworkRuntime extends NetworkRuntime {
 
         await this.owner.env.close(DeviceCommissioner);
         await this.owner.env.close(DeviceAdvertiser);
+        await this.owner.env.close(BdxProtocol);
         await this.owner.env.close(ExchangeManager);
         await this.owner.env.close(SecureChannelProtocol);
+        await this.#groupMemberships?.close();
+        this.#groupMemberships = undefined;
+        this.owner.env.get(NetInterfaceSet).clear();
         await this.owner.env.close(TransportInterfaceSet);
 
         await this.#interactionServer?.[Symbol.asyncDispose]();
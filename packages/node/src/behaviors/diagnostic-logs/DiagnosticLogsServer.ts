@@ -4,11 +4,181 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { DiagnosticLogs } from "#clusters/diagnostic-logs";
+import { LogBuffer, Logger, LogLevel, MaybePromise } from "#general";
+import { BdxClient, BdxError, ChannelManager, ExchangeManager } from "#protocol";
+import { BDX_PROTOCOL_ID, StatusCode, StatusResponseError } from "#types";
 import { DiagnosticLogsBehavior } from "./DiagnosticLogsBehavior.js";
 
+import Intent = DiagnosticLogs.Intent;
+import Status = DiagnosticLogs.Status;
+import TransferProtocol = DiagnosticLogs.TransferProtocol;
+
+const logger = Logger.get("DiagnosticLogsServer");
+
+/** The maximum size of logs in the LogContent field of RetrieveLogsResponse. */
+const MAX_LOG_CONTENT_SIZE = 1024;
+
 /**
  * This is the default server implementation of {@link DiagnosticLogsBehavior}.
+ *
+ * The server retains recent log messages of {@link Logger} in a {@link LogBuffer} per intent:
+ *
+ *   - EndUserSupport receives all messages of {@link State.logLevel} or higher
+ *   - NetworkDiag receives messages of the facilities in {@link State.networkFacilities}
+ *   - CrashLogs receives errors
+ *
+ * Logs that fit into a RetrieveLogsResponse are returned inline.  If the client requests BDX we send larger logs via
+ * BDX on the session of the request.  Override {@link logsFor} to supply logs from other sources.
+ */
+export class DiagnosticLogsServer extends DiagnosticLogsBehavior {
+    protected declare internal: DiagnosticLogsServer.Internal;
+    declare state: DiagnosticLogsServer.State;
+
+    override initialize() {
+        const { logBufferSize: maxSize, logLevel, networkFacilities } = this.state;
+        const buffers = {
+            [Intent.EndUserSupport]: new LogBuffer({ maxSize, level: logLevel }),
+            [Intent.NetworkDiag]: new LogBuffer({ maxSize, level: logLevel, facilities: networkFacilities }),
+            [Intent.CrashLogs]: new LogBuffer({ maxSize, level: LogLevel.ERROR }),
+        };
+        for (const buffer of Object.values(buffers)) {
+            buffer.install();
+        }
+        this.internal.buffers = buffers;
+    }
+
+    override async [Symbol.asyncDispose]() {
+        for (const buffer of Object.values(this.internal.buffers)) {
+            buffer.uninstall();
+        }
+        await this.internal.transfer;
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override async retrieveLogsRequest({
+        intent,
+        requestedProtocol,
+        transferFileDesignator,
+    }: DiagnosticLogs.RetrieveLogsRequest): Promise<DiagnosticLogs.RetrieveLogsResponse> {
+        if (requestedProtocol === TransferProtocol.Bdx && transferFileDesignator === undefined) {
+            throw new StatusResponseError("BDX transfer requires a file designator", StatusCode.InvalidCommand);
+        }
+
+        const logs = await this.logsFor(intent);
+        if (logs === undefined || !logs.length) {
+            return { status: Status.NoLogs, logContent: new Uint8Array() };
+        }
+
+        if (requestedProtocol === TransferProtocol.ResponsePayload) {
+            return { status: Status.Success, logContent: tail(logs) };
+        }
+
+        if (logs.length <= MAX_LOG_CONTENT_SIZE) {
+            return { status: Status.Exhausted, logContent: logs };
+        }
+
+        if (this.internal.transfer) {
+            return { status: Status.Busy, logContent: new Uint8Array() };
+        }
+
+        let transfer;
+        try {
+            transfer = await this.#offer(transferFileDesignator!, logs.length);
+        } catch (error) {
+            if (error instanceof BdxError && error.isRemote) {
+                logger.info(`Client denied BDX transfer of logs:`, error);
+                return { status: Status.Denied, logContent: new Uint8Array() };
+            }
+
+            // We cannot use BDX so send what fits into the response
+            logger.info(`Cannot send logs via BDX:`, error);
+            return { status: Status.Exhausted, logContent: tail(logs) };
+        }
+
+        const internal = this.internal;
+        internal.transfer = transfer
+            .send(logs)
+            .catch(error => logger.info(`BDX transfer of logs failed:`, error))
+            .finally(() => (internal.transfer = undefined));
+        this.env.runtime.add(internal.transfer);
+
+        return { status: Status.Success, logContent: new Uint8Array() };
+    }
+
+    /**
+     * Retrieve the logs for an intent as UTF-8 text.  Returns undefined if there are no logs of the requested type.
+     */
+    protected logsFor(intent: DiagnosticLogs.Intent): MaybePromise<Uint8Array | undefined> {
+        return this.internal.buffers[intent]?.read();
+    }
+
+    /**
+     * Initiate a BDX transfer to the client on the session of the request.
+     */
+    async #offer(fileDesignator: string, length: number) {
+        const session = this.context.session;
+        if (session === undefined) {
+            throw new StatusResponseError("BDX transfer requires a secure session", StatusCode.UnsupportedAccess);
+        }
+
+        const channel = this.env.get(ChannelManager).getChannelForSession(session);
+        if (channel === undefined) {
+            throw new StatusResponseError("No channel for session of request", StatusCode.Failure);
+        }
+
+        const exchange = this.env.get(ExchangeManager).initiateExchangeWithChannel(channel, BDX_PROTOCOL_ID);
+        return new BdxClient(exchange).offer({ fileDesignator, length });
+    }
+}
+
+/**
+ * Truncate logs to fit into the response.  We prefer the most recent messages and start at a message boundary if
+ * possible.
  */
-export class DiagnosticLogsServer extends DiagnosticLogsBehavior {}
+function tail(logs: Uint8Array) {
+    if (logs.length <= MAX_LOG_CONTENT_SIZE) {
+        return logs;
+    }
+
+    const content = logs.subarray(logs.length - MAX_LOG_CONTENT_SIZE);
+    const lineEnd = content.indexOf(0x0a);
+    if (lineEnd === -1 || lineEnd === content.length - 1) {
+        return content;
+    }
+    return content.subarray(lineEnd + 1);
+}
+
+export namespace DiagnosticLogsServer {
+    export class Internal {
+        /** Retained logs for each intent. */
+        buffers: Partial<Record<DiagnosticLogs.Intent, LogBuffer>> = {};
+
+        /** The BDX transfer running in the background. */
+        transfer?: Promise<void>;
+    }
+
+    export class State extends DiagnosticLogsBehavior.State {
+        /** The maximum size of retained logs per intent in bytes. */
+        logBufferSize = LogBuffer.DEFAULT_MAX_SIZE;
+
+        /** The minimum level of messages retained for end-user support and network diagnostics. */
+        logLevel = LogLevel.INFO;
+
+        /** The logger facilities retained for network diagnostics. */
+        networkFacilities = [
+            "ChannelManager",
+            "ExchangeManager",
+            "MdnsBroadcaster",
+            "MdnsScanner",
+            "MdnsServer",
+            "MessageExchange",
+            "PeerSet",
+            "SessionManager",
+            "TcpChannelNode",
+            "TcpInterface",
+            "UdpChannelNode",
+            "UdpMulticastServer",
+        ];
+    }
+}
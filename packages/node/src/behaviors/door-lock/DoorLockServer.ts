@@ -5,18 +5,741 @@
  */
 
 import { DoorLock } from "#clusters/door-lock";
+import { Bytes, Logger, Time, Timer } from "#general";
+import { DatatypeElement, FieldElement } from "#model";
+import { ClusterType, FabricIndex, Status, StatusCode, StatusResponseError } from "#types";
 import { DoorLockBehavior } from "./DoorLockBehavior.js";
+import CredentialType = DoorLock.CredentialType;
+import DataOperationType = DoorLock.DataOperationType;
+import LockDataType = DoorLock.LockDataType;
+import LockOperationType = DoorLock.LockOperationType;
 import LockState = DoorLock.LockState;
+import OperationError = DoorLock.OperationError;
+import OperationSource = DoorLock.OperationSource;
+import UserStatus = DoorLock.UserStatus;
+
+const logger = Logger.get("DoorLockServer");
+
+const DoorLockServerBase = DoorLockBehavior.with(
+    DoorLock.Feature.User,
+    DoorLock.Feature.PinCredential,
+    DoorLock.Feature.RfidCredential,
+    DoorLock.Feature.CredentialOverTheAirAccess,
+);
+
+// Enhance the schema to persist users and credentials
+const schema = DoorLockServerBase.schema!.extend({
+    children: [
+        DatatypeElement({
+            name: "LockUserStruct",
+            type: "struct",
+            children: [
+                FieldElement({ name: "UserIndex", id: 0x0, type: "uint16", conformance: "M" }),
+                FieldElement({ name: "UserName", id: 0x1, type: "string", conformance: "M" }),
+                FieldElement({ name: "UserUniqueId", id: 0x2, type: "uint32", conformance: "M", quality: "X" }),
+                FieldElement({ name: "UserStatus", id: 0x3, type: "UserStatusEnum", conformance: "M" }),
+                FieldElement({ name: "UserType", id: 0x4, type: "UserTypeEnum", conformance: "M" }),
+                FieldElement({ name: "CredentialRule", id: 0x5, type: "CredentialRuleEnum", conformance: "M" }),
+                FieldElement({
+                    name: "CreatorFabricIndex",
+                    id: 0x6,
+                    type: "fabric-idx",
+                    conformance: "M",
+                    quality: "X",
+                }),
+                FieldElement({
+                    name: "LastModifiedFabricIndex",
+                    id: 0x7,
+                    type: "fabric-idx",
+                    conformance: "M",
+                    quality: "X",
+                }),
+            ],
+        }),
+        DatatypeElement({
+            name: "LockCredentialStruct",
+            type: "struct",
+            children: [
+                FieldElement({ name: "CredentialType", id: 0x0, type: "CredentialTypeEnum", conformance: "M" }),
+                FieldElement({ name: "CredentialIndex", id: 0x1, type: "uint16", conformance: "M" }),
+                FieldElement({ name: "CredentialData", id: 0x2, type: "octstr", conformance: "M" }),
+                FieldElement({ name: "UserIndex", id: 0x3, type: "uint16", conformance: "M" }),
+                FieldElement({
+                    name: "CreatorFabricIndex",
+                    id: 0x4,
+                    type: "fabric-idx",
+                    conformance: "M",
+                    quality: "X",
+                }),
+                FieldElement({
+                    name: "LastModifiedFabricIndex",
+                    id: 0x5,
+                    type: "fabric-idx",
+                    conformance: "M",
+                    quality: "X",
+                }),
+            ],
+        }),
+        FieldElement({
+            name: "users",
+            type: "list",
+            quality: "N",
+            children: [FieldElement({ name: "entry", type: "LockUserStruct" })],
+        }),
+        FieldElement({
+            name: "credentials",
+            type: "list",
+            quality: "N",
+            children: [FieldElement({ name: "entry", type: "LockCredentialStruct" })],
+        }),
+    ],
+});
+
+/** Index addressing all users or all credentials of a type. */
+const ALL_INDICES = 0xfffe;
+
+const LOCK_DATA_TYPES: Record<CredentialType, LockDataType> = {
+    [CredentialType.ProgrammingPin]: LockDataType.ProgrammingCode,
+    [CredentialType.Pin]: LockDataType.Pin,
+    [CredentialType.Rfid]: LockDataType.Rfid,
+    [CredentialType.Fingerprint]: LockDataType.Fingerprint,
+    [CredentialType.FingerVein]: LockDataType.FingerVein,
+    [CredentialType.Face]: LockDataType.Face,
+};
 
 /**
  * This is the default server implementation of {@link DoorLockBehavior}.
+ *
+ * With the User feature the server maintains users and their PIN and RFID credentials as specified in
+ * @see {@link MatterSpecification.v13.Cluster} § 5.2.  Users and credentials are persisted.  A credential is always
+ * associated with a user; a user is created when adding a credential without user and removed with its last credential.
+ *
+ * With the PinCredential feature LockDoor, UnlockDoor and UnlockWithTimeout validate the PIN code against the PIN
+ * credentials of enabled users.  A PIN code is only required if RequirePINforRemoteOperation is set.  After
+ * WrongCodeEntryLimit invalid codes all PIN operations are rejected for UserCodeTemporaryDisableTime seconds.
+ *
+ * Lock operations set {@link DoorLock.Attributes.lockState} and emit LockOperation or LockOperationError events.  Your
+ * implementation should react to changes of the lock state to actuate the lock.  If AutoRelockTime is set the door
+ * locks automatically after unlocking.
  */
-export class DoorLockServer extends DoorLockBehavior {
-    override lockDoor() {
+export class DoorLockServerLogic extends DoorLockServerBase {
+    protected declare internal: DoorLockServerLogic.Internal;
+    declare state: DoorLockServerLogic.State;
+    schema = schema;
+
+    override async [Symbol.asyncDispose]() {
+        this.internal.relockTimer?.stop();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override lockDoor({ pinCode }: DoorLock.LockDoorRequest) {
+        this.#operate(LockOperationType.Lock, pinCode);
+    }
+
+    override unlockDoor({ pinCode }: DoorLock.UnlockDoorRequest) {
+        this.#operate(LockOperationType.Unlock, pinCode, this.state.autoRelockTime);
+    }
+
+    override unlockWithTimeout({ timeout, pinCode }: DoorLock.UnlockWithTimeoutRequest) {
+        this.#operate(LockOperationType.Unlock, pinCode, timeout);
+    }
+
+    override setUser({
+        operationType,
+        userIndex,
+        userName,
+        userUniqueId,
+        userStatus,
+        userType,
+        credentialRule,
+    }: DoorLock.SetUserRequest) {
+        this.#assertUserIndex(userIndex);
+
+        if (userStatus === UserStatus.Available) {
+            throw new StatusResponseError("User status must not be Available", StatusCode.InvalidCommand);
+        }
+        if (credentialRule !== null && !this.#supportsCredentialRule(credentialRule)) {
+            throw new StatusResponseError(
+                `Credential rule ${DoorLock.CredentialRule[credentialRule]} is not supported`,
+                StatusCode.InvalidCommand,
+            );
+        }
+
+        const fabricIndex = this.context.fabric ?? null;
+        const users = [...this.state.users];
+        const existingIndex = users.findIndex(user => user.userIndex === userIndex);
+
+        switch (operationType) {
+            case DataOperationType.Add:
+                if (existingIndex !== -1) {
+                    throw new StatusResponseError(
+                        `User ${userIndex} already exists`,
+                        StatusCode.Failure,
+                        DoorLock.StatusCode.Occupied,
+                    );
+                }
+                users.push({
+                    userIndex,
+                    userName: userName ?? "",
+                    userUniqueId,
+                    userStatus: userStatus ?? UserStatus.OccupiedEnabled,
+                    userType: userType ?? DoorLock.UserType.UnrestrictedUser,
+                    credentialRule: credentialRule ?? DoorLock.CredentialRule.Single,
+                    creatorFabricIndex: fabricIndex,
+                    lastModifiedFabricIndex: fabricIndex,
+                });
+                break;
+
+            case DataOperationType.Modify: {
+                if (existingIndex === -1) {
+                    throw new StatusResponseError(`User ${userIndex} does not exist`, StatusCode.InvalidCommand);
+                }
+
+                const user = users[existingIndex];
+
+                // Only the creating fabric may modify name and unique ID
+                if (user.creatorFabricIndex !== fabricIndex && (userName !== null || userUniqueId !== null)) {
+                    throw new StatusResponseError(
+                        `User ${userIndex} name and unique ID may only be modified by the creator fabric`,
+                        StatusCode.InvalidCommand,
+                    );
+                }
+
+                users[existingIndex] = {
+                    ...user,
+                    userName: userName ?? user.userName,
+                    userUniqueId: userUniqueId ?? user.userUniqueId,
+                    userStatus: userStatus ?? user.userStatus,
+                    userType: userType ?? user.userType,
+                    credentialRule: credentialRule ?? user.credentialRule,
+                    lastModifiedFabricIndex: fabricIndex,
+                };
+                break;
+            }
+
+            default:
+                throw new StatusResponseError(
+                    `Invalid operation type ${DataOperationType[operationType]} for SetUser`,
+                    StatusCode.InvalidCommand,
+                );
+        }
+
+        this.state.users = users.sort((a, b) => a.userIndex - b.userIndex);
+        this.#emitUserChange(LockDataType.UserIndex, operationType, userIndex, userIndex);
+    }
+
+    override getUser({ userIndex }: DoorLock.GetUserRequest): DoorLock.GetUserResponse {
+        this.#assertUserIndex(userIndex);
+
+        const user = this.#userAt(userIndex);
+        const nextUserIndex = this.state.users.find(user => user.userIndex > userIndex)?.userIndex ?? null;
+
+        if (user === undefined) {
+            return {
+                userIndex,
+                userName: null,
+                userUniqueId: null,
+                userStatus: null,
+                userType: null,
+                credentialRule: null,
+                credentials: null,
+                creatorFabricIndex: null,
+                lastModifiedFabricIndex: null,
+                nextUserIndex,
+            };
+        }
+
+        const credentials = this.state.credentials
+            .filter(credential => credential.userIndex === userIndex)
+            .map(({ credentialType, credentialIndex }) => ({ credentialType, credentialIndex }));
+
+        return {
+            userIndex,
+            userName: user.userName,
+            userUniqueId: user.userUniqueId,
+            userStatus: user.userStatus,
+            userType: user.userType,
+            credentialRule: user.credentialRule,
+            credentials: credentials.length ? credentials : null,
+            creatorFabricIndex: user.creatorFabricIndex,
+            lastModifiedFabricIndex: user.lastModifiedFabricIndex,
+            nextUserIndex,
+        };
+    }
+
+    override clearUser({ userIndex }: DoorLock.ClearUserRequest) {
+        if (userIndex === ALL_INDICES) {
+            this.state.users = [];
+            this.state.credentials = this.state.credentials.filter(
+                ({ credentialType }) => credentialType === CredentialType.ProgrammingPin,
+            );
+        } else {
+            this.#assertUserIndex(userIndex);
+            this.state.users = this.state.users.filter(user => user.userIndex !== userIndex);
+            this.state.credentials = this.state.credentials.filter(credential => credential.userIndex !== userIndex);
+        }
+
+        this.#emitUserChange(LockDataType.UserIndex, DataOperationType.Clear, userIndex, userIndex);
+    }
+
+    override setCredential({
+        operationType,
+        credential: { credentialType, credentialIndex },
+        credentialData,
+        userIndex,
+        userStatus,
+        userType,
+    }: DoorLock.SetCredentialRequest): DoorLock.SetCredentialResponse {
+        const limits = this.#assertCredentialType(credentialType);
+
+        const respond = (status: Status | DoorLock.StatusCode, userIndex: number | null = null) => ({
+            // Duplicate and Occupied are specific to this cluster and not part of the global status codes
+            status: status as Status,
+            userIndex,
+            nextCredentialIndex: this.#nextAvailableCredentialIndex(credentialType, credentialIndex),
+        });
+
+        if (credentialIndex < 1 || credentialIndex > limits.count) {
+            return respond(Status.InvalidCommand);
+        }
+        if (credentialData.length < limits.minLength || credentialData.length > limits.maxLength) {
+            return respond(Status.InvalidCommand);
+        }
+
+        const credentials = [...this.state.credentials];
+        const existingIndex = credentials.findIndex(
+            credential =>
+                credential.credentialType === credentialType && credential.credentialIndex === credentialIndex,
+        );
+        const duplicate = credentials.some(
+            (credential, index) =>
+                index !== existingIndex &&
+                credential.credentialType === credentialType &&
+                Bytes.areEqual(credential.credentialData, credentialData),
+        );
+        if (duplicate) {
+            return respond(DoorLock.StatusCode.Duplicate);
+        }
+
+        const fabricIndex = this.context.fabric ?? null;
+
+        switch (operationType) {
+            case DataOperationType.Add: {
+                if (existingIndex !== -1) {
+                    return respond(DoorLock.StatusCode.Occupied);
+                }
+
+                const users = [...this.state.users];
+                let user;
+                if (userIndex === null) {
+                    userIndex = this.#nextAvailableUserIndex();
+                    if (userIndex === null) {
+                        return respond(Status.ResourceExhausted);
+                    }
+                } else {
+                    if (userIndex > this.state.numberOfTotalUsersSupported) {
+                        return respond(Status.InvalidCommand);
+                    }
+                    user = users.find(user => user.userIndex === userIndex);
+                }
+
+                if (user === undefined) {
+                    if (userStatus === UserStatus.Available) {
+                        return respond(Status.InvalidCommand);
+                    }
+                    users.push({
+                        userIndex,
+                        userName: "",
+                        userUniqueId: null,
+                        userStatus: userStatus ?? UserStatus.OccupiedEnabled,
+                        userType: userType ?? DoorLock.UserType.UnrestrictedUser,
+                        credentialRule: DoorLock.CredentialRule.Single,
+                        creatorFabricIndex: fabricIndex,
+                        lastModifiedFabricIndex: fabricIndex,
+                    });
+                    this.state.users = users.sort((a, b) => a.userIndex - b.userIndex);
+                } else {
+                    if (userStatus !== null || userType !== null) {
+                        return respond(Status.InvalidCommand);
+                    }
+                    const userCredentialCount = credentials.filter(
+                        credential => credential.userIndex === userIndex,
+                    ).length;
+                    if (userCredentialCount >= this.state.numberOfCredentialsSupportedPerUser) {
+                        return respond(Status.ResourceExhausted);
+                    }
+                }
+
+                credentials.push({
+                    credentialType,
+                    credentialIndex,
+                    credentialData,
+                    userIndex,
+                    creatorFabricIndex: fabricIndex,
+                    lastModifiedFabricIndex: fabricIndex,
+                });
+                break;
+            }
+
+            case DataOperationType.Modify: {
+                const existing = credentials[existingIndex];
+                if (existing === undefined || existing.userIndex !== userIndex) {
+                    return respond(Status.InvalidCommand);
+                }
+                if (userStatus !== null || userType !== null) {
+                    return respond(Status.InvalidCommand);
+                }
+
+                credentials[existingIndex] = { ...existing, credentialData, lastModifiedFabricIndex: fabricIndex };
+                break;
+            }
+
+            default:
+                return respond(Status.InvalidCommand);
+        }
+
+        this.state.credentials = credentials;
+        this.#emitUserChange(LOCK_DATA_TYPES[credentialType], operationType, userIndex, credentialIndex);
+
+        return respond(Status.Success, userIndex);
+    }
+
+    override getCredentialStatus({
+        credential: { credentialType, credentialIndex },
+    }: DoorLock.GetCredentialStatusRequest): DoorLock.GetCredentialStatusResponse {
+        const limits = this.#assertCredentialType(credentialType);
+        if (credentialIndex < 1 || credentialIndex > limits.count) {
+            throw new StatusResponseError(
+                `Credential index ${credentialIndex} is out of range`,
+                StatusCode.InvalidCommand,
+            );
+        }
+
+        const credentials = this.state.credentials.filter(credential => credential.credentialType === credentialType);
+        const credential = credentials.find(credential => credential.credentialIndex === credentialIndex);
+        const nextCredentialIndex =
+            credentials
+                .map(credential => credential.credentialIndex)
+                .filter(index => index > credentialIndex)
+                .sort((a, b) => a - b)[0] ?? null;
+
+        return {
+            credentialExists: credential !== undefined,
+            userIndex: credential?.userIndex ?? null,
+            creatorFabricIndex: credential?.creatorFabricIndex ?? null,
+            lastModifiedFabricIndex: credential?.lastModifiedFabricIndex ?? null,
+            nextCredentialIndex,
+        };
+    }
+
+    override clearCredential({ credential }: DoorLock.ClearCredentialRequest) {
+        const credentials = this.state.credentials;
+
+        let remove: (credential: DoorLockServerLogic.LockCredential) => boolean;
+        if (credential === null) {
+            // Clear all credentials except the programming PIN
+            remove = ({ credentialType }) => credentialType !== CredentialType.ProgrammingPin;
+        } else {
+            const { credentialType, credentialIndex } = credential;
+            const limits = this.#assertCredentialType(credentialType);
+            if (credentialIndex === ALL_INDICES) {
+                remove = entry => entry.credentialType === credentialType;
+            } else if (credentialIndex < 1 || credentialIndex > limits.count) {
+                throw new StatusResponseError(
+                    `Credential index ${credentialIndex} is out of range`,
+                    StatusCode.InvalidCommand,
+                );
+            } else {
+                remove = entry => entry.credentialType === credentialType && entry.credentialIndex === credentialIndex;
+            }
+        }
+
+        const removed = credentials.filter(remove);
+        const remaining = credentials.filter(entry => !remove(entry));
+        this.state.credentials = remaining;
+
+        if (credential === null) {
+            for (const credentialType of new Set(removed.map(({ credentialType }) => credentialType))) {
+                this.#emitUserChange(LOCK_DATA_TYPES[credentialType], DataOperationType.Clear, null, ALL_INDICES);
+            }
+        } else {
+            this.#emitUserChange(
+                LOCK_DATA_TYPES[credential.credentialType],
+                DataOperationType.Clear,
+                removed.length === 1 ? removed[0].userIndex : null,
+                credential.credentialIndex,
+            );
+        }
+
+        // Users are removed with their last credential
+        const orphans = new Set(removed.map(({ userIndex }) => userIndex));
+        for (const { userIndex } of remaining) {
+            orphans.delete(userIndex);
+        }
+        if (orphans.size) {
+            this.state.users = this.state.users.filter(({ userIndex }) => !orphans.has(userIndex));
+            for (const userIndex of orphans) {
+                this.#emitUserChange(LockDataType.UserIndex, DataOperationType.Clear, userIndex, userIndex);
+            }
+        }
+    }
+
+    /**
+     * Authorize a lock operation, update the lock state and emit the lock operation event.
+     */
+    #operate(lockOperationType: LockOperationType, pinCode?: Uint8Array, relockTimeout?: number) {
+        const credential = this.#authorize(lockOperationType, pinCode);
+
+        this.internal.relockTimer?.stop();
+        this.state.lockState = lockOperationType === LockOperationType.Lock ? LockState.Locked : LockState.Unlocked;
+        this.events.lockOperation.emit(
+            {
+                lockOperationType,
+                ...this.#source,
+                userIndex: credential?.userIndex ?? null,
+                credentials: credential
+                    ? [{ credentialType: credential.credentialType, credentialIndex: credential.credentialIndex }]
+                    : null,
+            },
+            this.context,
+        );
+
+        if (relockTimeout) {
+            this.internal.relockTimer = Time.getTimer(
+                "DoorLock.relock",
+                relockTimeout * 1000,
+                this.callback(this.#relock),
+            ).start();
+        }
+    }
+
+    #relock() {
+        logger.debug("Relocking door automatically");
         this.state.lockState = LockState.Locked;
+        this.events.lockOperation.emit(
+            {
+                lockOperationType: LockOperationType.Lock,
+                operationSource: OperationSource.Auto,
+                userIndex: null,
+                fabricIndex: null,
+                sourceNode: null,
+            },
+            this.context,
+        );
     }
 
-    override unlockDoor() {
-        this.state.lockState = LockState.Unlocked;
+    /**
+     * Validate the PIN code of a lock operation.  Returns the matching credential or undefined if no PIN code is
+     * required.
+     */
+    #authorize(lockOperationType: LockOperationType, pinCode?: Uint8Array) {
+        if (!this.features.pinCredential) {
+            return;
+        }
+
+        const reject = (operationError: OperationError, message: string, userIndex: number | null = null): never => {
+            this.events.lockOperationError.emit(
+                { lockOperationType, ...this.#source, operationError, userIndex },
+                this.context,
+            );
+            throw new StatusResponseError(message, StatusCode.Failure);
+        };
+
+        if (pinCode === undefined) {
+            if (this.features.credentialOverTheAirAccess && this.state.requirePinForRemoteOperation) {
+                reject(OperationError.InvalidCredential, "PIN code is required");
+            }
+            return;
+        }
+
+        if (this.internal.lockoutUntil !== undefined) {
+            if (Time.nowMs() < this.internal.lockoutUntil) {
+                reject(OperationError.InvalidCredential, "PIN entry is temporarily disabled");
+            }
+            this.internal.lockoutUntil = undefined;
+        }
+
+        const credential = this.state.credentials.find(
+            ({ credentialType, credentialData }) =>
+                credentialType === CredentialType.Pin && Bytes.areEqual(credentialData, pinCode),
+        );
+
+        if (credential === undefined) {
+            this.#registerWrongCodeEntry();
+            return reject(OperationError.InvalidCredential, "Invalid PIN code");
+        }
+
+        const user = this.#userAt(credential.userIndex);
+        if (user?.userStatus !== UserStatus.OccupiedEnabled) {
+            return reject(
+                OperationError.DisabledUserDenied,
+                `User ${credential.userIndex} is disabled`,
+                credential.userIndex,
+            );
+        }
+
+        this.internal.wrongCodeEntries = 0;
+        return credential;
+    }
+
+    #registerWrongCodeEntry() {
+        const { wrongCodeEntryLimit, userCodeTemporaryDisableTime } = this.state;
+
+        this.internal.wrongCodeEntries++;
+        if (wrongCodeEntryLimit === undefined || this.internal.wrongCodeEntries < wrongCodeEntryLimit) {
+            return;
+        }
+
+        logger.info(`Wrong code entry limit reached, disabling PIN entry for ${userCodeTemporaryDisableTime}s`);
+        this.internal.wrongCodeEntries = 0;
+        this.internal.lockoutUntil = Time.nowMs() + (userCodeTemporaryDisableTime ?? 0) * 1000;
+        this.events.doorLockAlarm.emit({ alarmCode: DoorLock.AlarmCode.WrongCodeEntryLimit }, this.context);
+    }
+
+    #emitUserChange(
+        lockDataType: LockDataType,
+        dataOperationType: DataOperationType,
+        userIndex: number | null,
+        dataIndex: number | null,
+    ) {
+        this.events.lockUserChange.emit(
+            { lockDataType, dataOperationType, ...this.#source, userIndex, dataIndex },
+            this.context,
+        );
+    }
+
+    /**
+     * Source details of the current interaction for events.
+     */
+    get #source() {
+        const { fabric, session } = this.context;
+        return {
+            operationSource: session === undefined ? OperationSource.Unspecified : OperationSource.Remote,
+            fabricIndex: fabric ?? null,
+            sourceNode: session?.peerNodeId ?? null,
+        };
+    }
+
+    #userAt(userIndex: number) {
+        return this.state.users.find(user => user.userIndex === userIndex);
+    }
+
+    #assertUserIndex(userIndex: number) {
+        if (userIndex < 1 || userIndex > this.state.numberOfTotalUsersSupported) {
+            throw new StatusResponseError(`User index ${userIndex} is out of range`, StatusCode.InvalidCommand);
+        }
+    }
+
+    #supportsCredentialRule(credentialRule: DoorLock.CredentialRule) {
+        const { single, dual, tri } = this.state.credentialRulesSupport;
+        switch (credentialRule) {
+            case DoorLock.CredentialRule.Single:
+                return !!single;
+
+            case DoorLock.CredentialRule.Dual:
+                return !!dual;
+
+            case DoorLock.CredentialRule.Tri:
+                return !!tri;
+        }
+    }
+
+    /**
+     * Ensure the credential type is supported and return the number of credentials and data length limits.
+     */
+    #assertCredentialType(credentialType: CredentialType) {
+        if (credentialType === CredentialType.Pin && this.features.pinCredential) {
+            return {
+                count: this.state.numberOfPinUsersSupported,
+                minLength: this.state.minPinCodeLength,
+                maxLength: this.state.maxPinCodeLength,
+            };
+        }
+
+        if (credentialType === CredentialType.Rfid && this.features.rfidCredential) {
+            return {
+                count: this.state.numberOfRfidUsersSupported,
+                minLength: this.state.minRfidCodeLength,
+                maxLength: this.state.maxRfidCodeLength,
+            };
+        }
+
+        throw new StatusResponseError(
+            `Credential type ${CredentialType[credentialType]} is not supported`,
+            StatusCode.InvalidCommand,
+        );
+    }
+
+    #nextAvailableUserIndex() {
+        for (let userIndex = 1; userIndex <= this.state.numberOfTotalUsersSupported; userIndex++) {
+            if (this.#userAt(userIndex) === undefined) {
+                return userIndex;
+            }
+        }
+        return null;
+    }
+
+    #nextAvailableCredentialIndex(credentialType: CredentialType, credentialIndex: number) {
+        const { count } = this.#assertCredentialType(credentialType);
+        const occupied = new Set(
+            this.state.credentials
+                .filter(credential => credential.credentialType === credentialType)
+                .map(credential => credential.credentialIndex),
+        );
+        for (let index = credentialIndex + 1; index <= count; index++) {
+            if (!occupied.has(index)) {
+                return index;
+            }
+        }
+        return null;
     }
 }
+
+export namespace DoorLockServerLogic {
+    /**
+     * A user of the lock.
+     */
+    export interface LockUser {
+        userIndex: number;
+        userName: string;
+        userUniqueId: number | null;
+        userStatus: DoorLock.UserStatus;
+        userType: DoorLock.UserType;
+        credentialRule: DoorLock.CredentialRule;
+        creatorFabricIndex: FabricIndex | null;
+        lastModifiedFabricIndex: FabricIndex | null;
+    }
+
+    /**
+     * A credential of a user.
+     */
+    export interface LockCredential {
+        credentialType: DoorLock.CredentialType;
+        credentialIndex: number;
+        credentialData: Uint8Array;
+        userIndex: number;
+        creatorFabricIndex: FabricIndex | null;
+        lastModifiedFabricIndex: FabricIndex | null;
+    }
+
+    export class Internal {
+        /** Number of consecutive invalid PIN codes. */
+        wrongCodeEntries = 0;
+
+        /** Time until PIN entry is disabled after reaching the wrong code entry limit. */
+        lockoutUntil?: number;
+
+        /** Timer for automatic relocking. */
+        relockTimer?: Timer;
+    }
+
+    export class State extends DoorLockServerBase.State {
+        /** The persisted users. */
+        users = new Array<LockUser>();
+
+        /** The persisted credentials. */
+        credentials = new Array<LockCredential>();
+    }
+}
+
+export class DoorLockServer extends DoorLockServerLogic.for(ClusterType(DoorLock.Base)) {}
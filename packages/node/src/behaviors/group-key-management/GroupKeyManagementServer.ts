@@ -6,39 +6,122 @@
 
 import { GroupKeyManagement } from "#clusters/group-key-management";
 import { ImplementationError } from "#general";
+import type { Node } from "#node/Node.js";
+import { Fabric, FabricManager } from "#protocol";
 import { StatusCode, StatusResponseError } from "#types";
 import { GroupKeyManagementBehavior } from "./GroupKeyManagementBehavior.js";
 
+/**
+ * Determine whether the group key map of a fabric differs from the given entries.
+ */
+function keyMapDiffers(fabric: Fabric, entries: GroupKeyManagement.GroupKeyMap[]) {
+    const { keyMap } = fabric.groups;
+    return (
+        keyMap.length !== entries.length ||
+        keyMap.some(
+            ({ groupId, groupKeySetId }, index) =>
+                entries[index].groupId !== groupId || entries[index].groupKeySetId !== groupKeySetId,
+        )
+    );
+}
+
 /**
  * This is the default server implementation of {@link GroupKeyManagementBehavior}.
+ *
+ * The group key sets, the group key map and the group table are fabric data and are persisted by {@link FabricManager}
+ * because they are required by the session layer to process groupcast messages.  The attributes mirror the fabric data
+ * and writes to the group key map are applied to the fabrics.
  */
 export class GroupKeyManagementServer extends GroupKeyManagementBehavior {
-    override initialize(): void {
-        if (this.state.maxGroupKeysPerFabric !== 1) {
-            throw new ImplementationError("maxGroupKeysPerFabric must be 1 for now.");
-        }
-        if (this.state.maxGroupsPerFabric !== 0) {
-            throw new ImplementationError("maxGroupsPerFabric must be 0 for now.");
+    declare state: GroupKeyManagementServer.State;
+
+    override initialize() {
+        if (this.state.maxGroupsPerFabric > 0 && this.state.maxGroupKeysPerFabric < 2) {
+            throw new ImplementationError("maxGroupKeysPerFabric must be at least 2 when groups are supported.");
         }
-        this.state.groupTable = [];
+
+        this.reactTo(this.events.groupKeyMap$Changing, this.#validateGroupKeyMapChanges);
+        this.reactTo(this.events.groupKeyMap$Changed, this.#applyGroupKeyMap, { lock: true });
+        this.reactTo((this.endpoint as Node).lifecycle.online, this.#nodeOnline);
     }
 
-    override keySetWrite() {
-        throw new StatusResponseError(
-            "We do not support and additional groups then the IPK",
-            StatusCode.ResourceExhausted,
-        );
+    override async keySetWrite({ groupKeySet }: GroupKeyManagement.KeySetWriteRequest) {
+        const fabric = this.#fabric;
+
+        const {
+            groupKeySetId,
+            groupKeySecurityPolicy,
+            epochKey0,
+            epochStartTime0,
+            epochKey1,
+            epochStartTime1,
+            epochKey2,
+            epochStartTime2,
+        } = groupKeySet;
+
+        if (groupKeySetId === 0) {
+            throw new StatusResponseError("GroupKeySet 0 is reserved for the IPK", StatusCode.InvalidCommand);
+        }
+
+        if (
+            groupKeySecurityPolicy === GroupKeyManagement.GroupKeySecurityPolicy.CacheAndSync &&
+            !this.features.cacheAndSync
+        ) {
+            throw new StatusResponseError("CacheAndSync security policy is not supported", StatusCode.ConstraintError);
+        }
+
+        if (epochKey0 === null || epochStartTime0 === null || BigInt(epochStartTime0) === 0n) {
+            throw new StatusResponseError("EpochKey0 and EpochStartTime0 must be set", StatusCode.InvalidCommand);
+        }
+
+        if ((epochKey1 === null) !== (epochStartTime1 === null)) {
+            throw new StatusResponseError(
+                "EpochKey1 and EpochStartTime1 must be set together",
+                StatusCode.InvalidCommand,
+            );
+        }
+        if (epochStartTime1 !== null && BigInt(epochStartTime1) <= BigInt(epochStartTime0)) {
+            throw new StatusResponseError(
+                "EpochStartTime1 must be later than EpochStartTime0",
+                StatusCode.InvalidCommand,
+            );
+        }
+
+        if ((epochKey2 === null) !== (epochStartTime2 === null)) {
+            throw new StatusResponseError(
+                "EpochKey2 and EpochStartTime2 must be set together",
+                StatusCode.InvalidCommand,
+            );
+        }
+        if (epochStartTime2 !== null) {
+            if (epochStartTime1 === null) {
+                throw new StatusResponseError("EpochKey2 requires EpochKey1 to be set", StatusCode.InvalidCommand);
+            }
+            if (BigInt(epochStartTime2) <= BigInt(epochStartTime1)) {
+                throw new StatusResponseError(
+                    "EpochStartTime2 must be later than EpochStartTime1",
+                    StatusCode.InvalidCommand,
+                );
+            }
+        }
+
+        if (
+            fabric.getGroupKeySet(groupKeySetId) === undefined &&
+            fabric.groups.keySetCount >= this.state.maxGroupKeysPerFabric
+        ) {
+            throw new StatusResponseError(
+                `Maximum number of ${this.state.maxGroupKeysPerFabric} group key sets reached`,
+                StatusCode.ResourceExhausted,
+            );
+        }
+
+        await fabric.groups.setKeySet(groupKeySet);
     }
 
     override keySetRead({
         groupKeySetId,
     }: GroupKeyManagement.KeySetReadRequest): GroupKeyManagement.KeySetReadResponse {
-        if (this.context.session === undefined) {
-            throw new ImplementationError("Session must be defined");
-        }
-        const fabric = this.context.session.associatedFabric;
-
-        const groupKeySet = fabric.getGroupKeySet(groupKeySetId);
+        const groupKeySet = this.#fabric.getGroupKeySet(groupKeySetId);
         if (groupKeySet === undefined) {
             throw new StatusResponseError(`GroupKeySet ${groupKeySetId} not found`, StatusCode.NotFound);
         }
@@ -53,25 +136,113 @@ export class GroupKeyManagementServer extends GroupKeyManagementBehavior {
         };
     }
 
-    override keySetRemove({ groupKeySetId }: GroupKeyManagement.KeySetRemoveRequest) {
+    override async keySetRemove({ groupKeySetId }: GroupKeyManagement.KeySetRemoveRequest) {
         if (groupKeySetId === 0) {
             throw new StatusResponseError(`GroupKeySet ${groupKeySetId} cannot be removed`, StatusCode.InvalidCommand);
         }
 
-        // We only have key 0, so we can't remove it
-        throw new StatusResponseError(`GroupKeySet ${groupKeySetId} not found`, StatusCode.NotFound);
+        const fabric = this.#fabric;
+        if (!(await fabric.groups.removeKeySet(groupKeySetId))) {
+            throw new StatusResponseError(`GroupKeySet ${groupKeySetId} not found`, StatusCode.NotFound);
+        }
+
+        // Removing the key set also removed the group key map entries referencing it
+        this.#syncFabricState();
     }
 
     override keySetReadAllIndices() {
-        if (this.context.session === undefined) {
-            throw new ImplementationError("Session must be defined");
-        }
-        const fabric = this.context.session.associatedFabric;
-
-        const groupKeySetIDs = fabric.getAllGroupKeySets().map(({ groupKeySetId }) => groupKeySetId);
+        const groupKeySetIDs = this.#fabric.getAllGroupKeySets().map(({ groupKeySetId }) => groupKeySetId);
 
         return {
             groupKeySetIDs,
         };
     }
+
+    /**
+     * Update the group table from the fabrics.  Call this when the group membership of endpoints changed.
+     */
+    updateGroupTable() {
+        const fabrics = this.env.get(FabricManager);
+        const groupTable = new Array<GroupKeyManagement.GroupInfoMap>();
+        for (const fabric of fabrics) {
+            for (const { groupId, endpoints, groupName } of fabric.groups.groups) {
+                groupTable.push({
+                    groupId,
+                    endpoints,
+                    groupName: groupName === "" ? undefined : groupName,
+                    fabricIndex: fabric.fabricIndex,
+                });
+            }
+        }
+        this.state.groupTable = groupTable;
+    }
+
+    #validateGroupKeyMapChanges(value: GroupKeyManagement.GroupKeyMap[]) {
+        const relevantFabricIndex = this.context.session?.associatedFabric.fabricIndex;
+        if (relevantFabricIndex === undefined) {
+            return;
+        }
+
+        const fabricEntries = value.filter(entry => entry.fabricIndex === relevantFabricIndex);
+        if (fabricEntries.length > this.state.maxGroupsPerFabric) {
+            throw new StatusResponseError("MaxGroupsPerFabric exceeded", StatusCode.ResourceExhausted);
+        }
+
+        const groupIds = new Set<number>();
+        for (const { groupId, groupKeySetId } of fabricEntries) {
+            if (groupKeySetId === 0) {
+                throw new StatusResponseError("GroupKeySet 0 cannot be mapped to a group", StatusCode.ConstraintError);
+            }
+            if (groupIds.has(groupId)) {
+                throw new StatusResponseError(`Group ${groupId} is mapped more than once`, StatusCode.ConstraintError);
+            }
+            groupIds.add(groupId);
+        }
+    }
+
+    async #applyGroupKeyMap(value: GroupKeyManagement.GroupKeyMap[]) {
+        const fabrics = this.env.get(FabricManager);
+        for (const fabric of fabrics) {
+            const entries = value.filter(entry => entry.fabricIndex === fabric.fabricIndex);
+            if (!keyMapDiffers(fabric, entries)) {
+                continue;
+            }
+            await fabric.groups.setKeyMap(entries);
+        }
+    }
+
+    #syncFabricState() {
+        const fabrics = this.env.get(FabricManager);
+        const groupKeyMap = new Array<GroupKeyManagement.GroupKeyMap>();
+        for (const fabric of fabrics) {
+            for (const { groupId, groupKeySetId } of fabric.groups.keyMap) {
+                groupKeyMap.push({ groupId, groupKeySetId, fabricIndex: fabric.fabricIndex });
+            }
+        }
+        this.state.groupKeyMap = groupKeyMap;
+        this.updateGroupTable();
+    }
+
+    async #nodeOnline() {
+        const fabricManager = this.env.get(FabricManager);
+        this.reactTo(fabricManager.events.deleted, this.#syncFabricState, { lock: true });
+        this.reactTo(fabricManager.events.added, this.#syncFabricState, { lock: true });
+        this.reactTo(fabricManager.events.updated, this.#syncFabricState, { lock: true });
+        this.#syncFabricState();
+        await this.context.transaction.commit();
+    }
+
+    get #fabric() {
+        if (this.context.session === undefined) {
+            throw new ImplementationError("Session must be defined");
+        }
+        return this.context.session.associatedFabric;
+    }
+}
+
+export namespace GroupKeyManagementServer {
+    export class State extends GroupKeyManagementBehavior.State {
+        override maxGroupsPerFabric = 4;
+        override maxGroupKeysPerFabric = 3;
+    }
 }
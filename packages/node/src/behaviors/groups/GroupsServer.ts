@@ -4,11 +4,165 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { GroupKeyManagementServer } from "#behaviors/group-key-management";
+import { IdentifyBehavior } from "#behaviors/identify";
+import { ScenesManagementServer } from "#behaviors/scenes-management";
+import { Groups } from "#clusters/groups";
+import { RootEndpoint } from "#endpoints/root";
+import { ImplementationError } from "#general";
+import { GroupId, StatusCode, StatusResponseError } from "#types";
 import { GroupsBehavior } from "./GroupsBehavior.js";
 
 /**
  * This is the default server implementation of {@link GroupsBehavior}.
+ *
+ * Group membership is stored in the group table of the fabric of the accessing session.  The group table is fabric
+ * data persisted with the fabric and published via the GroupTable attribute of {@link GroupKeyManagementServer} on the
+ * root endpoint.
+ *
+ * A group can only be added if the fabric has a group key mapped to the group via the GroupKeyMap attribute of the
+ * Group Key Management cluster.
+ *
+ * When the endpoint is removed from a group, the scenes of the group are removed from {@link ScenesManagementServer} on
+ * the same endpoint.
+ *
+ * AddGroupIfIdentifying fails with UNSUPPORTED_COMMAND if the endpoint does not support the Identify cluster.
  */
-export class GroupsServer extends GroupsBehavior {}
+export class GroupsServer extends GroupsBehavior {
+    override initialize() {
+        this.state.nameSupport = { nameSupport: this.features.groupNames };
+    }
+
+    override async addGroup({ groupId, groupName }: Groups.AddGroupRequest): Promise<Groups.AddGroupResponse> {
+        return { status: await this.#addGroup(groupId, groupName), groupId };
+    }
+
+    override viewGroup({ groupId }: Groups.ViewGroupRequest): Groups.ViewGroupResponse {
+        if (groupId === GroupId.UNSPECIFIED_GROUP_ID) {
+            return { status: StatusCode.ConstraintError, groupId, groupName: "" };
+        }
+
+        const group = this.#fabric.groups.groupFor(groupId);
+        if (group === undefined || !group.endpoints.includes(this.endpoint.number)) {
+            return { status: StatusCode.NotFound, groupId, groupName: "" };
+        }
+
+        return {
+            status: StatusCode.Success,
+            groupId,
+            groupName: this.features.groupNames ? group.groupName : "",
+        };
+    }
+
+    override getGroupMembership({ groupList }: Groups.GetGroupMembershipRequest): Groups.GetGroupMembershipResponse {
+        const { groups } = this.#fabric;
+        const endpointGroups = groups.groupsFor(this.endpoint.number);
+
+        return {
+            capacity: Math.min(Math.max(this.#maxGroupsPerFabric - groups.groups.length, 0), 0xfe),
+            groupList: groupList.length
+                ? endpointGroups.filter(groupId => groupList.includes(groupId))
+                : endpointGroups,
+        };
+    }
+
+    override async removeGroup({ groupId }: Groups.RemoveGroupRequest): Promise<Groups.RemoveGroupResponse> {
+        if (groupId === GroupId.UNSPECIFIED_GROUP_ID) {
+            return { status: StatusCode.ConstraintError, groupId };
+        }
+
+        if (!(await this.#fabric.groups.removeEndpoint(groupId, this.endpoint.number))) {
+            return { status: StatusCode.NotFound, groupId };
+        }
+
+        this.#removeScenes([groupId]);
+        this.#updateGroupTable();
+        return { status: StatusCode.Success, groupId };
+    }
+
+    override async removeAllGroups() {
+        const removedGroups = await this.#fabric.groups.removeEndpointFromAllGroups(this.endpoint.number);
+        if (removedGroups.length) {
+            this.#removeScenes(removedGroups);
+            this.#updateGroupTable();
+        }
+    }
+
+    override async addGroupIfIdentifying({ groupId, groupName }: Groups.AddGroupIfIdentifyingRequest) {
+        if (!this.agent.has(IdentifyBehavior)) {
+            // Without Identify the endpoint can never be identifying so the command is unusable
+            throw new StatusResponseError(
+                "AddGroupIfIdentifying requires the Identify cluster on the endpoint",
+                StatusCode.UnsupportedCommand,
+            );
+        }
+
+        if (this.agent.get(IdentifyBehavior).state.identifyTime === 0) {
+            // Not identifying, so nothing to do
+            return;
+        }
+
+        const status = await this.#addGroup(groupId, groupName);
+        if (status !== StatusCode.Success) {
+            throw new StatusResponseError(`Adding group ${groupId} failed`, status);
+        }
+    }
+
+    async #addGroup(groupId: GroupId, groupName: string) {
+        if (groupId === GroupId.UNSPECIFIED_GROUP_ID) {
+            return StatusCode.ConstraintError;
+        }
+
+        const { groups } = this.#fabric;
+        if (!groups.hasKeyMapping(groupId)) {
+            return StatusCode.UnsupportedAccess;
+        }
+        if (groups.groupFor(groupId) === undefined && groups.groups.length >= this.#maxGroupsPerFabric) {
+            return StatusCode.ResourceExhausted;
+        }
+
+        await groups.addEndpoint(groupId, this.endpoint.number, this.features.groupNames ? groupName : "");
+        this.#updateGroupTable();
+        return StatusCode.Success;
+    }
+
+    #removeScenes(groupIds: GroupId[]) {
+        if (!this.agent.has(ScenesManagementServer)) {
+            return;
+        }
+
+        const scenes = this.agent.get(ScenesManagementServer);
+        const { fabricIndex } = this.#fabric;
+        for (const groupId of groupIds) {
+            scenes.removeScenesOfGroup(fabricIndex, groupId);
+        }
+    }
+
+    #updateGroupTable() {
+        this.#groupKeyManagement.updateGroupTable();
+    }
+
+    get #maxGroupsPerFabric() {
+        return this.#groupKeyManagement.state.maxGroupsPerFabric;
+    }
+
+    get #groupKeyManagement() {
+        const rootEndpoint = this.endpoint.ownerOfType(RootEndpoint);
+        if (rootEndpoint === undefined) {
+            throw new ImplementationError("Groups cluster requires a root endpoint");
+        }
+
+        const agent = this.context.agentFor(rootEndpoint);
+        if (!agent.has(GroupKeyManagementServer)) {
+            throw new ImplementationError("Groups cluster requires GroupKeyManagementServer on the root endpoint");
+        }
+        return agent.get(GroupKeyManagementServer);
+    }
+
+    get #fabric() {
+        if (this.context.session === undefined) {
+            throw new ImplementationError("Session must be defined");
+        }
+        return this.context.session.associatedFabric;
+    }
+}
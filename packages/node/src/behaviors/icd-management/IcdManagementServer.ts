@@ -4,11 +4,372 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { AccessControl } from "#behavior/AccessControl.js";
+import { IcdManagement } from "#clusters/icd-management";
+import { Bytes, ImplementationError, Logger, Time, Timer } from "#general";
+import { AccessLevel, DatatypeElement, FieldElement } from "#model";
+import { NodeLifecycle } from "#node/NodeLifecycle.js";
+import { CheckInSender, Fabric, FabricManager, SessionManager } from "#protocol";
+import { ClusterType, FabricIndex, NodeId, StatusCode, StatusResponseError } from "#types";
 import { IcdManagementBehavior } from "./IcdManagementBehavior.js";
 
+const logger = Logger.get("IcdManagementServer");
+
+const IcdManagementServerBase = IcdManagementBehavior.with(
+    IcdManagement.Feature.CheckInProtocolSupport,
+    IcdManagement.Feature.UserActiveModeTrigger,
+    IcdManagement.Feature.LongIdleTimeSupport,
+);
+
+// Enhance the schema to persist the keys of registered clients
+const schema = IcdManagementServerBase.schema!.extend({
+    children: [
+        DatatypeElement({
+            name: "ClientKeyStruct",
+            type: "struct",
+            children: [
+                FieldElement({ name: "CheckInNodeId", id: 0x0, type: "node-id", conformance: "M" }),
+                FieldElement({ name: "Key", id: 0x1, type: "octstr", conformance: "M" }),
+                FieldElement({ name: "FabricIndex", id: 0xfe, type: "fabric-idx", conformance: "M" }),
+            ],
+        }),
+        FieldElement({
+            name: "clientKeys",
+            type: "list",
+            quality: "N",
+            children: [FieldElement({ name: "entry", type: "ClientKeyStruct" })],
+        }),
+    ],
+});
+
+/** The ICD counter advances by this amount on startup so counter values are not reused after a restart. */
+const COUNTER_STARTUP_INCREMENT = 100;
+
+/** Maximum duration a StayActiveRequest may keep the ICD in active mode. */
+const MAX_STAY_ACTIVE_DURATION_MS = 30_000;
+
+/** Maximum session idle interval a node may announce. */
+const MAX_SESSION_IDLE_INTERVAL_MS = 3_600_000;
+
 /**
  * This is the default server implementation of {@link IcdManagementBehavior}.
+ *
+ * With the CheckInProtocolSupport feature clients register with RegisterClient.  Registrations and their keys are
+ * persisted.  Whenever the ICD leaves idle mode it sends a Check-In message to each registered client that has no
+ * active subscription as specified in @see {@link MatterSpecification.v13.Core} § 9.17.
+ *
+ * After the node goes online the ICD alternates between active mode and idle mode.  Active mode lasts at least
+ * ActiveModeDuration and is extended by ActiveModeThreshold whenever a session is established.  StayActiveRequest
+ * and {@link triggerActiveMode} extend active mode as well.  Idle mode lasts IdleModeDuration.
+ *
+ * With the LongIdleTimeSupport feature the ICD operates as Long Idle Time ICD.  It announces its operating mode and
+ * uses IdleModeDuration as session idle interval because it is not reachable while idle.
  */
-export class IcdManagementServer extends IcdManagementBehavior {}
+export class IcdManagementServerLogic extends IcdManagementServerBase {
+    protected declare internal: IcdManagementServerLogic.Internal;
+    declare state: IcdManagementServerLogic.State;
+    schema = schema;
+
+    override initialize() {
+        const { idleModeDuration, activeModeDuration } = this.state;
+        if (idleModeDuration * 1000 < activeModeDuration) {
+            throw new ImplementationError(
+                `IdleModeDuration ${idleModeDuration}s must not be less than ActiveModeDuration ${activeModeDuration}ms`,
+            );
+        }
+
+        if (this.features.longIdleTimeSupport) {
+            this.state.operatingMode = IcdManagement.OperatingMode.Lit;
+        }
+
+        if (this.features.checkInProtocolSupport) {
+            this.state.icdCounter = (this.state.icdCounter + COUNTER_STARTUP_INCREMENT) >>> 0;
+        }
+
+        if (this.env.has(SessionManager)) {
+            const sessions = this.env.get(SessionManager);
+            sessions.sessionParameters = this.#sessionParameters;
+            this.reactTo(sessions.sessions.added, this.#handleNetworkActivity);
+        }
+
+        const lifecycle = this.endpoint.lifecycle as NodeLifecycle;
+        if (lifecycle.isOnline) {
+            this.#online();
+        } else {
+            this.reactTo(lifecycle.online, this.#online);
+        }
+        this.reactTo(lifecycle.goingOffline, this.#stopTimers);
+    }
+
+    override async [Symbol.asyncDispose]() {
+        this.#stopTimers();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    /**
+     * True while the ICD is in active mode.
+     */
+    get isActive() {
+        return this.internal.activeUntil !== undefined;
+    }
+
+    /**
+     * Enter active mode or extend it, for example after a user interaction.
+     */
+    triggerActiveMode(durationMs = this.state.activeModeDuration) {
+        this.#extendActiveMode(durationMs);
+    }
+
+    override registerClient({
+        checkInNodeId,
+        monitoredSubject,
+        key,
+        verificationKey,
+    }: IcdManagement.RegisterClientRequest): IcdManagement.RegisterClientResponse {
+        const fabricIndex = this.#fabricIndex;
+        const isAdministrator = this.#isAdministrator;
+        let icdCounter = 0;
+
+        // Registrations are only readable and writable with administrative privileges
+        this.asAdmin(() => {
+            const registeredClients = [...this.state.registeredClients];
+            const existingIndex = registeredClients.findIndex(
+                client => client.fabricIndex === fabricIndex && client.checkInNodeId === checkInNodeId,
+            );
+
+            if (existingIndex === -1) {
+                const fabricClients = registeredClients.filter(client => client.fabricIndex === fabricIndex).length;
+                if (fabricClients >= this.state.clientsSupportedPerFabric) {
+                    throw new StatusResponseError(
+                        `Fabric ${fabricIndex} already registered ${fabricClients} clients`,
+                        StatusCode.ResourceExhausted,
+                    );
+                }
+                registeredClients.push({ checkInNodeId, monitoredSubject, fabricIndex });
+            } else {
+                if (!isAdministrator) {
+                    this.#assertVerificationKey(fabricIndex, checkInNodeId, verificationKey);
+                }
+                registeredClients[existingIndex] = { checkInNodeId, monitoredSubject, fabricIndex };
+            }
+
+            this.state.registeredClients = registeredClients;
+            this.state.clientKeys = [
+                ...this.state.clientKeys.filter(
+                    entry => entry.fabricIndex !== fabricIndex || entry.checkInNodeId !== checkInNodeId,
+                ),
+                { checkInNodeId, key, fabricIndex },
+            ];
+
+            icdCounter = this.state.icdCounter;
+        });
+
+        logger.info(`Registered Check-In client ${NodeId.toHexString(checkInNodeId)} on fabric ${fabricIndex}`);
+
+        return { icdCounter };
+    }
+
+    override unregisterClient({ checkInNodeId, verificationKey }: IcdManagement.UnregisterClientRequest) {
+        const fabricIndex = this.#fabricIndex;
+        const isAdministrator = this.#isAdministrator;
+
+        this.asAdmin(() => {
+            const isRegistered = this.state.registeredClients.some(
+                client => client.fabricIndex === fabricIndex && client.checkInNodeId === checkInNodeId,
+            );
+            if (!isRegistered) {
+                throw new StatusResponseError(
+                    `Check-In client ${NodeId.toHexString(checkInNodeId)} is not registered`,
+                    StatusCode.NotFound,
+                );
+            }
+
+            if (!isAdministrator) {
+                this.#assertVerificationKey(fabricIndex, checkInNodeId, verificationKey);
+            }
+
+            const isOther = (entry: { fabricIndex: FabricIndex; checkInNodeId: NodeId }) =>
+                entry.fabricIndex !== fabricIndex || entry.checkInNodeId !== checkInNodeId;
+            this.state.registeredClients = this.state.registeredClients.filter(isOther);
+            this.state.clientKeys = this.state.clientKeys.filter(isOther);
+        });
+
+        logger.info(`Unregistered Check-In client ${NodeId.toHexString(checkInNodeId)} on fabric ${fabricIndex}`);
+    }
+
+    override stayActiveRequest({ stayActiveDuration }: IcdManagement.StayActiveRequest) {
+        this.#extendActiveMode(Math.min(stayActiveDuration, MAX_STAY_ACTIVE_DURATION_MS));
+
+        return { promisedActiveDuration: Math.max(0, (this.internal.activeUntil ?? 0) - Time.nowMs()) };
+    }
+
+    get #fabricIndex() {
+        const fabricIndex = this.context.fabric;
+        if (fabricIndex === undefined) {
+            throw new StatusResponseError("Registration requires a fabric", StatusCode.UnsupportedAccess);
+        }
+        return fabricIndex;
+    }
+
+    get #isAdministrator() {
+        return (
+            this.context.offline ||
+            this.context.authorizedFor(AccessLevel.Administer, {
+                cluster: IcdManagement.Cluster.id,
+            } as AccessControl.Location)
+        );
+    }
+
+    /**
+     * Only administrators may modify registrations of other clients.  Other clients must present the key of the
+     * registration.
+     */
+    #assertVerificationKey(fabricIndex: FabricIndex, checkInNodeId: NodeId, verificationKey?: Uint8Array) {
+        const entry = this.state.clientKeys.find(
+            entry => entry.fabricIndex === fabricIndex && entry.checkInNodeId === checkInNodeId,
+        );
+        if (verificationKey === undefined || entry === undefined || !Bytes.areEqual(entry.key, verificationKey)) {
+            throw new StatusResponseError(
+                `Verification key does not match registration of ${NodeId.toHexString(checkInNodeId)}`,
+                StatusCode.Failure,
+            );
+        }
+    }
+
+    get #sessionParameters() {
+        const { activeModeThreshold, idleModeDuration } = this.state;
+        if (this.state.operatingMode === IcdManagement.OperatingMode.Lit) {
+            return {
+                activeThresholdMs: activeModeThreshold,
+                idleIntervalMs: Math.min(idleModeDuration * 1000, MAX_SESSION_IDLE_INTERVAL_MS),
+            };
+        }
+        return { activeThresholdMs: activeModeThreshold };
+    }
+
+    #online() {
+        this.reactTo(this.env.get(FabricManager).events.deleted, this.#handleRemovedFabric, { lock: true });
+        this.#extendActiveMode(this.state.activeModeDuration);
+    }
+
+    /**
+     * Registrations and their keys belong to the fabric so we remove them with the fabric.
+     */
+    #handleRemovedFabric({ fabricIndex }: Fabric) {
+        this.state.registeredClients = this.state.registeredClients.filter(
+            client => client.fabricIndex !== fabricIndex,
+        );
+        this.state.clientKeys = this.state.clientKeys.filter(entry => entry.fabricIndex !== fabricIndex);
+    }
+
+    #handleNetworkActivity() {
+        if (this.internal.idleTimer === undefined && !this.isActive) {
+            // Not started yet
+            return;
+        }
+        this.#extendActiveMode(this.state.activeModeThreshold);
+    }
+
+    #extendActiveMode(durationMs: number) {
+        const { internal } = this;
+        const now = Time.nowMs();
+
+        if (internal.activeUntil === undefined) {
+            logger.debug("Entering active mode");
+            internal.idleTimer?.stop();
+            internal.idleTimer = undefined;
+            durationMs = Math.max(durationMs, this.state.activeModeDuration);
+            this.#sendCheckIns();
+        } else if (internal.activeUntil >= now + durationMs) {
+            return;
+        }
+
+        internal.activeUntil = now + durationMs;
+        internal.activeTimer?.stop();
+        internal.activeTimer = Time.getTimer("ICD active mode", durationMs, this.callback(this.#enterIdleMode)).start();
+    }
+
+    #enterIdleMode() {
+        logger.debug("Entering idle mode");
+        const { internal } = this;
+        internal.activeUntil = undefined;
+        internal.activeTimer = undefined;
+        internal.idleTimer = Time.getTimer(
+            "ICD idle mode",
+            this.state.idleModeDuration * 1000,
+            this.callback(this.#leaveIdleMode),
+        ).start();
+    }
+
+    #leaveIdleMode() {
+        this.#extendActiveMode(this.state.activeModeDuration);
+    }
+
+    #stopTimers() {
+        const { internal } = this;
+        internal.activeTimer?.stop();
+        internal.idleTimer?.stop();
+        internal.activeTimer = internal.idleTimer = internal.activeUntil = undefined;
+    }
+
+    /**
+     * Send Check-In messages to registered clients without active subscription.
+     */
+    #sendCheckIns() {
+        if (!this.features.checkInProtocolSupport || !this.env.has(SessionManager)) {
+            return;
+        }
+
+        const sessions = this.env.get(SessionManager).sessions;
+        const fabrics = this.env.get(FabricManager);
+        const { activeModeThreshold } = this.state;
+
+        for (const { fabricIndex, checkInNodeId, monitoredSubject } of this.state.registeredClients) {
+            const isSubscribed = [...sessions].some(
+                session =>
+                    session.fabric?.fabricIndex === fabricIndex &&
+                    session.peerNodeId === monitoredSubject &&
+                    session.subscriptions.size > 0,
+            );
+            const key = this.state.clientKeys.find(
+                entry => entry.fabricIndex === fabricIndex && entry.checkInNodeId === checkInNodeId,
+            )?.key;
+            const fabric = fabrics.findByIndex(fabricIndex);
+            if (isSubscribed || key === undefined || fabric === undefined) {
+                continue;
+            }
+
+            const counter = (this.state.icdCounter = (this.state.icdCounter + 1) >>> 0);
+            this.env.runtime.add(
+                this.env
+                    .get(CheckInSender)
+                    .send(fabric, checkInNodeId, key, { counter, activeModeThreshold })
+                    .catch(error =>
+                        logger.info(`Check-In to ${NodeId.toHexString(checkInNodeId)} failed:`, error.message),
+                    ),
+            );
+        }
+    }
+}
+
+export namespace IcdManagementServerLogic {
+    export class Internal {
+        /** Time at which active mode ends, undefined in idle mode. */
+        activeUntil?: number;
+
+        activeTimer?: Timer;
+        idleTimer?: Timer;
+    }
+
+    export class State extends IcdManagementServerBase.State {
+        clientKeys = new Array<ClientKey>();
+    }
+
+    export interface ClientKey {
+        checkInNodeId: NodeId;
+        key: Uint8Array;
+        fabricIndex: FabricIndex;
+    }
+}
+
+export class IcdManagementServer extends IcdManagementServerLogic.for(ClusterType(IcdManagement.Base)) {}
@@ -5,13 +5,226 @@
  */
 
 import { DescriptorServer } from "#behaviors/descriptor";
+import { OtaSoftwareUpdateProvider } from "#clusters/ota-software-update-provider";
+import { Bytes, Crypto, Environment, Logger, Observable, Time } from "#general";
+import { NodeLifecycle } from "#node/NodeLifecycle.js";
+import { BdxProtocol, BdxUri, MessageExchange, OtaImageRepository, SecureSession } from "#protocol";
+import { FabricIndex, NodeId, StatusCode, StatusResponseError } from "#types";
 import { OtaSoftwareUpdateProviderBehavior } from "./OtaSoftwareUpdateProviderBehavior.js";
 
+const logger = Logger.get("OtaSoftwareUpdateProviderServer");
+
+/** Length of the update tokens we issue. */
+const UPDATE_TOKEN_LENGTH = 16;
+
+/** Time after which we forget an update that the requestor did not complete. */
+const UPDATE_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
 /**
  * This is the default server implementation of {@link OtaSoftwareUpdateProviderBehavior}.
+ *
+ * The provider offers the images of the {@link OtaImageRepository} in the node's environment.  Populate the
+ * repository with OTA image files, either via {@link OtaImageRepository.add} or with a platform specific repository
+ * that loads a directory of images.
+ *
+ * QueryImage offers the newest image applicable to the vendor, product and software version of the requestor.
+ * Requestors download the image via BDX from this node.  Only the requestor that queried the image may download it.
  */
 export class OtaSoftwareUpdateProviderServer extends OtaSoftwareUpdateProviderBehavior {
-    override initialize() {
+    protected declare internal: OtaSoftwareUpdateProviderServer.Internal;
+    declare readonly events: OtaSoftwareUpdateProviderServer.Events;
+
+    override async initialize() {
+        // The provider may reside on the root endpoint where the descriptor may still be initializing
+        await this.agent.load(DescriptorServer);
         this.agent.get(DescriptorServer).addDeviceTypes("OtaProvider");
+
+        const lifecycle = this.endpoint.lifecycle as NodeLifecycle;
+        if (lifecycle.isOnline) {
+            this.#online();
+        } else {
+            this.reactTo(lifecycle.online, this.#online);
+        }
+        this.reactTo(lifecycle.goingOffline, this.#offline);
+    }
+
+    override async [Symbol.asyncDispose]() {
+        this.#offline();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override queryImage({
+        vendorId,
+        productId,
+        softwareVersion,
+        protocolsSupported,
+    }: OtaSoftwareUpdateProvider.QueryImageRequest): OtaSoftwareUpdateProvider.QueryImageResponse {
+        if (!protocolsSupported.includes(OtaSoftwareUpdateProvider.DownloadProtocol.BdxSynchronous)) {
+            return { status: OtaSoftwareUpdateProvider.Status.DownloadProtocolNotSupported };
+        }
+
+        const image = this.env.get(OtaImageRepository).find({ vendorId, productId, softwareVersion });
+        if (image === undefined) {
+            return { status: OtaSoftwareUpdateProvider.Status.NotAvailable };
+        }
+
+        const session = this.#session;
+        const updates = this.internal.updates;
+        const now = Time.nowMs();
+        for (const [key, { createdAt }] of updates) {
+            if (now - createdAt > UPDATE_LIFETIME_MS) {
+                updates.delete(key);
+            }
+        }
+
+        const updateToken = Crypto.getRandomData(UPDATE_TOKEN_LENGTH);
+        const fileDesignator = Bytes.toHex(updateToken);
+        const { header } = image;
+        updates.set(fileDesignator, {
+            imageName: image.name,
+            softwareVersion: header.softwareVersion,
+            fabricIndex: session.associatedFabric.fabricIndex,
+            nodeId: session.peerNodeId,
+            createdAt: now,
+        });
+
+        logger.info(
+            `Offering software version ${header.softwareVersionString} (${header.softwareVersion}) to node ${NodeId.toHexString(session.peerNodeId)}`,
+        );
+
+        return {
+            status: OtaSoftwareUpdateProvider.Status.UpdateAvailable,
+            imageUri: BdxUri.create(session.associatedFabric.nodeId, fileDesignator),
+            softwareVersion: header.softwareVersion,
+            softwareVersionString: header.softwareVersionString,
+            updateToken,
+        };
+    }
+
+    override applyUpdateRequest({
+        updateToken,
+        newVersion,
+    }: OtaSoftwareUpdateProvider.ApplyUpdateRequest): OtaSoftwareUpdateProvider.ApplyUpdateResponse {
+        const update = this.#updateFor(updateToken);
+        if (update.softwareVersion !== newVersion) {
+            return { action: OtaSoftwareUpdateProvider.ApplyUpdateAction.Discontinue, delayedActionTime: 0 };
+        }
+        return { action: OtaSoftwareUpdateProvider.ApplyUpdateAction.Proceed, delayedActionTime: 0 };
+    }
+
+    override notifyUpdateApplied({
+        updateToken,
+        softwareVersion,
+    }: OtaSoftwareUpdateProvider.NotifyUpdateAppliedRequest) {
+        const update = this.#updateFor(updateToken);
+        this.internal.updates.delete(Bytes.toHex(updateToken));
+
+        logger.info(`Node ${NodeId.toHexString(update.nodeId)} applied software version ${softwareVersion}`);
+        this.events.updateApplied.emit({ fabricIndex: update.fabricIndex, nodeId: update.nodeId, softwareVersion });
+    }
+
+    get #session() {
+        const session = this.context.session;
+        if (session === undefined) {
+            throw new StatusResponseError("OTA provider requires a secure session", StatusCode.UnsupportedAccess);
+        }
+        return session;
+    }
+
+    /**
+     * Find the update for a token.  Only the requestor that queried the update may use the token.
+     */
+    #updateFor(updateToken: Uint8Array) {
+        const session = this.#session;
+        const update = this.internal.updates.get(Bytes.toHex(updateToken));
+        if (
+            update === undefined ||
+            update.fabricIndex !== session.associatedFabric.fabricIndex ||
+            update.nodeId !== session.peerNodeId
+        ) {
+            throw new StatusResponseError("Unknown update token", StatusCode.NotFound);
+        }
+        return update;
+    }
+
+    #online() {
+        const { internal, env } = this;
+        if (internal.bdxSource !== undefined) {
+            return;
+        }
+
+        internal.bdxSource = {
+            read: (fileDesignator, exchange) => readImage(env, internal, fileDesignator, exchange),
+        };
+        env.get(BdxProtocol).addSource(internal.bdxSource);
+    }
+
+    #offline() {
+        const { internal, env } = this;
+        if (internal.bdxSource === undefined) {
+            return;
+        }
+
+        env.maybeGet(BdxProtocol)?.deleteSource(internal.bdxSource);
+        internal.bdxSource = undefined;
+    }
+}
+
+/**
+ * Read the image for a BDX file designator if the peer queried it.
+ */
+async function readImage(
+    env: Environment,
+    internal: OtaSoftwareUpdateProviderServer.Internal,
+    fileDesignator: Uint8Array,
+    exchange: MessageExchange,
+) {
+    const update = internal.updates.get(new TextDecoder().decode(fileDesignator));
+    const { session } = exchange;
+    if (
+        update === undefined ||
+        !(session instanceof SecureSession) ||
+        session.associatedFabric.fabricIndex !== update.fabricIndex ||
+        session.peerNodeId !== update.nodeId
+    ) {
+        return;
+    }
+
+    const image = env.get(OtaImageRepository).get(update.imageName);
+    if (image === undefined) {
+        logger.warn(`OTA image ${update.imageName} is no longer available`);
+        return;
+    }
+
+    logger.info(`Sending OTA image ${image.name} to node ${NodeId.toHexString(update.nodeId)}`);
+    return image.read();
+}
+
+export namespace OtaSoftwareUpdateProviderServer {
+    export class Internal {
+        /** Updates offered to requestors by hex encoded update token. */
+        updates = new Map<string, Update>();
+
+        /** Supplies images to BDX transfers while online. */
+        bdxSource?: BdxProtocol.Source;
+    }
+
+    export interface Update {
+        imageName: string;
+        softwareVersion: number;
+        fabricIndex: FabricIndex;
+        nodeId: NodeId;
+        createdAt: number;
+    }
+
+    export interface AppliedUpdate {
+        fabricIndex: FabricIndex;
+        nodeId: NodeId;
+        softwareVersion: number;
+    }
+
+    export class Events extends OtaSoftwareUpdateProviderBehavior.Events {
+        /** Emitted when a requestor notifies us that it applied an update. */
+        updateApplied = Observable<[update: AppliedUpdate]>();
     }
 }
@@ -4,14 +4,588 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { BasicInformationServer } from "#behaviors/basic-information";
 import { DescriptorServer } from "#behaviors/descriptor";
+import { OtaSoftwareUpdateProvider } from "#clusters/ota-software-update-provider";
+import { OtaSoftwareUpdateRequestor } from "#clusters/ota-software-update-requestor";
+import { Bytes, CancelablePromise, ImplementationError, Logger, MaybePromise, Time, Timer } from "#general";
+import { FieldElement } from "#model";
+import { NodeLifecycle } from "#node/NodeLifecycle.js";
+import type { ServerNode } from "#node/ServerNode.js";
+import {
+    BdxClient,
+    BdxUri,
+    ExchangeManager,
+    InteractionClient,
+    NodeDiscoveryType,
+    PeerAddress,
+    PeerSet,
+} from "#protocol";
+import { BDX_PROTOCOL_ID, EndpointNumber, FabricIndex, NodeId, StatusCode, StatusResponseError } from "#types";
 import { OtaSoftwareUpdateRequestorBehavior } from "./OtaSoftwareUpdateRequestorBehavior.js";
 
+import UpdateState = OtaSoftwareUpdateRequestor.UpdateState;
+import ChangeReason = OtaSoftwareUpdateRequestor.ChangeReason;
+
+const logger = Logger.get("OtaSoftwareUpdateRequestorServer");
+
+const OtaSoftwareUpdateRequestorServerBase = OtaSoftwareUpdateRequestorBehavior.enable({
+    commands: { announceOtaProvider: true },
+});
+
+// Enhance the schema to persist an applied update until the new software version confirms it
+const schema = OtaSoftwareUpdateRequestorServerBase.schema!.extend({
+    children: [
+        FieldElement({
+            name: "pendingUpdate",
+            type: "struct",
+            quality: "N",
+            children: [
+                FieldElement({ name: "providerNodeId", type: "node-id" }),
+                FieldElement({ name: "endpoint", type: "endpoint-no" }),
+                FieldElement({ name: "fabricIndex", type: "fabric-idx" }),
+                FieldElement({ name: "updateToken", type: "octstr" }),
+                FieldElement({ name: "softwareVersion", type: "uint32" }),
+            ],
+        }),
+    ],
+});
+
+/** Minimum delay before we query again after Busy or ask again after AwaitNextAction. */
+const MIN_RETRY_DELAY_S = 120;
+
+/** Maximum random delay before we query a provider that announced an urgent update. */
+const MAX_URGENT_QUERY_JITTER_S = 600;
+
+/** Time we allow for the discovery of a provider. */
+const DISCOVERY_TIMEOUT_S = 30;
+
 /**
  * This is the default server implementation of {@link OtaSoftwareUpdateRequestorBehavior}.
+ *
+ * The requestor queries the OTA providers in DefaultOTAProviders every {@link State.queryInterval} seconds and when a
+ * provider announces an update via AnnounceOTAProvider.  If a provider offers a newer software version the requestor
+ * downloads the image via BDX, obtains permission to apply it with ApplyUpdateRequest and passes it to
+ * {@link applyUpdate} which you must override to install the image.
+ *
+ * The requestor remembers the applied update.  Once the node runs with the new software version as configured in
+ * BasicInformation, typically after a restart, it emits VersionApplied and sends NotifyUpdateApplied to the provider.
+ *
+ * Querying and downloading run in the background.  UpdateState, UpdateStateProgress and the StateTransition and
+ * DownloadError events reflect their progress.
  */
-export class OtaSoftwareUpdateRequestorServer extends OtaSoftwareUpdateRequestorBehavior {
-    override initialize() {
+export class OtaSoftwareUpdateRequestorServer extends OtaSoftwareUpdateRequestorServerBase {
+    protected declare internal: OtaSoftwareUpdateRequestorServer.Internal;
+    declare state: OtaSoftwareUpdateRequestorServer.State;
+    schema = schema;
+
+    override async initialize() {
+        // The requestor usually resides on the root endpoint where the descriptor may still be initializing
+        await this.agent.load(DescriptorServer);
         this.agent.get(DescriptorServer).addDeviceTypes("OtaRequestor");
+
+        const lifecycle = this.endpoint.lifecycle as NodeLifecycle;
+        if (lifecycle.isOnline) {
+            this.#online();
+        } else {
+            this.reactTo(lifecycle.online, this.#online);
+        }
+        this.reactTo(lifecycle.goingOffline, this.#offline);
+    }
+
+    override async [Symbol.asyncDispose]() {
+        await this.#offline();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override announceOtaProvider({
+        providerNodeId,
+        announcementReason,
+        endpoint,
+    }: OtaSoftwareUpdateRequestor.AnnounceOtaProviderRequest) {
+        const fabricIndex = this.context.fabric;
+        if (fabricIndex === undefined) {
+            throw new StatusResponseError("Provider announcement requires a fabric", StatusCode.UnsupportedAccess);
+        }
+
+        // The announced provider takes precedence over the default providers in the next query
+        this.internal.announcedProvider = { providerNodeId, endpoint, fabricIndex };
+
+        switch (announcementReason) {
+            case OtaSoftwareUpdateRequestor.AnnouncementReason.UpdateAvailable:
+                this.checkForUpdate();
+                break;
+
+            case OtaSoftwareUpdateRequestor.AnnouncementReason.UrgentUpdateAvailable:
+                // Spread the load on the provider if it announced to many nodes
+                this.#scheduleQuery(1 + Math.floor(Math.random() * MAX_URGENT_QUERY_JITTER_S));
+                break;
+        }
+    }
+
+    /**
+     * Query OTA providers for an update and install it if available.
+     *
+     * The update runs in the background.  Does nothing if an update is already in progress or no provider is known.
+     */
+    checkForUpdate() {
+        const { internal } = this;
+        if (internal.update !== undefined || internal.isOffline || !this.state.updatePossible) {
+            return;
+        }
+
+        const providers = this.#providers;
+        if (!providers.length) {
+            logger.debug("No OTA provider known, skipping query");
+            return;
+        }
+        internal.announcedProvider = undefined;
+
+        const update = this.#update(providers).finally(() => {
+            internal.update = undefined;
+        });
+        internal.update = update;
+        this.env.runtime.add(update);
+    }
+
+    /**
+     * Install a downloaded software image.
+     *
+     * The default implementation throws.  Override to install {@link OtaSoftwareUpdateRequestorServer.Update.image}.
+     * Typically you persist the image and restart the node with the new software.  If the node runs with the new
+     * software version without restart, update BasicInformation.softwareVersion before you return.
+     */
+    protected applyUpdate(_update: OtaSoftwareUpdateRequestorServer.Update): MaybePromise<void> {
+        throw new ImplementationError("OtaSoftwareUpdateRequestorServer requires an implementation of applyUpdate");
+    }
+
+    /**
+     * The providers to query in order of preference.
+     */
+    get #providers() {
+        const { announcedProvider } = this.internal;
+        const providers = announcedProvider ? [announcedProvider] : [];
+        for (const provider of this.state.defaultOtaProviders) {
+            if (
+                !providers.some(
+                    ({ fabricIndex, providerNodeId }) =>
+                        fabricIndex === provider.fabricIndex && providerNodeId === provider.providerNodeId,
+                )
+            ) {
+                providers.push({ ...provider });
+            }
+        }
+        return providers;
     }
+
+    #online() {
+        const { internal } = this;
+        internal.isOffline = false;
+
+        if (this.state.pendingUpdate !== undefined) {
+            this.#confirmUpdate(true);
+        } else if (this.state.updateState === UpdateState.Unknown) {
+            this.#transition(UpdateState.Idle, ChangeReason.Success);
+        }
+
+        internal.queryTimer = Time.getPeriodicTimer(
+            "OTA provider query",
+            this.state.queryInterval * 1000,
+            this.callback(this.checkForUpdate),
+        ).start();
+    }
+
+    async #offline() {
+        const { internal } = this;
+        internal.isOffline = true;
+        internal.queryTimer?.stop();
+        internal.delayTimer?.stop();
+        internal.queryTimer = internal.delayTimer = undefined;
+        internal.delay?.cancel();
+
+        // Background operations end at the next step
+        await internal.update;
+    }
+
+    #scheduleQuery(delayS: number) {
+        const { internal } = this;
+        if (internal.isOffline) {
+            return;
+        }
+        internal.delayTimer?.stop();
+        internal.delayTimer = Time.getTimer(
+            "OTA provider query delay",
+            delayS * 1000,
+            this.callback(this.checkForUpdate),
+        ).start();
+    }
+
+    /**
+     * Change UpdateState and emit StateTransition.
+     */
+    #transition(newState: UpdateState, reason: ChangeReason, targetSoftwareVersion: number | null = null) {
+        const previousState = this.state.updateState;
+        this.state.updateStateProgress = newState === UpdateState.Downloading ? 0 : null;
+        if (previousState === newState) {
+            return;
+        }
+        this.state.updateState = newState;
+        this.events.stateTransition.emit({ previousState, newState, reason, targetSoftwareVersion }, this.context);
+    }
+
+    /**
+     * Complete an applied update if the node runs the new software version.
+     *
+     * After a restart a different version means the update failed.  Otherwise we continue to wait for the restart.
+     */
+    #confirmUpdate(isStartup: boolean) {
+        const pendingUpdate = this.state.pendingUpdate;
+        if (pendingUpdate === undefined) {
+            return;
+        }
+
+        const { softwareVersion, productId } = this.endpoint.stateOf(BasicInformationServer);
+        if (softwareVersion !== pendingUpdate.softwareVersion) {
+            if (isStartup) {
+                logger.warn(
+                    `Software update to version ${pendingUpdate.softwareVersion} failed, running version ${softwareVersion}`,
+                );
+                this.state.pendingUpdate = undefined;
+                this.#transition(UpdateState.Idle, ChangeReason.Failure);
+            }
+            return;
+        }
+
+        logger.info(`Software update to version ${softwareVersion} applied`);
+        this.state.pendingUpdate = undefined;
+        this.events.versionApplied.emit({ softwareVersion, productId }, this.context);
+        this.#transition(UpdateState.Idle, ChangeReason.Success);
+        this.env.runtime.add(this.#notifyUpdateApplied(pendingUpdate));
+    }
+
+    async #notifyUpdateApplied({
+        providerNodeId,
+        endpoint,
+        fabricIndex,
+        updateToken,
+        softwareVersion,
+    }: OtaSoftwareUpdateRequestorServer.PendingUpdate) {
+        try {
+            const client = await this.#connect(fabricIndex, providerNodeId);
+            await client.invoke({
+                endpointId: endpoint,
+                clusterId: OtaSoftwareUpdateProvider.Cluster.id,
+                command: OtaSoftwareUpdateProvider.Cluster.commands.notifyUpdateApplied,
+                request: { updateToken, softwareVersion },
+            });
+        } catch (error) {
+            logger.info(`Failed to notify OTA provider ${NodeId.toHexString(providerNodeId)} of update:`, error);
+        }
+    }
+
+    /**
+     * Run an update in the background.
+     *
+     * The update takes a long time so it runs outside of the transaction that started it.  Each state change happens
+     * in a separate transaction.
+     */
+    async #update(providers: OtaSoftwareUpdateRequestor.ProviderLocation[]) {
+        for (const provider of providers) {
+            try {
+                if (await this.#updateFrom(provider)) {
+                    return;
+                }
+            } catch (error) {
+                logger.error(`OTA update with provider ${NodeId.toHexString(provider.providerNodeId)} failed:`, error);
+                await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Failure));
+            }
+        }
+    }
+
+    /**
+     * Query a provider and install an available update.  Returns false if we should try another provider.
+     */
+    async #updateFrom(provider: OtaSoftwareUpdateRequestor.ProviderLocation): Promise<boolean> {
+        const { providerNodeId, endpoint, fabricIndex } = provider;
+        if (this.internal.isOffline) {
+            return true;
+        }
+
+        await this.#act(behavior => behavior.#transition(UpdateState.Querying, ChangeReason.Success));
+
+        let client, response;
+        try {
+            client = await this.#connect(fabricIndex, providerNodeId);
+            response = await client.invoke({
+                endpointId: endpoint,
+                clusterId: OtaSoftwareUpdateProvider.Cluster.id,
+                command: OtaSoftwareUpdateProvider.Cluster.commands.queryImage,
+                request: this.#queryImageRequest,
+            });
+        } catch (error) {
+            logger.info(`Query of OTA provider ${NodeId.toHexString(providerNodeId)} failed:`, error);
+            await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Failure));
+            return false;
+        }
+
+        const { status, delayedActionTime, imageUri, softwareVersion, softwareVersionString, updateToken } = response;
+        switch (status) {
+            case OtaSoftwareUpdateProvider.Status.UpdateAvailable:
+                break;
+
+            case OtaSoftwareUpdateProvider.Status.Busy:
+                await this.#act(behavior =>
+                    behavior.#transition(UpdateState.DelayedOnQuery, ChangeReason.DelayByProvider),
+                );
+                await this.#delay(Math.max(delayedActionTime ?? 0, MIN_RETRY_DELAY_S));
+                return this.#updateFrom(provider);
+
+            case OtaSoftwareUpdateProvider.Status.NotAvailable:
+                await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Success));
+                return true;
+
+            default:
+                logger.info(`OTA provider ${NodeId.toHexString(providerNodeId)} does not support BDX downloads`);
+                await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Failure));
+                return false;
+        }
+
+        const currentVersion = this.endpoint.stateOf(BasicInformationServer).softwareVersion;
+        if (
+            imageUri === undefined ||
+            updateToken === undefined ||
+            softwareVersion === undefined ||
+            softwareVersion <= currentVersion
+        ) {
+            logger.info(`OTA provider ${NodeId.toHexString(providerNodeId)} offered an invalid update`);
+            await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Failure));
+            return false;
+        }
+
+        const image = await this.#download(fabricIndex, imageUri, softwareVersion);
+        if (image === undefined) {
+            return true;
+        }
+
+        await this.#apply(client, provider, {
+            softwareVersion,
+            softwareVersionString: softwareVersionString ?? softwareVersion.toString(),
+            updateToken,
+            image,
+        });
+        return true;
+    }
+
+    get #queryImageRequest(): OtaSoftwareUpdateProvider.QueryImageRequest {
+        const { vendorId, productId, softwareVersion, hardwareVersion, location } =
+            this.endpoint.stateOf(BasicInformationServer);
+
+        return {
+            vendorId,
+            productId,
+            softwareVersion,
+            protocolsSupported: [OtaSoftwareUpdateProvider.DownloadProtocol.BdxSynchronous],
+            hardwareVersion,
+            location,
+            requestorCanConsent: false,
+        };
+    }
+
+    /**
+     * Download an image via BDX.  Returns undefined if the download fails.
+     */
+    async #download(fabricIndex: FabricIndex, imageUri: string, softwareVersion: number) {
+        await this.#act(behavior =>
+            behavior.#transition(UpdateState.Downloading, ChangeReason.Success, softwareVersion),
+        );
+
+        const chunks = new Array<Uint8Array>();
+        let bytesDownloaded = 0;
+        let progressPercent: number | null = null;
+        try {
+            const { nodeId, fileDesignator } = BdxUri.parse(imageUri);
+            await this.#connect(fabricIndex, nodeId);
+            const exchange = this.env
+                .get(ExchangeManager)
+                .initiateExchange(PeerAddress({ fabricIndex, nodeId }), BDX_PROTOCOL_ID);
+            const download = await new BdxClient(exchange).receive({ fileDesignator });
+
+            for await (const chunk of download) {
+                if (this.internal.isOffline) {
+                    break;
+                }
+
+                chunks.push(chunk);
+                bytesDownloaded = download.bytesReceived;
+
+                if (download.length) {
+                    const percent = Math.floor((bytesDownloaded * 100) / download.length);
+                    if (percent !== progressPercent) {
+                        progressPercent = percent;
+                        await this.#act(behavior => {
+                            behavior.state.updateStateProgress = percent;
+                        });
+                    }
+                }
+            }
+
+            if (this.internal.isOffline) {
+                return;
+            }
+        } catch (error) {
+            logger.info(`Download of software version ${softwareVersion} failed:`, error);
+            await this.#act(behavior => {
+                behavior.events.downloadError.emit(
+                    { softwareVersion, bytesDownloaded, progressPercent, platformCode: null },
+                    behavior.context,
+                );
+                behavior.#transition(UpdateState.Idle, ChangeReason.Failure);
+            });
+            return;
+        }
+
+        return Bytes.concat(...chunks);
+    }
+
+    /**
+     * Obtain permission to apply an update from the provider and apply.
+     */
+    async #apply(
+        client: InteractionClient,
+        { providerNodeId, endpoint, fabricIndex }: OtaSoftwareUpdateRequestor.ProviderLocation,
+        update: OtaSoftwareUpdateRequestorServer.Update,
+    ) {
+        const { softwareVersion, updateToken } = update;
+
+        while (true) {
+            if (this.internal.isOffline) {
+                return;
+            }
+
+            const { action, delayedActionTime } = await client.invoke({
+                endpointId: endpoint,
+                clusterId: OtaSoftwareUpdateProvider.Cluster.id,
+                command: OtaSoftwareUpdateProvider.Cluster.commands.applyUpdateRequest,
+                request: { updateToken, newVersion: softwareVersion },
+            });
+
+            if (action === OtaSoftwareUpdateProvider.ApplyUpdateAction.Proceed) {
+                await this.#delay(delayedActionTime);
+                break;
+            }
+
+            if (action === OtaSoftwareUpdateProvider.ApplyUpdateAction.Discontinue) {
+                logger.info(`OTA provider discontinued update to version ${softwareVersion}`);
+                await this.#act(behavior => behavior.#transition(UpdateState.Idle, ChangeReason.Success));
+                return;
+            }
+
+            await this.#act(behavior =>
+                behavior.#transition(UpdateState.DelayedOnApply, ChangeReason.DelayByProvider, softwareVersion),
+            );
+            await this.#delay(Math.max(delayedActionTime, MIN_RETRY_DELAY_S));
+        }
+
+        if (this.internal.isOffline) {
+            return;
+        }
+
+        // Persist the update first as applying may not return if the node restarts
+        await this.#act(behavior => {
+            behavior.#transition(UpdateState.Applying, ChangeReason.Success, softwareVersion);
+            behavior.state.pendingUpdate = { providerNodeId, endpoint, fabricIndex, updateToken, softwareVersion };
+        });
+
+        try {
+            await this.#act(behavior => behavior.applyUpdate(update));
+        } catch (error) {
+            logger.error(`Applying software version ${softwareVersion} failed:`, error);
+            await this.#act(behavior => {
+                behavior.state.pendingUpdate = undefined;
+                behavior.#transition(UpdateState.Idle, ChangeReason.Failure);
+            });
+            return;
+        }
+
+        await this.#act(behavior => behavior.#confirmUpdate(false));
+    }
+
+    /**
+     * Connect to a node on one of our fabrics.
+     */
+    async #connect(fabricIndex: FabricIndex, nodeId: NodeId) {
+        // Peers we connect to need not be commissioned by us so we must be able to discover them
+        await (this.endpoint as ServerNode).preparePeerConnections();
+
+        return this.env
+            .get(PeerSet)
+            .connect(
+                PeerAddress({ fabricIndex, nodeId }),
+                { discoveryType: NodeDiscoveryType.TimedDiscovery, timeoutSeconds: DISCOVERY_TIMEOUT_S },
+                true,
+            );
+    }
+
+    /**
+     * Run an action on the current state of the behavior in a new transaction.
+     */
+    async #act(actor: (behavior: OtaSoftwareUpdateRequestorServer) => MaybePromise<void>) {
+        await this.endpoint.act("ota-requestor", agent => actor(agent.get(OtaSoftwareUpdateRequestorServer)));
+    }
+
+    async #delay(seconds: number) {
+        if (!seconds || this.internal.isOffline) {
+            return;
+        }
+        const delay = Time.sleep("OTA requestor delay", seconds * 1000);
+        this.internal.delay = delay;
+        try {
+            await delay;
+        } finally {
+            this.internal.delay = undefined;
+        }
+    }
+}
+
+export namespace OtaSoftwareUpdateRequestorServer {
+    export class Internal {
+        /** A provider that announced itself and which we query first. */
+        announcedProvider?: OtaSoftwareUpdateRequestor.ProviderLocation;
+
+        /** The update running in the background. */
+        update?: Promise<void>;
+
+        /** A delay requested by the provider. */
+        delay?: CancelablePromise;
+
+        queryTimer?: Timer;
+        delayTimer?: Timer;
+        isOffline = true;
+    }
+
+    export class State extends OtaSoftwareUpdateRequestorServerBase.State {
+        /** The interval for periodic queries of the default OTA providers in seconds. */
+        queryInterval = 24 * 60 * 60;
+
+        /** An update that was applied but that the node has not confirmed by running the new software version. */
+        pendingUpdate?: PendingUpdate;
+    }
+
+    /**
+     * A downloaded software image.
+     */
+    export interface Update {
+        softwareVersion: number;
+        softwareVersionString: string;
+        updateToken: Uint8Array;
+        image: Uint8Array;
+    }
+
+    export type PendingUpdate = {
+        providerNodeId: NodeId;
+        endpoint: EndpointNumber;
+        fabricIndex: FabricIndex;
+        updateToken: Uint8Array;
+        softwareVersion: number;
+    };
 }
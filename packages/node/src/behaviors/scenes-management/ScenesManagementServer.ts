@@ -4,11 +4,702 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { ColorControlServer, ColorControlServerLogic } from "#behaviors/color-control";
+import { LevelControlServer } from "#behaviors/level-control";
+import { OnOffServer } from "#behaviors/on-off";
+import { ColorControl } from "#clusters/color-control";
+import { LevelControl } from "#clusters/level-control";
+import { OnOff } from "#clusters/on-off";
+import { ScenesManagement } from "#clusters/scenes-management";
+import { RootEndpoint } from "#endpoints/root";
+import { cropValueRange, ImplementationError, Logger } from "#general";
+import { DatatypeElement, FieldElement } from "#model";
+import type { Node } from "#node/Node.js";
+import { Fabric, FabricManager } from "#protocol";
+import { AttributeId, ClusterId, FabricIndex, GroupId, StatusCode, StatusResponseError } from "#types";
 import { ScenesManagementBehavior } from "./ScenesManagementBehavior.js";
 
+const logger = Logger.get("ScenesManagementServer");
+
+const MAX_REMAINING_CAPACITY = 253;
+const MAX_CIE_XY_VALUE = 0xfeff;
+
+// Enhance the schema to persist the scene table of the endpoint
+const schema = ScenesManagementBehavior.schema!.extend({
+    children: [
+        DatatypeElement({
+            name: "SceneTableEntryStruct",
+            type: "struct",
+            children: [
+                FieldElement({ name: "SceneGroupId", id: 0x0, type: "group-id", conformance: "M" }),
+                FieldElement({ name: "SceneId", id: 0x1, type: "uint8", conformance: "M" }),
+                FieldElement({ name: "SceneName", id: 0x2, type: "string", conformance: "M" }),
+                FieldElement({ name: "SceneTransitionTime", id: 0x3, type: "uint32", conformance: "M" }),
+                FieldElement({
+                    name: "ExtensionFieldSets",
+                    id: 0x4,
+                    type: "list",
+                    conformance: "M",
+                    children: [FieldElement({ name: "entry", type: "ExtensionFieldSetStruct" })],
+                }),
+                FieldElement({ name: "FabricIndex", id: 0xfe, type: "fabric-idx", conformance: "M" }),
+            ],
+        }),
+        FieldElement({
+            name: "sceneTable",
+            type: "list",
+            quality: "N",
+            children: [FieldElement({ name: "entry", type: "SceneTableEntryStruct" })],
+        }),
+    ],
+});
+
+/**
+ * Read the value of an attribute value pair regardless of the value field used by the client.
+ */
+function valueOf({
+    valueUnsigned8,
+    valueSigned8,
+    valueUnsigned16,
+    valueSigned16,
+    valueUnsigned32,
+    valueSigned32,
+    valueUnsigned64,
+    valueSigned64,
+}: ScenesManagement.AttributeValuePair) {
+    const value =
+        valueUnsigned8 ??
+        valueSigned8 ??
+        valueUnsigned16 ??
+        valueSigned16 ??
+        valueUnsigned32 ??
+        valueSigned32 ??
+        valueUnsigned64 ??
+        valueSigned64;
+    return value === undefined ? undefined : Number(value);
+}
+
 /**
  * This is the default server implementation of {@link ScenesManagementBehavior}.
+ *
+ * The scene table of the endpoint is persisted in the state attribute `sceneTable`.  Each entry is scoped to the
+ * fabric that created it and belongs to a group of the fabric's group table (or to group 0).
+ *
+ * StoreScene captures the scene-able attributes of {@link OnOffServer}, {@link LevelControlServer} and
+ * {@link ColorControlServer} on the same endpoint.  RecallScene applies these values again by invoking the commands of
+ * these behaviors, so the transition handling of the respective server implementation is used.
+ *
+ * Scenes of a group are removed when the endpoint is removed from the group and scenes of a fabric are removed when
+ * the fabric is removed.
  */
-export class ScenesManagementServer extends ScenesManagementBehavior {}
+export class ScenesManagementServer extends ScenesManagementBehavior {
+    declare state: ScenesManagementServer.State;
+    schema = schema;
+
+    override initialize() {
+        const node = this.endpoint.ownerOfType(RootEndpoint) as Node | undefined;
+        if (node === undefined) {
+            throw new ImplementationError("Scenes Management cluster requires a root endpoint");
+        }
+
+        if (node.lifecycle.isOnline) {
+            this.#nodeOnline();
+        } else {
+            this.reactTo(node.lifecycle.online, this.#nodeOnline);
+        }
+    }
+
+    override addScene({
+        groupId,
+        sceneId,
+        transitionTime,
+        sceneName,
+        extensionFieldSetStructs,
+    }: ScenesManagement.AddSceneRequest): ScenesManagement.AddSceneResponse {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, groupId, sceneId };
+        }
+
+        const status = this.#setScene({
+            sceneGroupId: groupId,
+            sceneId,
+            sceneName: this.features.sceneNames ? sceneName : "",
+            sceneTransitionTime: transitionTime,
+            extensionFieldSets: this.#supportedFieldSets(extensionFieldSetStructs),
+            fabricIndex: fabric.fabricIndex,
+        });
+        if (status === StatusCode.Success) {
+            this.#configuredBy();
+        }
+
+        return { status, groupId, sceneId };
+    }
+
+    override viewScene({ groupId, sceneId }: ScenesManagement.ViewSceneRequest): ScenesManagement.ViewSceneResponse {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, groupId, sceneId };
+        }
+
+        const scene = this.#sceneFor(fabric.fabricIndex, groupId, sceneId);
+        if (scene === undefined) {
+            return { status: StatusCode.NotFound, groupId, sceneId };
+        }
+
+        return {
+            status: StatusCode.Success,
+            groupId,
+            sceneId,
+            transitionTime: scene.sceneTransitionTime,
+            sceneName: this.features.sceneNames ? scene.sceneName : "",
+            extensionFieldSetStructs: scene.extensionFieldSets,
+        };
+    }
+
+    override removeScene({
+        groupId,
+        sceneId,
+    }: ScenesManagement.RemoveSceneRequest): ScenesManagement.RemoveSceneResponse {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, groupId, sceneId };
+        }
+
+        if (this.#sceneFor(fabric.fabricIndex, groupId, sceneId) === undefined) {
+            return { status: StatusCode.NotFound, groupId, sceneId };
+        }
+
+        this.#removeScenes(
+            fabric.fabricIndex,
+            scene => scene.sceneGroupId === groupId && scene.sceneId === sceneId,
+            info => info.currentGroup === groupId && info.currentScene === sceneId,
+        );
+        this.#configuredBy();
+
+        return { status: StatusCode.Success, groupId, sceneId };
+    }
+
+    override removeAllScenes({
+        groupId,
+    }: ScenesManagement.RemoveAllScenesRequest): ScenesManagement.RemoveAllScenesResponse {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, groupId };
+        }
+
+        this.removeScenesOfGroup(fabric.fabricIndex, groupId);
+        this.#configuredBy();
+
+        return { status: StatusCode.Success, groupId };
+    }
+
+    override storeScene({ groupId, sceneId }: ScenesManagement.StoreSceneRequest): ScenesManagement.StoreSceneResponse {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, groupId, sceneId };
+        }
+
+        const existing = this.#sceneFor(fabric.fabricIndex, groupId, sceneId);
+        const status = this.#setScene({
+            sceneGroupId: groupId,
+            sceneId,
+            sceneName: existing?.sceneName ?? "",
+            sceneTransitionTime: existing?.sceneTransitionTime ?? 0,
+            extensionFieldSets: this.#captureFieldSets(),
+            fabricIndex: fabric.fabricIndex,
+        });
+        if (status !== StatusCode.Success) {
+            return { status, groupId, sceneId };
+        }
+
+        this.#updateSceneInfo(fabric.fabricIndex, { currentGroup: groupId, currentScene: sceneId, sceneValid: true });
+        this.#configuredBy();
+
+        return { status, groupId, sceneId };
+    }
+
+    override async recallScene({ groupId, sceneId, transitionTime }: ScenesManagement.RecallSceneRequest) {
+        const fabric = this.#fabric;
+        if (!this.#isValidGroup(fabric, groupId)) {
+            throw new StatusResponseError(`Group ${groupId} is not valid for this endpoint`, StatusCode.InvalidCommand);
+        }
+
+        const scene = this.#sceneFor(fabric.fabricIndex, groupId, sceneId);
+        if (scene === undefined) {
+            throw new StatusResponseError(`Scene ${sceneId} of group ${groupId} not found`, StatusCode.NotFound);
+        }
+
+        await this.#applyFieldSets(scene.extensionFieldSets, transitionTime ?? scene.sceneTransitionTime);
+
+        this.#updateSceneInfo(fabric.fabricIndex, { currentGroup: groupId, currentScene: sceneId, sceneValid: true });
+    }
+
+    override getSceneMembership({
+        groupId,
+    }: ScenesManagement.GetSceneMembershipRequest): ScenesManagement.GetSceneMembershipResponse {
+        const fabric = this.#fabric;
+        const capacity = this.#remainingCapacityFor(fabric.fabricIndex);
+        if (!this.#isValidGroup(fabric, groupId)) {
+            return { status: StatusCode.InvalidCommand, capacity, groupId };
+        }
+
+        return {
+            status: StatusCode.Success,
+            capacity,
+            groupId,
+            sceneList: this.state.sceneTable
+                .filter(scene => scene.fabricIndex === fabric.fabricIndex && scene.sceneGroupId === groupId)
+                .map(({ sceneId }) => sceneId),
+        };
+    }
+
+    override copyScene({
+        mode,
+        groupIdentifierFrom,
+        sceneIdentifierFrom,
+        groupIdentifierTo,
+        sceneIdentifierTo,
+    }: ScenesManagement.CopySceneRequest): ScenesManagement.CopySceneResponse {
+        const fabric = this.#fabric;
+        const response = (status: StatusCode) => ({ status, groupIdentifierFrom, sceneIdentifierFrom });
+
+        if (!this.#isValidGroup(fabric, groupIdentifierFrom) || !this.#isValidGroup(fabric, groupIdentifierTo)) {
+            return response(StatusCode.InvalidCommand);
+        }
+
+        const sources = mode.copyAllScenes
+            ? this.state.sceneTable.filter(
+                  scene => scene.fabricIndex === fabric.fabricIndex && scene.sceneGroupId === groupIdentifierFrom,
+              )
+            : [this.#sceneFor(fabric.fabricIndex, groupIdentifierFrom, sceneIdentifierFrom)];
+
+        if (!mode.copyAllScenes && sources[0] === undefined) {
+            return response(StatusCode.NotFound);
+        }
+
+        const copies = sources.map(scene => ({
+            ...scene!,
+            sceneGroupId: groupIdentifierTo,
+            sceneId: mode.copyAllScenes ? scene!.sceneId : sceneIdentifierTo,
+        }));
+
+        const added = copies.filter(
+            ({ sceneId }) => this.#sceneFor(fabric.fabricIndex, groupIdentifierTo, sceneId) === undefined,
+        ).length;
+        if (added > this.#remainingCapacityFor(fabric.fabricIndex)) {
+            return response(StatusCode.ResourceExhausted);
+        }
+
+        for (const copy of copies) {
+            this.#setScene(copy);
+        }
+        this.#configuredBy();
+
+        return response(StatusCode.Success);
+    }
+
+    /**
+     * Remove all scenes of a group of a fabric.  {@link GroupsServer} calls this when the endpoint is removed from a
+     * group.
+     */
+    removeScenesOfGroup(fabricIndex: FabricIndex, groupId: GroupId) {
+        this.#removeScenes(
+            fabricIndex,
+            scene => scene.sceneGroupId === groupId,
+            info => info.currentGroup === groupId,
+        );
+    }
+
+    /**
+     * Add or replace a scene of the scene table.
+     */
+    #setScene(scene: ScenesManagementServer.SceneTableEntry) {
+        const { fabricIndex, sceneGroupId, sceneId } = scene;
+        const sceneTable = [...this.state.sceneTable];
+        const index = sceneTable.findIndex(
+            entry =>
+                entry.fabricIndex === fabricIndex && entry.sceneGroupId === sceneGroupId && entry.sceneId === sceneId,
+        );
+
+        if (index === -1) {
+            if (this.#remainingCapacityFor(fabricIndex) === 0) {
+                return StatusCode.ResourceExhausted;
+            }
+            sceneTable.push(scene);
+        } else {
+            sceneTable[index] = scene;
+        }
+        this.state.sceneTable = sceneTable;
+
+        this.#updateSceneInfo(
+            fabricIndex,
+            index === -1
+                ? {}
+                : ({ currentGroup, currentScene, sceneValid }) => ({
+                      sceneValid: sceneValid && !(currentGroup === sceneGroupId && currentScene === sceneId),
+                  }),
+        );
+
+        return StatusCode.Success;
+    }
+
+    #removeScenes(
+        fabricIndex: FabricIndex,
+        predicate: (scene: ScenesManagementServer.SceneTableEntry) => boolean,
+        invalidatesCurrent: (info: ScenesManagement.SceneInfo) => boolean,
+    ) {
+        const sceneTable = this.state.sceneTable.filter(
+            scene => scene.fabricIndex !== fabricIndex || !predicate(scene),
+        );
+        if (sceneTable.length === this.state.sceneTable.length) {
+            return;
+        }
+        this.state.sceneTable = sceneTable;
+
+        this.#updateSceneInfo(fabricIndex, info => (invalidatesCurrent(info) ? { sceneValid: false } : {}));
+    }
+
+    #sceneFor(fabricIndex: FabricIndex, groupId: GroupId, sceneId: number) {
+        return this.state.sceneTable.find(
+            scene => scene.fabricIndex === fabricIndex && scene.sceneGroupId === groupId && scene.sceneId === sceneId,
+        );
+    }
+
+    /**
+     * Update the entry of a fabric in the FabricSceneInfo attribute.  Scene count and remaining capacity are always
+     * recalculated.
+     */
+    #updateSceneInfo(
+        fabricIndex: FabricIndex,
+        changes:
+            | Partial<ScenesManagement.SceneInfo>
+            | ((info: ScenesManagement.SceneInfo) => Partial<ScenesManagement.SceneInfo>),
+    ) {
+        const fabricSceneInfo = [...this.state.fabricSceneInfo];
+        let index = fabricSceneInfo.findIndex(info => info.fabricIndex === fabricIndex);
+        if (index === -1) {
+            index =
+                fabricSceneInfo.push({
+                    sceneCount: 0,
+                    currentScene: 0,
+                    currentGroup: GroupId(0),
+                    sceneValid: false,
+                    remainingCapacity: 0,
+                    fabricIndex,
+                }) - 1;
+        }
+
+        const info = fabricSceneInfo[index];
+        fabricSceneInfo[index] = {
+            ...info,
+            ...(typeof changes === "function" ? changes(info) : changes),
+            sceneCount: this.state.sceneTable.filter(scene => scene.fabricIndex === fabricIndex).length,
+            remainingCapacity: Math.min(this.#remainingCapacityFor(fabricIndex), MAX_REMAINING_CAPACITY),
+        };
+        this.state.fabricSceneInfo = fabricSceneInfo;
+    }
+
+    #remainingCapacityFor(fabricIndex: FabricIndex) {
+        const { sceneTableSize, sceneTable } = this.state;
+        const maxScenesPerFabric = Math.floor((sceneTableSize - 1) / 2);
+        const fabricScenes = sceneTable.filter(scene => scene.fabricIndex === fabricIndex).length;
+        return Math.max(Math.min(maxScenesPerFabric - fabricScenes, sceneTableSize - sceneTable.length), 0);
+    }
+
+    #isValidGroup(fabric: Fabric, groupId: GroupId) {
+        if (groupId === GroupId.UNSPECIFIED_GROUP_ID) {
+            return true;
+        }
+        return fabric.groups.groupFor(groupId)?.endpoints.includes(this.endpoint.number) ?? false;
+    }
+
+    #configuredBy() {
+        const session = this.context.session;
+        if (this.state.lastConfiguredBy !== undefined && session !== undefined) {
+            this.state.lastConfiguredBy = session.peerNodeId;
+        }
+    }
+
+    /**
+     * Reduce the extension field sets of an AddScene request to the clusters and attributes this server applies on
+     * recall.
+     */
+    #supportedFieldSets(fieldSets: ScenesManagement.ExtensionFieldSet[]) {
+        const captured = this.#captureFieldSets();
+        const result = new Array<ScenesManagement.ExtensionFieldSet>();
+        for (const { clusterId, attributeValueList } of fieldSets) {
+            const supported = captured.find(fieldSet => fieldSet.clusterId === clusterId);
+            if (supported === undefined) {
+                logger.debug(`Ignoring scene extension field set for unsupported cluster ${clusterId}`);
+                continue;
+            }
+            result.push({
+                clusterId,
+                attributeValueList: attributeValueList.filter(({ attributeId }) =>
+                    supported.attributeValueList.some(pair => pair.attributeId === attributeId),
+                ),
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Collect the current values of all scene-able attributes of the supported clusters on this endpoint.
+     */
+    #captureFieldSets() {
+        const fieldSets = new Array<ScenesManagement.ExtensionFieldSet>();
+
+        if (this.agent.has(OnOffServer)) {
+            fieldSets.push({
+                clusterId: OnOff.Cluster.id,
+                attributeValueList: [
+                    {
+                        attributeId: OnOff.Cluster.attributes.onOff.id,
+                        valueUnsigned8: this.agent.get(OnOffServer).state.onOff ? 1 : 0,
+                    },
+                ],
+            });
+        }
+
+        if (this.agent.has(LevelControlServer)) {
+            const { currentLevel } = this.agent.get(LevelControlServer).state;
+            if (currentLevel !== null) {
+                fieldSets.push({
+                    clusterId: LevelControl.Cluster.id,
+                    attributeValueList: [
+                        { attributeId: LevelControl.Cluster.attributes.currentLevel.id, valueUnsigned8: currentLevel },
+                    ],
+                });
+            }
+        }
+
+        if (this.agent.has(ColorControlServer)) {
+            const colorControl = this.#colorControl;
+            const { features, state } = colorControl;
+            const { attributes } = ColorControl.Complete;
+            const attributeValueList = new Array<ScenesManagement.AttributeValuePair>();
+
+            if (features.xy) {
+                attributeValueList.push(
+                    { attributeId: attributes.currentX.id, valueUnsigned16: state.currentX },
+                    { attributeId: attributes.currentY.id, valueUnsigned16: state.currentY },
+                );
+            }
+            if (features.hueSaturation) {
+                attributeValueList.push(
+                    {
+                        attributeId: attributes.enhancedCurrentHue.id,
+                        valueUnsigned16: features.enhancedHue ? state.enhancedCurrentHue : state.currentHue << 8,
+                    },
+                    { attributeId: attributes.currentSaturation.id, valueUnsigned8: state.currentSaturation },
+                );
+            }
+            if (features.colorLoop) {
+                attributeValueList.push(
+                    { attributeId: attributes.colorLoopActive.id, valueUnsigned8: state.colorLoopActive },
+                    { attributeId: attributes.colorLoopDirection.id, valueUnsigned8: state.colorLoopDirection },
+                    { attributeId: attributes.colorLoopTime.id, valueUnsigned16: state.colorLoopTime },
+                );
+            }
+            if (features.colorTemperature) {
+                attributeValueList.push({
+                    attributeId: attributes.colorTemperatureMireds.id,
+                    valueUnsigned16: state.colorTemperatureMireds,
+                });
+            }
+            attributeValueList.push({
+                attributeId: attributes.enhancedColorMode.id,
+                valueUnsigned8: state.enhancedColorMode,
+            });
+
+            fieldSets.push({ clusterId: ColorControl.Complete.id, attributeValueList });
+        }
+
+        return fieldSets;
+    }
+
+    /**
+     * Apply the values of the extension field sets using the commands of the respective behaviors.
+     *
+     * @param fieldSets the extension field sets of the scene
+     * @param transitionTime the transition time in milliseconds
+     */
+    async #applyFieldSets(fieldSets: ScenesManagement.ExtensionFieldSet[], transitionTime: number) {
+        const valuesFor = (clusterId: ClusterId) => {
+            const values = new Map<AttributeId, number>();
+            for (const pair of fieldSets.find(fieldSet => fieldSet.clusterId === clusterId)?.attributeValueList ?? []) {
+                const value = valueOf(pair);
+                if (value !== undefined) {
+                    values.set(pair.attributeId, value);
+                }
+            }
+            return values;
+        };
+
+        // Level and color commands use tenths of a second
+        const commandTransitionTime = Math.min(Math.round(transitionTime / 100), 0xfffe);
+        const options = { executeIfOff: true };
+
+        const onOffValue = this.agent.has(OnOffServer)
+            ? valuesFor(OnOff.Cluster.id).get(OnOff.Cluster.attributes.onOff.id)
+            : undefined;
+        if (onOffValue !== undefined && onOffValue !== 0) {
+            await this.agent.get(OnOffServer).on();
+        }
+
+        if (this.agent.has(LevelControlServer)) {
+            const level = valuesFor(LevelControl.Cluster.id).get(LevelControl.Cluster.attributes.currentLevel.id);
+            if (level !== undefined) {
+                const levelControl = this.agent.get(LevelControlServer);
+                await levelControl.moveToLevel({
+                    level: cropValueRange(level, levelControl.minLevel, levelControl.maxLevel),
+                    transitionTime: commandTransitionTime,
+                    optionsMask: options,
+                    optionsOverride: options,
+                });
+            }
+        }
+
+        if (this.agent.has(ColorControlServer)) {
+            await this.#applyColorValues(valuesFor(ColorControl.Complete.id), commandTransitionTime);
+        }
+
+        if (onOffValue === 0) {
+            await this.agent.get(OnOffServer).off();
+        }
+    }
+
+    async #applyColorValues(values: Map<AttributeId, number>, transitionTime: number) {
+        const colorControl = this.#colorControl;
+        const { features, state } = colorControl;
+        const { attributes } = ColorControl.Complete;
+        const options = { optionsMask: { executeIfOff: true }, optionsOverride: { executeIfOff: true } };
+
+        const colorLoopActive = values.get(attributes.colorLoopActive.id);
+        if (features.colorLoop && colorLoopActive !== undefined) {
+            await colorControl.colorLoopSet({
+                updateFlags: { updateAction: true, updateDirection: true, updateTime: true },
+                action:
+                    colorLoopActive === ColorControl.ColorLoopActive.Active
+                        ? ColorControl.Action.ActivateTheColorLoopFromTheValueOfTheEnhancedCurrentHueAttribute
+                        : ColorControl.Action.DeActivateTheColorLoop,
+                direction: values.get(attributes.colorLoopDirection.id) ?? state.colorLoopDirection,
+                time: values.get(attributes.colorLoopTime.id) ?? state.colorLoopTime,
+                startHue: state.colorLoopStartEnhancedHue,
+                ...options,
+            });
+            if (colorLoopActive === ColorControl.ColorLoopActive.Active) {
+                // The color loop controls the hue, so other color values do not apply
+                return;
+            }
+        }
+
+        const colorMode = values.get(attributes.enhancedColorMode.id) ?? state.enhancedColorMode;
+        switch (colorMode) {
+            case ColorControl.EnhancedColorMode.CurrentXAndCurrentY: {
+                const x = values.get(attributes.currentX.id);
+                const y = values.get(attributes.currentY.id);
+                if (features.xy && (x !== undefined || y !== undefined)) {
+                    await colorControl.moveToColor({
+                        colorX: cropValueRange(x ?? state.currentX, 0, MAX_CIE_XY_VALUE),
+                        colorY: cropValueRange(y ?? state.currentY, 0, MAX_CIE_XY_VALUE),
+                        transitionTime,
+                        ...options,
+                    });
+                }
+                break;
+            }
+
+            case ColorControl.EnhancedColorMode.ColorTemperatureMireds: {
+                const mireds = values.get(attributes.colorTemperatureMireds.id);
+                if (features.colorTemperature && mireds !== undefined) {
+                    await colorControl.moveToColorTemperature({
+                        colorTemperatureMireds: cropValueRange(
+                            mireds,
+                            state.colorTempPhysicalMinMireds,
+                            state.colorTempPhysicalMaxMireds,
+                        ),
+                        transitionTime,
+                        ...options,
+                    });
+                }
+                break;
+            }
+
+            case ColorControl.EnhancedColorMode.CurrentHueAndCurrentSaturation:
+            case ColorControl.EnhancedColorMode.EnhancedCurrentHueAndCurrentSaturation: {
+                const enhancedHue = values.get(attributes.enhancedCurrentHue.id);
+                const saturation = values.get(attributes.currentSaturation.id);
+                if (!features.hueSaturation || (enhancedHue === undefined && saturation === undefined)) {
+                    break;
+                }
+
+                const targetSaturation = cropValueRange(saturation ?? state.currentSaturation, 0, 0xfe);
+                if (
+                    features.enhancedHue &&
+                    colorMode === ColorControl.EnhancedColorMode.EnhancedCurrentHueAndCurrentSaturation
+                ) {
+                    await colorControl.enhancedMoveToHueAndSaturation({
+                        enhancedHue: enhancedHue ?? state.enhancedCurrentHue,
+                        saturation: targetSaturation,
+                        transitionTime,
+                        ...options,
+                    });
+                } else {
+                    await colorControl.moveToHueAndSaturation({
+                        hue: cropValueRange(enhancedHue === undefined ? state.currentHue : enhancedHue >> 8, 0, 0xfe),
+                        saturation: targetSaturation,
+                        transitionTime,
+                        ...options,
+                    });
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * The Color Control implementation of the endpoint typed with all feature specific state and commands.  Only state
+     * and commands of enabled features may be used.
+     */
+    get #colorControl() {
+        return this.agent.get(ColorControlServerLogic);
+    }
+
+    #nodeOnline() {
+        const fabricManager = this.env.get(FabricManager);
+        this.reactTo(fabricManager.events.deleted, this.#handleRemovedFabric, { lock: true });
+    }
+
+    #handleRemovedFabric({ fabricIndex }: Fabric) {
+        this.state.sceneTable = this.state.sceneTable.filter(scene => scene.fabricIndex !== fabricIndex);
+        this.state.fabricSceneInfo = this.state.fabricSceneInfo.filter(info => info.fabricIndex !== fabricIndex);
+    }
+
+    get #fabric() {
+        if (this.context.session === undefined) {
+            throw new ImplementationError("Session must be defined");
+        }
+        return this.context.session.associatedFabric;
+    }
+}
+
+export namespace ScenesManagementServer {
+    /**
+     * An entry of the scene table.
+     */
+    export interface SceneTableEntry {
+        sceneGroupId: GroupId;
+        sceneId: number;
+        sceneName: string;
+        sceneTransitionTime: number;
+        extensionFieldSets: ScenesManagement.ExtensionFieldSet[];
+        fabricIndex: FabricIndex;
+    }
+
+    export class State extends ScenesManagementBehavior.State {
+        /** The persisted scene table of all fabrics. */
+        sceneTable = new Array<SceneTableEntry>();
+    }
+}
@@ -4,14 +4,701 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { TimeSynchronizationBehavior } from "#behaviors/time-synchronization";
+import { Thermostat } from "#clusters/thermostat";
+import { RootEndpoint } from "#endpoints/root";
+import { ImplementationError, Logger, MaybePromise, Time, Timer } from "#general";
+import { FieldElement } from "#model";
+import type { Node } from "#node/Node.js";
+import { ClusterType, MATTER_EPOCH_OFFSET_MS, StatusCode, StatusResponseError } from "#types";
 import { ThermostatBehavior } from "./ThermostatBehavior.js";
 
+const logger = Logger.get("ThermostatServer");
+
+const ThermostatServerBase = ThermostatBehavior.with(
+    Thermostat.Feature.Heating,
+    Thermostat.Feature.Cooling,
+    Thermostat.Feature.Occupancy,
+    Thermostat.Feature.AutoMode,
+    Thermostat.Feature.ScheduleConfiguration,
+);
+
+// Enhance the schema to persist the weekly schedule
+const schema = ThermostatServerBase.schema!.extend({
+    children: [
+        FieldElement({
+            name: "weeklySchedule",
+            type: "list",
+            quality: "N",
+            children: [
+                FieldElement({
+                    name: "entry",
+                    type: "struct",
+                    children: [
+                        FieldElement({ name: "dayOfWeek", id: 0x0, type: "uint8", conformance: "M" }),
+                        FieldElement({
+                            name: "transitions",
+                            id: 0x1,
+                            type: "list",
+                            conformance: "M",
+                            children: [FieldElement({ name: "entry", type: "WeeklyScheduleTransitionStruct" })],
+                        }),
+                    ],
+                }),
+            ],
+        }),
+    ],
+});
+
+/** Default MinSetpointDeadBand, 2°C in 0.1°C. */
+const DEFAULT_MIN_SETPOINT_DEAD_BAND = 20;
+
+/** Interval for checking the weekly schedule for transitions. */
+const SCHEDULE_INTERVAL_MS = 60_000;
+
+/** Days of {@link Thermostat.ScheduleDayOfWeek} in bit order, "away" is an additional pseudo-day. */
+const SCHEDULE_DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "away"] as const;
+
+type SetpointKind = "heating" | "cooling";
+
+type SetpointName =
+    | "occupiedHeatingSetpoint"
+    | "occupiedCoolingSetpoint"
+    | "unoccupiedHeatingSetpoint"
+    | "unoccupiedCoolingSetpoint";
+
+interface SetpointPair {
+    heating: SetpointName;
+    cooling: SetpointName;
+}
+
+const OCCUPIED_SETPOINTS: SetpointPair = { heating: "occupiedHeatingSetpoint", cooling: "occupiedCoolingSetpoint" };
+const UNOCCUPIED_SETPOINTS: SetpointPair = {
+    heating: "unoccupiedHeatingSetpoint",
+    cooling: "unoccupiedCoolingSetpoint",
+};
+
 /**
  * This is the default server implementation of {@link ThermostatBehavior}.
  *
  * The Matter specification requires the Thermostat cluster to support features we do not enable by default. You should
  * use {@link ThermostatServer.with} to specialize the class for the features your implementation supports.
+ *
+ * The implementation enforces the setpoint limits of @see {@link MatterSpecification.v13.Cluster} § 4.3.7.2.
+ * Setpoints outside of the limits and, with the AutoMode feature, heating and cooling setpoints closer than
+ * MinSetpointDeadBand are rejected with CONSTRAINT_ERROR.  Changes of limits or of MinSetpointDeadBand adjust
+ * conflicting setpoints by the minimum amount.  SetpointRaiseLower keeps setpoints within limits and pushes the other
+ * setpoint if required by the dead band.
+ *
+ * With the ScheduleConfiguration feature the weekly schedule is persisted and the setpoints of a transition are applied
+ * when the transition time is reached in local time.  Local time is the LocalTime of the TimeSynchronization cluster of
+ * the node if available and the local time of the system otherwise.  The schedule is not applied if
+ * TemperatureSetpointHold is enabled or if ThermostatProgrammingOperationMode is present and the schedule is not
+ * active.  Transitions for "away" are stored but are not applied automatically.
+ *
+ * The application supplies the measured temperature using {@link setLocalTemperature} and may override
+ * {@link handleSystemModeChange} to react to changes of the SystemMode.
  */
-export class ThermostatServer extends ThermostatBehavior {}
+export class ThermostatServerLogic extends ThermostatServerBase {
+    protected declare internal: ThermostatServerLogic.Internal;
+    declare state: ThermostatServerLogic.State;
+    schema = schema;
+
+    override initialize() {
+        if (this.features.autoMode && this.state.minSetpointDeadBand === undefined) {
+            this.state.minSetpointDeadBand = DEFAULT_MIN_SETPOINT_DEAD_BAND;
+        }
+
+        try {
+            this.#assertLimits("heating");
+            this.#assertLimits("cooling");
+            for (const setpoints of this.#setpointPairs) {
+                this.#assertSetpoints(setpoints);
+            }
+        } catch (error) {
+            StatusResponseError.accept(error);
+            throw new ImplementationError(`Invalid thermostat configuration: ${error.message}`);
+        }
+
+        if (this.features.heating) {
+            for (const event of this.#heatingEvents) {
+                this.reactTo(event, this.#handleHeatingLimitChanging);
+            }
+        }
+        if (this.features.cooling) {
+            for (const event of this.#coolingEvents) {
+                this.reactTo(event, this.#handleCoolingLimitChanging);
+            }
+        }
+        for (const setpoints of this.#setpointPairs) {
+            for (const name of [setpoints.heating, setpoints.cooling]) {
+                const event = this.events[`${name}$Changing`];
+                if (event !== undefined) {
+                    this.reactTo(event, this.#handleSetpointChanging);
+                }
+            }
+        }
+        if (this.features.autoMode) {
+            this.reactTo(this.events.minSetpointDeadBand$Changing, this.#handleDeadBandChanging);
+        }
+
+        this.reactTo(this.events.systemMode$Changing, this.#assertSystemMode);
+        this.reactTo(this.events.systemMode$Changed, this.#handleSystemModeChanged);
+
+        if (this.features.scheduleConfiguration) {
+            this.internal.scheduleTimer = Time.getPeriodicTimer(
+                "Thermostat.schedule",
+                SCHEDULE_INTERVAL_MS,
+                this.callback(this.#applySchedule),
+            ).start();
+        }
+    }
+
+    override async [Symbol.asyncDispose]() {
+        this.internal.scheduleTimer?.stop();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override setpointRaiseLower({ mode, amount }: Thermostat.SetpointRaiseLowerRequest) {
+        const adjustHeating =
+            mode === Thermostat.SetpointRaiseLowerMode.Heat || mode === Thermostat.SetpointRaiseLowerMode.Both;
+        const adjustCooling =
+            mode === Thermostat.SetpointRaiseLowerMode.Cool || mode === Thermostat.SetpointRaiseLowerMode.Both;
+
+        if (
+            (adjustHeating && !this.features.heating && !adjustCooling) ||
+            (adjustCooling && !this.features.cooling && !adjustHeating)
+        ) {
+            throw new StatusResponseError(
+                `Setpoint mode ${Thermostat.SetpointRaiseLowerMode[mode]} is not supported`,
+                StatusCode.InvalidCommand,
+            );
+        }
+
+        // The amount is in steps of 0.1°C
+        const delta = amount * 10;
+        const setpoints = this.#activeSetpoints;
+        let heating = this.features.heating ? this.state[setpoints.heating] : undefined;
+        let cooling = this.features.cooling ? this.state[setpoints.cooling] : undefined;
+
+        if (adjustHeating && heating !== undefined) {
+            heating = this.#clampSetpoint("heating", heating + delta);
+        }
+        if (adjustCooling && cooling !== undefined) {
+            cooling = this.#clampSetpoint("cooling", cooling + delta);
+        }
+
+        // Push the other setpoint if the dead band requires it
+        if (this.features.autoMode && heating !== undefined && cooling !== undefined) {
+            const deadBand = this.#deadBand;
+            if (cooling - heating < deadBand) {
+                if (adjustHeating && !adjustCooling) {
+                    cooling = this.#clampSetpoint("cooling", heating + deadBand);
+                    heating = Math.min(heating, cooling - deadBand);
+                } else {
+                    heating = this.#clampSetpoint("heating", cooling - deadBand);
+                    cooling = Math.max(cooling, heating + deadBand);
+                }
+            }
+        }
+
+        if (heating !== undefined) {
+            this.state[setpoints.heating] = heating;
+        }
+        if (cooling !== undefined) {
+            this.state[setpoints.cooling] = cooling;
+        }
+        this.#recordSetpointChange(Thermostat.SetpointChangeSource.External, delta);
+    }
+
+    override setWeeklySchedule({
+        numberOfTransitionsForSequence,
+        dayOfWeekForSequence,
+        modeForSequence,
+        transitions,
+    }: Thermostat.SetWeeklyScheduleRequest) {
+        if (!modeForSequence.heatSetpointPresent && !modeForSequence.coolSetpointPresent) {
+            throw new StatusResponseError("No setpoint mode for sequence", StatusCode.InvalidCommand);
+        }
+        if (numberOfTransitionsForSequence !== transitions.length) {
+            throw new StatusResponseError(
+                `Expected ${numberOfTransitionsForSequence} transitions but got ${transitions.length}`,
+                StatusCode.InvalidCommand,
+            );
+        }
+        if (transitions.length > this.state.numberOfDailyTransitions) {
+            throw new StatusResponseError(
+                `Number of transitions exceeds the maximum of ${this.state.numberOfDailyTransitions} per day`,
+                StatusCode.ResourceExhausted,
+            );
+        }
+
+        const days = SCHEDULE_DAYS.filter(day => dayOfWeekForSequence[day]);
+        if (!days.length) {
+            throw new StatusResponseError("No day of week for sequence", StatusCode.InvalidCommand);
+        }
+
+        for (const { heatSetpoint, coolSetpoint } of transitions) {
+            if (!!modeForSequence.heatSetpointPresent !== (heatSetpoint !== null)) {
+                throw new StatusResponseError("Heat setpoint does not match the mode", StatusCode.InvalidCommand);
+            }
+            if (!!modeForSequence.coolSetpointPresent !== (coolSetpoint !== null)) {
+                throw new StatusResponseError("Cool setpoint does not match the mode", StatusCode.InvalidCommand);
+            }
+            if (heatSetpoint !== null && this.features.heating && !this.#isWithinLimits("heating", heatSetpoint)) {
+                throw new StatusResponseError(`Heat setpoint ${heatSetpoint} out of range`, StatusCode.ConstraintError);
+            }
+            if (coolSetpoint !== null && this.features.cooling && !this.#isWithinLimits("cooling", coolSetpoint)) {
+                throw new StatusResponseError(`Cool setpoint ${coolSetpoint} out of range`, StatusCode.ConstraintError);
+            }
+        }
+
+        const dayIndices = days.map(day => SCHEDULE_DAYS.indexOf(day));
+        const weeklySchedule = this.state.weeklySchedule.filter(({ dayOfWeek }) => !dayIndices.includes(dayOfWeek));
+        for (const dayOfWeek of dayIndices) {
+            weeklySchedule.push({
+                dayOfWeek,
+                transitions: [...transitions].sort((a, b) => a.transitionTime - b.transitionTime),
+            });
+        }
+
+        const totalTransitions = weeklySchedule.reduce((total, { transitions }) => total + transitions.length, 0);
+        if (totalTransitions > this.state.numberOfWeeklyTransitions) {
+            throw new StatusResponseError(
+                `Number of transitions exceeds the maximum of ${this.state.numberOfWeeklyTransitions} per week`,
+                StatusCode.ResourceExhausted,
+            );
+        }
+
+        this.state.weeklySchedule = weeklySchedule.sort((a, b) => a.dayOfWeek - b.dayOfWeek);
+        this.internal.lastScheduleTransition = undefined;
+    }
+
+    override getWeeklySchedule({
+        daysToReturn,
+        modeToReturn,
+    }: Thermostat.GetWeeklyScheduleRequest): Thermostat.GetWeeklyScheduleResponse {
+        // Only one day is returned; this is the first day requested
+        const day = SCHEDULE_DAYS.find(day => daysToReturn[day]);
+        if (day === undefined) {
+            throw new StatusResponseError("No day to return", StatusCode.InvalidCommand);
+        }
+
+        const dayOfWeek = SCHEDULE_DAYS.indexOf(day);
+        const transitions = (
+            this.state.weeklySchedule.find(entry => entry.dayOfWeek === dayOfWeek)?.transitions ?? []
+        ).map(({ transitionTime, heatSetpoint, coolSetpoint }) => ({
+            transitionTime,
+            heatSetpoint: modeToReturn.heatSetpointPresent ? heatSetpoint : null,
+            coolSetpoint: modeToReturn.coolSetpointPresent ? coolSetpoint : null,
+        }));
+
+        return {
+            numberOfTransitionsForSequence: transitions.length,
+            dayOfWeekForSequence: { [day]: true },
+            modeForSequence: {
+                heatSetpointPresent: transitions.some(({ heatSetpoint }) => heatSetpoint !== null),
+                coolSetpointPresent: transitions.some(({ coolSetpoint }) => coolSetpoint !== null),
+            },
+            transitions,
+        };
+    }
+
+    override clearWeeklySchedule() {
+        this.state.weeklySchedule = [];
+        this.internal.lastScheduleTransition = undefined;
+    }
+
+    /**
+     * Update the local temperature with a measured value.  LocalTemperatureCalibration is applied to the value and the
+     * ThermostatRunningMode is updated if supported.
+     *
+     * @param temperature the measured temperature in 0.01°C or null if unknown
+     */
+    setLocalTemperature(temperature: number | null) {
+        if (temperature !== null && this.state.localTemperatureCalibration !== undefined) {
+            // Calibration is in steps of 0.1°C
+            temperature += this.state.localTemperatureCalibration * 10;
+        }
+        this.state.localTemperature = temperature;
+        this.#updateRunningMode();
+    }
+
+    /**
+     * Called when the SystemMode changed.  Override to control the device accordingly.  The default implementation does
+     * nothing.
+     */
+    protected handleSystemModeChange(
+        _systemMode: Thermostat.SystemMode,
+        _oldSystemMode: Thermostat.SystemMode,
+    ): MaybePromise {}
+
+    #handleSystemModeChanged(systemMode: Thermostat.SystemMode, oldSystemMode: Thermostat.SystemMode) {
+        this.#updateRunningMode();
+        return this.handleSystemModeChange(systemMode, oldSystemMode);
+    }
+
+    #assertSystemMode(systemMode: Thermostat.SystemMode) {
+        const { ControlSequenceOfOperation: Sequence, SystemMode } = Thermostat;
+        const sequence = this.state.controlSequenceOfOperation;
+        const canHeat =
+            this.features.heating && sequence !== Sequence.CoolingOnly && sequence !== Sequence.CoolingWithReheat;
+        const canCool =
+            this.features.cooling && sequence !== Sequence.HeatingOnly && sequence !== Sequence.HeatingWithReheat;
+
+        let supported;
+        switch (systemMode) {
+            case SystemMode.Auto:
+                supported = this.features.autoMode && canHeat && canCool;
+                break;
+
+            case SystemMode.Heat:
+            case SystemMode.EmergencyHeat:
+                supported = canHeat;
+                break;
+
+            case SystemMode.Cool:
+            case SystemMode.Precooling:
+                supported = canCool;
+                break;
+
+            default:
+                supported = true;
+        }
+
+        if (!supported) {
+            throw new StatusResponseError(
+                `System mode ${SystemMode[systemMode]} is not supported by this thermostat`,
+                StatusCode.ConstraintError,
+            );
+        }
+    }
+
+    #updateRunningMode() {
+        if (!this.features.autoMode || this.state.thermostatRunningMode === undefined) {
+            return;
+        }
+
+        const { SystemMode, ThermostatRunningMode: RunningMode } = Thermostat;
+        const { localTemperature, systemMode } = this.state;
+        const setpoints = this.#activeSetpoints;
+
+        let runningMode;
+        switch (systemMode) {
+            case SystemMode.Heat:
+            case SystemMode.EmergencyHeat:
+                runningMode = RunningMode.Heat;
+                break;
+
+            case SystemMode.Cool:
+            case SystemMode.Precooling:
+                runningMode = RunningMode.Cool;
+                break;
+
+            case SystemMode.Auto:
+                if (localTemperature === null) {
+                    runningMode = RunningMode.Off;
+                } else if (localTemperature < this.state[setpoints.heating]) {
+                    runningMode = RunningMode.Heat;
+                } else if (localTemperature > this.state[setpoints.cooling]) {
+                    runningMode = RunningMode.Cool;
+                } else {
+                    runningMode = RunningMode.Off;
+                }
+                break;
+
+            default:
+                runningMode = RunningMode.Off;
+        }
+
+        this.state.thermostatRunningMode = runningMode;
+    }
+
+    #handleSetpointChanging() {
+        for (const setpoints of this.#setpointPairs) {
+            this.#assertSetpoints(setpoints);
+        }
+    }
+
+    #handleHeatingLimitChanging() {
+        this.#handleLimitChanging("heating");
+    }
+
+    #handleCoolingLimitChanging() {
+        this.#handleLimitChanging("cooling");
+    }
+
+    /**
+     * Validate the limits of heating or cooling setpoints and move setpoints into the new limits.
+     */
+    #handleLimitChanging(kind: SetpointKind) {
+        this.#assertLimits(kind);
+
+        for (const setpoints of this.#setpointPairs) {
+            const name = setpoints[kind];
+            const value = this.#clampSetpoint(kind, this.state[name]);
+            if (value !== this.state[name]) {
+                this.state[name] = value;
+            }
+            this.#resolveDeadBand(setpoints, kind);
+        }
+    }
+
+    #handleDeadBandChanging() {
+        this.#assertLimits("heating");
+
+        for (const setpoints of this.#setpointPairs) {
+            this.#resolveDeadBand(setpoints, "heating");
+        }
+    }
+
+    /**
+     * Adjust the setpoint of the other kind if a setpoint pair violates the dead band.
+     */
+    #resolveDeadBand(setpoints: SetpointPair, fixed: SetpointKind) {
+        if (!this.features.autoMode) {
+            return;
+        }
+
+        const deadBand = this.#deadBand;
+        const heating = this.state[setpoints.heating];
+        const cooling = this.state[setpoints.cooling];
+        if (cooling - heating >= deadBand) {
+            return;
+        }
+
+        if (fixed === "heating" && this.#isWithinLimits("cooling", heating + deadBand)) {
+            this.state[setpoints.cooling] = heating + deadBand;
+        } else {
+            this.state[setpoints.heating] = this.#clampSetpoint("heating", cooling - deadBand);
+            if (this.state[setpoints.cooling] - this.state[setpoints.heating] < deadBand) {
+                this.state[setpoints.cooling] = this.state[setpoints.heating] + deadBand;
+            }
+        }
+    }
+
+    #assertLimits(kind: SetpointKind) {
+        if (this.#supports(kind)) {
+            const { absMin, min, max, absMax } = this.#limits(kind);
+            if (absMin > min || min > max || max > absMax) {
+                throw new StatusResponseError(
+                    `Setpoint limits for ${kind} must satisfy ${absMin} <= ${min} <= ${max} <= ${absMax}`,
+                    StatusCode.ConstraintError,
+                );
+            }
+        }
+
+        if (this.features.autoMode && this.features.heating && this.features.cooling) {
+            const deadBand = this.#deadBand;
+            const heating = this.#limits("heating");
+            const cooling = this.#limits("cooling");
+            if (
+                heating.absMin > cooling.absMin - deadBand ||
+                heating.absMax > cooling.absMax - deadBand ||
+                heating.min > cooling.min - deadBand ||
+                heating.max > cooling.max - deadBand
+            ) {
+                throw new StatusResponseError(
+                    "Heating setpoint limits must be at least MinSetpointDeadBand below cooling setpoint limits",
+                    StatusCode.ConstraintError,
+                );
+            }
+        }
+    }
+
+    #assertSetpoints({ heating, cooling }: SetpointPair) {
+        if (this.features.heating && !this.#isWithinLimits("heating", this.state[heating])) {
+            throw new StatusResponseError(
+                `${heating} ${this.state[heating]} is out of range`,
+                StatusCode.ConstraintError,
+            );
+        }
+        if (this.features.cooling && !this.#isWithinLimits("cooling", this.state[cooling])) {
+            throw new StatusResponseError(
+                `${cooling} ${this.state[cooling]} is out of range`,
+                StatusCode.ConstraintError,
+            );
+        }
+        if (
+            this.features.autoMode &&
+            this.features.heating &&
+            this.features.cooling &&
+            this.state[cooling] - this.state[heating] < this.#deadBand
+        ) {
+            throw new StatusResponseError(
+                `${heating} must be at least MinSetpointDeadBand below ${cooling}`,
+                StatusCode.ConstraintError,
+            );
+        }
+    }
+
+    #applySchedule() {
+        const { weeklySchedule, temperatureSetpointHold, thermostatProgrammingOperationMode } = this.state;
+        if (
+            !weeklySchedule.length ||
+            temperatureSetpointHold === Thermostat.TemperatureSetpointHold.SetpointHoldOn ||
+            (thermostatProgrammingOperationMode !== undefined && !thermostatProgrammingOperationMode.scheduleActive)
+        ) {
+            return;
+        }
+
+        const { dayOfWeek, minuteOfDay } = this.#localTime();
+
+        // Find the most recent transition, looking back up to a week
+        for (let daysBack = 0; daysBack < 7; daysBack++) {
+            const day = (dayOfWeek - daysBack + 7) % 7;
+            const transitions = weeklySchedule.find(entry => entry.dayOfWeek === day)?.transitions ?? [];
+            const transition = transitions
+                .filter(({ transitionTime }) => daysBack > 0 || transitionTime <= minuteOfDay)
+                .pop();
+            if (transition === undefined) {
+                continue;
+            }
+
+            const key = `${day}:${transition.transitionTime}`;
+            if (this.internal.lastScheduleTransition === key) {
+                return;
+            }
+            this.internal.lastScheduleTransition = key;
+
+            logger.debug(`Applying schedule transition ${SCHEDULE_DAYS[day]} ${transition.transitionTime}`);
+            if (transition.heatSetpoint !== null && this.features.heating) {
+                this.state.occupiedHeatingSetpoint = this.#clampSetpoint("heating", transition.heatSetpoint);
+            }
+            if (transition.coolSetpoint !== null && this.features.cooling) {
+                this.state.occupiedCoolingSetpoint = this.#clampSetpoint("cooling", transition.coolSetpoint);
+            }
+            this.#recordSetpointChange(Thermostat.SetpointChangeSource.Schedule);
+            return;
+        }
+    }
+
+    /**
+     * The day of week and the minute of the day in local time.
+     */
+    #localTime() {
+        const node = this.endpoint.ownerOfType(RootEndpoint) as Node | undefined;
+        if (node?.behaviors.has(TimeSynchronizationBehavior)) {
+            const { localTime } = node.stateOf(TimeSynchronizationBehavior) as { localTime?: number | bigint | null };
+            if (localTime !== undefined && localTime !== null) {
+                const time = new Date(Number(localTime) / 1000 + MATTER_EPOCH_OFFSET_MS);
+                return { dayOfWeek: time.getUTCDay(), minuteOfDay: time.getUTCHours() * 60 + time.getUTCMinutes() };
+            }
+        }
+
+        const time = Time.now();
+        return { dayOfWeek: time.getDay(), minuteOfDay: time.getHours() * 60 + time.getMinutes() };
+    }
+
+    #recordSetpointChange(source: Thermostat.SetpointChangeSource, amount?: number) {
+        if (this.state.setpointChangeSource !== undefined) {
+            this.state.setpointChangeSource = source;
+        }
+        if (this.state.setpointChangeAmount !== undefined) {
+            this.state.setpointChangeAmount = amount ?? null;
+        }
+        if (this.state.setpointChangeSourceTimestamp !== undefined) {
+            this.state.setpointChangeSourceTimestamp = Math.floor((Time.nowMs() - MATTER_EPOCH_OFFSET_MS) / 1000);
+        }
+    }
+
+    #supports(kind: SetpointKind) {
+        return kind === "heating" ? this.features.heating : this.features.cooling;
+    }
+
+    #limits(kind: SetpointKind) {
+        if (kind === "heating") {
+            const absMin = this.state.absMinHeatSetpointLimit ?? 700;
+            const absMax = this.state.absMaxHeatSetpointLimit ?? 3000;
+            return {
+                absMin,
+                min: this.state.minHeatSetpointLimit ?? absMin,
+                max: this.state.maxHeatSetpointLimit ?? absMax,
+                absMax,
+            };
+        }
+
+        const absMin = this.state.absMinCoolSetpointLimit ?? 1600;
+        const absMax = this.state.absMaxCoolSetpointLimit ?? 3200;
+        return {
+            absMin,
+            min: this.state.minCoolSetpointLimit ?? absMin,
+            max: this.state.maxCoolSetpointLimit ?? absMax,
+            absMax,
+        };
+    }
+
+    #isWithinLimits(kind: SetpointKind, value: number) {
+        const { min, max } = this.#limits(kind);
+        return value >= min && value <= max;
+    }
+
+    #clampSetpoint(kind: SetpointKind, value: number) {
+        const { min, max } = this.#limits(kind);
+        return Math.min(Math.max(value, min), max);
+    }
+
+    /**
+     * MinSetpointDeadBand in the unit of setpoints (0.01°C).
+     */
+    get #deadBand() {
+        return (this.state.minSetpointDeadBand ?? DEFAULT_MIN_SETPOINT_DEAD_BAND) * 10;
+    }
+
+    /**
+     * The setpoints that currently apply.
+     */
+    get #activeSetpoints() {
+        if (this.features.occupancy && !this.state.occupancy.occupied) {
+            return UNOCCUPIED_SETPOINTS;
+        }
+        return OCCUPIED_SETPOINTS;
+    }
+
+    get #setpointPairs() {
+        return this.features.occupancy ? [OCCUPIED_SETPOINTS, UNOCCUPIED_SETPOINTS] : [OCCUPIED_SETPOINTS];
+    }
+
+    get #heatingEvents() {
+        return [this.events.minHeatSetpointLimit$Changing, this.events.maxHeatSetpointLimit$Changing].filter(
+            event => event !== undefined,
+        );
+    }
+
+    get #coolingEvents() {
+        return [this.events.minCoolSetpointLimit$Changing, this.events.maxCoolSetpointLimit$Changing].filter(
+            event => event !== undefined,
+        );
+    }
+}
+
+export namespace ThermostatServerLogic {
+    /**
+     * The transitions of one day of the weekly schedule.  The day is the bit index in
+     * {@link Thermostat.ScheduleDayOfWeek} where 7 is "away".
+     */
+    export interface WeeklyScheduleEntry {
+        dayOfWeek: number;
+        transitions: Thermostat.WeeklyScheduleTransition[];
+    }
+
+    export class Internal {
+        /** Timer checking the weekly schedule for transitions. */
+        scheduleTimer?: Timer;
+
+        /** The schedule transition applied last. */
+        lastScheduleTransition?: string;
+    }
+
+    export class State extends ThermostatServerBase.State {
+        /** The persisted weekly schedule. */
+        weeklySchedule = new Array<WeeklyScheduleEntry>();
+    }
+
+    export declare const ExtensionInterface: {
+        setLocalTemperature(temperature: number | null): void;
+        handleSystemModeChange(systemMode: Thermostat.SystemMode, oldSystemMode: Thermostat.SystemMode): MaybePromise;
+    };
+}
+
+export class ThermostatServer extends ThermostatServerLogic.for(ClusterType(Thermostat.Base)) {}
@@ -4,11 +4,402 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/*** THIS FILE WILL BE REGENERATED IF YOU DO NOT REMOVE THIS MESSAGE ***/
-
+import { Val } from "#behavior/state/Val.js";
+import { ValueSupervisor } from "#behavior/supervision/ValueSupervisor.js";
+import { TimeSynchronization } from "#clusters/time-synchronization";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { isIPv4, isIPv6, Logger, Time, Timer } from "#general";
+import { NodeLifecycle } from "#node/NodeLifecycle.js";
+import { Fabric, FabricManager, LastKnownGoodTime } from "#protocol";
+import { ClusterType, MATTER_EPOCH_OFFSET_MS, StatusCode, StatusResponseError } from "#types";
 import { TimeSynchronizationBehavior } from "./TimeSynchronizationBehavior.js";
 
+const logger = Logger.get("TimeSynchronizationServer");
+
+const TimeSynchronizationServerBase = TimeSynchronizationBehavior.with(
+    TimeSynchronization.Feature.TimeZone,
+    TimeSynchronization.Feature.NtpClient,
+    TimeSynchronization.Feature.TimeSyncClient,
+);
+
+/** Maximum delay between two evaluations of the time zone and DST offset lists. */
+const MAX_UPDATE_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+function epochUsToMs(epochUs: number | bigint) {
+    return Number(epochUs) / 1000 + MATTER_EPOCH_OFFSET_MS;
+}
+
+function msToEpochUs(ms: number) {
+    return Math.floor(ms - MATTER_EPOCH_OFFSET_MS) * 1000;
+}
+
+/**
+ * The current UTC time in ms or undefined if the node is not synchronized.
+ */
+function utcTimeMs(
+    state: { granularity: TimeSynchronization.Granularity },
+    internal: TimeSynchronizationServerLogic.Internal,
+) {
+    if (state.granularity === TimeSynchronization.Granularity.NoTimeGranularity) {
+        return undefined;
+    }
+    return Time.nowMs() + internal.utcOffsetMs;
+}
+
+/**
+ * The time zone that applies at a UTC time.  The first entry always applies until a later entry becomes valid.
+ */
+function activeTimeZone(timeZone: readonly TimeSynchronization.TimeZone[] | undefined, utcMs: number) {
+    if (!timeZone?.length) {
+        return undefined;
+    }
+    return timeZone.filter(({ validAt }) => epochUsToMs(validAt) <= utcMs).pop() ?? timeZone[0];
+}
+
+/**
+ * The DST offset that applies at a UTC time.
+ */
+function activeDstOffset(dstOffset: readonly TimeSynchronization.DstOffset[] | undefined, utcMs: number) {
+    return dstOffset?.find(
+        ({ validStarting, validUntil }) =>
+            epochUsToMs(validStarting) <= utcMs && (validUntil === null || epochUsToMs(validUntil) > utcMs),
+    );
+}
+
 /**
  * This is the default server implementation of {@link TimeSynchronizationBehavior}.
+ *
+ * The server does not modify the system clock.  Instead it maintains UTCTime as an offset over the {@link Time}
+ * abstraction that is set using the SetUTCTime command or {@link updateUtcTime}.  UTCTime is null as long as the
+ * Granularity attribute is NoTimeGranularity.  If the system clock is synchronized by other means, set Granularity
+ * and TimeSource accordingly when the cluster is initialized.
+ *
+ * With the TimeZone feature the server computes LocalTime from the TimeZone and DSTOffset lists, removes outdated
+ * entries and emits the TimeZoneStatus, DSTStatus and DSTTableEmpty events when the applicable values change.  The
+ * server has no time zone database so SetTimeZone always requests DST offsets from the client.
+ *
+ * The server does not synchronize time on its own.  Implementations with a time source such as NTP or a trusted time
+ * source of the TimeSyncClient feature should report results using {@link updateUtcTime} and
+ * {@link reportTimeFailure}.
  */
-export class TimeSynchronizationServer extends TimeSynchronizationBehavior {}
+export class TimeSynchronizationServerLogic extends TimeSynchronizationServerBase {
+    protected declare internal: TimeSynchronizationServerLogic.Internal;
+    declare state: TimeSynchronizationServerLogic.State;
+
+    override initialize() {
+        if (this.features.timeZone) {
+            const utcMs = utcTimeMs(this.state, this.internal) ?? this.env.get(LastKnownGoodTime).value.getTime();
+            const timeZone = activeTimeZone(this.state.timeZone, utcMs);
+            this.internal.timeZoneStatus = timeZone && { offset: timeZone.offset, name: timeZone.name };
+            this.internal.dstOffsetActive = activeDstOffset(this.state.dstOffset, utcMs) !== undefined;
+            this.#update();
+        }
+
+        if (this.features.timeSyncClient) {
+            const lifecycle = this.endpoint.lifecycle as NodeLifecycle;
+            if (lifecycle.isOnline) {
+                this.#nodeOnline();
+            } else {
+                this.reactTo(lifecycle.online, this.#nodeOnline);
+            }
+        }
+    }
+
+    override async [Symbol.asyncDispose]() {
+        this.internal.updateTimer?.stop();
+        await super[Symbol.asyncDispose]?.();
+    }
+
+    override setUtcTime({ utcTime, granularity }: TimeSynchronization.SetUtcTimeRequest) {
+        if (
+            granularity === TimeSynchronization.Granularity.NoTimeGranularity ||
+            (this.state.granularity !== TimeSynchronization.Granularity.NoTimeGranularity &&
+                granularity < this.state.granularity)
+        ) {
+            throw new StatusResponseError(
+                `Time with granularity ${TimeSynchronization.Granularity[granularity]} not accepted`,
+                StatusCode.Failure,
+                TimeSynchronization.StatusCode.TimeNotAccepted,
+            );
+        }
+
+        // The time source of the client is informational, our source is the administrator
+        this.updateUtcTime(epochUsToMs(utcTime), granularity, TimeSynchronization.TimeSource.Admin);
+    }
+
+    override setTrustedTimeSource({ trustedTimeSource, fabricIndex }: TimeSynchronization.SetTrustedTimeSourceRequest) {
+        this.state.trustedTimeSource =
+            trustedTimeSource === null
+                ? null
+                : { fabricIndex, nodeId: trustedTimeSource.nodeId, endpoint: trustedTimeSource.endpoint };
+
+        if (trustedTimeSource === null) {
+            this.events.missingTrustedTimeSource.emit(undefined, this.context);
+        }
+    }
+
+    override setDefaultNtp({ defaultNtp }: TimeSynchronization.SetDefaultNtpRequest) {
+        if (defaultNtp !== null && !isIPv6(defaultNtp)) {
+            if (!this.state.supportsDnsResolve || isIPv4(defaultNtp) || !HOSTNAME_PATTERN.test(defaultNtp)) {
+                throw new StatusResponseError(`Invalid default NTP server ${defaultNtp}`, StatusCode.InvalidCommand);
+            }
+        }
+
+        this.state.defaultNtp = defaultNtp;
+    }
+
+    override setTimeZone({ timeZone }: TimeSynchronization.SetTimeZoneRequest) {
+        if (timeZone.length > this.state.timeZoneListMaxSize) {
+            throw new StatusResponseError(
+                `Time zone list exceeds the maximum size of ${this.state.timeZoneListMaxSize}`,
+                StatusCode.ResourceExhausted,
+            );
+        }
+        if (timeZone[0].validAt !== 0 && timeZone[0].validAt !== 0n) {
+            throw new StatusResponseError("ValidAt of the first time zone must be 0", StatusCode.ConstraintError);
+        }
+        for (let i = 1; i < timeZone.length; i++) {
+            if (Number(timeZone[i].validAt) <= Number(timeZone[i - 1].validAt)) {
+                throw new StatusResponseError("Time zones must be ordered by ValidAt", StatusCode.ConstraintError);
+            }
+        }
+
+        // DST offsets of a previous time zone do not apply anymore
+        const previous = this.state.timeZone[0];
+        if (previous !== undefined && (previous.offset !== timeZone[0].offset || previous.name !== timeZone[0].name)) {
+            this.#clearDstOffset();
+        }
+
+        this.state.timeZone = timeZone;
+        this.#update();
+
+        return { dstOffsetsRequired: true };
+    }
+
+    override setDstOffset({ dstOffset }: TimeSynchronization.SetDstOffsetRequest) {
+        if (dstOffset.length > this.state.dstOffsetListMaxSize) {
+            throw new StatusResponseError(
+                `DST offset list exceeds the maximum size of ${this.state.dstOffsetListMaxSize}`,
+                StatusCode.ResourceExhausted,
+            );
+        }
+        dstOffset.forEach(({ validStarting, validUntil }, index) => {
+            if (validUntil === null) {
+                if (index !== dstOffset.length - 1) {
+                    throw new StatusResponseError(
+                        "Only the last DST offset may be valid indefinitely",
+                        StatusCode.ConstraintError,
+                    );
+                }
+            } else if (Number(validUntil) <= Number(validStarting)) {
+                throw new StatusResponseError(
+                    "ValidUntil of a DST offset must be after ValidStarting",
+                    StatusCode.ConstraintError,
+                );
+            }
+
+            const previousValidUntil = dstOffset[index - 1]?.validUntil;
+            if (
+                previousValidUntil !== undefined &&
+                previousValidUntil !== null &&
+                Number(validStarting) < Number(previousValidUntil)
+            ) {
+                throw new StatusResponseError(
+                    "DST offsets must be ordered and must not overlap",
+                    StatusCode.ConstraintError,
+                );
+            }
+        });
+
+        this.state.dstOffset = dstOffset;
+        this.#update();
+    }
+
+    /**
+     * Update the UTC time of the node.  Use this if the node synchronized its time with a time source.
+     *
+     * @param utcTime the current UTC time
+     * @param granularity the granularity of the time source
+     * @param timeSource the type of the time source
+     */
+    updateUtcTime(
+        utcTime: Date | number,
+        granularity: TimeSynchronization.Granularity,
+        timeSource: TimeSynchronization.TimeSource,
+    ) {
+        const utcMs = typeof utcTime === "number" ? utcTime : utcTime.getTime();
+        this.internal.utcOffsetMs = utcMs - Time.nowMs();
+        this.state.granularity = granularity;
+        if (this.state.timeSource !== undefined) {
+            this.state.timeSource = timeSource;
+        }
+        logger.info(
+            `UTC time set to ${new Date(utcMs).toISOString()} from ${TimeSynchronization.TimeSource[timeSource]}`,
+        );
+
+        this.env.get(LastKnownGoodTime).synchronize(utcMs);
+
+        this.#update();
+    }
+
+    /**
+     * Report that the node was unable to synchronize its time with any time source.  This emits the TimeFailure
+     * event.
+     */
+    reportTimeFailure() {
+        this.events.timeFailure.emit(undefined, this.context);
+    }
+
+    /**
+     * Remove outdated time zone and DST offset entries, emit events for changes of the applicable values and schedule
+     * the next evaluation.
+     */
+    #update() {
+        this.internal.updateTimer?.stop();
+
+        if (!this.features.timeZone) {
+            return;
+        }
+
+        const utcMs = utcTimeMs(this.state, this.internal);
+        if (utcMs === undefined) {
+            return;
+        }
+
+        // A time zone replaces the previous one once it becomes valid
+        const timeZone = activeTimeZone(this.state.timeZone, utcMs);
+        if (timeZone !== undefined && timeZone !== this.state.timeZone[0]) {
+            this.state.timeZone = [
+                { ...timeZone, validAt: 0 },
+                ...this.state.timeZone.slice(this.state.timeZone.indexOf(timeZone) + 1),
+            ];
+        }
+
+        // DST offsets are removed once they expired
+        const dstOffset = this.state.dstOffset.filter(
+            ({ validUntil }) => validUntil === null || epochUsToMs(validUntil) > utcMs,
+        );
+        if (dstOffset.length !== this.state.dstOffset.length) {
+            this.state.dstOffset = dstOffset;
+            if (!dstOffset.length) {
+                this.events.dstTableEmpty.emit(undefined, this.context);
+            }
+        }
+
+        if (
+            timeZone !== undefined &&
+            (this.internal.timeZoneStatus?.offset !== timeZone.offset ||
+                this.internal.timeZoneStatus?.name !== timeZone.name)
+        ) {
+            this.internal.timeZoneStatus = { offset: timeZone.offset, name: timeZone.name };
+            this.events.timeZoneStatus.emit(this.internal.timeZoneStatus, this.context);
+        }
+
+        const dstOffsetActive = activeDstOffset(dstOffset, utcMs) !== undefined;
+        if (this.internal.dstOffsetActive !== dstOffsetActive) {
+            this.internal.dstOffsetActive = dstOffsetActive;
+            this.events.dstStatus.emit({ dstOffsetActive }, this.context);
+        }
+
+        const transitions = [
+            ...this.state.timeZone.map(({ validAt }) => epochUsToMs(validAt)),
+            ...dstOffset.flatMap(({ validStarting, validUntil }) => [
+                epochUsToMs(validStarting),
+                ...(validUntil === null ? [] : [epochUsToMs(validUntil)]),
+            ]),
+        ].filter(time => time > utcMs);
+        if (!transitions.length) {
+            return;
+        }
+
+        this.internal.updateTimer = Time.getTimer(
+            "TimeSynchronization.update",
+            Math.min(Math.min(...transitions) - utcMs, MAX_UPDATE_INTERVAL_MS),
+            this.callback(this.#update),
+        ).start();
+    }
+
+    #clearDstOffset() {
+        if (this.state.dstOffset.length) {
+            this.state.dstOffset = [];
+            this.events.dstTableEmpty.emit(undefined, this.context);
+        }
+    }
+
+    #nodeOnline() {
+        const fabricManager = this.env.get(FabricManager);
+        this.reactTo(fabricManager.events.deleted, this.#handleRemovedFabric, { lock: true });
+    }
+
+    #handleRemovedFabric({ fabricIndex }: Fabric) {
+        if (this.state.trustedTimeSource?.fabricIndex === fabricIndex) {
+            this.state.trustedTimeSource = null;
+            this.events.missingTrustedTimeSource.emit(undefined, this.context);
+        }
+    }
+}
+
+export namespace TimeSynchronizationServerLogic {
+    export class Internal {
+        /** Offset of UTC to the time of {@link Time} in ms. */
+        utcOffsetMs = 0;
+
+        /** Time zone offset and name last reported via the TimeZoneStatus event. */
+        timeZoneStatus?: TimeSynchronization.TimeZoneStatusEvent;
+
+        /** DST status last reported via the DSTStatus event. */
+        dstOffsetActive?: boolean;
+
+        /** Timer for the next change of the applicable time zone or DST offset. */
+        updateTimer?: Timer;
+    }
+
+    export class State extends TimeSynchronizationServerBase.State {
+        [Val.properties](endpoint: Endpoint, _session: ValueSupervisor.Session) {
+            // Val.properties is invoked on the raw state so "this" provides the current values
+            const current = () => ({
+                state: this,
+                utcMs: utcTimeMs(this, endpoint.behaviors.internalsOf(TimeSynchronizationServerLogic)),
+            });
+
+            return {
+                /**
+                 * Dynamically calculate the UTC time.  This is ok because the attribute is not sent out via
+                 * subscriptions anyway.
+                 */
+                get utcTime() {
+                    const { utcMs } = current();
+                    return utcMs === undefined ? null : msToEpochUs(utcMs);
+                },
+
+                /**
+                 * Dynamically calculate the local time from the applicable time zone and DST offsets.
+                 */
+                get localTime() {
+                    const { state, utcMs } = current();
+                    if (utcMs === undefined) {
+                        return null;
+                    }
+                    const timeZoneOffset = activeTimeZone(state.timeZone, utcMs)?.offset ?? 0;
+                    const dstOffset = activeDstOffset(state.dstOffset, utcMs)?.offset ?? 0;
+                    return msToEpochUs(utcMs + (timeZoneOffset + dstOffset) * 1000);
+                },
+            };
+        }
+    }
+
+    export declare const ExtensionInterface: {
+        updateUtcTime(
+            utcTime: Date | number,
+            granularity: TimeSynchronization.Granularity,
+            timeSource: TimeSynchronization.TimeSource,
+        ): void;
+        reportTimeFailure(): void;
+    };
+}
+
+export class TimeSynchronizationServer extends TimeSynchronizationServerLogic.for(
+    ClusterType(TimeSynchronization.Base),
+) {}
@@ -12,11 +12,13 @@ import { ActionTracer } from "#behavior/context/ActionTracer.js";
 import { NodeActivity } from "#behavior/context/NodeActivity.js";
 import { OfflineContext } from "#behavior/context/server/OfflineContext.js";
 import { BehaviorBacking } from "#behavior/internal/BehaviorBacking.js";
-import { Val } from "#behavior/state/Val.js";
 import { Transaction } from "#behavior/state/transaction/Transaction.js";
+import { Val } from "#behavior/state/Val.js";
+import { Schema } from "#behavior/supervision/Schema.js";
 import {
     camelize,
     Construction,
+    deepCopy,
     describeList,
     Diagnostic,
     EventEmitter,
@@ -28,7 +30,7 @@ import {
     ReadOnlyError,
     UninitializedDependencyError,
 } from "#general";
-import { FeatureSet } from "#model";
+import { AttributeModel, ClusterModel, FeatureSet, Metatype, ValueModel } from "#model";
 import { ClusterType } from "#types";
 import { DescriptorServer } from "../../behaviors/descriptor/DescriptorServer.js";
 import type { Agent } from "../Agent.js";
@@ -187,6 +189,7 @@ export class Behaviors {
 
             if (trace) {
                 trace.path = this.#endpoint.path;
+                trace.input = this.#structure();
                 this.#endpoint.env.get(ActionTracer).record(trace);
             }
         };
@@ -578,8 +581,94 @@ export class Behaviors {
             enumerable: true,
         });
     }
+
+    #structure(): ActionTracer.EndpointStructure {
+        const { type } = this.#endpoint;
+        const behaviors = {} as Record<string, ActionTracer.BehaviorStructure>;
+        for (const id in this.#supported) {
+            const structure: ActionTracer.BehaviorStructure = (behaviors[id] = {});
+
+            const cluster = clusterOf(this.#supported[id]);
+            if (cluster) {
+                structure.cluster = cluster.id;
+                structure.features = Object.keys(cluster.supportedFeatures).filter(
+                    name => (cluster.supportedFeatures as Record<string, boolean>)[name],
+                );
+            }
+
+            const backing = this.#backings[id];
+            if (backing) {
+                structure.state = traceableStateOf(
+                    backing.type.supervisor.schema,
+                    backing.stateView as Record<string, unknown>,
+                );
+            }
+        }
+
+        return {
+            number: this.#endpoint.maybeNumber,
+            deviceType: type.deviceType,
+            deviceRevision: type.deviceRevision,
+            behaviors,
+        };
+    }
 }
 
 function clusterOf(behavior?: Behavior.Type): ClusterType | undefined {
     return (behavior as ClusterBehavior.Type)?.cluster;
 }
+
+/**
+ * Copy state for a trace.  Traces are not protected like storage so we only include cluster attributes and omit
+ * fabric-sensitive values.  This excludes secrets behaviors keep in state outside of the cluster such as credentials
+ * and keys.
+ */
+function traceableStateOf(schema: Schema, values: Record<string, unknown>) {
+    const state = {} as Record<string, unknown>;
+    if (!(schema instanceof ClusterModel)) {
+        return state;
+    }
+
+    for (const member of schema.activeMembers) {
+        if (!(member instanceof AttributeModel) || member.effectiveAccess.fabricSensitive) {
+            continue;
+        }
+
+        const name = camelize(member.name);
+        if (values[name] !== undefined) {
+            state[name] = redactedCopyOf(member, values[name]);
+        }
+    }
+
+    return state;
+}
+
+function redactedCopyOf(schema: ValueModel, value: unknown): unknown {
+    switch (schema.effectiveMetatype) {
+        case Metatype.array: {
+            const entry = schema.listEntry;
+            if (entry !== undefined && Array.isArray(value)) {
+                return value.map(item => redactedCopyOf(entry, item));
+            }
+            break;
+        }
+
+        case Metatype.object:
+            if (typeof value === "object" && value !== null) {
+                const members = new Map(schema.activeMembers.map(member => [camelize(member.name), member]));
+                const copy = {} as Record<string, unknown>;
+                for (const [name, fieldValue] of Object.entries(value)) {
+                    const member = members.get(name);
+                    if (member === undefined) {
+                        copy[name] = deepCopy(fieldValue);
+                    } else if (!member.effectiveAccess.fabricSensitive) {
+                        copy[name] = redactedCopyOf(member, fieldValue);
+                    }
+                }
+                return copy;
+            }
+            break;
+    }
+
+    return deepCopy(value);
+}
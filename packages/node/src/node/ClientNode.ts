@@ -5,10 +5,11 @@
  */
 
 import { CommissioningClient } from "#behavior/system/commissioning/CommissioningClient.js";
-import { NetworkRuntime } from "#behavior/system/network/NetworkRuntime.js";
+import { ClientNetworkRuntime } from "#behavior/system/network/ClientNetworkRuntime.js";
+import { NetworkClient } from "#behavior/system/network/NetworkClient.js";
 import { Agent } from "#endpoint/Agent.js";
 import { EndpointInitializer } from "#endpoint/properties/EndpointInitializer.js";
-import { Identity, Lifecycle, MaybePromise, NotImplementedError } from "#general";
+import { Identity, Lifecycle, MaybePromise } from "#general";
 import { ClientEndpointInitializer } from "./client/ClientEndpointInitializer.js";
 import { Node } from "./Node.js";
 import type { ServerNode } from "./ServerNode.js";
@@ -18,6 +19,9 @@ import type { ServerNode } from "./ServerNode.js";
  *
  * Client nodes may be peers (commissioned into a shared fabric) or commissionable, in which they are not usable until
  * you invoke {@link commissioned}.
+ *
+ * Once commissioned, {@link start} connects to the peer and populates {@link parts} with endpoints and behaviors that
+ * mirror the remote node.  State stays in sync via subscription.
  */
 export class ClientNode extends Node<ClientNode.RootEndpoint> {
     constructor(options: ClientNode.Options) {
@@ -48,8 +52,8 @@ export class ClientNode extends Node<ClientNode.RootEndpoint> {
         await this.act("commission", agent => agent.commissioning.commission(options));
     }
 
-    protected createRuntime(): NetworkRuntime {
-        throw new NotImplementedError();
+    protected createRuntime(): ClientNetworkRuntime {
+        return new ClientNetworkRuntime(this);
     }
 
     async prepareRuntimeShutdown() {}
@@ -84,7 +88,7 @@ export class ClientNode extends Node<ClientNode.RootEndpoint> {
 export namespace ClientNode {
     export interface Options extends Node.Options<RootEndpoint> {}
 
-    export const RootEndpoint = Node.CommonRootEndpoint.with(CommissioningClient);
+    export const RootEndpoint = Node.CommonRootEndpoint.with(CommissioningClient, NetworkClient);
 
     export interface RootEndpoint extends Identity<typeof RootEndpoint> {}
 }
@@ -14,7 +14,7 @@ import { Endpoint } from "#endpoint/Endpoint.js";
 import { EndpointServer } from "#endpoint/EndpointServer.js";
 import type { Environment } from "#general";
 import { Construction, DiagnosticSource, Identity, MatterError, asyncNew, errorOf } from "#general";
-import { EventHandler, FabricManager, SessionManager } from "#protocol";
+import { EventHandler, FabricManager, MdnsService, ScannerSet, SessionManager } from "#protocol";
 import { RootEndpoint as BaseRootEndpoint } from "../endpoints/root.js";
 import { Node } from "./Node.js";
 import { ClientNodes } from "./client/ClientNodes.js";
@@ -166,6 +166,24 @@ export class ServerNode<T extends ServerNode.RootEndpoint = ServerNode.RootEndpo
         return this.#nodes;
     }
 
+    /**
+     * Install the services required to connect to peers on our fabrics.
+     *
+     * This backs the {@link PeerSet} with {@link nodes} and enables mDNS discovery of operational peers so we can
+     * connect to peers we did not commission, such as OTA providers.
+     */
+    async preparePeerConnections() {
+        if (!this.#nodes) {
+            this.#nodes = new ClientNodes(this);
+            this.#nodes.initialize();
+        }
+
+        const scanners = this.env.get(ScannerSet);
+        if (!scanners.size) {
+            scanners.add((await this.env.load(MdnsService)).scanner);
+        }
+    }
+
     async advertiseNow() {
         await this.act(`advertiseNow<${this}>`, agent => agent.get(NetworkServer).advertiseNow());
     }
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
+import type { ValueSupervisor } from "#behavior/supervision/ValueSupervisor.js";
+import type { Endpoint } from "#endpoint/Endpoint.js";
+import { GeneratedClass, ImplementationError, MaybePromise, Observable } from "#general";
+import { InteractionClient } from "#protocol";
+import { ClusterType } from "#types";
+
+/**
+ * Create a {@link ClusterBehavior} that proxies to a cluster on a remote node.
+ *
+ * Commands invoke the remote command.  State changes write the remote attribute before the transaction commits, so a
+ * failed write rolls back the transaction with the {@link StatusResponseError} reported by the peer.
+ *
+ * Changes that bypass validation originate from the peer (see {@link ClientStructure}) so we do not write them back.
+ */
+export function ClientBehavior(cluster: ClusterType): ClusterBehavior.Type {
+    const base = ClusterBehavior.for(cluster);
+
+    const instanceDescriptors: PropertyDescriptorMap = {
+        initialize: {
+            value: function (this: ClusterBehavior) {
+                observeWrites(this, cluster);
+                return base.prototype.initialize.call(this);
+            },
+            writable: true,
+        },
+    };
+
+    for (const name in cluster.commands) {
+        const command = cluster.commands[name];
+        instanceDescriptors[name] = {
+            value: function (this: ClusterBehavior, request?: unknown) {
+                const { endpoint } = this;
+                return interactionFor(endpoint).invoke({
+                    endpointId: endpoint.number,
+                    clusterId: cluster.id,
+                    command,
+                    request,
+                });
+            },
+            writable: true,
+        };
+    }
+
+    return GeneratedClass({
+        name: `${base.name}$Client`,
+        base,
+        instanceDescriptors,
+    }) as ClusterBehavior.Type;
+}
+
+type ChangingObservable = Observable<
+    [value: unknown, oldValue: unknown, session?: ValueSupervisor.Session],
+    MaybePromise
+>;
+
+function observeWrites(behavior: ClusterBehavior, cluster: ClusterType) {
+    const { endpoint } = behavior;
+    const events = behavior.events as unknown as Record<string, ChangingObservable | undefined>;
+
+    for (const name in cluster.attributes) {
+        const attribute = cluster.attributes[name];
+        events[`${name}$Changing`]?.on(async (value, _oldValue, session) => {
+            if (session?.acceptInvalid) {
+                return;
+            }
+
+            await interactionFor(endpoint).setAttribute({
+                attributeData: {
+                    endpointId: endpoint.number,
+                    clusterId: cluster.id,
+                    attribute,
+                    value,
+                },
+            });
+        });
+    }
+}
+
+/**
+ * The network runtime of a connected {@link ClientNode} installs the {@link InteractionClient} in the node's
+ * environment.
+ */
+function interactionFor(endpoint: Endpoint) {
+    const client = endpoint.env.maybeGet(InteractionClient);
+    if (client === undefined) {
+        throw new ImplementationError(`Cannot interact with ${endpoint} because its node is not connected`);
+    }
+    return client;
+}
@@ -0,0 +1,378 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Behavior } from "#behavior/Behavior.js";
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
+import { NodeActivity } from "#behavior/context/NodeActivity.js";
+import { OfflineContext } from "#behavior/context/server/OfflineContext.js";
+import { Descriptor } from "#clusters/descriptor";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { EndpointType } from "#endpoint/type/EndpointType.js";
+import { Diagnostic, isDeepEqual, Logger } from "#general";
+import { Matter } from "#model";
+import { DecodedAttributeReportValue, DecodedEventReportValue } from "#protocol";
+import { ClusterId, ClusterRegistry, ClusterType, EndpointNumber } from "#types";
+import type { ClientNode } from "../ClientNode.js";
+import { ClientBehavior } from "./ClientBehavior.js";
+
+const logger = Logger.get("ClientStructure");
+
+/**
+ * Attributes that change the shape of a client behavior.
+ */
+const STRUCTURAL_ATTRIBUTES = new Set(["featureMap", "attributeList", "acceptedCommandList", "clusterRevision"]);
+
+/**
+ * Attributes of the descriptor that change the endpoint structure.
+ */
+const STRUCTURAL_DESCRIPTOR_ATTRIBUTES = new Set(["partsList", "serverList", "deviceTypeList"]);
+
+/**
+ * Behavior types are immutable so we share them across nodes with the same cluster configuration.
+ */
+const behaviorTypes = new Map<string, Behavior.Type>();
+
+/**
+ * Maintains the {@link Endpoint}s and client behaviors of a {@link ClientNode} from attribute data of the remote node.
+ *
+ * The remote Descriptor cluster defines the structure.  We create a child {@link Endpoint} for each remote endpoint and
+ * a {@link ClientBehavior} for each server cluster with the features the remote node reports.  Attribute values
+ * populate behavior state.
+ */
+export class ClientStructure {
+    #node: ClientNode;
+    #endpoints = new Map<EndpointNumber, Endpoint>();
+    #clusters = new Map<Endpoint, Map<ClusterId, Behavior.Type>>();
+
+    constructor(node: ClientNode) {
+        this.#node = node;
+        this.#endpoints.set(EndpointNumber(0), node);
+    }
+
+    /**
+     * Synchronize the structure with a complete set of attribute values.
+     *
+     * Creates and updates endpoints and behaviors and removes endpoints the remote node no longer reports.
+     */
+    async update(reports: DecodedAttributeReportValue<any>[]) {
+        const data = new Map<EndpointNumber, Map<ClusterId, Record<string, unknown>>>();
+        for (const {
+            path: { endpointId, clusterId, attributeName },
+            value,
+        } of reports) {
+            let endpointData = data.get(endpointId);
+            if (endpointData === undefined) {
+                data.set(endpointId, (endpointData = new Map()));
+            }
+            let clusterData = endpointData.get(clusterId);
+            if (clusterData === undefined) {
+                endpointData.set(clusterId, (clusterData = {}));
+            }
+            clusterData[attributeName] = value;
+        }
+
+        const parents = parentsOf(data);
+
+        // Remove endpoints that disappeared or moved
+        for (const [number, endpoint] of this.#endpoints) {
+            if (number === 0) {
+                continue;
+            }
+            const parent = parents.get(number);
+            if (parent === undefined || this.#endpoints.get(parent) !== endpoint.owner) {
+                await this.#delete(number, endpoint);
+            }
+        }
+
+        // Create endpoints top-down so parents exist before children
+        for (const number of [...data.keys()].sort((a, b) => depthOf(a, parents) - depthOf(b, parents))) {
+            const clusters = data.get(number)!;
+            let endpoint = this.#endpoints.get(number);
+
+            if (endpoint !== undefined && number !== 0 && !this.#isCompatible(endpoint, clusters)) {
+                await this.#delete(number, endpoint);
+                endpoint = undefined;
+            }
+
+            if (endpoint === undefined) {
+                const parent = this.#endpoints.get(parents.get(number) ?? EndpointNumber(0));
+                if (parent === undefined) {
+                    logger.warn(`${this.#node}: Ignoring endpoint ${number} because its parent is unknown`);
+                    continue;
+                }
+                endpoint = await this.#create(number, parent, clusters);
+            } else {
+                this.#require(endpoint, clusters);
+            }
+
+            await this.#apply(endpoint, clusters);
+        }
+    }
+
+    /**
+     * Apply a changed attribute value.
+     *
+     * Returns true if the change affects structure, in which case you must invoke {@link update} with a complete set
+     * of attribute values.
+     */
+    async applyChange({ path: { endpointId, clusterId, attributeName }, value }: DecodedAttributeReportValue<any>) {
+        if (
+            STRUCTURAL_ATTRIBUTES.has(attributeName) ||
+            (clusterId === Descriptor.Cluster.id && STRUCTURAL_DESCRIPTOR_ATTRIBUTES.has(attributeName))
+        ) {
+            const current = this.#behaviorFor(endpointId, clusterId);
+            if (current === undefined || !isDeepEqual(this.#stateOf(endpointId, current)?.[attributeName], value)) {
+                return true;
+            }
+        }
+
+        const endpoint = this.#endpoints.get(endpointId);
+        if (endpoint === undefined) {
+            return true;
+        }
+
+        await this.#apply(endpoint, new Map([[clusterId, { [attributeName]: value }]]));
+        return false;
+    }
+
+    /**
+     * Emit events reported by the remote node on the corresponding client behaviors.
+     */
+    async emitEvent({ path: { endpointId, clusterId, eventName }, events }: DecodedEventReportValue<any>) {
+        const type = this.#behaviorFor(endpointId, clusterId);
+        if (type === undefined) {
+            return;
+        }
+
+        const emitter = this.#endpoints.get(endpointId)!.eventsOf(type);
+        if (!emitter.eventNames.includes(eventName)) {
+            return;
+        }
+
+        for (const event of events) {
+            emitter.emit(eventName, event.data, event);
+        }
+    }
+
+    #behaviorFor(endpointId: EndpointNumber, clusterId: ClusterId) {
+        const endpoint = this.#endpoints.get(endpointId);
+        if (endpoint === undefined) {
+            return;
+        }
+        return this.#clusters.get(endpoint)?.get(clusterId);
+    }
+
+    #stateOf(endpointId: EndpointNumber, type: Behavior.Type) {
+        return this.#endpoints.get(endpointId)?.stateOf(type) as Record<string, unknown> | undefined;
+    }
+
+    async #create(number: EndpointNumber, parent: Endpoint, clusters: Map<ClusterId, Record<string, unknown>>) {
+        const deviceTypeList = (clusters.get(Descriptor.Cluster.id)?.deviceTypeList ?? []) as Descriptor.DeviceType[];
+        const deviceType = deviceTypeList[0];
+        const name = Matter.deviceTypes.find(dt => dt.id === deviceType?.deviceType)?.name ?? "Unknown";
+
+        const type = EndpointType({
+            name,
+            deviceType: deviceType?.deviceType ?? 0,
+            deviceRevision: deviceType?.revision ?? 0,
+            behaviors: Object.fromEntries(this.#typesFor(clusters).map(type => [type.id, type])),
+        });
+
+        const endpoint = new Endpoint({ type, id: `ep${number}`, number });
+        this.#endpoints.set(number, endpoint);
+        this.#clusters.set(endpoint, this.#clusterIndexOf(clusters));
+
+        await parent.add(endpoint);
+        return endpoint;
+    }
+
+    async #delete(number: EndpointNumber, endpoint: Endpoint) {
+        for (const [otherNumber, other] of this.#endpoints) {
+            if (other.owner === endpoint) {
+                await this.#delete(otherNumber, other);
+            }
+        }
+
+        this.#endpoints.delete(number);
+        this.#clusters.delete(endpoint);
+        if (endpoint.lifecycle.isInstalled) {
+            await endpoint.delete();
+        }
+    }
+
+    /**
+     * Add behaviors for clusters that are new to an endpoint.
+     */
+    #require(endpoint: Endpoint, clusters: Map<ClusterId, Record<string, unknown>>) {
+        const index = this.#clusters.get(endpoint) ?? new Map<ClusterId, Behavior.Type>();
+        for (const type of this.#typesFor(clusters)) {
+            const clusterId = (type as ClusterBehavior.Type).cluster.id;
+            const current = index.get(clusterId);
+            if (current === type) {
+                continue;
+            }
+            if (current !== undefined) {
+                if (current !== endpoint.type.behaviors[type.id]) {
+                    logger.warn(`${endpoint}: Cannot change features of ${type.id} without reconnecting`);
+                }
+                continue;
+            }
+
+            // The node's root endpoint type predefines some behaviors such as the descriptor; mirror into those
+            const predefined = endpoint.behaviors.supported[type.id];
+            if (predefined !== undefined && !endpoint.behaviors.has(type)) {
+                index.set(clusterId, predefined);
+                continue;
+            }
+
+            endpoint.behaviors.require(type);
+            index.set(clusterId, type);
+        }
+        this.#clusters.set(endpoint, index);
+    }
+
+    /**
+     * Determine whether an endpoint supports the remote clusters without changing existing behaviors.
+     */
+    #isCompatible(endpoint: Endpoint, clusters: Map<ClusterId, Record<string, unknown>>) {
+        const index = this.#clusters.get(endpoint);
+        if (index === undefined) {
+            return false;
+        }
+        const types = this.#clusterIndexOf(clusters);
+        if (types.size !== index.size) {
+            return false;
+        }
+        for (const [clusterId, type] of types) {
+            if (index.get(clusterId) !== type) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Write remote values into behavior state.  The remote node is authoritative so we accept values that do not
+     * validate locally.
+     */
+    async #apply(endpoint: Endpoint, clusters: Map<ClusterId, Record<string, unknown>>) {
+        const index = this.#clusters.get(endpoint);
+        if (index === undefined) {
+            return;
+        }
+
+        await OfflineContext.act(
+            "remote-update",
+            this.#node.env.get(NodeActivity),
+            context => {
+                const agent = context.agentFor(endpoint);
+                for (const [clusterId, values] of clusters) {
+                    const type = index.get(clusterId);
+                    if (type === undefined) {
+                        continue;
+                    }
+
+                    const state = agent.get(type).state as Record<string, unknown>;
+                    for (const name in values) {
+                        if (!(name in state)) {
+                            continue;
+                        }
+                        try {
+                            state[name] = values[name];
+                        } catch (e) {
+                            logger.debug(`Ignoring value of ${endpoint}.${type.id}.${name}:`, e);
+                        }
+                    }
+                }
+            },
+            { acceptInvalid: true },
+        );
+    }
+
+    #clusterIndexOf(clusters: Map<ClusterId, Record<string, unknown>>) {
+        return new Map(this.#typesFor(clusters).map(type => [(type as ClusterBehavior.Type).cluster.id, type]));
+    }
+
+    /**
+     * Determine the behaviors for the server clusters of an endpoint.
+     */
+    #typesFor(clusters: Map<ClusterId, Record<string, unknown>>) {
+        const serverList = (clusters.get(Descriptor.Cluster.id)?.serverList ?? [...clusters.keys()]) as ClusterId[];
+
+        const types = new Array<Behavior.Type>();
+        for (const clusterId of serverList) {
+            const type = behaviorFor(clusterId, clusters.get(clusterId)?.featureMap as Record<string, boolean>);
+            if (type !== undefined) {
+                types.push(type);
+            }
+        }
+        return types;
+    }
+}
+
+/**
+ * Obtain a client behavior for a cluster with specific features.
+ */
+function behaviorFor(clusterId: ClusterId, featureMap: Record<string, boolean> = {}) {
+    const supportedFeatures = Object.fromEntries(Object.entries(featureMap).filter(([, enabled]) => enabled));
+    const key = `${clusterId}:${Object.keys(supportedFeatures).sort().join(",")}`;
+
+    let type = behaviorTypes.get(key);
+    if (type !== undefined) {
+        return type;
+    }
+
+    const cluster = ClusterRegistry.get(clusterId);
+    if (cluster === undefined) {
+        logger.debug(`Ignoring unknown cluster ${Diagnostic.hex(clusterId)}`);
+        return;
+    }
+
+    type = ClientBehavior(ClusterType({ ...cluster, supportedFeatures }));
+    behaviorTypes.set(key, type);
+    return type;
+}
+
+/**
+ * Determine the parent of each endpoint from descriptor parts lists.
+ *
+ * Parts lists may be flat (the "full-family" pattern) so the parent is the endpoint with the smallest parts list that
+ * contains the child.
+ */
+function parentsOf(data: Map<EndpointNumber, Map<ClusterId, Record<string, unknown>>>) {
+    const partsLists = new Map<EndpointNumber, EndpointNumber[]>();
+    for (const [number, clusters] of data) {
+        const partsList = clusters.get(Descriptor.Cluster.id)?.partsList as EndpointNumber[] | undefined;
+        partsLists.set(number, partsList ?? []);
+    }
+
+    const parents = new Map<EndpointNumber, EndpointNumber>();
+    for (const number of data.keys()) {
+        if (number === 0) {
+            continue;
+        }
+
+        let parent = EndpointNumber(0);
+        let parentSize = Infinity;
+        for (const [candidate, partsList] of partsLists) {
+            if (candidate !== number && partsList.includes(number) && partsList.length < parentSize) {
+                parent = candidate;
+                parentSize = partsList.length;
+            }
+        }
+        parents.set(number, parent);
+    }
+
+    return parents;
+}
+
+function depthOf(number: EndpointNumber, parents: Map<EndpointNumber, EndpointNumber>) {
+    let depth = 0;
+    for (let parent = parents.get(number); parent !== undefined && depth < parents.size; parent = parents.get(parent)) {
+        depth++;
+    }
+    return depth;
+}
@@ -5,7 +5,6 @@
  */
 
 import { RemoteDescriptor } from "#behavior/system/commissioning/RemoteDescriptor.js";
-import { InternalError } from "#general";
 import { ServerNode } from "#node/ServerNode.js";
 import { OperationalPeer, PeerAddress, PeerAddressStore, PeerDataStore } from "#protocol";
 
@@ -31,6 +30,7 @@ export class NodePeerStore extends PeerAddressStore {
                     address: commissioning.peerAddress,
                     operationalAddress: commissioning.addresses?.find(addr => addr.type === "udp"),
                     discoveryData: RemoteDescriptor.fromLongForm(commissioning),
+                    icdRegistration: commissioning.icdRegistration,
                 };
             })
             .filter(addr => addr !== undefined);
@@ -49,6 +49,7 @@ export class NodePeerStore extends PeerAddressStore {
                 // TODO - modify lower tiers to pass along full set of operational addresses
                 state.addresses = [peer.operationalAddress];
             }
+            state.icdRegistration = peer.icdRegistration;
         });
     }
 
@@ -60,7 +61,8 @@ export class NodePeerStore extends PeerAddressStore {
         }
     }
 
-    async createNodeStore(): Promise<PeerDataStore> {
-        throw new InternalError("Node store creation not supported");
+    async createNodeStore(): Promise<PeerDataStore | undefined> {
+        // We do not cache data of peers we connect to without a client node, such as OTA providers
+        return undefined;
     }
 }
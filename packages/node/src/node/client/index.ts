@@ -4,7 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./ClientBehavior.js";
 export * from "./ClientEndpointInitializer.js";
 export * from "./ClientNodes.js";
+export * from "./ClientStructure.js";
 export * from "./NodePeerStore.js";
 export * from "./storage/index.js";
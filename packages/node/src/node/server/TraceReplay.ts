@@ -0,0 +1,351 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Behavior } from "#behavior/Behavior.js";
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
+import { ActionTracer } from "#behavior/context/ActionTracer.js";
+import { NodeActivity } from "#behavior/context/NodeActivity.js";
+import { OfflineContext } from "#behavior/context/server/OfflineContext.js";
+import { DescriptorServer } from "#behaviors/descriptor";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { EndpointType } from "#endpoint/type/EndpointType.js";
+import {
+    capitalize,
+    Environment,
+    ImplementationError,
+    Logger,
+    StorageBackendMemory,
+    StorageService,
+    SupportedStorageTypes,
+    toJson,
+} from "#general";
+import { FeatureSet, Matter } from "#model";
+import { ClusterId, ClusterRegistry, ClusterType, StatusCode } from "#types";
+import type { Node } from "../Node.js";
+import { ServerNode } from "../ServerNode.js";
+
+const logger = Logger.get("TraceReplay");
+
+// The node requires its own descriptor implementation on every endpoint
+const CHILD_DEFAULTS = { descriptor: DescriptorServer };
+
+/**
+ * Replays actions recorded by an {@link ActionTracer}.
+ *
+ * The replay builds a {@link ServerNode} from the recorded initialization, then applies recorded writes and invokes in
+ * order.  It compares the resulting status, mutations and command output with the recorded values and reports
+ * differences as {@link TraceReplay.Divergence}s.
+ *
+ * Behavior implementations come from {@link TraceReplay.Options.behaviors}, matched by ID.  Clusters without an
+ * implementation replay with the default {@link ClusterBehavior} which does not implement commands.
+ *
+ * Actions replay offline so access control and fabric scoping do not apply.
+ */
+export class TraceReplay {
+    #actions: TraceReplay.RecordedAction[];
+    #behaviors: Record<string, Behavior.Type> = {};
+    #environment: Environment;
+    #endpoints = new Map<string, Endpoint>();
+    #node?: ServerNode;
+
+    constructor(actions: TraceReplay.RecordedAction[], options: TraceReplay.Options = {}) {
+        this.#actions = actions;
+
+        for (const type of options.behaviors ?? []) {
+            this.#behaviors[type.id] = type;
+        }
+
+        // Isolate the replay from persistent storage and any tracer in the parent environment
+        this.#environment = new Environment("replay", options.environment);
+        const storage = new StorageService(this.#environment, () => new StorageBackendMemory());
+        storage.location = "(memory)";
+        this.#environment.set(ActionTracer, new DiscardingTracer());
+    }
+
+    /**
+     * The node built from the trace.  Available after {@link run}.
+     */
+    get node() {
+        if (this.#node === undefined) {
+            throw new ImplementationError("Trace replay has not run");
+        }
+        return this.#node;
+    }
+
+    /**
+     * Build the node and replay all actions.
+     */
+    async run(): Promise<TraceReplay.Report> {
+        const report: TraceReplay.Report = { replayed: 0, skipped: 0, divergences: [] };
+
+        await this.#build(this.#actions.filter(action => action.type === ActionTracer.ActionType.Initialize));
+
+        for (let index = 0; index < this.#actions.length; index++) {
+            const action = this.#actions[index];
+            switch (action.type) {
+                case ActionTracer.ActionType.Write:
+                case ActionTracer.ActionType.Invoke:
+                    report.divergences.push(...(await this.#replay(index, action)));
+                    report.replayed++;
+                    break;
+
+                case ActionTracer.ActionType.Initialize:
+                    break;
+
+                default:
+                    report.skipped++;
+                    break;
+            }
+        }
+
+        return report;
+    }
+
+    async close() {
+        await this.#node?.close();
+    }
+
+    async #build(initialization: TraceReplay.RecordedAction[]) {
+        const [root, ...parts] = initialization
+            .filter(action => action.path !== undefined)
+            .sort((a, b) => segmentsOf(a.path).length - segmentsOf(b.path).length);
+
+        if (root === undefined || segmentsOf(root.path).length !== 1) {
+            throw new ImplementationError("Trace does not include initialization of the node");
+        }
+
+        const rootStructure = structureOf(root);
+        const rootType = ServerNode.RootEndpoint.with(
+            ...this.#typesFor(rootStructure, ServerNode.RootEndpoint.behaviors).filter(
+                type =>
+                    ServerNode.RootEndpoint.behaviors[type.id as keyof ServerNode.RootEndpoint["behaviors"]] !== type,
+            ),
+        );
+
+        const node = await ServerNode.create({
+            type: rootType,
+            id: root.path,
+            environment: this.#environment,
+            ...initialStateOf(rootStructure),
+        } as Partial<Node.Configuration<ServerNode.RootEndpoint>>);
+        this.#node = node;
+        this.#endpoints.set(root.path!, node);
+
+        for (const action of parts) {
+            const segments = segmentsOf(action.path);
+            const owner = this.#endpoints.get(segments.slice(0, -1).join("."));
+            if (owner === undefined) {
+                logger.warn(`Not replaying endpoint ${action.path} because its owner is unknown`);
+                continue;
+            }
+
+            const structure = structureOf(action);
+            const type = EndpointType({
+                name: Matter.deviceTypes.find(dt => dt.id === structure.deviceType)?.name ?? "Unknown",
+                deviceType: structure.deviceType,
+                deviceRevision: structure.deviceRevision,
+                behaviors: Object.fromEntries(this.#typesFor(structure, CHILD_DEFAULTS).map(type => [type.id, type])),
+            });
+
+            const endpoint = new Endpoint({
+                type,
+                id: segments[segments.length - 1],
+                number: structure.number,
+                ...initialStateOf(structure),
+            } as Endpoint.Configuration);
+            await owner.add(endpoint);
+            this.#endpoints.set(action.path!, endpoint);
+        }
+    }
+
+    async #replay(index: number, action: TraceReplay.RecordedAction) {
+        const divergences = new Array<TraceReplay.Divergence>();
+
+        const segments = segmentsOf(action.path);
+        const name = segments[segments.length - 1];
+        const behaviorId = segments[segments.length - 2];
+        const endpoint = this.#endpoints.get(segments.slice(0, -2).join("."));
+        const type = endpoint?.behaviors.supported[behaviorId];
+        if (endpoint === undefined || type === undefined) {
+            divergences.push({ index, action, aspect: "target", expected: action.path, actual: undefined });
+            return divergences;
+        }
+
+        const trace: ActionTracer.Action = { type: action.type };
+        let status: StatusCode | undefined;
+        try {
+            await OfflineContext.act(
+                `replay<${action.path}>`,
+                this.node.env.get(NodeActivity),
+                async context => {
+                    const behavior = context.agentFor(endpoint).get(type) as unknown as Record<string, unknown>;
+                    if (action.type === ActionTracer.ActionType.Write) {
+                        (behavior.state as Record<string, unknown>)[name] = action.input;
+                    } else {
+                        const output = await (behavior[name] as (request: unknown) => unknown)(action.input);
+                        if (output !== undefined) {
+                            trace.output = output as ActionTracer.Action["output"];
+                        }
+                    }
+                },
+                { trace },
+            );
+        } catch (e) {
+            // Mirror the tracer which only records status codes
+            const code = (e as { code?: unknown }).code;
+            if (typeof code === "number") {
+                status = code;
+            }
+            logger.debug(`Replay of ${action.path} failed:`, e);
+        }
+
+        if (status !== action.status) {
+            divergences.push({ index, action, aspect: "status", expected: action.status, actual: status });
+        }
+
+        const mutations = trace.mutations?.map(({ path, values }) => ({ path: path.toString(), values }));
+        if (!isEquivalent(mutations, action.mutations)) {
+            divergences.push({ index, action, aspect: "mutations", expected: action.mutations, actual: mutations });
+        }
+
+        if (action.type === ActionTracer.ActionType.Invoke && !isEquivalent(trace.output, action.output)) {
+            divergences.push({ index, action, aspect: "output", expected: action.output, actual: trace.output });
+        }
+
+        return divergences;
+    }
+
+    /**
+     * Determine behavior implementations for a recorded endpoint.
+     */
+    #typesFor(structure: ActionTracer.EndpointStructure, defaults: Record<string, Behavior.Type | undefined> = {}) {
+        const types = new Array<Behavior.Type>();
+
+        for (const id in structure.behaviors) {
+            const { cluster: clusterId, features = [] } = structure.behaviors[id];
+            let type = this.#behaviors[id] ?? defaults[id];
+
+            if (clusterId === undefined) {
+                if (type !== undefined) {
+                    types.push(type);
+                }
+                continue;
+            }
+
+            if (type === undefined) {
+                const cluster = ClusterRegistry.get(ClusterId(clusterId));
+                if (cluster === undefined) {
+                    logger.warn(`Not replaying unknown cluster ${id}`);
+                    continue;
+                }
+                logger.info(`Replaying ${id} without implementation`);
+                types.push(
+                    ClusterBehavior.for(
+                        ClusterType({
+                            ...cluster,
+                            supportedFeatures: Object.fromEntries(features.map(name => [name, true])),
+                        }),
+                    ),
+                );
+                continue;
+            }
+
+            const clusterType = type as ClusterBehavior.Type;
+            if (!new FeatureSet(clusterType.cluster.supportedFeatures).is(new FeatureSet(features))) {
+                type = clusterType.with(...(features.map(capitalize) as []));
+            }
+            types.push(type);
+        }
+
+        return types;
+    }
+}
+
+export namespace TraceReplay {
+    export interface Options {
+        /**
+         * Behavior implementations to use when building the node.
+         */
+        behaviors?: Behavior.Type[];
+
+        /**
+         * The parent environment of the replayed node.
+         */
+        environment?: Environment;
+    }
+
+    /**
+     * An {@link ActionTracer.Action} as read from a trace file.  Paths are strings.
+     */
+    export interface RecordedAction {
+        type: ActionTracer.ActionType;
+        path?: string;
+        status?: StatusCode;
+        input?: unknown;
+        mutations?: { path: string; values: Record<string, unknown> }[];
+        output?: unknown;
+    }
+
+    /**
+     * A difference between a recorded action and its replay.
+     */
+    export interface Divergence {
+        /**
+         * The index of the action in the trace.
+         */
+        index: number;
+
+        action: RecordedAction;
+
+        /**
+         * What differs.  "target" means the replay could not locate the attribute or command.
+         */
+        aspect: "target" | "status" | "mutations" | "output";
+
+        expected: unknown;
+        actual: unknown;
+    }
+
+    export interface Report {
+        replayed: number;
+        skipped: number;
+        divergences: Divergence[];
+    }
+}
+
+class DiscardingTracer extends ActionTracer {
+    record() {}
+}
+
+function segmentsOf(path?: string) {
+    return path?.split(".") ?? [];
+}
+
+function structureOf(action: TraceReplay.RecordedAction) {
+    const structure = action.input as ActionTracer.EndpointStructure | undefined;
+    if (typeof structure?.behaviors !== "object") {
+        throw new ImplementationError(`Initialization of ${action.path} does not record endpoint structure`);
+    }
+    return structure;
+}
+
+function initialStateOf(structure: ActionTracer.EndpointStructure) {
+    const state = {} as Record<string, Record<string, unknown>>;
+    for (const id in structure.behaviors) {
+        const values = structure.behaviors[id].state;
+        if (values !== undefined && Object.keys(values).length) {
+            state[id] = values;
+        }
+    }
+    return state;
+}
+
+/**
+ * Compare values in serialized form so recorded values compare equal to the values they were recorded from.
+ */
+function isEquivalent(actual: unknown, expected: unknown) {
+    return toJson(actual as SupportedStorageTypes) === toJson(expected as SupportedStorageTypes);
+}
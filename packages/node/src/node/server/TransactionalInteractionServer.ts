@@ -5,6 +5,7 @@
  */
 
 import { AccessControl } from "#behavior/AccessControl.js";
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
 import { ActionContext } from "#behavior/context/ActionContext.js";
 import { ActionTracer } from "#behavior/context/ActionTracer.js";
 import { NodeActivity } from "#behavior/context/NodeActivity.js";
@@ -37,7 +38,7 @@ import {
     WriteRequest,
     WriteResponse,
 } from "#protocol";
-import { TlvEventFilter, TypeFromSchema } from "#types";
+import { ClusterId, TlvEventFilter, TypeFromSchema } from "#types";
 import { AccessControlServer } from "../../behaviors/access-control/AccessControlServer.js";
 import { ServerNode } from "../ServerNode.js";
 
@@ -79,8 +80,8 @@ export class TransactionalInteractionServer extends InteractionServer {
             structure,
             subscriptionOptions: endpoint.state.network.subscriptionOptions,
             maxPathsPerInvoke: endpoint.state.basicInformation.maxPathsPerInvoke,
-            initiateExchange: (address, protocolId) =>
-                endpoint.env.get(ExchangeManager).initiateExchange(address, protocolId),
+            initiateExchange: (address, protocolId, options) =>
+                endpoint.env.get(ExchangeManager).initiateExchange(address, protocolId, options),
         });
     }
 
@@ -232,8 +233,13 @@ export class TransactionalInteractionServer extends InteractionServer {
         timed = false,
         isListWrite?: boolean,
     ) {
-        const writeAttribute = () =>
-            super.writeAttribute(path, attribute, value, exchange, message, endpoint, timed, isListWrite);
+        const writeAttribute = (context: ActionContext) => {
+            if (context.trace) {
+                context.trace.path = tracePathFor(endpoint, path.clusterId, attribute.name);
+                context.trace.input = value;
+            }
+            return super.writeAttribute(path, attribute, value, exchange, message, endpoint, timed, isListWrite);
+        };
 
         if (path.endpointId === 0 && path.clusterId === AclClusterId && path.attributeId === AclAttributeId) {
             // This is a hack to prevent the ACL from updating while we are in the middle of a write transaction
@@ -274,7 +280,22 @@ export class TransactionalInteractionServer extends InteractionServer {
                     `Access to ${endpoint.number}/${Diagnostic.hex(path.clusterId)} denied on ${exchange.session.name}.`,
                 );
             }
-            return super.invokeCommand(path, command, exchange, commandFields, message, endpoint, timed);
+
+            if (!context.trace) {
+                return super.invokeCommand(path, command, exchange, commandFields, message, endpoint, timed);
+            }
+
+            const { trace } = context;
+            trace.path = tracePathFor(endpoint, path.clusterId, command.name);
+            trace.input = command.requestSchema.decodeTlv(commandFields);
+            return super
+                .invokeCommand(path, command, exchange, commandFields, message, endpoint, timed)
+                .then(result => {
+                    if (result.response.length) {
+                        trace.output = command.responseSchema.decodeTlv(result.response);
+                    }
+                    return result;
+                });
         };
 
         return OnlineContext({
@@ -302,3 +323,14 @@ export class TransactionalInteractionServer extends InteractionServer {
         }
     }
 }
+
+/**
+ * Traces identify attributes and commands by behavior ID and element name, the same way they identify mutations.
+ */
+function tracePathFor(endpoint: EndpointInterface, clusterId: ClusterId, name: string) {
+    const { endpoint: target } = endpoint as EndpointServer;
+    const behavior = Object.values(target.behaviors.supported).find(
+        type => (type as ClusterBehavior.Type).cluster?.id === clusterId,
+    );
+    return target.path.at(behavior?.id ?? Diagnostic.hex(clusterId)).at(name);
+}
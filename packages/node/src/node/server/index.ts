@@ -5,4 +5,5 @@
  */
 
 export * from "./ServerEndpointInitializer.js";
+export * from "./TraceReplay.js";
 export * from "./TransactionalInteractionServer.js";
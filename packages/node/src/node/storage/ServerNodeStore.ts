@@ -11,9 +11,11 @@ import {
     Environment,
     ImplementationError,
     Logger,
+    StorageContext,
     StorageManager,
     StorageService,
 } from "#general";
+import { LastKnownGoodTime } from "#protocol";
 import { ClientStoreFactory, ClientStoreService } from "./ClientStoreService.js";
 import { NodeStore } from "./NodeStore.js";
 
@@ -29,6 +31,7 @@ export class ServerNodeStore extends NodeStore implements Destructable {
     #location: string;
     #storageManager?: StorageManager;
     #clientStores?: ClientStoreFactory;
+    #lastKnownGoodTime?: StorageContext;
 
     constructor(environment: Environment, nodeId: string) {
         super({
@@ -56,6 +59,9 @@ export class ServerNodeStore extends NodeStore implements Destructable {
     async close() {
         await this.construction.close(async () => {
             await this.#clientStores?.close();
+            if (this.#lastKnownGoodTime) {
+                this.#env.get(LastKnownGoodTime).detach(this.#lastKnownGoodTime);
+            }
             await this.#storageManager?.close();
             this.#logChange("Closed");
         });
@@ -75,6 +81,9 @@ export class ServerNodeStore extends NodeStore implements Destructable {
 
         this.#clientStores = await asyncNew(ClientStoreFactory, this.#storageManager.createContext("nodes"));
 
+        this.#lastKnownGoodTime = this.#storageManager.createContext("lastKnownGoodTime");
+        await this.#env.get(LastKnownGoodTime).attach(this.#lastKnownGoodTime);
+
         await super.initializeStorage();
 
         this.#logChange("Opened");
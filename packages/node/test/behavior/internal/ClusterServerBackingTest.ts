@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
 import { NetworkServer } from "#behavior/system/network/NetworkServer.js";
 import { NetworkCommissioningServer } from "#behaviors/network-commissioning";
 import { OnOffServer } from "#behaviors/on-off";
@@ -14,7 +15,15 @@ import { OnOff } from "#clusters/on-off";
 import { OperationalCredentials } from "#clusters/operational-credentials";
 import { OnOffLightDevice } from "#devices/on-off-light";
 import { Bytes } from "#general";
-import { AcceptedCommandList, FeatureMap, GeneratedCommandList, Specification } from "#model";
+import {
+    AcceptedCommandList,
+    ChipXml,
+    ClusterModel,
+    FeatureMap,
+    GeneratedCommandList,
+    Matter,
+    Specification,
+} from "#model";
 import {
     ExchangeManager,
     Fabric,
@@ -29,6 +38,7 @@ import {
 import {
     AttributeId,
     ClusterId,
+    ClusterRegistry,
     CommandId,
     EndpointNumber,
     FabricIndex,
@@ -48,6 +58,8 @@ import {
     TlvStatusResponse,
     TlvSubjectId,
     TlvSubscribeRequest,
+    TlvUInt16,
+    TlvUInt32,
     TlvWriteRequest,
     TypeFromSchema,
     VendorId,
@@ -203,6 +215,22 @@ async function performSubscribe(
     await interactionServer.handleSubscribeRequest(exchange, request, BarelyMockedMessenger, BarelyMockedMessage);
 }
 
+const COUNTER_XML = `
+<configurator>
+    <cluster>
+        <name>Counter</name>
+        <code>0xFFF1FC02</code>
+        <attribute side="server" code="0x0000" type="int32u" default="3">Count</attribute>
+        <command source="client" code="0x00" name="Add" response="AddResponse" optional="false">
+            <arg name="Amount" type="int16u"/>
+        </command>
+        <command source="server" code="0x01" name="AddResponse" optional="false">
+            <arg name="Total" type="int32u"/>
+        </command>
+    </cluster>
+</configurator>
+`;
+
 // This is AccessControl.AccessControlEntryStruct but not sure how to remove fabric index from payload so just
 // redefining for now
 const AcesWithoutFabric = TlvObject({
@@ -434,6 +462,86 @@ describe("ClusterServerBacking", () => {
         });
     });
 
+    it("serves custom clusters loaded from XML", async () => {
+        const [model] = ChipXml.clustersOf(COUNTER_XML);
+
+        class CounterServer extends ClusterBehavior.for(model) {
+            add({ amount }: { amount: number }) {
+                const state = this.state as { count: number };
+                state.count += amount;
+                return { total: state.count };
+            }
+        }
+
+        const node = await MockServerNode.createOnline({ device: OnOffLightDevice.with(CounterServer) });
+        const fabric = await createFabric(node, 1);
+
+        const count = await performRead(node, fabric, false, {
+            endpointId: EndpointNumber(1),
+            clusterId: ClusterId(0xfff1fc02),
+            attributeId: AttributeId(0),
+        });
+        expect(count).equals(3);
+
+        let sent: undefined | TypeFromSchema<typeof TlvInvokeResponseData>;
+        await performInvoke(
+            node,
+            fabric,
+            {
+                commandPath: {
+                    endpointId: EndpointNumber(1),
+                    clusterId: ClusterId(0xfff1fc02),
+                    commandId: CommandId(0),
+                },
+                commandFields: TlvObject({ amount: TlvField(0, TlvUInt16) }).encodeTlv({ amount: 4 }),
+            },
+            response => {
+                sent = response;
+            },
+        );
+
+        expect(sent?.command?.commandPath.commandId).equals(1);
+        expect(TlvObject({ total: TlvField(0, TlvUInt32) }).decodeTlv(sent!.command!.commandFields!)).deep.equals({
+            total: 7,
+        });
+
+        const newCount = await performRead(node, fabric, false, {
+            endpointId: EndpointNumber(1),
+            clusterId: ClusterId(0xfff1fc02),
+            attributeId: AttributeId(0),
+        });
+        expect(newCount).equals(7);
+
+        await node.close();
+    });
+
+    it("does not install custom clusters globally", () => {
+        const [model] = ChipXml.clustersOf(COUNTER_XML);
+
+        ClusterBehavior.for(model);
+
+        expect(Matter.get(ClusterModel, 0xfff1fc02)).undefined;
+        expect(ClusterRegistry.get(ClusterId(0xfff1fc02))).undefined;
+    });
+
+    it("skips custom diagnostics clusters in wildcard reads", async () => {
+        const [model] = ChipXml.clustersOf(COUNTER_XML);
+        model.quality = "K";
+
+        const node = await MockServerNode.createOnline({
+            device: OnOffLightDevice.with(ClusterBehavior.for(model)),
+        });
+        const fabric = await createFabric(node, 1);
+
+        const path = { endpointId: EndpointNumber(1), clusterId: ClusterId(0xfff1fc02) };
+        expect(await performRead(node, fabric, false, path)).not.undefined;
+        expect(
+            await performRead(node, fabric, false, { ...path, wildcardPathFlags: { skipDiagnosticsClusters: true } }),
+        ).undefined;
+
+        await node.close();
+    });
+
     it("invokes", async () => {
         let received: undefined | OnOff.OffWithEffectRequest;
         let sent: undefined | TypeFromSchema<typeof TlvInvokeResponseData>;
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DiagnosticLogsServer } from "#behaviors/diagnostic-logs";
+import { DiagnosticLogs } from "#clusters/diagnostic-logs";
+import { Logger } from "#general";
+import { ServerNode } from "#node/ServerNode.js";
+import { StatusResponseError } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+import Intent = DiagnosticLogs.Intent;
+import Status = DiagnosticLogs.Status;
+import TransferProtocol = DiagnosticLogs.TransferProtocol;
+
+const logger = Logger.get("DiagnosticLogsServerTest");
+
+async function createNode() {
+    return MockServerNode.createOnline({
+        config: {
+            type: ServerNode.RootEndpoint.with(DiagnosticLogsServer),
+        },
+        device: undefined,
+    });
+}
+
+function retrieveLogs(node: MockServerNode, request: DiagnosticLogs.RetrieveLogsRequest) {
+    return node.online({}, async agent => agent.get(DiagnosticLogsServer).retrieveLogsRequest(request));
+}
+
+function text(content: Uint8Array) {
+    return new TextDecoder().decode(content);
+}
+
+describe("DiagnosticLogsServer", () => {
+    it("reports missing logs", async () => {
+        const node = await createNode();
+
+        const response = await retrieveLogs(node, {
+            intent: Intent.CrashLogs,
+            requestedProtocol: TransferProtocol.ResponsePayload,
+        });
+
+        expect(response.status).equals(Status.NoLogs);
+        expect(response.logContent).deep.equals(new Uint8Array());
+    });
+
+    it("returns logs inline", async () => {
+        const node = await createNode();
+        logger.info("inline log message");
+
+        const response = await retrieveLogs(node, {
+            intent: Intent.EndUserSupport,
+            requestedProtocol: TransferProtocol.ResponsePayload,
+        });
+
+        expect(response.status).equals(Status.Success);
+        expect(text(response.logContent)).contains("inline log message");
+    });
+
+    it("returns small logs inline if BDX is requested", async () => {
+        const node = await createNode();
+        logger.error("crash log message");
+
+        const response = await retrieveLogs(node, {
+            intent: Intent.CrashLogs,
+            requestedProtocol: TransferProtocol.Bdx,
+            transferFileDesignator: "crash.log",
+        });
+
+        expect(response.status).equals(Status.Exhausted);
+        expect(text(response.logContent)).contains("crash log message");
+    });
+
+    it("returns most recent logs if BDX is unavailable", async () => {
+        const node = await createNode();
+        for (let i = 0; i < 100; i++) {
+            logger.info(`log message ${i}`);
+        }
+
+        const response = await retrieveLogs(node, {
+            intent: Intent.EndUserSupport,
+            requestedProtocol: TransferProtocol.Bdx,
+            transferFileDesignator: "support.log",
+        });
+
+        expect(response.status).equals(Status.Exhausted);
+        expect(response.logContent.length).most(1024);
+        const content = text(response.logContent);
+        expect(content).match(/^\S/);
+        expect(content).contains("log message 99");
+    });
+
+    it("requires file designator for BDX", async () => {
+        const node = await createNode();
+
+        await expect(
+            retrieveLogs(node, { intent: Intent.EndUserSupport, requestedProtocol: TransferProtocol.Bdx }),
+        ).rejectedWith(StatusResponseError, "BDX transfer requires a file designator");
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DoorLockServer } from "#behaviors/door-lock";
+import { DoorLock } from "#clusters/door-lock";
+import { Bytes } from "#general";
+import { Status, StatusResponseError } from "#types";
+import { MockEndpoint } from "../../endpoint/mock-endpoint.js";
+
+const PinDoorLockServer = DoorLockServer.with("User", "PinCredential", "CredentialOverTheAirAccess");
+
+const PIN = Bytes.fromString("1234");
+
+async function createLock() {
+    return MockEndpoint.createWith(
+        PinDoorLockServer.set({
+            lockState: DoorLock.LockState.Locked,
+            lockType: DoorLock.LockType.DeadBolt,
+            actuatorEnabled: true,
+            numberOfTotalUsersSupported: 2,
+            numberOfPinUsersSupported: 4,
+            numberOfCredentialsSupportedPerUser: 2,
+            minPinCodeLength: 4,
+            maxPinCodeLength: 8,
+            wrongCodeEntryLimit: 2,
+            userCodeTemporaryDisableTime: 10,
+            requirePinForRemoteOperation: true,
+        }),
+    );
+}
+
+async function addPin(endpoint: MockEndpoint<any>, credentialIndex = 1, credentialData = PIN) {
+    return endpoint.act(agent =>
+        agent.get(PinDoorLockServer).setCredential({
+            operationType: DoorLock.DataOperationType.Add,
+            credential: { credentialType: DoorLock.CredentialType.Pin, credentialIndex },
+            credentialData,
+            userIndex: null,
+            userStatus: null,
+            userType: null,
+        }),
+    );
+}
+
+describe("DoorLockServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("manages users", async () => {
+        const endpoint = await createLock();
+        const changes = Array<DoorLock.LockUserChangeEvent>();
+        endpoint.events.doorLock.lockUserChange.on(event => {
+            changes.push(event);
+        });
+
+        await endpoint.act(agent =>
+            agent.get(PinDoorLockServer).setUser({
+                operationType: DoorLock.DataOperationType.Add,
+                userIndex: 2,
+                userName: "Alice",
+                userUniqueId: null,
+                userStatus: null,
+                userType: null,
+                credentialRule: null,
+            }),
+        );
+
+        const user = await endpoint.act(agent => agent.get(PinDoorLockServer).getUser({ userIndex: 2 }));
+        expect(user.userName).equals("Alice");
+        expect(user.userStatus).equals(DoorLock.UserStatus.OccupiedEnabled);
+        expect(user.credentials).equals(null);
+
+        const empty = await endpoint.act(agent => agent.get(PinDoorLockServer).getUser({ userIndex: 1 }));
+        expect(empty.userStatus).equals(null);
+        expect(empty.nextUserIndex).equals(2);
+
+        expect(() =>
+            endpoint.act(agent =>
+                agent.get(PinDoorLockServer).setUser({
+                    operationType: DoorLock.DataOperationType.Add,
+                    userIndex: 3,
+                    userName: null,
+                    userUniqueId: null,
+                    userStatus: null,
+                    userType: null,
+                    credentialRule: null,
+                }),
+            ),
+        ).throws(StatusResponseError, "User index 3 is out of range");
+
+        await endpoint.act(agent => agent.get(PinDoorLockServer).clearUser({ userIndex: 2 }));
+        expect(endpoint.stateOf(PinDoorLockServer).users).deep.equals([]);
+        expect(changes.map(({ dataOperationType }) => dataOperationType)).deep.equals([
+            DoorLock.DataOperationType.Add,
+            DoorLock.DataOperationType.Clear,
+        ]);
+    });
+
+    it("manages credentials", async () => {
+        const endpoint = await createLock();
+
+        const response = await addPin(endpoint);
+        expect(response).deep.equals({ status: Status.Success, userIndex: 1, nextCredentialIndex: 2 });
+
+        expect((await addPin(endpoint, 2)).status).equals(DoorLock.StatusCode.Duplicate);
+        expect((await addPin(endpoint, 1, Bytes.fromString("5678"))).status).equals(DoorLock.StatusCode.Occupied);
+        expect((await addPin(endpoint, 2, Bytes.fromString("12"))).status).equals(Status.InvalidCommand);
+
+        const user = await endpoint.act(agent => agent.get(PinDoorLockServer).getUser({ userIndex: 1 }));
+        expect(user.credentials).deep.equals([{ credentialType: DoorLock.CredentialType.Pin, credentialIndex: 1 }]);
+
+        await endpoint.act(agent =>
+            agent.get(PinDoorLockServer).clearCredential({
+                credential: { credentialType: DoorLock.CredentialType.Pin, credentialIndex: 1 },
+            }),
+        );
+
+        const status = await endpoint.act(agent =>
+            agent.get(PinDoorLockServer).getCredentialStatus({
+                credential: { credentialType: DoorLock.CredentialType.Pin, credentialIndex: 1 },
+            }),
+        );
+        expect(status.credentialExists).equals(false);
+
+        // The user is removed with its last credential
+        expect(endpoint.stateOf(PinDoorLockServer).users).deep.equals([]);
+    });
+
+    it("validates PIN codes", async () => {
+        const endpoint = await createLock();
+        await addPin(endpoint);
+
+        const operations = Array<DoorLock.LockOperationEvent>();
+        endpoint.events.doorLock.lockOperation.on(event => {
+            operations.push(event);
+        });
+
+        expect(() => endpoint.act(agent => agent.get(PinDoorLockServer).unlockDoor({}))).throws(
+            StatusResponseError,
+            "PIN code is required",
+        );
+
+        await endpoint.act(agent => agent.get(PinDoorLockServer).unlockDoor({ pinCode: PIN }));
+        expect(endpoint.stateOf(PinDoorLockServer).lockState).equals(DoorLock.LockState.Unlocked);
+        expect(operations[0].userIndex).equals(1);
+        expect(operations[0].credentials).deep.equals([
+            { credentialType: DoorLock.CredentialType.Pin, credentialIndex: 1 },
+        ]);
+    });
+
+    it("disables PIN entry after too many wrong codes", async () => {
+        const endpoint = await createLock();
+        await addPin(endpoint);
+
+        const alarms = Array<DoorLock.AlarmCode>();
+        endpoint.events.doorLock.doorLockAlarm.on(({ alarmCode }) => {
+            alarms.push(alarmCode);
+        });
+
+        const wrongPin = Bytes.fromString("0000");
+        for (let i = 0; i < 2; i++) {
+            expect(() => endpoint.act(agent => agent.get(PinDoorLockServer).lockDoor({ pinCode: wrongPin }))).throws(
+                StatusResponseError,
+                "Invalid PIN code",
+            );
+        }
+        expect(alarms).deep.equals([DoorLock.AlarmCode.WrongCodeEntryLimit]);
+
+        expect(() => endpoint.act(agent => agent.get(PinDoorLockServer).unlockDoor({ pinCode: PIN }))).throws(
+            StatusResponseError,
+            "PIN entry is temporarily disabled",
+        );
+
+        await MockTime.advance(10_000);
+        await endpoint.act(agent => agent.get(PinDoorLockServer).unlockDoor({ pinCode: PIN }));
+        expect(endpoint.stateOf(PinDoorLockServer).lockState).equals(DoorLock.LockState.Unlocked);
+    });
+});
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GroupKeyManagementServer } from "#behaviors/group-key-management";
+import { GroupsServer } from "#behaviors/groups";
+import { IdentifyServer } from "#behaviors/identify";
+import { GroupKeyManagement } from "#clusters/group-key-management";
+import { OnOffLightDevice } from "#devices/on-off-light";
+import { Agent } from "#endpoint/Agent.js";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { EndpointType } from "#endpoint/type/EndpointType.js";
+import { MutableEndpoint } from "#endpoint/type/MutableEndpoint.js";
+import { Bytes } from "#general";
+import { Fabric } from "#protocol";
+import { EndpointNumber, GroupId, StatusCode, StatusResponseError } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+const GROUP = GroupId(0x101);
+const OTHER_GROUP = GroupId(0x102);
+const UNMAPPED_GROUP = GroupId(0x103);
+
+const GroupsOnlyDevice = MutableEndpoint({ name: "GroupsOnly", deviceType: 0x100, deviceRevision: 1 }).with(
+    GroupsServer,
+);
+
+async function createNode() {
+    const node = await MockServerNode.createOnline({ device: undefined });
+    const light = new Endpoint(OnOffLightDevice, { id: "light", number: 1 });
+    await node.add(light);
+    return { node, light, fabric: await createFabric(node) };
+}
+
+async function createFabric(node: MockServerNode) {
+    const fabric = await node.createFabric();
+    await fabric.groups.setKeySet({
+        groupKeySetId: 1,
+        groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+        epochKey0: Bytes.fromHex("d0d1d2d3d4d5d6d7d8d9dadbdcdddedf"),
+        epochStartTime0: 1,
+        epochKey1: null,
+        epochStartTime1: null,
+        epochKey2: null,
+        epochStartTime2: null,
+    });
+    await fabric.groups.setKeyMap([
+        { groupId: GROUP, groupKeySetId: 1 },
+        { groupId: OTHER_GROUP, groupKeySetId: 1 },
+    ]);
+    return fabric;
+}
+
+async function online<T extends EndpointType, R>(
+    node: MockServerNode,
+    fabric: Fabric,
+    endpoint: Endpoint<T>,
+    actor: (agent: Agent.Instance<T>) => R,
+) {
+    return node.online({ exchange: await node.createExchange({ fabric }), command: true }, async agent =>
+        actor(agent.context.agentFor(endpoint)),
+    );
+}
+
+function groupTableOf(node: MockServerNode) {
+    return node.stateOf(GroupKeyManagementServer).groupTable;
+}
+
+describe("GroupsServer", () => {
+    it("adds and views groups", async () => {
+        const { node, light, fabric } = await createNode();
+
+        const added = await online(node, fabric, light, agent =>
+            agent.groups.addGroup({ groupId: GROUP, groupName: "Kitchen" }),
+        );
+        expect(added).deep.equals({ status: StatusCode.Success, groupId: GROUP });
+
+        const viewed = await online(node, fabric, light, agent => agent.groups.viewGroup({ groupId: GROUP }));
+        expect(viewed).deep.equals({ status: StatusCode.Success, groupId: GROUP, groupName: "Kitchen" });
+
+        expect(fabric.groups.endpointsFor(GROUP)).deep.equals([EndpointNumber(1)]);
+        expect(groupTableOf(node)).deep.equals([
+            { groupId: GROUP, endpoints: [EndpointNumber(1)], groupName: "Kitchen", fabricIndex: fabric.fabricIndex },
+        ]);
+
+        await node.close();
+    });
+
+    it("rejects invalid groups", async () => {
+        const { node, light, fabric } = await createNode();
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.groups.addGroup({ groupId: GroupId(0), groupName: "Invalid" }),
+            ),
+        ).deep.equals({ status: StatusCode.ConstraintError, groupId: GroupId(0) });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.groups.addGroup({ groupId: UNMAPPED_GROUP, groupName: "Unmapped" }),
+            ),
+        ).deep.equals({ status: StatusCode.UnsupportedAccess, groupId: UNMAPPED_GROUP });
+
+        expect(
+            await online(node, fabric, light, agent => agent.groups.viewGroup({ groupId: OTHER_GROUP })),
+        ).deep.equals({ status: StatusCode.NotFound, groupId: OTHER_GROUP, groupName: "" });
+
+        await node.close();
+    });
+
+    it("reports group membership", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await online(node, fabric, light, async agent => {
+            await agent.groups.addGroup({ groupId: GROUP, groupName: "" });
+            await agent.groups.addGroup({ groupId: OTHER_GROUP, groupName: "" });
+        });
+
+        const maxGroups = node.stateOf(GroupKeyManagementServer).maxGroupsPerFabric;
+
+        expect(
+            await online(node, fabric, light, agent => agent.groups.getGroupMembership({ groupList: [] })),
+        ).deep.equals({ capacity: maxGroups - 2, groupList: [GROUP, OTHER_GROUP] });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.groups.getGroupMembership({ groupList: [OTHER_GROUP, UNMAPPED_GROUP] }),
+            ),
+        ).deep.equals({ capacity: maxGroups - 2, groupList: [OTHER_GROUP] });
+
+        await node.close();
+    });
+
+    it("removes groups", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await online(node, fabric, light, async agent => {
+            await agent.groups.addGroup({ groupId: GROUP, groupName: "" });
+            await agent.groups.addGroup({ groupId: OTHER_GROUP, groupName: "" });
+        });
+
+        expect(await online(node, fabric, light, agent => agent.groups.removeGroup({ groupId: GROUP }))).deep.equals({
+            status: StatusCode.Success,
+            groupId: GROUP,
+        });
+        expect(await online(node, fabric, light, agent => agent.groups.removeGroup({ groupId: GROUP }))).deep.equals({
+            status: StatusCode.NotFound,
+            groupId: GROUP,
+        });
+        expect(fabric.groups.groupsFor(EndpointNumber(1))).deep.equals([OTHER_GROUP]);
+
+        await online(node, fabric, light, agent => agent.groups.removeAllGroups());
+        expect(fabric.groups.groupsFor(EndpointNumber(1))).deep.equals([]);
+        expect(groupTableOf(node)).deep.equals([]);
+
+        await node.close();
+    });
+
+    it("adds group only if identifying", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await online(node, fabric, light, agent =>
+            agent.groups.addGroupIfIdentifying({ groupId: GROUP, groupName: "" }),
+        );
+        expect(fabric.groups.groupsFor(EndpointNumber(1))).deep.equals([]);
+
+        await light.act(agent => agent.get(IdentifyServer).identify({ identifyTime: 10 }));
+        await online(node, fabric, light, agent =>
+            agent.groups.addGroupIfIdentifying({ groupId: GROUP, groupName: "" }),
+        );
+        expect(fabric.groups.groupsFor(EndpointNumber(1))).deep.equals([GROUP]);
+
+        await expect(
+            online(node, fabric, light, agent =>
+                agent.groups.addGroupIfIdentifying({ groupId: UNMAPPED_GROUP, groupName: "" }),
+            ),
+        ).rejectedWith(StatusResponseError, `Adding group ${UNMAPPED_GROUP} failed`);
+
+        await node.close();
+    });
+
+    it("rejects add group if identifying without identify", async () => {
+        const node = await MockServerNode.createOnline({ device: undefined });
+        const endpoint = new Endpoint(GroupsOnlyDevice, { id: "groups", number: 1 });
+        await node.add(endpoint);
+        const fabric = await createFabric(node);
+
+        await expect(
+            online(node, fabric, endpoint, agent =>
+                agent.groups.addGroupIfIdentifying({ groupId: GROUP, groupName: "" }),
+            ),
+        ).rejectedWith(StatusResponseError, "requires the Identify cluster");
+
+        await node.close();
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IcdManagementServer } from "#behaviors/icd-management";
+import { IcdManagement } from "#clusters/icd-management";
+import { Agent } from "#endpoint/Agent.js";
+import { Bytes } from "#general";
+import { ServerNode } from "#node/ServerNode.js";
+import { FabricManager, SessionManager } from "#protocol";
+import { FabricIndex, NodeId, StatusResponseError } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+const LitIcdServer = IcdManagementServer.with("CheckInProtocolSupport", "UserActiveModeTrigger", "LongIdleTimeSupport");
+
+const KEY = Bytes.fromHex("000102030405060708090a0b0c0d0e0f");
+const OTHER_KEY = Bytes.fromHex("0f0e0d0c0b0a09080706050403020100");
+
+const FABRIC = FabricIndex(1);
+
+function createNode() {
+    return MockServerNode.createOnline({
+        config: {
+            type: ServerNode.RootEndpoint.with(
+                LitIcdServer.set({
+                    idleModeDuration: 60,
+                    activeModeDuration: 1000,
+                    activeModeThreshold: 500,
+                    userActiveModeTriggerHint: { powerCycle: true },
+                }),
+            ),
+        },
+        device: undefined,
+    });
+}
+
+function online<R>(node: MockServerNode, actor: (agent: Agent.Instance<ServerNode.RootEndpoint>) => R) {
+    return node.online({ fabric: FABRIC, subject: NodeId(0x100), root: node }, async agent => actor(agent));
+}
+
+function register(node: MockServerNode, checkInNodeId: NodeId, key = KEY, verificationKey?: Uint8Array) {
+    return online(node, agent =>
+        agent.get(LitIcdServer).registerClient({
+            checkInNodeId,
+            monitoredSubject: checkInNodeId,
+            key,
+            verificationKey,
+        }),
+    );
+}
+
+describe("IcdManagementServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("operates as LIT ICD", async () => {
+        const node = await createNode();
+
+        expect(node.stateOf(LitIcdServer).operatingMode).equals(IcdManagement.OperatingMode.Lit);
+        expect(node.env.get(SessionManager).sessionParameters).deep.include({
+            idleIntervalMs: 60_000,
+            activeThresholdMs: 500,
+        });
+    });
+
+    it("registers and unregisters clients", async () => {
+        const node = await createNode();
+        const counter = node.stateOf(LitIcdServer).icdCounter;
+
+        const response = await register(node, NodeId(0x1234));
+        expect(response).deep.equals({ icdCounter: counter });
+        expect(node.stateOf(LitIcdServer).registeredClients).deep.equals([
+            { checkInNodeId: NodeId(0x1234), monitoredSubject: NodeId(0x1234), fabricIndex: FABRIC },
+        ]);
+
+        // Only one client per fabric is supported by default
+        await expect(register(node, NodeId(0x5678))).rejectedWith(StatusResponseError, "already registered");
+
+        // Updating the registration requires the current key
+        await expect(register(node, NodeId(0x1234), OTHER_KEY)).rejectedWith(
+            StatusResponseError,
+            "Verification key does not match",
+        );
+        await register(node, NodeId(0x1234), OTHER_KEY, KEY);
+        expect(node.stateOf(LitIcdServer).clientKeys[0].key).deep.equals(OTHER_KEY);
+
+        await expect(
+            online(node, agent => agent.get(LitIcdServer).unregisterClient({ checkInNodeId: NodeId(0x5678) })),
+        ).rejectedWith(StatusResponseError, "not registered");
+        await online(node, agent =>
+            agent.get(LitIcdServer).unregisterClient({ checkInNodeId: NodeId(0x1234), verificationKey: OTHER_KEY }),
+        );
+        expect(node.stateOf(LitIcdServer).registeredClients).deep.equals([]);
+        expect(node.stateOf(LitIcdServer).clientKeys).deep.equals([]);
+    });
+
+    it("removes clients of removed fabrics", async () => {
+        const node = await createNode();
+        const fabric = await node.createFabric(FABRIC);
+        await register(node, NodeId(0x1234));
+        expect(node.stateOf(LitIcdServer).clientKeys.length).equals(1);
+
+        // Clients of the fabric are removed in a reactor so wait for the resulting change
+        const changed = new Promise(resolve => node.eventsOf(LitIcdServer).registeredClients$Changed.once(resolve));
+        await node.env.get(FabricManager).removeFabric(fabric.fabricIndex);
+        await changed;
+        expect(node.stateOf(LitIcdServer).registeredClients).deep.equals([]);
+        expect(node.stateOf(LitIcdServer).clientKeys).deep.equals([]);
+    });
+
+    it("alternates between active and idle mode", async () => {
+        const node = await createNode();
+        const isActive = () => node.act(agent => agent.get(LitIcdServer).isActive);
+
+        // The device starts in active mode
+        expect(await isActive()).equals(true);
+        await MockTime.advance(1000);
+        expect(await isActive()).equals(false);
+
+        const { promisedActiveDuration } = await node.act(agent =>
+            agent.get(LitIcdServer).stayActiveRequest({ stayActiveDuration: 60_000 }),
+        );
+        expect(promisedActiveDuration).equals(30_000);
+        expect(await isActive()).equals(true);
+
+        await MockTime.advance(30_000);
+        expect(await isActive()).equals(false);
+
+        await MockTime.advance(60_000);
+        expect(await isActive()).equals(true);
+
+        await MockTime.advance(1000);
+        expect(await isActive()).equals(false);
+    });
+});
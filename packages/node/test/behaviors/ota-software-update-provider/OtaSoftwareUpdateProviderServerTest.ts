@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OtaSoftwareUpdateProviderServer } from "#behaviors/ota-software-update-provider";
+import { OtaSoftwareUpdateProvider } from "#clusters/ota-software-update-provider";
+import { Bytes } from "#general";
+import { ServerNode } from "#node/ServerNode.js";
+import { OtaImage, OtaImageRepository } from "#protocol";
+import { StatusResponseError, VendorId } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+import DownloadProtocol = OtaSoftwareUpdateProvider.DownloadProtocol;
+import Status = OtaSoftwareUpdateProvider.Status;
+
+const VENDOR_ID = VendorId(0xfff1);
+const PRODUCT_ID = 0x8000;
+
+async function createNode() {
+    const node = await MockServerNode.createOnline({
+        config: {
+            type: ServerNode.RootEndpoint.with(OtaSoftwareUpdateProviderServer),
+        },
+        device: undefined,
+    });
+
+    node.env.get(OtaImageRepository).addImage({
+        name: "v2.ota",
+        header: {
+            vendorId: VENDOR_ID,
+            productId: PRODUCT_ID,
+            softwareVersion: 2,
+            softwareVersionString: "2.0",
+            payloadSize: 0,
+            imageDigestType: OtaImage.DIGEST_TYPE_SHA256,
+            imageDigest: new Uint8Array(32),
+        },
+        read: () => new Uint8Array(),
+    });
+
+    return node;
+}
+
+function queryImage(
+    node: MockServerNode,
+    softwareVersion: number,
+    protocolsSupported = [DownloadProtocol.BdxSynchronous],
+) {
+    return node.online({}, async agent =>
+        agent.get(OtaSoftwareUpdateProviderServer).queryImage({
+            vendorId: VENDOR_ID,
+            productId: PRODUCT_ID,
+            softwareVersion,
+            protocolsSupported,
+        }),
+    );
+}
+
+describe("OtaSoftwareUpdateProviderServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("reports unavailable updates", async () => {
+        const node = await createNode();
+
+        expect(await queryImage(node, 2)).deep.equals({ status: Status.NotAvailable });
+    });
+
+    it("requires BDX download protocol", async () => {
+        const node = await createNode();
+
+        expect(await queryImage(node, 1, [DownloadProtocol.Https])).deep.equals({
+            status: Status.DownloadProtocolNotSupported,
+        });
+    });
+
+    it("requires session to offer update", async () => {
+        const node = await createNode();
+
+        await expect(queryImage(node, 1)).rejectedWith(StatusResponseError, "requires a secure session");
+    });
+
+    it("rejects unknown update token", async () => {
+        const node = await createNode();
+
+        await expect(
+            node.online({}, async agent =>
+                agent.get(OtaSoftwareUpdateProviderServer).applyUpdateRequest({
+                    updateToken: Bytes.fromHex("0102030405060708"),
+                    newVersion: 2,
+                }),
+            ),
+        ).rejectedWith(StatusResponseError);
+    });
+});
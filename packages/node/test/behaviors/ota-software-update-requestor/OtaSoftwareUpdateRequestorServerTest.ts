@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OtaSoftwareUpdateRequestorServer } from "#behaviors/ota-software-update-requestor";
+import { OtaSoftwareUpdateRequestor } from "#clusters/ota-software-update-requestor";
+import { Bytes } from "#general";
+import { ServerNode } from "#node/ServerNode.js";
+import { EndpointNumber, FabricIndex, NodeId, StatusResponseError, VendorId } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+import UpdateState = OtaSoftwareUpdateRequestor.UpdateState;
+
+const PENDING_UPDATE = {
+    providerNodeId: NodeId(0x1234),
+    endpoint: EndpointNumber(0),
+    fabricIndex: FabricIndex(1),
+    updateToken: Bytes.fromHex("0102030405060708"),
+    softwareVersion: 2,
+};
+
+function createNode(options?: { softwareVersion?: number; pendingUpdate?: typeof PENDING_UPDATE }) {
+    return MockServerNode.createOnline({
+        config: {
+            type: ServerNode.RootEndpoint.with(OtaSoftwareUpdateRequestorServer),
+            basicInformation: { softwareVersion: options?.softwareVersion ?? 1 },
+            otaSoftwareUpdateRequestor: { pendingUpdate: options?.pendingUpdate },
+        },
+        device: undefined,
+    });
+}
+
+describe("OtaSoftwareUpdateRequestorServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("enters idle state when online", async () => {
+        const node = await createNode();
+
+        expect(node.stateOf(OtaSoftwareUpdateRequestorServer).updateState).equals(UpdateState.Idle);
+        expect(node.stateOf(OtaSoftwareUpdateRequestorServer).updateStateProgress).equals(null);
+    });
+
+    it("fails pending update if software version did not change", async () => {
+        const node = await createNode({ pendingUpdate: PENDING_UPDATE });
+
+        const state = node.stateOf(OtaSoftwareUpdateRequestorServer);
+        expect(state.pendingUpdate).undefined;
+        expect(state.updateState).equals(UpdateState.Idle);
+    });
+
+    it("requires fabric for provider announcements", async () => {
+        const node = await createNode();
+
+        await expect(
+            node.act(async agent =>
+                agent.get(OtaSoftwareUpdateRequestorServer).announceOtaProvider({
+                    providerNodeId: NodeId(0x1234),
+                    vendorId: VendorId(0xfff1),
+                    announcementReason: OtaSoftwareUpdateRequestor.AnnouncementReason.SimpleAnnouncement,
+                    endpoint: EndpointNumber(0),
+                    fabricIndex: FabricIndex(1),
+                }),
+            ),
+        ).rejectedWith(StatusResponseError, "requires a fabric");
+    });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OnOffServer } from "#behaviors/on-off";
+import { ScenesManagementServer } from "#behaviors/scenes-management";
+import { GroupKeyManagement } from "#clusters/group-key-management";
+import { OnOff } from "#clusters/on-off";
+import { ScenesManagement } from "#clusters/scenes-management";
+import { OnOffLightDevice } from "#devices/on-off-light";
+import { Agent } from "#endpoint/Agent.js";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { Bytes } from "#general";
+import { Fabric, FabricManager } from "#protocol";
+import { FabricIndex, GroupId, StatusCode, StatusResponseError } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+const SceneLightDevice = OnOffLightDevice.with(ScenesManagementServer);
+
+const NO_GROUP = GroupId(0);
+const GROUP = GroupId(0x101);
+
+const ON_FIELD_SET: ScenesManagement.ExtensionFieldSet = {
+    clusterId: OnOff.Cluster.id,
+    attributeValueList: [{ attributeId: OnOff.Cluster.attributes.onOff.id, valueUnsigned8: 1 }],
+};
+
+async function createNode(sceneTableSize = 16) {
+    const node = await MockServerNode.createOnline({ device: undefined });
+    const light = new Endpoint(SceneLightDevice, { id: "light", number: 1, scenesManagement: { sceneTableSize } });
+    await node.add(light);
+    return { node, light, fabric: await createFabric(node) };
+}
+
+async function createFabric(node: MockServerNode, index = 1) {
+    const fabric = await node.createFabric(index);
+    await fabric.groups.setKeySet({
+        groupKeySetId: 1,
+        groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+        epochKey0: Bytes.fromHex("d0d1d2d3d4d5d6d7d8d9dadbdcdddedf"),
+        epochStartTime0: 1,
+        epochKey1: null,
+        epochStartTime1: null,
+        epochKey2: null,
+        epochStartTime2: null,
+    });
+    await fabric.groups.setKeyMap([{ groupId: GROUP, groupKeySetId: 1 }]);
+    return fabric;
+}
+
+async function online<R>(
+    node: MockServerNode,
+    fabric: Fabric,
+    light: Endpoint<typeof SceneLightDevice>,
+    actor: (agent: Agent.Instance<typeof SceneLightDevice>) => R,
+) {
+    return node.online({ exchange: await node.createExchange({ fabric }), command: true }, async agent =>
+        actor(agent.context.agentFor(light)),
+    );
+}
+
+function addScene(agent: Agent.Instance<typeof SceneLightDevice>, groupId: GroupId, sceneId: number) {
+    return agent.scenesManagement.addScene({
+        groupId,
+        sceneId,
+        transitionTime: 100,
+        sceneName: "",
+        extensionFieldSetStructs: [ON_FIELD_SET],
+    });
+}
+
+function sceneIdsOf(light: Endpoint<typeof SceneLightDevice>, fabricIndex: FabricIndex, groupId: GroupId) {
+    return light
+        .stateOf(ScenesManagementServer)
+        .sceneTable.filter(scene => scene.fabricIndex === fabricIndex && scene.sceneGroupId === groupId)
+        .map(({ sceneId }) => sceneId);
+}
+
+describe("ScenesManagementServer", () => {
+    it("adds, views and removes scenes", async () => {
+        const { node, light, fabric } = await createNode();
+
+        expect(await online(node, fabric, light, agent => addScene(agent, NO_GROUP, 1))).deep.equals({
+            status: StatusCode.Success,
+            groupId: NO_GROUP,
+            sceneId: 1,
+        });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.viewScene({ groupId: NO_GROUP, sceneId: 1 }),
+            ),
+        ).deep.equals({
+            status: StatusCode.Success,
+            groupId: NO_GROUP,
+            sceneId: 1,
+            transitionTime: 100,
+            sceneName: "",
+            extensionFieldSetStructs: [ON_FIELD_SET],
+        });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.removeScene({ groupId: NO_GROUP, sceneId: 1 }),
+            ),
+        ).deep.equals({ status: StatusCode.Success, groupId: NO_GROUP, sceneId: 1 });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.viewScene({ groupId: NO_GROUP, sceneId: 1 }),
+            ),
+        ).deep.equals({ status: StatusCode.NotFound, groupId: NO_GROUP, sceneId: 1 });
+
+        await node.close();
+    });
+
+    it("rejects scenes of groups the endpoint is not a member of", async () => {
+        const { node, light, fabric } = await createNode();
+
+        expect(await online(node, fabric, light, agent => addScene(agent, GROUP, 1))).deep.equals({
+            status: StatusCode.InvalidCommand,
+            groupId: GROUP,
+            sceneId: 1,
+        });
+
+        await node.close();
+    });
+
+    it("stores and recalls scenes", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await light.set({ onOff: { onOff: true } });
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.storeScene({ groupId: NO_GROUP, sceneId: 1 }),
+            ),
+        ).deep.equals({ status: StatusCode.Success, groupId: NO_GROUP, sceneId: 1 });
+
+        const [info] = light.stateOf(ScenesManagementServer).fabricSceneInfo;
+        expect(info).deep.include({ sceneCount: 1, currentScene: 1, currentGroup: NO_GROUP, sceneValid: true });
+
+        await light.set({ onOff: { onOff: false } });
+        await online(node, fabric, light, agent =>
+            agent.scenesManagement.recallScene({ groupId: NO_GROUP, sceneId: 1 }),
+        );
+        expect(light.stateOf(OnOffServer).onOff).equals(true);
+
+        await expect(
+            online(node, fabric, light, agent => agent.scenesManagement.recallScene({ groupId: NO_GROUP, sceneId: 2 })),
+        ).rejectedWith(StatusResponseError, "not found");
+
+        await node.close();
+    });
+
+    it("copies scenes", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await online(node, fabric, light, async agent => {
+            await agent.groups.addGroup({ groupId: GROUP, groupName: "" });
+            addScene(agent, NO_GROUP, 1);
+            addScene(agent, NO_GROUP, 2);
+        });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.copyScene({
+                    mode: { copyAllScenes: false },
+                    groupIdentifierFrom: NO_GROUP,
+                    sceneIdentifierFrom: 1,
+                    groupIdentifierTo: GROUP,
+                    sceneIdentifierTo: 5,
+                }),
+            ),
+        ).deep.equals({ status: StatusCode.Success, groupIdentifierFrom: NO_GROUP, sceneIdentifierFrom: 1 });
+        expect(sceneIdsOf(light, fabric.fabricIndex, GROUP)).deep.equals([5]);
+
+        await online(node, fabric, light, agent =>
+            agent.scenesManagement.copyScene({
+                mode: { copyAllScenes: true },
+                groupIdentifierFrom: NO_GROUP,
+                sceneIdentifierFrom: 0,
+                groupIdentifierTo: GROUP,
+                sceneIdentifierTo: 0,
+            }),
+        );
+        expect(sceneIdsOf(light, fabric.fabricIndex, GROUP)).deep.equals([5, 1, 2]);
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.copyScene({
+                    mode: { copyAllScenes: false },
+                    groupIdentifierFrom: NO_GROUP,
+                    sceneIdentifierFrom: 3,
+                    groupIdentifierTo: GROUP,
+                    sceneIdentifierTo: 3,
+                }),
+            ),
+        ).deep.equals({ status: StatusCode.NotFound, groupIdentifierFrom: NO_GROUP, sceneIdentifierFrom: 3 });
+
+        await node.close();
+    });
+
+    it("scopes scenes to fabrics", async () => {
+        const { node, light, fabric } = await createNode();
+        const otherFabric = await createFabric(node, 2);
+
+        await online(node, fabric, light, agent => addScene(agent, NO_GROUP, 1));
+
+        expect(
+            await online(node, otherFabric, light, agent =>
+                agent.scenesManagement.viewScene({ groupId: NO_GROUP, sceneId: 1 }),
+            ),
+        ).deep.equals({ status: StatusCode.NotFound, groupId: NO_GROUP, sceneId: 1 });
+
+        expect(
+            await online(node, otherFabric, light, agent =>
+                agent.scenesManagement.getSceneMembership({ groupId: NO_GROUP }),
+            ),
+        ).deep.include({ status: StatusCode.Success, sceneList: [] });
+
+        // Scenes of the fabric are removed in a reactor so wait for the resulting change
+        const changed = new Promise(resolve => light.events.scenesManagement.fabricSceneInfo$Changed.once(resolve));
+        await node.env.get(FabricManager).removeFabric(fabric.fabricIndex);
+        await changed;
+        expect(light.stateOf(ScenesManagementServer).sceneTable).deep.equals([]);
+
+        await node.close();
+    });
+
+    it("limits scenes per fabric", async () => {
+        // A scene table of five entries leaves two scenes per fabric
+        const { node, light, fabric } = await createNode(5);
+
+        await online(node, fabric, light, async agent => {
+            addScene(agent, NO_GROUP, 1);
+            addScene(agent, NO_GROUP, 2);
+        });
+
+        expect(
+            await online(node, fabric, light, agent =>
+                agent.scenesManagement.getSceneMembership({ groupId: NO_GROUP }),
+            ),
+        ).deep.equals({ status: StatusCode.Success, capacity: 0, groupId: NO_GROUP, sceneList: [1, 2] });
+
+        expect(await online(node, fabric, light, agent => addScene(agent, NO_GROUP, 3))).deep.equals({
+            status: StatusCode.ResourceExhausted,
+            groupId: NO_GROUP,
+            sceneId: 3,
+        });
+
+        // Replacing an existing scene does not require capacity
+        expect(await online(node, fabric, light, agent => addScene(agent, NO_GROUP, 2))).deep.include({
+            status: StatusCode.Success,
+        });
+
+        await node.close();
+    });
+
+    it("removes scenes when the endpoint leaves a group", async () => {
+        const { node, light, fabric } = await createNode();
+
+        await online(node, fabric, light, async agent => {
+            await agent.groups.addGroup({ groupId: GROUP, groupName: "" });
+            addScene(agent, GROUP, 1);
+            addScene(agent, NO_GROUP, 1);
+        });
+        expect(sceneIdsOf(light, fabric.fabricIndex, GROUP)).deep.equals([1]);
+
+        await online(node, fabric, light, agent => agent.groups.removeGroup({ groupId: GROUP }));
+        expect(sceneIdsOf(light, fabric.fabricIndex, GROUP)).deep.equals([]);
+        expect(sceneIdsOf(light, fabric.fabricIndex, NO_GROUP)).deep.equals([1]);
+
+        await node.close();
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ThermostatServer } from "#behaviors/thermostat";
+import { Thermostat } from "#clusters/thermostat";
+import { StatusResponseError } from "#types";
+import { MockEndpoint } from "../../endpoint/mock-endpoint.js";
+
+const AutoThermostatServer = ThermostatServer.with("Heating", "Cooling", "AutoMode", "ScheduleConfiguration");
+
+async function createThermostat() {
+    return MockEndpoint.createWith(
+        AutoThermostatServer.set({
+            minSetpointDeadBand: 20,
+            minHeatSetpointLimit: 1000,
+            maxHeatSetpointLimit: 2800,
+            minCoolSetpointLimit: 1600,
+            maxCoolSetpointLimit: 3000,
+            numberOfWeeklyTransitions: 4,
+            numberOfDailyTransitions: 2,
+            startOfWeek: Thermostat.StartOfWeek.Monday,
+        }),
+    );
+}
+
+describe("ThermostatServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("rejects setpoints violating the dead band", async () => {
+        const endpoint = await createThermostat();
+
+        await expect(endpoint.set({ thermostat: { occupiedHeatingSetpoint: 2500 } })).rejectedWith(
+            "occupiedHeatingSetpoint must be at least MinSetpointDeadBand below occupiedCoolingSetpoint",
+        );
+
+        await endpoint.set({ thermostat: { occupiedHeatingSetpoint: 2400 } });
+        expect(endpoint.stateOf(AutoThermostatServer).occupiedHeatingSetpoint).equals(2400);
+    });
+
+    it("enforces setpoint limits", async () => {
+        const endpoint = await createThermostat();
+
+        await expect(endpoint.set({ thermostat: { occupiedHeatingSetpoint: 900 } })).rejectedWith(
+            "occupiedHeatingSetpoint 900 is out of range",
+        );
+
+        await endpoint.set({ thermostat: { maxHeatSetpointLimit: 2300, maxCoolSetpointLimit: 2500 } });
+        const state = endpoint.stateOf(AutoThermostatServer);
+        expect(state.occupiedCoolingSetpoint).equals(2500);
+        expect(state.occupiedHeatingSetpoint).equals(2000);
+    });
+
+    it("raises and lowers setpoints", async () => {
+        const endpoint = await createThermostat();
+
+        await endpoint.act(agent =>
+            agent.get(AutoThermostatServer).setpointRaiseLower({
+                mode: Thermostat.SetpointRaiseLowerMode.Heat,
+                amount: 50,
+            }),
+        );
+
+        // Heating is raised and cooling is pushed to respect the dead band
+        let state = endpoint.stateOf(AutoThermostatServer);
+        expect(state.occupiedHeatingSetpoint).equals(2500);
+        expect(state.occupiedCoolingSetpoint).equals(2700);
+
+        await endpoint.act(agent =>
+            agent.get(AutoThermostatServer).setpointRaiseLower({
+                mode: Thermostat.SetpointRaiseLowerMode.Both,
+                amount: -127,
+            }),
+        );
+
+        // Both are clamped to the minimum limits
+        state = endpoint.stateOf(AutoThermostatServer);
+        expect(state.occupiedHeatingSetpoint).equals(1230);
+        expect(state.occupiedCoolingSetpoint).equals(1600);
+    });
+
+    it("stores and applies the weekly schedule", async () => {
+        const endpoint = await createThermostat();
+
+        await endpoint.act(agent =>
+            agent.get(AutoThermostatServer).setWeeklySchedule({
+                numberOfTransitionsForSequence: 2,
+                dayOfWeekForSequence: { thursday: true, friday: true },
+                modeForSequence: { heatSetpointPresent: true },
+                transitions: [
+                    { transitionTime: 6 * 60, heatSetpoint: 2100, coolSetpoint: null },
+                    { transitionTime: 22 * 60, heatSetpoint: 1700, coolSetpoint: null },
+                ],
+            }),
+        );
+
+        expect(() =>
+            endpoint.act(agent =>
+                agent.get(AutoThermostatServer).setWeeklySchedule({
+                    numberOfTransitionsForSequence: 1,
+                    dayOfWeekForSequence: { monday: true },
+                    modeForSequence: { heatSetpointPresent: true },
+                    transitions: [{ transitionTime: 0, heatSetpoint: 2100, coolSetpoint: null }],
+                }),
+            ),
+        ).throws(StatusResponseError, "Number of transitions exceeds the maximum of 4 per week");
+
+        const response = await endpoint.act(agent =>
+            agent.get(AutoThermostatServer).getWeeklySchedule({
+                daysToReturn: { friday: true },
+                modeToReturn: { heatSetpointPresent: true, coolSetpointPresent: true },
+            }),
+        );
+        expect(response.numberOfTransitionsForSequence).equals(2);
+        expect(response.dayOfWeekForSequence).deep.equals({ friday: true });
+        expect(response.transitions[1]).deep.equals({
+            transitionTime: 22 * 60,
+            heatSetpoint: 1700,
+            coolSetpoint: null,
+        });
+
+        // Mock time starts on Thursday 1970-01-01; the schedule applies after a minute
+        await MockTime.advance(23 * 60 * 60 * 1000);
+        await MockTime.yield3();
+        expect(endpoint.stateOf(AutoThermostatServer).occupiedHeatingSetpoint).equals(1700);
+
+        await endpoint.act(agent => agent.get(AutoThermostatServer).clearWeeklySchedule());
+        expect(endpoint.stateOf(AutoThermostatServer).weeklySchedule).deep.equals([]);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TimeSynchronizationServer } from "#behaviors/time-synchronization";
+import { TimeSynchronization } from "#clusters/time-synchronization";
+import { ServerNode } from "#node/ServerNode.js";
+import { LastKnownGoodTime } from "#protocol";
+import { StatusResponseError } from "#types";
+import { MockServerNode } from "../../node/mock-server-node.js";
+
+// 2024-06-01T00:00:00Z in ms and in µs since the Matter epoch
+const UTC_MS = 1717200000000;
+const UTC_US = (UTC_MS - 946684800000) * 1000;
+const HOUR_US = 60 * 60 * 1_000_000;
+
+const TimeZoneServer = TimeSynchronizationServer.with("TimeZone");
+
+function createNode() {
+    return MockServerNode.create(
+        ServerNode.RootEndpoint.with(
+            TimeZoneServer.set({
+                timeZoneListMaxSize: 2,
+                dstOffsetListMaxSize: 1,
+            }),
+        ),
+    );
+}
+
+async function setUtcTime(node: Awaited<ReturnType<typeof createNode>>) {
+    await node.act(agent =>
+        agent.get(TimeZoneServer).setUtcTime({
+            utcTime: UTC_US,
+            granularity: TimeSynchronization.Granularity.SecondsGranularity,
+        }),
+    );
+}
+
+describe("TimeSynchronizationServer", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("computes UTC time after SetUTCTime", async () => {
+        const node = await createNode();
+        expect(node.stateOf(TimeZoneServer).utcTime).equals(null);
+
+        await setUtcTime(node);
+        await MockTime.advance(1000);
+
+        const state = node.stateOf(TimeZoneServer);
+        expect(state.utcTime).equals(UTC_US + 1_000_000);
+        expect(state.granularity).equals(TimeSynchronization.Granularity.SecondsGranularity);
+        expect(node.env.get(LastKnownGoodTime).value.getTime()).gte(UTC_MS);
+    });
+
+    it("rejects time with lower granularity", async () => {
+        const node = await createNode();
+        await setUtcTime(node);
+
+        expect(() =>
+            node.act(agent =>
+                agent.get(TimeZoneServer).setUtcTime({
+                    utcTime: UTC_US,
+                    granularity: TimeSynchronization.Granularity.MinutesGranularity,
+                }),
+            ),
+        ).throws(StatusResponseError, "Time with granularity MinutesGranularity not accepted");
+    });
+
+    it("computes local time and emits DST status", async () => {
+        const node = await createNode();
+        const dstStatus = Array<boolean>();
+        node.eventsOf(TimeZoneServer).dstStatus.on(({ dstOffsetActive }) => {
+            dstStatus.push(dstOffsetActive);
+        });
+        await setUtcTime(node);
+
+        await node.act(async agent => {
+            const timeSynchronization = agent.get(TimeZoneServer);
+            await timeSynchronization.setTimeZone({ timeZone: [{ offset: 3600, validAt: 0, name: "Europe/Berlin" }] });
+            await timeSynchronization.setDstOffset({
+                dstOffset: [{ offset: 3600, validStarting: UTC_US + HOUR_US, validUntil: UTC_US + 2 * HOUR_US }],
+            });
+        });
+        expect(node.stateOf(TimeZoneServer).localTime).equals(UTC_US + HOUR_US);
+
+        await MockTime.advance(90 * 60 * 1000);
+        expect(node.stateOf(TimeZoneServer).localTime).equals(UTC_US + 90 * 60 * 1_000_000 + 2 * HOUR_US);
+
+        await MockTime.advance(60 * 60 * 1000);
+        await MockTime.yield3();
+        expect(node.stateOf(TimeZoneServer).dstOffset).deep.equals([]);
+        expect(dstStatus).deep.equals([true, false]);
+    });
+
+    it("rejects invalid DST offsets", async () => {
+        const node = await createNode();
+
+        expect(() =>
+            node.act(agent =>
+                agent.get(TimeZoneServer).setDstOffset({
+                    dstOffset: [{ offset: 3600, validStarting: UTC_US, validUntil: UTC_US - HOUR_US }],
+                }),
+            ),
+        ).throws(StatusResponseError, "ValidUntil of a DST offset must be after ValidStarting");
+    });
+});
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ClusterBehavior } from "#behavior/cluster/ClusterBehavior.js";
+import { Descriptor } from "#clusters/descriptor";
+import { OnOff } from "#clusters/on-off";
+import { ClientNode } from "#node/ClientNode.js";
+import { ClientStructure } from "#node/client/ClientStructure.js";
+import { DecodedAttributeReportValue, InteractionClient } from "#protocol";
+import { AttributeId, ClusterId, EndpointNumber, StatusCode, StatusResponseError } from "#types";
+import { MockServerNode } from "./mock-server-node.js";
+
+function report(endpointId: number, clusterId: number, attributeName: string, value: unknown) {
+    return {
+        path: {
+            nodeId: undefined,
+            endpointId: EndpointNumber(endpointId),
+            clusterId: ClusterId(clusterId),
+            attributeId: AttributeId(0),
+            attributeName,
+        },
+        version: 0,
+        value,
+    } as unknown as DecodedAttributeReportValue<any>;
+}
+
+function descriptor(endpointId: number, deviceType: number, serverList: number[], partsList: number[] = []) {
+    return [
+        report(endpointId, Descriptor.Cluster.id, "deviceTypeList", [{ deviceType, revision: 1 }]),
+        report(
+            endpointId,
+            Descriptor.Cluster.id,
+            "serverList",
+            serverList.map(id => ClusterId(id)),
+        ),
+        report(endpointId, Descriptor.Cluster.id, "clientList", []),
+        report(
+            endpointId,
+            Descriptor.Cluster.id,
+            "partsList",
+            partsList.map(number => EndpointNumber(number)),
+        ),
+    ];
+}
+
+function onOff(endpointId: number, value: boolean) {
+    return [
+        report(endpointId, OnOff.Cluster.id, "onOff", value),
+        report(endpointId, OnOff.Cluster.id, "featureMap", {
+            lighting: true,
+            deadFrontBehavior: false,
+            offOnly: false,
+        }),
+    ];
+}
+
+const OnOffLightingClient = ClusterBehavior.for(OnOff.Cluster.with("Lighting"));
+
+const ROOT = descriptor(0, 0x16, [Descriptor.Cluster.id], [1]);
+const LIGHT = [...descriptor(1, 0x100, [Descriptor.Cluster.id, OnOff.Cluster.id]), ...onOff(1, true)];
+
+async function createClient() {
+    const owner = await MockServerNode.createOnline({ online: false, device: undefined });
+    const node = new ClientNode({ id: "peer1", owner });
+    owner.nodes.add(node);
+    node.construction.start();
+    await node.construction;
+    return { owner, node, structure: new ClientStructure(node) };
+}
+
+describe("ClientStructure", () => {
+    it("populates endpoints and behaviors", async () => {
+        const { owner, node, structure } = await createClient();
+
+        await structure.update([...ROOT, ...LIGHT]);
+
+        expect(node.parts.size).equals(1);
+        const light = node.parts.get("ep1")!;
+        expect(light.number).equals(1);
+
+        const type = light.behaviors.supported.onOff as ClusterBehavior.Type;
+        expect(type.cluster.supportedFeatures).deep.equals({ lighting: true });
+        expect((light.stateOf(type) as { onOff: boolean }).onOff).equals(true);
+
+        await owner.close();
+    });
+
+    it("applies changes and detects structural changes", async () => {
+        const { owner, node, structure } = await createClient();
+
+        await structure.update([...ROOT, ...LIGHT]);
+
+        expect(await structure.applyChange(report(1, OnOff.Cluster.id, "onOff", false))).equals(false);
+        const light = node.parts.get("ep1")!;
+        expect((light.stateOf(light.behaviors.supported.onOff) as { onOff: boolean }).onOff).equals(false);
+
+        expect(await structure.applyChange(report(0, Descriptor.Cluster.id, "partsList", [EndpointNumber(2)]))).equals(
+            true,
+        );
+
+        await owner.close();
+    });
+
+    it("removes endpoints the remote node no longer reports", async () => {
+        const { owner, node, structure } = await createClient();
+
+        await structure.update([...ROOT, ...LIGHT]);
+        expect(node.parts.size).equals(1);
+
+        await structure.update(descriptor(0, 0x16, [Descriptor.Cluster.id]));
+        expect(node.parts.size).equals(0);
+
+        await owner.close();
+    });
+});
+
+describe("ClientBehavior", () => {
+    async function createConnectedLight() {
+        const { owner, node, structure } = await createClient();
+        await structure.update([...ROOT, ...LIGHT]);
+
+        const interactions = new Array<{ kind: string; endpointId: EndpointNumber; name: string; payload: unknown }>();
+        let writeError: Error | undefined;
+        node.env.set(InteractionClient, {
+            async invoke({ endpointId, command, request }: Parameters<InteractionClient["invoke"]>[0]) {
+                interactions.push({ kind: "invoke", endpointId, name: `${command.requestId}`, payload: request });
+            },
+
+            async setAttribute({
+                attributeData: { endpointId, attribute, value },
+            }: Parameters<InteractionClient["setAttribute"]>[0]) {
+                if (writeError) {
+                    throw writeError;
+                }
+                interactions.push({ kind: "write", endpointId, name: `${attribute.id}`, payload: value });
+            },
+        } as unknown as InteractionClient);
+
+        const light = node.parts.get("ep1")!;
+        const type = light.behaviors.supported.onOff as typeof OnOffLightingClient;
+
+        return {
+            owner,
+            light,
+            type,
+            interactions,
+            failWrites(error: Error) {
+                writeError = error;
+            },
+        };
+    }
+
+    it("invokes remote commands", async () => {
+        const { owner, light, type, interactions } = await createConnectedLight();
+
+        await light.act(agent => agent.get(type).toggle());
+
+        expect(interactions).deep.equals([
+            { kind: "invoke", endpointId: 1, name: `${OnOff.Cluster.commands.toggle.requestId}`, payload: undefined },
+        ]);
+
+        await owner.close();
+    });
+
+    it("writes remote attributes on commit", async () => {
+        const { owner, light, type, interactions } = await createConnectedLight();
+
+        await light.act(agent => {
+            agent.get(type).state.onTime = 10;
+        });
+
+        expect(interactions).deep.equals([
+            { kind: "write", endpointId: 1, name: `${OnOffLightingClient.cluster.attributes.onTime.id}`, payload: 10 },
+        ]);
+        expect(light.stateOf(type).onTime).equals(10);
+
+        await owner.close();
+    });
+
+    it("rolls back on failed write", async () => {
+        const { owner, light, type, failWrites } = await createConnectedLight();
+        failWrites(new StatusResponseError("Nope", StatusCode.UnsupportedWrite));
+
+        await expect(
+            light.act(agent => {
+                agent.get(type).state.onTime = 10;
+            }),
+        ).rejectedWith(StatusResponseError);
+
+        expect(light.stateOf(type).onTime).not.equals(10);
+
+        await owner.close();
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ActionTracer } from "#behavior/context/ActionTracer.js";
+import { NodeActivity } from "#behavior/context/NodeActivity.js";
+import { OfflineContext } from "#behavior/context/server/OfflineContext.js";
+import { OnOffServer } from "#behaviors/on-off";
+import { AccessControl } from "#clusters/access-control";
+import { OnOffLightDevice } from "#devices/on-off-light";
+import { Endpoint } from "#endpoint/Endpoint.js";
+import { Environment } from "#general";
+import { TraceReplay } from "#node/server/TraceReplay.js";
+import { FabricIndex, NodeId } from "#types";
+import { MockServerNode } from "./mock-server-node.js";
+
+class RecordingTracer extends ActionTracer {
+    actions = new Array<TraceReplay.RecordedAction>();
+
+    record(action: ActionTracer.Action) {
+        this.actions.push({
+            ...action,
+            path: action.path?.toString(false),
+            mutations: action.mutations?.map(({ path, values }) => ({ path: path.toString(false), values })),
+        });
+    }
+}
+
+class SecretOnOffServer extends OnOffServer {
+    declare state: SecretOnOffServer.State;
+}
+
+namespace SecretOnOffServer {
+    export class State extends OnOffServer.State {
+        secret = "hunter2";
+    }
+}
+
+async function recordTrace() {
+    const environment = new Environment("test");
+    const tracer = new RecordingTracer();
+    environment.set(ActionTracer, tracer);
+
+    const node = new MockServerNode({ id: "node0", environment });
+    const light = new Endpoint(OnOffLightDevice, { id: "light" });
+    await node.add(light);
+
+    const path = light.path.at("onOff");
+
+    const write: ActionTracer.Action = { type: ActionTracer.ActionType.Write, path: path.at("onTime"), input: 5 };
+    await OfflineContext.act(
+        "write",
+        node.env.get(NodeActivity),
+        context => {
+            context.agentFor(light).get(OnOffServer).state.onTime = 5;
+        },
+        { trace: write },
+    );
+    tracer.record(write);
+
+    const invoke: ActionTracer.Action = { type: ActionTracer.ActionType.Invoke, path: path.at("toggle") };
+    await OfflineContext.act(
+        "invoke",
+        node.env.get(NodeActivity),
+        context => context.agentFor(light).get(OnOffServer).toggle(),
+        { trace: invoke },
+    );
+    tracer.record(invoke);
+
+    await node.close();
+
+    return tracer.actions;
+}
+
+describe("TraceReplay", () => {
+    it("replays without divergence", async () => {
+        const actions = await recordTrace();
+        const replay = new TraceReplay(actions, { behaviors: [OnOffServer] });
+
+        const report = await replay.run();
+
+        expect(report.replayed).equals(2);
+        expect(report.divergences).deep.equals([]);
+        expect(replay.node.parts.get("light")!.stateOf(OnOffServer).onOff).equals(true);
+
+        await replay.close();
+    });
+
+    it("reports divergent mutations", async () => {
+        const actions = await recordTrace();
+        const index = actions.findIndex(action => action.type === ActionTracer.ActionType.Invoke);
+        actions[index].mutations = [{ path: "node0.light.onOff.state", values: { onOff: false } }];
+        const replay = new TraceReplay(actions, { behaviors: [OnOffServer] });
+
+        const { divergences } = await replay.run();
+
+        expect(divergences.length).equals(1);
+        expect(divergences[0].index).equals(index);
+        expect(divergences[0].aspect).equals("mutations");
+        expect(divergences[0].actual).deep.equals([{ path: "node0.light.onOff.state", values: { onOff: true } }]);
+
+        await replay.close();
+    });
+
+    it("omits sensitive state from initialization", async () => {
+        const environment = new Environment("test");
+        const tracer = new RecordingTracer();
+        environment.set(ActionTracer, tracer);
+
+        const node = new MockServerNode({
+            id: "node0",
+            environment,
+            accessControl: {
+                acl: [
+                    {
+                        privilege: AccessControl.AccessControlEntryPrivilege.Administer,
+                        authMode: AccessControl.AccessControlEntryAuthMode.Case,
+                        subjects: [NodeId(1)],
+                        targets: null,
+                        fabricIndex: FabricIndex(1),
+                    },
+                ],
+            },
+        });
+        await node.add(new Endpoint(OnOffLightDevice.with(SecretOnOffServer), { id: "light" }));
+        await node.close();
+
+        const structures = Object.fromEntries(
+            tracer.actions
+                .filter(action => action.type === ActionTracer.ActionType.Initialize)
+                .map(action => [action.path, action.input as ActionTracer.EndpointStructure]),
+        );
+
+        const onOffState = structures["node0.light"].behaviors.onOff.state;
+        expect(onOffState).not.undefined;
+        expect(onOffState).not.property("secret");
+        expect(onOffState).property("onOff", false);
+
+        expect(structures["node0"].behaviors.accessControl.state?.acl).deep.equals([{ fabricIndex: 1 }]);
+    });
+
+    it("reports missing targets", async () => {
+        const actions = await recordTrace();
+        const replay = new TraceReplay([
+            ...actions,
+            { type: ActionTracer.ActionType.Invoke, path: "node0.light.levelControl.moveToLevel" },
+        ]);
+
+        const { divergences } = await replay.run();
+
+        expect(divergences.map(({ aspect }) => aspect)).contains("target");
+
+        await replay.close();
+    });
+});
@@ -22,8 +22,8 @@ import {
 } from "#general";
 import { Node } from "#node/Node.js";
 import { ServerNode } from "#node/ServerNode.js";
-import { MessageExchange, SessionManager } from "#protocol";
-import { FabricIndex, NodeId } from "#types";
+import { FabricBuilder, FabricManager, MessageExchange, SessionManager } from "#protocol";
+import { FabricIndex, NodeId, VendorId } from "#types";
 
 // These are temporary until we get proper crypto.subtle support
 Crypto.get().sign = () => {
@@ -135,6 +135,21 @@ export class MockServerNode<T extends ServerNode.RootEndpoint = ServerNode.RootE
         });
     }
 
+    /**
+     * Install a fabric without commissioning.
+     */
+    async createFabric(index = 1) {
+        const builder = new FabricBuilder();
+        builder.setRootVendorId(VendorId(0));
+        builder.setRootNodeId(NodeId(1));
+        builder.setRootCert(MockServerNode.ROOT_CERT);
+        builder.setOperationalCert(MockServerNode.OPERATIONAL_CERT);
+        builder.setIdentityProtectionKey(MockServerNode.IPK);
+        const fabric = await builder.build(FabricIndex(index));
+        this.env.get(FabricManager).addFabric(fabric);
+        return fabric;
+    }
+
     async createExchange(options?: Partial<Parameters<SessionManager["createSecureSession"]>[0]>) {
         return {
             channel: { name: "test" },
@@ -157,6 +172,16 @@ export class MockServerNode<T extends ServerNode.RootEndpoint = ServerNode.RootE
 }
 
 export namespace MockServerNode {
+    export const ROOT_CERT = Bytes.fromHex(
+        "153001010024020137032414001826048012542826058015203b37062414001824070124080130094104d89eb7e3f3226d0918f4b85832457bb9981bca7aaef58c18fb5ec07525e472b2bd1617fb75ee41bd388f94ae6a6070efc896777516a5c54aff74ec0804cdde9d370a3501290118240260300414e766069362d7e35b79687161644d222bdde93a68300514e766069362d7e35b79687161644d222bdde93a6818300b404e8fb06526f0332b3e928166864a6d29cade53fb5b8918a6d134d0994bf1ae6dce6762dcba99e80e96249d2f1ccedb336b26990f935dba5a0b9e5b4c9e5d1d8f1818181824ff0118",
+    );
+
+    export const OPERATIONAL_CERT = Bytes.fromHex(
+        "153001010124020137032414001826048012542826058015203b370624150124110918240701240801300941043c398922452b55caf389c25bd1bca4656952ccb90e8869249ad8474653014cbf95d687965e036b521c51037e6b8cedefca1eb44046694fa08882eed6519decba370a35012801182402013603040204011830041402cce0d7bfa29e98e454be38e27bfe6c0f162302300514e766069362d7e35b79687161644d222bdde93a6818300b4050e8183c290f438a57516faea006282d6d2b5178d5d15dfcc3ec8a9232db942894ff2d2ce941d3b42dd8a2cd51eea4f3f50b66757959368868c3a0a1b5fe665f18",
+    );
+
+    export const IPK = Bytes.fromHex("74656d706f726172792069706b203031");
+
     export interface Options<T extends ServerNode.RootEndpoint> {
         online?: boolean;
         config?: Node.Configuration<T>;
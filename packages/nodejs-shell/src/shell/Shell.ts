@@ -17,7 +17,9 @@ import cmdEvents from "./cmd_cluster-events";
 import cmdCommission from "./cmd_commission.js";
 import cmdConfig from "./cmd_config.js";
 import cmdDiscover from "./cmd_discover.js";
+import cmdGroups from "./cmd_groups.js";
 import cmdIdentify from "./cmd_identify.js";
+import cmdKeysets from "./cmd_keysets.js";
 import cmdNodes from "./cmd_nodes.js";
 import cmdSession from "./cmd_session.js";
 import cmdSubscribe from "./cmd_subscribe.js";
@@ -141,6 +143,8 @@ export class Shell {
                     cmdAttributes(this.theNode),
                     cmdEvents(this.theNode),
                     cmdCommands(this.theNode),
+                    cmdKeysets(this.theNode),
+                    cmdGroups(this.theNode),
                     cmdTlv(),
                     exitCommand(),
                 ])
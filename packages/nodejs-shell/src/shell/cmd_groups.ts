@@ -0,0 +1,271 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from "@matter/general";
+import { MatterModel } from "@matter/model";
+import { getClusterById, GroupClusterClient, GroupsCluster } from "@project-chip/matter.js/cluster";
+import { ValidationError } from "@project-chip/matter.js/common";
+import { ClusterId, FabricIndex, GroupId } from "@project-chip/matter.js/datatype";
+import type { Argv } from "yargs";
+import { MatterNode } from "../MatterNode";
+import { convertJsonDataWithModel } from "../util/Json";
+import { camelize } from "../util/String";
+import { groupKeyManagementClientFor } from "./cmd_keysets.js";
+
+async function groupsClientFor(theNode: MatterNode, nodeId: string, endpointId: number) {
+    const node = (await theNode.connectAndGetNodes(nodeId))[0];
+    const client = node.getDeviceById(endpointId)?.getClusterClient(GroupsCluster);
+    if (client === undefined) {
+        throw new Error(`Groups cluster ${node.nodeId.toString()}/${endpointId} not found`);
+    }
+    return client;
+}
+
+function parseValue(value?: string) {
+    if (value === undefined) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value);
+    } catch (error) {
+        return JSON.parse(`"${value}"`);
+    }
+}
+
+async function invokeGroupCommand(
+    theNode: MatterNode,
+    groupId: GroupId,
+    clusterName: string,
+    commandName: string,
+    value?: string,
+) {
+    const clusterModel = MatterModel.standard.clusters.find(
+        cluster =>
+            cluster.name.toLowerCase() === clusterName.toLowerCase() ||
+            `0x${cluster.id?.toString(16)}` === clusterName.toLowerCase(),
+    );
+    if (clusterModel?.id === undefined) {
+        console.log(`ERROR: Cluster ${clusterName} not found.`);
+        return;
+    }
+    const command = clusterModel.commands.find(
+        command => command.isRequest && command.name.toLowerCase() === commandName.toLowerCase(),
+    );
+    if (command === undefined) {
+        console.log(`ERROR: Command ${commandName} not found in cluster ${clusterModel.name}.`);
+        return;
+    }
+
+    let requestData;
+    try {
+        requestData = parseValue(value);
+    } catch (error) {
+        console.log(`ERROR: Could not parse value ${value} as JSON.`);
+        return;
+    }
+
+    await theNode.start();
+    const interactionClient = await theNode.controller.createGroupInteractionClient(groupId);
+
+    const client = GroupClusterClient(getClusterById(ClusterId(clusterModel.id)), interactionClient);
+
+    try {
+        if (requestData !== undefined) {
+            requestData = convertJsonDataWithModel(command, requestData);
+        }
+        await client.commands[camelize(command.name)](requestData);
+        console.log(
+            `Command ${clusterModel.name}.${command.name} sent to group ${groupId} ${requestData !== undefined ? `with ${Logger.toJSON(requestData)}` : ""}`,
+        );
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            console.log(
+                `ERROR: Could not validate data for command ${command.name} with ${Logger.toJSON(requestData)}: ${error}${error.fieldName !== undefined ? ` in field ${error.fieldName}` : ""}`,
+            );
+        } else {
+            console.log(`ERROR: Could not send command ${command.name} to group ${groupId}: ${error}`);
+        }
+    }
+}
+
+export default function commands(theNode: MatterNode) {
+    return {
+        command: "groups",
+        describe: "Manage groups and send group commands",
+        builder: (yargs: Argv) =>
+            yargs
+                .command(
+                    ["*", "list [node-id]"],
+                    "List the group key map of the controller or the group key map and group table of a node",
+                    yargs => {
+                        return yargs.positional("node-id", {
+                            describe: "node id to list the groups of - if omitted the controller groups are listed",
+                            default: undefined,
+                            type: "string",
+                        });
+                    },
+                    async argv => {
+                        const { nodeId } = argv;
+                        if (nodeId === undefined) {
+                            await theNode.start();
+                            const { keyMap, groups } = theNode.controller.groups;
+                            console.log("Group key map:", Logger.toJSON(keyMap));
+                            console.log("Groups:", Logger.toJSON(groups));
+                            return;
+                        }
+
+                        const client = await groupKeyManagementClientFor(theNode, nodeId);
+                        console.log("Group key map:", Logger.toJSON(await client.getGroupKeyMapAttribute()));
+                        console.log("Group table:", Logger.toJSON(await client.getGroupTableAttribute()));
+                    },
+                )
+                .command(
+                    "map <group-id> <keyset-id> [node-id]",
+                    "Map a group to a group key set on the controller or on a node",
+                    yargs => {
+                        return yargs
+                            .positional("group-id", {
+                                describe: "group id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("keyset-id", {
+                                describe: "group key set id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("node-id", {
+                                describe:
+                                    "node id to map the group on - if omitted the group is mapped on the controller",
+                                default: undefined,
+                                type: "string",
+                            });
+                    },
+                    async argv => {
+                        const { keysetId: groupKeySetId, nodeId } = argv;
+                        const groupId = GroupId(argv.groupId);
+
+                        if (nodeId === undefined) {
+                            await theNode.start();
+                            const { groups } = theNode.controller;
+                            await groups.setKeyMap([
+                                ...groups.keyMap.filter(entry => entry.groupId !== groupId),
+                                { groupId, groupKeySetId },
+                            ]);
+                            console.log(`Mapped group ${groupId} to group key set ${groupKeySetId} on the controller`);
+                            return;
+                        }
+
+                        const client = await groupKeyManagementClientFor(theNode, nodeId);
+                        const keyMap = (await client.getGroupKeyMapAttribute()).filter(
+                            entry => entry.groupId !== groupId,
+                        );
+                        await client.setGroupKeyMapAttribute([
+                            ...keyMap,
+                            { groupId, groupKeySetId, fabricIndex: FabricIndex.OMIT_FABRIC },
+                        ]);
+                        console.log(`Mapped group ${groupId} to group key set ${groupKeySetId} on node ${nodeId}`);
+                    },
+                )
+                .command(
+                    "add <group-id> <node-id> <endpoint-id> [name]",
+                    "Add an endpoint of a node to a group",
+                    yargs => {
+                        return yargs
+                            .positional("group-id", {
+                                describe: "group id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("node-id", {
+                                describe: "node id",
+                                type: "string",
+                                demandOption: true,
+                            })
+                            .positional("endpoint-id", {
+                                describe: "endpoint id to add to the group",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("name", {
+                                describe: "group name",
+                                default: "",
+                                type: "string",
+                            });
+                    },
+                    async argv => {
+                        const { nodeId, endpointId, name } = argv;
+                        const client = await groupsClientFor(theNode, nodeId, endpointId);
+                        const { status } = await client.addGroup({ groupId: GroupId(argv.groupId), groupName: name });
+                        console.log(`Add ${nodeId}/${endpointId} to group ${argv.groupId}: ${Logger.toJSON(status)}`);
+                    },
+                )
+                .command(
+                    "remove <group-id> <node-id> <endpoint-id>",
+                    "Remove an endpoint of a node from a group",
+                    yargs => {
+                        return yargs
+                            .positional("group-id", {
+                                describe: "group id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("node-id", {
+                                describe: "node id",
+                                type: "string",
+                                demandOption: true,
+                            })
+                            .positional("endpoint-id", {
+                                describe: "endpoint id to remove from the group",
+                                type: "number",
+                                demandOption: true,
+                            });
+                    },
+                    async argv => {
+                        const { nodeId, endpointId } = argv;
+                        const client = await groupsClientFor(theNode, nodeId, endpointId);
+                        const { status } = await client.removeGroup({ groupId: GroupId(argv.groupId) });
+                        console.log(
+                            `Remove ${nodeId}/${endpointId} from group ${argv.groupId}: ${Logger.toJSON(status)}`,
+                        );
+                    },
+                )
+                .command(
+                    "invoke <group-id> <cluster> <command> [value]",
+                    "Send a command to all members of a group.  The controller must have a key set mapped to the group",
+                    yargs => {
+                        return yargs
+                            .positional("group-id", {
+                                describe: "group id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("cluster", {
+                                describe: "cluster name or id as hex value",
+                                type: "string",
+                                demandOption: true,
+                            })
+                            .positional("command", {
+                                describe: "command name",
+                                type: "string",
+                                demandOption: true,
+                            })
+                            .positional("value", {
+                                describe: "command request as JSON value",
+                                default: undefined,
+                                type: "string",
+                            });
+                    },
+                    async argv => {
+                        const { cluster, command, value } = argv;
+                        await invokeGroupCommand(theNode, GroupId(argv.groupId), cluster, command, value);
+                    },
+                ),
+        handler: async (argv: any) => {
+            argv.unhandled = true;
+        },
+    };
+}
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Crypto, Logger, Time } from "@matter/general";
+import { GroupKeyManagement, GroupKeyManagementCluster } from "@project-chip/matter.js/cluster";
+import { MATTER_EPOCH_OFFSET_MS } from "@project-chip/matter.js/datatype";
+import type { Argv } from "yargs";
+import { MatterNode } from "../MatterNode";
+
+/** Length of group epoch keys. */
+const EPOCH_KEY_LENGTH = 16;
+
+/**
+ * Get the Group Key Management cluster client of a node.
+ */
+export async function groupKeyManagementClientFor(theNode: MatterNode, nodeId: string) {
+    const node = (await theNode.connectAndGetNodes(nodeId))[0];
+    const client = node.getRootClusterClient(GroupKeyManagementCluster);
+    if (client === undefined) {
+        throw new Error(`Node ${node.nodeId.toString()} does not support Group Key Management`);
+    }
+    return client;
+}
+
+/**
+ * Epoch keys are secret so we only show whether they are set.
+ */
+function logKeySet(keySet: GroupKeyManagement.GroupKeySet) {
+    const { epochKey0, epochKey1, epochKey2, ...details } = keySet;
+    console.log(
+        Logger.toJSON({
+            ...details,
+            epochKey0: epochKey0 === null ? null : "<set>",
+            epochKey1: epochKey1 === null ? null : "<set>",
+            epochKey2: epochKey2 === null ? null : "<set>",
+        }),
+    );
+}
+
+export default function commands(theNode: MatterNode) {
+    return {
+        command: "keysets",
+        describe: "Manage group key sets of the controller and nodes",
+        builder: (yargs: Argv) =>
+            yargs
+                .command(
+                    ["*", "list [node-id]"],
+                    "List the group key sets of the controller or of a node",
+                    yargs => {
+                        return yargs.positional("node-id", {
+                            describe: "node id to list the key sets of - if omitted the controller key sets are listed",
+                            default: undefined,
+                            type: "string",
+                        });
+                    },
+                    async argv => {
+                        const { nodeId } = argv;
+                        if (nodeId === undefined) {
+                            await theNode.start();
+                            theNode.controller.groups.keySets.forEach(logKeySet);
+                            return;
+                        }
+
+                        const client = await groupKeyManagementClientFor(theNode, nodeId);
+                        const { groupKeySetIDs } = await client.keySetReadAllIndices();
+                        for (const groupKeySetId of groupKeySetIDs) {
+                            const { groupKeySet } = await client.keySetRead({ groupKeySetId });
+                            logKeySet(groupKeySet);
+                        }
+                    },
+                )
+                .command(
+                    "add <keyset-id> [epoch-key]",
+                    "Add a group key set to the controller.  Write it to nodes with 'keysets write'",
+                    yargs => {
+                        return yargs
+                            .positional("keyset-id", {
+                                describe: "group key set id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("epoch-key", {
+                                describe: "epoch key as 16 byte hex string - if omitted a random key is generated",
+                                default: undefined,
+                                type: "string",
+                            });
+                    },
+                    async argv => {
+                        const { keysetId, epochKey } = argv;
+                        const epochKey0 =
+                            epochKey === undefined ? Crypto.getRandomData(EPOCH_KEY_LENGTH) : Bytes.fromHex(epochKey);
+                        if (epochKey0.length !== EPOCH_KEY_LENGTH) {
+                            console.log(`ERROR: Epoch key must have ${EPOCH_KEY_LENGTH} bytes.`);
+                            return;
+                        }
+
+                        await theNode.start();
+                        await theNode.controller.groups.setKeySet({
+                            groupKeySetId: keysetId,
+                            groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+                            epochKey0,
+                            epochStartTime0: BigInt(Time.nowMs() - MATTER_EPOCH_OFFSET_MS) * 1000n,
+                            epochKey1: null,
+                            epochStartTime1: null,
+                            epochKey2: null,
+                            epochStartTime2: null,
+                        });
+                        console.log(`Added group key set ${keysetId} to the controller`);
+                    },
+                )
+                .command(
+                    "write <keyset-id> <node-id>",
+                    "Write a group key set of the controller to a node",
+                    yargs => {
+                        return yargs
+                            .positional("keyset-id", {
+                                describe: "group key set id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("node-id", {
+                                describe: "node id to write the key set to",
+                                type: "string",
+                                demandOption: true,
+                            });
+                    },
+                    async argv => {
+                        const { keysetId, nodeId } = argv;
+                        await theNode.start();
+                        const groupKeySet = theNode.controller.groups.keySetFor(keysetId);
+                        if (groupKeySet === undefined) {
+                            console.log(`ERROR: Group key set ${keysetId} does not exist. Add it with 'keysets add'.`);
+                            return;
+                        }
+
+                        const client = await groupKeyManagementClientFor(theNode, nodeId);
+                        await client.keySetWrite({ groupKeySet });
+                        console.log(`Wrote group key set ${keysetId} to node ${nodeId}`);
+                    },
+                )
+                .command(
+                    "remove <keyset-id> [node-id]",
+                    "Remove a group key set from the controller or from a node",
+                    yargs => {
+                        return yargs
+                            .positional("keyset-id", {
+                                describe: "group key set id",
+                                type: "number",
+                                demandOption: true,
+                            })
+                            .positional("node-id", {
+                                describe:
+                                    "node id to remove the key set from - if omitted it is removed from the controller",
+                                default: undefined,
+                                type: "string",
+                            });
+                    },
+                    async argv => {
+                        const { keysetId, nodeId } = argv;
+                        if (nodeId === undefined) {
+                            await theNode.start();
+                            await theNode.controller.groups.removeKeySet(keysetId);
+                            console.log(`Removed group key set ${keysetId} from the controller`);
+                            return;
+                        }
+
+                        const client = await groupKeyManagementClientFor(theNode, nodeId);
+                        await client.keySetRemove({ groupKeySetId: keysetId });
+                        console.log(`Removed group key set ${keysetId} from node ${nodeId}`);
+                    },
+                ),
+        handler: async (argv: any) => {
+            argv.unhandled = true;
+        },
+    };
+}
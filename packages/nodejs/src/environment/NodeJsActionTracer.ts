@@ -4,11 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Environment, MaybePromise, serialize } from "#general";
-import { ActionTracer } from "#node";
-import { FileHandle, open } from "fs/promises";
+import { Environment, fromJson, MaybePromise, SupportedStorageTypes, toJson } from "#general";
+import { ActionTracer, TraceReplay } from "#node";
+import { FileHandle, open, readFile } from "fs/promises";
 import { resolve } from "path";
 
+/**
+ * Records actions as JSON lines.  Values serialize with {@link toJson} so {@link load} reproduces them exactly.
+ */
 export class NodeJsActionTracer extends ActionTracer {
     #path: string;
     #output?: FileHandle;
@@ -38,6 +41,17 @@ export class NodeJsActionTracer extends ActionTracer {
         });
     }
 
+    /**
+     * Read a trace written by {@link NodeJsActionTracer} for use with {@link TraceReplay}.
+     */
+    static async load(path: string) {
+        const text = await readFile(path, "utf-8");
+        return text
+            .split("\n")
+            .filter(line => line.trim() !== "")
+            .map(line => fromJson(line) as unknown as TraceReplay.RecordedAction);
+    }
+
     [Symbol.asyncDispose]() {
         MaybePromise.then(this.#write, () => this.#output?.close());
     }
@@ -57,14 +71,7 @@ export class NodeJsActionTracer extends ActionTracer {
         if (this.#output === undefined) {
             this.#output = await open(this.#path, "w");
         }
-        await this.#output.write(JSON.stringify(action, replacer));
+        await this.#output.write(toJson(action as SupportedStorageTypes));
         await this.#output.write("\n");
     }
 }
-
-function replacer(_key: string, value: any) {
-    if (typeof value === "bigint" || ArrayBuffer.isView(value)) {
-        return serialize(value);
-    }
-    return value;
-}
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Environment, ImplementationError, Logger, NetworkError, Time } from "#general";
+import { AttestationTrustStore } from "#protocol";
+import { readdirSync, readFileSync } from "fs";
+import { extname, resolve } from "path";
+
+const logger = Logger.get("NodeJsAttestationTrustStore");
+
+const DEFAULT_DCL_URL = "https://on.dcl.csa-iot.org";
+const DCL_UPDATE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DCL_REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * An {@link AttestationTrustStore} that loads PAAs and revocation data from the file system and downloads the approved
+ * PAAs from the Distributed Compliance Ledger (DCL).
+ *
+ * This is installed by {@link NodeJsEnvironment} using the following variables:
+ *
+ *   - `attestation.paa.path` - Directory with PAA certificates (`.der` or `.pem`) and DCL snapshots or revocation sets
+ *     (`.json`)
+ *
+ *   - `attestation.dcl.snapshot` - Path of a JSON snapshot of the Distributed Compliance Ledger, see
+ *     {@link AttestationTrustStore.importSnapshot}
+ *
+ *   - `attestation.dcl.fetch` - Download the approved PAAs from the DCL before commissioning, Default: true
+ *
+ *   - `attestation.dcl.url` - Base URL of the REST API of the DCL, Default: https://on.dcl.csa-iot.org
+ *
+ *   - `attestation.test` - Trust the test PAAs and certification declaration signer of the Matter specification,
+ *     Default: true
+ *
+ *   - `attestation.enforce` - Fail commissioning of devices with attestation information we cannot verify rather than
+ *     logging a warning, Default: true
+ */
+export class NodeJsAttestationTrustStore extends AttestationTrustStore {
+    readonly #dclUrl?: string;
+    #dclUpdate?: Promise<void>;
+    #dclUpdatedAt?: number;
+
+    constructor(options: NodeJsAttestationTrustStore.Options = {}) {
+        super(options);
+        this.#dclUrl = options.dclUrl;
+    }
+
+    static configure(env: Environment) {
+        env.vars.use(() => {
+            const directory = env.vars.string("attestation.paa.path");
+            const snapshot = env.vars.string("attestation.dcl.snapshot");
+            const dclUrl =
+                (env.vars.boolean("attestation.dcl.fetch") ?? true)
+                    ? (env.vars.string("attestation.dcl.url") ?? DEFAULT_DCL_URL)
+                    : undefined;
+            const includeTestCredentials = env.vars.boolean("attestation.test") ?? true;
+            const enforce = env.vars.boolean("attestation.enforce") ?? true;
+
+            const store = new NodeJsAttestationTrustStore({ includeTestCredentials, enforce, dclUrl });
+            if (directory !== undefined) {
+                store.loadDirectory(directory);
+            }
+            if (snapshot !== undefined) {
+                store.loadSnapshot(snapshot);
+            }
+            env.set(AttestationTrustStore, store);
+        });
+    }
+
+    /**
+     * Download the approved PAAs from the DCL if configured and not done within the last day.  Download errors are
+     * logged so commissioning continues with the PAAs we have.
+     */
+    override async update() {
+        if (this.#dclUrl === undefined) {
+            return;
+        }
+        if (this.#dclUpdatedAt !== undefined && Time.nowMs() - this.#dclUpdatedAt < DCL_UPDATE_INTERVAL_MS) {
+            return;
+        }
+        if (this.#dclUpdate === undefined) {
+            this.#dclUpdate = this.loadDcl(this.#dclUrl)
+                .then(() => {
+                    this.#dclUpdatedAt = Time.nowMs();
+                })
+                .catch(error => logger.warn(`Error downloading PAAs from DCL ${this.#dclUrl}:`, error))
+                .finally(() => {
+                    this.#dclUpdate = undefined;
+                });
+        }
+        await this.#dclUpdate;
+    }
+
+    /**
+     * Download the approved PAAs from the REST API of a DCL node.
+     */
+    async loadDcl(url: string) {
+        const { approvedRootCertificates } = await fetchDcl<NodeJsAttestationTrustStore.DclRootCertificates>(
+            `${url}/dcl/pki/root-certificates`,
+        );
+
+        const approvedCertificates = new Array<AttestationTrustStore.SnapshotCertificates>();
+        for (const { subject, subjectKeyId } of approvedRootCertificates?.certs ?? []) {
+            const { approvedCertificates: certificates } = await fetchDcl<NodeJsAttestationTrustStore.DclCertificates>(
+                `${url}/dcl/pki/certificates/${encodeURIComponent(subject)}/${encodeURIComponent(subjectKeyId)}`,
+            );
+            if (certificates !== undefined) {
+                approvedCertificates.push(certificates);
+            }
+        }
+
+        return this.importSnapshot({ approvedCertificates });
+    }
+
+    /**
+     * Load all PAA certificates, DCL snapshots and revocation sets from a directory.
+     */
+    loadDirectory(path: string) {
+        let files;
+        try {
+            files = readdirSync(path);
+        } catch (e) {
+            throw new ImplementationError(`Error reading PAA directory ${path}: ${(e as Error).message}`);
+        }
+
+        for (const file of files.sort()) {
+            const filePath = resolve(path, file);
+            switch (extname(file).toLowerCase()) {
+                case ".der":
+                    this.#addAuthorityFile(filePath, new Uint8Array(readFileSync(filePath)));
+                    break;
+
+                case ".pem":
+                    this.#addAuthorityFile(filePath, readFileSync(filePath).toString());
+                    break;
+
+                case ".json":
+                    this.loadSnapshot(filePath);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Load a DCL snapshot or a revocation set from a JSON file.
+     */
+    loadSnapshot(path: string) {
+        let snapshot;
+        try {
+            snapshot = JSON.parse(readFileSync(path).toString());
+        } catch (e) {
+            throw new ImplementationError(`Error reading attestation snapshot ${path}: ${(e as Error).message}`);
+        }
+
+        // Revocation sets of the Matter SDK are plain arrays
+        if (Array.isArray(snapshot)) {
+            snapshot = { revocationSet: snapshot };
+        }
+
+        this.importSnapshot(snapshot);
+    }
+
+    #addAuthorityFile(path: string, certificate: Uint8Array | string) {
+        try {
+            this.addAuthority(certificate);
+        } catch (error) {
+            logger.warn(`Ignoring invalid PAA certificate ${path}:`, error);
+        }
+    }
+}
+
+async function fetchDcl<T>(url: string): Promise<T> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(DCL_REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new NetworkError(`DCL request ${url} failed with status ${response.status}`);
+    }
+    return (await response.json()) as T;
+}
+
+export namespace NodeJsAttestationTrustStore {
+    export interface Options extends AttestationTrustStore.Options {
+        /**
+         * Base URL of the REST API of a DCL node to download the approved PAAs from.  Without URL we do not download.
+         */
+        dclUrl?: string;
+    }
+
+    /**
+     * Response of the DCL endpoint `/dcl/pki/root-certificates`.
+     */
+    export interface DclRootCertificates {
+        approvedRootCertificates?: { certs?: { subject: string; subjectKeyId: string }[] };
+    }
+
+    /**
+     * Response of the DCL endpoint `/dcl/pki/certificates/{subject}/{subjectKeyId}`.
+     */
+    export interface DclCertificates {
+        approvedCertificates?: AttestationTrustStore.SnapshotCertificates;
+    }
+}
@@ -18,7 +18,10 @@ import { writeFile } from "fs/promises";
 import { resolve } from "path";
 import { NodeJsNetwork } from "../net/NodeJsNetwork.js";
 import { StorageBackendDiskAsync } from "../storage/StorageBackendDiskAsync.js";
+import { StorageBackendSqlite } from "../storage/StorageBackendSqlite.js";
 import { NodeJsActionTracer } from "./NodeJsActionTracer.js";
+import { NodeJsAttestationTrustStore } from "./NodeJsAttestationTrustStore.js";
+import { NodeJsOtaImageRepository } from "./NodeJsOtaImageRepository.js";
 import { ProcessManager } from "./ProcessManager.js";
 
 /**
@@ -30,6 +33,10 @@ import { ProcessManager } from "./ProcessManager.js";
  *
  *   - Creates a default storage pool using the loaded configuration.
  *
+ *   - Loads trusted PAAs and revocation data for device attestation via {@link NodeJsAttestationTrustStore}
+ *
+ *   - Loads OTA images an OTA provider offers via {@link NodeJsOtaImageRepository}
+ *
  * You can modify this behavior:
  *
  *   - Via configuration
@@ -52,9 +59,19 @@ import { ProcessManager } from "./ProcessManager.js";
  * * `trace.enable` - Enable writing a trace file
  * * `storage.path` - Where to store storage files, Default: "path.root"
  * * `storage.clear` - Clear storage on start? Default: false
+ * * `storage.driver` - "file" for one file per key or "sqlite" for a SQLite database per namespace, Default: "file".
+ *   With "sqlite", existing file storage of a namespace is migrated into the new database on first start.  "sqlite"
+ *   requires the optional dependency "better-sqlite3"
  * * `runtime.signals` - By default register SIGINT and SIGUSR2 (diag) handlers, set to false if not wanted
  * * `runtime.exitcode` - By default we set the process.exitcode to 0 (ok) or 1 (crash); set to false to disable
  * * `runtime.unhandlederrors` - By default we log unhandled errors to matter.js log; set to false to disable
+ * * `attestation.paa.path` - Directory with PAA certificates, DCL snapshots and revocation sets to trust
+ * * `attestation.dcl.snapshot` - Path of a DCL JSON snapshot with PAAs and revocation data
+ * * `attestation.dcl.fetch` - Download the approved PAAs from the DCL before commissioning, Default: true
+ * * `attestation.dcl.url` - Base URL of the REST API of the DCL, Default: https://on.dcl.csa-iot.org
+ * * `attestation.test` - Trust the test PAAs of the Matter specification, Default: true
+ * * `attestation.enforce` - Fail commissioning of devices whose attestation cannot be verified, Default: true
+ * * `ota.images.path` - Directory with OTA image files an OTA provider offers
  */
 export function NodeJsEnvironment() {
     const env = new Environment("default");
@@ -72,6 +89,8 @@ export function NodeJsEnvironment() {
     }
 
     NodeJsActionTracer.configure(env);
+    NodeJsAttestationTrustStore.configure(env);
+    NodeJsOtaImageRepository.configure(env);
 
     return env;
 }
@@ -116,8 +135,26 @@ function configureStorage(env: Environment) {
         service.location = env.vars.get("storage.path", env.vars.get("path.root", "."));
     });
 
-    service.factory = namespace =>
-        new StorageBackendDiskAsync(resolve(service.location ?? ".", namespace), env.vars.get("storage.clear", false));
+    service.factory = namespace => {
+        const path = resolve(service.location ?? ".", namespace);
+        const clear = env.vars.get("storage.clear", false);
+
+        const driver = env.vars.get<string>("storage.driver", "file");
+        switch (driver) {
+            case "file":
+                return new StorageBackendDiskAsync(path, clear);
+
+            case "sqlite":
+                return new StorageBackendSqlite(
+                    `${path}.db`,
+                    clear,
+                    !clear && existsSync(path) ? new StorageBackendDiskAsync(path) : undefined,
+                );
+
+            default:
+                throw new ImplementationError(`Unsupported storage driver "${driver}"`);
+        }
+    };
 }
 
 function configureNetwork(env: Environment) {
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Environment, ImplementationError, Logger } from "#general";
+import { OtaImage, OtaImageRepository } from "#protocol";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+
+const logger = Logger.get("NodeJsOtaImageRepository");
+
+/**
+ * An {@link OtaImageRepository} that serves OTA image files from the file system.
+ *
+ * This is installed by {@link NodeJsEnvironment} if the variable `ota.images.path` names a directory with OTA image
+ * files.  Files are validated when loaded and read again when a requestor downloads them.
+ */
+export class NodeJsOtaImageRepository extends OtaImageRepository {
+    static configure(env: Environment) {
+        env.vars.use(() => {
+            const directory = env.vars.string("ota.images.path");
+            if (directory === undefined) {
+                return;
+            }
+
+            const repository = new NodeJsOtaImageRepository();
+            repository.loadDirectory(directory);
+            env.set(OtaImageRepository, repository);
+        });
+    }
+
+    /**
+     * Load all valid OTA image files in a directory.
+     */
+    loadDirectory(path: string) {
+        let files;
+        try {
+            files = readdirSync(path);
+        } catch (e) {
+            throw new ImplementationError(`Error reading OTA image directory ${path}: ${(e as Error).message}`);
+        }
+
+        for (const file of files.sort()) {
+            const filePath = resolve(path, file);
+            if (statSync(filePath).isFile()) {
+                this.loadFile(filePath, file);
+            }
+        }
+    }
+
+    /**
+     * Load an OTA image file.  Invalid files are ignored.
+     */
+    loadFile(path: string, name = path) {
+        let header;
+        try {
+            ({ header } = OtaImage.validate(new Uint8Array(readFileSync(path))));
+        } catch (error) {
+            logger.warn(`Ignoring invalid OTA image ${path}:`, error);
+            return;
+        }
+
+        this.addImage({ name, header, read: async () => new Uint8Array(await readFile(path)) });
+        logger.info(
+            `Loaded OTA image ${name} for vendor ${header.vendorId} product ${header.productId} version ${header.softwareVersionString}`,
+        );
+        return header;
+    }
+}
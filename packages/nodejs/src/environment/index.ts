@@ -6,5 +6,7 @@
 
 import "./register.js";
 export * from "./NodeJsActionTracer.js";
+export * from "./NodeJsAttestationTrustStore.js";
 export * from "./NodeJsEnvironment.js";
+export * from "./NodeJsOtaImageRepository.js";
 export * from "./ProcessManager.js";
@@ -14,10 +14,13 @@ import {
     NetworkInterface,
     NetworkInterfaceDetails,
     onSameNetwork,
+    TcpConnectionOptions,
+    TcpServerOptions,
     UdpChannel,
     UdpChannelOptions,
 } from "#general";
 import { NetworkInterfaceInfo, networkInterfaces } from "os";
+import { NodeJsTcpConnection, NodeJsTcpServer } from "./NodeJsTcpChannel.js";
 import { NodeJsUdpChannel } from "./NodeJsUdpChannel.js";
 
 const logger = Logger.get("NetworkNode");
@@ -154,4 +157,12 @@ export class NodeJsNetwork extends Network {
     override createUdpChannel(options: UdpChannelOptions): Promise<UdpChannel> {
         return NodeJsUdpChannel.create(options);
     }
+
+    override createTcpServer(options: TcpServerOptions) {
+        return NodeJsTcpServer.create(options);
+    }
+
+    override connectTcp(options: TcpConnectionOptions) {
+        return NodeJsTcpConnection.connect(options);
+    }
 }
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    ChannelType,
+    Diagnostic,
+    isIPv4,
+    isIPv6,
+    Logger,
+    NetworkError,
+    TcpConnection,
+    TcpConnectionOptions,
+    TcpServer,
+    TcpServerOptions,
+} from "#general";
+import * as net from "net";
+import { NodeJsNetwork } from "./NodeJsNetwork.js";
+
+const logger = Logger.get("TcpChannelNode");
+
+/**
+ * A TCP connection based on a Node.js socket.
+ */
+export class NodeJsTcpConnection implements TcpConnection {
+    readonly peerAddress: string;
+    readonly peerPort: number;
+
+    static connect({ host, port, type }: TcpConnectionOptions) {
+        return new Promise<NodeJsTcpConnection>((resolve, reject) => {
+            const socket = net.connect({ host, port, family: type === "tcp4" ? 4 : 6 });
+            const handleConnectError = (error: Error) => {
+                socket.destroy();
+                reject(new NetworkError(`Error connecting to ${host}:${port}: ${error.message}`));
+            };
+            socket.once("error", handleConnectError);
+            socket.once("connect", () => {
+                socket.removeListener("error", handleConnectError);
+                resolve(new NodeJsTcpConnection(socket));
+            });
+        });
+    }
+
+    constructor(private readonly socket: net.Socket) {
+        this.peerAddress = socket.remoteAddress ?? "";
+        this.peerPort = socket.remotePort ?? 0;
+        socket.setNoDelay(true);
+        socket.on("error", error => logger.debug(`Error on TCP connection to ${this.peerAddress}:`, error));
+    }
+
+    onData(listener: (data: Uint8Array) => void) {
+        const dataListener = (data: Buffer) => listener(new Uint8Array(data));
+        this.socket.on("data", dataListener);
+        return {
+            close: async () => {
+                this.socket.removeListener("data", dataListener);
+            },
+        };
+    }
+
+    onClose(listener: () => void) {
+        this.socket.on("close", listener);
+        return {
+            close: async () => {
+                this.socket.removeListener("close", listener);
+            },
+        };
+    }
+
+    send(data: Uint8Array) {
+        return new Promise<void>((resolve, reject) => {
+            this.socket.write(data, error => {
+                if (error) {
+                    const netError = new NetworkError(error.message);
+                    netError.stack = error.stack;
+                    reject(netError);
+                    return;
+                }
+                resolve();
+            });
+        });
+    }
+
+    async close() {
+        if (this.socket.destroyed) {
+            return;
+        }
+        await new Promise<void>(resolve => this.socket.end(resolve));
+        this.socket.destroy();
+    }
+}
+
+/**
+ * A TCP server based on a Node.js socket server.
+ */
+export class NodeJsTcpServer implements TcpServer {
+    static async create({ listeningPort, type, listeningAddress }: TcpServerOptions) {
+        const server = net.createServer();
+
+        // Without host Node.js listens dual-stack on "::" which collides with the tcp6 server on the same port
+        const host = listeningAddress ?? (type === "tcp4" ? "0.0.0.0" : "::");
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen({ port: listeningPort, host, ipv6Only: type === "tcp6" }, () => {
+                server.removeListener("error", reject);
+                resolve();
+            });
+        });
+        server.on("error", error => logger.error(error));
+
+        const address = server.address();
+        logger.debug(
+            "TCP server listening",
+            Diagnostic.dict({
+                address: typeof address === "string" ? address : `${address?.address}:${address?.port}`,
+            }),
+        );
+
+        return new NodeJsTcpServer(type, server);
+    }
+
+    constructor(
+        private readonly type: "tcp4" | "tcp6",
+        private readonly server: net.Server,
+    ) {}
+
+    onConnection(listener: (connection: TcpConnection) => void) {
+        const connectionListener = (socket: net.Socket) => {
+            const { remoteAddress } = socket;
+            if (remoteAddress === undefined || NodeJsNetwork.getNetInterfaceForIp(remoteAddress) === undefined) {
+                socket.destroy();
+                return;
+            }
+            listener(new NodeJsTcpConnection(socket));
+        };
+
+        this.server.on("connection", connectionListener);
+        return {
+            close: async () => {
+                this.server.removeListener("connection", connectionListener);
+            },
+        };
+    }
+
+    async close() {
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    get port() {
+        const address = this.server.address();
+        if (address === null || typeof address === "string") {
+            throw new NetworkError("TCP server is not listening on a port");
+        }
+        return address.port;
+    }
+
+    supports(type: ChannelType, address?: string) {
+        if (type !== ChannelType.TCP) {
+            return false;
+        }
+
+        if (address === undefined) {
+            return true;
+        }
+
+        if (this.type === "tcp4") {
+            return isIPv4(address);
+        }
+
+        return isIPv6(address);
+    }
+}
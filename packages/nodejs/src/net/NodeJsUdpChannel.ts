@@ -88,23 +88,11 @@ export class NodeJsUdpChannel implements UdpChannel {
             );
             socket.setMulticastInterface(multicastInterface);
         }
-        if (membershipAddresses !== undefined) {
-            const multicastInterfaces = NodeJsNetwork.getMembershipMulticastInterfaces(netInterface, type === "udp4");
-            for (const address of membershipAddresses) {
-                for (const multicastInterface of multicastInterfaces) {
-                    try {
-                        socket.addMembership(address, multicastInterface);
-                    } catch (error) {
-                        logger.warn(
-                            `Error adding membership for address ${address}${
-                                multicastInterface ? ` with interface ${multicastInterface}` : ""
-                            }: ${error}`,
-                        );
-                    }
-                }
-            }
+        const channel = new NodeJsUdpChannel(type, socket, netInterfaceZone, netInterface);
+        for (const address of membershipAddresses ?? []) {
+            await channel.addMembership(address);
         }
-        return new NodeJsUdpChannel(type, socket, netInterfaceZone);
+        return channel;
     }
 
     readonly maxPayloadSize = MAX_UDP_MESSAGE_SIZE;
@@ -113,6 +101,7 @@ export class NodeJsUdpChannel implements UdpChannel {
         private readonly type: "udp4" | "udp6",
         private readonly socket: dgram.Socket,
         private readonly netInterface?: string,
+        private readonly membershipNetInterface?: string,
     ) {}
 
     onData(listener: (netInterface: string, peerAddress: string, peerPort: number, data: Uint8Array) => void) {
@@ -147,6 +136,38 @@ export class NodeJsUdpChannel implements UdpChannel {
         });
     }
 
+    async addMembership(address: string) {
+        for (const multicastInterface of this.#membershipMulticastInterfaces) {
+            try {
+                this.socket.addMembership(address, multicastInterface);
+            } catch (error) {
+                logger.warn(
+                    `Error adding membership for address ${address}${
+                        multicastInterface ? ` with interface ${multicastInterface}` : ""
+                    }: ${error}`,
+                );
+            }
+        }
+    }
+
+    async dropMembership(address: string) {
+        for (const multicastInterface of this.#membershipMulticastInterfaces) {
+            try {
+                this.socket.dropMembership(address, multicastInterface);
+            } catch (error) {
+                logger.warn(
+                    `Error dropping membership for address ${address}${
+                        multicastInterface ? ` with interface ${multicastInterface}` : ""
+                    }: ${error}`,
+                );
+            }
+        }
+    }
+
+    get #membershipMulticastInterfaces() {
+        return NodeJsNetwork.getMembershipMulticastInterfaces(this.membershipNetInterface, this.type === "udp4");
+    }
+
     async close() {
         try {
             this.socket.close();
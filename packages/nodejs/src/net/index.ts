@@ -6,4 +6,5 @@
 
 import "./register.js";
 export * from "./NodeJsNetwork.js";
+export * from "./NodeJsTcpChannel.js";
 export * from "./NodeJsUdpChannel.js";
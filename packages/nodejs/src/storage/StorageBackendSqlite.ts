@@ -0,0 +1,281 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { fromJson, Logger, Storage, StorageError, SupportedStorageTypes, SyncStorage, toJson } from "#general";
+import type BetterSqlite3 from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+const logger = new Logger("StorageBackendSqlite");
+
+/**
+ * Storage backed by a single SQLite database file.
+ *
+ * Each value is a row keyed by its context (the joined context path) and key.  Multi-key sets are transactional.
+ *
+ * If you provide a storage to migrate from, {@link initialize} copies its content when the database is empty.  This
+ * allows a one-time migration from {@link StorageBackendDiskAsync} or {@link StorageBackendDisk}.
+ *
+ * SQLite support relies on the native "better-sqlite3" module.  This is an optional dependency you must install
+ * separately.  We only load it when you initialize the storage.
+ */
+export class StorageBackendSqlite extends SyncStorage {
+    readonly #path: string;
+    readonly #clear: boolean;
+    readonly #migrateFrom?: Storage;
+    #db?: BetterSqlite3.Database;
+    #statements?: ReturnType<typeof prepare>;
+
+    constructor(path: string, clear = false, migrateFrom?: Storage) {
+        super();
+        this.#path = path;
+        this.#clear = clear;
+        this.#migrateFrom = migrateFrom;
+    }
+
+    get initialized() {
+        return this.#db !== undefined;
+    }
+
+    /**
+     * Determine whether the "better-sqlite3" module is installed and its native binding loads.
+     */
+    static async isAvailable() {
+        try {
+            const Database = await loadDatabase();
+            new Database(":memory:").close();
+            return true;
+        } catch (e) {
+            logger.debug("SQLite storage is unavailable:", (e as Error).message);
+            return false;
+        }
+    }
+
+    async initialize() {
+        if (this.#db !== undefined) {
+            throw new StorageError("Storage already initialized!");
+        }
+
+        if (this.#path !== ":memory:") {
+            mkdirSync(dirname(this.#path), { recursive: true });
+        }
+        const Database = await loadDatabase();
+        const db = new Database(this.#path);
+        db.pragma("journal_mode = WAL");
+        db.exec(
+            "CREATE TABLE IF NOT EXISTS kv (context TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (context, key)) WITHOUT ROWID",
+        );
+        this.#db = db;
+        this.#statements = prepare(db);
+
+        if (this.#clear) {
+            this.clear();
+        }
+
+        // Migrate only into an empty database so we do not overwrite newer values on subsequent starts
+        if (this.#migrateFrom !== undefined && this.#statements.first.get() === undefined) {
+            const count = await this.importFrom(this.#migrateFrom);
+            if (count) {
+                logger.notice(`Migrated ${count} values to ${this.#path}`);
+            }
+        }
+    }
+
+    close() {
+        this.#db?.close();
+        this.#db = this.#statements = undefined;
+    }
+
+    clear() {
+        this.#statementsFor().clear.run();
+    }
+
+    getContextBaseKey(contexts: string[], allowEmptyContext = false) {
+        const contextKey = contexts.join(".");
+        if (
+            (!contextKey.length && !allowEmptyContext) ||
+            contextKey.includes("..") ||
+            contextKey.startsWith(".") ||
+            contextKey.endsWith(".")
+        )
+            throw new StorageError("Context must not be an empty and not contain dots.");
+        return contextKey;
+    }
+
+    #validateKey(key: string) {
+        if (!key.length) {
+            throw new StorageError("Key must not be an empty string.");
+        }
+        return key;
+    }
+
+    get<T extends SupportedStorageTypes>(contexts: string[], key: string): T | undefined {
+        const row = this.#statementsFor().get.get(this.getContextBaseKey(contexts), this.#validateKey(key)) as
+            | { value: string }
+            | undefined;
+        if (row === undefined) return undefined;
+        return fromJson(row.value) as T;
+    }
+
+    set(contexts: string[], key: string, value: SupportedStorageTypes): void;
+    set(contexts: string[], values: Record<string, SupportedStorageTypes>): void;
+    set(
+        contexts: string[],
+        keyOrValues: string | Record<string, SupportedStorageTypes>,
+        value?: SupportedStorageTypes,
+    ) {
+        const contextKey = this.getContextBaseKey(contexts);
+        const values = typeof keyOrValues === "string" ? { [keyOrValues]: value } : keyOrValues;
+        const { set } = this.#statementsFor();
+
+        this.#transaction(() => {
+            for (const [key, value] of Object.entries(values)) {
+                set.run(contextKey, this.#validateKey(key), toJson(value));
+            }
+        });
+    }
+
+    delete(contexts: string[], key: string) {
+        this.#statementsFor().delete.run(this.getContextBaseKey(contexts), this.#validateKey(key));
+    }
+
+    /** Returns all keys of a storage context without keys of sub-contexts */
+    keys(contexts: string[]) {
+        return this.#statementsFor().keys.all(this.getContextBaseKey(contexts)) as string[];
+    }
+
+    values(contexts: string[]) {
+        const values = {} as Record<string, SupportedStorageTypes>;
+        const rows = this.#statementsFor().values.all(this.getContextBaseKey(contexts)) as {
+            key: string;
+            value: string;
+        }[];
+        for (const { key, value } of rows) {
+            values[key] = fromJson(value);
+        }
+        return values;
+    }
+
+    contexts(contexts: string[]) {
+        const contextKey = this.getContextBaseKey(contexts, true);
+        const startContextKey = contextKey.length ? `${contextKey}.` : "";
+        const foundContexts = new Set<string>();
+
+        for (const context of this.#subcontextsOf(startContextKey)) {
+            foundContexts.add(context.substring(startContextKey.length).split(".")[0]);
+        }
+        return [...foundContexts];
+    }
+
+    clearAll(contexts: string[]) {
+        const contextKey = this.getContextBaseKey(contexts, true);
+        if (!contextKey.length) {
+            this.clear();
+            return;
+        }
+
+        this.#statementsFor().deleteContexts.run(contextKey, ...bounds(`${contextKey}.`));
+    }
+
+    /**
+     * Copy all values of another storage into this storage.  Existing values with the same context and key are
+     * replaced.  All values are written in a single transaction.
+     *
+     * Returns the number of values copied.
+     */
+    async importFrom(source: Storage) {
+        const wasInitialized = source.initialized;
+        if (!wasInitialized) {
+            await source.initialize();
+        }
+
+        const entries = new Array<[contextKey: string, key: string, value: string]>();
+        try {
+            const collect = async (contexts: string[]) => {
+                if (contexts.length) {
+                    const contextKey = this.getContextBaseKey(contexts);
+                    for (const [key, value] of Object.entries(await source.values(contexts))) {
+                        entries.push([contextKey, key, toJson(value)]);
+                    }
+                }
+                for (const context of await source.contexts(contexts)) {
+                    await collect([...contexts, context]);
+                }
+            };
+            await collect([]);
+        } finally {
+            if (!wasInitialized) {
+                await source.close();
+            }
+        }
+
+        const { set } = this.#statementsFor();
+        this.#transaction(() => {
+            for (const entry of entries) {
+                set.run(...entry);
+            }
+        });
+
+        return entries.length;
+    }
+
+    #subcontextsOf(startContextKey: string) {
+        const { allContexts, contextsIn } = this.#statementsFor();
+        if (!startContextKey.length) {
+            return allContexts.all() as string[];
+        }
+        return contextsIn.all(...bounds(startContextKey)) as string[];
+    }
+
+    #transaction(fn: () => void) {
+        if (this.#db === undefined) {
+            throw new StorageError("Storage not initialized.");
+        }
+        this.#db.transaction(fn)();
+    }
+
+    #statementsFor() {
+        if (this.#statements === undefined) {
+            throw new StorageError("Storage not initialized.");
+        }
+        return this.#statements;
+    }
+}
+
+async function loadDatabase(): Promise<typeof BetterSqlite3> {
+    try {
+        return (await import("better-sqlite3")).default;
+    } catch (e) {
+        throw new StorageError(
+            `SQLite storage requires the optional dependency "better-sqlite3" which failed to load: ${(e as Error).message}`,
+        );
+    }
+}
+
+function prepare(db: BetterSqlite3.Database) {
+    return {
+        first: db.prepare("SELECT 1 FROM kv LIMIT 1"),
+        get: db.prepare("SELECT value FROM kv WHERE context = ? AND key = ?"),
+        set: db.prepare("INSERT OR REPLACE INTO kv (context, key, value) VALUES (?, ?, ?)"),
+        delete: db.prepare("DELETE FROM kv WHERE context = ? AND key = ?"),
+        keys: db.prepare("SELECT key FROM kv WHERE context = ? ORDER BY key").pluck(),
+        values: db.prepare("SELECT key, value FROM kv WHERE context = ? ORDER BY key"),
+        allContexts: db.prepare("SELECT DISTINCT context FROM kv ORDER BY context").pluck(),
+        contextsIn: db
+            .prepare("SELECT DISTINCT context FROM kv WHERE context >= ? AND context < ? ORDER BY context")
+            .pluck(),
+        deleteContexts: db.prepare("DELETE FROM kv WHERE context = ? OR (context >= ? AND context < ?)"),
+        clear: db.prepare("DELETE FROM kv"),
+    };
+}
+
+/**
+ * Contexts below a context prefix ending in "." sort between the prefix and the prefix with "." replaced by "/", the
+ * next character.  This allows range queries on the primary key.
+ */
+function bounds(startContextKey: string): [string, string] {
+    return [startContextKey, `${startContextKey.slice(0, -1)}/`];
+}
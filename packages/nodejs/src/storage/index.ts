@@ -7,3 +7,4 @@
 export * from "./StorageBackendDisk.js";
 export * from "./StorageBackendDiskAsync.js";
 export * from "./StorageBackendJsonFile.js";
+export * from "./StorageBackendSqlite.js";
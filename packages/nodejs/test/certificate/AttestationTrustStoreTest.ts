@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NodeJsAttestationTrustStore } from "#environment/NodeJsAttestationTrustStore.js";
+import { Bytes } from "#general";
+import {
+    AttestationTrustStore,
+    CertificateManager,
+    TestCert_PAA_FFF1_Cert,
+    TestCert_PAA_FFF1_SKID,
+    TestCert_PAA_NoVID_SKID,
+} from "#protocol";
+import * as assert from "assert";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+const PAA_FFF1_PEM = [
+    "-----BEGIN CERTIFICATE-----",
+    ...(Bytes.toBase64(TestCert_PAA_FFF1_Cert).match(/.{1,64}/g) ?? []),
+    "-----END CERTIFICATE-----",
+].join("\n");
+
+describe("AttestationTrustStore", () => {
+    it("trusts the test PAAs by default", () => {
+        const store = new AttestationTrustStore();
+
+        assert.ok(store.authorityFor(TestCert_PAA_NoVID_SKID));
+        assert.ok(store.authorityFor(TestCert_PAA_FFF1_SKID));
+    });
+
+    it("does not trust the test PAAs if disabled", () => {
+        const store = new AttestationTrustStore({ includeTestCredentials: false });
+
+        assert.equal(store.authorities.length, 0);
+    });
+
+    it("enforces attestation unless disabled", () => {
+        assert.equal(new AttestationTrustStore().enforce, true);
+        assert.equal(new AttestationTrustStore({ enforce: false }).enforce, false);
+    });
+
+    it("imports approved PAAs from a DCL snapshot", () => {
+        const store = new AttestationTrustStore({ includeTestCredentials: false });
+
+        const result = store.importSnapshot({
+            approvedCertificates: [
+                {
+                    subject: "MDAxGDAWBgNVBAMMD01hdHRlciBUZXN0IFBBQQ==",
+                    subjectKeyId: "6A:FD:22:77:1F:51:1F:EC:BF:16:41:97:67:10:DC:DC:31:A1:71:7E",
+                    certs: [{ pemCert: PAA_FFF1_PEM, isRoot: true, vid: 0xfff1 }],
+                },
+                {
+                    certs: [{ pemCert: "not a certificate", isRoot: true }],
+                },
+            ],
+        });
+
+        assert.deepEqual(result, { authorities: 1, revocations: 0 });
+        assert.deepEqual(store.authorityFor(TestCert_PAA_FFF1_SKID)?.certificate, TestCert_PAA_FFF1_Cert);
+    });
+
+    it("removes revoked PAAs of a DCL snapshot", () => {
+        const store = new AttestationTrustStore();
+
+        store.importSnapshot({ revokedCertificates: [{ certs: [{ pemCert: PAA_FFF1_PEM, isRoot: true }] }] });
+
+        assert.equal(store.authorityFor(TestCert_PAA_FFF1_SKID), undefined);
+        assert.ok(store.authorityFor(TestCert_PAA_NoVID_SKID));
+    });
+
+    it("imports a revocation set", () => {
+        const store = new AttestationTrustStore();
+        const certificate = CertificateManager.parseAttestationCertificate(TestCert_PAA_FFF1_Cert);
+        const revoked = {
+            ...certificate,
+            extensions: { ...certificate.extensions, authorityKeyIdentifier: TestCert_PAA_FFF1_SKID },
+        };
+        assert.equal(store.isRevoked(revoked), false);
+
+        store.importSnapshot({
+            revocationSet: [
+                {
+                    type: "revocation_set",
+                    issuer_subject_key_id: Bytes.toHex(TestCert_PAA_FFF1_SKID).toUpperCase(),
+                    revoked_serial_numbers: [`00${Bytes.toHex(certificate.serialNumber)}`],
+                },
+            ],
+        });
+
+        assert.equal(store.isRevoked(revoked), true);
+    });
+
+    describe("DCL download", () => {
+        let server: Server;
+        let url: string;
+        let requests: string[];
+
+        before(async () => {
+            const subject = "MDAxGDAWBgNVBAMMD01hdHRlciBUZXN0IFBBQQ==";
+            const subjectKeyId = "6A:FD:22:77:1F:51:1F:EC:BF:16:41:97:67:10:DC:DC:31:A1:71:7E";
+            const responses: Record<string, unknown> = {
+                "/dcl/pki/root-certificates": {
+                    approvedRootCertificates: { certs: [{ subject, subjectKeyId }] },
+                },
+                [`/dcl/pki/certificates/${encodeURIComponent(subject)}/${encodeURIComponent(subjectKeyId)}`]: {
+                    approvedCertificates: { subject, subjectKeyId, certs: [{ pemCert: PAA_FFF1_PEM, isRoot: true }] },
+                },
+            };
+
+            server = createServer((request, response) => {
+                requests.push(request.url ?? "");
+                const body = responses[request.url ?? ""];
+                response.statusCode = body === undefined ? 404 : 200;
+                response.end(JSON.stringify(body ?? {}));
+            });
+            await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        beforeEach(() => {
+            requests = [];
+        });
+
+        after(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it("downloads approved PAAs on update", async () => {
+            const store = new NodeJsAttestationTrustStore({ includeTestCredentials: false, dclUrl: url });
+            assert.equal(store.authorityFor(TestCert_PAA_FFF1_SKID), undefined);
+
+            await store.update();
+
+            assert.deepEqual(store.authorityFor(TestCert_PAA_FFF1_SKID)?.certificate, TestCert_PAA_FFF1_Cert);
+            assert.equal(requests.length, 2);
+
+            // The PAAs are current so we do not download again
+            await store.update();
+            assert.equal(requests.length, 2);
+        });
+
+        it("keeps its PAAs if the download fails", async () => {
+            const store = new NodeJsAttestationTrustStore({ dclUrl: `${url}/missing` });
+
+            await store.update();
+
+            assert.equal(store.authorities.length, 2);
+            assert.equal(requests.length, 1);
+        });
+    });
+});
@@ -6,7 +6,9 @@
 
 import { Bytes, Crypto, DerCodec, DerKey, DerNode, PrivateKey, PublicKey, X962 } from "#general";
 import {
+    CertificateError,
     CertificateManager,
+    LastKnownGoodTime,
     TlvIntermediateCertificate,
     TlvOperationalCertificate,
     TlvRootCertificate,
@@ -21,9 +23,12 @@ import {
     TEST_PUBLIC_KEY,
 } from "./TestCertificates.js";
 
+// 2024-04-23, all test certificates are valid at this time
+const TEST_TIME = 1713843751000;
+
 describe("CertificateManager", () => {
-    before(() => {
-        MockTime.reset(767158951000);
+    beforeEach(() => {
+        MockTime.reset(TEST_TIME);
     });
 
     /**
@@ -240,6 +245,45 @@ describe("CertificateManager", () => {
         });
     });
 
+    describe("validity period", () => {
+        const certs = CERTIFICATE_SETS["SmartThings Certificates"];
+
+        let lastKnownGoodTime: LastKnownGoodTime;
+
+        beforeEach(() => {
+            lastKnownGoodTime = new LastKnownGoodTime();
+        });
+
+        function verifyNoc() {
+            CertificateManager.verifyNodeOperationalCertificate(
+                TlvIntermediateCertificate.decode(certs.ICAC.TLV),
+                TlvOperationalCertificate.decode(certs.NOC.TLV),
+                lastKnownGoodTime,
+            );
+        }
+
+        it("rejects an expired certificate", () => {
+            MockTime.reset(Date.parse("2025-02-01T00:00:00Z"));
+
+            assert.throws(verifyNoc, CertificateError);
+        });
+
+        it("rejects a certificate that is not yet valid", () => {
+            MockTime.reset(Date.parse("2024-01-01T00:00:00Z"));
+
+            assert.throws(verifyNoc, CertificateError);
+        });
+
+        it("only checks NotAfter if the clock is behind the last known good time", () => {
+            lastKnownGoodTime.update(Date.parse("2024-12-01T00:00:00Z"));
+            MockTime.reset(Date.parse("2024-01-01T00:00:00Z"));
+            verifyNoc();
+
+            lastKnownGoodTime.update(Date.parse("2025-02-01T00:00:00Z"));
+            assert.throws(verifyNoc, CertificateError);
+        });
+    });
+
     describe("decodeIcacCertificate", () => {
         it("decodes a correct ICAC cert", () => {
             const SPECS_ICAC_CERT_TLV = TlvIntermediateCertificate.decode(
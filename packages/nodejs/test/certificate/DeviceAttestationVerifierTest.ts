@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NodeJsCrypto } from "#crypto/NodeJsCrypto.js";
+import { Bytes, Crypto, PrivateKey, singleton } from "#general";
+import {
+    AttestationCertificateManager,
+    AttestationTrustStore,
+    CertificateManager,
+    CertificationDeclarationManager,
+    DeviceAttestationError,
+    DeviceAttestationFailure,
+    DeviceAttestationVerifier,
+    TestCert_PAA_NoVID_Cert,
+    TestCert_PAA_NoVID_PrivateKey,
+    TestCert_PAA_NoVID_SKID,
+    TlvAttestation,
+    TlvCertSigningRequest,
+} from "#protocol";
+import { VendorId } from "#types";
+import * as assert from "assert";
+
+const VENDOR_ID = VendorId(0xfff1);
+const PRODUCT_ID = 0x8000;
+
+function createAttestation(options: { declarationVendorId?: VendorId; declarationProductId?: number } = {}) {
+    const certificates = new AttestationCertificateManager(VENDOR_ID);
+    const { keyPair, dac } = certificates.getDACert(PRODUCT_ID);
+    const attestationNonce = Crypto.getRandomData(32);
+    const attestationChallenge = Crypto.getRandomData(16);
+    const attestationElements = TlvAttestation.encode({
+        declaration: CertificationDeclarationManager.generate(
+            options.declarationVendorId ?? VENDOR_ID,
+            options.declarationProductId ?? PRODUCT_ID,
+        ),
+        attestationNonce,
+        timestamp: 0,
+    });
+
+    return {
+        keyPair,
+        attestation: {
+            deviceAttestationCertificate: dac,
+            productAttestationIntermediateCertificate: certificates.getPAICert(),
+            attestationElements,
+            attestationSignature: Crypto.sign(keyPair, [attestationElements, attestationChallenge]),
+            attestationNonce,
+            attestationChallenge,
+        },
+    };
+}
+
+function assertFailure(verify: () => void, failure: DeviceAttestationFailure) {
+    assert.throws(verify, error => error instanceof DeviceAttestationError && error.failure === failure);
+}
+
+describe("DeviceAttestationVerifier", () => {
+    const originalCrypto = Crypto.get;
+
+    before(() => {
+        MockTime.reset(1_700_000_000_000);
+
+        // Other tests replace signature verification with a no-op, but we need the real one
+        Crypto.get = singleton(() => new NodeJsCrypto());
+    });
+
+    after(() => {
+        Crypto.get = originalCrypto;
+    });
+
+    it("parses the test PAA certificate", () => {
+        const paa = CertificateManager.parseAttestationCertificate(TestCert_PAA_NoVID_Cert);
+
+        assert.equal(paa.subject.commonName, "Matter Test PAA");
+        assert.equal(paa.subject.vendorId, undefined);
+        assert.equal(paa.extensions.basicConstraints.isCa, true);
+        assert.equal(paa.extensions.keyUsage.keyCertSign, true);
+        assert.deepEqual(paa.extensions.subjectKeyIdentifier, TestCert_PAA_NoVID_SKID);
+    });
+
+    it("accepts a valid attestation", () => {
+        const { keyPair, attestation } = createAttestation();
+
+        const result = new DeviceAttestationVerifier(new AttestationTrustStore()).verify(attestation);
+
+        assert.equal(result.vendorId, VENDOR_ID);
+        assert.equal(result.productId, PRODUCT_ID);
+        assert.deepEqual(result.dacPublicKey, keyPair.publicKey);
+        assert.deepEqual(result.declaration.produceIdArray, [PRODUCT_ID]);
+    });
+
+    it("rejects a PAA that is not trusted", () => {
+        const { attestation } = createAttestation();
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore({ includeTestCredentials: false }));
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.UntrustedAuthority);
+    });
+
+    it("rejects a DAC with invalid signature", () => {
+        const { attestation } = createAttestation();
+        const dac = Uint8Array.from(attestation.deviceAttestationCertificate);
+        dac[dac.length - 1] ^= 0xff;
+        attestation.deviceAttestationCertificate = dac;
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.InvalidCertificateChain);
+    });
+
+    it("rejects a revoked DAC", () => {
+        const { attestation } = createAttestation();
+        const dac = CertificateManager.parseAttestationCertificate(attestation.deviceAttestationCertificate);
+        const trustStore = new AttestationTrustStore();
+        trustStore.addRevocation(dac.extensions.authorityKeyIdentifier!, [dac.serialNumber]);
+        const verifier = new DeviceAttestationVerifier(trustStore);
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.CertificateRevoked);
+    });
+
+    it("rejects an expired DAC", async () => {
+        const { attestation } = createAttestation();
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+        await MockTime.advance(20 * 365 * 24 * 60 * 60 * 1000);
+
+        try {
+            assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.CertificateExpired);
+        } finally {
+            MockTime.reset(1_700_000_000_000);
+        }
+    });
+
+    it("rejects a wrong nonce", () => {
+        const { attestation } = createAttestation();
+        attestation.attestationNonce = Crypto.getRandomData(32);
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.NonceMismatch);
+    });
+
+    it("rejects a signature not made with the DAC key", () => {
+        const { attestation } = createAttestation();
+        attestation.attestationSignature = Crypto.sign(PrivateKey(TestCert_PAA_NoVID_PrivateKey), [
+            attestation.attestationElements,
+            attestation.attestationChallenge,
+        ]);
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.InvalidSignature);
+    });
+
+    it("rejects a certification declaration of another product", () => {
+        const { attestation } = createAttestation({ declarationProductId: 0x8001 });
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+
+        assertFailure(() => verifier.verify(attestation), DeviceAttestationFailure.CertificationDeclarationMismatch);
+    });
+
+    it("verifies the CSR response", () => {
+        const { keyPair, attestation } = createAttestation();
+        const verifier = new DeviceAttestationVerifier(new AttestationTrustStore());
+        const { dacPublicKey } = verifier.verify(attestation);
+
+        const csrNonce = Crypto.getRandomData(32);
+        const nocsrElements = TlvCertSigningRequest.encode({
+            certSigningRequest: CertificateManager.createCertificateSigningRequest(Crypto.createKeyPair()),
+            csrNonce,
+        });
+        const csrResponse = {
+            dacPublicKey,
+            nocsrElements,
+            attestationSignature: Crypto.sign(keyPair, [nocsrElements, attestation.attestationChallenge]),
+            csrNonce,
+            attestationChallenge: attestation.attestationChallenge,
+        };
+
+        assert.deepEqual(verifier.verifyCsr(csrResponse).csrNonce, csrNonce);
+        assertFailure(
+            () => verifier.verifyCsr({ ...csrResponse, csrNonce: Bytes.fromHex("00".repeat(32)) }),
+            DeviceAttestationFailure.NonceMismatch,
+        );
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes } from "#general";
+import { CheckInMessage } from "#protocol";
+
+const KEY = Bytes.fromHex("000102030405060708090a0b0c0d0e0f");
+
+describe("CheckInMessage", () => {
+    it("encodes and decodes the payload", () => {
+        const payload = CheckInMessage.encode(KEY, { counter: 0x12345678, activeModeThreshold: 5000 });
+
+        // Nonce, encrypted counter and threshold and MIC
+        expect(payload.length).equal(13 + 6 + 16);
+        expect(CheckInMessage.decode(KEY, payload)).deep.equal({ counter: 0x12345678, activeModeThreshold: 5000 });
+    });
+
+    it("derives a different nonce for each counter", () => {
+        const first = CheckInMessage.encode(KEY, { counter: 1, activeModeThreshold: 300 });
+        const second = CheckInMessage.encode(KEY, { counter: 2, activeModeThreshold: 300 });
+
+        expect(first.slice(0, 13)).not.deep.equal(second.slice(0, 13));
+    });
+
+    it("rejects payloads encrypted with another key", () => {
+        const payload = CheckInMessage.encode(KEY, { counter: 1, activeModeThreshold: 300 });
+
+        expect(() => CheckInMessage.decode(Bytes.fromHex("0f0e0d0c0b0a09080706050403020100"), payload)).throws();
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IcdManagement } from "#clusters/icd-management";
+import {
+    Bytes,
+    NetInterfaceSet,
+    NoResponseTimeoutError,
+    StorageBackendMemory,
+    StorageManager,
+    TransportInterfaceSet,
+} from "#general";
+import {
+    ChannelManager,
+    CheckInMessage,
+    ExchangeManager,
+    FabricManager,
+    OperationalPeer,
+    PeerAddress,
+    PeerAddressStore,
+    PeerDataStore,
+    PeerSet,
+    ScannerSet,
+    SessionManager,
+    StatusReportOnlySecureChannelProtocol,
+    SubscriptionClient,
+} from "#protocol";
+import { EndpointNumber, FabricIndex, NodeId } from "#types";
+
+const KEY = Bytes.fromHex("000102030405060708090a0b0c0d0e0f");
+const OTHER_KEY = Bytes.fromHex("0f0e0d0c0b0a09080706050403020100");
+
+const ADDRESS = PeerAddress({ fabricIndex: FabricIndex(1), nodeId: NodeId(0x20) });
+
+class MemoryPeerStore extends PeerAddressStore {
+    updates = new Array<OperationalPeer>();
+
+    constructor(private readonly peers: OperationalPeer[]) {
+        super();
+    }
+
+    loadPeers() {
+        return this.peers;
+    }
+
+    updatePeer(peer: OperationalPeer) {
+        this.updates.push({ ...peer, icdRegistration: peer.icdRegistration && { ...peer.icdRegistration } });
+    }
+
+    deletePeer() {}
+
+    createNodeStore(): Promise<PeerDataStore> {
+        throw new Error("Not supported");
+    }
+}
+
+async function createPeerSet(idleModeDuration?: number) {
+    const storage = new StorageManager(new StorageBackendMemory());
+    await storage.initialize();
+    const sessions = new SessionManager({
+        fabrics: new FabricManager(),
+        storage: storage.createContext("session"),
+    });
+    const channels = new ChannelManager();
+    const exchanges = new ExchangeManager({
+        sessionManager: sessions,
+        channelManager: channels,
+        transportInterfaces: new TransportInterfaceSet(),
+    });
+    exchanges.addProtocolHandler(new SubscriptionClient());
+
+    const secureChannel = new StatusReportOnlySecureChannelProtocol();
+    const store = new MemoryPeerStore([
+        {
+            address: ADDRESS,
+            discoveryData: { ICD: 1 },
+            icdRegistration: {
+                checkInNodeId: NodeId(1),
+                monitoredSubject: NodeId(1),
+                key: KEY,
+                counter: 10,
+                idleModeDuration,
+            },
+        },
+    ]);
+
+    const peers = new PeerSet({
+        sessions,
+        channels,
+        exchanges,
+        scanners: new ScannerSet(),
+        netInterfaces: new NetInterfaceSet(),
+        store,
+        secureChannel,
+    });
+    await peers.construction.ready;
+
+    const checkIns = new Array<number>();
+    peers.checkedIn.on((address, { counter }) => {
+        expect(address).equals(ADDRESS);
+        checkIns.push(counter);
+    });
+
+    const checkIn = (counter: number, key = KEY) =>
+        secureChannel.checkInReceived.emit(CheckInMessage.encode(key, { counter, activeModeThreshold: 1000 }));
+
+    return { peers, store, checkIns, checkIn };
+}
+
+describe("PeerSet Check-In handling", () => {
+    beforeEach(() => {
+        MockTime.reset();
+    });
+
+    it("accepts Check-In messages from registered ICDs", async () => {
+        const { store, checkIns, checkIn } = await createPeerSet();
+
+        checkIn(11);
+        expect(checkIns).deep.equals([11]);
+        expect(store.updates[0].icdRegistration?.counter).equals(11);
+
+        // Replayed messages and messages with unknown keys are ignored
+        checkIn(11);
+        checkIn(5);
+        checkIn(12, OTHER_KEY);
+        expect(checkIns).deep.equals([11]);
+
+        checkIn(12);
+        expect(checkIns).deep.equals([11, 12]);
+    });
+
+    it("queues invokes until an idle ICD checks in", async () => {
+        const { peers, checkIn } = await createPeerSet();
+
+        const client = await peers.initializeInteractionClient(ADDRESS);
+        let settled = false;
+        const invoke = client
+            .invoke({
+                endpointId: EndpointNumber(0),
+                clusterId: IcdManagement.Cluster.id,
+                command: IcdManagement.Complete.commands.stayActiveRequest,
+                request: { stayActiveDuration: 1000 },
+            })
+            .finally(() => (settled = true));
+
+        await MockTime.yield();
+        expect(settled).equals(false);
+
+        checkIn(11);
+
+        // The invoke proceeds but fails as there is no actual device in this test
+        await expect(invoke).rejected;
+    });
+
+    it("fails queued invokes if an idle ICD does not check in", async () => {
+        const { peers } = await createPeerSet(10);
+
+        const client = await peers.initializeInteractionClient(ADDRESS);
+        let settled = false;
+        const invoke = client
+            .invoke({
+                endpointId: EndpointNumber(0),
+                clusterId: IcdManagement.Cluster.id,
+                command: IcdManagement.Complete.commands.stayActiveRequest,
+                request: { stayActiveDuration: 1000 },
+            })
+            .finally(() => (settled = true));
+        const result = expect(invoke).rejectedWith(NoResponseTimeoutError, "did not check in within 20s");
+
+        // We wait for two idle mode durations
+        await MockTime.advance(19_000);
+        expect(settled).equals(false);
+
+        await MockTime.advance(1_000);
+        await result;
+    });
+});
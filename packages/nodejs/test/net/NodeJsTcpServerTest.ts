@@ -0,0 +1,26 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChannelType } from "#general";
+import { NodeJsTcpServer } from "#net/NodeJsTcpChannel.js";
+
+describe("NodeJsTcpServer", () => {
+    it("listens with tcp6 and tcp4 on the same port without listening address", async () => {
+        const tcp6 = await NodeJsTcpServer.create({ type: "tcp6", listeningPort: 0 });
+        try {
+            const tcp4 = await NodeJsTcpServer.create({ type: "tcp4", listeningPort: tcp6.port });
+            try {
+                expect(tcp4.port).equals(tcp6.port);
+                expect(tcp4.supports(ChannelType.TCP, "127.0.0.1")).true;
+                expect(tcp6.supports(ChannelType.TCP, "::1")).true;
+            } finally {
+                await tcp4.close();
+            }
+        } finally {
+            await tcp6.close();
+        }
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Environment, MockNetwork, Network, StorageBackendMemory, StorageService } from "#general";
+import { ServerNode } from "#node";
+import { CertificateAuthority, FabricBuilder, FabricManager } from "#protocol";
+import { FabricId, FabricIndex, NodeId, VendorId } from "#types";
+
+// Fixtures for tests of nodes that communicate via simulated network
+
+export const VENDOR_ID = VendorId(0xfff1);
+export const FABRIC_ID = FabricId(1);
+export const FABRIC_INDEX = FabricIndex(1);
+export const IPK = Bytes.fromHex("74656d706f726172792069706b203031");
+
+/**
+ * Node ID, MAC and IPv6 address of a simulated peer.  The ID is the last byte of the addresses.
+ */
+export function TestPeer(id: number) {
+    const suffix = id.toString(16).padStart(2, "0");
+    return {
+        nodeId: NodeId(id),
+        mac: `00:11:22:33:44:${suffix}`,
+        ip: `fdce:7c65:b2dd:7d46:923f:8a53:eb6c:${suffix}`,
+    };
+}
+
+/**
+ * Create an environment with memory storage and a simulated network interface.
+ */
+export function createEnvironment(name: string, { mac, ip }: { mac: string; ip: string }) {
+    const env = new Environment(name);
+    const storage = env.get(StorageService);
+    storage.location = "(memory)";
+    storage.factory = () => new StorageBackendMemory();
+    env.set(Network, new MockNetwork(mac, [ip]));
+    env.vars.set("mdns.ipv4", false);
+    return env;
+}
+
+/**
+ * Add the fabric of a certificate authority to a node.
+ */
+export async function addFabric(node: ServerNode, ca: CertificateAuthority, nodeId: NodeId) {
+    const builder = new FabricBuilder()
+        .setRootCert(ca.rootCert)
+        .setRootNodeId(NodeId(1))
+        .setRootVendorId(VENDOR_ID)
+        .setIdentityProtectionKey(IPK);
+    builder.setOperationalCert(ca.generateNoc(builder.publicKey, FABRIC_ID, nodeId));
+    const fabric = await builder.build(FABRIC_INDEX);
+    node.env.get(FabricManager).addFabric(fabric);
+    return fabric;
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Crypto } from "#general";
+import { OtaImage, OtaImageError, OtaImageRepository } from "#protocol";
+import { VendorId } from "#types";
+import * as assert from "assert";
+
+const VENDOR_ID = VendorId(0xfff1);
+const PRODUCT_ID = 0x8000;
+
+function createImage(
+    softwareVersion: number,
+    options: { minApplicableSoftwareVersion?: number; maxApplicableSoftwareVersion?: number } = {},
+) {
+    return OtaImage.create(
+        {
+            vendorId: VENDOR_ID,
+            productId: PRODUCT_ID,
+            softwareVersion,
+            softwareVersionString: `v${softwareVersion}`,
+            ...options,
+        },
+        Bytes.fromString(`firmware ${softwareVersion}`),
+    );
+}
+
+describe("OtaImage", () => {
+    it("validates an image", () => {
+        const { header, payloadOffset, totalSize } = OtaImage.validate(createImage(2));
+
+        assert.equal(header.softwareVersion, 2);
+        assert.equal(header.softwareVersionString, "v2");
+        assert.equal(totalSize, payloadOffset + "firmware 2".length);
+    });
+
+    it("encodes header fields", () => {
+        const payload = Bytes.fromString("firmware");
+        const image = OtaImage.create(
+            {
+                vendorId: VENDOR_ID,
+                productId: PRODUCT_ID,
+                softwareVersion: 3,
+                softwareVersionString: "3.0",
+                minApplicableSoftwareVersion: 1,
+                maxApplicableSoftwareVersion: 2,
+                releaseNotesUrl: "https://example.com/notes",
+            },
+            payload,
+        );
+
+        const { header, payloadOffset } = OtaImage.validate(image);
+        assert.deepEqual(header, {
+            vendorId: VENDOR_ID,
+            productId: PRODUCT_ID,
+            softwareVersion: 3,
+            softwareVersionString: "3.0",
+            payloadSize: payload.length,
+            minApplicableSoftwareVersion: 1,
+            maxApplicableSoftwareVersion: 2,
+            releaseNotesUrl: "https://example.com/notes",
+            imageDigestType: OtaImage.DIGEST_TYPE_SHA256,
+            imageDigest: Crypto.hash(payload),
+        });
+        assert.deepEqual(image.subarray(payloadOffset), payload);
+        assert.deepEqual(image.subarray(0, 4), Bytes.fromHex("1ef1ee1b"));
+    });
+
+    it("rejects an invalid file identifier", () => {
+        const image = createImage(2);
+        image[0] = 0;
+
+        assert.throws(() => OtaImage.decodeHeader(image), OtaImageError);
+    });
+
+    it("rejects a modified payload", () => {
+        const image = createImage(2);
+        image[image.length - 1] ^= 0xff;
+
+        assert.throws(() => OtaImage.validate(image), /digest does not match/);
+    });
+
+    it("rejects a truncated image", () => {
+        const image = createImage(2);
+
+        assert.throws(() => OtaImage.validate(image.subarray(0, image.length - 1)), /declares/);
+    });
+});
+
+describe("OtaImageRepository", () => {
+    it("finds the newest applicable image", () => {
+        const repository = new OtaImageRepository();
+        repository.add("v2.ota", createImage(2));
+        repository.add("v3.ota", createImage(3, { minApplicableSoftwareVersion: 2 }));
+
+        const query = { vendorId: VENDOR_ID, productId: PRODUCT_ID };
+        assert.equal(repository.find({ ...query, softwareVersion: 1 })?.name, "v2.ota");
+        assert.equal(repository.find({ ...query, softwareVersion: 2 })?.name, "v3.ota");
+        assert.equal(repository.find({ ...query, softwareVersion: 3 }), undefined);
+        assert.equal(repository.find({ ...query, productId: 1, softwareVersion: 1 }), undefined);
+    });
+});
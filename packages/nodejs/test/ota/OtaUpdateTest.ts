@@ -0,0 +1,223 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AccessControl } from "#clusters/access-control";
+import { OtaSoftwareUpdateRequestor } from "#clusters/ota-software-update-requestor";
+import { Bytes, StorageBackendMemory, StorageManager } from "#general";
+import { ServerNode } from "#node";
+import { CertificateAuthority, OtaImage, OtaImageRepository } from "#protocol";
+import { EndpointNumber } from "#types";
+import { BasicInformationServer } from "@matter/node/behaviors/basic-information";
+import { OtaSoftwareUpdateProviderServer } from "@matter/node/behaviors/ota-software-update-provider";
+import { OtaSoftwareUpdateRequestorServer } from "@matter/node/behaviors/ota-software-update-requestor";
+import { addFabric, createEnvironment, FABRIC_INDEX, TestPeer, VENDOR_ID } from "../node/NodeTestingUtil.js";
+
+import UpdateState = OtaSoftwareUpdateRequestor.UpdateState;
+import ChangeReason = OtaSoftwareUpdateRequestor.ChangeReason;
+
+const PRODUCT_ID = 0x8000;
+
+const PROVIDER = TestPeer(0x10);
+const REQUESTOR = TestPeer(0x20);
+
+const PAYLOAD = Bytes.fromString("firmware 2 ".repeat(1000));
+
+/**
+ * A requestor that "installs" an image by switching to the new software version without restart.
+ */
+class TestRequestorServer extends OtaSoftwareUpdateRequestorServer {
+    static readonly applied = new Array<OtaSoftwareUpdateRequestorServer.Update>();
+
+    protected override applyUpdate(update: OtaSoftwareUpdateRequestorServer.Update) {
+        TestRequestorServer.applied.push(update);
+        this.agent.get(BasicInformationServer).state.softwareVersion = update.softwareVersion;
+    }
+}
+
+let nodes: ServerNode[] = [];
+
+async function createNodes() {
+    const storage = new StorageManager(new StorageBackendMemory());
+    await storage.initialize();
+    const ca = await CertificateAuthority.create(storage.createContext("ca"));
+
+    const provider = await ServerNode.create(ServerNode.RootEndpoint.with(OtaSoftwareUpdateProviderServer), {
+        id: "provider",
+        environment: createEnvironment("provider", PROVIDER),
+        network: { port: 5540, listeningAddressIpv6: PROVIDER.ip, ipv4: false },
+        basicInformation: { vendorId: VENDOR_ID, productId: 0x8001 },
+    });
+    await addFabric(provider, ca, PROVIDER.nodeId);
+    await provider.set({
+        accessControl: {
+            acl: [
+                {
+                    fabricIndex: FABRIC_INDEX,
+                    privilege: AccessControl.AccessControlEntryPrivilege.Operate,
+                    authMode: AccessControl.AccessControlEntryAuthMode.Case,
+                    subjects: [REQUESTOR.nodeId],
+                    targets: null,
+                },
+            ],
+        },
+    });
+    provider.env.get(OtaImageRepository).add(
+        "v2.ota",
+        OtaImage.create(
+            {
+                vendorId: VENDOR_ID,
+                productId: PRODUCT_ID,
+                softwareVersion: 2,
+                softwareVersionString: "2.0",
+            },
+            PAYLOAD,
+        ),
+    );
+
+    const requestor = await ServerNode.create(ServerNode.RootEndpoint.with(TestRequestorServer), {
+        id: "requestor",
+        environment: createEnvironment("requestor", REQUESTOR),
+        network: { port: 5541, listeningAddressIpv6: REQUESTOR.ip, ipv4: false },
+        basicInformation: { vendorId: VENDOR_ID, productId: PRODUCT_ID, softwareVersion: 1 },
+    });
+    await addFabric(requestor, ca, REQUESTOR.nodeId);
+    await requestor.set({
+        otaSoftwareUpdateRequestor: {
+            defaultOtaProviders: [
+                { providerNodeId: PROVIDER.nodeId, endpoint: EndpointNumber(0), fabricIndex: FABRIC_INDEX },
+            ],
+        },
+    });
+
+    nodes = [requestor, provider];
+    await provider.start();
+    await requestor.start();
+
+    const transitions = new Array<[UpdateState, ChangeReason]>();
+    requestor.eventsOf(TestRequestorServer).stateTransition.on(({ newState, reason }) => {
+        transitions.push([newState, reason]);
+    });
+
+    const progress = new Array<number | null>();
+    requestor.eventsOf(TestRequestorServer).updateStateProgress$Changed.on(value => {
+        progress.push(value);
+    });
+
+    return { provider, requestor, transitions, progress };
+}
+
+async function checkForUpdate(requestor: ServerNode) {
+    await requestor.act(agent => agent.get(TestRequestorServer).checkForUpdate());
+}
+
+describe("OTA update", () => {
+    before(() => {
+        // The nodes communicate via simulated network in real time
+        MockTime.disable();
+    });
+
+    after(() => {
+        MockTime.enable();
+    });
+
+    beforeEach(() => {
+        TestRequestorServer.applied.length = 0;
+    });
+
+    afterEach(async () => {
+        // Closing the runtime disposes of services such as mDNS that outlive the node and run real timers
+        for (const node of nodes) {
+            await node.close();
+            await node.env.runtime.close();
+        }
+        nodes = [];
+    });
+
+    it("downloads, applies and confirms an update", async () => {
+        const { provider, requestor, transitions, progress } = await createNodes();
+
+        const versionApplied = new Promise<OtaSoftwareUpdateRequestor.VersionAppliedEvent>(resolve =>
+            requestor.eventsOf(TestRequestorServer).versionApplied.once(resolve),
+        );
+        const updateApplied = new Promise<OtaSoftwareUpdateProviderServer.AppliedUpdate>(resolve =>
+            provider.eventsOf(OtaSoftwareUpdateProviderServer).updateApplied.once(resolve),
+        );
+
+        await checkForUpdate(requestor);
+
+        // NotifyUpdateApplied reaches the provider after the requestor confirmed the new version
+        expect(await updateApplied).deep.equals({
+            fabricIndex: FABRIC_INDEX,
+            nodeId: REQUESTOR.nodeId,
+            softwareVersion: 2,
+        });
+        expect(await versionApplied).deep.equals({ softwareVersion: 2, productId: PRODUCT_ID });
+
+        expect(TestRequestorServer.applied.length).equals(1);
+        const [{ softwareVersion, softwareVersionString, image }] = TestRequestorServer.applied;
+        expect(softwareVersion).equals(2);
+        expect(softwareVersionString).equals("2.0");
+        expect(OtaImage.validate(image).header.softwareVersion).equals(2);
+        expect(Bytes.areEqual(image.slice(image.length - PAYLOAD.length), PAYLOAD)).true;
+
+        expect(transitions).deep.equals([
+            [UpdateState.Querying, ChangeReason.Success],
+            [UpdateState.Downloading, ChangeReason.Success],
+            [UpdateState.Applying, ChangeReason.Success],
+            [UpdateState.Idle, ChangeReason.Success],
+        ]);
+
+        // Progress starts at zero, increases while downloading and resets after the download
+        expect(progress[0]).equals(0);
+        expect(progress.at(-1)).equals(null);
+        const percentages = progress.filter(value => value !== null);
+        expect(percentages.length).greaterThan(2);
+        expect(percentages).deep.equals([...percentages].sort((a, b) => a - b));
+        expect(percentages.at(-1)).equals(100);
+
+        const state = requestor.stateOf(TestRequestorServer);
+        expect(state.updateState).equals(UpdateState.Idle);
+        expect(state.pendingUpdate).undefined;
+        expect(requestor.stateOf(BasicInformationServer).softwareVersion).equals(2);
+    }).timeout(10_000);
+
+    it("reports download errors", async () => {
+        const { provider, requestor, transitions } = await createNodes();
+
+        // Withdraw the image after the provider offered it so the transfer fails
+        requestor.eventsOf(TestRequestorServer).stateTransition.on(({ newState }) => {
+            if (newState === UpdateState.Downloading) {
+                provider.env.get(OtaImageRepository).delete("v2.ota");
+            }
+        });
+
+        const downloadError = new Promise<OtaSoftwareUpdateRequestor.DownloadErrorEvent>(resolve =>
+            requestor.eventsOf(TestRequestorServer).downloadError.once(resolve),
+        );
+
+        await checkForUpdate(requestor);
+
+        expect(await downloadError).deep.equals({
+            softwareVersion: 2,
+            bytesDownloaded: 0,
+            progressPercent: null,
+            platformCode: null,
+        });
+
+        // Wait for the update to end
+        while (requestor.stateOf(TestRequestorServer).updateState !== UpdateState.Idle) {
+            await new Promise(resolve => requestor.eventsOf(TestRequestorServer).stateTransition.once(resolve));
+        }
+
+        expect(transitions).deep.equals([
+            [UpdateState.Querying, ChangeReason.Success],
+            [UpdateState.Downloading, ChangeReason.Success],
+            [UpdateState.Idle, ChangeReason.Failure],
+        ]);
+        expect(TestRequestorServer.applied).deep.equals([]);
+        expect(requestor.stateOf(BasicInformationServer).softwareVersion).equals(1);
+    }).timeout(10_000);
+});
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GroupKeyManagement } from "#clusters/group-key-management";
+import { Bytes, StorageBackendMemory, StorageContext } from "#general";
+import {
+    DuplicateMessageError,
+    Fabric,
+    FabricGroups,
+    FabricManager,
+    Message,
+    MessageCodec,
+    SessionManager,
+    SessionParameters,
+    SessionType,
+} from "#protocol";
+import { FabricId, GroupId, INTERACTION_PROTOCOL_ID, NodeId } from "#types";
+import * as assert from "assert";
+import { buildFabric } from "../fabric/FabricTestingUtil.js";
+
+const EPOCH_KEY = Bytes.fromHex("235BF7E62823D358DCA4BA50B1535F4B");
+const GROUP_ID = GroupId(0x0101);
+
+function createMessage(messageId: number): Message {
+    return {
+        packetHeader: {
+            sessionId: 0,
+            sessionType: SessionType.Unicast,
+            messageId,
+            hasPrivacyEnhancements: false,
+            isControlMessage: false,
+            hasMessageExtensions: false,
+        },
+        payloadHeader: {
+            exchangeId: 1,
+            protocolId: INTERACTION_PROTOCOL_ID,
+            messageType: 0x08,
+            isInitiatorMessage: true,
+            requiresAck: false,
+            hasSecuredExtension: false,
+        },
+        payload: Bytes.fromHex("0102030405"),
+    };
+}
+
+describe("GroupSession", () => {
+    describe("key derivation", () => {
+        it("derives the operational group key and group session ID", async () => {
+            // Test vectors from Matter Core Specification §4.16.2.2 and §4.16.3.1
+            const operationalKey = await FabricGroups.deriveOperationalKey(
+                EPOCH_KEY,
+                Bytes.fromHex("87E1B004E235A130"),
+            );
+            assert.deepEqual(Bytes.toHex(operationalKey), "a6f5306baf6d050af23ba4bd6b9dd960");
+            assert.equal(await FabricGroups.deriveGroupSessionId(operationalKey), 0xb9f7);
+        });
+
+        it("determines the IPv6 multicast address of a group", () => {
+            assert.equal(
+                FabricGroups.multicastAddressFor(FabricId(BigInt("0x2906C908D115D362")), GroupId(0xabcd)),
+                "ff35:40:fd29:6c9:8d1:15d3:6200:abcd",
+            );
+        });
+    });
+
+    describe("groupcast", () => {
+        let storage: StorageBackendMemory;
+        let fabric: Fabric;
+        let sessionManager: SessionManager;
+
+        beforeEach(async () => {
+            fabric = await buildFabric();
+            await fabric.groups.setKeySet({
+                groupKeySetId: 1,
+                groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+                epochKey0: EPOCH_KEY,
+                epochStartTime0: 1,
+                epochKey1: null,
+                epochStartTime1: null,
+                epochKey2: null,
+                epochStartTime2: null,
+            });
+            await fabric.groups.setKeyMap([{ groupId: GROUP_ID, groupKeySetId: 1 }]);
+
+            storage = new StorageBackendMemory();
+            storage.initialize();
+
+            const fabrics = new FabricManager(new StorageContext(storage, ["fabrics"]));
+            await fabrics.construction.ready;
+            fabrics.addFabric(fabric);
+            await fabrics.persistFabrics();
+
+            sessionManager = new SessionManager({
+                parameters: {} as SessionParameters,
+                fabrics,
+                storage: new StorageContext(storage, ["context"]),
+            });
+            await sessionManager.construction.ready;
+        });
+
+        async function sendAndReceive(messageId?: number) {
+            const sender = sessionManager.groupSessionFor(fabric, GROUP_ID);
+            const message = createMessage(messageId ?? (await sender.getIncrementedMessageCounter()));
+            const bytes = MessageCodec.encodePacket(sender.encode(message));
+
+            const packet = MessageCodec.decodePacket(bytes);
+            const aad = bytes.slice(0, bytes.length - packet.applicationPayload.length);
+            return { packet, result: sessionManager.findGroupSession(packet, aad) };
+        }
+
+        it("encodes a groupcast message that authenticates with the group key", async () => {
+            const { packet, result } = await sendAndReceive();
+
+            assert.equal(packet.header.sessionType, SessionType.Group);
+            assert.equal(packet.header.destGroupId, GROUP_ID);
+            assert.equal(packet.header.destNodeId, undefined);
+            assert.equal(packet.header.sourceNodeId, fabric.nodeId);
+
+            assert.ok(result);
+            const { session, message } = result;
+            assert.equal(session.isGroup, true);
+            assert.equal(session.supportsMRP, false);
+            assert.equal(session.groupId, GROUP_ID);
+            assert.equal(session.peerNodeId, fabric.nodeId);
+            assert.equal(session.associatedFabric, fabric);
+            assert.deepEqual(message.payload, Bytes.fromHex("0102030405"));
+        });
+
+        it("detects duplicate groupcast messages per source node", async () => {
+            const first = await sendAndReceive(1000);
+            first.result?.session.updateMessageCounter(first.packet.header.messageId);
+
+            const second = await sendAndReceive(1000);
+            assert.throws(
+                () => second.result?.session.updateMessageCounter(second.packet.header.messageId),
+                DuplicateMessageError,
+            );
+
+            const third = await sendAndReceive(1001);
+            third.result?.session.updateMessageCounter(third.packet.header.messageId);
+        });
+
+        it("does not find a session for groups without key mapping", async () => {
+            await fabric.groups.setKeyMap([]);
+
+            const { result } = await sendAndReceive(1).catch(() => ({ result: undefined }));
+            assert.equal(result, undefined);
+            assert.throws(() => sessionManager.groupSessionFor(fabric, GROUP_ID));
+        });
+
+        it("does not find a session when the key does not match", async () => {
+            const sender = sessionManager.groupSessionFor(fabric, GROUP_ID);
+            const bytes = MessageCodec.encodePacket(sender.encode(createMessage(5)));
+
+            await fabric.groups.setKeySet({
+                groupKeySetId: 1,
+                groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+                epochKey0: Bytes.fromHex("00112233445566778899aabbccddeeff"),
+                epochStartTime0: 1,
+                epochKey1: null,
+                epochStartTime1: null,
+                epochKey2: null,
+                epochStartTime2: null,
+            });
+
+            const packet = MessageCodec.decodePacket(bytes);
+            const aad = bytes.slice(0, bytes.length - packet.applicationPayload.length);
+            assert.equal(sessionManager.findGroupSession(packet, aad), undefined);
+        });
+
+        it("restores group keys of persisted fabrics", async () => {
+            const fabrics = new FabricManager(new StorageContext(storage, ["fabrics"]));
+            await fabrics.construction.ready;
+            const restoredFabric = fabrics.for(fabric.fabricIndex);
+
+            assert.deepEqual(restoredFabric.groups.keyMap, [{ groupId: GROUP_ID, groupKeySetId: 1 }]);
+            assert.deepEqual(
+                restoredFabric.groups.operationalKeysFor(GROUP_ID, 0xb9f7).length,
+                fabric.groups.operationalKeysFor(GROUP_ID, 0xb9f7).length,
+            );
+            assert.deepEqual(
+                restoredFabric.groups.currentOperationalKeyFor(GROUP_ID),
+                fabric.groups.currentOperationalKeyFor(GROUP_ID),
+            );
+        });
+
+        it("uses the group node ID as peer for sending", () => {
+            const sender = sessionManager.groupSessionFor(fabric, GROUP_ID);
+            assert.equal(sender.peerNodeId, NodeId.fromGroupNodeId(GROUP_ID));
+        });
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AccessControl } from "#clusters/access-control";
+import { GroupKeyManagement } from "#clusters/group-key-management";
+import { OnOff } from "#clusters/on-off";
+import { Bytes, ChannelType, StorageBackendMemory, StorageManager, TransportInterfaceSet } from "#general";
+import { Endpoint, ServerNode } from "#node";
+import { CertificateAuthority, Fabric, GroupClusterClient, PeerAddress, PeerSet } from "#protocol";
+import { EndpointNumber, GroupId, NodeId } from "#types";
+import { OnOffServer } from "@matter/node/behaviors/on-off";
+import { OnOffLightDevice } from "@matter/node/devices/on-off-light";
+import { addFabric, createEnvironment, FABRIC_INDEX, TestPeer } from "../node/NodeTestingUtil.js";
+
+const GROUP = GroupId(0x101);
+
+const LIGHT = TestPeer(0x10);
+const CONTROLLER = TestPeer(0x20);
+
+async function addGroupFabric(node: ServerNode, ca: CertificateAuthority, nodeId: NodeId) {
+    const fabric = await addFabric(node, ca, nodeId);
+    await fabric.groups.setKeySet({
+        groupKeySetId: 1,
+        groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+        epochKey0: Bytes.fromHex("d0d1d2d3d4d5d6d7d8d9dadbdcdddedf"),
+        epochStartTime0: 1,
+        epochKey1: null,
+        epochStartTime1: null,
+        epochKey2: null,
+        epochStartTime2: null,
+    });
+    await fabric.groups.setKeyMap([{ groupId: GROUP, groupKeySetId: 1 }]);
+    return fabric;
+}
+
+let nodes: ServerNode[] = [];
+
+async function createNodes() {
+    const storage = new StorageManager(new StorageBackendMemory());
+    await storage.initialize();
+    const ca = await CertificateAuthority.create(storage.createContext("ca"));
+
+    // Groupcasts go to the default operational port
+    const light = await ServerNode.create({
+        id: "light",
+        environment: createEnvironment("light", LIGHT),
+        network: { port: 5540, listeningAddressIpv6: LIGHT.ip, ipv4: false },
+    });
+    const endpoint = new Endpoint(OnOffLightDevice, { id: "light", number: 1 });
+    await light.add(endpoint);
+    const lightFabric = await addGroupFabric(light, ca, LIGHT.nodeId);
+    await light.set({
+        accessControl: {
+            acl: [
+                {
+                    fabricIndex: FABRIC_INDEX,
+                    privilege: AccessControl.AccessControlEntryPrivilege.Operate,
+                    authMode: AccessControl.AccessControlEntryAuthMode.Group,
+                    subjects: [NodeId(GROUP)],
+                    targets: null,
+                },
+            ],
+        },
+    });
+
+    const controller = await ServerNode.create({
+        id: "controller",
+        environment: createEnvironment("controller", CONTROLLER),
+        network: { port: 5541, listeningAddressIpv6: CONTROLLER.ip, ipv4: false },
+    });
+    await addGroupFabric(controller, ca, CONTROLLER.nodeId);
+
+    nodes = [light, controller];
+    await light.start();
+    await controller.start();
+
+    return { light, endpoint, lightFabric, controller };
+}
+
+async function groupClient(controller: ServerNode, groupId: GroupId) {
+    await controller.preparePeerConnections();
+    return controller.env
+        .get(PeerSet)
+        .initializeGroupInteractionClient(
+            PeerAddress({ fabricIndex: FABRIC_INDEX, nodeId: NodeId.fromGroupNodeId(groupId) }),
+        );
+}
+
+async function join(fabric: Fabric, groupId: GroupId) {
+    await fabric.groups.addEndpoint(groupId, EndpointNumber(1));
+}
+
+describe("Groupcast", () => {
+    before(() => {
+        // The nodes communicate via simulated network in real time
+        MockTime.disable();
+    });
+
+    after(() => {
+        MockTime.enable();
+    });
+
+    afterEach(async () => {
+        // Closing the runtime disposes of services such as mDNS that outlive the node and run real timers
+        for (const node of nodes) {
+            await node.close();
+            await node.env.runtime.close();
+        }
+        nodes = [];
+    });
+
+    it("receives group messages sent to the multicast address of the group", async () => {
+        const { endpoint, lightFabric, controller } = await createNodes();
+
+        await join(lightFabric, GROUP);
+
+        const onOffChanged = new Promise(resolve => endpoint.eventsOf(OnOffServer).onOff$Changed.once(resolve));
+        await GroupClusterClient(OnOff.Cluster, await groupClient(controller, GROUP)).on();
+        expect(await onOffChanged).equals(true);
+    }).timeout(10_000);
+
+    it("stops receiving group messages after leaving the group", async () => {
+        const { light, lightFabric, controller } = await createNodes();
+
+        await join(lightFabric, GROUP);
+        await lightFabric.groups.removeEndpoint(GROUP, EndpointNumber(1));
+
+        // The simulated network delivers synchronously so the light already received the message when the send returns
+        let received = 0;
+        const listener = light.env
+            .get(TransportInterfaceSet)
+            .interfaceFor(ChannelType.UDP, "::")!
+            .onData(() => received++);
+        await GroupClusterClient(OnOff.Cluster, await groupClient(controller, GROUP)).on();
+        await listener.close();
+
+        expect(received).equals(0);
+    }).timeout(10_000);
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AccessControl } from "#clusters/access-control";
+import { ChannelType, StorageBackendMemory, StorageManager, TransportInterfaceSet } from "#general";
+import { ServerNode } from "#node";
+import { CertificateAuthority, ChannelManager, NodeDiscoveryType, PeerAddress, PeerSet } from "#protocol";
+import { addFabric, createEnvironment, FABRIC_INDEX, TestPeer } from "../node/NodeTestingUtil.js";
+
+const DEVICE = TestPeer(0x10);
+const CONTROLLER = TestPeer(0x20);
+
+const DEVICE_ADDRESS = PeerAddress({ fabricIndex: FABRIC_INDEX, nodeId: DEVICE.nodeId });
+
+let nodes: ServerNode[] = [];
+
+async function createNodes({ deviceTcp }: { deviceTcp: boolean }) {
+    const storage = new StorageManager(new StorageBackendMemory());
+    await storage.initialize();
+    const ca = await CertificateAuthority.create(storage.createContext("ca"));
+
+    const device = await ServerNode.create({
+        id: "device",
+        environment: createEnvironment("device", DEVICE),
+        network: { port: 5540, listeningAddressIpv6: DEVICE.ip, ipv4: false, tcp: deviceTcp },
+    });
+    await addFabric(device, ca, DEVICE.nodeId);
+    await device.set({
+        accessControl: {
+            acl: [
+                {
+                    fabricIndex: FABRIC_INDEX,
+                    privilege: AccessControl.AccessControlEntryPrivilege.Administer,
+                    authMode: AccessControl.AccessControlEntryAuthMode.Case,
+                    subjects: [CONTROLLER.nodeId],
+                    targets: null,
+                },
+            ],
+        },
+    });
+
+    const controller = await ServerNode.create({
+        id: "controller",
+        environment: createEnvironment("controller", CONTROLLER),
+        network: { port: 5541, listeningAddressIpv6: CONTROLLER.ip, ipv4: false, tcp: true },
+    });
+    await addFabric(controller, ca, CONTROLLER.nodeId);
+
+    nodes = [controller, device];
+    await device.start();
+    await controller.start();
+
+    await controller.preparePeerConnections();
+    const client = await controller.env
+        .get(PeerSet)
+        .connect(DEVICE_ADDRESS, { discoveryType: NodeDiscoveryType.TimedDiscovery, timeoutSeconds: 5 }, true);
+
+    return { device, controller, client };
+}
+
+/**
+ * Count the messages a node receives on its operational interface of a channel type.
+ */
+function countMessages(node: ServerNode, type: ChannelType) {
+    const counter = { received: 0 };
+    const listener = node.env
+        .get(TransportInterfaceSet)
+        .interfaceFor(type, "::")
+        ?.onData(() => counter.received++);
+    return { counter, close: async () => listener?.close() };
+}
+
+describe("TCP transport", () => {
+    before(() => {
+        // The nodes communicate via simulated network in real time
+        MockTime.disable();
+    });
+
+    after(() => {
+        MockTime.enable();
+    });
+
+    afterEach(async () => {
+        // Closing the runtime disposes of services such as mDNS that outlive the node and run real timers
+        for (const node of nodes) {
+            await node.close();
+            await node.env.runtime.close();
+        }
+        nodes = [];
+    });
+
+    it("reads via TCP from a peer that advertises a TCP server", async () => {
+        const { device, controller, client } = await createNodes({ deviceTcp: true });
+
+        expect(
+            controller.env.get(ChannelManager).getChannel(DEVICE_ADDRESS, undefined, { largePayload: true }).type,
+        ).equals(ChannelType.TCP);
+        expect(controller.env.get(ChannelManager).getChannel(DEVICE_ADDRESS).type).equals(ChannelType.UDP);
+
+        const tcp = countMessages(device, ChannelType.TCP);
+        const udp = countMessages(device, ChannelType.UDP);
+        const attributes = await client.getMultipleAttributes({ attributes: [{}] });
+        await tcp.close();
+        await udp.close();
+
+        // A wildcard read exceeds a single UDP message
+        expect(attributes.length).greaterThan(50);
+        expect(tcp.counter.received).greaterThan(0);
+        expect(udp.counter.received).equals(0);
+    }).timeout(10_000);
+
+    it("reads via UDP from a peer without TCP server", async () => {
+        const { device, controller, client } = await createNodes({ deviceTcp: false });
+
+        expect(
+            controller.env.get(ChannelManager).getChannel(DEVICE_ADDRESS, undefined, { largePayload: true }).type,
+        ).equals(ChannelType.UDP);
+
+        const udp = countMessages(device, ChannelType.UDP);
+        const attributes = await client.getMultipleAttributes({ attributes: [{}] });
+        await udp.close();
+
+        expect(attributes.length).greaterThan(50);
+        expect(udp.counter.received).greaterThan(0);
+    }).timeout(10_000);
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { StorageBackendDiskAsync, StorageBackendSqlite } from "#storage/index.js";
+import * as assert from "assert";
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import { resolve } from "path";
+
+const TEST_STORAGE_LOCATION = resolve(tmpdir(), "matterjs-test-storage-sqlite");
+const TEST_DATABASE = resolve(TEST_STORAGE_LOCATION, "test.db");
+
+const CONTEXTx1 = ["context"];
+const CONTEXTx2 = [...CONTEXTx1, "subcontext"];
+const CONTEXTx3 = [...CONTEXTx2, "subsubcontext"];
+
+describe("StorageBackendSqlite", () => {
+    let storage: StorageBackendSqlite;
+
+    before(async function () {
+        // The native module is an optional dependency
+        if (!(await StorageBackendSqlite.isAvailable())) {
+            this.skip();
+        }
+    });
+
+    beforeEach(async () => {
+        await rm(TEST_STORAGE_LOCATION, { recursive: true, force: true });
+
+        storage = new StorageBackendSqlite(TEST_DATABASE);
+        await storage.initialize();
+    });
+
+    afterEach(() => {
+        storage.close();
+    });
+
+    it("write and read success", () => {
+        storage.set(CONTEXTx1, "key", "value");
+
+        assert.equal(storage.get(CONTEXTx1, "key"), "value");
+    });
+
+    it("multi-write and values read success", () => {
+        storage.set(CONTEXTx1, { key: "value", key2: { nested: 1n } });
+
+        assert.deepEqual(storage.values(CONTEXTx1), { key: "value", key2: { nested: 1n } });
+    });
+
+    it("multi-write is transactional", () => {
+        assert.throws(() => storage.set(CONTEXTx1, { key: "value", "": "invalid" }), {
+            message: "Key must not be an empty string.",
+        });
+
+        assert.deepEqual(storage.keys(CONTEXTx1), []);
+    });
+
+    it("write and delete success", () => {
+        storage.set(CONTEXTx1, "key", "value");
+        storage.delete(CONTEXTx1, "key");
+
+        assert.equal(storage.get(CONTEXTx1, "key"), undefined);
+    });
+
+    it("persists across instances", async () => {
+        storage.set(CONTEXTx3, "key", "value");
+        storage.close();
+
+        storage = new StorageBackendSqlite(TEST_DATABASE);
+        await storage.initialize();
+
+        assert.equal(storage.get(CONTEXTx3, "key"), "value");
+    });
+
+    it("return keys with storage without subcontexts values", () => {
+        storage.set(CONTEXTx2, "key", "value");
+        storage.set(CONTEXTx3, "key", "value");
+
+        expect(storage.keys(CONTEXTx2)).deep.equal(["key"]);
+    });
+
+    it("return contexts with subcontexts", () => {
+        storage.set(CONTEXTx2, "key", "value");
+        storage.set(["context", "subcontext2"], "key", "value");
+        storage.set(["context-other"], "key", "value");
+        storage.set(CONTEXTx3, "key", "value");
+
+        expect(storage.contexts(CONTEXTx3)).deep.equal([]);
+        expect(storage.contexts(CONTEXTx2)).deep.equal(["subsubcontext"]);
+        expect(storage.contexts(CONTEXTx1)).deep.equal(["subcontext", "subcontext2"]);
+        expect(storage.contexts([])).have.members(["context", "context-other"]);
+    });
+
+    it("clear all keys with multiple contexts", () => {
+        storage.set(CONTEXTx1, "key1", "value");
+        storage.set(CONTEXTx2, "key2", "value");
+        storage.set(["context", "subcontext2"], "key2", "value");
+        storage.set(CONTEXTx3, "key3", "value");
+
+        storage.clearAll(CONTEXTx2);
+        expect(storage.keys(CONTEXTx1)).deep.equal(["key1"]);
+        expect(storage.keys(CONTEXTx2)).deep.equal([]);
+        expect(storage.keys(CONTEXTx3)).deep.equal([]);
+        expect(storage.keys(["context", "subcontext2"])).deep.equal(["key2"]);
+    });
+
+    it("throws error when context is empty", () => {
+        assert.throws(() => storage.get(["ok", ""], "key"), {
+            message: "Context must not be an empty and not contain dots.",
+        });
+    });
+
+    it("migrates from disk storage once", async () => {
+        storage.close();
+        await rm(TEST_DATABASE, { force: true });
+
+        const diskPath = resolve(TEST_STORAGE_LOCATION, "disk");
+        const disk = new StorageBackendDiskAsync(diskPath);
+        await disk.initialize();
+        await disk.set(CONTEXTx1, { key1: "value", key2: 2 });
+        await disk.set(CONTEXTx3, "key3", true);
+
+        storage = new StorageBackendSqlite(TEST_DATABASE, false, disk);
+        await storage.initialize();
+
+        expect(storage.values(CONTEXTx1)).deep.equal({ key1: "value", key2: 2 });
+        expect(storage.get(CONTEXTx3, "key3")).equal(true);
+
+        // Changes after migration survive a restart
+        storage.set(CONTEXTx1, "key1", "changed");
+        storage.close();
+        storage = new StorageBackendSqlite(TEST_DATABASE, false, disk);
+        await storage.initialize();
+
+        expect(storage.get(CONTEXTx1, "key1")).equal("changed");
+    });
+
+    after(async () => {
+        await rm(TEST_STORAGE_LOCATION, { recursive: true, force: true });
+    });
+});
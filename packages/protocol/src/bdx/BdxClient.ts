@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes } from "#general";
+import { BdxMessageType, BdxStatusCode } from "#types";
+import { MessageExchange } from "../protocol/MessageExchange.js";
+import {
+    BDX_VERSION,
+    BdxInitMessage,
+    BdxReceiveAcceptMessage,
+    BdxSendAcceptMessage,
+    BdxTransferControl,
+} from "./BdxMessages.js";
+import { BdxMessenger } from "./BdxMessenger.js";
+import { BdxReceiver } from "./BdxReceiver.js";
+import { BdxSender } from "./BdxSender.js";
+
+/** Size of the block counter preceding the data in a block message. */
+const BLOCK_HEADER_SIZE = 4;
+
+/** Block size we propose if not specified otherwise. */
+const DEFAULT_MAX_BLOCK_SIZE = 1024;
+
+/**
+ * Initiates BDX transfers on a {@link MessageExchange}.
+ *
+ * By default we propose a synchronous transfer driven by us.  The responder may select any mode we propose.
+ */
+export class BdxClient {
+    readonly #messenger: BdxMessenger;
+
+    constructor(exchange: MessageExchange) {
+        this.#messenger = new BdxMessenger(exchange);
+    }
+
+    /**
+     * Request a file from the peer.
+     *
+     * Returns a {@link BdxReceiver} once the peer accepted.  Iterate the receiver to receive the data.
+     */
+    async receive(options: BdxClient.ReceiveOptions) {
+        const messenger = this.#messenger;
+        const { startOffset, maxLength } = options;
+
+        try {
+            const proposal = this.#propose(options, false);
+            await messenger.send(BdxMessageType.ReceiveInit, BdxInitMessage, { ...proposal, maxLength });
+
+            const accept = await messenger.nextMessageDecoded(BdxMessageType.ReceiveAccept, BdxReceiveAcceptMessage);
+            await this.#assertAccepted(proposal, accept);
+            if (maxLength !== undefined && accept.length !== undefined && accept.length > maxLength) {
+                throw await messenger.fail(
+                    BdxStatusCode.LengthTooLarge,
+                    `Peer announced ${accept.length} bytes, more than the maximum of ${maxLength}`,
+                );
+            }
+
+            return new BdxReceiver(messenger, {
+                senderDrive: accept.senderDrive,
+                asynchronous: accept.asynchronous,
+                maxBlockSize: accept.maxBlockSize,
+                startOffset: accept.startOffset ?? startOffset,
+                length: accept.length,
+            });
+        } catch (error) {
+            await messenger.close();
+            throw error;
+        }
+    }
+
+    /**
+     * Offer a file to the peer.
+     *
+     * Returns a {@link BdxSender} once the peer accepted.  Use {@link BdxSender.send} to transfer the data.
+     */
+    async offer(options: BdxClient.SendOptions) {
+        const messenger = this.#messenger;
+        const { startOffset, length } = options;
+
+        try {
+            const proposal = this.#propose(options, true);
+            await messenger.send(BdxMessageType.SendInit, BdxInitMessage, { ...proposal, maxLength: length });
+
+            const accept = await messenger.nextMessageDecoded(BdxMessageType.SendAccept, BdxSendAcceptMessage);
+            await this.#assertAccepted(proposal, accept);
+
+            return new BdxSender(messenger, {
+                senderDrive: accept.senderDrive,
+                asynchronous: accept.asynchronous,
+                maxBlockSize: accept.maxBlockSize,
+                startOffset,
+                length,
+            });
+        } catch (error) {
+            await messenger.close();
+            throw error;
+        }
+    }
+
+    /**
+     * Send a file to the peer.  Resolves when the peer received all data.
+     *
+     * The length of the data is announced to the peer if known.
+     */
+    async send(options: BdxClient.SendOptions, data: BdxSender.Data) {
+        const length = options.length ?? (data instanceof Uint8Array ? data.length : undefined);
+        const sender = await this.offer({ ...options, length });
+        await sender.send(data);
+    }
+
+    #propose(options: BdxClient.TransferOptions, isSender: boolean) {
+        let { senderDrive, receiverDrive } = options;
+        if (!senderDrive && !receiverDrive) {
+            senderDrive = isSender;
+            receiverDrive = !isSender;
+        }
+
+        const { fileDesignator, maxBlockSize, startOffset, asynchronous, metadata } = options;
+        return {
+            version: BDX_VERSION,
+            senderDrive: !!senderDrive,
+            receiverDrive: !!receiverDrive,
+            asynchronous: !!asynchronous,
+            maxBlockSize: Math.min(
+                maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE,
+                this.#messenger.maxPayloadSize - BLOCK_HEADER_SIZE,
+            ),
+            startOffset,
+            fileDesignator: typeof fileDesignator === "string" ? Bytes.fromString(fileDesignator) : fileDesignator,
+            metadata,
+        };
+    }
+
+    /**
+     * Verify the peer selected a single mode of our proposal.
+     */
+    async #assertAccepted(
+        proposal: BdxTransferControl & { maxBlockSize: number },
+        accept: BdxTransferControl & { maxBlockSize: number },
+    ) {
+        const messenger = this.#messenger;
+        if (
+            accept.senderDrive === accept.receiverDrive ||
+            (accept.senderDrive && !proposal.senderDrive) ||
+            (accept.receiverDrive && !proposal.receiverDrive) ||
+            (accept.asynchronous && (!proposal.asynchronous || !accept.senderDrive))
+        ) {
+            throw await messenger.fail(
+                BdxStatusCode.TransferMethodNotSupported,
+                "Peer did not accept a proposed transfer mode",
+            );
+        }
+        if (accept.version > BDX_VERSION) {
+            throw await messenger.fail(
+                BdxStatusCode.VersionNotSupported,
+                `Peer selected unsupported version ${accept.version}`,
+            );
+        }
+        if (accept.maxBlockSize > proposal.maxBlockSize) {
+            throw await messenger.fail(
+                BdxStatusCode.BadMessageContents,
+                `Peer selected block size ${accept.maxBlockSize} larger than proposed ${proposal.maxBlockSize}`,
+            );
+        }
+    }
+}
+
+export namespace BdxClient {
+    export interface TransferOptions {
+        /** Identifies the file to transfer.  Strings are encoded as UTF-8. */
+        fileDesignator: string | Uint8Array;
+
+        /** The maximum block size we accept.  Limited to the payload size of the exchange. */
+        maxBlockSize?: number;
+
+        /** Offer a transfer driven by the sender.  By default we offer a transfer driven by us. */
+        senderDrive?: boolean;
+
+        /** Offer a transfer driven by the receiver.  By default we offer a transfer driven by us. */
+        receiverDrive?: boolean;
+
+        /** Offer an asynchronous transfer.  Only applies if the sender drives. */
+        asynchronous?: boolean;
+
+        /** Offset into the file at which the transfer starts. */
+        startOffset?: number;
+
+        /** Optional TLV metadata for the peer. */
+        metadata?: Uint8Array;
+    }
+
+    export interface ReceiveOptions extends TransferOptions {
+        /** The maximum number of bytes we want to receive. */
+        maxLength?: number;
+    }
+
+    export interface SendOptions extends TransferOptions {
+        /** The number of bytes we send.  Defaults to the length of the data if known. */
+        length?: number;
+    }
+}
@@ -0,0 +1,315 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataReader, DataWriter, Endian, UnexpectedDataError } from "#general";
+import { Schema } from "#types";
+
+/** The BDX protocol version implemented by matter.js. */
+export const BDX_VERSION = 0;
+
+/** Transfer control flags of the init and accept messages. */
+const enum TransferControlFlag {
+    SenderDrive = 0x10,
+    ReceiverDrive = 0x20,
+    Async = 0x40,
+}
+
+/** Range control flags of the init and accept messages. */
+const enum RangeControlFlag {
+    DefiniteLength = 0x01,
+    StartOffset = 0x02,
+    WideRange = 0x10,
+}
+
+const VERSION_MASK = 0x0f;
+
+const MAX_NARROW_RANGE = 0xffffffff;
+
+/**
+ * The transfer modes a participant proposes or, in accept messages, the single mode the responder selected.
+ */
+export type BdxTransferControl = {
+    version: number;
+    senderDrive: boolean;
+    receiverDrive: boolean;
+    asynchronous: boolean;
+};
+
+/**
+ * The parameters of a transfer as agreed in the init and accept messages.
+ */
+export interface BdxTransferParameters {
+    /** True if the sender drives the transfer, false if the receiver drives. */
+    senderDrive: boolean;
+
+    /** True if the sender drives the transfer without waiting for acknowledgement of each block. */
+    asynchronous: boolean;
+
+    maxBlockSize: number;
+
+    /** Offset into the file at which the transfer starts. */
+    startOffset?: number;
+
+    /** The length of the data if known in advance. */
+    length?: number;
+}
+
+/**
+ * Payload of SendInit and ReceiveInit.
+ */
+export type BdxInitMessage = BdxTransferControl & {
+    maxBlockSize: number;
+    startOffset?: number;
+    maxLength?: number;
+    fileDesignator: Uint8Array;
+    metadata?: Uint8Array;
+};
+
+/**
+ * Payload of SendAccept.
+ */
+export type BdxSendAcceptMessage = BdxTransferControl & {
+    maxBlockSize: number;
+    metadata?: Uint8Array;
+};
+
+/**
+ * Payload of ReceiveAccept.
+ */
+export type BdxReceiveAcceptMessage = BdxTransferControl & {
+    maxBlockSize: number;
+    startOffset?: number;
+    length?: number;
+    metadata?: Uint8Array;
+};
+
+/**
+ * Payload of BlockQuery, BlockAck and BlockAckEOF.
+ */
+export type BdxCounterMessage = {
+    blockCounter: number;
+};
+
+/**
+ * Payload of BlockQueryWithSkip.
+ */
+export type BdxBlockQueryWithSkipMessage = {
+    blockCounter: number;
+    bytesToSkip: number;
+};
+
+/**
+ * Payload of Block and BlockEOF.
+ */
+export type BdxBlockMessage = {
+    blockCounter: number;
+    data: Uint8Array;
+};
+
+function writeTransferControl(writer: DataWriter<Endian.Little>, control: BdxTransferControl) {
+    writer.writeUInt8(
+        (control.version & VERSION_MASK) |
+            (control.senderDrive ? TransferControlFlag.SenderDrive : 0) |
+            (control.receiverDrive ? TransferControlFlag.ReceiverDrive : 0) |
+            (control.asynchronous ? TransferControlFlag.Async : 0),
+    );
+}
+
+function readTransferControl(reader: DataReader<Endian.Little>): BdxTransferControl {
+    const control = reader.readUInt8();
+    return {
+        version: control & VERSION_MASK,
+        senderDrive: (control & TransferControlFlag.SenderDrive) !== 0,
+        receiverDrive: (control & TransferControlFlag.ReceiverDrive) !== 0,
+        asynchronous: (control & TransferControlFlag.Async) !== 0,
+    };
+}
+
+function rangeControlFor(startOffset?: number, length?: number) {
+    return (
+        (length !== undefined ? RangeControlFlag.DefiniteLength : 0) |
+        (startOffset !== undefined ? RangeControlFlag.StartOffset : 0) |
+        ((startOffset ?? 0) > MAX_NARROW_RANGE || (length ?? 0) > MAX_NARROW_RANGE ? RangeControlFlag.WideRange : 0)
+    );
+}
+
+function writeRange(writer: DataWriter<Endian.Little>, rangeControl: number, value?: number) {
+    if (value === undefined) {
+        return;
+    }
+    if (rangeControl & RangeControlFlag.WideRange) {
+        writer.writeUInt64(value);
+    } else {
+        writer.writeUInt32(value);
+    }
+}
+
+function readUInt64(reader: DataReader<Endian.Little>) {
+    const value = reader.readUInt64();
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new UnexpectedDataError(`BDX range value ${value} is not supported`);
+    }
+    return Number(value);
+}
+
+function readRange(reader: DataReader<Endian.Little>, rangeControl: number, flag: RangeControlFlag) {
+    if (!(rangeControl & flag)) {
+        return undefined;
+    }
+    if (rangeControl & RangeControlFlag.WideRange) {
+        return readUInt64(reader);
+    }
+    return reader.readUInt32();
+}
+
+function readMetadata(reader: DataReader<Endian.Little>) {
+    return reader.getRemainingBytesCount() > 0 ? reader.getRemainingBytes() : undefined;
+}
+
+function writeMetadata(writer: DataWriter<Endian.Little>, metadata?: Uint8Array) {
+    if (metadata !== undefined && metadata.length > 0) {
+        writer.writeByteArray(metadata);
+    }
+}
+
+/**
+ * Codec for SendInit and ReceiveInit.
+ */
+export class BdxInitMessageSchema extends Schema<BdxInitMessage, Uint8Array> {
+    encodeInternal(message: BdxInitMessage) {
+        const { maxBlockSize, startOffset, maxLength, fileDesignator, metadata } = message;
+        const rangeControl = rangeControlFor(startOffset, maxLength);
+
+        const writer = new DataWriter(Endian.Little);
+        writeTransferControl(writer, message);
+        writer.writeUInt8(rangeControl);
+        writer.writeUInt16(maxBlockSize);
+        writeRange(writer, rangeControl, startOffset);
+        writeRange(writer, rangeControl, maxLength);
+        writer.writeUInt16(fileDesignator.length);
+        writer.writeByteArray(fileDesignator);
+        writeMetadata(writer, metadata);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxInitMessage {
+        const reader = new DataReader(bytes, Endian.Little);
+        const control = readTransferControl(reader);
+        const rangeControl = reader.readUInt8();
+        const maxBlockSize = reader.readUInt16();
+        const startOffset = readRange(reader, rangeControl, RangeControlFlag.StartOffset);
+        const maxLength = readRange(reader, rangeControl, RangeControlFlag.DefiniteLength);
+        const fileDesignator = reader.readByteArray(reader.readUInt16());
+        return { ...control, maxBlockSize, startOffset, maxLength, fileDesignator, metadata: readMetadata(reader) };
+    }
+}
+
+/**
+ * Codec for SendAccept.
+ */
+export class BdxSendAcceptMessageSchema extends Schema<BdxSendAcceptMessage, Uint8Array> {
+    encodeInternal(message: BdxSendAcceptMessage) {
+        const writer = new DataWriter(Endian.Little);
+        writeTransferControl(writer, message);
+        writer.writeUInt16(message.maxBlockSize);
+        writeMetadata(writer, message.metadata);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxSendAcceptMessage {
+        const reader = new DataReader(bytes, Endian.Little);
+        const control = readTransferControl(reader);
+        const maxBlockSize = reader.readUInt16();
+        return { ...control, maxBlockSize, metadata: readMetadata(reader) };
+    }
+}
+
+/**
+ * Codec for ReceiveAccept.
+ */
+export class BdxReceiveAcceptMessageSchema extends Schema<BdxReceiveAcceptMessage, Uint8Array> {
+    encodeInternal(message: BdxReceiveAcceptMessage) {
+        const { maxBlockSize, startOffset, length, metadata } = message;
+        const rangeControl = rangeControlFor(startOffset, length);
+
+        const writer = new DataWriter(Endian.Little);
+        writeTransferControl(writer, message);
+        writer.writeUInt8(rangeControl);
+        writer.writeUInt16(maxBlockSize);
+        writeRange(writer, rangeControl, startOffset);
+        writeRange(writer, rangeControl, length);
+        writeMetadata(writer, metadata);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxReceiveAcceptMessage {
+        const reader = new DataReader(bytes, Endian.Little);
+        const control = readTransferControl(reader);
+        const rangeControl = reader.readUInt8();
+        const maxBlockSize = reader.readUInt16();
+        const startOffset = readRange(reader, rangeControl, RangeControlFlag.StartOffset);
+        const length = readRange(reader, rangeControl, RangeControlFlag.DefiniteLength);
+        return { ...control, maxBlockSize, startOffset, length, metadata: readMetadata(reader) };
+    }
+}
+
+/**
+ * Codec for BlockQuery, BlockAck and BlockAckEOF.
+ */
+export class BdxCounterMessageSchema extends Schema<BdxCounterMessage, Uint8Array> {
+    encodeInternal({ blockCounter }: BdxCounterMessage) {
+        const writer = new DataWriter(Endian.Little);
+        writer.writeUInt32(blockCounter);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxCounterMessage {
+        return { blockCounter: new DataReader(bytes, Endian.Little).readUInt32() };
+    }
+}
+
+/**
+ * Codec for BlockQueryWithSkip.
+ */
+export class BdxBlockQueryWithSkipMessageSchema extends Schema<BdxBlockQueryWithSkipMessage, Uint8Array> {
+    encodeInternal({ blockCounter, bytesToSkip }: BdxBlockQueryWithSkipMessage) {
+        const writer = new DataWriter(Endian.Little);
+        writer.writeUInt32(blockCounter);
+        writer.writeUInt64(bytesToSkip);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxBlockQueryWithSkipMessage {
+        const reader = new DataReader(bytes, Endian.Little);
+        const blockCounter = reader.readUInt32();
+        return { blockCounter, bytesToSkip: readUInt64(reader) };
+    }
+}
+
+/**
+ * Codec for Block and BlockEOF.
+ */
+export class BdxBlockMessageSchema extends Schema<BdxBlockMessage, Uint8Array> {
+    encodeInternal({ blockCounter, data }: BdxBlockMessage) {
+        const writer = new DataWriter(Endian.Little);
+        writer.writeUInt32(blockCounter);
+        writer.writeByteArray(data);
+        return writer.toByteArray();
+    }
+
+    decodeInternal(bytes: Uint8Array): BdxBlockMessage {
+        const reader = new DataReader(bytes, Endian.Little);
+        const blockCounter = reader.readUInt32();
+        return { blockCounter, data: reader.getRemainingBytes() };
+    }
+}
+
+export const BdxInitMessage = new BdxInitMessageSchema();
+export const BdxSendAcceptMessage = new BdxSendAcceptMessageSchema();
+export const BdxReceiveAcceptMessage = new BdxReceiveAcceptMessageSchema();
+export const BdxCounterMessage = new BdxCounterMessageSchema();
+export const BdxBlockQueryWithSkipMessage = new BdxBlockQueryWithSkipMessageSchema();
+export const BdxBlockMessage = new BdxBlockMessageSchema();
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger, MatterError } from "#general";
+import {
+    BDX_PROTOCOL_ID,
+    BdxMessageType,
+    BdxStatusCode,
+    GeneralStatusCode,
+    Schema,
+    SECURE_CHANNEL_PROTOCOL_ID,
+    SecureMessageType,
+} from "#types";
+import { Message } from "../codec/MessageCodec.js";
+import { DEFAULT_EXPECTED_PROCESSING_TIME_MS, MessageExchange } from "../protocol/MessageExchange.js";
+import { SecureChannelProtocol } from "../securechannel/SecureChannelProtocol.js";
+import { TlvSecureChannelStatusMessage } from "../securechannel/SecureChannelStatusMessageSchema.js";
+
+const logger = Logger.get("BdxMessenger");
+
+/**
+ * Thrown for BDX protocol failures.  If the peer reported the failure {@link isRemote} is set.
+ */
+export class BdxError extends MatterError {
+    constructor(
+        message: string,
+        readonly statusCode: BdxStatusCode,
+        readonly isRemote = false,
+    ) {
+        super(`(${BdxStatusCode[statusCode] ?? statusCode}) ${message}`);
+    }
+}
+
+/**
+ * Sends and receives BDX messages on a {@link MessageExchange}.
+ */
+export class BdxMessenger {
+    readonly #exchange: MessageExchange;
+    readonly #expectedProcessingTimeMs: number;
+
+    constructor(exchange: MessageExchange, expectedProcessingTimeMs = DEFAULT_EXPECTED_PROCESSING_TIME_MS) {
+        this.#exchange = exchange;
+        this.#expectedProcessingTimeMs = expectedProcessingTimeMs;
+    }
+
+    get exchange() {
+        return this.#exchange;
+    }
+
+    /**
+     * The maximum size of a BDX message payload on the exchange.
+     */
+    get maxPayloadSize() {
+        return this.#exchange.maxPayloadSize;
+    }
+
+    async send<T>(messageType: BdxMessageType, schema: Schema<T, Uint8Array>, message: T) {
+        await this.#exchange.send(messageType, schema.encode(message), {
+            expectedProcessingTimeMs: this.#expectedProcessingTimeMs,
+        });
+    }
+
+    /**
+     * Wait for the next message which must be of one of the expected types.
+     *
+     * A status report from the peer is thrown as {@link BdxError}.  For other unexpected messages we report the
+     * failure to the peer and throw.
+     */
+    async nextMessage(...expectedTypes: BdxMessageType[]) {
+        const message = await this.#exchange.nextMessage(this.#expectedProcessingTimeMs);
+        const {
+            payloadHeader: { protocolId, messageType },
+        } = message;
+
+        if (SecureChannelProtocol.isStatusReport(protocolId, messageType)) {
+            throw this.#errorFor(message);
+        }
+
+        if (protocolId !== BDX_PROTOCOL_ID || !expectedTypes.includes(messageType)) {
+            throw await this.fail(
+                BdxStatusCode.UnexpectedMessage,
+                `Received unexpected message type ${messageType}, expected ${expectedTypes.map(type => BdxMessageType[type]).join(" or ")}`,
+            );
+        }
+
+        return message;
+    }
+
+    /**
+     * Wait for the next message of a specific type and decode it.
+     */
+    async nextMessageDecoded<T>(messageType: BdxMessageType, schema: Schema<T, Uint8Array>) {
+        return this.decode((await this.nextMessage(messageType)).payload, schema);
+    }
+
+    /**
+     * Decode a message payload.  Reports malformed payloads to the peer.
+     */
+    async decode<T>(payload: Uint8Array, schema: Schema<T, Uint8Array>) {
+        try {
+            return schema.decode(payload);
+        } catch (error) {
+            throw await this.fail(BdxStatusCode.BadMessageContents, `Malformed message: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Report a failure to the peer.  Returns the error to throw locally.
+     */
+    async fail(statusCode: BdxStatusCode, message: string) {
+        try {
+            await this.#exchange.send(
+                SecureMessageType.StatusReport,
+                TlvSecureChannelStatusMessage.encode({
+                    generalStatus: GeneralStatusCode.Failure,
+                    protocolId: BDX_PROTOCOL_ID,
+                    protocolStatus: statusCode as number,
+                }),
+                { protocolId: SECURE_CHANNEL_PROTOCOL_ID },
+            );
+        } catch (error) {
+            logger.debug("Failed to send BDX status report:", error);
+        }
+        return new BdxError(message, statusCode);
+    }
+
+    async close() {
+        await this.#exchange.close();
+    }
+
+    #errorFor(message: Message) {
+        const { protocolId, protocolStatus } = TlvSecureChannelStatusMessage.decode(message.payload);
+        return new BdxError(
+            "Transfer aborted by peer",
+            protocolId === BDX_PROTOCOL_ID ? (protocolStatus as number) : BdxStatusCode.Unknown,
+            true,
+        );
+    }
+}
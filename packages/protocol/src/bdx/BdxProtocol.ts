@@ -0,0 +1,300 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Environment, Environmental, Logger, MaybePromise } from "#general";
+import { BDX_PROTOCOL_ID, BdxMessageType, BdxStatusCode } from "#types";
+import { Message } from "../codec/MessageCodec.js";
+import { ExchangeManager } from "../protocol/ExchangeManager.js";
+import { MessageExchange } from "../protocol/MessageExchange.js";
+import { ProtocolHandler } from "../protocol/ProtocolHandler.js";
+import {
+    BDX_VERSION,
+    BdxInitMessage,
+    BdxReceiveAcceptMessage,
+    BdxSendAcceptMessage,
+    BdxTransferParameters,
+} from "./BdxMessages.js";
+import { BdxMessenger } from "./BdxMessenger.js";
+import { BdxReceiver } from "./BdxReceiver.js";
+import { BdxSender } from "./BdxSender.js";
+
+const logger = Logger.get("BdxProtocol");
+
+/** Size of the block counter preceding the data in a block message. */
+const BLOCK_HEADER_SIZE = 4;
+
+/**
+ * Handles BDX transfers initiated by peers.
+ *
+ * Peers receive files supplied by the registered {@link BdxProtocol.Source}s via ReceiveInit and send files to the
+ * registered {@link BdxProtocol.Sink}s via SendInit.  If the peer proposes several modes we select the mode in which
+ * the peer drives the transfer.
+ */
+export class BdxProtocol implements ProtocolHandler {
+    readonly #sources = new Set<BdxProtocol.Source>();
+    readonly #sinks = new Set<BdxProtocol.Sink>();
+    readonly #maxBlockSize?: number;
+    readonly #asynchronous: boolean;
+
+    constructor(options: BdxProtocol.Options = {}) {
+        this.#maxBlockSize = options.maxBlockSize;
+        this.#asynchronous = options.asynchronous ?? true;
+    }
+
+    static [Environmental.create](env: Environment) {
+        const instance = new BdxProtocol();
+        env.get(ExchangeManager).addProtocolHandler(instance);
+        env.set(BdxProtocol, instance);
+        return instance;
+    }
+
+    getId() {
+        return BDX_PROTOCOL_ID;
+    }
+
+    /**
+     * Make files of a source available to peers.
+     */
+    addSource(source: BdxProtocol.Source) {
+        this.#sources.add(source);
+    }
+
+    deleteSource(source: BdxProtocol.Source) {
+        this.#sources.delete(source);
+    }
+
+    /**
+     * Accept files peers send to a sink.
+     */
+    addSink(sink: BdxProtocol.Sink) {
+        this.#sinks.add(sink);
+    }
+
+    deleteSink(sink: BdxProtocol.Sink) {
+        this.#sinks.delete(sink);
+    }
+
+    async onNewExchange(exchange: MessageExchange, message: Message) {
+        // The exchange also queues the initial message so consume it before the transfer reads further messages
+        await exchange.nextMessage();
+
+        const messenger = new BdxMessenger(exchange);
+
+        try {
+            switch (message.payloadHeader.messageType) {
+                case BdxMessageType.ReceiveInit:
+                    await this.#send(messenger, message);
+                    break;
+
+                case BdxMessageType.SendInit:
+                    await this.#receive(messenger, message);
+                    break;
+
+                default:
+                    try {
+                        throw await messenger.fail(
+                            BdxStatusCode.UnexpectedMessage,
+                            `Unexpected initial message type ${message.payloadHeader.messageType}`,
+                        );
+                    } finally {
+                        await messenger.close();
+                    }
+            }
+        } catch (error) {
+            logger.info(`BDX transfer on exchange ${exchange.id} failed:`, error);
+        }
+    }
+
+    async close() {
+        this.#sources.clear();
+        this.#sinks.clear();
+    }
+
+    /**
+     * Send a file the peer requested with ReceiveInit.
+     */
+    async #send(messenger: BdxMessenger, message: Message) {
+        let data, parameters;
+        try {
+            const init = await messenger.decode(message.payload, BdxInitMessage);
+            const selected = await this.#select(messenger, init, true);
+
+            data = await this.#read(init.fileDesignator, messenger.exchange);
+            if (data === undefined) {
+                throw await messenger.fail(BdxStatusCode.FileDesignatorUnknown, "Unknown file designator");
+            }
+
+            const { startOffset, maxLength } = init;
+            let length;
+            if (data instanceof Uint8Array) {
+                if (startOffset !== undefined && startOffset > data.length) {
+                    throw await messenger.fail(
+                        BdxStatusCode.StartOffsetNotSupported,
+                        `Start offset ${startOffset} exceeds file size ${data.length}`,
+                    );
+                }
+                data = data.subarray(startOffset ?? 0);
+                length = maxLength === undefined ? data.length : Math.min(data.length, maxLength);
+            } else if (startOffset || maxLength !== undefined) {
+                data = slice(data, startOffset ?? 0, maxLength);
+            }
+
+            parameters = { ...selected, startOffset, length };
+            await messenger.send(BdxMessageType.ReceiveAccept, BdxReceiveAcceptMessage, {
+                version: BDX_VERSION,
+                senderDrive: parameters.senderDrive,
+                receiverDrive: !parameters.senderDrive,
+                asynchronous: parameters.asynchronous,
+                maxBlockSize: parameters.maxBlockSize,
+                startOffset,
+                length,
+            });
+        } catch (error) {
+            await messenger.close();
+            throw error;
+        }
+
+        await new BdxSender(messenger, parameters).send(data);
+    }
+
+    /**
+     * Receive a file the peer offered with SendInit.
+     */
+    async #receive(messenger: BdxMessenger, message: Message) {
+        let write, parameters;
+        try {
+            const init = await messenger.decode(message.payload, BdxInitMessage);
+            const selected = await this.#select(messenger, init, false);
+
+            write = await this.#write(init.fileDesignator, messenger.exchange);
+            if (write === undefined) {
+                throw await messenger.fail(BdxStatusCode.FileDesignatorUnknown, "Unknown file designator");
+            }
+
+            parameters = { ...selected, startOffset: init.startOffset, length: init.maxLength };
+            await messenger.send(BdxMessageType.SendAccept, BdxSendAcceptMessage, {
+                version: BDX_VERSION,
+                senderDrive: parameters.senderDrive,
+                receiverDrive: !parameters.senderDrive,
+                asynchronous: parameters.asynchronous,
+                maxBlockSize: parameters.maxBlockSize,
+            });
+        } catch (error) {
+            await messenger.close();
+            throw error;
+        }
+
+        const receiver = new BdxReceiver(messenger, parameters);
+        try {
+            await write(receiver);
+        } finally {
+            // Ensure the exchange closes even if the sink did not consume the data
+            await messenger.close();
+        }
+    }
+
+    /**
+     * Select the transfer mode from the proposal of the peer.
+     */
+    async #select(
+        messenger: BdxMessenger,
+        init: BdxInitMessage,
+        isSender: boolean,
+    ): Promise<Omit<BdxTransferParameters, "startOffset" | "length">> {
+        const peerDrives = isSender ? init.receiverDrive : init.senderDrive;
+        const weDrive = isSender ? init.senderDrive : init.receiverDrive;
+        if (!peerDrives && !weDrive) {
+            throw await messenger.fail(BdxStatusCode.TransferMethodNotSupported, "No transfer mode proposed");
+        }
+        const senderDrive = isSender ? !peerDrives : peerDrives;
+
+        return {
+            senderDrive,
+            asynchronous: senderDrive && init.asynchronous && this.#asynchronous,
+            maxBlockSize: Math.min(
+                init.maxBlockSize,
+                this.#maxBlockSize ?? init.maxBlockSize,
+                messenger.maxPayloadSize - BLOCK_HEADER_SIZE,
+            ),
+        };
+    }
+
+    async #read(fileDesignator: Uint8Array, exchange: MessageExchange) {
+        for (const source of this.#sources) {
+            const data = await source.read(fileDesignator, exchange);
+            if (data !== undefined) {
+                return data;
+            }
+        }
+    }
+
+    async #write(fileDesignator: Uint8Array, exchange: MessageExchange) {
+        for (const sink of this.#sinks) {
+            const write = await sink.write(fileDesignator, exchange);
+            if (write !== undefined) {
+                return write;
+            }
+        }
+    }
+}
+
+/**
+ * Limit streamed data to a range.
+ */
+async function* slice(data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>, startOffset: number, maxLength?: number) {
+    let skip = startOffset;
+    let remaining = maxLength ?? Infinity;
+    for await (let chunk of data) {
+        if (skip) {
+            const skipped = Math.min(skip, chunk.length);
+            chunk = chunk.subarray(skipped);
+            skip -= skipped;
+        }
+        if (chunk.length >= remaining) {
+            yield chunk.subarray(0, remaining);
+            return;
+        }
+        remaining -= chunk.length;
+        yield chunk;
+    }
+}
+
+export namespace BdxProtocol {
+    export interface Options {
+        /** The maximum block size we accept.  Limited to the payload size of the exchange. */
+        maxBlockSize?: number;
+
+        /** Accept asynchronous transfers if the peer proposes.  Default: true. */
+        asynchronous?: boolean;
+    }
+
+    /**
+     * Supplies files peers may receive.
+     */
+    export interface Source {
+        /**
+         * Read the file identified by {@link fileDesignator} for the peer of {@link exchange}.  Returns undefined if
+         * the file is unknown to the source or the peer may not read it.
+         */
+        read(fileDesignator: Uint8Array, exchange: MessageExchange): MaybePromise<BdxSender.Data | undefined>;
+    }
+
+    /**
+     * Accepts files peers send.
+     */
+    export interface Sink {
+        /**
+         * Accept the file identified by {@link fileDesignator} from the peer of {@link exchange}.  Returns a function
+         * that consumes the data or undefined if the sink does not accept the file.
+         */
+        write(fileDesignator: Uint8Array, exchange: MessageExchange): MaybePromise<Writer | undefined>;
+    }
+
+    /**
+     * Consumes the data of an incoming transfer.
+     */
+    export type Writer = (data: BdxReceiver) => Promise<void>;
+}
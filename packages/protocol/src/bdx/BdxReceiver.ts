@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BdxMessageType, BdxStatusCode } from "#types";
+import {
+    BdxBlockMessage,
+    BdxBlockQueryWithSkipMessage,
+    BdxCounterMessage,
+    BdxTransferParameters,
+} from "./BdxMessages.js";
+import { BdxError, BdxMessenger } from "./BdxMessenger.js";
+
+/**
+ * The receiving side of a BDX transfer after the transfer parameters are negotiated.
+ *
+ * Iterate to receive the data block by block.  The transfer runs as the iteration proceeds so the receiver controls
+ * the pace unless the sender drives asynchronously.  The exchange closes when the iteration ends.
+ */
+export class BdxReceiver implements AsyncIterable<Uint8Array> {
+    readonly #messenger: BdxMessenger;
+    readonly #parameters: BdxTransferParameters;
+    #bytesReceived = 0;
+    #bytesSkipped = 0;
+    #skip = 0;
+    #iterated = false;
+
+    constructor(messenger: BdxMessenger, parameters: BdxTransferParameters) {
+        this.#messenger = messenger;
+        this.#parameters = parameters;
+    }
+
+    get parameters() {
+        return this.#parameters;
+    }
+
+    /**
+     * The length of the data if the sender announced it.
+     */
+    get length() {
+        return this.#parameters.length;
+    }
+
+    get bytesReceived() {
+        return this.#bytesReceived;
+    }
+
+    get bytesSkipped() {
+        return this.#bytesSkipped;
+    }
+
+    /**
+     * Skip data before the next block.  Only supported in receiver driven mode.
+     */
+    skip(bytes: number) {
+        if (this.#parameters.senderDrive) {
+            throw new BdxError("Skipping data requires a receiver driven transfer", BdxStatusCode.UnexpectedMessage);
+        }
+        this.#skip += bytes;
+    }
+
+    async *[Symbol.asyncIterator]() {
+        if (this.#iterated) {
+            throw new BdxError("BDX data may only be received once", BdxStatusCode.UnexpectedMessage);
+        }
+        this.#iterated = true;
+
+        const messenger = this.#messenger;
+        const { senderDrive, asynchronous, maxBlockSize, length } = this.#parameters;
+        let finished = false;
+        try {
+            for (let blockCounter = 0; ; blockCounter = (blockCounter + 1) >>> 0) {
+                if (!senderDrive) {
+                    await this.#query(blockCounter);
+                }
+
+                const message = await messenger.nextMessage(BdxMessageType.Block, BdxMessageType.BlockEof);
+                const { blockCounter: receivedCounter, data } = await messenger.decode(
+                    message.payload,
+                    BdxBlockMessage,
+                );
+                if (receivedCounter !== blockCounter) {
+                    throw await messenger.fail(
+                        BdxStatusCode.BadBlockCounter,
+                        `Received block ${receivedCounter}, expected ${blockCounter}`,
+                    );
+                }
+                if (data.length > maxBlockSize) {
+                    throw await messenger.fail(
+                        BdxStatusCode.BadMessageContents,
+                        `Block of ${data.length} bytes exceeds maximum block size ${maxBlockSize}`,
+                    );
+                }
+
+                this.#bytesReceived += data.length;
+                const position = this.#bytesReceived + this.#bytesSkipped;
+                if (length !== undefined && position > length) {
+                    throw await messenger.fail(
+                        BdxStatusCode.LengthMismatch,
+                        `Received more than the announced ${length} bytes`,
+                    );
+                }
+
+                if (message.payloadHeader.messageType === BdxMessageType.BlockEof) {
+                    if (length !== undefined && position !== length) {
+                        throw await messenger.fail(
+                            BdxStatusCode.LengthMismatch,
+                            `Received ${position} bytes but ${length} bytes were announced`,
+                        );
+                    }
+                    await messenger.send(BdxMessageType.BlockAckEof, BdxCounterMessage, { blockCounter });
+                    finished = true;
+                    if (data.length) {
+                        yield data;
+                    }
+                    return;
+                }
+
+                yield data;
+
+                if (senderDrive && !asynchronous) {
+                    await messenger.send(BdxMessageType.BlockAck, BdxCounterMessage, { blockCounter });
+                }
+            }
+        } catch (error) {
+            finished = error instanceof BdxError;
+            throw error;
+        } finally {
+            if (!finished) {
+                // The transfer was abandoned locally so tell the sender
+                await messenger.fail(BdxStatusCode.TransferFailedUnknownError, "Transfer aborted");
+            }
+            await messenger.close();
+        }
+    }
+
+    async #query(blockCounter: number) {
+        const bytesToSkip = this.#skip;
+        if (!bytesToSkip) {
+            await this.#messenger.send(BdxMessageType.BlockQuery, BdxCounterMessage, { blockCounter });
+            return;
+        }
+
+        // The sender skips at most to the end of the data
+        const { length } = this.#parameters;
+        this.#skip = 0;
+        this.#bytesSkipped +=
+            length === undefined
+                ? bytesToSkip
+                : Math.min(bytesToSkip, length - this.#bytesReceived - this.#bytesSkipped);
+        await this.#messenger.send(BdxMessageType.BlockQueryWithSkip, BdxBlockQueryWithSkipMessage, {
+            blockCounter,
+            bytesToSkip,
+        });
+    }
+}
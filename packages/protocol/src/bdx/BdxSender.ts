@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes } from "#general";
+import { BdxMessageType, BdxStatusCode } from "#types";
+import {
+    BdxBlockMessage,
+    BdxBlockQueryWithSkipMessage,
+    BdxCounterMessage,
+    BdxTransferParameters,
+} from "./BdxMessages.js";
+import { BdxError, BdxMessenger } from "./BdxMessenger.js";
+
+/**
+ * The sending side of a BDX transfer after the transfer parameters are negotiated.
+ *
+ * In receiver driven mode the sender sends a block for each BlockQuery of the receiver and skips data if the receiver
+ * requests it.  In sender driven mode the sender sends blocks as the receiver acknowledges them or, in asynchronous
+ * mode, without waiting for acknowledgement.  The exchange closes when the transfer ends.
+ */
+export class BdxSender {
+    readonly #messenger: BdxMessenger;
+    readonly #parameters: BdxTransferParameters;
+    #sent = false;
+
+    constructor(messenger: BdxMessenger, parameters: BdxTransferParameters) {
+        this.#messenger = messenger;
+        this.#parameters = parameters;
+    }
+
+    get parameters() {
+        return this.#parameters;
+    }
+
+    /**
+     * Send data.  Resolves when the receiver acknowledged the last block.
+     *
+     * The data starts at the start offset of the transfer.  If the transfer has a definite length the data must supply at
+     * least that many bytes.  Excess data is not sent.
+     */
+    async send(data: BdxSender.Data) {
+        if (this.#sent) {
+            throw new BdxError("BDX data may only be sent once", BdxStatusCode.UnexpectedMessage);
+        }
+        this.#sent = true;
+
+        const messenger = this.#messenger;
+        const { senderDrive, asynchronous, maxBlockSize, length } = this.#parameters;
+        const source = new BlockSource(data);
+        let finished = false;
+
+        try {
+            for (let blockCounter = 0; ; blockCounter = (blockCounter + 1) >>> 0) {
+                if (!senderDrive) {
+                    await this.#awaitQuery(blockCounter, source);
+                }
+
+                const block = await source.read(
+                    length === undefined ? maxBlockSize : Math.min(maxBlockSize, length - source.position),
+                );
+                const isEof = source.isExhausted || source.position === length;
+                if (source.isExhausted && length !== undefined && source.position !== length) {
+                    throw await messenger.fail(
+                        BdxStatusCode.LengthMismatch,
+                        `Data ended after ${source.position} of the announced ${length} bytes`,
+                    );
+                }
+
+                await messenger.send(isEof ? BdxMessageType.BlockEof : BdxMessageType.Block, BdxBlockMessage, {
+                    blockCounter,
+                    data: block,
+                });
+
+                if (isEof) {
+                    await this.#awaitCounter(BdxMessageType.BlockAckEof, blockCounter);
+                    finished = true;
+                    return;
+                }
+
+                if (senderDrive && !asynchronous) {
+                    await this.#awaitCounter(BdxMessageType.BlockAck, blockCounter);
+                }
+            }
+        } catch (error) {
+            finished = error instanceof BdxError;
+            throw error;
+        } finally {
+            if (!finished) {
+                await messenger.fail(BdxStatusCode.TransferFailedUnknownError, "Transfer aborted");
+            }
+            await messenger.close();
+        }
+    }
+
+    async #awaitQuery(expectedCounter: number, source: BlockSource) {
+        const messenger = this.#messenger;
+        const message = await messenger.nextMessage(BdxMessageType.BlockQuery, BdxMessageType.BlockQueryWithSkip);
+
+        let blockCounter, bytesToSkip;
+        if (message.payloadHeader.messageType === BdxMessageType.BlockQueryWithSkip) {
+            ({ blockCounter, bytesToSkip } = await messenger.decode(message.payload, BdxBlockQueryWithSkipMessage));
+        } else {
+            ({ blockCounter } = await messenger.decode(message.payload, BdxCounterMessage));
+        }
+        await this.#assertCounter(BdxMessageType.BlockQuery, blockCounter, expectedCounter);
+
+        if (bytesToSkip) {
+            const { length } = this.#parameters;
+            await source.skip(length === undefined ? bytesToSkip : Math.min(bytesToSkip, length - source.position));
+        }
+    }
+
+    async #awaitCounter(messageType: BdxMessageType, expectedCounter: number) {
+        const { blockCounter } = await this.#messenger.nextMessageDecoded(messageType, BdxCounterMessage);
+        await this.#assertCounter(messageType, blockCounter, expectedCounter);
+    }
+
+    async #assertCounter(messageType: BdxMessageType, blockCounter: number, expectedCounter: number) {
+        if (blockCounter !== expectedCounter) {
+            throw await this.#messenger.fail(
+                BdxStatusCode.BadBlockCounter,
+                `Received ${BdxMessageType[messageType]} for block ${blockCounter}, expected ${expectedCounter}`,
+            );
+        }
+    }
+}
+
+export namespace BdxSender {
+    /**
+     * Data to send.  Iterables may supply chunks of any size, the sender splits or joins them into blocks.
+     */
+    export type Data = Uint8Array | Iterable<Uint8Array> | AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Reads blocks from {@link BdxSender.Data} with lookahead to detect the last block.
+ */
+class BlockSource {
+    #iterator?: Iterator<Uint8Array> | AsyncIterator<Uint8Array>;
+    #buffer = new Array<Uint8Array>();
+    #buffered = 0;
+    #done = false;
+    #position = 0;
+
+    constructor(data: BdxSender.Data) {
+        if (data instanceof Uint8Array) {
+            this.#buffer.push(data);
+            this.#buffered = data.length;
+            this.#done = true;
+        } else if (Symbol.asyncIterator in data) {
+            this.#iterator = data[Symbol.asyncIterator]();
+        } else {
+            this.#iterator = data[Symbol.iterator]();
+        }
+    }
+
+    /**
+     * The number of bytes read or skipped.
+     */
+    get position() {
+        return this.#position;
+    }
+
+    /**
+     * True if all data was read.  Valid after {@link read}.
+     */
+    get isExhausted() {
+        return this.#done && this.#buffered === 0;
+    }
+
+    /**
+     * Read up to {@link length} bytes.  Returns fewer bytes only at the end of the data.
+     */
+    async read(length: number) {
+        // Read one byte ahead so we know whether this is the last block
+        await this.#fill(length + 1);
+
+        const chunks = new Array<Uint8Array>();
+        let remaining = Math.min(length, this.#buffered);
+        while (remaining > 0) {
+            const chunk = this.#buffer[0];
+            if (chunk.length <= remaining) {
+                chunks.push(chunk);
+                this.#buffer.shift();
+                remaining -= chunk.length;
+            } else {
+                chunks.push(chunk.subarray(0, remaining));
+                this.#buffer[0] = chunk.subarray(remaining);
+                remaining = 0;
+            }
+        }
+
+        const block = chunks.length === 1 ? chunks[0] : Bytes.concat(...chunks);
+        this.#buffered -= block.length;
+        this.#position += block.length;
+        return block;
+    }
+
+    /**
+     * Skip up to {@link length} bytes.
+     */
+    async skip(length: number) {
+        while (length > 0) {
+            await this.#fill(1);
+            if (this.#buffered === 0) {
+                return;
+            }
+            length -= (await this.read(Math.min(length, this.#buffered))).length;
+        }
+    }
+
+    async #fill(length: number) {
+        while (!this.#done && this.#buffered < length) {
+            const { value, done } = await this.#iterator!.next();
+            if (done) {
+                this.#done = true;
+            } else if (value.length) {
+                this.#buffer.push(value);
+                this.#buffered += value.length;
+            }
+        }
+    }
+}
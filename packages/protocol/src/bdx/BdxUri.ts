@@ -0,0 +1,29 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UnexpectedDataError } from "#general";
+import { NodeId } from "#types";
+
+const BDX_URI_PATTERN = /^bdx:\/\/([0-9a-fA-F]{16})\/(.+)$/;
+
+/**
+ * The "bdx://" URIs that reference files available via BDX, for example OTA images.
+ *
+ * The URI has the form "bdx://<node ID>/<file designator>" with the node ID as 16 hex digits.
+ */
+export namespace BdxUri {
+    export function create(nodeId: NodeId, fileDesignator: string) {
+        return `bdx://${NodeId.toHexString(nodeId)}/${fileDesignator}`;
+    }
+
+    export function parse(uri: string) {
+        const match = uri.match(BDX_URI_PATTERN);
+        if (match === null) {
+            throw new UnexpectedDataError(`Invalid BDX URI "${uri}"`);
+        }
+        return { nodeId: NodeId(BigInt(`0x${match[1]}`)), fileDesignator: match[2] };
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from "./BdxClient.js";
+export * from "./BdxMessages.js";
+export * from "./BdxMessenger.js";
+export * from "./BdxProtocol.js";
+export * from "./BdxReceiver.js";
+export * from "./BdxSender.js";
+export * from "./BdxUri.js";
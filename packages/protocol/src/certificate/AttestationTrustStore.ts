@@ -0,0 +1,291 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Crypto, CryptoVerifyError, Environment, Environmental, Logger, PublicKey } from "#general";
+import { CertificateError, CertificateManager, DecodedAttestationCertificate } from "./CertificateManager.js";
+import { TestCMS_SignerPublicKey, TestCMS_SignerSubjectKeyIdentifier } from "./CertificationDeclarationManager.js";
+import { TestCert_PAA_FFF1_Cert, TestCert_PAA_NoVID_Cert } from "./ChipPAAuthorities.js";
+
+const logger = Logger.get("AttestationTrustStore");
+
+/**
+ * The set of Product Attestation Authorities (PAAs) and Certification Declaration signers a commissioner trusts when
+ * verifying the device attestation of a commissionee.
+ *
+ * By default the store contains the test PAAs and the test Certification Declaration signer of the Matter
+ * specification, so devices using test attestation credentials (such as matter.js devices) can be commissioned.
+ * Controllers commissioning production devices should add the official PAAs and signers and may disable the test
+ * credentials via {@link AttestationTrustStore.Options.includeTestCredentials}.
+ *
+ * PAAs and revocation information may be imported from an offline snapshot of the Distributed Compliance Ledger (DCL)
+ * via {@link AttestationTrustStore.importSnapshot}.  This allows updating the trusted roots without network access to
+ * the DCL.
+ *
+ * Commissioning fails for devices that do not verify against the store unless you disable
+ * {@link AttestationTrustStore.Options.enforce} or decide per device via the commissioning options.  Subclasses that
+ * load PAAs asynchronously, such as the Node.js store downloading the PAAs of the DCL, do so in {@link update}.
+ */
+export class AttestationTrustStore {
+    readonly enforce: boolean;
+    #authorities = new Map<string, AttestationTrustStore.Authority>();
+    #declarationSigners = new Map<string, Uint8Array>();
+    #revocations = new Map<string, Set<string>>();
+
+    constructor(options: AttestationTrustStore.Options = {}) {
+        this.enforce = options.enforce ?? true;
+        if (options.includeTestCredentials ?? true) {
+            this.addAuthority(TestCert_PAA_NoVID_Cert);
+            this.addAuthority(TestCert_PAA_FFF1_Cert);
+            this.addDeclarationSigner(TestCMS_SignerSubjectKeyIdentifier, TestCMS_SignerPublicKey);
+        }
+    }
+
+    static [Environmental.create](env: Environment) {
+        const instance = new AttestationTrustStore();
+        env.set(AttestationTrustStore, instance);
+        return instance;
+    }
+
+    /**
+     * Bring the trusted PAAs up to date.  Commissioning invokes this before verifying the attestation of a device.  The
+     * default store only contains the PAAs added explicitly so there is nothing to do.
+     */
+    async update(): Promise<void> {}
+
+    /**
+     * Add a DER or PEM encoded, self-signed PAA certificate as trust anchor.
+     */
+    addAuthority(certificate: Uint8Array | string) {
+        if (typeof certificate === "string") {
+            certificate = pemToDer(certificate);
+        }
+        const decoded = CertificateManager.parseAttestationCertificate(certificate);
+        const {
+            extensions: { basicConstraints, subjectKeyIdentifier },
+        } = decoded;
+        if (!basicConstraints.isCa) {
+            throw new CertificateError("Product Attestation Authority certificate must be a CA certificate");
+        }
+        if (subjectKeyIdentifier === undefined) {
+            throw new CertificateError("Product Attestation Authority certificate must have a subject key identifier");
+        }
+        try {
+            Crypto.verify(PublicKey(decoded.ellipticCurvePublicKey), decoded.signedData, decoded.signature, "der");
+        } catch (error) {
+            CryptoVerifyError.accept(error);
+            throw new CertificateError("Product Attestation Authority certificate must be self-signed");
+        }
+
+        const key = Bytes.toHex(subjectKeyIdentifier);
+        if (this.#authorities.has(key)) {
+            logger.debug(`Replacing Product Attestation Authority ${key}`);
+        }
+        this.#authorities.set(key, { certificate, decoded });
+        return decoded;
+    }
+
+    /**
+     * Remove a PAA identified by its subject key identifier.
+     */
+    removeAuthority(subjectKeyIdentifier: Uint8Array) {
+        return this.#authorities.delete(Bytes.toHex(subjectKeyIdentifier));
+    }
+
+    /**
+     * Find a trusted PAA by its subject key identifier.
+     */
+    authorityFor(subjectKeyIdentifier: Uint8Array): AttestationTrustStore.Authority | undefined {
+        return this.#authorities.get(Bytes.toHex(subjectKeyIdentifier));
+    }
+
+    get authorities() {
+        return [...this.#authorities.values()];
+    }
+
+    /**
+     * Revoke PAI or DAC certificates identified by the subject key identifier of their issuer and their serial numbers.
+     */
+    addRevocation(issuerSubjectKeyIdentifier: Uint8Array, serialNumbers: Uint8Array[]) {
+        const key = Bytes.toHex(issuerSubjectKeyIdentifier);
+        let revoked = this.#revocations.get(key);
+        if (revoked === undefined) {
+            revoked = new Set();
+            this.#revocations.set(key, revoked);
+        }
+        for (const serialNumber of serialNumbers) {
+            revoked.add(normalizeSerialNumber(Bytes.toHex(serialNumber)));
+        }
+    }
+
+    /**
+     * Determine whether a certificate was revoked via {@link addRevocation}.
+     */
+    isRevoked({ serialNumber, extensions: { authorityKeyIdentifier } }: DecodedAttestationCertificate) {
+        if (authorityKeyIdentifier === undefined) {
+            return false;
+        }
+        return (
+            this.#revocations
+                .get(Bytes.toHex(authorityKeyIdentifier))
+                ?.has(normalizeSerialNumber(Bytes.toHex(serialNumber))) ?? false
+        );
+    }
+
+    /**
+     * Import PAAs and revocation data from an offline snapshot.
+     *
+     * The snapshot has the shape of the JSON responses of the DCL PKI REST endpoints:
+     *
+     *   - `approvedCertificates` (from `/dcl/pki/certificates`): Approved root certificates are added as trusted PAAs
+     *
+     *   - `revokedCertificates` (from `/dcl/pki/revoked-certificates`): Revoked root certificates are removed from the
+     *     trusted PAAs, other revoked certificates are added as revocations
+     *
+     *   - `revocationSet`: Revoked PAI and DAC serial numbers per issuer in the revocation set format of the Matter SDK
+     *
+     * Entries that are not root certificates or that fail to decode are skipped.  Returns the number of imported PAAs
+     * and revocations.
+     */
+    importSnapshot(snapshot: AttestationTrustStore.Snapshot) {
+        let authorities = 0;
+        let revocations = 0;
+
+        for (const { certs } of snapshot.approvedCertificates ?? []) {
+            for (const { pemCert, isRoot, subjectAsText } of certs ?? []) {
+                if (!isRoot) {
+                    continue;
+                }
+                try {
+                    this.addAuthority(pemCert);
+                    authorities++;
+                } catch (error) {
+                    logger.warn(`Ignoring invalid PAA ${subjectAsText ?? ""} from snapshot:`, error);
+                }
+            }
+        }
+
+        for (const { certs } of snapshot.revokedCertificates ?? []) {
+            for (const { pemCert, subjectAsText } of certs ?? []) {
+                let decoded;
+                try {
+                    decoded = CertificateManager.parseAttestationCertificate(pemToDer(pemCert));
+                } catch (error) {
+                    logger.warn(`Ignoring invalid revoked certificate ${subjectAsText ?? ""} from snapshot:`, error);
+                    continue;
+                }
+                const { subjectKeyIdentifier, authorityKeyIdentifier } = decoded.extensions;
+                if (subjectKeyIdentifier !== undefined && this.removeAuthority(subjectKeyIdentifier)) {
+                    revocations++;
+                } else if (authorityKeyIdentifier !== undefined) {
+                    this.addRevocation(authorityKeyIdentifier, [decoded.serialNumber]);
+                    revocations++;
+                }
+            }
+        }
+
+        for (const entry of snapshot.revocationSet ?? []) {
+            if (entry.type !== "revocation_set") {
+                continue;
+            }
+            this.addRevocation(
+                Bytes.fromHex(entry.issuer_subject_key_id),
+                entry.revoked_serial_numbers.map(serialNumber => Bytes.fromHex(serialNumber)),
+            );
+            revocations += entry.revoked_serial_numbers.length;
+        }
+
+        logger.info(`Imported ${authorities} PAAs and ${revocations} revocations from snapshot`);
+        return { authorities, revocations };
+    }
+
+    /**
+     * Add the public key of a trusted Certification Declaration signer identified by its subject key identifier.
+     */
+    addDeclarationSigner(subjectKeyIdentifier: Uint8Array, publicKey: Uint8Array) {
+        this.#declarationSigners.set(Bytes.toHex(subjectKeyIdentifier), publicKey);
+    }
+
+    /**
+     * Find the public key of a trusted Certification Declaration signer.
+     */
+    declarationSignerFor(subjectKeyIdentifier: Uint8Array) {
+        return this.#declarationSigners.get(Bytes.toHex(subjectKeyIdentifier));
+    }
+}
+
+function pemToDer(pem: string) {
+    const match = pem.match(/-----BEGIN CERTIFICATE-----([A-Za-z0-9+/=\s]+)-----END CERTIFICATE-----/);
+    if (match === null) {
+        throw new CertificateError("Invalid PEM certificate");
+    }
+    return Bytes.fromBase64(match[1].replace(/\s/g, ""));
+}
+
+function normalizeSerialNumber(serialNumber: string) {
+    return serialNumber.toLowerCase().replace(/^(00)+(?=.)/, "");
+}
+
+export namespace AttestationTrustStore {
+    export interface Options {
+        /**
+         * Trust the test PAAs and the test Certification Declaration signer of the Matter specification.  Defaults to
+         * true.
+         */
+        includeTestCredentials?: boolean;
+
+        /**
+         * Fail commissioning of devices with attestation information we cannot verify.  Defaults to true.  Set to false
+         * to only log a warning.
+         */
+        enforce?: boolean;
+    }
+
+    /**
+     * A certificate as contained in DCL PKI exports.
+     */
+    export interface SnapshotCertificate {
+        pemCert: string;
+        isRoot?: boolean;
+        subjectAsText?: string;
+        serialNumber?: string;
+        vid?: number;
+    }
+
+    /**
+     * The certificates of one subject as contained in DCL PKI exports.
+     */
+    export interface SnapshotCertificates {
+        subject?: string;
+        subjectKeyId?: string;
+        certs?: SnapshotCertificate[];
+    }
+
+    /**
+     * Revoked certificates of one issuer in the revocation set format of the Matter SDK.
+     */
+    export interface RevocationSetEntry {
+        type: string;
+        issuer_subject_key_id: string;
+        revoked_serial_numbers: string[];
+    }
+
+    /**
+     * An offline snapshot of PAAs and revocation data, see {@link AttestationTrustStore.importSnapshot}.
+     */
+    export interface Snapshot {
+        approvedCertificates?: SnapshotCertificates[];
+        revokedCertificates?: SnapshotCertificates[];
+        revocationSet?: RevocationSetEntry[];
+    }
+
+    export interface Authority {
+        /** The DER encoded PAA certificate. */
+        certificate: Uint8Array;
+
+        /** The decoded PAA certificate. */
+        decoded: DecodedAttestationCertificate;
+    }
+}
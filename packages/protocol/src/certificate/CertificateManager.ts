@@ -13,6 +13,7 @@ import {
     DatatypeOverride,
     DerCodec,
     DerKey,
+    DerNode,
     DerObject,
     DerType,
     ImplementationError,
@@ -23,7 +24,6 @@ import {
     PublicKey,
     RawBytes,
     SHA256_CMS,
-    Time,
     X509,
     X520,
     X962,
@@ -33,6 +33,7 @@ import {
     BitmapSchema,
     CaseAuthenticatedTag,
     FabricId,
+    MATTER_EPOCH_OFFSET_S,
     NodeId,
     TlvArray,
     TlvBitmap,
@@ -57,13 +58,19 @@ import {
     TypeFromSchema,
     VendorId,
 } from "#types";
-
-const logger = Logger.get("CertificateManager");
+import { LastKnownGoodTime } from "./LastKnownGoodTime.js";
 
 export class CertificateError extends MatterError {}
 
+const COMMON_NAME_OID = "550403";
+const VENDOR_ID_OID = "2b0601040182a27c0201";
+const PRODUCT_ID_OID = "2b0601040182a27c0202";
+const BASIC_CONSTRAINTS_OID = "551d13";
+const KEY_USAGE_OID = "551d0f";
+const SUBJECT_KEY_IDENTIFIER_OID = "551d0e";
+const AUTHORITY_KEY_IDENTIFIER_OID = "551d23";
+
 const YEAR_S = 365 * 24 * 60 * 60;
-const EPOCH_OFFSET_S = 10957 * 24 * 60 * 60;
 
 /**
  * Matter specific Certificate Sizes
@@ -72,16 +79,14 @@ const EPOCH_OFFSET_S = 10957 * 24 * 60 * 60;
 const MAX_DER_CERTIFICATE_SIZE = 600;
 const MAX_TLV_CERTIFICATE_SIZE = 400;
 
-// TODO replace usage of Date by abstraction
-
 export function matterToJsDate(date: number) {
-    return date === 0 ? X520.NON_WELL_DEFINED_DATE : new Date((date + EPOCH_OFFSET_S) * 1000);
+    return date === 0 ? X520.NON_WELL_DEFINED_DATE : new Date((date + MATTER_EPOCH_OFFSET_S) * 1000);
 }
 
 export function jsToMatterDate(date: Date, addYears = 0) {
     return date.getTime() === X520.NON_WELL_DEFINED_DATE.getTime()
         ? 0
-        : Math.floor(date.getTime() / 1000) - EPOCH_OFFSET_S + addYears * YEAR_S;
+        : Math.floor(date.getTime() / 1000) - MATTER_EPOCH_OFFSET_S + addYears * YEAR_S;
 }
 
 function intTo16Chars(value: bigint | number) {
@@ -371,6 +376,42 @@ export interface ProductAttestationAuthorityCertificate extends AttestationCerti
     };
 }
 
+/**
+ * Relevant fields of a DER encoded Device Attestation, Product Attestation Intermediate or Product Attestation
+ * Authority certificate as decoded by {@link CertificateManager.parseAttestationCertificate}.
+ */
+export interface DecodedAttestationCertificate {
+    serialNumber: Uint8Array;
+    issuer: DecodedAttestationCertificate.Name;
+    subject: DecodedAttestationCertificate.Name;
+    notBefore: Date;
+    notAfter: Date;
+    ellipticCurvePublicKey: Uint8Array;
+    extensions: {
+        basicConstraints: {
+            isCa: boolean;
+            pathLen?: number;
+        };
+        keyUsage: TypeFromPartialBitSchema<typeof ExtensionKeyUsageBitmap>;
+        subjectKeyIdentifier?: Uint8Array;
+        authorityKeyIdentifier?: Uint8Array;
+    };
+
+    /** The DER encoded TBSCertificate which is covered by the signature. */
+    signedData: Uint8Array;
+
+    /** The DER encoded ECDSA signature. */
+    signature: Uint8Array;
+}
+
+export namespace DecodedAttestationCertificate {
+    export interface Name {
+        commonName?: string;
+        vendorId?: VendorId;
+        productId?: number;
+    }
+}
+
 export const TlvCertificationDeclaration = TlvObject({
     formatVersion: TlvField(0, TlvUInt16),
     vendorId: TlvField(1, TlvVendorId),
@@ -730,9 +771,12 @@ export namespace CertificateManager {
     /**
      * Validate general requirements a Matter certificate fields must fulfill.
      * Rules for this are listed in @see {@link MatterSpecification.v12.Core} §6.5.x
+     *
+     * Validity is checked against the {@link LastKnownGoodTime} of the node if supplied.
      */
     export function validateGeneralCertificateFields(
         cert: RootCertificate | OperationalCertificate | IntermediateCertificate,
+        lastKnownGoodTime?: LastKnownGoodTime,
     ) {
         if (cert.serialNumber.length > 20)
             throw new CertificateError(
@@ -762,13 +806,32 @@ export namespace CertificateManager {
             throw new CertificateError(`Certificate issuer must not contain more than 5 RDNs.`);
         }
 
-        // notBefore date should be already reached, notAfter is not checked right now
-        // TODO: implement real checks when we add "Last known Good UTC time"
-        if (cert.notBefore * 1000 > Time.nowMs()) {
-            logger.warn(`Certificate notBefore date is in the future: ${cert.notBefore * 1000} vs ${Time.nowMs()}`);
-            /*throw new CertificateError(
-                `Certificate notBefore date is in the future: ${cert.notBefore * 1000} vs ${Time.nowMs()}`,
-            );*/
+        assertCertificateValidity(cert, lastKnownGoodTime);
+    }
+
+    /**
+     * Verify the certificate is valid at the current time.  If the current time is not known, only NotAfter is checked
+     * against the Last Known Good UTC Time as described in @see {@link MatterSpecification.v13.Core} § 3.5.6.1.
+     *
+     * Without a {@link LastKnownGoodTime} of the node this uses the initial Last Known Good UTC Time.
+     */
+    export function assertCertificateValidity(
+        cert: { notBefore: number; notAfter: number },
+        lastKnownGoodTime = new LastKnownGoodTime(),
+    ) {
+        const { time, isCurrent } = lastKnownGoodTime.validationTime;
+
+        if (isCurrent && cert.notBefore !== 0 && matterToJsDate(cert.notBefore) > time) {
+            throw new CertificateError(
+                `Certificate is not yet valid: NotBefore ${matterToJsDate(cert.notBefore).toISOString()} is after ${time.toISOString()}`,
+            );
+        }
+
+        // A NotAfter of 0 indicates the certificate has no well-defined expiration date
+        if (cert.notAfter !== 0 && matterToJsDate(cert.notAfter) < time) {
+            throw new CertificateError(
+                `Certificate has expired: NotAfter ${matterToJsDate(cert.notAfter).toISOString()} is before ${time.toISOString()}`,
+            );
         }
     }
 
@@ -776,8 +839,8 @@ export namespace CertificateManager {
      * Verify requirements a Matter Root certificate must fulfill.
      * Rules for this are listed in @see {@link MatterSpecification.v12.Core} §6.5.x
      */
-    export function verifyRootCertificate(rootCert: RootCertificate) {
-        CertificateManager.validateGeneralCertificateFields(rootCert);
+    export function verifyRootCertificate(rootCert: RootCertificate, lastKnownGoodTime?: LastKnownGoodTime) {
+        CertificateManager.validateGeneralCertificateFields(rootCert, lastKnownGoodTime);
 
         // The subject DN SHALL NOT encode any matter-node-id attribute.
         if ("nodeId" in rootCert.subject) {
@@ -865,8 +928,9 @@ export namespace CertificateManager {
     export function verifyNodeOperationalCertificate(
         rootOrIcaCert: RootCertificate | IntermediateCertificate,
         nocCert: OperationalCertificate,
+        lastKnownGoodTime?: LastKnownGoodTime,
     ) {
-        CertificateManager.validateGeneralCertificateFields(nocCert);
+        CertificateManager.validateGeneralCertificateFields(nocCert, lastKnownGoodTime);
 
         // The subject DN SHALL encode exactly one matter-node-id attribute.
         if (nocCert.subject.nodeId === undefined || Array.isArray(nocCert.subject.nodeId)) {
@@ -976,8 +1040,12 @@ export namespace CertificateManager {
      * Verify requirements a Matter Intermediate CA certificate must fulfill.
      * Rules for this are listed in @see {@link MatterSpecification.v12.Core} §6.5.x
      */
-    export function verifyIntermediateCaCertificate(rootCert: RootCertificate, icaCert: IntermediateCertificate) {
-        CertificateManager.validateGeneralCertificateFields(icaCert);
+    export function verifyIntermediateCaCertificate(
+        rootCert: RootCertificate,
+        icaCert: IntermediateCertificate,
+        lastKnownGoodTime?: LastKnownGoodTime,
+    ) {
+        CertificateManager.validateGeneralCertificateFields(icaCert, lastKnownGoodTime);
 
         // The subject DN SHALL NOT encode any matter-node-id attribute.
         if ("nodeId" in icaCert.subject) {
@@ -1133,4 +1201,166 @@ export namespace CertificateManager {
 
         return publicKey;
     }
+
+    /**
+     * Decode a DER encoded attestation certificate (DAC, PAI or PAA).  This does not validate the certificate beyond
+     * its structure.  Vendor and product IDs are read from the Matter specific DN attributes and, if not present, from
+     * the legacy "Mvid:XXXX Mpid:YYYY" encoding in the common name as allowed by @see {@link MatterSpecification.v13.Core} § 6.2.2.2.
+     */
+    export function parseAttestationCertificate(certificate: Uint8Array): DecodedAttestationCertificate {
+        const { [DerKey.Elements]: rootElements } = DerCodec.decode(certificate);
+        if (rootElements?.length !== 3) throw new CertificateError("Invalid certificate data");
+        const [tbsNode, signAlgorithmNode, signatureNode] = rootElements;
+
+        if (
+            signAlgorithmNode[DerKey.Elements]?.[0]?.[DerKey.Bytes] === undefined ||
+            !Bytes.areEqual(
+                X962.EcdsaWithSHA256[DerKey.ObjectId][DerKey.Bytes],
+                signAlgorithmNode[DerKey.Elements][0][DerKey.Bytes],
+            )
+        )
+            throw new CertificateError("Unsupported signature type");
+
+        const tbsElements = [...(tbsNode[DerKey.Elements] ?? [])];
+        if (tbsElements[0]?.[DerKey.TagId] === 0xa0) {
+            // Explicit version field, we only support v3 which is mandatory for Matter
+            const version = tbsElements.shift()?.[DerKey.Elements]?.[0]?.[DerKey.Bytes][0];
+            if (version !== 2) throw new CertificateError(`Unsupported certificate version ${version}`);
+        }
+        if (tbsElements.length < 6) throw new CertificateError("Invalid certificate data");
+        const [serialNumberNode, _signatureAlgorithmNode, issuerNode, validityNode, subjectNode, publicKeyNode] =
+            tbsElements;
+
+        const validityElements = validityNode[DerKey.Elements];
+        if (validityElements?.length !== 2) throw new CertificateError("Invalid certificate validity");
+
+        const publicKey = publicKeyNode[DerKey.Elements]?.[1]?.[DerKey.Bytes];
+        if (publicKey === undefined) throw new CertificateError("Invalid certificate public key");
+
+        const extensionsNode = tbsElements.find(node => node[DerKey.TagId] === 0xa3);
+
+        return {
+            serialNumber: serialNumberNode[DerKey.Bytes],
+            issuer: decodeAttestationName(issuerNode),
+            subject: decodeAttestationName(subjectNode),
+            notBefore: decodeDerTime(validityElements[0]),
+            notAfter: decodeDerTime(validityElements[1]),
+            ellipticCurvePublicKey: publicKey,
+            extensions: decodeAttestationExtensions(extensionsNode?.[DerKey.Elements]?.[0]),
+            signedData: DerCodec.encode(tbsNode),
+            signature: signatureNode[DerKey.Bytes],
+        };
+    }
+
+    function decodeAttestationName(node: DerNode): DecodedAttestationCertificate.Name {
+        const name: DecodedAttestationCertificate.Name = {};
+        for (const rdn of node[DerKey.Elements] ?? []) {
+            for (const attribute of rdn[DerKey.Elements] ?? []) {
+                const [oidNode, valueNode] = attribute[DerKey.Elements] ?? [];
+                if (oidNode === undefined || valueNode === undefined) continue;
+                const value = new TextDecoder().decode(valueNode[DerKey.Bytes]);
+                switch (Bytes.toHex(oidNode[DerKey.Bytes])) {
+                    case COMMON_NAME_OID:
+                        name.commonName = value;
+                        break;
+                    case VENDOR_ID_OID:
+                        name.vendorId = VendorId(parseAttestationId(value));
+                        break;
+                    case PRODUCT_ID_OID:
+                        name.productId = parseAttestationId(value);
+                        break;
+                }
+            }
+        }
+
+        if (name.commonName !== undefined) {
+            const vendorId = name.commonName.match(/Mvid:([0-9A-F]{4})/)?.[1];
+            if (name.vendorId === undefined && vendorId !== undefined) {
+                name.vendorId = VendorId(parseAttestationId(vendorId));
+            }
+            const productId = name.commonName.match(/Mpid:([0-9A-F]{4})/)?.[1];
+            if (name.productId === undefined && productId !== undefined) {
+                name.productId = parseAttestationId(productId);
+            }
+        }
+
+        return name;
+    }
+
+    function parseAttestationId(value: string) {
+        if (!/^[0-9A-F]{4}$/.test(value)) throw new CertificateError(`Invalid vendor or product ID "${value}"`);
+        return parseInt(value, 16);
+    }
+
+    function decodeDerTime(node: DerNode) {
+        const value = new TextDecoder().decode(node[DerKey.Bytes]);
+        let match;
+        switch (node[DerKey.TagId]) {
+            case DerType.UtcDate:
+                match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+                if (match !== null) {
+                    const year = parseInt(match[1]);
+                    match[1] = (year < 50 ? 2000 + year : 1900 + year).toString();
+                }
+                break;
+
+            case DerType.GeneralizedTime:
+                match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+                break;
+        }
+        if (!match) throw new CertificateError(`Invalid certificate time "${value}"`);
+        const [year, month, day, hour, minute, second] = match.slice(1).map(part => parseInt(part));
+        return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    }
+
+    function decodeAttestationExtensions(node: DerNode | undefined) {
+        const extensions: DecodedAttestationCertificate["extensions"] = {
+            basicConstraints: { isCa: false },
+            keyUsage: {},
+        };
+
+        for (const extension of node?.[DerKey.Elements] ?? []) {
+            const elements = extension[DerKey.Elements] ?? [];
+            if (elements.length < 2) throw new CertificateError("Invalid certificate extension");
+            const oid = Bytes.toHex(elements[0][DerKey.Bytes]);
+            const value = DerCodec.decode(elements[elements.length - 1][DerKey.Bytes]);
+
+            switch (oid) {
+                case BASIC_CONSTRAINTS_OID: {
+                    for (const constraint of value[DerKey.Elements] ?? []) {
+                        if (constraint[DerKey.TagId] === DerType.Boolean) {
+                            extensions.basicConstraints.isCa = constraint[DerKey.Bytes][0] !== 0;
+                        } else if (constraint[DerKey.TagId] === DerType.Integer) {
+                            extensions.basicConstraints.pathLen = constraint[DerKey.Bytes][0];
+                        }
+                    }
+                    break;
+                }
+
+                case KEY_USAGE_OID: {
+                    // Bit strings are encoded with the most significant bit first
+                    let keyUsage = 0;
+                    value[DerKey.Bytes].forEach((byte, index) => {
+                        for (let bit = 0; bit < 8; bit++) {
+                            if (byte & (0x80 >> bit)) keyUsage |= 1 << (index * 8 + bit);
+                        }
+                    });
+                    extensions.keyUsage = ExtensionKeyUsageSchema.decode(keyUsage);
+                    break;
+                }
+
+                case SUBJECT_KEY_IDENTIFIER_OID:
+                    extensions.subjectKeyIdentifier = value[DerKey.Bytes];
+                    break;
+
+                case AUTHORITY_KEY_IDENTIFIER_OID:
+                    extensions.authorityKeyIdentifier = value[DerKey.Elements]?.find(
+                        element => element[DerKey.TagId] === 0x80,
+                    )?.[DerKey.Bytes];
+                    break;
+            }
+        }
+
+        return extensions;
+    }
 }
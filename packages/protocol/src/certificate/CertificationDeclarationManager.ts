@@ -3,9 +3,9 @@
  * Copyright 2022-2024 Matter.js Authors
  * SPDX-License-Identifier: Apache-2.0
  */
-import { Bytes, PrivateKey } from "#general";
-import { VendorId } from "#types";
-import { CertificateManager, TlvCertificationDeclaration } from "./CertificateManager.js";
+import { Bytes, Crypto, CryptoVerifyError, DerCodec, DerKey, PrivateKey, PublicKey } from "#general";
+import { TypeFromSchema, VendorId } from "#types";
+import { CertificateError, CertificateManager, TlvCertificationDeclaration } from "./CertificateManager.js";
 
 // This is the private key from Appendix F of the Matter 1.1 Core Specification.
 // The specification specifies it in PEM format:
@@ -27,7 +27,14 @@ const TestCMS_SignerPrivateKey = Bytes.fromHex("AEF3484116E9481EC57BE0472DF41BF4
 // openssl x509 -in cert.txt -text
 //
 // Look for the line under "X509v3 Subject Key Identifier:"
-const TestCMS_SignerSubjectKeyIdentifier = Bytes.fromHex("62FA823359ACFAA9963E1CFA140ADDF504F37160");
+export const TestCMS_SignerSubjectKeyIdentifier = Bytes.fromHex("62FA823359ACFAA9963E1CFA140ADDF504F37160");
+
+// Public key of the test signer certificate in the same section
+export const TestCMS_SignerPublicKey = Bytes.fromHex(
+    "043C398922452B55CAF389C25BD1BCA4656952CCB90E8869249AD8474653014CBF95D687965E036B521C51037E6B8CEDEFCA1EB44046694FA08882EED6519DECBA",
+);
+
+export type CertificationDeclaration = TypeFromSchema<typeof TlvCertificationDeclaration>;
 
 export class CertificationDeclarationManager {
     static generate(vendorId: VendorId, productId: number, provisional = false) {
@@ -49,4 +56,53 @@ export class CertificationDeclarationManager {
             PrivateKey(TestCMS_SignerPrivateKey),
         );
     }
+
+    /**
+     * Verify the CMS signature of a DER encoded certification declaration and return the decoded declaration.
+     *
+     * @param declaration the DER encoded CMS SignedData structure
+     * @param signerPublicKeyFor lookup of the public key of the signer identified by its subject key identifier
+     */
+    static verify(
+        declaration: Uint8Array,
+        signerPublicKeyFor: (subjectKeyIdentifier: Uint8Array) => Uint8Array | undefined,
+    ): CertificationDeclaration {
+        let eContent: Uint8Array | undefined;
+        let subjectKeyIdentifier: Uint8Array | undefined;
+        let signature: Uint8Array | undefined;
+        try {
+            // ContentInfo -> [0] -> SignedData
+            const signedData = DerCodec.decode(declaration)[DerKey.Elements]?.[1]?.[DerKey.Elements]?.[0];
+            const signedDataElements = signedData?.[DerKey.Elements];
+            if (signedDataElements !== undefined && signedDataElements.length >= 4) {
+                // EncapsulatedContentInfo -> [0] -> OCTET STRING
+                eContent = signedDataElements[2][DerKey.Elements]?.[1]?.[DerKey.Elements]?.[0]?.[DerKey.Bytes];
+
+                // The signer infos are always the last element, optional certificates and CRLs precede them
+                const signerInfo = signedDataElements[signedDataElements.length - 1][DerKey.Elements]?.[0];
+                const signerInfoElements = signerInfo?.[DerKey.Elements];
+                subjectKeyIdentifier = signerInfoElements?.[1]?.[DerKey.Bytes];
+                signature = signerInfoElements?.[signerInfoElements.length - 1]?.[DerKey.Bytes];
+            }
+        } catch (error) {
+            throw new CertificateError(`Invalid certification declaration: ${(error as Error).message}`);
+        }
+        if (eContent === undefined || subjectKeyIdentifier === undefined || signature === undefined) {
+            throw new CertificateError("Invalid certification declaration");
+        }
+
+        const publicKey = signerPublicKeyFor(subjectKeyIdentifier);
+        if (publicKey === undefined) {
+            throw new CertificateError(`Unknown certification declaration signer ${Bytes.toHex(subjectKeyIdentifier)}`);
+        }
+
+        try {
+            Crypto.verify(PublicKey(publicKey), eContent, signature, "der");
+        } catch (error) {
+            CryptoVerifyError.accept(error);
+            throw new CertificateError("Invalid certification declaration signature");
+        }
+
+        return TlvCertificationDeclaration.decode(eContent);
+    }
 }
@@ -0,0 +1,403 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Crypto, CryptoVerifyError, MatterError, PublicKey, Time } from "#general";
+import { VendorId } from "#types";
+import { TlvAttestation, TlvCertSigningRequest } from "../common/OperationalCredentialsTypes.js";
+import { AttestationTrustStore } from "./AttestationTrustStore.js";
+import { CertificateManager, DecodedAttestationCertificate } from "./CertificateManager.js";
+import { CertificationDeclaration, CertificationDeclarationManager } from "./CertificationDeclarationManager.js";
+
+/**
+ * Reasons why the device attestation of a commissionee is rejected.
+ */
+export enum DeviceAttestationFailure {
+    /** A certificate could not be decoded or does not have the required structure. */
+    InvalidCertificate = "invalid-certificate",
+
+    /** A certificate of the chain is not valid at the current time. */
+    CertificateExpired = "certificate-expired",
+
+    /** The DAC is not signed by the PAI or the PAI is not signed by the PAA. */
+    InvalidCertificateChain = "invalid-certificate-chain",
+
+    /** The DAC or PAI was revoked. */
+    CertificateRevoked = "certificate-revoked",
+
+    /** The PAA of the PAI is not in the trust store. */
+    UntrustedAuthority = "untrusted-authority",
+
+    /** Vendor or product IDs of the certificates do not match each other. */
+    VendorProductMismatch = "vendor-product-mismatch",
+
+    /** The attestation elements could not be decoded. */
+    InvalidAttestationElements = "invalid-attestation-elements",
+
+    /** The nonce returned by the device does not match the nonce we sent. */
+    NonceMismatch = "nonce-mismatch",
+
+    /** The attestation or CSR signature is not a valid signature of the DAC. */
+    InvalidSignature = "invalid-signature",
+
+    /** The certification declaration is malformed or not signed by a trusted signer. */
+    InvalidCertificationDeclaration = "invalid-certification-declaration",
+
+    /** The certification declaration does not cover the vendor and product of the DAC or the PAA. */
+    CertificationDeclarationMismatch = "certification-declaration-mismatch",
+}
+
+/**
+ * Thrown if the device attestation of a commissionee is not valid.
+ */
+export class DeviceAttestationError extends MatterError {
+    constructor(
+        message: string,
+        readonly failure: DeviceAttestationFailure,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Verifies the device attestation information of a commissionee as described in
+ * @see {@link MatterSpecification.v13.Core} § 6.2.3.1 "Attestation Information Validation".
+ *
+ * This validates the DAC → PAI → PAA certificate chain against the trusted PAAs and revocations of the
+ * {@link AttestationTrustStore}, the certification declaration, the attestation nonce and the signatures of the
+ * attestation and CSR responses.
+ */
+export class DeviceAttestationVerifier {
+    #trustStore: AttestationTrustStore;
+
+    constructor(trustStore: AttestationTrustStore) {
+        this.#trustStore = trustStore;
+    }
+
+    /**
+     * Verify the response of an AttestationRequest together with the DAC and PAI of the device.
+     *
+     * Throws {@link DeviceAttestationError} if verification fails.
+     */
+    verify({
+        deviceAttestationCertificate,
+        productAttestationIntermediateCertificate,
+        attestationElements,
+        attestationSignature,
+        attestationNonce,
+        attestationChallenge,
+    }: DeviceAttestationVerifier.Attestation): DeviceAttestationVerifier.Result {
+        const dac = this.#parse(deviceAttestationCertificate, "DAC");
+        const pai = this.#parse(productAttestationIntermediateCertificate, "PAI");
+
+        // Certificate structure (§ 6.2.2.3 and § 6.2.2.4)
+        if (dac.extensions.basicConstraints.isCa || !dac.extensions.keyUsage.digitalSignature) {
+            throw new DeviceAttestationError(
+                "DAC must not be a CA and must allow digital signatures",
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+        if (
+            !pai.extensions.basicConstraints.isCa ||
+            pai.extensions.basicConstraints.pathLen !== 0 ||
+            !pai.extensions.keyUsage.keyCertSign
+        ) {
+            throw new DeviceAttestationError(
+                "PAI must be a CA with path length 0 that allows certificate signing",
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+        if (pai.extensions.authorityKeyIdentifier === undefined || pai.extensions.subjectKeyIdentifier === undefined) {
+            throw new DeviceAttestationError(
+                "PAI must have a subject and authority key identifier",
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+
+        // Vendor and product IDs
+        const { vendorId, productId } = dac.subject;
+        if (vendorId === undefined || productId === undefined) {
+            throw new DeviceAttestationError(
+                "DAC must contain a vendor and product ID",
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+        if (pai.subject.vendorId === undefined) {
+            throw new DeviceAttestationError(
+                "PAI must contain a vendor ID",
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+        if (
+            pai.subject.vendorId !== vendorId ||
+            (pai.subject.productId !== undefined && pai.subject.productId !== productId)
+        ) {
+            throw new DeviceAttestationError(
+                `Vendor/product ID of DAC (${vendorId}/${productId}) do not match PAI (${pai.subject.vendorId}/${pai.subject.productId})`,
+                DeviceAttestationFailure.VendorProductMismatch,
+            );
+        }
+
+        // Certificate chain
+        const authority = this.#trustStore.authorityFor(pai.extensions.authorityKeyIdentifier);
+        if (authority === undefined) {
+            throw new DeviceAttestationError(
+                `PAA ${Bytes.toHex(pai.extensions.authorityKeyIdentifier)} is not trusted`,
+                DeviceAttestationFailure.UntrustedAuthority,
+            );
+        }
+        const paa = authority.decoded;
+        if (paa.subject.vendorId !== undefined && paa.subject.vendorId !== vendorId) {
+            throw new DeviceAttestationError(
+                `Vendor ID of DAC (${vendorId}) does not match PAA (${paa.subject.vendorId})`,
+                DeviceAttestationFailure.VendorProductMismatch,
+            );
+        }
+        if (
+            dac.extensions.authorityKeyIdentifier === undefined ||
+            !Bytes.areEqual(dac.extensions.authorityKeyIdentifier, pai.extensions.subjectKeyIdentifier)
+        ) {
+            throw new DeviceAttestationError(
+                "DAC authority key identifier does not match PAI",
+                DeviceAttestationFailure.InvalidCertificateChain,
+            );
+        }
+        this.#verifyIssuedBy(dac, pai, "DAC");
+        this.#verifyIssuedBy(pai, paa, "PAI");
+
+        for (const [name, certificate] of [
+            ["DAC", dac],
+            ["PAI", pai],
+        ] as const) {
+            if (this.#trustStore.isRevoked(certificate)) {
+                throw new DeviceAttestationError(
+                    `${name} with serial number ${Bytes.toHex(certificate.serialNumber)} is revoked`,
+                    DeviceAttestationFailure.CertificateRevoked,
+                );
+            }
+        }
+
+        const now = Time.now();
+        for (const [name, certificate] of [
+            ["DAC", dac],
+            ["PAI", pai],
+            ["PAA", paa],
+        ] as const) {
+            if (now < certificate.notBefore || now > certificate.notAfter) {
+                throw new DeviceAttestationError(
+                    `${name} is only valid from ${certificate.notBefore.toISOString()} to ${certificate.notAfter.toISOString()}`,
+                    DeviceAttestationFailure.CertificateExpired,
+                );
+            }
+        }
+
+        // Attestation elements
+        let attestation;
+        try {
+            attestation = TlvAttestation.decode(attestationElements);
+        } catch (error) {
+            MatterError.accept(error);
+            throw new DeviceAttestationError(
+                `Invalid attestation elements: ${error.message}`,
+                DeviceAttestationFailure.InvalidAttestationElements,
+            );
+        }
+        if (!Bytes.areEqual(attestation.attestationNonce, attestationNonce)) {
+            throw new DeviceAttestationError(
+                "Attestation nonce does not match",
+                DeviceAttestationFailure.NonceMismatch,
+            );
+        }
+        this.#verifySignature(
+            dac.ellipticCurvePublicKey,
+            Bytes.concat(attestationElements, attestationChallenge),
+            attestationSignature,
+            "Attestation",
+        );
+
+        const declaration = this.#verifyDeclaration(attestation.declaration, dac, paa);
+
+        return {
+            vendorId,
+            productId,
+            dacPublicKey: dac.ellipticCurvePublicKey,
+            declaration,
+        };
+    }
+
+    /**
+     * Verify the response of a CSRRequest using the DAC public key returned by {@link verify}.
+     *
+     * Throws {@link DeviceAttestationError} if verification fails.
+     */
+    verifyCsr({
+        dacPublicKey,
+        nocsrElements,
+        attestationSignature,
+        csrNonce,
+        attestationChallenge,
+    }: DeviceAttestationVerifier.CsrResponse) {
+        let elements;
+        try {
+            elements = TlvCertSigningRequest.decode(nocsrElements);
+        } catch (error) {
+            MatterError.accept(error);
+            throw new DeviceAttestationError(
+                `Invalid NOCSR elements: ${error.message}`,
+                DeviceAttestationFailure.InvalidAttestationElements,
+            );
+        }
+        if (!Bytes.areEqual(elements.csrNonce, csrNonce)) {
+            throw new DeviceAttestationError("CSR nonce does not match", DeviceAttestationFailure.NonceMismatch);
+        }
+        this.#verifySignature(
+            dacPublicKey,
+            Bytes.concat(nocsrElements, attestationChallenge),
+            attestationSignature,
+            "CSR",
+        );
+        return elements;
+    }
+
+    #parse(certificate: Uint8Array, name: string) {
+        try {
+            return CertificateManager.parseAttestationCertificate(certificate);
+        } catch (error) {
+            MatterError.accept(error);
+            throw new DeviceAttestationError(
+                `Invalid ${name}: ${error.message}`,
+                DeviceAttestationFailure.InvalidCertificate,
+            );
+        }
+    }
+
+    #verifyIssuedBy(certificate: DecodedAttestationCertificate, issuer: DecodedAttestationCertificate, name: string) {
+        try {
+            Crypto.verify(
+                PublicKey(issuer.ellipticCurvePublicKey),
+                certificate.signedData,
+                certificate.signature,
+                "der",
+            );
+        } catch (error) {
+            CryptoVerifyError.accept(error);
+            throw new DeviceAttestationError(
+                `${name} signature is invalid`,
+                DeviceAttestationFailure.InvalidCertificateChain,
+            );
+        }
+    }
+
+    #verifySignature(publicKey: Uint8Array, data: Uint8Array, signature: Uint8Array, name: string) {
+        try {
+            Crypto.verify(PublicKey(publicKey), data, signature);
+        } catch (error) {
+            CryptoVerifyError.accept(error);
+            throw new DeviceAttestationError(`${name} signature is invalid`, DeviceAttestationFailure.InvalidSignature);
+        }
+    }
+
+    #verifyDeclaration(
+        encodedDeclaration: Uint8Array,
+        dac: DecodedAttestationCertificate,
+        paa: DecodedAttestationCertificate,
+    ) {
+        let declaration;
+        try {
+            declaration = CertificationDeclarationManager.verify(encodedDeclaration, subjectKeyIdentifier =>
+                this.#trustStore.declarationSignerFor(subjectKeyIdentifier),
+            );
+        } catch (error) {
+            MatterError.accept(error);
+            throw new DeviceAttestationError(
+                `Invalid certification declaration: ${error.message}`,
+                DeviceAttestationFailure.InvalidCertificationDeclaration,
+            );
+        }
+
+        // § 6.2.3.1: With a DAC origin the DAC must match the origin, otherwise the declaration itself
+        const { vendorId, productId } = dac.subject;
+        const { dacOriginVendorId, dacOriginProductId } = declaration;
+        if (dacOriginVendorId !== undefined && dacOriginProductId !== undefined) {
+            if (vendorId !== dacOriginVendorId || productId !== dacOriginProductId) {
+                throw new DeviceAttestationError(
+                    `DAC vendor/product ID ${vendorId}/${productId} does not match DAC origin of certification declaration ${dacOriginVendorId}/${dacOriginProductId}`,
+                    DeviceAttestationFailure.CertificationDeclarationMismatch,
+                );
+            }
+        } else if (dacOriginVendorId !== undefined || dacOriginProductId !== undefined) {
+            throw new DeviceAttestationError(
+                "Certification declaration must contain both DAC origin vendor and product ID",
+                DeviceAttestationFailure.InvalidCertificationDeclaration,
+            );
+        } else if (vendorId !== declaration.vendorId || !declaration.produceIdArray.includes(productId!)) {
+            throw new DeviceAttestationError(
+                `DAC vendor/product ID ${vendorId}/${productId} is not covered by certification declaration`,
+                DeviceAttestationFailure.CertificationDeclarationMismatch,
+            );
+        }
+
+        const { authorizedPaaList } = declaration;
+        const paaKeyIdentifier = paa.extensions.subjectKeyIdentifier;
+        if (
+            authorizedPaaList !== undefined &&
+            (paaKeyIdentifier === undefined ||
+                !authorizedPaaList.some(authorized => Bytes.areEqual(authorized, paaKeyIdentifier)))
+        ) {
+            throw new DeviceAttestationError(
+                "PAA is not authorized by certification declaration",
+                DeviceAttestationFailure.CertificationDeclarationMismatch,
+            );
+        }
+
+        return declaration;
+    }
+}
+
+export namespace DeviceAttestationVerifier {
+    export interface Attestation {
+        /** DER encoded DAC as returned by the CertificateChainRequest. */
+        deviceAttestationCertificate: Uint8Array;
+
+        /** DER encoded PAI as returned by the CertificateChainRequest. */
+        productAttestationIntermediateCertificate: Uint8Array;
+
+        /** Attestation elements of the AttestationResponse. */
+        attestationElements: Uint8Array;
+
+        /** Attestation signature of the AttestationResponse. */
+        attestationSignature: Uint8Array;
+
+        /** The nonce sent with the AttestationRequest. */
+        attestationNonce: Uint8Array;
+
+        /** The attestation challenge of the PASE session. */
+        attestationChallenge: Uint8Array;
+    }
+
+    export interface CsrResponse {
+        /** DAC public key as returned by {@link DeviceAttestationVerifier.verify}. */
+        dacPublicKey: Uint8Array;
+
+        /** NOCSR elements of the CSRResponse. */
+        nocsrElements: Uint8Array;
+
+        /** Attestation signature of the CSRResponse. */
+        attestationSignature: Uint8Array;
+
+        /** The nonce sent with the CSRRequest. */
+        csrNonce: Uint8Array;
+
+        /** The attestation challenge of the PASE session. */
+        attestationChallenge: Uint8Array;
+    }
+
+    export interface Result {
+        vendorId: VendorId;
+        productId: number;
+        dacPublicKey: Uint8Array;
+        declaration: CertificationDeclaration;
+    }
+}
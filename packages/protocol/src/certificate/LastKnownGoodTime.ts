@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Environment, Environmental, Logger, StorageContext, Time } from "#general";
+
+const logger = Logger.get("LastKnownGoodTime");
+
+const STORAGE_KEY = "lastKnownGoodTime";
+
+/**
+ * Initial Last Known Good UTC Time.  The specification suggests the firmware build time which for us is a time before
+ * the release of this version.
+ */
+const INITIAL_TIME_MS = Date.UTC(2024, 0, 1);
+
+/** Advancing the time with the system clock is only persisted in this interval to limit storage writes. */
+const PERSIST_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * The "Last Known Good UTC Time" of the node as defined in @see {@link MatterSpecification.v13.Core} § 3.5.6.1.
+ *
+ * The Last Known Good UTC Time is a lower bound of the current time that survives restarts.  It advances with the
+ * NotBefore time of validated operational certificates, with UTC time received from a trusted time source such as
+ * the Time Synchronization cluster and, once synchronized, with the system clock of {@link Time}.
+ *
+ * Certificate validity checks use the system clock if it is not before the Last Known Good UTC Time.  Otherwise the
+ * clock is considered wrong and only NotAfter can be checked against the Last Known Good UTC Time.
+ *
+ * There is one instance per node {@link Environment}.  Nodes persist the value by attaching their storage via
+ * {@link LastKnownGoodTime.attach}.
+ */
+export class LastKnownGoodTime {
+    #value = INITIAL_TIME_MS;
+    #persistedValue?: number;
+    #synchronized = false;
+    #storage = new Set<StorageContext>();
+
+    static [Environmental.create](env: Environment) {
+        const instance = new LastKnownGoodTime();
+        env.set(LastKnownGoodTime, instance);
+        return instance;
+    }
+
+    /**
+     * The Last Known Good UTC Time.
+     */
+    get value() {
+        return new Date(this.#value);
+    }
+
+    /**
+     * Indicates whether UTC time was received from a trusted time source.
+     */
+    get isSynchronized() {
+        return this.#synchronized;
+    }
+
+    /**
+     * The time to validate certificates against.  `isCurrent` is false if the system clock is before the Last Known
+     * Good UTC Time so only a lower bound of the current time is known.
+     */
+    get validationTime(): LastKnownGoodTime.ValidationTime {
+        const now = Time.nowMs();
+
+        if (now >= this.#value) {
+            if (this.#synchronized) {
+                this.#advance(now, false);
+            }
+            return { time: new Date(now), isCurrent: true };
+        }
+
+        return { time: new Date(this.#value), isCurrent: false };
+    }
+
+    /**
+     * Load the persisted Last Known Good UTC Time from a storage context and persist further updates there.
+     */
+    async attach(storage: StorageContext) {
+        const stored = await storage.get<number>(STORAGE_KEY, 0);
+        this.#storage.add(storage);
+
+        if (stored > this.#value) {
+            this.#value = this.#persistedValue = stored;
+            logger.debug(`Restored Last Known Good UTC Time ${new Date(stored).toISOString()}`);
+        }
+        if (this.#value > Math.max(stored, INITIAL_TIME_MS)) {
+            await storage.set(STORAGE_KEY, this.#value);
+        }
+    }
+
+    /**
+     * Stop persisting updates to a storage context.
+     */
+    detach(storage: StorageContext) {
+        this.#storage.delete(storage);
+    }
+
+    /**
+     * Advance the Last Known Good UTC Time to a time that is known to have passed, such as the NotBefore time of a
+     * validated certificate.
+     */
+    update(time: Date | number) {
+        this.#advance(typeof time === "number" ? time : time.getTime(), true);
+    }
+
+    /**
+     * Report UTC time received from a trusted time source.  Afterward the system clock is trusted to advance the Last
+     * Known Good UTC Time.
+     */
+    synchronize(utcTime: Date | number) {
+        this.#synchronized = true;
+        this.update(utcTime);
+    }
+
+    #advance(time: number, persist: boolean) {
+        if (time <= this.#value) {
+            return;
+        }
+        this.#value = time;
+
+        if (!persist && this.#persistedValue !== undefined && time - this.#persistedValue < PERSIST_INTERVAL_MS) {
+            return;
+        }
+        this.#persistedValue = time;
+        for (const storage of this.#storage) {
+            Promise.resolve(storage.set(STORAGE_KEY, time)).catch(error =>
+                logger.error("Error persisting Last Known Good UTC Time:", error),
+            );
+        }
+    }
+}
+
+export namespace LastKnownGoodTime {
+    export interface ValidationTime {
+        time: Date;
+        isCurrent: boolean;
+    }
+}
@@ -5,8 +5,11 @@
  */
 
 export * from "./AttestationCertificateManager.js";
+export * from "./AttestationTrustStore.js";
 export * from "./CertificateAuthority.js";
 export * from "./CertificateManager.js";
 export * from "./CertificationDeclarationManager.js";
 export * from "./ChipPAAuthorities.js";
+export * from "./DeviceAttestationVerifier.js";
 export * from "./DeviceCertification.js";
+export * from "./LastKnownGoodTime.js";
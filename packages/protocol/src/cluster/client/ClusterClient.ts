@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { capitalize, Diagnostic, Logger, Merge } from "#general";
+import { capitalize, Diagnostic, ImplementationError, Logger, Merge } from "#general";
 import {
     Attribute,
     AttributeId,
@@ -31,12 +31,32 @@ import {
     AttributeClientValues,
     ClusterClientObj,
     EventClients,
+    GroupClusterClientObj,
+    GroupSignatureFromCommandSpec,
     SignatureFromCommandSpec,
 } from "./ClusterClientTypes.js";
 import { createEventClient } from "./EventClient.js";
 
 const logger = Logger.get("ClusterClient");
 
+/**
+ * Create a cluster client for an {@link InteractionClient} that addresses a group.
+ *
+ * Group clients only write attributes and invoke commands.  Nodes do not respond to groupcast messages so invokes do
+ * not return a response.
+ */
+export function GroupClusterClient<const T extends ClusterType>(
+    clusterDef: T,
+    interactionClient: InteractionClient,
+): GroupClusterClientObj<T> {
+    if (!interactionClient.isGroupAddress) {
+        throw new ImplementationError("Group cluster clients require an interaction client for a group");
+    }
+
+    // Group messages address all endpoints of the group members so the endpoint is ignored
+    return ClusterClient(clusterDef, EndpointNumber(0), interactionClient);
+}
+
 export function ClusterClient<const T extends ClusterType>(
     clusterDef: T,
     endpointId: EndpointNumber,
@@ -141,7 +161,13 @@ export function ClusterClient<const T extends ClusterType>(
     } = clusterDef;
     const attributes = <AttributeClients<T["features"], T["attributes"]>>{};
     const events = <EventClients<T["events"]>>{};
-    const commands = <{ [P in keyof T["commands"]]: SignatureFromCommandSpec<T["commands"][P]> }>{};
+    const commands = <
+        {
+            [P in keyof T["commands"]]:
+                | SignatureFromCommandSpec<T["commands"][P]>
+                | GroupSignatureFromCommandSpec<T["commands"][P]>;
+        }
+    >{};
 
     let reportedFeatures: TypeFromPartialBitSchema<T["features"]> | undefined = undefined;
     // If we have global attribute values we use them to modify
@@ -300,6 +326,17 @@ export function ClusterClient<const T extends ClusterType>(
             } = {},
         ) => {
             const { asTimedRequest, timedRequestTimeoutMs, useExtendedFailSafeMessageResponseTimeout } = options;
+            if (interactionClient.isGroupAddress) {
+                // Groupcast invokes have no response
+                return interactionClient.invokeWithSuppressedResponse<Command<RequestT, ResponseT, any>>({
+                    endpointId,
+                    clusterId,
+                    command: commandDef[commandName],
+                    request,
+                    asTimedRequest,
+                    timedRequestTimeoutMs,
+                });
+            }
             return interactionClient.invoke<Command<RequestT, ResponseT, any>>({
                 endpointId,
                 clusterId,
@@ -72,6 +72,13 @@ export type SignatureFromCommandSpec<C extends Command<any, any, any>> = (
         useExtendedFailSafeMessageResponseTimeout?: boolean;
     },
 ) => Promise<ResponseType<C>>;
+/**
+ * Signature of the commands of a {@link GroupClusterClientObj}.  Groupcast invokes have no response.
+ */
+export type GroupSignatureFromCommandSpec<C extends Command<any, any, any>> = (
+    request: RequestType<C>,
+) => Promise<void>;
+
 type GetterTypeFromSpec<A extends Attribute<any, any>> =
     A extends OptionalAttribute<infer T, any> ? T | undefined : AttributeJsType<A>;
 type ClientAttributeGetters<A extends Attributes> = Omit<
@@ -113,6 +120,8 @@ type ClientAttributeListeners<A extends Attributes> = {
 
 type CommandServers<C extends Commands> = { [P in keyof C]: SignatureFromCommandSpec<C[P]> };
 
+type GroupCommandServers<C extends Commands> = { [P in keyof C]: GroupSignatureFromCommandSpec<C[P]> };
+
 type ClientEventGetters<E extends Events> = {
     [P in keyof E as `get${Capitalize<string & P>}Event`]: (
         minimumEventNumber?: number | bigint,
@@ -242,6 +251,28 @@ export type ClusterClientObj<T extends ClusterType = ClusterType> = {
     ClientEventSubscribers<T["events"]> &
     ClientEventListeners<T["events"]>;
 
+/** Strongly typed interface of a cluster client that addresses a group */
+export type GroupClusterClientObj<T extends ClusterType = ClusterType> = {
+    /**
+     * Cluster ID
+     * @readonly
+     */
+    id: ClusterId;
+
+    /**
+     * Cluster name
+     * @readonly
+     */
+    readonly name: string;
+
+    /**
+     * Commands of the cluster as object with named keys.
+     * @readonly
+     */
+    readonly commands: GroupCommandServers<T["commands"]>;
+} & ClientAttributeSetters<T["attributes"]> &
+    GroupCommandServers<T["commands"]>;
+
 export type ClusterClientObjInternal<T extends ClusterType = ClusterType> = ClusterClientObj<T> & {
     /**
      * Trigger an attribute update. This is mainly used internally and not needed to be called by the user.
@@ -24,6 +24,11 @@ export interface ClusterServer {
      */
     readonly name: string;
 
+    /**
+     * Whether this is a diagnostics cluster.  If undefined the standard model determines whether it is
+     */
+    readonly diagnostics?: boolean;
+
     /**
      * Cluster datasource
      */
@@ -228,7 +228,7 @@ export class MessageCodec {
         writer.writeUInt32(messageCounter);
         if (sourceNodeId !== undefined) writer.writeUInt64(sourceNodeId);
         if (destNodeId !== undefined) writer.writeUInt64(destNodeId);
-        if (destGroupId !== undefined) writer.writeUInt32(destGroupId);
+        if (destGroupId !== undefined) writer.writeUInt16(destGroupId);
         return writer.toByteArray();
     }
 
@@ -32,7 +32,7 @@ export abstract class FailsafeContext {
     #associatedFabric?: Fabric;
     #csrSessionId?: number;
     #forUpdateNoc?: boolean;
-    #fabricBuilder = new FabricBuilder();
+    #fabricBuilder: FabricBuilder;
 
     #commissioned = AsyncObservable<[], void>();
 
@@ -41,6 +41,7 @@ export abstract class FailsafeContext {
 
         this.#sessions = options.sessions;
         this.#fabrics = options.fabrics;
+        this.#fabricBuilder = new FabricBuilder(this.#fabrics.lastKnownGoodTime);
         this.#associatedFabric = options.associatedFabric;
 
         this.#construction = Construction(this, async () => {
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { IcdManagement } from "#clusters/icd-management";
 import { BitFlag, BitmapSchema, ProductDescription, TypeFromPartialBitSchema, VendorId } from "#types";
 import { Fabric } from "../fabric/Fabric.js";
 
@@ -129,6 +130,19 @@ export const PairingHintBitmap = {
 
 export const PairingHintBitmapSchema = BitmapSchema(PairingHintBitmap);
 
+/**
+ * TCP support of a node as announced via the "T" TXT key.
+ */
+export const TcpSupportBitmap = {
+    /** The node can act as a TCP client. */
+    tcpClient: BitFlag(1),
+
+    /** The node can act as a TCP server. */
+    tcpServer: BitFlag(2),
+};
+
+export const TcpSupportBitmapSchema = BitmapSchema(TcpSupportBitmap);
+
 export interface CommissioningModeInstanceData extends ProductDescription {
     /** Device discriminator for commissionable announcements. */
     discriminator: number;
@@ -142,6 +156,12 @@ export interface CommissioningModeInstanceData extends ProductDescription {
     /** Duration of time the node should stay active after the last network activity. **/
     sessionActiveThreshold?: number;
 
+    /** TCP support of the node. The "T" TXT key is only announced if TCP is supported. */
+    tcpSupport?: TypeFromPartialBitSchema<typeof TcpSupportBitmap>;
+
+    /** Operating mode of an ICD.  The "ICD" TXT key is only announced for ICDs supporting long idle time. */
+    icdOperatingMode?: IcdManagement.OperatingMode;
+
     /** Pairing hint of the device for commissionable announcements. */
     pairingHint?: TypeFromPartialBitSchema<typeof PairingHintBitmap>;
 
@@ -170,6 +190,9 @@ export type CommissionerInstanceData = {
 
     /** This key defines the duration of time the node stays Active after the last network activity. **/
     sessionActiveThreshold?: number;
+
+    /** TCP support of the node. The "T" TXT key is only announced if TCP is supported. */
+    tcpSupport?: TypeFromPartialBitSchema<typeof TcpSupportBitmap>;
 };
 
 export type OperationalInstanceData = {
@@ -181,6 +204,12 @@ export type OperationalInstanceData = {
 
     /** This key defines the duration of time the node stays Active after the last network activity. **/
     sessionActiveThreshold?: number;
+
+    /** TCP support of the node. The "T" TXT key is only announced if TCP is supported. */
+    tcpSupport?: TypeFromPartialBitSchema<typeof TcpSupportBitmap>;
+
+    /** Operating mode of an ICD.  The "ICD" TXT key is only announced for ICDs supporting long idle time. */
+    icdOperatingMode?: IcdManagement.OperatingMode;
 };
 
 export enum CommissioningMode {
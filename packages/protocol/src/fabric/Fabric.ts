@@ -6,11 +6,12 @@
 
 import {
     CertificateManager,
+    matterToJsDate,
     TlvIntermediateCertificate,
     TlvOperationalCertificate,
     TlvRootCertificate,
 } from "#certificate/CertificateManager.js";
-import { GroupKeyManagement } from "#clusters/group-key-management";
+import { LastKnownGoodTime } from "#certificate/LastKnownGoodTime.js";
 import {
     BinaryKeyPair,
     Bytes,
@@ -27,54 +28,16 @@ import {
     SupportedStorageTypes,
 } from "#general";
 import { PeerAddress } from "#peer/PeerAddress.js";
-import { CaseAuthenticatedTag, Cluster, FabricId, FabricIndex, NodeId, TypeFromSchema, VendorId } from "#types";
+import { CaseAuthenticatedTag, Cluster, FabricId, FabricIndex, NodeId, VendorId } from "#types";
 import { SecureSession } from "../session/SecureSession.js";
+import { FabricGroups } from "./FabricGroups.js";
 
 const logger = Logger.get("Fabric");
 
 const COMPRESSED_FABRIC_ID_INFO = Bytes.fromString("CompressedFabric");
-const GROUP_SECURITY_INFO = Bytes.fromString("GroupKey v1.0");
 
 export class PublicKeyError extends MatterError {}
 
-type OperationalGroupKeySet = TypeFromSchema<typeof GroupKeyManagement.TlvGroupKeySet> & {
-    operationalEpochKey0: Uint8Array;
-    groupSessionId0: number | null;
-    operationalEpochKey1: Uint8Array | null;
-    groupSessionId1: number | null;
-    operationalEpochKey2: Uint8Array | null;
-    groupSessionId2: number | null;
-};
-
-namespace OperationalGroupKeySet {
-    export const asTlvGroupSet = (
-        operationalGroupSet: OperationalGroupKeySet,
-    ): TypeFromSchema<typeof GroupKeyManagement.TlvGroupKeySet> => {
-        const {
-            groupKeySetId,
-            epochKey0,
-            epochStartTime0,
-            epochKey1,
-            epochStartTime1,
-            epochKey2,
-            epochStartTime2,
-            groupKeySecurityPolicy,
-            groupKeyMulticastPolicy,
-        } = operationalGroupSet;
-        return {
-            groupKeySetId,
-            epochKey0,
-            epochStartTime0,
-            epochKey1,
-            epochStartTime1,
-            epochKey2,
-            epochStartTime2,
-            groupKeySecurityPolicy,
-            groupKeyMulticastPolicy,
-        };
-    };
-}
-
 export type ExposedFabricInformation = {
     fabricIndex: FabricIndex;
     fabricId: FabricId;
@@ -100,6 +63,7 @@ export class Fabric {
 
     readonly #scopedClusterData: Fabric.ScopedClusterData;
     readonly #keyPair: Key;
+    readonly #groups: FabricGroups;
 
     readonly #sessions = new Set<SecureSession>();
 
@@ -125,6 +89,16 @@ export class Fabric {
         this.#keyPair = PrivateKey(config.keyPair);
 
         this.#scopedClusterData = config.scopedClusterData ?? new Map();
+
+        this.#groups = new FabricGroups(
+            {
+                operationalId: this.operationalId,
+                identityProtectionKey: this.identityProtectionKey,
+                operationalIdentityProtectionKey: this.operationalIdentityProtectionKey,
+                persist: () => this.persist(false),
+            },
+            config.groups,
+        );
     }
 
     get config(): Fabric.Config {
@@ -144,6 +118,7 @@ export class Fabric {
             operationalCert: this.operationalCert,
             label: this.label,
             scopedClusterData: this.#scopedClusterData,
+            groups: this.#groups.config,
         };
     }
 
@@ -160,12 +135,17 @@ export class Fabric {
         return Crypto.sign(this.#keyPair, data);
     }
 
-    verifyCredentials(operationalCert: Uint8Array, intermediateCACert?: Uint8Array) {
+    verifyCredentials(
+        operationalCert: Uint8Array,
+        intermediateCACert?: Uint8Array,
+        lastKnownGoodTime?: LastKnownGoodTime,
+    ) {
         if (intermediateCACert === undefined) {
             // Validate NOC Certificate against Root Certificate
             CertificateManager.verifyNodeOperationalCertificate(
                 TlvRootCertificate.decode(this.rootCert),
                 TlvOperationalCertificate.decode(operationalCert),
+                lastKnownGoodTime,
             );
         } else {
             const decodedIcaCert = TlvIntermediateCertificate.decode(intermediateCACert);
@@ -173,12 +153,14 @@ export class Fabric {
             CertificateManager.verifyNodeOperationalCertificate(
                 decodedIcaCert,
                 TlvOperationalCertificate.decode(operationalCert),
+                lastKnownGoodTime,
             );
 
             // Validate ICACertificate against Root Certificate
             CertificateManager.verifyIntermediateCaCertificate(
                 TlvRootCertificate.decode(this.rootCert),
                 decodedIcaCert,
+                lastKnownGoodTime,
             );
         }
     }
@@ -280,37 +262,19 @@ export class Fabric {
         return Array.from(this.#scopedClusterData.get(cluster.id)!.keys());
     }
 
-    getGroupKeySet(groupKeySetId: number) {
-        if (groupKeySetId === 0) {
-            return OperationalGroupKeySet.asTlvGroupSet(this.getGroupSetForIpk());
-        }
-        // TODO add correct group handling later, right now only IPK exists
-        return undefined;
+    /**
+     * Group key sets, group key map and group table of this fabric.
+     */
+    get groups() {
+        return this.#groups;
     }
 
-    private getGroupSetForIpk(): OperationalGroupKeySet {
-        return {
-            groupKeySetId: 0,
-            epochKey0: this.identityProtectionKey,
-            operationalEpochKey0: this.operationalIdentityProtectionKey,
-            epochStartTime0: 0, // or do we need to track Fabric creation date?
-            groupSessionId0: null,
-            epochKey1: null,
-            operationalEpochKey1: null,
-            epochStartTime1: null,
-            groupSessionId1: null,
-            epochKey2: null,
-            operationalEpochKey2: null,
-            epochStartTime2: null,
-            groupSessionId2: null,
-            groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
-            groupKeyMulticastPolicy: GroupKeyManagement.GroupKeyMulticastPolicy.PerGroupId,
-        };
+    getGroupKeySet(groupKeySetId: number) {
+        return this.#groups.keySetFor(groupKeySetId);
     }
 
     getAllGroupKeySets() {
-        // TODO add correct group handling later, right now only IPK exists
-        return [OperationalGroupKeySet.asTlvGroupSet(this.getGroupSetForIpk())];
+        return this.#groups.keySets;
     }
 
     get externalInformation(): ExposedFabricInformation {
@@ -342,6 +306,16 @@ export class FabricBuilder {
     #identityProtectionKey?: Uint8Array;
     #fabricIndex?: FabricIndex;
     #label = "";
+    #groups?: FabricGroups.Config;
+    #lastKnownGoodTime?: LastKnownGoodTime;
+
+    /**
+     * Certificates are validated against {@link lastKnownGoodTime} if supplied.  The builder also advances it with
+     * the NotBefore time of validated certificates.
+     */
+    constructor(lastKnownGoodTime?: LastKnownGoodTime) {
+        this.#lastKnownGoodTime = lastKnownGoodTime;
+    }
 
     get publicKey() {
         return this.#keyPair.publicKey;
@@ -357,7 +331,7 @@ export class FabricBuilder {
 
     setRootCert(rootCert: Uint8Array) {
         const decodedRootCertificate = TlvRootCertificate.decode(rootCert);
-        CertificateManager.verifyRootCertificate(decodedRootCertificate);
+        CertificateManager.verifyRootCertificate(decodedRootCertificate, this.#lastKnownGoodTime);
         this.#rootCert = rootCert;
         this.#rootPublicKey = decodedRootCertificate.ellipticCurvePublicKey;
         return this;
@@ -376,10 +350,11 @@ export class FabricBuilder {
         if (intermediateCACert !== undefined && intermediateCACert.length === 0) {
             intermediateCACert = undefined;
         }
+        const decodedOperationalCert = TlvOperationalCertificate.decode(operationalCert);
         const {
             subject: { nodeId, fabricId, caseAuthenticatedTags },
             ellipticCurvePublicKey,
-        } = TlvOperationalCertificate.decode(operationalCert);
+        } = decodedOperationalCert;
         logger.debug(
             `FabricBuilder setOperationalCert: nodeId=${nodeId}, fabricId=${fabricId}, caseAuthenticatedTags=${caseAuthenticatedTags}`,
         );
@@ -395,23 +370,34 @@ export class FabricBuilder {
             throw new MatterFlowError("Root Certificate needs to be set first.");
         }
 
+        const decodedRootCert = TlvRootCertificate.decode(this.#rootCert);
+        const chain: { notBefore: number }[] = [decodedRootCert, decodedOperationalCert];
         if (intermediateCACert !== undefined) {
             const decodedIntermediateCACert = TlvIntermediateCertificate.decode(intermediateCACert);
             CertificateManager.verifyIntermediateCaCertificate(
-                TlvRootCertificate.decode(this.#rootCert),
+                decodedRootCert,
                 decodedIntermediateCACert,
+                this.#lastKnownGoodTime,
             );
             CertificateManager.verifyNodeOperationalCertificate(
                 decodedIntermediateCACert,
-                TlvOperationalCertificate.decode(operationalCert),
+                decodedOperationalCert,
+                this.#lastKnownGoodTime,
             );
+            chain.push(decodedIntermediateCACert);
         } else {
             CertificateManager.verifyNodeOperationalCertificate(
-                TlvRootCertificate.decode(this.#rootCert),
-                TlvOperationalCertificate.decode(operationalCert),
+                decodedRootCert,
+                decodedOperationalCert,
+                this.#lastKnownGoodTime,
             );
         }
 
+        // The validated chain proves that its latest NotBefore time has passed (see Matter Core § 3.5.6.1)
+        this.#lastKnownGoodTime?.update(
+            Math.max(...chain.map(({ notBefore }) => (notBefore === 0 ? 0 : matterToJsDate(notBefore).getTime()))),
+        );
+
         this.#operationalCert = operationalCert;
         this.#intermediateCACert = intermediateCACert;
         this.#fabricId = FabricId(fabricId);
@@ -442,6 +428,7 @@ export class FabricBuilder {
         this.#rootCert = fabric.rootCert;
         this.#rootPublicKey = fabric.rootPublicKey;
         this.#label = fabric.label;
+        this.#groups = fabric.groups.config;
     }
 
     matchesToFabric(fabric: Fabric) {
@@ -494,14 +481,14 @@ export class FabricBuilder {
             rootVendorId: this.#rootVendorId,
             rootCert: this.#rootCert,
             identityProtectionKey: this.#identityProtectionKey, // Epoch Key
-            operationalIdentityProtectionKey: await Crypto.hkdf(
+            operationalIdentityProtectionKey: await FabricGroups.deriveOperationalKey(
                 this.#identityProtectionKey,
                 operationalId,
-                GROUP_SECURITY_INFO,
             ),
             intermediateCACert: this.#intermediateCACert,
             operationalCert: this.#operationalCert,
             label: this.#label,
+            groups: this.#groups,
         });
     }
 }
@@ -525,5 +512,6 @@ export namespace Fabric {
         operationalCert: Uint8Array;
         label: string;
         scopedClusterData?: ScopedClusterData;
+        groups?: FabricGroups.Config;
     };
 }
@@ -102,7 +102,7 @@ export class FabricAuthority {
             logger.warn(`Using test vendor ID 0x${vendorId.toString(16)} for controller fabric`);
         }
 
-        const fabricBuilder = new FabricBuilder()
+        const fabricBuilder = new FabricBuilder(this.#fabrics.lastKnownGoodTime)
             .setRootCert(this.#ca.rootCert)
             .setRootNodeId(rootNodeId)
             .setIdentityProtectionKey(ipkValue)
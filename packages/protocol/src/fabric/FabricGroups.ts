@@ -0,0 +1,441 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GroupKeyManagement } from "#clusters/group-key-management";
+import { Bytes, Crypto, DataReader, DataWriter, Endian, MatterError, MaybePromise, Observable, Time } from "#general";
+import { EndpointNumber, FabricId, GroupId, MATTER_EPOCH_OFFSET_MS, TypeFromSchema } from "#types";
+
+const GROUP_SECURITY_INFO = Bytes.fromString("GroupKey v1.0");
+const GROUP_KEY_HASH_INFO = Bytes.fromString("GroupKeyHash");
+
+export class GroupKeySetError extends MatterError {}
+
+export type GroupKeySet = TypeFromSchema<typeof GroupKeyManagement.TlvGroupKeySet>;
+
+export type OperationalGroupKeySet = GroupKeySet & {
+    operationalEpochKey0: Uint8Array;
+    groupSessionId0: number | null;
+    operationalEpochKey1: Uint8Array | null;
+    groupSessionId1: number | null;
+    operationalEpochKey2: Uint8Array | null;
+    groupSessionId2: number | null;
+};
+
+export namespace OperationalGroupKeySet {
+    export const asTlvGroupSet = (operationalGroupSet: OperationalGroupKeySet): GroupKeySet => {
+        const {
+            groupKeySetId,
+            epochKey0,
+            epochStartTime0,
+            epochKey1,
+            epochStartTime1,
+            epochKey2,
+            epochStartTime2,
+            groupKeySecurityPolicy,
+            groupKeyMulticastPolicy,
+        } = operationalGroupSet;
+        return {
+            groupKeySetId,
+            epochKey0,
+            epochStartTime0,
+            epochKey1,
+            epochStartTime1,
+            epochKey2,
+            epochStartTime2,
+            groupKeySecurityPolicy,
+            groupKeyMulticastPolicy,
+        };
+    };
+}
+
+/**
+ * A single operational group key derived from one epoch key of a group key set.
+ */
+export interface OperationalGroupKey {
+    groupKeySetId: number;
+    epochStartTime: number | bigint;
+    key: Uint8Array;
+    groupSessionId: number;
+}
+
+/**
+ * Fabric-scoped group state: group key sets, the mapping of groups to key sets and the endpoints that are members of a
+ * group.
+ *
+ * Group key set 0 is the Identity Protection Key of the fabric.  It is managed by the fabric itself and cannot be
+ * modified or mapped to a group.
+ */
+export class FabricGroups {
+    readonly #context: FabricGroups.Context;
+    readonly #keySets = new Map<number, OperationalGroupKeySet>();
+    #keyMap = new Array<FabricGroups.KeyMapEntry>();
+    readonly #groups = new Map<GroupId, FabricGroups.GroupEntry>();
+    readonly #events = {
+        groupTableChanged: Observable<[]>(),
+    };
+
+    constructor(context: FabricGroups.Context, config?: FabricGroups.Config) {
+        this.#context = context;
+        if (config !== undefined) {
+            for (const keySet of config.keySets) {
+                this.#keySets.set(keySet.groupKeySetId, keySet);
+            }
+            this.#keyMap = config.keyMap.map(entry => ({ ...entry }));
+            for (const group of config.groups) {
+                this.#groups.set(group.groupId, { ...group, endpoints: [...group.endpoints] });
+            }
+        }
+    }
+
+    /**
+     * Emits `groupTableChanged` after a group is added to or removed from the group table.
+     */
+    get events() {
+        return this.#events;
+    }
+
+    get config(): FabricGroups.Config {
+        return {
+            keySets: [...this.#keySets.values()],
+            keyMap: this.#keyMap.map(entry => ({ ...entry })),
+            groups: [...this.#groups.values()].map(group => ({ ...group, endpoints: [...group.endpoints] })),
+        };
+    }
+
+    /**
+     * Derive the operational group key for an epoch key as defined in Matter Core Specification §4.16.2.
+     */
+    static deriveOperationalKey(epochKey: Uint8Array, operationalId: Uint8Array) {
+        return Crypto.hkdf(epochKey, operationalId, GROUP_SECURITY_INFO);
+    }
+
+    /**
+     * Derive the group session ID for an operational group key as defined in Matter Core Specification §4.16.3.1.
+     */
+    static async deriveGroupSessionId(operationalKey: Uint8Array) {
+        const hash = await Crypto.hkdf(operationalKey, new Uint8Array(0), GROUP_KEY_HASH_INFO, 2);
+        return new DataReader(hash, Endian.Big).readUInt16();
+    }
+
+    /**
+     * Determine the IPv6 multicast address of a group as defined in Matter Core Specification §2.5.6.2.  The address has
+     * the format FF35:0040:FD<Fabric ID>00:<Group ID>.
+     */
+    static multicastAddressFor(fabricId: FabricId, groupId: GroupId) {
+        const writer = new DataWriter(Endian.Big);
+        writer.writeUInt16(0xff35);
+        writer.writeUInt16(0x0040);
+        writer.writeUInt8(0xfd);
+        writer.writeUInt64(fabricId);
+        writer.writeUInt8(0x00);
+        writer.writeUInt16(groupId);
+        const bytes = writer.toByteArray();
+
+        const hextets = new Array<string>();
+        for (let i = 0; i < bytes.length; i += 2) {
+            hextets.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+        }
+        return hextets.join(":");
+    }
+
+    /**
+     * Retrieve a group key set by ID.  ID 0 returns the IPK key set.
+     */
+    keySetFor(groupKeySetId: number): GroupKeySet | undefined {
+        if (groupKeySetId === 0) {
+            return OperationalGroupKeySet.asTlvGroupSet(this.#ipkKeySet);
+        }
+        const keySet = this.#keySets.get(groupKeySetId);
+        return keySet === undefined ? undefined : OperationalGroupKeySet.asTlvGroupSet(keySet);
+    }
+
+    /**
+     * All group key sets including the IPK key set.
+     */
+    get keySets(): GroupKeySet[] {
+        return [this.#ipkKeySet, ...this.#keySets.values()].map(OperationalGroupKeySet.asTlvGroupSet);
+    }
+
+    /**
+     * Number of group key sets including the IPK key set.
+     */
+    get keySetCount() {
+        return this.#keySets.size + 1;
+    }
+
+    /**
+     * Add or replace a group key set.  The operational group keys and group session IDs are derived from the epoch keys.
+     */
+    async setKeySet(keySet: GroupKeySet) {
+        const { operationalId } = this.#context;
+        const { epochKey0, epochKey1, epochKey2 } = keySet;
+        if (epochKey0 === null) {
+            throw new GroupKeySetError("Epoch key 0 of a group key set must be set.");
+        }
+
+        const operationalEpochKey0 = await FabricGroups.deriveOperationalKey(epochKey0, operationalId);
+        const operationalEpochKey1 =
+            epochKey1 === null ? null : await FabricGroups.deriveOperationalKey(epochKey1, operationalId);
+        const operationalEpochKey2 =
+            epochKey2 === null ? null : await FabricGroups.deriveOperationalKey(epochKey2, operationalId);
+
+        this.#keySets.set(keySet.groupKeySetId, {
+            ...keySet,
+            operationalEpochKey0,
+            groupSessionId0: await FabricGroups.deriveGroupSessionId(operationalEpochKey0),
+            operationalEpochKey1,
+            groupSessionId1:
+                operationalEpochKey1 === null ? null : await FabricGroups.deriveGroupSessionId(operationalEpochKey1),
+            operationalEpochKey2,
+            groupSessionId2:
+                operationalEpochKey2 === null ? null : await FabricGroups.deriveGroupSessionId(operationalEpochKey2),
+        });
+
+        await this.#context.persist();
+    }
+
+    /**
+     * Remove a group key set and all group key map entries that reference it.  Returns false if the key set is unknown.
+     */
+    async removeKeySet(groupKeySetId: number) {
+        if (!this.#keySets.delete(groupKeySetId)) {
+            return false;
+        }
+        this.#keyMap = this.#keyMap.filter(entry => entry.groupKeySetId !== groupKeySetId);
+
+        await this.#context.persist();
+        return true;
+    }
+
+    /**
+     * The mapping of group IDs to group key sets.
+     */
+    get keyMap(): readonly FabricGroups.KeyMapEntry[] {
+        return this.#keyMap;
+    }
+
+    /**
+     * Replace the group key map.
+     */
+    async setKeyMap(entries: FabricGroups.KeyMapEntry[]) {
+        this.#keyMap = entries.map(({ groupId, groupKeySetId }) => ({ groupId, groupKeySetId }));
+
+        await this.#context.persist();
+    }
+
+    /**
+     * Indicates whether a group is mapped to a group key set.
+     */
+    hasKeyMapping(groupId: GroupId) {
+        return this.#keyMap.some(entry => entry.groupId === groupId);
+    }
+
+    /**
+     * The group table.
+     */
+    get groups(): readonly FabricGroups.GroupEntry[] {
+        return [...this.#groups.values()];
+    }
+
+    /**
+     * Retrieve a group table entry.
+     */
+    groupFor(groupId: GroupId): FabricGroups.GroupEntry | undefined {
+        return this.#groups.get(groupId);
+    }
+
+    /**
+     * The endpoints that are members of a group.
+     */
+    endpointsFor(groupId: GroupId): EndpointNumber[] {
+        return [...(this.#groups.get(groupId)?.endpoints ?? [])];
+    }
+
+    /**
+     * The groups an endpoint is a member of.
+     */
+    groupsFor(endpoint: EndpointNumber): GroupId[] {
+        return [...this.#groups.values()]
+            .filter(({ endpoints }) => endpoints.includes(endpoint))
+            .map(({ groupId }) => groupId);
+    }
+
+    /**
+     * Add an endpoint to a group.  The group is created if it does not exist, an existing group name is replaced.
+     */
+    async addEndpoint(groupId: GroupId, endpoint: EndpointNumber, groupName = "") {
+        const group = this.#groups.get(groupId);
+        if (group === undefined) {
+            this.#groups.set(groupId, { groupId, endpoints: [endpoint], groupName });
+        } else {
+            group.groupName = groupName;
+            if (!group.endpoints.includes(endpoint)) {
+                group.endpoints.push(endpoint);
+            }
+        }
+
+        await this.#context.persist();
+        if (group === undefined) {
+            this.#events.groupTableChanged.emit();
+        }
+    }
+
+    /**
+     * Remove an endpoint from a group.  The group is removed if no endpoint remains.  Returns false if the endpoint was
+     * not a member of the group.
+     */
+    async removeEndpoint(groupId: GroupId, endpoint: EndpointNumber) {
+        const group = this.#groups.get(groupId);
+        if (group === undefined || !group.endpoints.includes(endpoint)) {
+            return false;
+        }
+        group.endpoints = group.endpoints.filter(groupEndpoint => groupEndpoint !== endpoint);
+        if (group.endpoints.length === 0) {
+            this.#groups.delete(groupId);
+        }
+
+        await this.#context.persist();
+        if (group.endpoints.length === 0) {
+            this.#events.groupTableChanged.emit();
+        }
+        return true;
+    }
+
+    /**
+     * Remove an endpoint from all groups.  Returns the IDs of the groups the endpoint was removed from.
+     */
+    async removeEndpointFromAllGroups(endpoint: EndpointNumber) {
+        const groupIds = this.groupsFor(endpoint);
+        let groupsRemoved = false;
+        for (const groupId of groupIds) {
+            const group = this.#groups.get(groupId)!;
+            group.endpoints = group.endpoints.filter(groupEndpoint => groupEndpoint !== endpoint);
+            if (group.endpoints.length === 0) {
+                this.#groups.delete(groupId);
+                groupsRemoved = true;
+            }
+        }
+
+        if (groupIds.length) {
+            await this.#context.persist();
+        }
+        if (groupsRemoved) {
+            this.#events.groupTableChanged.emit();
+        }
+        return groupIds;
+    }
+
+    /**
+     * Operational group key candidates for an incoming groupcast message.
+     *
+     * The group session ID is not unique so all keys of key sets mapped to the group with a matching session ID are
+     * candidates.  The caller needs to try them until the message authenticates.
+     */
+    operationalKeysFor(groupId: GroupId, groupSessionId: number): OperationalGroupKey[] {
+        return this.#operationalKeysFor(groupId).filter(key => key.groupSessionId === groupSessionId);
+    }
+
+    /**
+     * The operational group key to use for sending to a group.  This is the key of the most recent epoch that already
+     * started.  If no epoch started yet the oldest one is used.
+     */
+    currentOperationalKeyFor(groupId: GroupId): OperationalGroupKey | undefined {
+        const keys = this.#operationalKeysFor(groupId).sort((a, b) =>
+            BigInt(a.epochStartTime) < BigInt(b.epochStartTime) ? -1 : 1,
+        );
+        if (!keys.length) {
+            return undefined;
+        }
+        const now = BigInt(Math.max(0, Time.nowMs() - MATTER_EPOCH_OFFSET_MS)) * 1000n;
+        const started = keys.filter(({ epochStartTime }) => BigInt(epochStartTime) <= now);
+        return started.length ? started[started.length - 1] : keys[0];
+    }
+
+    #operationalKeysFor(groupId: GroupId) {
+        const keys = new Array<OperationalGroupKey>();
+        for (const { groupId: mappedGroupId, groupKeySetId } of this.#keyMap) {
+            if (mappedGroupId !== groupId) {
+                continue;
+            }
+            const keySet = this.#keySets.get(groupKeySetId);
+            if (keySet === undefined) {
+                continue;
+            }
+            const {
+                epochStartTime0,
+                operationalEpochKey0,
+                groupSessionId0,
+                epochStartTime1,
+                operationalEpochKey1,
+                groupSessionId1,
+                epochStartTime2,
+                operationalEpochKey2,
+                groupSessionId2,
+            } = keySet;
+            for (const [epochStartTime, key, groupSessionId] of [
+                [epochStartTime0, operationalEpochKey0, groupSessionId0],
+                [epochStartTime1, operationalEpochKey1, groupSessionId1],
+                [epochStartTime2, operationalEpochKey2, groupSessionId2],
+            ] as const) {
+                if (epochStartTime === null || key === null || groupSessionId === null) {
+                    continue;
+                }
+                keys.push({ groupKeySetId, epochStartTime, key, groupSessionId });
+            }
+        }
+        return keys;
+    }
+
+    get #ipkKeySet(): OperationalGroupKeySet {
+        const { identityProtectionKey, operationalIdentityProtectionKey } = this.#context;
+        return {
+            groupKeySetId: 0,
+            epochKey0: identityProtectionKey,
+            operationalEpochKey0: operationalIdentityProtectionKey,
+            epochStartTime0: 0, // or do we need to track Fabric creation date?
+            groupSessionId0: null,
+            epochKey1: null,
+            operationalEpochKey1: null,
+            epochStartTime1: null,
+            groupSessionId1: null,
+            epochKey2: null,
+            operationalEpochKey2: null,
+            epochStartTime2: null,
+            groupSessionId2: null,
+            groupKeySecurityPolicy: GroupKeyManagement.GroupKeySecurityPolicy.TrustFirst,
+            groupKeyMulticastPolicy: GroupKeyManagement.GroupKeyMulticastPolicy.PerGroupId,
+        };
+    }
+}
+
+export namespace FabricGroups {
+    /**
+     * Interfaces {@link FabricGroups} with its fabric.
+     */
+    export interface Context {
+        operationalId: Uint8Array;
+        identityProtectionKey: Uint8Array;
+        operationalIdentityProtectionKey: Uint8Array;
+        persist(): MaybePromise<void>;
+    }
+
+    export type KeyMapEntry = {
+        groupId: GroupId;
+        groupKeySetId: number;
+    };
+
+    export type GroupEntry = {
+        groupId: GroupId;
+        endpoints: EndpointNumber[];
+        groupName: string;
+    };
+
+    export type Config = {
+        keySets: OperationalGroupKeySet[];
+        keyMap: KeyMapEntry[];
+        groups: GroupEntry[];
+    };
+}
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { LastKnownGoodTime } from "#certificate/LastKnownGoodTime.js";
 import {
     Bytes,
     Construction,
@@ -38,6 +39,7 @@ export class FabricManager {
     readonly #fabrics = new Map<FabricIndex, Fabric>();
     #initializationDone = false;
     #storage?: StorageContext;
+    #lastKnownGoodTime: LastKnownGoodTime;
     #events = {
         added: Observable<[fabric: Fabric]>(),
         updated: Observable<[fabric: Fabric]>(),
@@ -46,8 +48,9 @@ export class FabricManager {
     };
     #construction: Construction<FabricManager>;
 
-    constructor(storage?: StorageContext) {
+    constructor(storage?: StorageContext, lastKnownGoodTime = new LastKnownGoodTime()) {
         this.#storage = storage;
+        this.#lastKnownGoodTime = lastKnownGoodTime;
 
         let construct;
         if (this.#storage === undefined) {
@@ -82,7 +85,10 @@ export class FabricManager {
     }
 
     static [Environmental.create](env: Environment) {
-        const instance = new FabricManager(env.get(StorageManager).createContext("fabrics"));
+        const instance = new FabricManager(
+            env.get(StorageManager).createContext("fabrics"),
+            env.get(LastKnownGoodTime),
+        );
         env.set(FabricManager, instance);
         return instance;
     }
@@ -91,6 +97,13 @@ export class FabricManager {
         return this.#events;
     }
 
+    /**
+     * The Last Known Good UTC Time used to validate certificates of fabrics.
+     */
+    get lastKnownGoodTime() {
+        return this.#lastKnownGoodTime;
+    }
+
     async clear() {
         await this.#construction;
         this.#nextFabricIndex = 1;
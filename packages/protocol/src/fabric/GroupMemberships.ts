@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger, Mutex, ObserverGroup } from "#general";
+import { FabricGroups } from "./FabricGroups.js";
+import { FabricManager } from "./FabricManager.js";
+
+const logger = Logger.get("GroupMemberships");
+
+/**
+ * Maintains the multicast memberships a node requires to receive groupcast messages.
+ *
+ * The node joins the IPv6 multicast address of each group in the group table of each fabric as defined in Matter Core
+ * Specification §2.5.6.2.  Memberships follow changes to the group tables and the fabrics.
+ */
+export class GroupMemberships {
+    readonly #fabrics: FabricManager;
+    readonly #netInterface: GroupMemberships.NetInterface;
+    readonly #observers = new ObserverGroup(this);
+    readonly #groupTableObservers = new ObserverGroup(this);
+    readonly #addresses = new Set<string>();
+    readonly #mutex = new Mutex(this);
+
+    constructor(fabrics: FabricManager, netInterface: GroupMemberships.NetInterface) {
+        this.#fabrics = fabrics;
+        this.#netInterface = netInterface;
+
+        this.#observers.on(fabrics.events.added, this.#fabricsChanged);
+        this.#observers.on(fabrics.events.updated, this.#fabricsChanged);
+        this.#observers.on(fabrics.events.deleted, this.#fabricsChanged);
+        this.#fabricsChanged();
+    }
+
+    /**
+     * The multicast addresses currently joined.
+     */
+    get addresses(): ReadonlySet<string> {
+        return this.#addresses;
+    }
+
+    /**
+     * Leave all groups.
+     */
+    async close() {
+        this.#observers.close();
+        this.#groupTableObservers.close();
+        this.#mutex.terminate(async () => {
+            for (const address of this.#addresses) {
+                await this.#netInterface.dropMembership(address);
+            }
+            this.#addresses.clear();
+        });
+        await this.#mutex;
+    }
+
+    #fabricsChanged() {
+        // Updates may replace fabric instances so observe the group tables of the current fabrics
+        this.#groupTableObservers.close();
+        for (const fabric of this.#fabrics) {
+            this.#groupTableObservers.on(fabric.groups.events.groupTableChanged, this.#groupTableChanged);
+        }
+        this.#groupTableChanged();
+    }
+
+    #groupTableChanged() {
+        this.#mutex.run(() => this.#update());
+    }
+
+    async #update() {
+        const addresses = new Set<string>();
+        for (const { fabricId, groups } of this.#fabrics) {
+            for (const { groupId } of groups.groups) {
+                addresses.add(FabricGroups.multicastAddressFor(fabricId, groupId));
+            }
+        }
+
+        for (const address of this.#addresses) {
+            if (!addresses.has(address)) {
+                logger.debug(`Leaving group multicast address ${address}`);
+                await this.#netInterface.dropMembership(address);
+                this.#addresses.delete(address);
+            }
+        }
+
+        for (const address of addresses) {
+            if (!this.#addresses.has(address)) {
+                logger.debug(`Joining group multicast address ${address}`);
+                await this.#netInterface.addMembership(address);
+                this.#addresses.add(address);
+            }
+        }
+    }
+}
+
+export namespace GroupMemberships {
+    /**
+     * The interface that receives groupcast messages, usually the operational IPv6 UDP interface.
+     */
+    export interface NetInterface {
+        addMembership(address: string): Promise<void>;
+        dropMembership(address: string): Promise<void>;
+    }
+}
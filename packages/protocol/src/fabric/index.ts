@@ -6,4 +6,6 @@
 
 export * from "./Fabric.js";
 export * from "./FabricAuthority.js";
+export * from "./FabricGroups.js";
 export * from "./FabricManager.js";
+export * from "./GroupMemberships.js";
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    Bytes,
+    Crypto,
+    CRYPTO_AEAD_MIC_LENGTH_BYTES,
+    CRYPTO_AEAD_NONCE_LENGTH_BYTES,
+    DataReader,
+    DataWriter,
+    Endian,
+    UnexpectedDataError,
+} from "#general";
+
+/** Size of the ICD counter and the active mode threshold in the encrypted payload. */
+const PLAINTEXT_LENGTH = 6;
+
+export interface CheckInPayload {
+    /** The ICD counter of the sender. */
+    counter: number;
+
+    /** The ActiveModeThreshold of the ICD in milliseconds. */
+    activeModeThreshold: number;
+}
+
+/**
+ * Codec for the payload of the ICD Check-In message.
+ *
+ * The payload is the nonce followed by the AES-CCM encrypted ICD counter and ActiveModeThreshold and the MIC.  The
+ * nonce is derived from the counter using HMAC-SHA256.  Both encryption and nonce derivation use the symmetric key the
+ * client provided with RegisterClient.
+ *
+ * @see {@link MatterSpecification.v13.Core} § 4.20.2
+ */
+export class CheckInMessage {
+    static encode(key: Uint8Array, { counter, activeModeThreshold }: CheckInPayload) {
+        const writer = new DataWriter(Endian.Little);
+        writer.writeUInt32(counter);
+        writer.writeUInt16(activeModeThreshold);
+        const plaintext = writer.toByteArray();
+
+        const nonce = this.#nonceFor(key, plaintext.slice(0, 4));
+        return Bytes.concat(nonce, Crypto.encrypt(key, plaintext, nonce));
+    }
+
+    static decode(key: Uint8Array, payload: Uint8Array): CheckInPayload {
+        if (payload.length < CRYPTO_AEAD_NONCE_LENGTH_BYTES + PLAINTEXT_LENGTH + CRYPTO_AEAD_MIC_LENGTH_BYTES) {
+            throw new UnexpectedDataError(`Check-In message payload of ${payload.length} bytes is too short`);
+        }
+
+        const nonce = payload.slice(0, CRYPTO_AEAD_NONCE_LENGTH_BYTES);
+        const plaintext = Crypto.decrypt(key, payload.slice(CRYPTO_AEAD_NONCE_LENGTH_BYTES), nonce);
+        if (!Bytes.areEqual(nonce, this.#nonceFor(key, plaintext.slice(0, 4)))) {
+            throw new UnexpectedDataError("Check-In message nonce does not match the counter");
+        }
+
+        const reader = new DataReader(plaintext, Endian.Little);
+        return { counter: reader.readUInt32(), activeModeThreshold: reader.readUInt16() };
+    }
+
+    static #nonceFor(key: Uint8Array, counterBytes: Uint8Array) {
+        return Crypto.hmac(key, counterBytes).slice(0, CRYPTO_AEAD_NONCE_LENGTH_BYTES);
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    ChannelType,
+    Environment,
+    Environmental,
+    isNetworkInterface,
+    Logger,
+    NetworkError,
+    ServerAddressIp,
+    TransportInterfaceSet,
+} from "#general";
+import { NodeId, SECURE_CHANNEL_PROTOCOL_ID, SecureMessageType } from "#types";
+import { Scanner } from "../common/Scanner.js";
+import { Fabric } from "../fabric/Fabric.js";
+import { MdnsService } from "../mdns/MdnsService.js";
+import { ExchangeManager, MessageChannel } from "../protocol/ExchangeManager.js";
+import { SessionManager } from "../session/SessionManager.js";
+import { CheckInMessage, CheckInPayload } from "./CheckInMessage.js";
+
+const logger = Logger.get("CheckInSender");
+
+/** Time to wait for the operational address of a client. */
+const CLIENT_DISCOVERY_TIMEOUT_S = 5;
+
+/**
+ * Interfaces the {@link CheckInSender} with other components.
+ */
+export interface CheckInSenderContext {
+    transports: TransportInterfaceSet;
+    sessions: SessionManager;
+    exchanges: ExchangeManager;
+    scanner: Scanner;
+}
+
+/**
+ * Sends ICD Check-In messages to registered clients.
+ *
+ * Check-In messages are sent unsecured and without acknowledgement to the operational address of the client.
+ */
+export class CheckInSender {
+    readonly #context: CheckInSenderContext;
+
+    constructor(context: CheckInSenderContext) {
+        this.#context = context;
+    }
+
+    static [Environmental.create](env: Environment) {
+        const instance = new CheckInSender({
+            transports: env.get(TransportInterfaceSet),
+            sessions: env.get(SessionManager),
+            exchanges: env.get(ExchangeManager),
+            scanner: env.get(MdnsService).scanner,
+        });
+        env.set(CheckInSender, instance);
+        return instance;
+    }
+
+    /**
+     * Send a Check-In message to {@link checkInNodeId} on {@link fabric}.
+     */
+    async send(fabric: Fabric, checkInNodeId: NodeId, key: Uint8Array, payload: CheckInPayload) {
+        const address = await this.#addressOf(fabric, checkInNodeId);
+        const netInterface = this.#context.transports.interfaceFor(ChannelType.UDP, address.ip);
+        if (netInterface === undefined || !isNetworkInterface(netInterface)) {
+            throw new NetworkError(`No interface to send Check-In message to ${address.ip}`);
+        }
+
+        const session = this.#context.sessions.createInsecureSession({ isInitiator: true });
+        const channel = new MessageChannel(await netInterface.openChannel(address), session);
+        const exchange = this.#context.exchanges.initiateExchangeWithChannel(channel, SECURE_CHANNEL_PROTOCOL_ID);
+        try {
+            await exchange.send(SecureMessageType.IcdCheckInMessage, CheckInMessage.encode(key, payload), {
+                requiresAck: false,
+            });
+            logger.debug(`Sent Check-In message ${payload.counter} to ${checkInNodeId}`);
+        } finally {
+            await exchange.close();
+            await session.destroy();
+        }
+    }
+
+    async #addressOf(fabric: Fabric, nodeId: NodeId): Promise<ServerAddressIp> {
+        const device = await this.#context.scanner.findOperationalDevice(fabric, nodeId, CLIENT_DISCOVERY_TIMEOUT_S);
+        const address = device?.addresses.find(({ type }) => type === "udp");
+        if (address === undefined) {
+            throw new NetworkError(`Check-In client ${NodeId.toHexString(nodeId)} not found`);
+        }
+        return address;
+    }
+}
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./bdx/index.js";
 export * from "./ble/index.js";
 export * from "./certificate/index.js";
 export * from "./cluster/index.js";
@@ -11,8 +12,10 @@ export * from "./codec/index.js";
 export * from "./common/index.js";
 export * from "./endpoint/index.js";
 export * from "./fabric/index.js";
+export * from "./icd/index.js";
 export * from "./interaction/index.js";
 export * from "./mdns/index.js";
+export * from "./ota/index.js";
 export * from "./peer/index.js";
 export * from "./protocol/index.js";
 export * from "./securechannel/index.js";
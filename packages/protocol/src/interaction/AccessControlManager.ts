@@ -9,6 +9,7 @@ import { AccessLevel } from "#model";
 import { CaseAuthenticatedTag, ClusterId, FabricIndex, NodeId, StatusCode, StatusResponseError } from "#types";
 import { EndpointInterface } from "../endpoint/EndpointInterface.js";
 import { Fabric } from "../fabric/Fabric.js";
+import { GroupSession } from "../session/GroupSession.js";
 import { SecureSession } from "../session/SecureSession.js";
 
 const logger = Logger.get("AccessControlManager");
@@ -309,29 +310,26 @@ export class AccessControlManager {
                 isd.fabricIndex = fabric.fabricIndex;
             }
         } else {
-            // TODO Add Group session handling when implementing groups
-            // if (session instanceof SecureGroupSession) {
-            //   Groups
-            //   # Message is assumed to have been decrypted and matched properly prior to
-            //       # this procedure occurring.
-            //       group_id = message.get_dst_group_id()
-            //       group_key_id = sessions_metadata.get_group_key_id(message)
-            //       # Group membership must be verified against Group Key Management Cluster
-            //       if group_key_management_cluster.group_key_map_has_mapping(group_id, group_key_id):
-            //         isd.AuthMode = AuthModeEnum.Group
-            //         isd.Subjects.append(group_id)
-            //         isd.FabricIndex = sessions_metadata.get_fabric_index(message)
-            //         assert(isd.FabricIndex != 0) # cannot be zero
-            //
-            //     isd.authMode = AccessControl.AccessControlEntryAuthMode.Group;
-            // } else {
-
-            // CASE session
-            isd.authMode = AccessControl.AccessControlEntryAuthMode.Case;
-            isd.subjects.push(session.peerNodeId);
-            // Append CASE session CATs which also serve as subjects
-            session.caseAuthenticatedTags.forEach(cat => isd.subjects.push(NodeId.fromCaseAuthenticatedTag(cat)));
-            // }
+            if (session instanceof GroupSession) {
+                // The message was already authenticated with the group key when the session was determined, but group
+                // membership must be verified against the group key map
+                const { groupId } = session;
+                if (
+                    fabric !== undefined &&
+                    fabric.groups.keyMap.some(
+                        entry => entry.groupId === groupId && entry.groupKeySetId === session.groupKeySetId,
+                    )
+                ) {
+                    isd.authMode = AccessControl.AccessControlEntryAuthMode.Group;
+                    isd.subjects.push(NodeId(groupId));
+                }
+            } else {
+                // CASE session
+                isd.authMode = AccessControl.AccessControlEntryAuthMode.Case;
+                isd.subjects.push(session.peerNodeId);
+                // Append CASE session CATs which also serve as subjects
+                session.caseAuthenticatedTags.forEach(cat => isd.subjects.push(NodeId.fromCaseAuthenticatedTag(cat)));
+            }
             if (fabric === undefined) {
                 throw new MatterFlowError("ACL error: fabric is undefined");
             }
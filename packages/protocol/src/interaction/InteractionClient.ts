@@ -10,6 +10,7 @@ import {
     Logger,
     MatterFlowError,
     MaybePromise,
+    Observable,
     PromiseQueue,
     Time,
     Timer,
@@ -45,6 +46,7 @@ import {
     resolveCommandName,
     resolveEventName,
 } from "#types";
+import { ChannelManager } from "../protocol/ChannelManager.js";
 import { ExchangeProvider, ReconnectableExchangeProvider } from "../protocol/ExchangeProvider.js";
 import { MessageExchange } from "../protocol/MessageExchange.js";
 import { ProtocolHandler } from "../protocol/ProtocolHandler.js";
@@ -73,6 +75,26 @@ export interface AttributeStatus {
     status: StatusCode;
 }
 
+/**
+ * Reachability of a peer that is only available intermittently, such as a Long Idle Time ICD.
+ */
+export interface PeerAvailability {
+    /**
+     * True if the peer is only reachable in active mode and announces active mode with Check-In messages.
+     */
+    readonly isIntermittent: boolean;
+
+    /**
+     * Resolves once the peer is in active mode.
+     */
+    untilActive(): Promise<void>;
+
+    /**
+     * Emits when the peer sends a Check-In message.  The peer only does so if it has no subscription for us.
+     */
+    readonly checkedIn: Observable<[]>;
+}
+
 export class SubscriptionClient implements ProtocolHandler {
     private readonly subscriptionListeners = new Map<number, (dataReport: DataReport) => MaybePromise<void>>();
     private readonly subscriptionUpdateTimers = new Map<number, Timer>();
@@ -132,25 +154,38 @@ export class SubscriptionClient implements ProtocolHandler {
 export class InteractionClient {
     readonly #nodeStore?: PeerDataStore;
     readonly #ownSubscriptionIds = new Set<number>();
-    readonly #subscriptionClient: SubscriptionClient;
     readonly #queue?: PromiseQueue;
+    readonly #availability?: PeerAvailability;
+    readonly #subscriptionTimeoutHandlers = new Map<number, Timer.Callback>();
+    readonly #deferredTimeoutHandlers = new Set<Timer.Callback>();
+    readonly #checkInListener: () => void;
 
     constructor(
         private readonly exchangeProvider: ExchangeProvider,
         readonly address: PeerAddress,
         queue?: PromiseQueue,
         nodeStore?: PeerDataStore,
+        availability?: PeerAvailability,
     ) {
         this.#nodeStore = nodeStore;
         this.#queue = queue;
+        this.#availability = availability;
+        this.#checkInListener = () => this.#handleCheckIn();
+        availability?.checkedIn.on(this.#checkInListener);
+    }
 
+    /**
+     * The handler of data reports for our subscriptions.  We only require it for subscriptions so nodes that handle
+     * incoming interactions themselves may still read, write and invoke.
+     */
+    get #subscriptionClient() {
         const client = this.exchangeProvider.getProtocolHandler(INTERACTION_PROTOCOL_ID);
         if (client === undefined || !(client instanceof SubscriptionClient)) {
             throw new InternalError(
                 `Subscription protocol handler ${INTERACTION_PROTOCOL_ID} missing or unexpected type.`,
             );
         }
-        this.#subscriptionClient = client;
+        return client;
     }
 
     get channelUpdated() {
@@ -160,6 +195,13 @@ export class InteractionClient {
         throw new ImplementationError("ExchangeProvider does not support channelUpdated");
     }
 
+    /**
+     * True if the client addresses a group.  Group communication only supports writes and invokes without responses.
+     */
+    get isGroupAddress() {
+        return NodeId.isGroupNodeId(this.address.nodeId);
+    }
+
     registerSubscriptionListener(subscriptionId: number, listener: (dataReport: DataReport) => MaybePromise<void>) {
         this.#ownSubscriptionIds.add(subscriptionId);
         this.#subscriptionClient.registerSubscriptionListener(subscriptionId, listener);
@@ -167,8 +209,10 @@ export class InteractionClient {
 
     removeSubscription(subscriptionId: number) {
         this.#ownSubscriptionIds.delete(subscriptionId);
-        this.#subscriptionClient.removeSubscriptionListener(subscriptionId);
-        this.#subscriptionClient.removeSubscriptionUpdateTimer(subscriptionId);
+        this.#subscriptionTimeoutHandlers.delete(subscriptionId);
+        const subscriptionClient = this.#subscriptionClient;
+        subscriptionClient.removeSubscriptionListener(subscriptionId);
+        subscriptionClient.removeSubscriptionUpdateTimer(subscriptionId);
     }
 
     async getAllAttributes(
@@ -304,20 +348,24 @@ export class InteractionClient {
         const result = await this.withMessenger<{
             attributeReports: DecodedAttributeReportValue<any>[];
             eventReports: DecodedEventReportValue<any>[];
-        }>(async messenger => {
-            const { isFabricFiltered = true } = options;
-            return await this.processReadRequest(messenger, {
-                attributeRequests,
-                dataVersionFilters: dataVersionFilters?.map(({ endpointId, clusterId, dataVersion }) => ({
-                    path: { endpointId, clusterId },
-                    dataVersion,
-                })),
-                eventRequests,
-                eventFilters,
-                isFabricFiltered,
-                interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
-            });
-        }, executeQueued);
+        }>(
+            async messenger => {
+                const { isFabricFiltered = true } = options;
+                return await this.processReadRequest(messenger, {
+                    attributeRequests,
+                    dataVersionFilters: dataVersionFilters?.map(({ endpointId, clusterId, dataVersion }) => ({
+                        path: { endpointId, clusterId },
+                        dataVersion,
+                    })),
+                    eventRequests,
+                    eventFilters,
+                    isFabricFiltered,
+                    interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
+                });
+            },
+            executeQueued,
+            { largePayload: true },
+        );
 
         if (dataVersionFilters !== undefined && dataVersionFilters.length > 0 && enrichCachedAttributeData) {
             this.#enrichCachedAttributeData(result.attributeReports, dataVersionFilters);
@@ -404,6 +452,8 @@ export class InteractionClient {
         messenger: InteractionClientMessenger,
         request: ReadRequest,
     ): Promise<{ attributeReports: DecodedAttributeReportValue<any>[]; eventReports: DecodedEventReportValue<any>[] }> {
+        this.#assertNoGroupAddress("Read");
+
         const { attributeRequests, eventRequests } = request;
         logger.debug(
             `Sending read request to ${messenger.getExchangeChannelName()} for attributes ${attributeRequests
@@ -485,7 +535,7 @@ export class InteractionClient {
             attributes,
             asTimedRequest,
             timedRequestTimeoutMs = DEFAULT_TIMED_REQUEST_TIMEOUT_MS,
-            suppressResponse = false, // TODO needs to be TRUE for Group writes
+            suppressResponse = this.isGroupAddress,
         } = options;
         logger.debug(
             `Sending write request: ${attributes
@@ -499,7 +549,7 @@ export class InteractionClient {
         );
         const writeRequests = attributes.map(
             ({ endpointId, clusterId, attribute: { id, schema }, value, dataVersion }) => ({
-                path: { endpointId, clusterId, attributeId: id },
+                path: { endpointId: this.#endpointIdForPath(endpointId), clusterId, attributeId: id },
                 data: schema.encodeTlv(value, { forWriteInteraction: true }),
                 dataVersion,
             }),
@@ -508,6 +558,16 @@ export class InteractionClient {
             attributes.some(({ attribute: { timed } }) => timed) ||
             asTimedRequest === true ||
             options.timedRequestTimeoutMs !== undefined;
+        if (this.isGroupAddress) {
+            if (timedRequest) {
+                throw new ImplementationError("Timed write requests are not supported for groups.");
+            }
+            if (!suppressResponse) {
+                throw new ImplementationError("Write requests to groups need to suppress the response.");
+            }
+        }
+
+        await this.#availability?.untilActive();
 
         const response = await this.withMessenger<TypeFromSchema<typeof TlvWriteResponse> | undefined>(
             async messenger => {
@@ -556,6 +616,8 @@ export class InteractionClient {
         updateReceived?: () => void;
         executeQueued?: boolean;
     }): Promise<void> {
+        this.#assertNoGroupAddress("Subscribe");
+
         const {
             endpointId,
             clusterId,
@@ -597,25 +659,29 @@ export class InteractionClient {
             subscribeResponse: TypeFromSchema<typeof TlvSubscribeResponse>;
             report: DataReport;
             maximumPeerResponseTime: number;
-        }>(async messenger => {
-            const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
-                interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
-                attributeRequests: [{ endpointId, clusterId, attributeId }],
-                dataVersionFilters:
-                    knownDataVersion !== undefined
-                        ? [{ path: { endpointId, clusterId }, dataVersion: knownDataVersion }]
-                        : undefined,
-                keepSubscriptions,
-                minIntervalFloorSeconds,
-                maxIntervalCeilingSeconds,
-                isFabricFiltered,
-            });
-            return {
-                subscribeResponse,
-                report,
-                maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
-            };
-        }, executeQueued);
+        }>(
+            async messenger => {
+                const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
+                    interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
+                    attributeRequests: [{ endpointId, clusterId, attributeId }],
+                    dataVersionFilters:
+                        knownDataVersion !== undefined
+                            ? [{ path: { endpointId, clusterId }, dataVersion: knownDataVersion }]
+                            : undefined,
+                    keepSubscriptions,
+                    minIntervalFloorSeconds,
+                    maxIntervalCeilingSeconds,
+                    isFabricFiltered,
+                });
+                return {
+                    subscribeResponse,
+                    report,
+                    maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
+                };
+            },
+            executeQueued,
+            { largePayload: true },
+        );
 
         const subscriptionListener = async (dataReport: DataReport) => {
             updateReceived?.();
@@ -668,6 +734,8 @@ export class InteractionClient {
         updateReceived?: () => void;
         executeQueued?: boolean;
     }): Promise<void> {
+        this.#assertNoGroupAddress("Subscribe");
+
         const {
             endpointId,
             clusterId,
@@ -694,22 +762,26 @@ export class InteractionClient {
             subscribeResponse: TypeFromSchema<typeof TlvSubscribeResponse>;
             report: DataReport;
             maximumPeerResponseTime: number;
-        }>(async messenger => {
-            const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
-                interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
-                eventRequests: [{ endpointId, clusterId, eventId, isUrgent }],
-                eventFilters: minimumEventNumber !== undefined ? [{ eventMin: minimumEventNumber }] : undefined,
-                keepSubscriptions: true,
-                minIntervalFloorSeconds,
-                maxIntervalCeilingSeconds,
-                isFabricFiltered,
-            });
-            return {
-                subscribeResponse,
-                report,
-                maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
-            };
-        }, executeQueued);
+        }>(
+            async messenger => {
+                const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
+                    interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
+                    eventRequests: [{ endpointId, clusterId, eventId, isUrgent }],
+                    eventFilters: minimumEventNumber !== undefined ? [{ eventMin: minimumEventNumber }] : undefined,
+                    keepSubscriptions: true,
+                    minIntervalFloorSeconds,
+                    maxIntervalCeilingSeconds,
+                    isFabricFiltered,
+                });
+                return {
+                    subscribeResponse,
+                    report,
+                    maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
+                };
+            },
+            executeQueued,
+            { largePayload: true },
+        );
 
         const subscriptionListener = (dataReport: DataReport) => {
             updateReceived?.();
@@ -794,6 +866,8 @@ export class InteractionClient {
         attributeReports?: DecodedAttributeReportValue<any>[];
         eventReports?: DecodedEventReportValue<any>[];
     }> {
+        this.#assertNoGroupAddress("Subscribe");
+
         const {
             attributes: attributeRequests,
             events: eventRequests,
@@ -855,27 +929,31 @@ export class InteractionClient {
             subscribeResponse: TypeFromSchema<typeof TlvSubscribeResponse>;
             report: DataReport;
             maximumPeerResponseTime: number;
-        }>(async messenger => {
-            const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
-                interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
-                attributeRequests,
-                eventRequests,
-                keepSubscriptions,
-                minIntervalFloorSeconds,
-                maxIntervalCeilingSeconds,
-                isFabricFiltered,
-                eventFilters,
-                dataVersionFilters: dataVersionFilters?.map(({ endpointId, clusterId, dataVersion }) => ({
-                    path: { endpointId, clusterId },
-                    dataVersion,
-                })),
-            });
-            return {
-                subscribeResponse,
-                report,
-                maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
-            };
-        }, executeQueued);
+        }>(
+            async messenger => {
+                const { subscribeResponse, report } = await messenger.sendSubscribeRequest({
+                    interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
+                    attributeRequests,
+                    eventRequests,
+                    keepSubscriptions,
+                    minIntervalFloorSeconds,
+                    maxIntervalCeilingSeconds,
+                    isFabricFiltered,
+                    eventFilters,
+                    dataVersionFilters: dataVersionFilters?.map(({ endpointId, clusterId, dataVersion }) => ({
+                        path: { endpointId, clusterId },
+                        dataVersion,
+                    })),
+                });
+                return {
+                    subscribeResponse,
+                    report,
+                    maximumPeerResponseTime: messenger.calculateMaximumPeerResponseTime(),
+                };
+            },
+            executeQueued,
+            { largePayload: true },
+        );
 
         logger.info(`Subscription successfully initialized with ID ${subscriptionId} and maxInterval ${maxInterval}s.`);
 
@@ -1004,6 +1082,12 @@ export class InteractionClient {
         } = options;
         const timedRequest = timed || asTimedRequest === true || options.timedRequestTimeoutMs !== undefined;
 
+        if (this.isGroupAddress) {
+            throw new ImplementationError(
+                "Invoke requests to groups have no response, use invokeWithSuppressedResponse instead.",
+            );
+        }
+
         logger.debug(
             `Invoking command: ${resolveCommandName({
                 endpointId,
@@ -1016,6 +1100,8 @@ export class InteractionClient {
 
         const commandFields = requestSchema.encodeTlv(request);
 
+        await this.#availability?.untilActive();
+
         const invokeResponse = await this.withMessenger<TypeFromSchema<typeof TlvInvokeResponse>>(async messenger => {
             if (timedRequest) {
                 await messenger.sendTimedRequest(timedRequestTimeoutMs);
@@ -1086,7 +1172,6 @@ export class InteractionClient {
         throw new MatterFlowError("Received invoke response with no result nor response.");
     }
 
-    // TODO Add to ClusterClient when needed/when Group communication is implemented
     async invokeWithSuppressedResponse<C extends Command<any, any, any>>(options: {
         endpointId: EndpointNumber;
         clusterId: ClusterId;
@@ -1107,6 +1192,9 @@ export class InteractionClient {
             timedRequestTimeoutMs = DEFAULT_TIMED_REQUEST_TIMEOUT_MS,
         } = options;
         const timedRequest = timed || asTimedRequest === true || options.timedRequestTimeoutMs !== undefined;
+        if (timedRequest && this.isGroupAddress) {
+            throw new ImplementationError("Timed invoke requests are not supported for groups.");
+        }
         logger.debug(
             `Invoking command with suppressedResponse: ${resolveCommandName({
                 endpointId,
@@ -1116,13 +1204,24 @@ export class InteractionClient {
         );
         const commandFields = requestSchema.encodeTlv(request);
 
+        await this.#availability?.untilActive();
+
         await this.withMessenger<void>(async messenger => {
             if (timedRequest) {
                 await messenger.sendTimedRequest(timedRequestTimeoutMs);
             }
 
             const response = await messenger.sendInvokeCommand({
-                invokeRequests: [{ commandPath: { endpointId, clusterId, commandId: requestId }, commandFields }],
+                invokeRequests: [
+                    {
+                        commandPath: {
+                            endpointId: this.#endpointIdForPath(endpointId),
+                            clusterId,
+                            commandId: requestId,
+                        },
+                        commandFields,
+                    },
+                ],
                 timedRequest,
                 suppressResponse: true,
                 interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
@@ -1143,11 +1242,25 @@ export class InteractionClient {
         );
     }
 
+    /**
+     * Groupcast paths address all endpoints of the group members, so they must not contain an endpoint ID.
+     */
+    #endpointIdForPath(endpointId: EndpointNumber) {
+        return this.isGroupAddress ? undefined : endpointId;
+    }
+
+    #assertNoGroupAddress(operation: string) {
+        if (this.isGroupAddress) {
+            throw new ImplementationError(`${operation} interactions are not supported for groups.`);
+        }
+    }
+
     private async withMessenger<T>(
         invoke: (messenger: InteractionClientMessenger) => Promise<T>,
         executeQueued = false,
+        channelOptions?: ChannelManager.ChannelOptions,
     ): Promise<T> {
-        const messenger = await InteractionClientMessenger.create(this.exchangeProvider);
+        const messenger = await InteractionClientMessenger.create(this.exchangeProvider, channelOptions);
         let result: T;
         try {
             if (executeQueued) {
@@ -1180,9 +1293,33 @@ export class InteractionClient {
         const timer = Time.getTimer("Subscription timeout", maxIntervalMs, () => {
             logger.info(`Subscription ${subscriptionId} timed out after ${maxIntervalMs}ms ...`);
             this.removeSubscription(subscriptionId);
+
+            if (this.#availability?.isIntermittent) {
+                // The peer is probably idle; it checks in once active if it lost our subscription
+                logger.info(`Re-establishing subscription ${subscriptionId} once ${this.address} checks in`);
+                this.#deferredTimeoutHandlers.add(updateTimeoutHandler);
+                return;
+            }
+
             updateTimeoutHandler();
         }).start();
         this.#subscriptionClient.registerSubscriptionUpdateTimer(subscriptionId, timer);
+        this.#subscriptionTimeoutHandlers.set(subscriptionId, updateTimeoutHandler);
+    }
+
+    #handleCheckIn() {
+        // A Check-In means the peer has no subscription for us so all subscriptions we consider active are lost
+        const handlers = [...this.#deferredTimeoutHandlers];
+        this.#deferredTimeoutHandlers.clear();
+        for (const [subscriptionId, handler] of this.#subscriptionTimeoutHandlers) {
+            logger.info(`Subscription ${subscriptionId} lost by ${this.address}, re-establishing ...`);
+            this.removeSubscription(subscriptionId);
+            handlers.push(handler);
+        }
+
+        for (const handler of handlers) {
+            handler();
+        }
     }
 
     removeAllSubscriptions() {
@@ -1193,6 +1330,8 @@ export class InteractionClient {
 
     close() {
         this.removeAllSubscriptions();
+        this.#deferredTimeoutHandlers.clear();
+        this.#availability?.checkedIn.off(this.#checkInListener);
     }
 
     get session() {
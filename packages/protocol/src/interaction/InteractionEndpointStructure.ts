@@ -55,12 +55,6 @@ import {
 const GLOBAL_COMMANDLIST_IDS = [GeneratedCommandList.id, AcceptedCommandList.id];
 const GLOBAL_ATTRIBUTES_LIST = [...GLOBAL_COMMANDLIST_IDS, AttributeList.id];
 
-// Build a list of cluster IDs that are used for diagnostics to not always filter through model
-// TODO Find a way to also incorporate custom clusters here
-const DIAGNOSTICS_CLUSTER_IDS = MatterModel.standard.clusters
-    .filter(cluster => cluster.diagnostics && cluster.id !== undefined)
-    .map(cluster => cluster.id as ClusterId);
-
 export class InteractionEndpointStructure {
     endpoints = new Map<EndpointNumber, EndpointInterface>();
     attributes = new Map<string, AnyAttributeServer<any>>();
@@ -330,10 +324,16 @@ export class InteractionEndpointStructure {
                     return true;
                 }
             }
-            if (wildcardPathFlags.skipDiagnosticsClusters && DIAGNOSTICS_CLUSTER_IDS.includes(clusterId)) {
+        }
+
+        if (wildcardPathFlags.skipDiagnosticsClusters) {
+            // Served clusters may identify as diagnostics clusters, otherwise the standard model decides
+            const server = this.endpoints.get(endpointId)?.getClusterServerById(clusterId);
+            if (server?.diagnostics ?? cluster?.diagnostics) {
                 return true;
             }
         }
+
         return false;
     }
 
@@ -29,6 +29,7 @@ import {
     TypeFromSchema,
 } from "#types";
 import { Message, SessionType } from "../codec/MessageCodec.js";
+import { ChannelManager } from "../protocol/ChannelManager.js";
 import { ChannelNotConnectedError } from "../protocol/ExchangeManager.js";
 import { ExchangeProvider } from "../protocol/ExchangeProvider.js";
 import {
@@ -441,14 +442,15 @@ export class IncomingInteractionClientMessenger extends InteractionMessenger {
 }
 
 export class InteractionClientMessenger extends IncomingInteractionClientMessenger {
-    static async create(exchangeProvider: ExchangeProvider) {
-        const exchange = await exchangeProvider.initiateExchange();
-        return new this(exchange, exchangeProvider);
+    static async create(exchangeProvider: ExchangeProvider, channelOptions?: ChannelManager.ChannelOptions) {
+        const exchange = await exchangeProvider.initiateExchange(channelOptions);
+        return new this(exchange, exchangeProvider, channelOptions);
     }
 
     constructor(
         exchange: MessageExchange,
         private readonly exchangeProvider: ExchangeProvider,
+        private readonly channelOptions?: ChannelManager.ChannelOptions,
     ) {
         super(exchange);
     }
@@ -470,7 +472,7 @@ export class InteractionClientMessenger extends IncomingInteractionClientMesseng
                 );
                 await this.exchange.close();
                 if (await this.exchangeProvider.reconnectChannel()) {
-                    this.exchange = await this.exchangeProvider.initiateExchange();
+                    this.exchange = await this.exchangeProvider.initiateExchange(this.channelOptions);
                     return await this.exchange.send(messageType, payload, options);
                 }
             } else {
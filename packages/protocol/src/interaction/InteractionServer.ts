@@ -40,9 +40,12 @@ import { CommandServer } from "../cluster/server/CommandServer.js";
 import { AnyEventServer } from "../cluster/server/EventServer.js";
 import { Message, SessionType } from "../codec/MessageCodec.js";
 import { EndpointInterface } from "../endpoint/EndpointInterface.js";
+import { ChannelManager } from "../protocol/ChannelManager.js";
 import { MessageExchange } from "../protocol/MessageExchange.js";
 import { ProtocolHandler } from "../protocol/ProtocolHandler.js";
+import { GroupSession } from "../session/GroupSession.js";
 import { NoAssociatedFabricError, SecureSession, assertSecureSession } from "../session/SecureSession.js";
+import { Session } from "../session/Session.js";
 import {
     decodeAttributeValueWithSchema,
     decodeListAttributeValueWithSchema,
@@ -162,6 +165,18 @@ function validateWriteAttributesPath(path: TypeFromSchema<typeof TlvAttributePat
     }
 }
 
+/**
+ * Groupcast writes and invokes address all endpoints of a node that are members of the group.  The paths are expanded
+ * like wildcard paths, so we restrict the result to the group's endpoints.
+ */
+function filterGroupEndpoints<T extends { path: { endpointId?: EndpointNumber } }>(session: Session, entries: T[]) {
+    if (!(session instanceof GroupSession)) {
+        return entries;
+    }
+    const endpoints = session.associatedFabric.groups.endpointsFor(session.groupId);
+    return entries.filter(({ path: { endpointId } }) => endpointId !== undefined && endpoints.includes(endpointId));
+}
+
 function isConcreteEventPath(
     path: TypeFromSchema<typeof TlvEventPath>,
 ): path is TypeFromSchema<typeof TlvEventPath> & EventPath {
@@ -219,7 +234,11 @@ export interface InteractionContext {
     readonly structure: InteractionEndpointStructure;
     readonly subscriptionOptions?: Partial<ServerSubscriptionConfig>;
     readonly maxPathsPerInvoke?: number;
-    initiateExchange(address: PeerAddress, protocolId: number): MessageExchange;
+    initiateExchange(
+        address: PeerAddress,
+        protocolId: number,
+        options?: ChannelManager.ChannelOptions,
+    ): MessageExchange;
 }
 
 /**
@@ -664,9 +683,12 @@ export class InteractionServer implements ProtocolHandler, InteractionRecipient
         for (const writeRequest of writeData) {
             const { path: writePath, dataVersion } = writeRequest;
 
-            validateWriteAttributesPath(writePath);
+            validateWriteAttributesPath(writePath, sessionType === SessionType.Group);
 
-            const attributes = this.#endpointStructure.getAttributes([writePath], true);
+            const attributes = filterGroupEndpoints(
+                exchange.session,
+                this.#endpointStructure.getAttributes([writePath], true),
+            );
 
             // No existing attribute matches the given path and is writable
             if (attributes.length === 0) {
@@ -1043,7 +1065,8 @@ export class InteractionServer implements ProtocolHandler, InteractionRecipient
                     this.#endpointStructure.getEndpoint(path.endpointId)!,
                 ),
 
-            initiateExchange: (address: PeerAddress, protocolId) => this.#context.initiateExchange(address, protocolId),
+            initiateExchange: (address: PeerAddress, protocolId, options) =>
+                this.#context.initiateExchange(address, protocolId, options),
         };
 
         const subscription = new ServerSubscription({
@@ -1149,8 +1172,10 @@ export class InteractionServer implements ProtocolHandler, InteractionRecipient
             );
         }
 
+        const isGroupSession = message.packetHeader.sessionType === SessionType.Group;
+
         // Validate all commandPaths before proceeding to make sure not to have executed partial commands
-        invokeRequests.forEach(({ commandPath }) => validateCommandPath(commandPath));
+        invokeRequests.forEach(({ commandPath }) => validateCommandPath(commandPath, isGroupSession));
 
         if (invokeRequests.length > 1) {
             const invokeUniqueSet = new Set<string>();
@@ -1172,7 +1197,6 @@ export class InteractionServer implements ProtocolHandler, InteractionRecipient
             });
         }
 
-        const isGroupSession = message.packetHeader.sessionType === SessionType.Group;
         const invokeResponseMessage: TypeFromSchema<typeof TlvInvokeResponseForSend> = {
             suppressResponse: false, // Deprecated but must be present
             interactionModelRevision: Specification.INTERACTION_MODEL_REVISION,
@@ -1237,7 +1261,7 @@ export class InteractionServer implements ProtocolHandler, InteractionRecipient
         // We could do more fancy parallel command processing, but it makes no sense for now, so lets simply process
         // invoked commands one by one sequentially
         for (const { commandPath, commandFields, commandRef } of invokeRequests) {
-            const commands = this.#endpointStructure.getCommands([commandPath]);
+            const commands = filterGroupEndpoints(exchange.session, this.#endpointStructure.getCommands([commandPath]));
 
             if (commands.length === 0) {
                 if (isConcreteCommandPath(commandPath)) {
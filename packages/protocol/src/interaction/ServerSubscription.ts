@@ -33,7 +33,7 @@ import {
 } from "#types";
 import { AnyAttributeServer, FabricScopedAttributeServer } from "../cluster/server/AttributeServer.js";
 import { AnyEventServer, FabricSensitiveEventServer } from "../cluster/server/EventServer.js";
-import { NoChannelError } from "../protocol/ChannelManager.js";
+import { ChannelManager, NoChannelError } from "../protocol/ChannelManager.js";
 import { AttributeReportPayload, EventReportPayload } from "./AttributeDataEncoder.js";
 import { EventStorageData } from "./EventHandler.js";
 import { InteractionEndpointStructure } from "./InteractionEndpointStructure.js";
@@ -137,7 +137,11 @@ export interface ServerSubscriptionContext {
         event: AnyEventServer<any, any>,
         eventFilters: TypeFromSchema<typeof TlvEventFilter>[] | undefined,
     ): Promise<EventStorageData<unknown>[]>;
-    initiateExchange(address: PeerAddress, protocolId: number): MessageExchange;
+    initiateExchange(
+        address: PeerAddress,
+        protocolId: number,
+        options?: ChannelManager.ChannelOptions,
+    ): MessageExchange;
 }
 
 /**
@@ -836,7 +840,9 @@ export class ServerSubscription extends Subscription {
         logger.debug(
             `Sending subscription update message for ID ${this.id} with ${attributes.length} attributes and ${events.length} events`,
         );
-        const exchange = this.#context.initiateExchange(this.peerAddress, INTERACTION_PROTOCOL_ID);
+        const exchange = this.#context.initiateExchange(this.peerAddress, INTERACTION_PROTOCOL_ID, {
+            largePayload: true,
+        });
         if (exchange === undefined) return;
         logger.debug(
             `Sending subscription changes for ID ${this.id}: ${attributes
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { IcdManagement } from "#clusters/icd-management";
 import {
     AAAARecord,
     ARecord,
@@ -28,6 +29,8 @@ import {
     OperationalInstanceData,
     PairingHintBitmap,
     PairingHintBitmapSchema,
+    TcpSupportBitmap,
+    TcpSupportBitmapSchema,
 } from "../common/InstanceBroadcaster.js";
 import { Fabric } from "../fabric/Fabric.js";
 import {
@@ -54,8 +57,21 @@ import { AnnouncementType, MdnsServer } from "./MdnsServer.js";
 
 const logger = Logger.get("MdnsBroadcaster");
 
-//const TCP_SUPPORTED = 0;
-//const ICD_SUPPORTED = 0; // TODO: Implement ICD later
+/**
+ * The "T" TXT entry announcing TCP support.  Omitted if TCP is not supported.
+ */
+function tcpSupportTxt(tcpSupport?: TypeFromPartialBitSchema<typeof TcpSupportBitmap>) {
+    const t = tcpSupport === undefined ? 0 : TcpSupportBitmapSchema.encode(tcpSupport);
+    return t === 0 ? [] : [`T=${t}` /* TCP support */];
+}
+
+/**
+ * The "ICD" TXT entry announcing the operating mode of an ICD.  Omitted unless the node is an ICD supporting long idle time.
+ */
+function icdTxt(icdOperatingMode?: IcdManagement.OperatingMode) {
+    return icdOperatingMode === undefined ? [] : [`ICD=${icdOperatingMode}` /* ICD operating mode */];
+}
+
 const DEFAULT_PAIRING_HINT = {
     powerCycle: true,
     deviceManual: true,
@@ -87,8 +103,8 @@ export class MdnsBroadcaster {
         this.#enableIpv4 = enableIpv4;
     }
 
-    createInstanceBroadcaster(port: number) {
-        const instance = new MdnsInstanceBroadcaster(port, this, () => {
+    createInstanceBroadcaster(port: number, options?: MdnsInstanceBroadcaster.Options) {
+        const instance = new MdnsInstanceBroadcaster(port, this, options, () => {
             this.#instances.delete(instance);
         });
         this.#instances.add(instance);
@@ -169,6 +185,8 @@ export class MdnsBroadcaster {
             sessionActiveThreshold = SESSION_ACTIVE_THRESHOLD_MS,
             pairingHint = DEFAULT_PAIRING_HINT,
             pairingInstructions = "",
+            tcpSupport,
+            icdOperatingMode,
         } = commissioningModeData;
         this.#validatePairingInstructions(pairingHint, pairingInstructions); // Throws error if invalid!
 
@@ -229,12 +247,12 @@ export class MdnsBroadcaster {
                         `SII=${sessionIdleInterval}` /* Session Idle Interval */,
                         `SAI=${sessionActiveInterval}` /* Session Active Interval */,
                         `SAT=${sessionActiveThreshold}` /* Session Active Threshold */,
-                        //`T=${TCP_SUPPORTED}` /* TCP not supported */,
+                        ...tcpSupportTxt(tcpSupport),
                         `D=${discriminator}` /* Discriminator */,
                         `CM=${mode}` /* Commission Mode */,
                         `PH=${PairingHintBitmapSchema.encode(pairingHint)}` /* Pairing Hint */,
                         `PI=${pairingInstructions}` /* Pairing Instruction */,
-                        //`ICD=${ICD_SUPPORTED}` /* ICD not supported */,
+                        ...icdTxt(icdOperatingMode),
                     ]),
                 ];
                 records.push(...this.#getIpRecords(hostname, [...ipV6, ...ipV4]));
@@ -251,6 +269,8 @@ export class MdnsBroadcaster {
             sessionIdleInterval = SESSION_IDLE_INTERVAL_MS,
             sessionActiveInterval = SESSION_ACTIVE_INTERVAL_MS,
             sessionActiveThreshold = SESSION_ACTIVE_THRESHOLD_MS,
+            tcpSupport,
+            icdOperatingMode,
         }: OperationalInstanceData = {},
     ) {
         const currentOperationalFabrics = this.#activeOperationalAnnouncements.get(announcedNetPort);
@@ -299,8 +319,8 @@ export class MdnsBroadcaster {
                         `SII=${sessionIdleInterval}` /* Session Idle Interval */,
                         `SAI=${sessionActiveInterval}` /* Session Active Interval */,
                         `SAT=${sessionActiveThreshold}` /* Session Active Threshold */,
-                        //`T=${TCP_SUPPORTED}` /* TCP not supported */,
-                        //`ICD=${ICD_SUPPORTED}` /* ICD not supported */,
+                        ...tcpSupportTxt(tcpSupport),
+                        ...icdTxt(icdOperatingMode),
                     ]),
                 ];
                 records.push(...fabricRecords);
@@ -321,6 +341,7 @@ export class MdnsBroadcaster {
             sessionIdleInterval = SESSION_IDLE_INTERVAL_MS,
             sessionActiveInterval = SESSION_ACTIVE_INTERVAL_MS,
             sessionActiveThreshold = SESSION_ACTIVE_THRESHOLD_MS,
+            tcpSupport,
         }: CommissionerInstanceData,
     ) {
         logger.debug(
@@ -358,8 +379,7 @@ export class MdnsBroadcaster {
                         `SII=${sessionIdleInterval}` /* Session Idle Interval */,
                         `SAI=${sessionActiveInterval}` /* Session Active Interval */,
                         `SAT=${sessionActiveThreshold}` /* Session Active Threshold */,
-                        //`T=${TCP_SUPPORTED}` /* TCP not supported */,
-                        //`ICD=${ICD_SUPPORTED}` /* ICD not supported */,
+                        ...tcpSupportTxt(tcpSupport),
                     ]),
                 ];
                 if (deviceType !== undefined) {
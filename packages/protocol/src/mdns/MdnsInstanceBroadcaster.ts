@@ -9,6 +9,7 @@ import {
     CommissionerInstanceData,
     CommissioningModeInstanceData,
     InstanceBroadcaster,
+    OperationalInstanceData,
 } from "../common/InstanceBroadcaster.js";
 import { Fabric } from "../fabric/Fabric.js";
 import type { MdnsBroadcaster } from "./MdnsBroadcaster.js";
@@ -21,12 +22,19 @@ import type { MdnsBroadcaster } from "./MdnsBroadcaster.js";
 export class MdnsInstanceBroadcaster implements InstanceBroadcaster {
     readonly #instancePort: number;
     readonly #mdnsBroadcaster: MdnsBroadcaster;
+    readonly #instanceData: OperationalInstanceData;
     readonly #onclose: () => void;
     #isClosed = false;
 
-    constructor(instancePort: number, mdnsBroadcaster: MdnsBroadcaster, onclose: () => void) {
+    constructor(
+        instancePort: number,
+        mdnsBroadcaster: MdnsBroadcaster,
+        options: MdnsInstanceBroadcaster.Options | undefined,
+        onclose: () => void,
+    ) {
         this.#instancePort = instancePort;
         this.#mdnsBroadcaster = mdnsBroadcaster;
+        this.#instanceData = options ?? {};
         this.#onclose = onclose;
     }
 
@@ -42,7 +50,10 @@ export class MdnsInstanceBroadcaster implements InstanceBroadcaster {
 
     async setCommissionMode(mode: number, deviceData: CommissioningModeInstanceData) {
         this.#assertOpen();
-        await this.#mdnsBroadcaster.setCommissionMode(this.#instancePort, mode, deviceData);
+        await this.#mdnsBroadcaster.setCommissionMode(this.#instancePort, mode, {
+            ...this.#instanceData,
+            ...deviceData,
+        });
     }
 
     /** Set the Broadcaster Data to announce a device for operative discovery (aka "already paired") */
@@ -51,13 +62,16 @@ export class MdnsInstanceBroadcaster implements InstanceBroadcaster {
         if (expireCommissioningAnnouncements) {
             await this.#mdnsBroadcaster.expireCommissioningAnnouncement(this.#instancePort);
         }
-        await this.#mdnsBroadcaster.setFabrics(this.#instancePort, fabrics);
+        await this.#mdnsBroadcaster.setFabrics(this.#instancePort, fabrics, this.#instanceData);
     }
 
     /** Set the Broadcaster data to announce a Commissioner (aka Commissioner discovery) */
     async setCommissionerInfo(commissionerData: CommissionerInstanceData) {
         this.#assertOpen();
-        await this.#mdnsBroadcaster.setCommissionerInfo(this.#instancePort, commissionerData);
+        await this.#mdnsBroadcaster.setCommissionerInfo(this.#instancePort, {
+            ...this.#instanceData,
+            ...commissionerData,
+        });
     }
 
     async announce() {
@@ -86,3 +100,11 @@ export class MdnsInstanceBroadcaster implements InstanceBroadcaster {
         }
     }
 }
+
+export namespace MdnsInstanceBroadcaster {
+    /**
+     * Data announced with all records of the instance such as session parameters, TCP and ICD support.  Data of
+     * individual commissioning announcements takes precedence.
+     */
+    export type Options = OperationalInstanceData;
+}
@@ -15,6 +15,7 @@ import {
     VariableService,
 } from "#general";
 import { MdnsBroadcaster } from "../mdns/MdnsBroadcaster.js";
+import type { MdnsInstanceBroadcaster } from "../mdns/MdnsInstanceBroadcaster.js";
 import { MdnsScanner } from "../mdns/MdnsScanner.js";
 
 const logger = Logger.get("MDNS");
@@ -57,8 +58,8 @@ export class MdnsService {
         return new this(environment);
     }
 
-    createInstanceBroadcaster(port: number) {
-        return this.broadcaster.createInstanceBroadcaster(port);
+    createInstanceBroadcaster(port: number, options?: MdnsInstanceBroadcaster.Options) {
+        return this.broadcaster.createInstanceBroadcaster(port, options);
     }
 
     get broadcaster() {
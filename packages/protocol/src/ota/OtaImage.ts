@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Bytes, Crypto, DataReader, DataWriter, Endian, MatterError } from "#general";
+import {
+    TlvByteString,
+    TlvField,
+    TlvObject,
+    TlvOptionalField,
+    TlvString,
+    TlvUInt16,
+    TlvUInt32,
+    TlvUInt64,
+    TlvUInt8,
+    TlvVendorId,
+    TypeFromSchema,
+} from "#types";
+
+/**
+ * Thrown for OTA image files that are malformed or do not validate.
+ */
+export class OtaImageError extends MatterError {}
+
+/**
+ * The TLV header of an OTA image file.
+ */
+export const TlvOtaImageHeader = TlvObject({
+    vendorId: TlvField(0, TlvVendorId),
+    productId: TlvField(1, TlvUInt16),
+    softwareVersion: TlvField(2, TlvUInt32),
+    softwareVersionString: TlvField(3, TlvString.bound({ minLength: 1, maxLength: 64 })),
+    payloadSize: TlvField(4, TlvUInt64),
+    minApplicableSoftwareVersion: TlvOptionalField(5, TlvUInt32),
+    maxApplicableSoftwareVersion: TlvOptionalField(6, TlvUInt32),
+    releaseNotesUrl: TlvOptionalField(7, TlvString.bound({ maxLength: 256 })),
+    imageDigestType: TlvField(8, TlvUInt8),
+    imageDigest: TlvField(9, TlvByteString.bound({ maxLength: 64 })),
+});
+
+export type OtaImageHeader = TypeFromSchema<typeof TlvOtaImageHeader>;
+
+/**
+ * Matter OTA image files.
+ *
+ * A file consists of a fixed size prefix with file identifier, total size and header size followed by the TLV encoded
+ * {@link OtaImageHeader} and the payload.  The header carries a digest of the payload.
+ *
+ * Use {@link OtaImage.create} to package firmware and {@link OtaImage.validate} to verify an image.
+ */
+export namespace OtaImage {
+    /** The identifier at the start of every OTA image file. */
+    export const FILE_IDENTIFIER = 0x1beef11e;
+
+    /** Size of file identifier, total size and header size preceding the header. */
+    export const PREFIX_SIZE = 16;
+
+    /** Maximum size of the TLV header. */
+    export const MAX_HEADER_SIZE = 1024;
+
+    /** SHA-256 in the IANA Named Information Hash Algorithm Registry. */
+    export const DIGEST_TYPE_SHA256 = 1;
+
+    /**
+     * Header fields for {@link create}.  We compute payload size and digest.
+     */
+    export type Options = Omit<OtaImageHeader, "payloadSize" | "imageDigestType" | "imageDigest">;
+
+    export interface Decoded {
+        header: OtaImageHeader;
+
+        /** Offset of the payload in the file. */
+        payloadOffset: number;
+
+        /** Total size of the file as declared in the prefix. */
+        totalSize: number;
+    }
+
+    /**
+     * Create an OTA image file for a payload.
+     */
+    export function create(options: Options, payload: Uint8Array) {
+        const header = encodeHeader({
+            ...options,
+            payloadSize: payload.length,
+            imageDigestType: DIGEST_TYPE_SHA256,
+            imageDigest: Crypto.hash(payload),
+        });
+        return Bytes.concat(header, payload);
+    }
+
+    /**
+     * Encode the prefix and header of an OTA image file.  The payload follows the returned bytes.
+     */
+    export function encodeHeader(header: OtaImageHeader) {
+        let tlv;
+        try {
+            tlv = TlvOtaImageHeader.encode(header);
+        } catch (error) {
+            throw new OtaImageError(`Invalid OTA image header: ${(error as Error).message}`);
+        }
+        if (tlv.length > MAX_HEADER_SIZE) {
+            throw new OtaImageError(`OTA image header size ${tlv.length} exceeds maximum of ${MAX_HEADER_SIZE}`);
+        }
+
+        const writer = new DataWriter(Endian.Little);
+        writer.writeUInt32(FILE_IDENTIFIER);
+        writer.writeUInt64(BigInt(PREFIX_SIZE + tlv.length) + BigInt(header.payloadSize));
+        writer.writeUInt32(tlv.length);
+        writer.writeByteArray(tlv);
+        return writer.toByteArray();
+    }
+
+    /**
+     * Decode the header of an OTA image file.  Only the prefix and header need be present in {@link data}.
+     */
+    export function decodeHeader(data: Uint8Array): Decoded {
+        if (data.length < PREFIX_SIZE) {
+            throw new OtaImageError("OTA image is too short");
+        }
+
+        const reader = new DataReader(data, Endian.Little);
+        const fileIdentifier = reader.readUInt32();
+        if (fileIdentifier !== FILE_IDENTIFIER) {
+            throw new OtaImageError(`Invalid OTA image file identifier 0x${fileIdentifier.toString(16)}`);
+        }
+        const totalSize = Number(reader.readUInt64());
+        const headerSize = reader.readUInt32();
+        if (headerSize > MAX_HEADER_SIZE) {
+            throw new OtaImageError(`OTA image header size ${headerSize} exceeds maximum of ${MAX_HEADER_SIZE}`);
+        }
+
+        const payloadOffset = PREFIX_SIZE + headerSize;
+        if (data.length < payloadOffset) {
+            throw new OtaImageError("OTA image header is truncated");
+        }
+
+        let header;
+        try {
+            header = TlvOtaImageHeader.decode(data.subarray(PREFIX_SIZE, payloadOffset));
+        } catch (error) {
+            throw new OtaImageError(`Invalid OTA image header: ${(error as Error).message}`);
+        }
+
+        if (totalSize !== payloadOffset + Number(header.payloadSize)) {
+            throw new OtaImageError(
+                `OTA image total size ${totalSize} does not match header size ${headerSize} and payload size ${header.payloadSize}`,
+            );
+        }
+
+        return { header, payloadOffset, totalSize };
+    }
+
+    /**
+     * Decode and validate a complete OTA image file.  Verifies the size and the payload digest.
+     */
+    export function validate(data: Uint8Array): Decoded {
+        const decoded = decodeHeader(data);
+        const {
+            header: { imageDigestType, imageDigest },
+            payloadOffset,
+            totalSize,
+        } = decoded;
+
+        if (data.length !== totalSize) {
+            throw new OtaImageError(`OTA image has ${data.length} bytes but header declares ${totalSize}`);
+        }
+
+        if (imageDigestType !== DIGEST_TYPE_SHA256) {
+            throw new OtaImageError(`Unsupported OTA image digest type ${imageDigestType}`);
+        }
+        if (!Bytes.areEqual(Crypto.hash(data.subarray(payloadOffset)), imageDigest)) {
+            throw new OtaImageError("OTA image digest does not match payload");
+        }
+
+        return decoded;
+    }
+}
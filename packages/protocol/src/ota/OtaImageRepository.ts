@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Environment, Environmental, Logger, MaybePromise } from "#general";
+import { VendorId } from "#types";
+import { OtaImage, OtaImageHeader } from "./OtaImage.js";
+
+const logger = Logger.get("OtaImageRepository");
+
+/**
+ * The software images an OTA provider offers to requestors.
+ *
+ * Images are Matter OTA image files validated on addition.  Platform specific implementations may load images from
+ * storage and supply the image data on demand.
+ */
+export class OtaImageRepository {
+    #images = new Map<string, OtaImageRepository.Image>();
+
+    static [Environmental.create](env: Environment) {
+        const instance = new OtaImageRepository();
+        env.set(OtaImageRepository, instance);
+        return instance;
+    }
+
+    /**
+     * Add an OTA image file.  Replaces an image with the same name.
+     */
+    add(name: string, data: Uint8Array) {
+        const { header } = OtaImage.validate(data);
+        this.addImage({ name, header, read: () => data });
+        return header;
+    }
+
+    /**
+     * Add an image whose data is read on demand.
+     */
+    addImage(image: OtaImageRepository.Image) {
+        if (this.#images.has(image.name)) {
+            logger.debug(`Replacing OTA image ${image.name}`);
+        }
+        this.#images.set(image.name, image);
+    }
+
+    delete(name: string) {
+        return this.#images.delete(name);
+    }
+
+    get(name: string) {
+        return this.#images.get(name);
+    }
+
+    get images() {
+        return [...this.#images.values()];
+    }
+
+    /**
+     * Find the newest image that applies to a product with a specific software version.
+     */
+    find({ vendorId, productId, softwareVersion }: OtaImageRepository.Query) {
+        let found: OtaImageRepository.Image | undefined;
+        for (const image of this.#images.values()) {
+            const { header } = image;
+            if (
+                header.vendorId !== vendorId ||
+                header.productId !== productId ||
+                header.softwareVersion <= softwareVersion ||
+                (header.minApplicableSoftwareVersion !== undefined &&
+                    softwareVersion < header.minApplicableSoftwareVersion) ||
+                (header.maxApplicableSoftwareVersion !== undefined &&
+                    softwareVersion > header.maxApplicableSoftwareVersion)
+            ) {
+                continue;
+            }
+            if (found === undefined || header.softwareVersion > found.header.softwareVersion) {
+                found = image;
+            }
+        }
+        return found;
+    }
+}
+
+export namespace OtaImageRepository {
+    export interface Image {
+        /** Identifies the image in the repository. */
+        name: string;
+
+        header: OtaImageHeader;
+
+        /** Read the complete OTA image file. */
+        read(): MaybePromise<Uint8Array>;
+    }
+
+    export interface Query {
+        vendorId: VendorId;
+        productId: number;
+        softwareVersion: number;
+    }
+}
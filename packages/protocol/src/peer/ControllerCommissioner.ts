@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { AttestationTrustStore } from "#certificate/AttestationTrustStore.js";
 import { CertificateAuthority } from "#certificate/CertificateAuthority.js";
 import { GeneralCommissioning } from "#clusters/general-commissioning";
 import { CommissionableDevice, CommissionableDeviceIdentifiers, DiscoveryData, ScannerSet } from "#common/Scanner.js";
@@ -113,6 +114,7 @@ export interface ControllerCommissionerContext {
     sessions: SessionManager;
     exchanges: ExchangeManager;
     ca: CertificateAuthority;
+    trustStore: AttestationTrustStore;
 }
 
 /**
@@ -135,6 +137,7 @@ export class ControllerCommissioner {
             sessions: env.get(SessionManager),
             exchanges: env.get(ExchangeManager),
             ca: env.get(CertificateAuthority),
+            trustStore: env.get(AttestationTrustStore),
         });
         env.set(ControllerCommissioner, instance);
         return instance;
@@ -267,18 +270,18 @@ export class ControllerCommissioner {
         if (device !== undefined) {
             logger.info(`Commissioning device`, MdnsScanner.discoveryDataDiagnostics(device));
         }
-        if (address.type === "udp") {
+        if (address.type === "udp" || address.type === "tcp") {
             const { ip } = address;
 
             const isIpv6Address = isIPv6(ip);
             const paseInterface = this.#context.netInterfaces.interfaceFor(
-                ChannelType.UDP,
+                address.type === "tcp" ? ChannelType.TCP : ChannelType.UDP,
                 isIpv6Address ? "::" : "0.0.0.0",
             );
             if (paseInterface === undefined) {
                 // mainly IPv6 address when IPv4 is disabled
                 throw new PairRetransmissionLimitReachedError(
-                    `IPv${isIpv6Address ? "6" : "4"} interface not initialized. Cannot use ${ip} for commissioning.`,
+                    `IPv${isIpv6Address ? "6" : "4"} ${address.type.toUpperCase()} interface not initialized. Cannot use ${ip} for commissioning.`,
                 );
             }
             paseChannel = await paseInterface.openChannel(address);
@@ -383,6 +386,7 @@ export class ControllerCommissioner {
             ),
             this.#context.ca,
             fabric,
+            this.#context.trustStore,
             commissioningOptions,
             async address => {
                 // TODO Right now we always close after step 12 because we do not check for commissioning flow requirements
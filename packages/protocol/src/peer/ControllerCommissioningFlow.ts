@@ -10,7 +10,7 @@ import { GeneralCommissioning } from "#clusters/general-commissioning";
 import { NetworkCommissioning } from "#clusters/network-commissioning";
 import { OperationalCredentials } from "#clusters/operational-credentials";
 import { TimeSynchronizationCluster } from "#clusters/time-synchronization";
-import { Bytes, ChannelType, Crypto, Logger, MatterError, Time, UnexpectedDataError } from "#general";
+import { Bytes, ChannelType, Crypto, Logger, MatterError, MaybePromise, Time, UnexpectedDataError } from "#general";
 import {
     ClusterId,
     ClusterType,
@@ -20,13 +20,16 @@ import {
     TypeFromSchema,
     VendorId,
 } from "#types";
+import { AttestationTrustStore } from "../certificate/AttestationTrustStore.js";
 import { CertificateAuthority } from "../certificate/CertificateAuthority.js";
 import { CertificateManager } from "../certificate/CertificateManager.js";
+import { DeviceAttestationError, DeviceAttestationVerifier } from "../certificate/DeviceAttestationVerifier.js";
 import { ClusterClient } from "../cluster/client/ClusterClient.js";
 import { ClusterClientObj } from "../cluster/client/ClusterClientTypes.js";
 import { TlvCertSigningRequest } from "../common/OperationalCredentialsTypes.js";
 import { Fabric } from "../fabric/Fabric.js";
 import { InteractionClient } from "../interaction/InteractionClient.js";
+import { SecureSession } from "../session/SecureSession.js";
 import { PeerAddress } from "./PeerAddress.js";
 
 const logger = Logger.get("ControllerCommissioner");
@@ -65,6 +68,13 @@ export type ControllerCommissioningFlowOptions = {
         networkName: string;
         operationalDataset: string;
     };
+
+    /**
+     * Policy for devices that fail device attestation.  If this callback resolves to true commissioning continues
+     * regardless, otherwise commissioning fails.  Without this callback commissioning fails if the trust store enforces
+     * attestation, which is the default, see {@link AttestationTrustStore.Options.enforce}.
+     */
+    deviceAttestationFailed?: (peerAddress: PeerAddress, error: DeviceAttestationError) => MaybePromise<boolean>;
 };
 
 /** Types representation of a general commissioning response. */
@@ -140,6 +150,8 @@ export class ControllerCommissioningFlow {
     #interactionClient: InteractionClient;
     readonly #ca: CertificateAuthority;
     readonly #fabric: Fabric;
+    readonly #trustStore: AttestationTrustStore;
+    readonly #attestationVerifier: DeviceAttestationVerifier;
     readonly #transitionToCase: (peerAddress: PeerAddress) => Promise<InteractionClient | undefined>;
     readonly #commissioningOptions: ControllerCommissioningFlowOptions;
     readonly #commissioningSteps = new Array<CommissioningStep>();
@@ -151,6 +163,7 @@ export class ControllerCommissioningFlow {
     #lastBreadcrumb = 1;
     #collectedCommissioningData: CollectedCommissioningData = {};
     #failSafeTimeMs = DEFAULT_FAILSAFE_TIME_MS;
+    #dacPublicKey: Uint8Array | undefined;
 
     constructor(
         /** InteractionClient for the initiated PASE session */
@@ -162,6 +175,9 @@ export class ControllerCommissioningFlow {
         /** Fabric of the controller. */
         fabric: Fabric,
 
+        /** Trusted PAAs and certification declaration signers used to verify the device attestation. */
+        trustStore: AttestationTrustStore,
+
         /** Commissioning options for the commissioning process. */
         commissioningOptions: ControllerCommissioningFlowOptions,
 
@@ -171,6 +187,8 @@ export class ControllerCommissioningFlow {
         this.#interactionClient = interactionClient;
         this.#ca = ca;
         this.#fabric = fabric;
+        this.#trustStore = trustStore;
+        this.#attestationVerifier = new DeviceAttestationVerifier(trustStore);
         this.#transitionToCase = transitionToCase;
         this.#commissioningOptions = commissioningOptions;
         logger.debug(`Commissioning options: ${Logger.toJSON(commissioningOptions)}`);
@@ -644,31 +662,44 @@ export class ControllerCommissioningFlow {
             },
             { useExtendedFailSafeMessageResponseTimeout: true },
         );
-        // TODO: extract device public key from deviceAttestation
         const { certificate: productAttestation } = await operationalCredentialsClusterClient.certificateChainRequest(
             {
                 certificateType: OperationalCredentials.CertificateChainType.PaiCertificate,
             },
             { useExtendedFailSafeMessageResponseTimeout: true },
         );
-        // TODO: validate deviceAttestation and productAttestation
+        const attestationNonce = Crypto.getRandomData(32);
         const { attestationElements, attestationSignature } =
             await operationalCredentialsClusterClient.attestationRequest(
-                {
-                    attestationNonce: Crypto.getRandomData(32),
-                },
+                { attestationNonce },
                 { useExtendedFailSafeMessageResponseTimeout: true },
             );
-        // TODO: validate attestationSignature using device public key
         if (
             deviceAttestation.length === 0 ||
             productAttestation.length === 0 ||
             attestationElements.length === 0 ||
             attestationSignature.length === 0
         ) {
-            // TODO: validate the data really
             throw new CommissioningError("Device Attestation data missing from device");
         }
+
+        await this.#trustStore.update();
+        try {
+            const { vendorId, productId, dacPublicKey } = this.#attestationVerifier.verify({
+                deviceAttestationCertificate: deviceAttestation,
+                productAttestationIntermediateCertificate: productAttestation,
+                attestationElements,
+                attestationSignature,
+                attestationNonce,
+                attestationChallenge: this.#attestationChallenge,
+            });
+            this.#dacPublicKey = dacPublicKey;
+            logger.debug(`Device attestation verified for vendor ${vendorId} and product ${productId}`);
+        } catch (error) {
+            DeviceAttestationError.accept(error);
+            await this.#handleAttestationFailure(error);
+        }
+
         return {
             code: CommissioningStepResultCode.Success,
             breadcrumb: this.#lastBreadcrumb,
@@ -677,6 +708,41 @@ export class ControllerCommissioningFlow {
         // TODO consider Distributed Compliance Ledger Info about Commissioning Flow
     }
 
+    /** The attestation challenge of the PASE session the device signs attestation and CSR responses with. */
+    get #attestationChallenge() {
+        const { session } = this.#interactionClient;
+        if (!(session instanceof SecureSession)) {
+            throw new CommissioningError("Device attestation requires a secure session");
+        }
+        return session.attestationChallengeKey;
+    }
+
+    /**
+     * Handle invalid attestation information.  The {@link ControllerCommissioningFlowOptions.deviceAttestationFailed}
+     * policy decides whether to continue.  Without policy we fail commissioning only if the trust store enforces
+     * attestation.
+     */
+    async #handleAttestationFailure(error: DeviceAttestationError) {
+        const { deviceAttestationFailed } = this.#commissioningOptions;
+        const peerAddress = this.#interactionClient.address;
+        if (deviceAttestationFailed !== undefined) {
+            if (await deviceAttestationFailed(peerAddress, error)) {
+                logger.warn(
+                    `Device attestation of ${peerAddress} failed (${error.failure}), continuing as accepted by policy:`,
+                    error.message,
+                );
+                return;
+            }
+        } else if (!this.#trustStore.enforce) {
+            logger.warn(
+                `Device attestation of ${peerAddress} failed (${error.failure}), continuing as attestation is not enforced:`,
+                error.message,
+            );
+            return;
+        }
+        throw new CommissioningError(`Device attestation of ${peerAddress} failed: ${error.message}`);
+    }
+
     /**
      * Step 7-9
      * 7: Following the Device Attestation Procedure yielding a decision to proceed with commissioning, the Commissioner
@@ -691,16 +757,32 @@ export class ControllerCommissioningFlow {
      */
     async #certificates() {
         const operationalCredentialsClusterClient = this.#getClusterClient(OperationalCredentials.Cluster);
+        const csrNonce = Crypto.getRandomData(32);
         const { nocsrElements, attestationSignature: csrSignature } =
             await operationalCredentialsClusterClient.csrRequest(
-                { csrNonce: Crypto.getRandomData(32) },
+                { csrNonce },
                 { useExtendedFailSafeMessageResponseTimeout: true },
             );
         if (nocsrElements.length === 0 || csrSignature.length === 0) {
-            // TODO: validate the data really
             throw new UnexpectedDataError("Invalid response from device");
         }
-        // TODO: validate csrSignature using device public key
+
+        // Without DAC public key attestation failed and was accepted by the policy, so there is nothing to verify against
+        if (this.#dacPublicKey !== undefined) {
+            try {
+                this.#attestationVerifier.verifyCsr({
+                    dacPublicKey: this.#dacPublicKey,
+                    nocsrElements,
+                    attestationSignature: csrSignature,
+                    csrNonce,
+                    attestationChallenge: this.#attestationChallenge,
+                });
+            } catch (error) {
+                DeviceAttestationError.accept(error);
+                await this.#handleAttestationFailure(error);
+            }
+        }
+
         const { certSigningRequest } = TlvCertSigningRequest.decode(nocsrElements);
         const operationalPublicKey = CertificateManager.getPublicKeyFromCsr(certSigningRequest);
 
@@ -8,6 +8,7 @@ import { DiscoveryData } from "#common/Scanner.js";
 import { ServerAddressIp } from "#general";
 import { PeerDataStore } from "#peer/PeerAddressStore.js";
 import { SessionParameters } from "#session/Session.js";
+import { NodeId } from "#types";
 import { PeerAddress } from "./PeerAddress.js";
 
 /**
@@ -36,8 +37,54 @@ export interface OperationalPeer {
      */
     discoveryData?: DiscoveryData;
 
+    /**
+     * Our registration as Check-In client if the peer is an ICD.
+     */
+    icdRegistration?: IcdClientRegistration;
+
     /**
      * The data store for the peer.
      */
     dataStore?: PeerDataStore;
 }
+
+export namespace OperationalPeer {
+    /**
+     * Determine whether a peer advertises operation as Long Idle Time ICD.  Such peers are only reachable while in
+     * active mode.
+     */
+    export function isLitIcd(peer?: OperationalPeer) {
+        return peer?.discoveryData?.ICD === 1;
+    }
+}
+
+/**
+ * Registration with the ICD Management cluster of a peer that sends us Check-In messages.
+ */
+export type IcdClientRegistration = {
+    /**
+     * The node ID the peer addresses Check-In messages to.
+     */
+    checkInNodeId: NodeId;
+
+    /**
+     * The subject whose subscriptions suppress Check-In messages.
+     */
+    monitoredSubject: NodeId;
+
+    /**
+     * The shared key authenticating Check-In messages.
+     */
+    key: Uint8Array;
+
+    /**
+     * The counter of the last Check-In message we accepted, used to reject replayed messages.
+     */
+    counter: number;
+
+    /**
+     * The maximum time in seconds the peer stays in idle mode.  We stop waiting for a Check-In after a multiple of this
+     * duration.  Unset for registrations stored before we recorded the value.
+     */
+    idleModeDuration?: number;
+};
@@ -18,7 +18,11 @@ export abstract class PeerAddressStore {
     abstract loadPeers(): MaybePromise<Iterable<OperationalPeer>>;
     abstract updatePeer(peer: OperationalPeer): MaybePromise<void>;
     abstract deletePeer(address: PeerAddress): MaybePromise<void>;
-    abstract createNodeStore(address: PeerAddress): Promise<PeerDataStore>;
+
+    /**
+     * Create the store for attribute data of a new peer.  Returns undefined if the store does not cache peer data.
+     */
+    abstract createNodeStore(address: PeerAddress): Promise<PeerDataStore | undefined>;
 }
 
 export abstract class PeerDataStore {
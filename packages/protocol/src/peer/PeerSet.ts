@@ -4,13 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { IcdManagement } from "#clusters/icd-management";
+import { TcpSupportBitmapSchema } from "#common/InstanceBroadcaster.js";
 import { DiscoveryData, ScannerSet } from "#common/Scanner.js";
+import { FabricGroups } from "#fabric/FabricGroups.js";
 import {
     anyPromise,
     BasicSet,
+    Channel,
     ChannelType,
     Construction,
     createPromise,
+    Crypto,
+    CRYPTO_SYMMETRIC_KEY_LENGTH,
     Environment,
     Environmental,
     ImmutableSet,
@@ -19,8 +25,11 @@ import {
     isIPv6,
     Logger,
     MatterError,
+    MaybePromise,
     NetInterfaceSet,
+    NetworkError,
     NoResponseTimeoutError,
+    Observable,
     ObservableSet,
     PromiseQueue,
     ServerAddressIp,
@@ -28,15 +37,17 @@ import {
     Time,
     Timer,
 } from "#general";
-import { InteractionClient } from "#interaction/InteractionClient.js";
+import { CheckInMessage, CheckInPayload } from "#icd/CheckInMessage.js";
+import { InteractionClient, PeerAvailability } from "#interaction/InteractionClient.js";
 import { MdnsScanner } from "#mdns/MdnsScanner.js";
 import { PeerAddress, PeerAddressMap } from "#peer/PeerAddress.js";
+import { SecureChannelProtocol, StatusReportOnlySecureChannelProtocol } from "#securechannel/SecureChannelProtocol.js";
 import { CaseClient, SecureSession, Session } from "#session/index.js";
 import { SessionManager } from "#session/SessionManager.js";
-import { SECURE_CHANNEL_PROTOCOL_ID } from "@matter/types";
+import { EndpointNumber, NodeId, SECURE_CHANNEL_PROTOCOL_ID } from "@matter/types";
 import { ChannelManager } from "../protocol/ChannelManager.js";
 import { ChannelNotConnectedError, ExchangeManager, MessageChannel } from "../protocol/ExchangeManager.js";
-import { ReconnectableExchangeProvider } from "../protocol/ExchangeProvider.js";
+import { DedicatedChannelExchangeProvider, ReconnectableExchangeProvider } from "../protocol/ExchangeProvider.js";
 import { RetransmissionLimitReachedError } from "../protocol/MessageExchange.js";
 import { ControllerDiscovery, DiscoveryError, PairRetransmissionLimitReachedError } from "./ControllerDiscovery.js";
 import { OperationalPeer } from "./OperationalPeer.js";
@@ -50,6 +61,15 @@ const RETRANSMISSION_DISCOVERY_TIMEOUT_MS = 5_000;
 const CONCURRENT_QUEUED_INTERACTIONS = 4;
 const INTERACTION_QUEUE_DELAY_MS = 100;
 
+/** Idle mode duration we assume if the ICD did not tell us, the maximum the specification allows. */
+const DEFAULT_ICD_IDLE_MODE_DURATION_S = 64_800;
+
+/** Number of idle mode durations we wait for a Check-In, so a single lost Check-In does not fail queued interactions. */
+const CHECK_IN_TIMEOUT_IDLE_MODE_DURATIONS = 2;
+
+/** Groupcast messages are always sent to the Matter IANA port. */
+const GROUPCAST_PORT = 5540;
+
 /**
  * Types of discovery that may be performed when connecting operationally.
  */
@@ -79,6 +99,13 @@ export interface DiscoveryOptions {
     discoveryData?: DiscoveryData;
 }
 
+interface CheckInWaiter {
+    promise: Promise<void>;
+    resolver: () => void;
+    rejecter: (reason?: any) => void;
+    timer: Timer;
+}
+
 interface RunningDiscovery {
     type: NodeDiscoveryType;
     promises?: (() => Promise<MessageChannel>)[];
@@ -95,6 +122,7 @@ export interface PeerSetContext {
     scanners: ScannerSet;
     netInterfaces: NetInterfaceSet;
     store: PeerAddressStore;
+    secureChannel?: StatusReportOnlySecureChannelProtocol;
 }
 
 /**
@@ -119,9 +147,14 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
     readonly #interactionQueue = new PromiseQueue(CONCURRENT_QUEUED_INTERACTIONS, INTERACTION_QUEUE_DELAY_MS);
     readonly #nodeCachedData = new PeerAddressMap<PeerDataStore>(); // Temporarily until we store it in new API
     readonly #clients = new PeerAddressMap<InteractionClient>();
+    readonly #groupChannels = new Map<string, Promise<Channel<Uint8Array>>>();
+    readonly #checkedIn = Observable<[address: PeerAddress, payload: CheckInPayload]>();
+    readonly #peerCheckIns = new PeerAddressMap<Observable<[]>>();
+    readonly #checkInWaiters = new PeerAddressMap<CheckInWaiter>();
+    readonly #activeUntil = new PeerAddressMap<number>();
 
     constructor(context: PeerSetContext) {
-        const { sessions, channels, exchanges, scanners, netInterfaces, store } = context;
+        const { sessions, channels, exchanges, scanners, netInterfaces, store, secureChannel } = context;
 
         this.#sessions = sessions;
         this.#channels = channels;
@@ -142,9 +175,11 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
 
         this.#sessions.resubmissionStarted.on(this.#handleResubmissionStarted.bind(this));
 
+        secureChannel?.checkInReceived.on(this.#handleCheckIn.bind(this));
+
         this.#channels.added.on((address, msgChannel) => {
-            if (isIpNetworkChannel(msgChannel.channel)) {
-                // Update the channel address if it has one
+            // Update the channel address if it has one; TCP connections use ephemeral ports so only UDP is persisted
+            if (isIpNetworkChannel(msgChannel.channel) && msgChannel.channel.networkAddress.type === "udp") {
                 return this.#addOrUpdatePeer(address, msgChannel.channel.networkAddress);
             }
         });
@@ -164,6 +199,13 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
         return this.#peers.deleted;
     }
 
+    /**
+     * Emits when an ICD peer we registered with sends an authenticated Check-In message.
+     */
+    get checkedIn() {
+        return this.#checkedIn;
+    }
+
     has(item: PeerAddress | OperationalPeer) {
         if ("address" in item) {
             return this.#peers.has(item);
@@ -203,6 +245,7 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
             scanners: env.get(ScannerSet),
             netInterfaces: env.get(NetInterfaceSet),
             store: env.get(PeerAddressStore),
+            secureChannel: env.get(SecureChannelProtocol),
         });
         env.set(PeerSet, instance);
         return instance;
@@ -222,7 +265,90 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
     ): Promise<InteractionClient> {
         await this.#ensureConnection(address, discoveryOptions, allowUnknownPeer);
 
-        return this.initializeInteractionClient(address, discoveryOptions);
+        const client = await this.initializeInteractionClient(address, discoveryOptions);
+
+        const peer = this.get(address);
+        if (OperationalPeer.isLitIcd(peer) && peer?.icdRegistration === undefined) {
+            // Without registration a LIT ICD is unreachable while idle because it never tells us when it is active
+            try {
+                await this.registerIcdClient(address);
+            } catch (error) {
+                logger.warn(`Failed to register as Check-In client with ${PeerAddress(address)}:`, error);
+            }
+        }
+
+        return client;
+    }
+
+    /**
+     * Register as Check-In client with an ICD peer.
+     *
+     * The ICD then sends us a Check-In message when it enters active mode while it has no subscription for us.  If we
+     * are already registered this replaces the key of the registration.
+     */
+    async registerIcdClient(address: PeerAddress) {
+        const peer = this.get(address);
+        if (peer === undefined) {
+            throw new UnknownNodeError(`Cannot register with unknown device ${PeerAddress(address)}`);
+        }
+
+        const checkInNodeId = this.#sessions.fabricFor(address).rootNodeId;
+        const key = Crypto.getRandomData(CRYPTO_SYMMETRIC_KEY_LENGTH);
+
+        const client = await this.initializeInteractionClient(address);
+        const { icdCounter } = await client.invoke({
+            endpointId: EndpointNumber(0),
+            clusterId: IcdManagement.Cluster.id,
+            command: IcdManagement.CheckInProtocolSupportComponent.commands.registerClient,
+            request: {
+                checkInNodeId,
+                monitoredSubject: checkInNodeId,
+                key,
+                verificationKey: peer.icdRegistration?.key,
+            },
+        });
+
+        const idleModeDuration = await client.getAttribute({
+            endpointId: EndpointNumber(0),
+            clusterId: IcdManagement.Cluster.id,
+            attribute: IcdManagement.Cluster.attributes.idleModeDuration,
+            alwaysRequestFromRemote: true,
+        });
+
+        peer.icdRegistration = {
+            checkInNodeId,
+            monitoredSubject: checkInNodeId,
+            key,
+            counter: icdCounter,
+            idleModeDuration,
+        };
+        await this.#store.updatePeer(peer);
+
+        logger.info(`Registered as Check-In client with ${peer.address}`);
+    }
+
+    /**
+     * Remove our Check-In registration from an ICD peer.
+     */
+    async unregisterIcdClient(address: PeerAddress) {
+        const peer = this.get(address);
+        const registration = peer?.icdRegistration;
+        if (peer === undefined || registration === undefined) {
+            return;
+        }
+
+        const client = await this.initializeInteractionClient(address);
+        await client.invoke({
+            endpointId: EndpointNumber(0),
+            clusterId: IcdManagement.Cluster.id,
+            command: IcdManagement.CheckInProtocolSupportComponent.commands.unregisterClient,
+            request: { checkInNodeId: registration.checkInNodeId, verificationKey: registration.key },
+        });
+
+        delete peer.icdRegistration;
+        await this.#store.updatePeer(peer);
+
+        logger.info(`Unregistered as Check-In client from ${peer.address}`);
     }
 
     async #ensureConnection(address: PeerAddress, discoveryOptions: DiscoveryOptions, allowUnknownPeer = false) {
@@ -308,11 +434,55 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
             address,
             this.#interactionQueue,
             nodeStore,
+            this.#availabilityOf(address),
         );
         this.#clients.set(address, client);
         return client;
     }
 
+    /**
+     * Create an {@link InteractionClient} that addresses a group.  The address must contain the group node ID of the
+     * group.
+     *
+     * Messages are sent to the IPv6 multicast address of the group, secured with the operational group key of the
+     * fabric that is current when the client is created.  Create a new client after changing the group keys of the
+     * fabric.  Group communication is unreliable and has no responses, so the client only supports writes and invokes
+     * with suppressed responses.
+     *
+     * Clients of the same group share a UDP channel which closes when the PeerSet closes.
+     */
+    async initializeGroupInteractionClient(address: PeerAddress) {
+        const groupId = NodeId.extractAsGroupId(address.nodeId);
+        const fabric = this.#sessions.fabricFor(address);
+
+        const netInterface = this.#netInterfaces.interfaceFor(ChannelType.UDP, "::");
+        if (netInterface === undefined) {
+            throw new NetworkError("IPv6 interface not initialized, cannot send groupcast messages");
+        }
+
+        const ip = FabricGroups.multicastAddressFor(fabric.fabricId, groupId);
+        let promisedChannel = this.#groupChannels.get(ip);
+        if (promisedChannel === undefined) {
+            promisedChannel = netInterface.openChannel({ type: "udp", ip, port: GROUPCAST_PORT });
+            this.#groupChannels.set(ip, promisedChannel);
+        }
+        let channel;
+        try {
+            channel = await promisedChannel;
+        } catch (e) {
+            this.#groupChannels.delete(ip);
+            throw e;
+        }
+
+        // The exchange provider keeps the session, and with it the current group key, for the life of the client
+        const session = this.#sessions.groupSessionFor(fabric, groupId);
+
+        return new InteractionClient(
+            new DedicatedChannelExchangeProvider(this.#exchanges, new MessageChannel(channel, session)),
+            PeerAddress(address),
+        );
+    }
+
     /**
      * Retrieve a peer by address.
      */
@@ -353,6 +523,14 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
         await this.disconnect(actual);
         await this.#sessions.deleteResumptionRecord(address);
         this.#clients.delete(address);
+        this.#peerCheckIns.delete(address);
+        this.#activeUntil.delete(address);
+        const waiter = this.#checkInWaiters.get(address);
+        if (waiter !== undefined) {
+            waiter.timer.stop();
+            waiter.rejecter(new UnknownNodeError(`${address} was removed`));
+            this.#checkInWaiters.delete(address);
+        }
     }
 
     async close() {
@@ -365,11 +543,19 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
         }
         this.#clients.forEach(client => client.close());
         this.#clients.clear();
+        const groupChannels = [...this.#groupChannels.values()];
+        this.#groupChannels.clear();
+        await Promise.allSettled(groupChannels.map(async channel => (await channel).close()));
         this.#interactionQueue.close();
         this.#runningPeerReconnections.forEach(({ rejecter }) =>
             rejecter(new ChannelNotConnectedError("PeerSet closed")),
         );
         this.#runningPeerReconnections.clear();
+        this.#checkInWaiters.forEach(({ rejecter, timer }) => {
+            timer.stop();
+            rejecter(new ChannelNotConnectedError("PeerSet closed"));
+        });
+        this.#checkInWaiters.clear();
     }
 
     /**
@@ -616,6 +802,48 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
         }
 
         const operationalChannel = await operationalInterface.openChannel(operationalServerAddress);
+        const channel = new MessageChannel(
+            operationalChannel,
+            await this.#establishSession(address, operationalChannel, discoveryData, expectedProcessingTimeMs),
+        );
+        await this.#channels.setChannel(address, channel);
+
+        if (discoveryData?.T !== undefined && TcpSupportBitmapSchema.decode(discoveryData.T).tcpServer) {
+            await this.#pairTcp(address, operationalServerAddress, discoveryData);
+        }
+
+        return channel;
+    }
+
+    /**
+     * Establish an additional CASE session over TCP with a device that advertises a TCP server.  The TCP channel
+     * transports large payloads; failure is not fatal because UDP remains usable.
+     */
+    async #pairTcp(address: PeerAddress, { ip, port }: ServerAddressIp, discoveryData: DiscoveryData) {
+        const tcpInterface = this.#netInterfaces.interfaceFor(ChannelType.TCP, ip);
+        if (tcpInterface === undefined) {
+            logger.debug(`Not connecting to ${PeerAddress(address)} via TCP because TCP is not enabled`);
+            return;
+        }
+
+        let tcpChannel: Channel<Uint8Array> | undefined;
+        try {
+            tcpChannel = await tcpInterface.openChannel({ type: "tcp", ip, port });
+            const session = await this.#establishSession(address, tcpChannel, discoveryData);
+            await this.#channels.setChannel(address, new MessageChannel(tcpChannel, session));
+        } catch (error) {
+            logger.warn(`Failed to connect to ${PeerAddress(address)} via TCP at ${ip}:${port}:`, error);
+            await tcpChannel?.close();
+        }
+    }
+
+    /** Establish a CASE session over a channel to an operational device. */
+    async #establishSession(
+        address: PeerAddress,
+        operationalChannel: Channel<Uint8Array>,
+        discoveryData?: DiscoveryData,
+        expectedProcessingTimeMs?: number,
+    ) {
         const { sessionParameters } = this.#sessions.findResumptionRecordByAddress(address) ?? {};
         const unsecureSession = this.#sessions.createInsecureSession({
             // Use the session parameters from MDNS announcements when available and rest is assumed to be fallbacks
@@ -659,9 +887,7 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
         } finally {
             await unsecureSession.destroy();
         }
-        const channel = new MessageChannel(operationalChannel, operationalSecureSession);
-        await this.#channels.setChannel(address, channel);
-        return channel;
+        return operationalSecureSession;
     }
 
     /**
@@ -746,4 +972,136 @@ export class PeerSet implements ImmutableSet<OperationalPeer>, ObservableSet<Ope
                 }
             });
     }
+
+    /**
+     * Create the {@link PeerAvailability} that lets an {@link InteractionClient} wait for an idle ICD.
+     */
+    #availabilityOf(address: PeerAddress): PeerAvailability {
+        let checkedIn = this.#peerCheckIns.get(address);
+        if (checkedIn === undefined) {
+            checkedIn = Observable<[]>();
+            this.#peerCheckIns.set(address, checkedIn);
+        }
+
+        const isIntermittent = () => this.#isIntermittent(address);
+        return {
+            get isIntermittent() {
+                return isIntermittent();
+            },
+            untilActive: () => this.#untilActive(address),
+            checkedIn,
+        };
+    }
+
+    /**
+     * A peer is intermittently reachable if it is a LIT ICD that sends us Check-In messages.
+     */
+    #isIntermittent(address: PeerAddress) {
+        const peer = this.#peersByAddress.get(address);
+        return OperationalPeer.isLitIcd(peer) && peer?.icdRegistration !== undefined;
+    }
+
+    async #untilActive(address: PeerAddress) {
+        if (!this.#isIntermittent(address) || this.#isActive(address)) {
+            return;
+        }
+
+        let waiter = this.#checkInWaiters.get(address);
+        if (waiter === undefined) {
+            waiter = this.#createCheckInWaiter(address);
+            this.#checkInWaiters.set(address, waiter);
+        }
+
+        logger.info(`Queuing interaction with ${PeerAddress(address)} until it checks in`);
+        await waiter.promise;
+    }
+
+    /**
+     * Create a waiter for the next Check-In of a peer.  The waiter fails if the ICD misses its Check-Ins, e.g. because
+     * it is offline or lost our registration.
+     */
+    #createCheckInWaiter(address: PeerAddress): CheckInWaiter {
+        const { promise, resolver, rejecter } = createPromise<void>();
+        const idleModeDurationS =
+            this.#peersByAddress.get(address)?.icdRegistration?.idleModeDuration ?? DEFAULT_ICD_IDLE_MODE_DURATION_S;
+        const timeoutMs = idleModeDurationS * CHECK_IN_TIMEOUT_IDLE_MODE_DURATIONS * 1000;
+
+        const timer = Time.getTimer(`Check-In timeout ${PeerAddress(address)}`, timeoutMs, () => {
+            if (this.#checkInWaiters.get(address) === waiter) {
+                this.#checkInWaiters.delete(address);
+            }
+            rejecter(
+                new NoResponseTimeoutError(
+                    `${PeerAddress(address)} did not check in within ${Math.round(timeoutMs / 1000)}s`,
+                ),
+            );
+        }).start();
+
+        const waiter = { promise, resolver, rejecter, timer };
+        return waiter;
+    }
+
+    /**
+     * An ICD is active after a Check-In or while it keeps sending us messages.
+     */
+    #isActive(address: PeerAddress) {
+        if ((this.#activeUntil.get(address) ?? 0) > Time.nowMs()) {
+            return true;
+        }
+
+        return this.#channels.hasChannel(address) && this.#channels.getChannel(address).session.isPeerActive();
+    }
+
+    /**
+     * Authenticate a Check-In message using the keys of our registrations.  The ICD does not identify itself so we
+     * identify the peer by the key that decrypts the message.
+     */
+    #handleCheckIn(payload: Uint8Array) {
+        for (const peer of this.#peers) {
+            const registration = peer.icdRegistration;
+            if (registration === undefined) {
+                continue;
+            }
+
+            let checkIn: CheckInPayload;
+            try {
+                checkIn = CheckInMessage.decode(registration.key, payload);
+            } catch {
+                continue;
+            }
+
+            const { address } = peer;
+
+            // The counter increases with every Check-In so an older counter indicates a replayed message
+            const offset = (checkIn.counter - registration.counter) >>> 0;
+            if (offset === 0 || offset >= 0x80000000) {
+                logger.warn(`Ignoring replayed Check-In message ${checkIn.counter} from ${address}`);
+                return;
+            }
+
+            logger.info(`Received Check-In message ${checkIn.counter} from ${address}`);
+
+            registration.counter = checkIn.counter;
+            const persisted = this.#store.updatePeer(peer);
+            if (MaybePromise.is(persisted)) {
+                persisted.then(undefined, error =>
+                    logger.error(`Error persisting Check-In counter of ${address}:`, error),
+                );
+            }
+
+            this.#activeUntil.set(address, Time.nowMs() + checkIn.activeModeThreshold);
+            const waiter = this.#checkInWaiters.get(address);
+            if (waiter !== undefined) {
+                waiter.timer.stop();
+                waiter.resolver();
+                this.#checkInWaiters.delete(address);
+            }
+
+            this.#peerCheckIns.get(address)?.emit();
+            this.#checkedIn.emit(address, checkIn);
+            return;
+        }
+
+        logger.debug("Ignoring Check-In message from unknown ICD");
+    }
 }
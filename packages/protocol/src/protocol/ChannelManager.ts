@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { AsyncObservable, Channel, Environment, Environmental, Logger, MatterError } from "#general";
+import { AsyncObservable, Channel, ChannelType, Environment, Environmental, Logger, MatterError } from "#general";
 import { PeerAddress, PeerAddressMap } from "#peer/PeerAddress.js";
 import { SecureSession } from "../session/SecureSession.js";
 import { Session } from "../session/Session.js";
@@ -72,7 +72,14 @@ export class ChannelManager {
         return !!this.#channels.get(address)?.length;
     }
 
-    getChannel(address: PeerAddress, session?: Session) {
+    /**
+     * Returns the latest added channel to a peer (or the one belonging to the session requested).
+     *
+     * With {@link ChannelManager.ChannelOptions.largePayload} a TCP channel is preferred if one exists because UDP
+     * channels cannot transport messages larger than a single datagram.  Otherwise other channels are preferred over
+     * TCP.
+     */
+    getChannel(address: PeerAddress, session?: Session, options?: ChannelManager.ChannelOptions) {
         let results = this.#channels.get(address) ?? [];
         if (session !== undefined) {
             results = results.filter(channel => channel.session.id === session.id);
@@ -81,7 +88,11 @@ export class ChannelManager {
             throw new NoChannelError(
                 `Can't find a channel to ${PeerAddress(address)}${session !== undefined ? ` session ${session.id}` : ""}`,
             );
-        return results[results.length - 1]; // Return the latest added channel (or the one belonging to the session requested)
+        const preferred = results.filter(({ type }) => (type === ChannelType.TCP) === !!options?.largePayload);
+        if (preferred.length) {
+            return preferred[preferred.length - 1];
+        }
+        return results[results.length - 1];
     }
 
     /**
@@ -172,3 +183,10 @@ export class ChannelManager {
         this.#channels.clear();
     }
 }
+
+export namespace ChannelManager {
+    export interface ChannelOptions {
+        /** The channel is used to transfer payloads that may exceed the size of a UDP message. */
+        largePayload?: boolean;
+    }
+}
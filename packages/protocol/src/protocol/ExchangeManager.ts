@@ -13,7 +13,6 @@ import {
     Logger,
     MatterError,
     MatterFlowError,
-    NotImplementedError,
     ObserverGroup,
     TransportInterface,
     TransportInterfaceSet,
@@ -21,7 +20,7 @@ import {
 } from "#general";
 import { PeerAddress } from "#peer/PeerAddress.js";
 import { NodeId, SECURE_CHANNEL_PROTOCOL_ID, SecureMessageType } from "#types";
-import { Message, MessageCodec, SessionType } from "../codec/MessageCodec.js";
+import { DecodedPacket, Message, MessageCodec, SessionType } from "../codec/MessageCodec.js";
 import { SecureChannelMessenger } from "../securechannel/SecureChannelMessenger.js";
 import { SecureSession } from "../session/SecureSession.js";
 import { Session } from "../session/Session.js";
@@ -162,8 +161,11 @@ export class ExchangeManager {
         this.#protocols.set(protocol.getId(), protocol);
     }
 
-    initiateExchange(address: PeerAddress, protocolId: number) {
-        return this.initiateExchangeWithChannel(this.#channelManager.getChannel(address), protocolId);
+    initiateExchange(address: PeerAddress, protocolId: number, options?: ChannelManager.ChannelOptions) {
+        return this.initiateExchangeWithChannel(
+            this.#channelManager.getChannel(address, undefined, options),
+            protocolId,
+        );
     }
 
     initiateExchangeWithChannel(channel: MessageChannel, protocolId: number) {
@@ -191,26 +193,20 @@ export class ExchangeManager {
     private async onMessage(channel: Channel<Uint8Array>, messageBytes: Uint8Array) {
         const packet = MessageCodec.decodePacket(messageBytes);
 
-        if (packet.header.sessionType === SessionType.Group)
-            throw new NotImplementedError("Group messages are not supported");
+        if (packet.header.sessionType === SessionType.Group) {
+            return this.#onGroupMessage(channel, packet, messageBytes);
+        }
 
         let session: Session | undefined;
-        if (packet.header.sessionType === SessionType.Unicast) {
-            if (packet.header.sessionId === UNICAST_UNSECURE_SESSION_ID) {
-                const initiatorNodeId = packet.header.sourceNodeId ?? NodeId.UNSPECIFIED_NODE_ID;
-                session =
-                    this.#sessionManager.getUnsecureSession(initiatorNodeId) ??
-                    this.#sessionManager.createInsecureSession({
-                        initiatorNodeId,
-                    });
-            } else {
-                session = this.#sessionManager.getSession(packet.header.sessionId);
-            }
-        } else if (packet.header.sessionType === SessionType.Group) {
-            if (packet.header.sourceNodeId !== undefined) {
-                //session = this.sessionManager.findGroupSession(packet.header.destGroupId, packet.header.sessionId);
-            }
-            // if (packet.header.destGroupId !== undefined) { ???
+        if (packet.header.sessionId === UNICAST_UNSECURE_SESSION_ID) {
+            const initiatorNodeId = packet.header.sourceNodeId ?? NodeId.UNSPECIFIED_NODE_ID;
+            session =
+                this.#sessionManager.getUnsecureSession(initiatorNodeId) ??
+                this.#sessionManager.createInsecureSession({
+                    initiatorNodeId,
+                });
+        } else {
+            session = this.#sessionManager.getSession(packet.header.sessionId);
         }
 
         if (session === undefined) {
@@ -283,6 +279,7 @@ export class ExchangeManager {
                 this.#addExchange(exchangeIndex, exchange);
                 await exchange.send(SecureMessageType.StandaloneAck, new Uint8Array(0), {
                     includeAcknowledgeMessageId: message.packetHeader.messageId,
+                    protocolId: SECURE_CHANNEL_PROTOCOL_ID,
                 });
                 await exchange.close();
                 logger.debug(
@@ -308,6 +305,55 @@ export class ExchangeManager {
         }
     }
 
+    /**
+     * Groupcast messages are handled separately from unicast messages.  The session is determined by authenticating the
+     * message with the group key candidates, so the message counter can only be checked after decoding.  There are no
+     * acknowledgements or responses, so the exchange is not tracked and only lives for the processing of the message.
+     */
+    async #onGroupMessage(channel: Channel<Uint8Array>, packet: DecodedPacket, messageBytes: Uint8Array) {
+        const { sessionId, sourceNodeId, destGroupId, messageId } = packet.header;
+        if (sourceNodeId === undefined || destGroupId === undefined) {
+            throw new MatterFlowError(
+                `Group message ${messageId} without source node ID or destination group ID, ignoring.`,
+            );
+        }
+
+        const aad = messageBytes.slice(0, messageBytes.length - packet.applicationPayload.length); // Header+Extensions
+        const groupSession = this.#sessionManager.findGroupSession(packet, aad);
+        if (groupSession === undefined) {
+            throw new MatterFlowError(
+                `Cannot find a group key for group ${destGroupId} with session ID ${sessionId} from node ${sourceNodeId}`,
+            );
+        }
+        const { session, message } = groupSession;
+
+        try {
+            session.updateMessageCounter(messageId, sourceNodeId);
+        } catch (e) {
+            DuplicateMessageError.accept(e);
+            logger.debug(`Ignoring duplicate group message ${messageId} from node ${sourceNodeId}.`);
+            return;
+        }
+
+        const protocolHandler = this.#protocols.get(message.payloadHeader.protocolId);
+        if (protocolHandler === undefined) {
+            throw new MatterFlowError(`Unsupported protocol ${message.payloadHeader.protocolId}`);
+        }
+        if (!message.payloadHeader.isInitiatorMessage) {
+            logger.info(
+                `Discarding unexpected group message ${messageId} for protocol ${message.payloadHeader.protocolId} from node ${sourceNodeId}.`,
+            );
+            return;
+        }
+
+        const exchange = MessageExchange.fromInitialMessage(
+            this.#messageExchangeContextFor(new MessageChannel(channel, session)),
+            message,
+        );
+        await exchange.onMessageReceived(message);
+        await protocolHandler.onNewExchange(exchange, message);
+    }
+
     async deleteExchange(exchangeIndex: number) {
         const exchange = this.#exchanges.get(exchangeIndex);
         if (exchange === undefined) {
@@ -377,8 +423,9 @@ export class ExchangeManager {
 
         // A node SHOULD limit itself to a maximum of 5 concurrent exchanges over a unicast session. This is
         // to prevent a node from exhausting the message counter window of the peer node.
-        // TODO Make sure Group sessions are handled differently
-        this.#cleanupSessionExchanges(exchange.session.id);
+        if (!exchange.session.isGroup) {
+            this.#cleanupSessionExchanges(exchange.session.id);
+        }
     }
 
     #cleanupSessionExchanges(sessionId: number) {
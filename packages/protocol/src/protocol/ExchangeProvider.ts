@@ -27,7 +27,7 @@ export abstract class ExchangeProvider {
         this.exchangeManager.addProtocolHandler(handler);
     }
 
-    abstract initiateExchange(): Promise<MessageExchange>;
+    abstract initiateExchange(options?: ChannelManager.ChannelOptions): Promise<MessageExchange>;
     abstract reconnectChannel(): Promise<boolean>;
     abstract session: Session;
     abstract channelType: ChannelType;
@@ -83,14 +83,14 @@ export class ReconnectableExchangeProvider extends ExchangeProvider {
         return this.#channelUpdated;
     }
 
-    async initiateExchange(): Promise<MessageExchange> {
+    async initiateExchange(options?: ChannelManager.ChannelOptions): Promise<MessageExchange> {
         if (!this.channelManager.hasChannel(this.#address)) {
             await this.reconnectChannel();
         }
         if (!this.channelManager.hasChannel(this.#address)) {
             throw new ChannelNotConnectedError("Channel not connected");
         }
-        return this.exchangeManager.initiateExchange(this.#address, INTERACTION_PROTOCOL_ID);
+        return this.exchangeManager.initiateExchange(this.#address, INTERACTION_PROTOCOL_ID, options);
     }
 
     async reconnectChannel() {
@@ -60,6 +60,12 @@ export type ExchangeSendOptions = {
 
     /** Use the provided acknowledge MessageId instead checking the latest to send one */
     includeAcknowledgeMessageId?: number;
+
+    /**
+     * Send the message with a different protocol ID than the one of the exchange.  Protocols other than the Secure
+     * Channel use this to send a StatusReport message of the Secure Channel protocol.
+     */
+    protocolId?: number;
 };
 
 /**
@@ -257,7 +263,10 @@ export class MessageExchange {
         } = message;
         if (!requiresAck || !this.#useMRP) return;
 
-        await this.send(SecureMessageType.StandaloneAck, new Uint8Array(0), { includeAcknowledgeMessageId: messageId });
+        await this.send(SecureMessageType.StandaloneAck, new Uint8Array(0), {
+            includeAcknowledgeMessageId: messageId,
+            protocolId: SECURE_CHANNEL_PROTOCOL_ID,
+        });
     }
 
     async onMessageReceived(message: Message, isDuplicate = false) {
@@ -275,7 +284,11 @@ export class MessageExchange {
         } = message;
 
         const isStandaloneAck = SecureChannelProtocol.isStandaloneAck(protocolId, messageType);
-        if (protocolId !== this.#protocolId && !isStandaloneAck) {
+        if (
+            protocolId !== this.#protocolId &&
+            !isStandaloneAck &&
+            !SecureChannelProtocol.isStatusReport(protocolId, messageType)
+        ) {
             throw new MatterFlowError(
                 `Drop received a message for an unexpected protocol. Expected: ${this.#protocolId}, received: ${protocolId}`,
             );
@@ -351,11 +364,15 @@ export class MessageExchange {
             expectedProcessingTimeMs = DEFAULT_EXPECTED_PROCESSING_TIME_MS,
             requiresAck,
             includeAcknowledgeMessageId,
+            protocolId = this.#protocolId,
         } = options ?? {};
+
+        // Other protocols may use the message type of standalone acks (e.g. BDX BlockQuery) so check the protocol too
+        const isStandaloneAck = SecureChannelProtocol.isStandaloneAck(protocolId, messageType);
         if (!this.#useMRP && includeAcknowledgeMessageId !== undefined) {
             throw new InternalError("Cannot include an acknowledge message ID when MRP is not used");
         }
-        if (messageType === SecureMessageType.StandaloneAck) {
+        if (isStandaloneAck) {
             if (!this.#useMRP) {
                 return;
             }
@@ -363,7 +380,7 @@ export class MessageExchange {
                 throw new MatterFlowError("A standalone ack may not require acknowledgement.");
             }
         }
-        if (this.#sentMessageToAck !== undefined && messageType !== SecureMessageType.StandaloneAck)
+        if (this.#sentMessageToAck !== undefined && !isStandaloneAck)
             throw new MatterFlowError("The previous message has not been acked yet, cannot send a new message.");
 
         this.session.notifyActivity(false);
@@ -381,7 +398,7 @@ export class MessageExchange {
         const message: Message = {
             packetHeader: {
                 sessionId: this.#peerSessionId,
-                sessionType: SessionType.Unicast, // TODO: support multicast/groups
+                sessionType: this.session.isGroup ? SessionType.Group : SessionType.Unicast,
                 messageId: await this.session.getIncrementedMessageCounter(),
                 destNodeId: this.#peerNodeId,
                 sourceNodeId: this.#nodeId,
@@ -391,11 +408,10 @@ export class MessageExchange {
             },
             payloadHeader: {
                 exchangeId: this.#exchangeId,
-                protocolId:
-                    messageType === SecureMessageType.StandaloneAck ? SECURE_CHANNEL_PROTOCOL_ID : this.#protocolId,
+                protocolId,
                 messageType,
                 isInitiatorMessage: this.isInitiator,
-                requiresAck: requiresAck ?? (this.#useMRP && messageType !== SecureMessageType.StandaloneAck),
+                requiresAck: requiresAck ?? (this.#useMRP && !isStandaloneAck),
                 ackedMessageId,
                 hasSecuredExtension: false,
             },
@@ -443,8 +459,9 @@ export class MessageExchange {
                 timeout = 30_000;
                 break;
             case "udp":
-                // UDP normally uses MRP, if not we have Group communication which normally have no responses
-                if (!this.#useMRP) {
+                // UDP normally uses MRP, if not we have Group communication which normally have no responses, so only
+                // the already received initial message of a group exchange can be read
+                if (!this.#useMRP && !this.session.isGroup) {
                     throw new MatterFlowError("No response expected for this message exchange because UDP and no MRP.");
                 }
                 timeout = this.calculateMaximumPeerResponseTime(expectedProcessingTimeMs);
@@ -5,7 +5,7 @@
  */
 
 import { FabricManager } from "#fabric/FabricManager.js";
-import { AsyncObservable, Environment, Environmental, Logger, MatterFlowError } from "#general";
+import { AsyncObservable, Environment, Environmental, Logger, MatterFlowError, Observable } from "#general";
 import { ExchangeManager } from "#protocol/ExchangeManager.js";
 import { SessionManager } from "#session/SessionManager.js";
 import {
@@ -28,10 +28,19 @@ import { TlvSecureChannelStatusMessage } from "./SecureChannelStatusMessageSchem
 const logger = Logger.get("SecureChannelProtocol");
 
 export class StatusReportOnlySecureChannelProtocol implements ProtocolHandler {
+    readonly #checkInReceived = Observable<[payload: Uint8Array]>();
+
     getId(): number {
         return SECURE_CHANNEL_PROTOCOL_ID;
     }
 
+    /**
+     * Emitted when an ICD sends a Check-In message.  The payload is encrypted with the key of the registered client.
+     */
+    get checkInReceived() {
+        return this.#checkInReceived;
+    }
+
     async onNewExchange(exchange: MessageExchange, message: Message) {
         const messageType = message.payloadHeader.messageType;
 
@@ -39,6 +48,11 @@ export class StatusReportOnlySecureChannelProtocol implements ProtocolHandler {
             case SecureMessageType.StatusReport:
                 await this.handleInitialStatusReport(exchange, message);
                 break;
+            case SecureMessageType.IcdCheckInMessage:
+                // Check-In messages are unacknowledged so there is nothing to respond
+                await exchange.close();
+                this.#checkInReceived.emit(message.payload);
+                break;
             default:
                 // We silently ignore incoming Standalone Ack messages that we do not expect here
                 if (messageType !== SecureMessageType.StandaloneAck) {
@@ -155,4 +169,8 @@ export class SecureChannelProtocol extends StatusReportOnlySecureChannelProtocol
     static isStandaloneAck(protocolId: number, messageType: number) {
         return protocolId === SECURE_CHANNEL_PROTOCOL_ID && messageType === SecureMessageType.StandaloneAck;
     }
+
+    static isStatusReport(protocolId: number, messageType: number) {
+        return protocolId === SECURE_CHANNEL_PROTOCOL_ID && messageType === SecureMessageType.StatusReport;
+    }
 }
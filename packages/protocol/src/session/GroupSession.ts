@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GroupId, NodeId } from "#types";
+import { Message, Packet, SessionType } from "../codec/MessageCodec.js";
+import { Fabric } from "../fabric/Fabric.js";
+import { OperationalGroupKey } from "../fabric/FabricGroups.js";
+import { MessageCounter } from "../protocol/MessageCounter.js";
+import { MessageReceptionState } from "../protocol/MessageReceptionState.js";
+import { SecureSession } from "./SecureSession.js";
+import { type SessionManager } from "./SessionManager.js";
+
+/**
+ * A session for groupcast communication secured by an operational group key.
+ *
+ * Group sessions are not negotiated, so there is no session state besides the key and the message counters.  Instances
+ * are created per received message or for sending to a group and are not tracked by the {@link SessionManager}.
+ *
+ * For received messages the peer node is the source node of the message.  For sending the peer node is the group
+ * node ID of the destination group.
+ */
+export class GroupSession extends SecureSession {
+    readonly #groupId: GroupId;
+    readonly #operationalKey: OperationalGroupKey;
+    override readonly supportsMRP = false;
+
+    constructor(args: {
+        manager?: SessionManager;
+        fabric: Fabric;
+        groupId: GroupId;
+        operationalKey: OperationalGroupKey;
+        peerNodeId: NodeId;
+        messageCounter: MessageCounter;
+        messageReceptionState: MessageReceptionState;
+    }) {
+        const { manager, fabric, groupId, operationalKey, peerNodeId, messageCounter, messageReceptionState } = args;
+        super({
+            manager,
+            id: operationalKey.groupSessionId,
+            fabric,
+            peerNodeId,
+            peerSessionId: operationalKey.groupSessionId,
+            decryptKey: operationalKey.key,
+            encryptKey: operationalKey.key,
+            attestationKey: new Uint8Array(0),
+            isInitiator: false,
+            messageCounter,
+            messageReceptionState,
+        });
+        this.#groupId = groupId;
+        this.#operationalKey = operationalKey;
+    }
+
+    override get isGroup() {
+        return true;
+    }
+
+    get groupId() {
+        return this.#groupId;
+    }
+
+    get groupKeySetId() {
+        return this.#operationalKey.groupKeySetId;
+    }
+
+    override get name() {
+        return `group/${this.#groupId}/${this.id}`;
+    }
+
+    override encode(message: Message): Packet {
+        const { packetHeader } = message;
+        packetHeader.sessionType = SessionType.Group;
+        packetHeader.destGroupId = this.#groupId;
+        packetHeader.destNodeId = undefined;
+        packetHeader.sourceNodeId = this.associatedFabric.nodeId;
+        return super.encode(message);
+    }
+}
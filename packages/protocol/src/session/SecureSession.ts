@@ -21,7 +21,10 @@ import { CaseAuthenticatedTag, FabricIndex, NodeId, StatusCode, StatusResponseEr
 import { DecodedMessage, DecodedPacket, Message, MessageCodec, Packet } from "../codec/MessageCodec.js";
 import { Fabric } from "../fabric/Fabric.js";
 import { MessageCounter } from "../protocol/MessageCounter.js";
-import { MessageReceptionStateEncryptedWithoutRollover } from "../protocol/MessageReceptionState.js";
+import {
+    MessageReceptionState,
+    MessageReceptionStateEncryptedWithoutRollover,
+} from "../protocol/MessageReceptionState.js";
 import { Session, SessionParameterOptions } from "./Session.js";
 import { type SessionManager } from "./SessionManager.js";
 
@@ -49,7 +52,7 @@ export class SecureSession extends Session {
     readonly #attestationKey: Uint8Array;
     #caseAuthenticatedTags: CaseAuthenticatedTag[];
     #isClosing = false;
-    readonly supportsMRP = true;
+    readonly supportsMRP: boolean = true;
 
     static async create(args: {
         manager?: SessionManager;
@@ -113,17 +116,21 @@ export class SecureSession extends Session {
         sessionParameters?: SessionParameterOptions;
         caseAuthenticatedTags?: CaseAuthenticatedTag[];
         isInitiator: boolean;
+        messageCounter?: MessageCounter;
+        messageReceptionState?: MessageReceptionState;
     }) {
         super({
             ...args,
             setActiveTimestamp: true, // We always set the active timestamp for Secure sessions
             // Can be changed to a PersistedMessageCounter if we implement session storage
-            messageCounter: new MessageCounter(() => {
-                // Secure Session Message Counter
-                // Expire/End the session before the counter rolls over
-                this.end(true, true).catch(error => logger.error(`Error while closing session: ${error}`));
-            }),
-            messageReceptionState: new MessageReceptionStateEncryptedWithoutRollover(),
+            messageCounter:
+                args.messageCounter ??
+                new MessageCounter(() => {
+                    // Secure Session Message Counter
+                    // Expire/End the session before the counter rolls over
+                    this.end(true, true).catch(error => logger.error(`Error while closing session: ${error}`));
+                }),
+            messageReceptionState: args.messageReceptionState ?? new MessageReceptionStateEncryptedWithoutRollover(),
         });
         const {
             manager,
@@ -146,6 +153,11 @@ export class SecureSession extends Session {
         this.#attestationKey = attestationKey;
         this.#caseAuthenticatedTags = caseAuthenticatedTags ?? [];
 
+        // Group sessions are transient and only exist for the processing of a single message or exchange
+        if (this.isGroup) {
+            return;
+        }
+
         manager?.sessions.add(this);
         fabric?.addSession(this);
 
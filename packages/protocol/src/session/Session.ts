@@ -168,7 +168,14 @@ export abstract class Session {
     abstract nodeId: NodeId | undefined;
     abstract peerNodeId: NodeId | undefined;
     abstract associatedFabric: Fabric;
-    abstract supportsMRP: boolean; // TODO: always false for Group Sessions
+    abstract supportsMRP: boolean;
+
+    /**
+     * Indicates whether this is a group session used for groupcast communication.
+     */
+    get isGroup() {
+        return false;
+    }
 
     abstract decode(packet: DecodedPacket, aad?: Uint8Array): DecodedMessage;
     abstract encode(message: Message): Packet;
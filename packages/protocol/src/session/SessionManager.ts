@@ -24,9 +24,12 @@ import {
 import { Subscription } from "#interaction/Subscription.js";
 import { Specification } from "#model";
 import { PeerAddress, PeerAddressMap } from "#peer/PeerAddress.js";
-import { CaseAuthenticatedTag, DEFAULT_MAX_PATHS_PER_INVOKE, FabricId, FabricIndex, NodeId } from "#types";
+import { CaseAuthenticatedTag, DEFAULT_MAX_PATHS_PER_INVOKE, FabricId, FabricIndex, GroupId, NodeId } from "#types";
+import { DecodedMessage, DecodedPacket } from "../codec/MessageCodec.js";
 import { Fabric } from "../fabric/Fabric.js";
-import { MessageCounter } from "../protocol/MessageCounter.js";
+import { MessageCounter, PersistedMessageCounter } from "../protocol/MessageCounter.js";
+import { MessageReceptionStateEncryptedWithRollover } from "../protocol/MessageReceptionState.js";
+import { GroupSession } from "./GroupSession.js";
 import { InsecureSession } from "./InsecureSession.js";
 import { SecureSession } from "./SecureSession.js";
 import {
@@ -113,6 +116,8 @@ export class SessionManager {
     #nextSessionId = Crypto.getRandomUInt16();
     #resumptionRecords = new PeerAddressMap<ResumptionRecord>();
     readonly #globalUnencryptedMessageCounter = new MessageCounter();
+    #globalGroupDataMessageCounter?: PersistedMessageCounter;
+    readonly #groupPeerReceptionStates = new PeerAddressMap<MessageReceptionStateEncryptedWithRollover>();
     readonly #subscriptionsChanged = Observable<[session: SecureSession, subscription: Subscription]>();
     #sessionParameters;
     readonly #resubmissionStarted = new Observable<[session: Session]>();
@@ -125,9 +130,14 @@ export class SessionManager {
         this.#sessionParameters = { ...DEFAULT_SESSION_PARAMETERS, ...context.parameters };
 
         // When fabric is removed, also remove the resumption record
-        this.#observers.on(context.fabrics.events.deleted, async fabric =>
-            this.deleteResumptionRecordsForFabric(fabric),
-        );
+        this.#observers.on(context.fabrics.events.deleted, async fabric => {
+            for (const address of this.#groupPeerReceptionStates.keys()) {
+                if (address.fabricIndex === fabric.fabricIndex) {
+                    this.#groupPeerReceptionStates.delete(address);
+                }
+            }
+            await this.deleteResumptionRecordsForFabric(fabric);
+        });
 
         this.#construction = Construction(this, () => this.#initialize());
     }
@@ -398,15 +408,84 @@ export class SessionManager {
         return this.#insecureSessions.get(sourceNodeId);
     }
 
-    findGroupSession(groupId: number, groupSessionId: number) {
+    /**
+     * Find the group session for a received groupcast message.
+     *
+     * The Group Session ID is not unique, it only narrows down the operational group key candidates.  All candidates
+     * of all fabrics are attempted until the message authenticates, so a successful lookup also returns the decoded
+     * message.
+     */
+    findGroupSession(
+        packet: DecodedPacket,
+        aad: Uint8Array,
+    ): { session: GroupSession; message: DecodedMessage } | undefined {
         this.#construction.assert();
 
-        // Use groupsession id to find the key ??!!
-        // The Group Session ID MAY help receiving nodes efficiently locate the Operational Group Key used to encrypt an incoming groupcast message. It SHALL NOT be used as the sole means to locate the asso­ ciated Operational Group Key, since it MAY collide within the fabric. Instead, the Group Session ID provides receiving nodes a means to identify Operational Group Key candidates without the need to first attempt to decrypt groupcast messages using all available keys.
-        // On receipt of a message of Group Session Type, all valid, installed, operational group key candidates referenced by the given Group Session ID SHALL be attempted until authentication is passed or there are no more operational group keys to try. This is done because the same Group Session ID might arise from different keys. The chance of a Group Session ID collision is 2-16 but the chance of both a Group Session ID collision and the message MIC matching two different operational group keys is 2-80.
+        const { sessionId, sourceNodeId, destGroupId } = packet.header;
+        if (sourceNodeId === undefined || destGroupId === undefined) {
+            return undefined;
+        }
+        const groupId = GroupId(destGroupId);
+
+        for (const fabric of this.#context.fabrics) {
+            for (const operationalKey of fabric.groups.operationalKeysFor(groupId, sessionId)) {
+                const peerAddress = fabric.addressOf(sourceNodeId);
+                const messageReceptionState =
+                    this.#groupPeerReceptionStates.get(peerAddress) ?? new MessageReceptionStateEncryptedWithRollover();
+                const session = new GroupSession({
+                    manager: this,
+                    fabric,
+                    groupId,
+                    operationalKey,
+                    peerNodeId: sourceNodeId,
+                    messageCounter: this.#groupDataMessageCounter,
+                    messageReceptionState,
+                });
+
+                let message: DecodedMessage;
+                try {
+                    message = session.decode(packet, aad);
+                } catch (error) {
+                    logger.debug(`Group message for group ${groupId} does not authenticate with key candidate`, error);
+                    continue;
+                }
+
+                // Group peer message counters are tracked with the trust-first policy per fabric and source node
+                this.#groupPeerReceptionStates.set(peerAddress, messageReceptionState);
 
-        // TODO
-        throw new Error(`Not implemented ${groupId} ${groupSessionId}`);
+                return { session, message };
+            }
+        }
+    }
+
+    /**
+     * Create a group session to send groupcast messages to a group of a fabric.  The current operational group key of
+     * the group key set mapped to the group is used.
+     */
+    groupSessionFor(fabric: Fabric, groupId: GroupId) {
+        this.#construction.assert();
+
+        const operationalKey = fabric.groups.currentOperationalKeyFor(groupId);
+        if (operationalKey === undefined) {
+            throw new MatterFlowError(`No group key set mapped to group ${groupId} on fabric ${fabric.fabricIndex}.`);
+        }
+
+        return new GroupSession({
+            manager: this,
+            fabric,
+            groupId,
+            operationalKey,
+            peerNodeId: NodeId.fromGroupNodeId(groupId),
+            messageCounter: this.#groupDataMessageCounter,
+            messageReceptionState: new MessageReceptionStateEncryptedWithRollover(),
+        });
+    }
+
+    get #groupDataMessageCounter() {
+        if (this.#globalGroupDataMessageCounter === undefined) {
+            throw new MatterFlowError("Group message counter not initialized.");
+        }
+        return this.#globalGroupDataMessageCounter;
     }
 
     findResumptionRecordById(resumptionId: Uint8Array) {
@@ -450,6 +529,13 @@ export class SessionManager {
     async #initialize() {
         await this.#context.fabrics.construction;
 
+        // The global group data message counter may roll over but needs to be persisted
+        this.#globalGroupDataMessageCounter = await PersistedMessageCounter.create(
+            this.#context.storage,
+            "groupDataMessageCounter",
+            () => logger.info("Global group data message counter is about to roll over."),
+        );
+
         const storedResumptionRecords = await this.#context.storage.get<ResumptionStorageRecord[]>(
             "resumptionRecords",
             [],
@@ -546,6 +632,7 @@ export class SessionManager {
         await this.close();
         await this.#context.storage.clear();
         this.#resumptionRecords.clear();
+        this.#groupPeerReceptionStates.clear();
     }
 
     updateAllSubscriptions() {
@@ -181,7 +181,11 @@ export class CaseClient {
                     );
                 }
             }
-            fabric.verifyCredentials(peerNewOpCert, peerIntermediateCACert);
+            fabric.verifyCredentials(
+                peerNewOpCert,
+                peerIntermediateCACert,
+                this.#sessions.context.fabrics.lastKnownGoodTime,
+            );
 
             // Generate and send sigma3
             const sigma3Salt = Bytes.concat(operationalIdentityProtectionKey, Crypto.hash([sigma1Bytes, sigma2Bytes]));
@@ -197,7 +197,7 @@ export class CaseServer implements ProtocolHandler {
                 signature: peerSignature,
             } = TlvEncryptedDataSigma3.decode(peerDecryptedData);
 
-            fabric.verifyCredentials(peerNewOpCert, peerIntermediateCACert);
+            fabric.verifyCredentials(peerNewOpCert, peerIntermediateCACert, this.#fabrics.lastKnownGoodTime);
 
             const peerSignatureData = TlvSignedData.encode({
                 nodeOpCert: peerNewOpCert,
@@ -10,6 +10,7 @@ export * from "./case/CaseClient.js";
 export * from "./case/CaseMessages.js";
 export * from "./case/CaseMessenger.js";
 export * from "./case/CaseServer.js";
+export * from "./GroupSession.js";
 // Export PaseSession classes
 export * from "./InsecureSession.js";
 export * from "./pase/PaseClient.js";
@@ -0,0 +1,604 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BdxClient } from "#bdx/BdxClient.js";
+import {
+    BdxBlockMessage,
+    BdxBlockQueryWithSkipMessage,
+    BdxCounterMessage,
+    BdxInitMessage,
+    BdxReceiveAcceptMessage,
+    BdxSendAcceptMessage,
+} from "#bdx/BdxMessages.js";
+import { BdxError } from "#bdx/BdxMessenger.js";
+import { BdxProtocol } from "#bdx/BdxProtocol.js";
+import { BdxUri } from "#bdx/BdxUri.js";
+import { Message } from "#codec/MessageCodec.js";
+import { Bytes } from "#general";
+import { MessageExchange } from "#protocol/MessageExchange.js";
+import { SecureChannelProtocol } from "#securechannel/SecureChannelProtocol.js";
+import { BDX_PROTOCOL_ID, BdxMessageType, NodeId, SECURE_CHANNEL_PROTOCOL_ID } from "#types";
+
+type Responder = (messageType: number, payload: Uint8Array) => { messageType: number; payload: Uint8Array }[];
+
+/**
+ * Exchange with a scripted peer that answers each message we send.
+ */
+class ScriptedExchange {
+    readonly sent = new Array<{ messageType: number; payload: Uint8Array }>();
+    readonly #queue = new Array<Message>();
+    readonly id = 1;
+    closed = false;
+
+    constructor(readonly respond: Responder) {}
+
+    get maxPayloadSize() {
+        return 1200;
+    }
+
+    async send(messageType: number, payload: Uint8Array) {
+        this.sent.push({ messageType, payload });
+        for (const response of this.respond(messageType, payload)) {
+            this.#queue.push({
+                payloadHeader: {
+                    protocolId: BDX_PROTOCOL_ID,
+                    messageType: response.messageType,
+                },
+                payload: response.payload,
+            } as Message);
+        }
+    }
+
+    async onMessageReceived(message: Message) {
+        this.#queue.push(message);
+    }
+
+    async nextMessage() {
+        const message = this.#queue.shift();
+        if (message === undefined) {
+            throw new Error("No message from peer");
+        }
+        return message;
+    }
+
+    async close() {
+        this.closed = true;
+    }
+}
+
+function senderFor(data: Uint8Array, blockSize: number, announceLength = true): Responder {
+    return (messageType, payload) => {
+        switch (messageType) {
+            case BdxMessageType.ReceiveInit: {
+                const init = BdxInitMessage.decode(payload);
+                expect(init.fileDesignator).deep.equals(Bytes.fromString("image.ota"));
+                return [
+                    {
+                        messageType: BdxMessageType.ReceiveAccept,
+                        payload: BdxReceiveAcceptMessage.encode({
+                            version: 0,
+                            senderDrive: false,
+                            receiverDrive: true,
+                            asynchronous: false,
+                            maxBlockSize: Math.min(blockSize, init.maxBlockSize),
+                            length: announceLength ? data.length : undefined,
+                        }),
+                    },
+                ];
+            }
+
+            case BdxMessageType.BlockQuery: {
+                const { blockCounter } = BdxCounterMessage.decode(payload);
+                const start = blockCounter * blockSize;
+                const isEof = start + blockSize >= data.length;
+                return [
+                    {
+                        messageType: isEof ? BdxMessageType.BlockEof : BdxMessageType.Block,
+                        payload: BdxBlockMessage.encode({
+                            blockCounter,
+                            data: data.subarray(start, start + blockSize),
+                        }),
+                    },
+                ];
+            }
+        }
+        return [];
+    };
+}
+
+/**
+ * Deliver the initial message of a transfer like the exchange manager does.
+ */
+async function initiate(protocol: BdxProtocol, exchange: ScriptedExchange, message: Message) {
+    await exchange.onMessageReceived(message);
+    await protocol.onNewExchange(exchange as unknown as MessageExchange, message);
+}
+
+async function receiveAll(exchange: ScriptedExchange) {
+    const receiver = await new BdxClient(exchange as unknown as MessageExchange).receive({
+        fileDesignator: "image.ota",
+    });
+    const chunks = new Array<Uint8Array>();
+    for await (const chunk of receiver) {
+        chunks.push(chunk);
+    }
+    return { receiver, data: Bytes.concat(...chunks) };
+}
+
+const DATA = Uint8Array.from({ length: 2500 }, (_, i) => i & 0xff);
+
+describe("BDX", () => {
+    describe("messages", () => {
+        it("encodes and decodes init with range and metadata", () => {
+            const message = {
+                version: 0,
+                senderDrive: true,
+                receiverDrive: true,
+                asynchronous: false,
+                maxBlockSize: 1024,
+                startOffset: 0x1_0000_0000,
+                maxLength: 100,
+                fileDesignator: Bytes.fromString("file"),
+                metadata: Bytes.fromHex("1518"),
+            };
+
+            expect(BdxInitMessage.decode(BdxInitMessage.encode(message))).deep.equals(message);
+        });
+
+        it("encodes block query with skip", () => {
+            const encoded = BdxBlockQueryWithSkipMessage.encode({ blockCounter: 2, bytesToSkip: 0x1_0000_0001 });
+
+            expect(Bytes.toHex(encoded)).equals("020000000100000001000000");
+            expect(BdxBlockQueryWithSkipMessage.decode(encoded)).deep.equals({
+                blockCounter: 2,
+                bytesToSkip: 0x1_0000_0001,
+            });
+        });
+
+        it("encodes block messages", () => {
+            const encoded = BdxBlockMessage.encode({ blockCounter: 1, data: Bytes.fromHex("abcd") });
+
+            expect(Bytes.toHex(encoded)).equals("01000000abcd");
+            expect(BdxBlockMessage.decode(encoded)).deep.equals({ blockCounter: 1, data: Bytes.fromHex("abcd") });
+        });
+    });
+
+    describe("receive", () => {
+        it("receives data in blocks", async () => {
+            const exchange = new ScriptedExchange(senderFor(DATA, 1000));
+
+            const { receiver, data } = await receiveAll(exchange);
+
+            expect(data).deep.equals(DATA);
+            expect(receiver.length).equals(DATA.length);
+            expect(receiver.bytesReceived).equals(DATA.length);
+            expect(exchange.sent.map(({ messageType }) => messageType)).deep.equals([
+                BdxMessageType.ReceiveInit,
+                BdxMessageType.BlockQuery,
+                BdxMessageType.BlockQuery,
+                BdxMessageType.BlockQuery,
+                BdxMessageType.BlockAckEof,
+            ]);
+            expect(exchange.closed).true;
+        });
+
+        it("receives data of unknown length", async () => {
+            const { data } = await receiveAll(new ScriptedExchange(senderFor(DATA, 500, false)));
+
+            expect(data).deep.equals(DATA);
+        });
+
+        it("receives data driven by sender", async () => {
+            const blocks = new Array<Uint8Array>();
+            for (let start = 0; start < DATA.length; start += 1000) {
+                blocks.push(DATA.subarray(start, start + 1000));
+            }
+            const exchange = new ScriptedExchange(messageType => {
+                switch (messageType) {
+                    case BdxMessageType.ReceiveInit:
+                        return [
+                            {
+                                messageType: BdxMessageType.ReceiveAccept,
+                                payload: BdxReceiveAcceptMessage.encode({
+                                    version: 0,
+                                    senderDrive: true,
+                                    receiverDrive: false,
+                                    asynchronous: true,
+                                    maxBlockSize: 1000,
+                                    length: DATA.length,
+                                }),
+                            },
+                            ...blocks.map((data, blockCounter) => ({
+                                messageType:
+                                    blockCounter === blocks.length - 1 ? BdxMessageType.BlockEof : BdxMessageType.Block,
+                                payload: BdxBlockMessage.encode({ blockCounter, data }),
+                            })),
+                        ];
+                }
+                return [];
+            });
+
+            const receiver = await new BdxClient(exchange as unknown as MessageExchange).receive({
+                fileDesignator: "image.ota",
+                senderDrive: true,
+                asynchronous: true,
+            });
+            const chunks = new Array<Uint8Array>();
+            for await (const chunk of receiver) {
+                chunks.push(chunk);
+            }
+
+            expect(Bytes.concat(...chunks)).deep.equals(DATA);
+            expect(receiver.parameters.asynchronous).true;
+            expect(exchange.sent.map(({ messageType }) => messageType)).deep.equals([
+                BdxMessageType.ReceiveInit,
+                BdxMessageType.BlockAckEof,
+            ]);
+        });
+
+        it("skips data", async () => {
+            const sender = senderFor(DATA, 1000);
+            let position = 0;
+            const exchange = new ScriptedExchange((messageType, payload) => {
+                switch (messageType) {
+                    case BdxMessageType.BlockQuery:
+                    case BdxMessageType.BlockQueryWithSkip: {
+                        const { blockCounter, bytesToSkip } =
+                            messageType === BdxMessageType.BlockQueryWithSkip
+                                ? BdxBlockQueryWithSkipMessage.decode(payload)
+                                : { ...BdxCounterMessage.decode(payload), bytesToSkip: 0 };
+                        position += bytesToSkip;
+                        const data = DATA.subarray(position, position + 1000);
+                        position += data.length;
+                        return [
+                            {
+                                messageType: position === DATA.length ? BdxMessageType.BlockEof : BdxMessageType.Block,
+                                payload: BdxBlockMessage.encode({ blockCounter, data }),
+                            },
+                        ];
+                    }
+                }
+                return sender(messageType, payload);
+            });
+
+            const receiver = await new BdxClient(exchange as unknown as MessageExchange).receive({
+                fileDesignator: "image.ota",
+            });
+            const chunks = new Array<Uint8Array>();
+            for await (const chunk of receiver) {
+                chunks.push(chunk);
+                if (chunks.length === 1) {
+                    receiver.skip(1000);
+                }
+            }
+
+            expect(Bytes.concat(...chunks)).deep.equals(Bytes.concat(DATA.subarray(0, 1000), DATA.subarray(2000)));
+            expect(receiver.bytesReceived).equals(1500);
+            expect(receiver.bytesSkipped).equals(1000);
+        });
+
+        it("rejects a wrong block counter", async () => {
+            const sender = senderFor(DATA, 1000);
+            const exchange = new ScriptedExchange((messageType, payload) => {
+                if (messageType === BdxMessageType.BlockQuery) {
+                    return [
+                        {
+                            messageType: BdxMessageType.Block,
+                            payload: BdxBlockMessage.encode({ blockCounter: 5, data: DATA.subarray(0, 10) }),
+                        },
+                    ];
+                }
+                return sender(messageType, payload);
+            });
+
+            await expect(receiveAll(exchange)).rejectedWith(BdxError, "(BadBlockCounter)");
+
+            const report = exchange.sent[exchange.sent.length - 1];
+            expect(SecureChannelProtocol.isStatusReport(SECURE_CHANNEL_PROTOCOL_ID, report.messageType)).true;
+            expect(exchange.closed).true;
+        });
+
+        it("rejects a length mismatch", async () => {
+            const sender = senderFor(DATA, 1000);
+            const exchange = new ScriptedExchange((messageType, payload) => {
+                if (messageType === BdxMessageType.ReceiveInit) {
+                    const [accept] = sender(messageType, payload);
+                    return [
+                        {
+                            messageType: accept.messageType,
+                            payload: BdxReceiveAcceptMessage.encode({
+                                ...BdxReceiveAcceptMessage.decode(accept.payload),
+                                length: 100,
+                            }),
+                        },
+                    ];
+                }
+                return sender(messageType, payload);
+            });
+
+            await expect(receiveAll(exchange)).rejectedWith(BdxError, "(LengthMismatch)");
+        });
+    });
+
+    describe("serve", () => {
+        /**
+         * Run a transfer of the protocol with a scripted receiver.
+         */
+        async function serve(
+            protocol: BdxProtocol,
+            fileDesignator: string,
+            range?: { startOffset?: number; maxLength?: number },
+        ) {
+            const blocks = new Array<Uint8Array>();
+            const exchange = new ScriptedExchange((messageType, payload) => {
+                switch (messageType) {
+                    case BdxMessageType.ReceiveAccept:
+                        return [
+                            {
+                                messageType: BdxMessageType.BlockQuery,
+                                payload: BdxCounterMessage.encode({ blockCounter: 0 }),
+                            },
+                        ];
+
+                    case BdxMessageType.Block:
+                    case BdxMessageType.BlockEof: {
+                        const { blockCounter, data } = BdxBlockMessage.decode(payload);
+                        blocks.push(data);
+                        const isEof = messageType === BdxMessageType.BlockEof;
+                        return [
+                            {
+                                messageType: isEof ? BdxMessageType.BlockAckEof : BdxMessageType.BlockQuery,
+                                payload: BdxCounterMessage.encode({
+                                    blockCounter: isEof ? blockCounter : blockCounter + 1,
+                                }),
+                            },
+                        ];
+                    }
+                }
+                return [];
+            });
+
+            await initiate(protocol, exchange, {
+                payloadHeader: { protocolId: BDX_PROTOCOL_ID, messageType: BdxMessageType.ReceiveInit },
+                payload: BdxInitMessage.encode({
+                    version: 0,
+                    senderDrive: false,
+                    receiverDrive: true,
+                    asynchronous: false,
+                    maxBlockSize: 1000,
+                    ...range,
+                    fileDesignator: Bytes.fromString(fileDesignator),
+                }),
+            } as Message);
+
+            return { exchange, blocks };
+        }
+
+        it("sends file of a source", async () => {
+            const protocol = new BdxProtocol();
+            protocol.addSource({
+                read: fileDesignator =>
+                    Bytes.areEqual(fileDesignator, Bytes.fromString("image.ota")) ? DATA : undefined,
+            });
+
+            const { exchange, blocks } = await serve(protocol, "image.ota");
+
+            expect(blocks.map(block => block.length)).deep.equals([1000, 1000, 500]);
+            expect(Bytes.concat(...blocks)).deep.equals(DATA);
+            const accept = BdxReceiveAcceptMessage.decode(exchange.sent[0].payload);
+            expect(accept.length).equals(DATA.length);
+            expect(accept.maxBlockSize).equals(1000);
+            expect(exchange.closed).true;
+        });
+
+        it("rejects unknown file", async () => {
+            const { exchange, blocks } = await serve(new BdxProtocol(), "image.ota");
+
+            expect(blocks).deep.equals([]);
+            expect(exchange.sent.length).equals(1);
+            expect(SecureChannelProtocol.isStatusReport(SECURE_CHANNEL_PROTOCOL_ID, exchange.sent[0].messageType)).true;
+            expect(exchange.closed).true;
+        });
+
+        it("sends a range of a file", async () => {
+            const protocol = new BdxProtocol();
+            protocol.addSource({ read: () => DATA });
+
+            const { exchange, blocks } = await serve(protocol, "image.ota", { startOffset: 100, maxLength: 1500 });
+
+            expect(Bytes.concat(...blocks)).deep.equals(DATA.subarray(100, 1600));
+            const accept = BdxReceiveAcceptMessage.decode(exchange.sent[0].payload);
+            expect(accept.startOffset).equals(100);
+            expect(accept.length).equals(1500);
+        });
+
+        it("sends a range of streamed data", async () => {
+            const protocol = new BdxProtocol();
+            protocol.addSource({ read: () => [DATA.subarray(0, 700), DATA.subarray(700)] });
+
+            const { blocks } = await serve(protocol, "image.ota", { startOffset: 1000, maxLength: 1200 });
+
+            expect(Bytes.concat(...blocks)).deep.equals(DATA.subarray(1000, 2200));
+        });
+
+        it("receives file into a sink", async () => {
+            const protocol = new BdxProtocol({ maxBlockSize: 800 });
+            const received = new Array<Uint8Array>();
+            protocol.addSink({
+                write: fileDesignator =>
+                    Bytes.areEqual(fileDesignator, Bytes.fromString("log.txt"))
+                        ? async receiver => {
+                              for await (const chunk of receiver) {
+                                  received.push(chunk);
+                              }
+                          }
+                        : undefined,
+            });
+
+            let blockCounter = 0;
+            const exchange = new ScriptedExchange((messageType, payload) => {
+                if (messageType === BdxMessageType.SendAccept) {
+                    const accept = BdxSendAcceptMessage.decode(payload);
+                    expect(accept.senderDrive).true;
+                    expect(accept.maxBlockSize).equals(800);
+                }
+                if (messageType === BdxMessageType.BlockAckEof) {
+                    return [];
+                }
+                const start = blockCounter * 800;
+                const isEof = start + 800 >= DATA.length;
+                return [
+                    {
+                        messageType: isEof ? BdxMessageType.BlockEof : BdxMessageType.Block,
+                        payload: BdxBlockMessage.encode({
+                            blockCounter: blockCounter++,
+                            data: DATA.subarray(start, start + 800),
+                        }),
+                    },
+                ];
+            });
+
+            await initiate(protocol, exchange, {
+                payloadHeader: { protocolId: BDX_PROTOCOL_ID, messageType: BdxMessageType.SendInit },
+                payload: BdxInitMessage.encode({
+                    version: 0,
+                    senderDrive: true,
+                    receiverDrive: false,
+                    asynchronous: false,
+                    maxBlockSize: 1000,
+                    maxLength: DATA.length,
+                    fileDesignator: Bytes.fromString("log.txt"),
+                }),
+            } as Message);
+
+            expect(Bytes.concat(...received)).deep.equals(DATA);
+            expect(exchange.sent.map(({ messageType }) => messageType)).deep.equals([
+                BdxMessageType.SendAccept,
+                BdxMessageType.BlockAck,
+                BdxMessageType.BlockAck,
+                BdxMessageType.BlockAck,
+                BdxMessageType.BlockAckEof,
+            ]);
+            expect(exchange.closed).true;
+        });
+    });
+
+    describe("send", () => {
+        /**
+         * A scripted receiver that accepts the proposed mode.
+         */
+        function receiverFor(blocks: Uint8Array[], async = false): Responder {
+            return (messageType, payload) => {
+                switch (messageType) {
+                    case BdxMessageType.SendInit: {
+                        const init = BdxInitMessage.decode(payload);
+                        expect(init.maxLength).equals(DATA.length);
+                        return [
+                            {
+                                messageType: BdxMessageType.SendAccept,
+                                payload: BdxSendAcceptMessage.encode({
+                                    version: 0,
+                                    senderDrive: true,
+                                    receiverDrive: false,
+                                    asynchronous: async,
+                                    maxBlockSize: 1000,
+                                }),
+                            },
+                        ];
+                    }
+
+                    case BdxMessageType.Block:
+                    case BdxMessageType.BlockEof: {
+                        const { blockCounter, data } = BdxBlockMessage.decode(payload);
+                        blocks.push(data);
+                        if (messageType === BdxMessageType.BlockEof) {
+                            return [
+                                {
+                                    messageType: BdxMessageType.BlockAckEof,
+                                    payload: BdxCounterMessage.encode({ blockCounter }),
+                                },
+                            ];
+                        }
+                        if (async) {
+                            return [];
+                        }
+                        return [
+                            {
+                                messageType: BdxMessageType.BlockAck,
+                                payload: BdxCounterMessage.encode({ blockCounter }),
+                            },
+                        ];
+                    }
+                }
+                return [];
+            };
+        }
+
+        it("sends data synchronously", async () => {
+            const blocks = new Array<Uint8Array>();
+            const exchange = new ScriptedExchange(receiverFor(blocks));
+
+            await new BdxClient(exchange as unknown as MessageExchange).send({ fileDesignator: "log.txt" }, DATA);
+
+            expect(blocks.map(block => block.length)).deep.equals([1000, 1000, 500]);
+            expect(Bytes.concat(...blocks)).deep.equals(DATA);
+            expect(exchange.closed).true;
+        });
+
+        it("sends streamed data asynchronously", async () => {
+            const blocks = new Array<Uint8Array>();
+            const exchange = new ScriptedExchange(receiverFor(blocks, true));
+
+            async function* chunks() {
+                for (let start = 0; start < DATA.length; start += 300) {
+                    yield DATA.subarray(start, start + 300);
+                }
+            }
+
+            await new BdxClient(exchange as unknown as MessageExchange).send(
+                { fileDesignator: "log.txt", asynchronous: true, length: DATA.length },
+                chunks(),
+            );
+
+            expect(blocks.map(block => block.length)).deep.equals([1000, 1000, 500]);
+            expect(Bytes.concat(...blocks)).deep.equals(DATA);
+            expect(exchange.sent[exchange.sent.length - 1].messageType).equals(BdxMessageType.BlockEof);
+        });
+
+        it("rejects a mode we did not propose", async () => {
+            const exchange = new ScriptedExchange(() => [
+                {
+                    messageType: BdxMessageType.SendAccept,
+                    payload: BdxSendAcceptMessage.encode({
+                        version: 0,
+                        senderDrive: false,
+                        receiverDrive: true,
+                        asynchronous: false,
+                        maxBlockSize: 1000,
+                    }),
+                },
+            ]);
+
+            await expect(
+                new BdxClient(exchange as unknown as MessageExchange).send({ fileDesignator: "log.txt" }, DATA),
+            ).rejectedWith(BdxError, "(TransferMethodNotSupported)");
+            expect(exchange.closed).true;
+        });
+    });
+
+    describe("uri", () => {
+        it("creates and parses", () => {
+            const uri = BdxUri.create(NodeId(0x1234n), "image.ota");
+
+            expect(uri).equals("bdx://0000000000001234/image.ota");
+            expect(BdxUri.parse(uri)).deep.equals({ nodeId: NodeId(0x1234n), fileDesignator: "image.ota" });
+        });
+
+        it("rejects invalid uri", () => {
+            expect(() => BdxUri.parse("bdx://1234/image.ota")).throws("Invalid BDX URI");
+        });
+    });
+});
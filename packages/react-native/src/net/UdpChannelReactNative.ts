@@ -50,6 +50,7 @@ interface Socket {
     setBroadcast(flag: boolean): void;
     setMulticastInterface(interfaceAddress: string): void;
     addMembership(multicastAddress: string, multicastInterface?: string): void;
+    dropMembership(multicastAddress: string, multicastInterface?: string): void;
     on(event: "message", listener: (msg: Uint8Array, rinfo: RemoteInfo) => void): void;
     on(event: "error", listener: (error: Error) => void): void;
     removeListener(event: "message", listener: (msg: Uint8Array, rinfo: RemoteInfo) => void): void;
@@ -128,26 +129,11 @@ export class UdpChannelReactNative implements UdpChannel {
             );
             socket.setMulticastInterface(multicastInterface);
         }
-        if (membershipAddresses !== undefined) {
-            const multicastInterfaces = await NetworkReactNative.getMembershipMulticastInterfaces(
-                netInterface,
-                type === "udp4",
-            );
-            for (const address of membershipAddresses) {
-                for (const multicastInterface of multicastInterfaces) {
-                    try {
-                        socket.addMembership(address, multicastInterface);
-                    } catch (error) {
-                        logger.warn(
-                            `Error adding membership for address ${address}${
-                                multicastInterface ? ` with interface ${multicastInterface}` : ""
-                            }: ${error}`,
-                        );
-                    }
-                }
-            }
+        const channel = new UdpChannelReactNative(type, socket, netInterfaceZone, netInterface);
+        for (const address of membershipAddresses ?? []) {
+            await channel.addMembership(address);
         }
-        return new UdpChannelReactNative(type, socket, netInterfaceZone);
+        return channel;
     }
 
     readonly maxPayloadSize = MAX_UDP_MESSAGE_SIZE;
@@ -156,6 +142,7 @@ export class UdpChannelReactNative implements UdpChannel {
         private readonly type: "udp4" | "udp6",
         private readonly socket: Socket,
         private readonly netInterface?: string,
+        private readonly membershipNetInterface?: string,
     ) {}
 
     onData(listener: (netInterface: string, peerAddress: string, peerPort: number, data: Uint8Array) => void) {
@@ -189,6 +176,38 @@ export class UdpChannelReactNative implements UdpChannel {
         });
     }
 
+    async addMembership(address: string) {
+        for (const multicastInterface of await this.#membershipMulticastInterfaces()) {
+            try {
+                this.socket.addMembership(address, multicastInterface);
+            } catch (error) {
+                logger.warn(
+                    `Error adding membership for address ${address}${
+                        multicastInterface ? ` with interface ${multicastInterface}` : ""
+                    }: ${error}`,
+                );
+            }
+        }
+    }
+
+    async dropMembership(address: string) {
+        for (const multicastInterface of await this.#membershipMulticastInterfaces()) {
+            try {
+                this.socket.dropMembership(address, multicastInterface);
+            } catch (error) {
+                logger.warn(
+                    `Error dropping membership for address ${address}${
+                        multicastInterface ? ` with interface ${multicastInterface}` : ""
+                    }: ${error}`,
+                );
+            }
+        }
+    }
+
+    #membershipMulticastInterfaces() {
+        return NetworkReactNative.getMembershipMulticastInterfaces(this.membershipNetInterface, this.type === "udp4");
+    }
+
     async close() {
         try {
             this.socket.close();
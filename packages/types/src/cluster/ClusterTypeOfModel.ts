@@ -0,0 +1,339 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { camelize, ImplementationError } from "#general";
+import {
+    Access,
+    AccessLevel,
+    AttributeModel,
+    ClusterModel,
+    ClusterVariance,
+    CommandModel,
+    conditionToBitmaps,
+    EventElement,
+    EventModel,
+    FieldModel,
+    Metatype,
+    translateBitmap,
+    ValueModel,
+} from "#model";
+import { AttributeId } from "../datatype/AttributeId.js";
+import { CommandId } from "../datatype/CommandId.js";
+import { EventId } from "../datatype/EventId.js";
+import { TlvFabricIndex } from "../datatype/FabricIndex.js";
+import { BitField, BitFlag, BitSchema } from "../schema/BitmapSchema.js";
+import { TlvAny } from "../tlv/TlvAny.js";
+import { TlvArray } from "../tlv/TlvArray.js";
+import { TlvBoolean } from "../tlv/TlvBoolean.js";
+import { TlvNoArguments } from "../tlv/TlvNoArguments.js";
+import { TlvNullable } from "../tlv/TlvNullable.js";
+import {
+    TlvBitmap,
+    TlvDouble,
+    TlvEnum,
+    TlvFloat,
+    TlvInt16,
+    TlvInt32,
+    TlvInt64,
+    TlvInt8,
+    TlvNumberSchema,
+    TlvNumericSchema,
+    TlvUInt16,
+    TlvUInt24,
+    TlvUInt32,
+    TlvUInt64,
+    TlvUInt8,
+} from "../tlv/TlvNumber.js";
+import { TlvField, TlvFields, TlvObject, TlvOptionalField } from "../tlv/TlvObject.js";
+import { TlvSchema } from "../tlv/TlvSchema.js";
+import { TlvByteString, TlvString } from "../tlv/TlvString.js";
+import { EventPriority, TlvNoResponse } from "./Cluster.js";
+import { ClusterType } from "./ClusterType.js";
+import { ClusterComposer } from "./mutation/ClusterComposer.js";
+
+/**
+ * Create a {@link ClusterType} from a {@link ClusterModel}.
+ *
+ * Generated clusters are the preferred source of {@link ClusterType}s for standard clusters.  This creates an
+ * equivalent definition at runtime, which allows for clusters that are not known at build time such as custom
+ * clusters loaded from XML.
+ *
+ * As with generated clusters, the result includes elements that are unconditionally mandatory or optional.  Elements
+ * that depend on features are installed when you select features with {@link ClusterComposer}.  Features enabled by
+ * default in the model are selected automatically.
+ */
+export function ClusterTypeOfModel(model: ClusterModel): ClusterType {
+    if (model.id === undefined) {
+        throw new ImplementationError(`Cannot create cluster type for ${model.name} because it has no ID`);
+    }
+
+    const variance = ClusterVariance(model);
+
+    const features = {} as BitSchema;
+    for (const feature of model.features) {
+        const bit = feature.constraint.value;
+        if (typeof bit !== "number") {
+            throw new ImplementationError(`Feature ${model.name}.${feature.name} does not define a bit`);
+        }
+        features[camelize(feature.description ?? feature.name)] = BitFlag(bit);
+    }
+
+    const extensions = Array<ClusterType.Extension<BitSchema>>();
+    for (const component of variance.components) {
+        const bitmaps = component.condition ? conditionToBitmaps(component.condition, model) : [{}];
+        for (const flags of bitmaps) {
+            extensions.push({ flags, component: elementsOf(component.mandatory, component.optional) });
+        }
+    }
+    for (const illegal of variance.illegal) {
+        extensions.push({ flags: translateBitmap(illegal, model), component: false });
+    }
+
+    const cluster = ClusterType({
+        id: model.id,
+        name: model.name,
+        revision: model.revision,
+        features,
+        ...elementsOf(variance.base.mandatory, variance.base.optional),
+        extensions: extensions.length ? extensions : undefined,
+    });
+
+    const supportedFeatures = model.features
+        .filter(feature => feature.default)
+        .map(feature => camelize(feature.description ?? feature.name, true)) as ClusterComposer.FeatureSelection<
+        typeof cluster
+    >;
+
+    if (!supportedFeatures.length) {
+        return cluster;
+    }
+
+    return new ClusterComposer(cluster).compose(supportedFeatures);
+}
+
+function elementsOf(mandatory: ValueModel[], optional: ValueModel[]) {
+    const attributes = {} as Record<string, ClusterType.Attribute>;
+    const commands = {} as Record<string, ClusterType.Command>;
+    const events = {} as Record<string, ClusterType.Event>;
+
+    const add = (model: ValueModel, isOptional: boolean) => {
+        if (model.isDeprecated) {
+            return;
+        }
+
+        const name = camelize(model.name);
+
+        if (model instanceof AttributeModel) {
+            if (!AttributeModel.isGlobal(model)) {
+                attributes[name] = attributeOf(model, isOptional);
+            }
+        } else if (model instanceof CommandModel) {
+            if (model.isRequest) {
+                commands[name] = commandOf(model, isOptional);
+            }
+        } else if (model instanceof EventModel) {
+            events[name] = eventOf(model, isOptional);
+        }
+    };
+
+    mandatory.forEach(model => add(model, false));
+    optional.forEach(model => add(model, true));
+
+    return { attributes, commands, events };
+}
+
+function attributeOf(model: AttributeModel, optional: boolean): ClusterType.Attribute {
+    const access = model.effectiveAccess;
+    const quality = model.effectiveQuality;
+
+    return {
+        id: AttributeId(model.id),
+        schema: tlvOf(model),
+        optional,
+        readAcl: accessLevelOf(access.readPriv, AccessLevel.View),
+        writable: access.writable,
+        writeAcl: access.writable ? accessLevelOf(access.writePriv, AccessLevel.Operate) : undefined,
+        scene: !!quality.scene,
+        persistent: !!quality.nonvolatile,
+        timed: !!access.timed,
+        fixed: !!quality.fixed,
+        fabricScoped: access.fabricScoped,
+        omitChanges: !!quality.changesOmitted,
+        isConditional: false,
+        optionalIf: [],
+        mandatoryIf: [],
+        unknown: false,
+    };
+}
+
+function commandOf(model: CommandModel, optional: boolean): ClusterType.Command {
+    const access = model.effectiveAccess;
+
+    // As with generated clusters, "status" responses map to TlvNoResponse
+    const response = model.responseModel;
+
+    return {
+        optional,
+        requestId: CommandId(model.id),
+        requestSchema: model.children.length ? tlvOf(model) : TlvNoArguments,
+        responseId: CommandId(response?.id ?? model.id),
+        responseSchema: response ? tlvOf(response) : TlvNoResponse,
+        invokeAcl: accessLevelOf(access.writePriv, AccessLevel.Operate),
+        timed: !!access.timed,
+        isConditional: false,
+        optionalIf: [],
+        mandatoryIf: [],
+    };
+}
+
+function eventOf(model: EventModel, optional: boolean): ClusterType.Event {
+    return {
+        id: EventId(model.id),
+        schema: tlvOf(model),
+        priority: EventPriority[camelize(model.priority ?? EventElement.Priority.Debug, true) as "Debug"],
+        optional,
+        readAcl: accessLevelOf(model.effectiveAccess.readPriv, AccessLevel.View),
+        isConditional: false,
+        optionalIf: [],
+        mandatoryIf: [],
+        unknown: false,
+    };
+}
+
+function accessLevelOf(privilege: Access.Privilege | undefined, fallback: AccessLevel) {
+    if (privilege === undefined) {
+        return fallback;
+    }
+    return Access.PrivilegeLevel[privilege];
+}
+
+/**
+ * Create a TLV schema for a value.  This is the runtime equivalent of the TLV code generator.
+ */
+function tlvOf(model: ValueModel): TlvSchema<any> {
+    const tlv = valueTlvOf(model);
+    if (model.nullable) {
+        return TlvNullable(tlv);
+    }
+    return tlv;
+}
+
+function valueTlvOf(model: ValueModel): TlvSchema<any> {
+    const metabase = model.metabase;
+    const constraint = model.effectiveConstraint;
+    const min = typeof constraint.min === "number" ? constraint.min : undefined;
+    const max = typeof constraint.max === "number" ? constraint.max : undefined;
+
+    switch (metabase?.metatype) {
+        case Metatype.boolean:
+            return TlvBoolean;
+
+        case Metatype.float:
+            return (metabase.name === "single" ? TlvFloat : TlvDouble).bound({ min, max });
+
+        case Metatype.integer:
+            if (isFabricIndex(model)) {
+                return TlvFabricIndex;
+            }
+            return (integerTlvOf(metabase) as TlvNumericSchema<number>).bound({ min, max });
+
+        case Metatype.bytes:
+            return TlvByteString.bound({ minLength: min, maxLength: max });
+
+        case Metatype.string:
+            return TlvString.bound({ minLength: min, maxLength: max });
+
+        case Metatype.array: {
+            const entry = model.listEntry;
+            if (entry === undefined) {
+                throw new ImplementationError(`List ${model.path} does not define an entry type`);
+            }
+            return TlvArray(tlvOf(entry), { minLength: min, maxLength: max });
+        }
+
+        case Metatype.bitmap:
+            return bitmapTlvOf(model);
+
+        case Metatype.enum:
+            return TlvEnum<number>();
+
+        case Metatype.object:
+            return objectTlvOf(model);
+
+        default:
+            return TlvAny;
+    }
+}
+
+function isFabricIndex(model: ValueModel) {
+    for (let base: ValueModel | undefined = model; base; base = base.base) {
+        if (base.name === "fabric-idx") {
+            return true;
+        }
+    }
+    return false;
+}
+
+function integerTlvOf(primitive: ValueModel) {
+    const byteSize = primitive.byteSize ?? 8;
+    if (primitive.name.startsWith("u")) {
+        if (byteSize <= 1) return TlvUInt8;
+        if (byteSize <= 2) return TlvUInt16;
+        if (byteSize <= 3) return TlvUInt24;
+        if (byteSize <= 4) return TlvUInt32;
+        return TlvUInt64;
+    }
+    if (byteSize <= 1) return TlvInt8;
+    if (byteSize <= 2) return TlvInt16;
+    if (byteSize <= 4) return TlvInt32;
+    return TlvInt64;
+}
+
+function bitmapTlvOf(model: ValueModel) {
+    const primitive = model.primitiveBase;
+    if (primitive === undefined) {
+        throw new ImplementationError(`No primitive base for bitmap ${model.path}`);
+    }
+    const underlying = integerTlvOf(primitive) as TlvNumberSchema;
+
+    const fields = model.definingModel?.children ?? [];
+    if (!fields.length) {
+        return underlying;
+    }
+
+    const schema = {} as BitSchema;
+    for (const field of fields) {
+        const { value, min, max } = field.constraint;
+        const name = camelize(field.name);
+        if (typeof value === "number") {
+            schema[name] = BitFlag(value);
+        } else if (typeof min === "number" && typeof max === "number") {
+            schema[name] = BitField(min, max - min);
+        }
+    }
+
+    return TlvBitmap(underlying, schema);
+}
+
+function objectTlvOf(model: ValueModel) {
+    const fields = {} as TlvFields;
+
+    for (const field of (model.definingModel?.children ?? []) as FieldModel[]) {
+        if (field.isDeprecated || field.isDisallowed) {
+            continue;
+        }
+
+        const id = field.effectiveId;
+        if (id === undefined) {
+            throw new ImplementationError(`Field ${field.path} has no ID`);
+        }
+
+        const tlv = tlvOf(field);
+        fields[camelize(field.name)] = field.mandatory ? TlvField(id, tlv) : TlvOptionalField(id, tlv);
+    }
+
+    return TlvObject(fields);
+}
@@ -0,0 +1,15 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Offset between the Unix epoch and the Matter epoch (2000-01-01 00:00:00 UTC) in seconds.
+ *
+ * Matter "epoch-s" and "epoch-us" values count from the Matter epoch.
+ */
+export const MATTER_EPOCH_OFFSET_S = 10957 * 24 * 60 * 60;
+
+/** Offset between the Unix epoch and the Matter epoch in milliseconds. */
+export const MATTER_EPOCH_OFFSET_MS = MATTER_EPOCH_OFFSET_S * 1000;
@@ -8,6 +8,7 @@ import { Branded, Bytes, Crypto, DataWriter, Endian, toBigInt, UnexpectedDataErr
 import { TlvUInt64 } from "../tlv/TlvNumber.js";
 import { TlvWrapper } from "../tlv/TlvWrapper.js";
 import { CaseAuthenticatedTag } from "./CaseAuthenticatedTag.js";
+import { GroupId } from "./GroupId.js";
 
 /**
  * A Node Identifier (Node ID) is a 64-bit number that uniquely identifies an individual Node or a
@@ -66,6 +67,18 @@ export namespace NodeId {
         return NodeId(BigInt("0xFFFFFFFFFFFF" + groupId.toString(16).padStart(4, "0")));
     };
 
+    export const isGroupNodeId = (nodeId: NodeId): boolean => {
+        const nodeIdHex = nodeId.toString(16);
+        return nodeIdHex.startsWith("ffffffffffff") && nodeIdHex.length === 16;
+    };
+
+    export const extractAsGroupId = (nodeId: NodeId): GroupId => {
+        if (!isGroupNodeId(nodeId)) {
+            throw new UnexpectedDataError(`Invalid Group Node ID: ${nodeId}`);
+        }
+        return GroupId(parseInt(nodeId.toString(16).slice(12), 16));
+    };
+
     /**
      * A Temporary Local Node ID is a 64-bit Node ID that contains an implementation-dependent value in its lower
      * 32 bits. This allows implementations to keep track of connections or transport-layer links and similar
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Protocol ID for the Bulk Data Exchange Protocol as per Matter specification.
+ */
+export const BDX_PROTOCOL_ID = 0x0002;
+
+/**
+ * Message types of the Bulk Data Exchange Protocol.
+ */
+export enum BdxMessageType {
+    /** The initiator proposes to send a file to the responder. */
+    SendInit = 0x01,
+
+    /** The responder accepts a SendInit and selects the transfer parameters. */
+    SendAccept = 0x02,
+
+    /** The initiator proposes to receive a file from the responder. */
+    ReceiveInit = 0x04,
+
+    /** The responder accepts a ReceiveInit and selects the transfer parameters. */
+    ReceiveAccept = 0x05,
+
+    /** The receiver requests the next block in a receiver driven transfer. */
+    BlockQuery = 0x10,
+
+    /** A block of data. */
+    Block = 0x11,
+
+    /** The last block of data. */
+    BlockEof = 0x12,
+
+    /** The receiver acknowledges a block. */
+    BlockAck = 0x13,
+
+    /** The receiver acknowledges the last block which concludes the transfer. */
+    BlockAckEof = 0x14,
+
+    /** The receiver requests the next block after skipping ahead in the file. */
+    BlockQueryWithSkip = 0x15,
+}
+
+/**
+ * Protocol specific status codes of BDX status reports.
+ */
+export enum BdxStatusCode {
+    /** The proposed transfer length is too large. */
+    LengthTooLarge = 0x0012,
+
+    /** The proposed transfer length is too short. */
+    LengthTooShort = 0x0013,
+
+    /** The transferred data does not match the announced length. */
+    LengthMismatch = 0x0014,
+
+    /** The responder requires a definite length. */
+    LengthRequired = 0x0015,
+
+    /** A received message was malformed. */
+    BadMessageContents = 0x0020,
+
+    /** A received block counter was not the expected one. */
+    BadBlockCounter = 0x0021,
+
+    /** A received message was not expected in the current state of the transfer. */
+    UnexpectedMessage = 0x0022,
+
+    /** The responder is too busy to handle the transfer. */
+    ResponderBusy = 0x0030,
+
+    /** The transfer failed for another reason. */
+    TransferFailedUnknownError = 0x0050,
+
+    /** None of the proposed transfer modes is supported. */
+    TransferMethodNotSupported = 0x0051,
+
+    /** The file designator is not known. */
+    FileDesignatorUnknown = 0x0052,
+
+    /** The proposed start offset is not supported. */
+    StartOffsetNotSupported = 0x0053,
+
+    /** None of the proposed protocol versions is supported. */
+    VersionNotSupported = 0x0054,
+
+    /** Unknown error. */
+    Unknown = 0x005f,
+}
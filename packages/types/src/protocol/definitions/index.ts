@@ -4,5 +4,6 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from "./bdx.js";
 export * from "./interaction.js";
 export * from "./secure-channel.js";
@@ -4,212 +4,1009 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { NotImplementedError, ReedSolomon, UnexpectedDataError } from "#general";
+import { DataWriter, Endian, ReedSolomon, UnexpectedDataError } from "#general";
 import { Schema } from "./Schema.js";
 
-const QR_MASK = [
-    [0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0, 0],
-    [0, 1, 1, 1, 1, 1, 0, 1, 1, 0, 1, 0, 1, 1, 0, 1, 1, 1, 1, 1, 0],
-    [0, 1, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 0, 0, 1, 0],
-    [0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0, 1, 1, 0, 1, 0, 0, 0, 1, 0],
-    [0, 1, 0, 0, 0, 1, 0, 1, 1, 1, 0, 1, 0, 1, 0, 1, 0, 0, 0, 1, 0],
-    [0, 1, 1, 1, 1, 1, 0, 1, 1, 0, 1, 0, 1, 1, 0, 1, 1, 1, 1, 1, 0],
-    [0, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0, 0],
-    [1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 1, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-    [0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 1, 1, 1, 0, 1, 1],
-    [1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
-    [1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
-    [0, 1, 1, 1, 1, 1, 0, 1, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 1, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
-    [0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 1, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
-    [0, 1, 1, 1, 1, 1, 0, 1, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1],
-    [0, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
+const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/** Default quiet zone in modules as required by ISO/IEC 18004 § 7.3.7 */
+const DEFAULT_MARGIN = 4;
+
+/** Default pixels per module for raster output */
+const DEFAULT_PNG_SCALE = 8;
+
+/** Error correction level properties.  "format" is the value the symbol encodes in its format information. */
+const ERROR_CORRECTION = {
+    L: { index: 0, format: 1 },
+    M: { index: 1, format: 0 },
+    Q: { index: 2, format: 3 },
+    H: { index: 3, format: 2 },
+};
+
+/** Error correction codewords per block by level and version, see ISO/IEC 18004 Table 9 */
+const EC_CODEWORDS_PER_BLOCK = [
+    [
+        7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30,
+        30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    ],
+    [
+        10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28,
+        28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    ],
+    [
+        13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30,
+        30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    ],
+    [
+        17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30,
+        30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    ],
 ];
 
-enum Direction {
-    UP,
-    DOWN,
-}
-
-const BLOCKS = [
-    { x: 19, y: 19, dir: Direction.UP },
-    { x: 19, y: 17, dir: Direction.UP },
-    { x: 19, y: 15, dir: Direction.UP },
-    { x: 19, y: 13, dir: Direction.UP },
-    { x: 19, y: 11, dir: Direction.UP },
-    { x: 19, y: 9, dir: Direction.UP },
-    { x: 17, y: 9, dir: Direction.DOWN },
-    { x: 17, y: 11, dir: Direction.DOWN },
-    { x: 17, y: 13, dir: Direction.DOWN },
-    { x: 17, y: 15, dir: Direction.DOWN },
-    { x: 17, y: 17, dir: Direction.DOWN },
-    { x: 17, y: 19, dir: Direction.DOWN },
-    { x: 15, y: 19, dir: Direction.UP },
-    { x: 15, y: 17, dir: Direction.UP },
-    { x: 15, y: 15, dir: Direction.UP },
-    { x: 15, y: 13, dir: Direction.UP },
-    { x: 15, y: 11, dir: Direction.UP },
-    { x: 15, y: 9, dir: Direction.UP },
-    { x: 13, y: 9, dir: Direction.DOWN },
-    { x: 13, y: 11, dir: Direction.DOWN },
-    { x: 13, y: 13, dir: Direction.DOWN },
-    { x: 13, y: 15, dir: Direction.DOWN },
-    { x: 13, y: 17, dir: Direction.DOWN },
-    { x: 13, y: 19, dir: Direction.DOWN },
-    { x: 11, y: 19, dir: Direction.UP },
-    { x: 11, y: 17, dir: Direction.UP },
-    { x: 11, y: 15, dir: Direction.UP },
-    { x: 11, y: 13, dir: Direction.UP },
-    { x: 11, y: 11, dir: Direction.UP },
-    { x: 11, y: 9, dir: Direction.UP },
-    { x: 11, y: 7, dir: Direction.UP },
-    { x: 11, y: 4, dir: Direction.UP },
-    { x: 11, y: 2, dir: Direction.UP },
-    { x: 11, y: 0, dir: Direction.UP },
-    { x: 9, y: 0, dir: Direction.DOWN },
-    { x: 9, y: 2, dir: Direction.DOWN },
-    { x: 9, y: 4, dir: Direction.DOWN },
-    { x: 9, y: 7, dir: Direction.DOWN },
-    { x: 9, y: 9, dir: Direction.DOWN },
-    { x: 9, y: 11, dir: Direction.DOWN },
-    { x: 9, y: 13, dir: Direction.DOWN },
-    { x: 9, y: 15, dir: Direction.DOWN },
-    { x: 9, y: 17, dir: Direction.DOWN },
-    { x: 9, y: 19, dir: Direction.DOWN },
-    { x: 7, y: 11, dir: Direction.UP },
-    { x: 7, y: 9, dir: Direction.UP },
-    { x: 4, y: 9, dir: Direction.DOWN },
-    { x: 4, y: 11, dir: Direction.DOWN },
-    { x: 2, y: 11, dir: Direction.UP },
-    { x: 2, y: 9, dir: Direction.UP },
-    { x: 0, y: 9, dir: Direction.DOWN },
-    { x: 0, y: 11, dir: Direction.DOWN },
+/** Error correction blocks by level and version, see ISO/IEC 18004 Table 9 */
+const EC_BLOCKS = [
+    [
+        1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19,
+        19, 20, 21, 22, 24, 25,
+    ],
+    [
+        1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31,
+        33, 35, 37, 38, 40, 43, 45, 47, 49,
+    ],
+    [
+        1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43,
+        45, 48, 51, 53, 56, 59, 62, 65, 68,
+    ],
+    [
+        1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48,
+        51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+    ],
 ];
 
-const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+/** Segment modes, see ISO/IEC 18004 Table 2 */
+enum Mode {
+    Terminator = 0b0000,
+    Numeric = 0b0001,
+    Alphanumeric = 0b0010,
+    Byte = 0b0100,
+}
+
+/** Data masks, see ISO/IEC 18004 Table 10 */
+const MASKS = [
+    (x: number, y: number) => (x + y) % 2 === 0,
+    (_x: number, y: number) => y % 2 === 0,
+    (x: number, _y: number) => x % 3 === 0,
+    (x: number, y: number) => (x + y) % 3 === 0,
+    (x: number, y: number) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x: number, y: number) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x: number, y: number) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x: number, y: number) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
 
+/**
+ * Encodes Matter pairing codes as QR codes and decodes them again.
+ *
+ * {@link encode} renders text suitable for a terminal.  {@link encodeSvg} and {@link encodePng} render images for
+ * printing.  The encoder selects the smallest QR version that holds the data so codes with TLV vendor data grow as
+ * necessary.
+ *
+ * {@link decode} reads the text rendering.  {@link decodeMatrix} reads a bitmap of modules such as produced by sampling
+ * a scanned label.
+ */
 export class QrCodeSchema extends Schema<string, string> {
     protected encodeInternal(data: string): string {
-        const bitStringBuilder = new Array<string>();
-        const { length } = data;
-        let bitCount = 0;
-
-        // Mode: Alphanumeric
-        bitStringBuilder.push("0010");
-        bitCount += 4;
-
-        // Length
-        bitStringBuilder.push(length.toString(2).padStart(9, "0"));
-        bitCount += 9;
-
-        let index = 0;
-        while (index < length) {
-            const value = 45 * this.getCode(data[index]) + (index < length - 2 ? this.getCode(data[index + 1]) : 0);
-            bitStringBuilder.push(value.toString(2).padStart(11, "0"));
-            index += 2;
-            bitCount += 11;
-        }
-
-        // Terminator
-        bitStringBuilder.push("0000");
-        bitCount += 4;
-
-        // Bit padding
-        const remainingBits = 8 - (bitCount % 8);
-        if (remainingBits !== 0) {
-            bitStringBuilder.push("".padStart(remainingBits, "0"));
-            bitCount += remainingBits;
-        }
-
-        // Byte padding
-        const remainingBytes = 19 - bitCount / 8;
-        for (let i = 0; i < remainingBytes; i++) {
-            if (i % 2 === 0) {
-                bitStringBuilder.push("11101100");
-            } else {
-                bitStringBuilder.push("00010001");
+        return renderText(this.encodeMatrix(data));
+    }
+
+    protected decodeInternal(encoded: string): string {
+        return this.decodeMatrix(parseText(encoded));
+    }
+
+    /**
+     * Encode to a matrix of modules.  Rows are ordered top to bottom; true indicates a dark module.  The matrix does
+     * not include the quiet zone.
+     */
+    encodeMatrix(data: string, options: QrCodeSchema.Options = {}): boolean[][] {
+        const level = options.errorCorrection ?? "L";
+        if (!(level in ERROR_CORRECTION)) {
+            throw new UnexpectedDataError(`Invalid QR error correction level ${level}`);
+        }
+
+        let codewords: Uint8Array | undefined;
+        let version = options.version ?? MIN_VERSION;
+        if (version < MIN_VERSION || version > MAX_VERSION) {
+            throw new UnexpectedDataError(`Invalid QR version ${version}`);
+        }
+        while (true) {
+            codewords = encodeSegment(data, version, level);
+            if (codewords !== undefined || options.version !== undefined || version === MAX_VERSION) {
+                break;
             }
+            version++;
+        }
+        if (codewords === undefined) {
+            throw new UnexpectedDataError(`Data does not fit in QR version ${version} at error correction ${level}`);
         }
 
-        // Convert to bytes
-        const dataBytes = new Uint8Array(19);
-        for (let i = 0; i < 19; i++) {
-            dataBytes[i] = Number.parseInt(bitStringBuilder.join("").slice(i * 8, i * 8 + 8), 2);
+        const symbol = new QrSymbol(version);
+        symbol.place(addErrorCorrection(codewords, version, level));
+
+        let mask = options.mask ?? 0;
+        if (mask === "auto") {
+            // Choose the mask with the lowest penalty per ISO/IEC 18004 § 7.8.3
+            let penalty = Infinity;
+            let selected = 0;
+            for (let candidate = 0; candidate < MASKS.length; candidate++) {
+                symbol.drawFormat(level, candidate);
+                symbol.applyMask(candidate);
+                const candidatePenalty = symbol.penalty();
+                if (candidatePenalty < penalty) {
+                    penalty = candidatePenalty;
+                    selected = candidate;
+                }
+                symbol.applyMask(candidate);
+            }
+            mask = selected;
+        } else if (!Number.isInteger(mask) || mask < 0 || mask >= MASKS.length) {
+            throw new UnexpectedDataError(`Invalid QR mask ${mask}`);
         }
 
-        // Compute EC
-        const ecBytes = new ReedSolomon().computeErrorCorrection(dataBytes, 7);
+        symbol.drawFormat(level, mask);
+        symbol.applyMask(mask);
+
+        return symbol.modules;
+    }
+
+    /**
+     * Decode a matrix of modules.  True indicates a dark module.  Light rows and columns around the symbol are ignored.
+     */
+    decodeMatrix(matrix: boolean[][]): string {
+        matrix = trimQuietZone(matrix);
 
-        // Add EC bits
-        for (let i = 0; i < 7; i++) {
-            bitStringBuilder.push(ecBytes[i].toString(2).padStart(8, "0"));
+        const size = matrix.length;
+        const version = (size - 17) / 4;
+        if (!Number.isInteger(version) || version < MIN_VERSION || version > MAX_VERSION) {
+            throw new UnexpectedDataError(`Invalid QR code size ${size}`);
+        }
+        for (const row of matrix) {
+            if (row.length !== size) {
+                throw new UnexpectedDataError("QR code is not square");
+            }
         }
 
-        // Copy base QR code
-        const qrCode = <number[][]>[];
-        QR_MASK.forEach((line, index) => (qrCode[index] = [...line]));
+        const symbol = new QrSymbol(version);
+        const { level, mask } = symbol.readFormat(matrix);
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (!symbol.reserved[y][x]) {
+                    symbol.modules[y][x] = matrix[y][x];
+                }
+            }
+        }
+        symbol.applyMask(mask);
 
-        //qrCode.forEach((line, x) => line.forEach((_v, y) => qrCode[x][y] = 1))
+        return decodeSegments(removeErrorCorrection(symbol.read(), version, level), version);
+    }
 
-        // Gererate the bit string
-        const bitString = bitStringBuilder.join("");
+    /**
+     * Encode as an SVG image.
+     */
+    encodeSvg(data: string, options: QrCodeSchema.ImageOptions = {}) {
+        const matrix = this.encodeMatrix(data, options);
+        const margin = options.margin ?? DEFAULT_MARGIN;
+        const dimension = matrix.length + 2 * margin;
+        const pixels = dimension * (options.scale ?? 1);
 
-        // Xor the bits
-        let offset = 0;
-        BLOCKS.forEach(({ x, y, dir }) => {
-            const yStart = dir === Direction.UP ? y + 1 : y;
-            const yEnd = dir === Direction.UP ? y : y + 1;
-            if (bitString[offset] === "1") qrCode[yStart][x + 1] = 1 - qrCode[yStart][x + 1];
-            if (bitString[offset + 1] === "1") qrCode[yStart][x] = 1 - qrCode[yStart][x];
-            if (bitString[offset + 2] === "1") qrCode[yEnd][x + 1] = 1 - qrCode[yEnd][x + 1];
-            if (bitString[offset + 3] === "1") qrCode[yEnd][x] = 1 - qrCode[yEnd][x];
-            offset += 4;
+        // Draw runs of dark modules as single rectangles to keep the path short
+        const path = new Array<string>();
+        matrix.forEach((row, y) => {
+            for (let x = 0; x < row.length; x++) {
+                if (!row[x]) continue;
+                let run = 1;
+                while (row[x + run]) run++;
+                path.push(`M${x + margin} ${y + margin}h${run}v1h-${run}z`);
+                x += run;
+            }
         });
 
-        // Draw QR Code
-        const result = new Array<string>();
-        result.push("▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄▄\n");
-        for (let y = 0; y < 21; y += 2) {
-            result.push("█");
-            for (let x = 0; x < 21; x++) {
-                if (qrCode[y][x] === 0) {
-                    if (y === 20 || qrCode[y + 1][x] === 1) {
-                        result.push("▄");
-                    } else {
-                        result.push(" ");
+        return (
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" ` +
+            `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+            `<rect width="${dimension}" height="${dimension}" fill="#fff"/>` +
+            `<path d="${path.join("")}" fill="#000"/>` +
+            "</svg>\n"
+        );
+    }
+
+    /**
+     * Encode as a black and white PNG image.
+     */
+    encodePng(data: string, options: QrCodeSchema.ImageOptions = {}) {
+        const matrix = this.encodeMatrix(data, options);
+        const margin = options.margin ?? DEFAULT_MARGIN;
+        const scale = options.scale ?? DEFAULT_PNG_SCALE;
+        const width = (matrix.length + 2 * margin) * scale;
+        const rowLength = Math.ceil(width / 8) + 1;
+
+        // One bit per pixel, 1 is white; each row starts with filter type 0
+        const pixels = new Uint8Array(rowLength * width);
+        for (let py = 0; py < width; py++) {
+            const row = matrix[Math.floor(py / scale) - margin];
+            for (let px = 0; px < width; px++) {
+                if (row?.[Math.floor(px / scale) - margin]) continue;
+                pixels[py * rowLength + 1 + (px >> 3)] |= 0x80 >> (px & 7);
+            }
+        }
+
+        const header = new DataWriter(Endian.Big);
+        header.writeUInt32(width);
+        header.writeUInt32(width);
+        header.writeUInt8(1); // Bit depth
+        header.writeUInt8(0); // Grayscale
+        header.writeUInt8(0); // Deflate
+        header.writeUInt8(0); // Adaptive filtering
+        header.writeUInt8(0); // No interlace
+
+        const writer = new DataWriter(Endian.Big);
+        writer.writeByteArray(PNG_SIGNATURE);
+        writePngChunk(writer, "IHDR", header.toByteArray());
+        writePngChunk(writer, "IDAT", zlibStore(pixels));
+        writePngChunk(writer, "IEND", new Uint8Array());
+        return writer.toByteArray();
+    }
+
+    get(code: string): string {
+        return this.encode(code);
+    }
+}
+
+export namespace QrCodeSchema {
+    /**
+     * Error correction level.  L recovers 7% of codewords, M 15%, Q 25% and H 30%.
+     */
+    export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+    export interface Options {
+        /**
+         * Error correction level.  Defaults to L.
+         */
+        errorCorrection?: ErrorCorrectionLevel;
+
+        /**
+         * QR version from 1 (21×21 modules) to 40 (177×177 modules).  Defaults to the smallest version that holds the
+         * data.
+         */
+        version?: number;
+
+        /**
+         * Data mask from 0 to 7, or "auto" to select the mask with the lowest penalty.  Defaults to 0 so output is
+         * stable across releases.
+         */
+        mask?: number | "auto";
+    }
+
+    export interface ImageOptions extends Options {
+        /**
+         * Light modules surrounding the symbol.  Defaults to 4.
+         */
+        margin?: number;
+
+        /**
+         * Pixels per module.  Defaults to 8 for PNG and 1 for SVG.
+         */
+        scale?: number;
+    }
+}
+
+export const QrCode = new QrCodeSchema();
+
+/**
+ * Modules of a QR symbol.  Tracks function patterns so data placement may skip them.
+ */
+class QrSymbol {
+    readonly size: number;
+    readonly modules: boolean[][];
+    readonly reserved: boolean[][];
+
+    constructor(readonly version: number) {
+        const size = (this.size = version * 4 + 17);
+        this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+        this.reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+        // Timing patterns
+        for (let i = 0; i < size; i++) {
+            this.#set(6, i, i % 2 === 0);
+            this.#set(i, 6, i % 2 === 0);
+        }
+
+        // Finder patterns with separators
+        for (const [cx, cy] of [
+            [3, 3],
+            [size - 4, 3],
+            [3, size - 4],
+        ]) {
+            for (let dy = -4; dy <= 4; dy++) {
+                for (let dx = -4; dx <= 4; dx++) {
+                    const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                    if (this.#contains(cx + dx, cy + dy)) {
+                        this.#set(cx + dx, cy + dy, distance !== 2 && distance !== 4);
                     }
-                } else {
-                    if (y === 20 || qrCode[y + 1][x] === 1) {
-                        result.push("█");
-                    } else {
-                        result.push("▀");
+                }
+            }
+        }
+
+        // Alignment patterns except where they would overlap finder patterns
+        const positions = alignmentPositionsOf(version);
+        const last = positions.length - 1;
+        positions.forEach((cx, i) =>
+            positions.forEach((cy, j) => {
+                if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+                    return;
+                }
+                for (let dy = -2; dy <= 2; dy++) {
+                    for (let dx = -2; dx <= 2; dx++) {
+                        this.#set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
                     }
                 }
+            }),
+        );
+
+        // Reserve format information; drawFormat fills it in later
+        this.#drawFormatBits(0);
+
+        // Version information
+        if (version >= 7) {
+            let remainder = version;
+            for (let i = 0; i < 12; i++) {
+                remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+            }
+            const bits = (version << 12) | remainder;
+            for (let i = 0; i < 18; i++) {
+                const dark = ((bits >>> i) & 1) !== 0;
+                const a = size - 11 + (i % 3);
+                const b = Math.floor(i / 3);
+                this.#set(a, b, dark);
+                this.#set(b, a, dark);
             }
-            result.push("█\n");
         }
-        result.push("▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀▀\n");
-        return result.join("");
     }
 
-    private getCode(char: string) {
-        const code = ALPHABET.indexOf(char);
-        if (code === -1) throw new UnexpectedDataError(`Invalid character ${char}`);
-        return code;
+    drawFormat(level: QrCodeSchema.ErrorCorrectionLevel, mask: number) {
+        this.#drawFormatBits(formatBitsOf(ERROR_CORRECTION[level].format, mask));
+    }
+
+    readFormat(matrix: boolean[][]) {
+        const { size } = this;
+        const first = new Array<boolean>();
+        const second = new Array<boolean>();
+        this.#visitFormat((copy, i, x, y) => {
+            (copy === 0 ? first : second)[i] = matrix[y][x];
+        });
+
+        // Choose the valid format closest to either copy; format codewords correct up to three errors
+        let best: { level: QrCodeSchema.ErrorCorrectionLevel; mask: number } | undefined;
+        let bestDistance = 4;
+        for (const level of Object.keys(ERROR_CORRECTION) as QrCodeSchema.ErrorCorrectionLevel[]) {
+            for (let mask = 0; mask < MASKS.length; mask++) {
+                const bits = formatBitsOf(ERROR_CORRECTION[level].format, mask);
+                for (const copy of [first, second]) {
+                    let distance = 0;
+                    for (let i = 0; i < 15; i++) {
+                        if (copy[i] !== (((bits >>> i) & 1) !== 0)) distance++;
+                    }
+                    if (distance < bestDistance) {
+                        bestDistance = distance;
+                        best = { level, mask };
+                    }
+                }
+            }
+        }
+
+        if (best === undefined) {
+            throw new UnexpectedDataError(`Unreadable format information in ${size}×${size} QR code`);
+        }
+        return best;
     }
 
-    protected decodeInternal(_encoded: string): string {
-        throw new NotImplementedError("Method not implemented.");
+    /**
+     * Place codewords in the zigzag order of ISO/IEC 18004 § 7.7.3.
+     */
+    place(codewords: Uint8Array) {
+        let bit = 0;
+        this.#visitData((x, y) => {
+            if (bit < codewords.length * 8) {
+                this.modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) !== 0;
+            }
+            bit++;
+        });
     }
 
-    get(code: string): string {
-        return this.encode(code);
+    /**
+     * Read codewords in placement order.  Remainder bits are dropped.
+     */
+    read() {
+        const codewords = new Uint8Array(rawCodewordsOf(this.version));
+        let bit = 0;
+        this.#visitData((x, y) => {
+            if (bit < codewords.length * 8 && this.modules[y][x]) {
+                codewords[bit >>> 3] |= 0x80 >>> (bit & 7);
+            }
+            bit++;
+        });
+        return codewords;
+    }
+
+    /**
+     * Toggle data modules selected by a mask.  Applying the same mask twice restores the original modules.
+     */
+    applyMask(mask: number) {
+        const select = MASKS[mask];
+        this.#visitData((x, y) => {
+            if (select(x, y)) {
+                this.modules[y][x] = !this.modules[y][x];
+            }
+        });
+    }
+
+    /**
+     * Compute the penalty score per ISO/IEC 18004 § 7.8.3.1.
+     */
+    penalty() {
+        const { size, modules } = this;
+        let result = 0;
+
+        for (let i = 0; i < size; i++) {
+            result += linePenaltyOf(modules[i]);
+            result += linePenaltyOf(modules.map(row => row[i]));
+        }
+
+        let dark = 0;
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                const color = modules[y][x];
+                if (color) dark++;
+                if (
+                    x < size - 1 &&
+                    y < size - 1 &&
+                    color === modules[y][x + 1] &&
+                    color === modules[y + 1][x] &&
+                    color === modules[y + 1][x + 1]
+                ) {
+                    result += 3;
+                }
+            }
+        }
+
+        result += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+
+        return result;
+    }
+
+    #drawFormatBits(bits: number) {
+        this.#visitFormat((_copy, i, x, y) => this.#set(x, y, ((bits >>> i) & 1) !== 0));
+
+        // Dark module
+        this.#set(8, this.size - 8, true);
+    }
+
+    #visitFormat(visitor: (copy: number, index: number, x: number, y: number) => void) {
+        const { size } = this;
+
+        // Around the top left finder
+        for (let i = 0; i <= 5; i++) visitor(0, i, 8, i);
+        visitor(0, 6, 8, 7);
+        visitor(0, 7, 8, 8);
+        visitor(0, 8, 7, 8);
+        for (let i = 9; i < 15; i++) visitor(0, i, 14 - i, 8);
+
+        // Split between the other two finders
+        for (let i = 0; i < 8; i++) visitor(1, i, size - 1 - i, 8);
+        for (let i = 8; i < 15; i++) visitor(1, i, 8, size - 15 + i);
+    }
+
+    #visitData(visitor: (x: number, y: number) => void) {
+        const { size } = this;
+        for (let right = size - 1; right >= 1; right -= 2) {
+            // Skip the vertical timing pattern
+            if (right === 6) right = 5;
+
+            const upward = ((right + 1) & 2) === 0;
+            for (let vertical = 0; vertical < size; vertical++) {
+                const y = upward ? size - 1 - vertical : vertical;
+                for (let x = right; x >= right - 1; x--) {
+                    if (!this.reserved[y][x]) {
+                        visitor(x, y);
+                    }
+                }
+            }
+        }
+    }
+
+    #contains(x: number, y: number) {
+        return x >= 0 && x < this.size && y >= 0 && y < this.size;
+    }
+
+    #set(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark;
+        this.reserved[y][x] = true;
     }
 }
 
-export const QrCode = new QrCodeSchema();
+function alignmentPositionsOf(version: number) {
+    if (version === 1) {
+        return [];
+    }
+    const count = Math.floor(version / 7) + 2;
+    const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    for (let position = version * 4 + 10; result.length < count; position -= step) {
+        result.splice(1, 0, position);
+    }
+    return result;
+}
+
+function formatBitsOf(level: number, mask: number) {
+    const data = (level << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/**
+ * Codewords available for data and error correction.
+ */
+function rawCodewordsOf(version: number) {
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        modules -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) {
+            modules -= 36;
+        }
+    }
+    return Math.floor(modules / 8);
+}
+
+function blockLayoutOf(version: number, level: QrCodeSchema.ErrorCorrectionLevel) {
+    const { index } = ERROR_CORRECTION[level];
+    const blocks = EC_BLOCKS[index][version - 1];
+    const ecLength = EC_CODEWORDS_PER_BLOCK[index][version - 1];
+    const raw = rawCodewordsOf(version);
+    const shortBlocks = blocks - (raw % blocks);
+    const shortBlockLength = Math.floor(raw / blocks);
+    return {
+        blocks,
+        ecLength,
+        shortBlocks,
+        shortBlockLength,
+        dataLength: raw - ecLength * blocks,
+    };
+}
+
+function countBitsOf(mode: Mode, version: number) {
+    const group = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+    switch (mode) {
+        case Mode.Numeric:
+            return [10, 12, 14][group];
+
+        case Mode.Alphanumeric:
+            return [9, 11, 13][group];
+
+        case Mode.Byte:
+            return [8, 16, 16][group];
+
+        default:
+            throw new UnexpectedDataError(`Unsupported QR mode ${mode}`);
+    }
+}
+
+/**
+ * Encode data as a single alphanumeric segment padded to the data capacity.  Returns undefined if the data does not
+ * fit.
+ */
+function encodeSegment(data: string, version: number, level: QrCodeSchema.ErrorCorrectionLevel) {
+    const bits = new BitWriter();
+    const { length } = data;
+
+    bits.write(Mode.Alphanumeric, 4);
+    bits.write(length, countBitsOf(Mode.Alphanumeric, version));
+    for (let index = 0; index < length; index += 2) {
+        if (index + 1 < length) {
+            bits.write(45 * codeOf(data[index]) + codeOf(data[index + 1]), 11);
+        } else {
+            bits.write(codeOf(data[index]), 6);
+        }
+    }
+
+    const capacity = blockLayoutOf(version, level).dataLength * 8;
+    if (bits.length > capacity) {
+        return undefined;
+    }
+
+    // Terminator and padding
+    bits.write(Mode.Terminator, Math.min(4, capacity - bits.length));
+    bits.write(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+        bits.write(pad, 8);
+    }
+
+    return bits.toByteArray();
+}
+
+function decodeSegments(codewords: Uint8Array, version: number) {
+    const bits = new BitReader(codewords);
+    const result = new Array<string>();
+
+    while (bits.remaining >= 4) {
+        const mode = bits.read(4) as Mode;
+        if (mode === Mode.Terminator) {
+            break;
+        }
+
+        let count = bits.read(countBitsOf(mode, version));
+        switch (mode) {
+            case Mode.Numeric:
+                for (; count >= 3; count -= 3) {
+                    result.push(bits.read(10).toString().padStart(3, "0"));
+                }
+                if (count === 2) {
+                    result.push(bits.read(7).toString().padStart(2, "0"));
+                } else if (count === 1) {
+                    result.push(bits.read(4).toString());
+                }
+                break;
+
+            case Mode.Alphanumeric:
+                for (; count >= 2; count -= 2) {
+                    const value = bits.read(11);
+                    result.push(charOf(Math.floor(value / 45)), charOf(value % 45));
+                }
+                if (count === 1) {
+                    result.push(charOf(bits.read(6)));
+                }
+                break;
+
+            case Mode.Byte:
+                // ISO/IEC 8859-1 is the default character set
+                for (; count > 0; count--) {
+                    result.push(String.fromCharCode(bits.read(8)));
+                }
+                break;
+        }
+    }
+
+    return result.join("");
+}
+
+/**
+ * Split data into blocks, append error correction to each and interleave per ISO/IEC 18004 § 7.6.
+ */
+function addErrorCorrection(data: Uint8Array, version: number, level: QrCodeSchema.ErrorCorrectionLevel) {
+    const { blocks, ecLength, shortBlocks, shortBlockLength } = blockLayoutOf(version, level);
+    const reedSolomon = new ReedSolomon();
+
+    const dataBlocks = new Array<Uint8Array>();
+    const ecBlocks = new Array<Uint8Array>();
+    let offset = 0;
+    for (let i = 0; i < blocks; i++) {
+        const length = shortBlockLength - ecLength + (i < shortBlocks ? 0 : 1);
+        const block = data.slice(offset, offset + length);
+        offset += length;
+        dataBlocks.push(block);
+        ecBlocks.push(reedSolomon.computeErrorCorrection(block, ecLength));
+    }
+
+    return Uint8Array.from([...interleave(dataBlocks), ...interleave(ecBlocks)]);
+}
+
+/**
+ * Reverse {@link addErrorCorrection}, correcting errors in each block.
+ */
+function removeErrorCorrection(codewords: Uint8Array, version: number, level: QrCodeSchema.ErrorCorrectionLevel) {
+    const { blocks, ecLength, shortBlocks, shortBlockLength, dataLength } = blockLayoutOf(version, level);
+    const reedSolomon = new ReedSolomon();
+
+    const dataLengths = Array.from(
+        { length: blocks },
+        (_, i) => shortBlockLength - ecLength + (i < shortBlocks ? 0 : 1),
+    );
+    const dataBlocks = deinterleave(codewords.subarray(0, dataLength), dataLengths);
+    const ecBlocks = deinterleave(codewords.subarray(dataLength), new Array<number>(blocks).fill(ecLength));
+
+    const result = new Array<number>();
+    for (let i = 0; i < blocks; i++) {
+        const block = new Uint8Array([...dataBlocks[i], ...ecBlocks[i]]);
+        result.push(...reedSolomon.correctErrors(block, ecLength).subarray(0, dataLengths[i]));
+    }
+    return Uint8Array.from(result);
+}
+
+function interleave(blocks: Uint8Array[]) {
+    const result = new Array<number>();
+    const maxLength = Math.max(...blocks.map(block => block.length));
+    for (let i = 0; i < maxLength; i++) {
+        for (const block of blocks) {
+            if (i < block.length) {
+                result.push(block[i]);
+            }
+        }
+    }
+    return result;
+}
+
+function deinterleave(codewords: Uint8Array, lengths: number[]) {
+    const blocks = lengths.map(() => new Array<number>());
+    const maxLength = Math.max(...lengths);
+    let offset = 0;
+    for (let i = 0; i < maxLength; i++) {
+        blocks.forEach((block, j) => {
+            if (i < lengths[j]) {
+                block.push(codewords[offset++]);
+            }
+        });
+    }
+    return blocks;
+}
+
+/**
+ * Score runs of five or more modules of the same color and patterns resembling finders.
+ */
+function linePenaltyOf(line: boolean[]) {
+    let result = 0;
+
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+            run++;
+            continue;
+        }
+        if (run >= 5) {
+            result += run - 2;
+        }
+        run = 1;
+    }
+
+    // Dark-light-dark-dark-dark-light-dark with four light modules on either side; outside the symbol is light
+    const lightAt = (i: number) => !line[i];
+    const lightRange = (start: number) => [0, 1, 2, 3].every(offset => lightAt(start + offset));
+    for (let i = 0; i + 7 <= line.length; i++) {
+        if (
+            line[i] &&
+            !line[i + 1] &&
+            line[i + 2] &&
+            line[i + 3] &&
+            line[i + 4] &&
+            !line[i + 5] &&
+            line[i + 6] &&
+            (lightRange(i - 4) || lightRange(i + 7))
+        ) {
+            result += 40;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Render with half-block characters, two rows per line, with a light border.
+ */
+function renderText(matrix: boolean[][]) {
+    const size = matrix.length;
+    const result = new Array<string>();
+
+    result.push("▄".repeat(size + 2), "\n");
+    for (let y = 0; y < size; y += 2) {
+        result.push("█");
+        for (let x = 0; x < size; x++) {
+            const bottomLight = y + 1 === size || !matrix[y + 1][x];
+            if (matrix[y][x]) {
+                result.push(bottomLight ? "▄" : " ");
+            } else {
+                result.push(bottomLight ? "█" : "▀");
+            }
+        }
+        result.push("█\n");
+    }
+    result.push("▀".repeat(size + 2), "\n");
+
+    return result.join("");
+}
+
+/**
+ * Reverse {@link renderText}.
+ */
+function parseText(text: string) {
+    const lines = text.split("\n").filter(line => line.trim() !== "");
+    if (lines.length < 3) {
+        throw new UnexpectedDataError("Text does not contain a QR code");
+    }
+
+    const matrix = new Array<boolean[]>();
+    for (const line of lines.slice(1, -1)) {
+        const top = new Array<boolean>();
+        const bottom = new Array<boolean>();
+        for (const char of [...line].slice(1, -1)) {
+            switch (char) {
+                case "█":
+                    top.push(false);
+                    bottom.push(false);
+                    break;
+
+                case "▀":
+                    top.push(false);
+                    bottom.push(true);
+                    break;
+
+                case "▄":
+                    top.push(true);
+                    bottom.push(false);
+                    break;
+
+                case " ":
+                    top.push(true);
+                    bottom.push(true);
+                    break;
+
+                default:
+                    throw new UnexpectedDataError(`Invalid character "${char}" in QR code`);
+            }
+        }
+        matrix.push(top, bottom);
+    }
+
+    // The final row of an odd sized symbol is part of the border
+    if (matrix.length > 1 && matrix[matrix.length - 1].every(dark => !dark)) {
+        matrix.pop();
+    }
+
+    return matrix;
+}
+
+function trimQuietZone(matrix: boolean[][]) {
+    const isLight = (row: boolean[]) => row.every(dark => !dark);
+    let top = 0;
+    let bottom = matrix.length;
+    while (top < bottom && isLight(matrix[top])) top++;
+    while (bottom > top && isLight(matrix[bottom - 1])) bottom--;
+
+    const rows = matrix.slice(top, bottom);
+    let left = Infinity;
+    let right = 0;
+    for (const row of rows) {
+        const first = row.indexOf(true);
+        if (first !== -1) {
+            left = Math.min(left, first);
+            right = Math.max(right, row.lastIndexOf(true) + 1);
+        }
+    }
+    if (left === Infinity) {
+        throw new UnexpectedDataError("Bitmap does not contain a QR code");
+    }
+
+    return rows.map(row => row.slice(left, right));
+}
+
+function codeOf(char: string) {
+    const code = ALPHABET.indexOf(char);
+    if (code === -1) throw new UnexpectedDataError(`Invalid character ${char}`);
+    return code;
+}
+
+function charOf(code: number) {
+    if (code >= ALPHABET.length) throw new UnexpectedDataError(`Invalid alphanumeric code ${code}`);
+    return ALPHABET[code];
+}
+
+class BitWriter {
+    #bits = new Array<number>();
+
+    get length() {
+        return this.#bits.length;
+    }
+
+    write(value: number, bitCount: number) {
+        for (let i = bitCount - 1; i >= 0; i--) {
+            this.#bits.push((value >>> i) & 1);
+        }
+    }
+
+    toByteArray() {
+        const result = new Uint8Array(Math.ceil(this.#bits.length / 8));
+        this.#bits.forEach((bit, i) => (result[i >>> 3] |= bit << (7 - (i & 7))));
+        return result;
+    }
+}
+
+class BitReader {
+    #bytes: Uint8Array;
+    #offset = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.#bytes = bytes;
+    }
+
+    get remaining() {
+        return this.#bytes.length * 8 - this.#offset;
+    }
+
+    read(bitCount: number) {
+        if (bitCount > this.remaining) {
+            throw new UnexpectedDataError("QR code data is truncated");
+        }
+        let result = 0;
+        for (let i = 0; i < bitCount; i++, this.#offset++) {
+            result = (result << 1) | ((this.#bytes[this.#offset >>> 3] >>> (7 - (this.#offset & 7))) & 1);
+        }
+        return result;
+    }
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let crcTable: Uint32Array | undefined;
+
+function crc32Of(bytes: Uint8Array) {
+    if (crcTable === undefined) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writePngChunk(writer: DataWriter<Endian.Big>, type: string, data: Uint8Array) {
+    const typed = new Uint8Array(4 + data.length);
+    for (let i = 0; i < 4; i++) typed[i] = type.charCodeAt(i);
+    typed.set(data, 4);
+
+    writer.writeUInt32(data.length);
+    writer.writeByteArray(typed);
+    writer.writeUInt32(crc32Of(typed));
+}
+
+/**
+ * Wrap data in a zlib stream of uncompressed deflate blocks.  Bitmaps of QR codes are small so compression is not
+ * worth the complexity.
+ */
+function zlibStore(data: Uint8Array) {
+    const writer = new DataWriter(Endian.Little);
+    writer.writeUInt8(0x78);
+    writer.writeUInt8(0x01);
+
+    let offset = 0;
+    do {
+        const length = Math.min(0xffff, data.length - offset);
+        writer.writeUInt8(offset + length >= data.length ? 1 : 0);
+        writer.writeUInt16(length);
+        writer.writeUInt16(~length & 0xffff);
+        writer.writeByteArray(data.subarray(offset, offset + length));
+        offset += length;
+    } while (offset < data.length);
+
+    // Adler-32 is big endian unlike the block headers
+    let a = 1;
+    let b = 0;
+    for (const byte of data) {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+    }
+    const result = writer.toByteArray();
+    const checksum = new Uint8Array(4);
+    new DataView(checksum.buffer).setUint32(0, ((b << 16) | a) >>> 0);
+    return new Uint8Array([...result, ...checksum]);
+}
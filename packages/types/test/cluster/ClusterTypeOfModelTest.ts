@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventPriority, TlvNoResponse } from "#cluster/Cluster.js";
+import { ClusterTypeOfModel } from "#cluster/ClusterTypeOfModel.js";
+import { ClusterComposer } from "#cluster/mutation/ClusterComposer.js";
+import { AccessLevel, ChipXml } from "#model";
+import { BitFlag } from "#schema/BitmapSchema.js";
+import { TlvNoArguments } from "#tlv/TlvNoArguments.js";
+
+const VENDOR_XML = `
+<configurator>
+    <bitmap name="Flags" type="bitmap8">
+        <field name="Sparkle" mask="0x1"/>
+        <field name="Level" mask="0x6"/>
+    </bitmap>
+    <struct name="Entry" isFabricScoped="true">
+        <item fieldId="1" name="Label" type="char_string" length="8"/>
+        <item fieldId="2" name="Weight" type="int16s" optional="true" isNullable="true"/>
+    </struct>
+    <cluster>
+        <name>Vendor</name>
+        <code>0xFFF1FC01</code>
+        <globalAttribute side="either" code="0xFFFD" value="2"/>
+        <features>
+            <feature bit="0" code="GLT" name="Glitter"/>
+        </features>
+        <attribute side="server" code="0x0000" type="int8u" writable="true">
+            <description>Level</description>
+            <access op="write" privilege="manage"/>
+        </attribute>
+        <attribute side="server" code="0x0001" type="array" entryType="Entry" optional="true">Entries</attribute>
+        <attribute side="server" code="0x0002" type="Flags">
+            <description>Glitter</description>
+            <mandatoryConform><feature name="GLT"/></mandatoryConform>
+        </attribute>
+        <command source="client" code="0x00" name="Ping" optional="false"/>
+        <command source="client" code="0x01" name="Add" response="AddResponse" optional="false" mustUseTimedInvoke="true">
+            <arg name="Amount" type="int16u"/>
+        </command>
+        <command source="server" code="0x02" name="AddResponse" optional="false">
+            <arg name="Total" type="int32u"/>
+        </command>
+        <event side="server" code="0x0000" name="Alarm" priority="critical" optional="true">
+            <field id="0" name="Code" type="enum8"/>
+        </event>
+    </cluster>
+</configurator>
+`;
+
+describe("ClusterTypeOfModel", () => {
+    const [model] = ChipXml.clustersOf(VENDOR_XML);
+    const cluster = ClusterTypeOfModel(model);
+
+    it("defines identity and features", () => {
+        expect(cluster.id).equals(0xfff1fc01);
+        expect(cluster.name).equals("Vendor");
+        expect(cluster.revision).equals(2);
+        expect(cluster.features).deep.equals({ glitter: BitFlag(0) });
+        expect(cluster.supportedFeatures).deep.equals({});
+    });
+
+    it("defines attributes", () => {
+        const { level, entries, glitter, clusterRevision } = cluster.attributes;
+
+        expect(level.id).equals(0);
+        expect(level.optional).false;
+        expect(level.writable).true;
+        expect(level.writeAcl).equals(AccessLevel.Manage);
+        expect(level.readAcl).equals(AccessLevel.View);
+
+        expect(entries.optional).true;
+        expect(entries.writable).false;
+
+        expect(glitter).undefined;
+        expect(clusterRevision.id).equals(0xfffd);
+    });
+
+    it("encodes attribute values", () => {
+        const { schema } = cluster.attributes.entries;
+        const value = [
+            { label: "one", weight: null, fabricIndex: 1 },
+            { label: "two", weight: -3, fabricIndex: 2 },
+        ];
+
+        expect(schema.decode(schema.encode(value))).deep.equals(value);
+        expect(() => schema.validate([{ label: "way too long", fabricIndex: 1 }])).throws();
+    });
+
+    it("defines commands", () => {
+        const { ping, add } = cluster.commands;
+
+        expect(ping.requestSchema).equals(TlvNoArguments);
+        expect(ping.responseSchema).equals(TlvNoResponse);
+
+        expect(add.requestId).equals(1);
+        expect(add.responseId).equals(2);
+        expect(add.timed).true;
+        expect(add.invokeAcl).equals(AccessLevel.Operate);
+        expect(add.requestSchema.decode(add.requestSchema.encode({ amount: 4 }))).deep.equals({ amount: 4 });
+        expect(add.responseSchema.decode(add.responseSchema.encode({ total: 9 }))).deep.equals({ total: 9 });
+        expect(cluster.commands.addResponse).undefined;
+    });
+
+    it("defines events", () => {
+        const { alarm } = cluster.events;
+
+        expect(alarm.optional).true;
+        expect(alarm.priority).equals(EventPriority.Critical);
+        expect(alarm.schema.decode(alarm.schema.encode({ code: 3 }))).deep.equals({ code: 3 });
+    });
+
+    it("installs feature elements with features", () => {
+        const composed = new ClusterComposer(cluster).compose(["Glitter"]);
+
+        expect(composed.supportedFeatures).deep.equals({ glitter: true });
+
+        const { glitter } = composed.attributes;
+        expect(glitter.optional).false;
+
+        const value = { sparkle: true, level: 2 };
+        expect(glitter.schema.decode(glitter.schema.encode(value))).deep.equals(value);
+    });
+});
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * Copyright 2022-2024 Matter.js Authors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NodeId } from "#datatype/NodeId.js";
+import { UnexpectedDataError } from "#general";
+
+describe("NodeId", () => {
+    it("should successfully extract group ID from a group NodeId", () => {
+        const nodeId = NodeId.fromGroupNodeId(0x1234);
+        expect(NodeId.isGroupNodeId(nodeId)).equals(true);
+        expect(NodeId.extractAsGroupId(nodeId)).equals(0x1234);
+    });
+
+    it("should throw an error when extracting a group ID from an operational NodeId", () => {
+        expect(NodeId.isGroupNodeId(NodeId(0x10001))).equals(false);
+        expect(() => NodeId.extractAsGroupId(NodeId(0x10001))).to.throw(UnexpectedDataError);
+    });
+});
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { CommissioningFlowType, QrPairingCodeCodec } from "#schema/PairingCodeSchema.js";
 import { QrCode } from "#schema/QrCodeSchema.js";
 
 const QR_CODE = [
@@ -14,7 +15,7 @@ const QR_CODE = [
     "█▄▄▄▄▄▄▄█ █ ▀▄█▄▄▄▄▄▄▄█",
     "█▄▄ ▀▄▄▄▄ ▀ █  ▄▀██ █▀█",
     "█▀▄▀▄ ▄▄ ▀▀█ ▀ ▀   ▀█▀█",
-    "█▄▄▄██▄▄▄█▀▄▀ ▀▄▄ █▄▄▀█",
+    "█▄▄▄██▄▄▄▀▀▄▀ ▀▄▄ █▄▄▀█",
     "█ ▄▄▄▄▄ █   █▄█▄▀█▀ █ █",
     "█ █   █ █▄▀▄█▄ ▄▀▄▀▀▀██",
     "█ █▄▄▄█ █ █▀█▄█  ▀▄▀▀ █",
@@ -23,12 +24,105 @@ const QR_CODE = [
     "",
 ].join("\n");
 
+const PAIRING_CODE = "MT:6FCJ142C00KA0648G00";
+
 describe("QrCodeSchema", () => {
     describe("encode", () => {
         it("encodes a string", () => {
-            const result = QrCode.encode("MT:6FCJ142C00KA0648G00");
+            const result = QrCode.encode(PAIRING_CODE);
 
             expect(result).equal(QR_CODE);
         });
     });
+
+    describe("encodeMatrix", () => {
+        it("grows the version for TLV vendor data", () => {
+            const code = QrPairingCodeCodec.encode([
+                {
+                    version: 0,
+                    vendorId: 0xfff1,
+                    productId: 0x8000,
+                    flowType: CommissioningFlowType.Standard,
+                    discoveryCapabilities: 4,
+                    discriminator: 3840,
+                    passcode: 20202021,
+                    tlvData: QrPairingCodeCodec.encodeTlvData({
+                        serialNumber: "SN-0123456789ABCDEF",
+                        numberOfDevices: 1,
+                        commissioningTimeout: 600,
+                    }),
+                },
+            ]);
+
+            const matrix = QrCode.encodeMatrix(code);
+
+            expect(matrix.length).greaterThan(21);
+            expect(QrCode.decodeMatrix(matrix)).equal(code);
+        });
+
+        it("honors version and error correction", () => {
+            const matrix = QrCode.encodeMatrix(PAIRING_CODE, { version: 7, errorCorrection: "H", mask: "auto" });
+
+            expect(matrix.length).equal(45);
+            expect(QrCode.decodeMatrix(matrix)).equal(PAIRING_CODE);
+        });
+
+        it("rejects data exceeding the version", () => {
+            expect(() => QrCode.encodeMatrix(PAIRING_CODE, { errorCorrection: "H", version: 1 })).throws(
+                "Data does not fit in QR version 1 at error correction H",
+            );
+        });
+    });
+
+    describe("decode", () => {
+        it("decodes text", () => {
+            expect(QrCode.decode(QR_CODE)).equal(PAIRING_CODE);
+        });
+
+        it("decodes every mask", () => {
+            for (let mask = 0; mask < 8; mask++) {
+                expect(QrCode.decodeMatrix(QrCode.encodeMatrix(PAIRING_CODE, { mask }))).equal(PAIRING_CODE);
+            }
+        });
+
+        it("corrects damaged modules and ignores the quiet zone", () => {
+            const matrix = QrCode.encodeMatrix(PAIRING_CODE, { errorCorrection: "M" });
+            for (const [x, y] of [
+                [20, 20],
+                [17, 12],
+                [10, 15],
+            ]) {
+                matrix[y][x] = !matrix[y][x];
+            }
+            const padded = [
+                new Array(25).fill(false),
+                ...matrix.map(row => [false, false, ...row, false, false]),
+                new Array(25).fill(false),
+            ];
+
+            expect(QrCode.decodeMatrix(padded)).equal(PAIRING_CODE);
+        });
+    });
+
+    describe("encodeSvg", () => {
+        it("renders dark modules with margin", () => {
+            const svg = QrCode.encodeSvg(PAIRING_CODE, { scale: 4 });
+
+            expect(svg).match(/^<svg [^>]*width="116" height="116" viewBox="0 0 29 29"/);
+            expect(svg).contains('<path d="M4 4h7v1h-7z');
+        });
+    });
+
+    describe("encodePng", () => {
+        it("renders a PNG", () => {
+            const png = QrCode.encodePng(PAIRING_CODE, { scale: 2, margin: 1 });
+            const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+
+            expect(Array.from(png.slice(0, 8))).deep.equal([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+            expect(String.fromCharCode(...png.slice(12, 16))).equal("IHDR");
+            expect(view.getUint32(16)).equal(46);
+            expect(view.getUint32(20)).equal(46);
+            expect(String.fromCharCode(...png.slice(png.length - 8, png.length - 4))).equal("IEND");
+        });
+    });
 });